@@ -0,0 +1,140 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const { refundProviderPayment } = vi.hoisted(() => ({
+  refundProviderPayment: vi.fn(),
+}));
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    payment: { findUnique: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+    appointment: { findUnique: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/payments/PaymentService", () => ({
+  PaymentService: class {
+    registerProvider() {}
+    refundPayment = refundProviderPayment;
+  },
+}));
+
+vi.mock("@/lib/payments/stripe/StripeProvider", () => ({ StripeProvider: class {} }));
+vi.mock("@/lib/payments/paypal/PayPalProvider", () => ({ PayPalProvider: class {} }));
+vi.mock("@/lib/payments/mercadopago/MercadoPagoProvider", () => ({
+  MercadoPagoProvider: class {},
+}));
+
+vi.mock("@/lib/notification-utils", () => ({
+  createTemplatedNotification: vi.fn(),
+}));
+
+vi.mock("@/lib/waitlist", () => ({
+  offerFreedSlot: vi.fn(),
+}));
+
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import { isRefundablePayment, refundUnavailableSlot } from "@/lib/appointment-cancellation";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const scheduledAt = new Date("2025-03-14T17:00:00Z");
+
+const payment = {
+  id: "payment-1",
+  appointmentId: "appointment-1",
+  amount: 85000,
+  refundAmount: null,
+  status: "COMPLETED",
+  provider: "STRIPE",
+  stripePaymentId: "pi_123",
+  mercadopagoId: null,
+  paymentData: { stripePaymentIntent: "pi_123" },
+  appointment: { id: "appointment-1", status: "CANCELLED", scheduledAt },
+};
+
+describe("Appointment cancellation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.payment.findUnique.mockResolvedValue(payment);
+    mockPrisma.payment.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.appointment.findUnique.mockResolvedValue({
+      patient: { id: "patient-1", timezone: "America/Mexico_City", locale: "es" },
+      doctor: { user: { name: "Ana García" } },
+    });
+  });
+
+  it("should refund completed and partially refunded payments", () => {
+    expect(isRefundablePayment({ status: "COMPLETED" })).toBe(true);
+    expect(isRefundablePayment({ status: "PARTIALLY_REFUNDED" })).toBe(true);
+    expect(isRefundablePayment({ status: "REFUNDED" })).toBe(false);
+    expect(isRefundablePayment({ status: "PENDING" })).toBe(false);
+    expect(isRefundablePayment(null)).toBe(false);
+  });
+
+  describe("refundUnavailableSlot", () => {
+    it("should refund the payment, cancel the appointment and tell the patient", async () => {
+      refundProviderPayment.mockResolvedValue({
+        success: true,
+        refundId: "re_123",
+        status: "succeeded",
+      });
+
+      await refundUnavailableSlot("payment-1");
+
+      expect(refundProviderPayment).toHaveBeenCalledWith(
+        "stripe",
+        "pi_123",
+        85000,
+        expect.any(String)
+      );
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+        where: { id: "payment-1" },
+        data: expect.objectContaining({
+          status: "REFUNDED",
+          refundAmount: 85000,
+          paymentData: expect.objectContaining({
+            stripePaymentIntent: "pi_123",
+            refundId: "re_123",
+          }),
+        }),
+      });
+      expect(mockPrisma.appointment.update).toHaveBeenCalledWith({
+        where: { id: "appointment-1" },
+        data: expect.objectContaining({ status: "CANCELLED" }),
+      });
+      expect(createTemplatedNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: "patient-1",
+          template: "payment.slot_unavailable_refund",
+          variables: expect.objectContaining({ doctorName: "Ana García" }),
+        })
+      );
+    });
+
+    it("should refund only once when the webhook is delivered again", async () => {
+      mockPrisma.payment.updateMany.mockResolvedValue({ count: 0 });
+
+      await refundUnavailableSlot("payment-1");
+
+      expect(refundProviderPayment).not.toHaveBeenCalled();
+      expect(mockPrisma.appointment.update).not.toHaveBeenCalled();
+    });
+
+    it("should still cancel the appointment when the refund fails", async () => {
+      refundProviderPayment.mockResolvedValue({ success: false, error: "card_declined" });
+
+      await refundUnavailableSlot("payment-1");
+
+      expect(mockPrisma.payment.update).not.toHaveBeenCalled();
+      expect(mockPrisma.appointment.update).toHaveBeenCalledWith({
+        where: { id: "appointment-1" },
+        data: expect.objectContaining({ status: "CANCELLED" }),
+      });
+      expect(createTemplatedNotification).toHaveBeenCalled();
+    });
+  });
+});
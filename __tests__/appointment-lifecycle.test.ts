@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AppointmentTransitionError,
+  assertTransition,
+  getActualDuration,
+  transitionAppointment,
+} from "@/lib/appointment-lifecycle";
+
+const tx: any = {
+  appointment: { updateMany: vi.fn() },
+  chatRoom: { updateMany: vi.fn() },
+};
+
+const now = new Date("2025-03-10T17:40:00Z");
+
+describe("Appointment lifecycle", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tx.appointment.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("should only allow the transitions of the consultation lifecycle", () => {
+    expect(() => assertTransition("CONFIRMED", "CHECKED_IN", "DOCTOR")).not.toThrow();
+    expect(() => assertTransition("CHECKED_IN", "IN_CONSULTATION", "DOCTOR")).not.toThrow();
+    expect(() => assertTransition("CONFIRMED", "IN_CONSULTATION", "ADMIN")).not.toThrow();
+    expect(() => assertTransition("IN_CONSULTATION", "COMPLETED", "DOCTOR")).not.toThrow();
+
+    expect(() => assertTransition("PENDING", "IN_CONSULTATION", "DOCTOR")).toThrow(
+      "Una cita pendiente no puede quedar en consulta"
+    );
+    expect(() => assertTransition("CONFIRMED", "COMPLETED", "DOCTOR")).toThrow(
+      AppointmentTransitionError
+    );
+    expect(() => assertTransition("COMPLETED", "CANCELLED", "ADMIN")).toThrow(
+      AppointmentTransitionError
+    );
+  });
+
+  it("should let patients cancel but not drive the consultation", () => {
+    expect(() => assertTransition("CONFIRMED", "CANCELLED", "PATIENT")).not.toThrow();
+    expect(() => assertTransition("PENDING", "CONFIRMED", "PATIENT")).toThrow(
+      "Solo el doctor puede actualizar el avance de la consulta"
+    );
+    expect(() => assertTransition("CONFIRMED", "CHECKED_IN", "PATIENT")).toThrow(
+      AppointmentTransitionError
+    );
+  });
+
+  it("should stamp the check-in and keep the chat open", async () => {
+    await transitionAppointment(
+      tx,
+      { id: "appointment-1", status: "CONFIRMED", startedAt: null },
+      "CHECKED_IN",
+      now
+    );
+
+    expect(tx.appointment.updateMany).toHaveBeenCalledWith({
+      where: { id: "appointment-1", status: "CONFIRMED" },
+      data: { status: "CHECKED_IN", checkedInAt: now },
+    });
+    expect(tx.chatRoom.updateMany).toHaveBeenCalledWith({
+      where: { appointmentId: "appointment-1", isActive: false },
+      data: { isActive: true, endedAt: null },
+    });
+  });
+
+  it("should record the actual duration and close the chat when finished", async () => {
+    await transitionAppointment(
+      tx,
+      {
+        id: "appointment-1",
+        status: "IN_CONSULTATION",
+        startedAt: new Date("2025-03-10T17:05:30Z"),
+      },
+      "COMPLETED",
+      now
+    );
+
+    expect(tx.appointment.updateMany).toHaveBeenCalledWith({
+      where: { id: "appointment-1", status: "IN_CONSULTATION" },
+      data: { status: "COMPLETED", finishedAt: now, actualDuration: 35 },
+    });
+    expect(tx.chatRoom.updateMany).toHaveBeenCalledWith({
+      where: { appointmentId: "appointment-1", isActive: true },
+      data: { isActive: false, endedAt: now },
+    });
+    expect(getActualDuration(now, now)).toBe(1);
+  });
+
+  it("should fail when the appointment changed status meanwhile", async () => {
+    tx.appointment.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      transitionAppointment(
+        tx,
+        { id: "appointment-1", status: "CONFIRMED", startedAt: null },
+        "IN_CONSULTATION",
+        now
+      )
+    ).rejects.toThrow(AppointmentTransitionError);
+    expect(tx.chatRoom.updateMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import { Prisma } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    appointment: { findMany: vi.fn() },
+    appointmentReminder: { create: vi.fn(), update: vi.fn(), delete: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/notification-utils", () => ({
+  createTemplatedNotification: vi.fn(),
+}));
+
+import {
+  buildReminderTemplate,
+  getDueReminderKind,
+  getReminderChannels,
+  isWithinQuietHours,
+  sendAppointmentReminders,
+} from "@/lib/appointment-reminders";
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import { renderNotificationTemplate } from "@/lib/notifications/templates";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T18:00:00Z"); // 12:00 en Ciudad de México
+
+const preferences: any = {
+  email: true,
+  sms: false,
+  whatsapp: false,
+  browser: true,
+  appointmentReminders: true,
+  quietHoursEnabled: false,
+  quietHoursStart: "22:00",
+  quietHoursEnd: "08:00",
+};
+
+function buildAppointment(overrides: any = {}): any {
+  return {
+    id: "appointment-1",
+    type: "IN_PERSON",
+    status: "CONFIRMED",
+    duration: 30,
+    updatedAt: new Date("2025-03-01T12:00:00Z"),
+    scheduledAt: new Date("2025-03-11T17:00:00Z"),
+    doctor: {
+      address: "Av. Reforma 123",
+      city: "Ciudad de México",
+      state: "CDMX",
+      zipCode: "06600",
+      videoCallLink: null,
+      user: {
+        id: "doctor-user-1",
+        name: "Ana García",
+        phone: null,
+        timezone: "America/Mexico_City",
+        notificationPreferences: preferences,
+      },
+    },
+    patient: {
+      id: "patient-1",
+      name: "Juan Pérez",
+      phone: "5512345678",
+      timezone: "America/Mexico_City",
+      locale: "es",
+      notificationPreferences: preferences,
+      patientProfile: null,
+    },
+    ...overrides,
+  };
+}
+
+describe("Appointment reminders", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    let nextId = 0;
+    mockPrisma.appointmentReminder.create.mockImplementation(async () => ({
+      id: `reminder-${++nextId}`,
+    }));
+    vi.mocked(createTemplatedNotification).mockImplementation(
+      async (data: any) => ({ id: `notification-${data.type}` }) as any
+    );
+  });
+
+  it("should pick the 24h reminder the day before and the 1h one in the last hour", () => {
+    const hour = 60 * 60 * 1000;
+    expect(getDueReminderKind(new Date(now.getTime() + 23 * hour), now)).toBe("DAY_BEFORE");
+    expect(getDueReminderKind(new Date(now.getTime() + 30 * 60 * 1000), now)).toBe(
+      "HOUR_BEFORE"
+    );
+    expect(getDueReminderKind(new Date(now.getTime() + 25 * hour), now)).toBeNull();
+    expect(getDueReminderKind(new Date(now.getTime() - hour), now)).toBeNull();
+  });
+
+  it("should evaluate quiet hours in the user's time zone across midnight", () => {
+    const quiet = { ...preferences, quietHoursEnabled: true };
+
+    // 23:30 en Ciudad de México
+    expect(
+      isWithinQuietHours(quiet, new Date("2025-03-11T05:30:00Z"), "America/Mexico_City")
+    ).toBe(true);
+    expect(isWithinQuietHours(quiet, now, "America/Mexico_City")).toBe(false);
+    expect(isWithinQuietHours(quiet, now, "Asia/Tokyo")).toBe(true);
+    expect(isWithinQuietHours(preferences, now, "Asia/Tokyo")).toBe(false);
+  });
+
+  it("should only use phone channels when the user has a phone", () => {
+    const all = { email: true, sms: true, whatsapp: true, browser: false };
+
+    expect(getReminderChannels(all, "5512345678")).toEqual(["EMAIL", "SMS", "WHATSAPP"]);
+    expect(getReminderChannels(all, null)).toEqual(["EMAIL"]);
+    expect(getReminderChannels(null, null)).toEqual(["EMAIL", "BROWSER"]);
+  });
+
+  it("should include the video link or the address in the message", () => {
+    const render = ({ template, locale, variables }: any) =>
+      renderNotificationTemplate(template, { locale, channel: "EMAIL", variables });
+    const virtual = render(
+      buildReminderTemplate(
+        buildAppointment({
+          type: "VIRTUAL",
+          doctor: { ...buildAppointment().doctor, videoCallLink: "https://meet.example.com/ana" },
+        }),
+        "PATIENT"
+      )
+    );
+    const doctorAppointment = buildAppointment();
+    doctorAppointment.doctor.user = { ...doctorAppointment.doctor.user, locale: "en" };
+    const inPerson = render(buildReminderTemplate(doctorAppointment, "DOCTOR"));
+
+    expect(virtual.message).toContain("Dr. Ana García el martes, 11 de marzo de 2025");
+    expect(virtual.message).toContain(
+      "Enlace de la videoconsulta: https://meet.example.com/ana"
+    );
+    expect(inPerson.message).toContain("Juan Pérez on Tuesday, March 11, 2025 at 11:00 AM CST");
+    expect(inPerson.message).toContain(
+      "Address: Av. Reforma 123, Ciudad de México, CDMX, 06600"
+    );
+  });
+
+  it("should send each reminder once per recipient and channel", async () => {
+    mockPrisma.appointment.findMany.mockResolvedValue([buildAppointment()]);
+    mockPrisma.appointmentReminder.create
+      .mockResolvedValueOnce({ id: "reminder-1" })
+      .mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+          code: "P2002",
+          clientVersion: "test",
+        })
+      );
+
+    const summary = await sendAppointmentReminders(now);
+
+    expect(summary).toEqual({ appointments: 1, sent: 2, deferred: 0 });
+    // El aviso en la app para el paciente ya se había enviado
+    expect(createTemplatedNotification).toHaveBeenCalledTimes(3);
+    expect(mockPrisma.appointmentReminder.create).toHaveBeenCalledWith({
+      data: {
+        appointmentId: "appointment-1",
+        userId: "patient-1",
+        kind: "DAY_BEFORE",
+        channel: "EMAIL",
+        scheduledFor: new Date("2025-03-11T17:00:00Z"),
+      },
+    });
+    expect(mockPrisma.appointmentReminder.update).toHaveBeenCalledWith({
+      where: { id: "reminder-1" },
+      data: { notificationId: "notification-EMAIL" },
+    });
+  });
+
+  it("should release the claim when the notification can't be created", async () => {
+    mockPrisma.appointment.findMany.mockResolvedValue([buildAppointment()]);
+    mockPrisma.appointmentReminder.create.mockResolvedValueOnce({ id: "reminder-1" });
+    vi.mocked(createTemplatedNotification).mockRejectedValueOnce(
+      new Error("Template not found")
+    );
+
+    const summary = await sendAppointmentReminders(now);
+
+    // El médico sí recibe su recordatorio
+    expect(summary).toEqual({ appointments: 1, sent: 1, deferred: 0 });
+    expect(mockPrisma.appointmentReminder.delete).toHaveBeenCalledWith({
+      where: { id: "reminder-1" },
+    });
+  });
+
+  it("should defer reminders during quiet hours and skip users who opted out", async () => {
+    const appointment = buildAppointment();
+    appointment.patient.notificationPreferences = { ...preferences, quietHoursEnabled: true };
+    appointment.doctor.user.notificationPreferences = {
+      ...preferences,
+      appointmentReminders: false,
+    };
+    mockPrisma.appointment.findMany.mockResolvedValue([appointment]);
+
+    const summary = await sendAppointmentReminders(new Date("2025-03-11T05:30:00Z"));
+
+    expect(summary).toEqual({ appointments: 1, sent: 0, deferred: 1 });
+    expect(mockPrisma.appointmentReminder.create).not.toHaveBeenCalled();
+    expect(createTemplatedNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,305 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    reschedulePolicy: { findUnique: vi.fn() },
+    slotHold: {
+      findUnique: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+    },
+    appointment: { update: vi.fn() },
+    appointmentReschedule: {
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+    payment: { update: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/appointment-series", () => ({
+  checkSeriesOccurrences: vi.fn(),
+}));
+
+vi.mock("@/lib/appointment-cancellation", () => ({
+  refundPayment: vi.fn(),
+  reverseRefundedSplit: vi.fn(),
+}));
+
+vi.mock("@/lib/waitlist", () => ({
+  offerFreedSlot: vi.fn(),
+}));
+
+vi.mock("@/lib/notification-utils", () => ({
+  createNotification: vi.fn(),
+}));
+
+import {
+  DEFAULT_RESCHEDULE_POLICY,
+  evaluateReschedule,
+  RescheduleError,
+  rescheduleAppointment,
+} from "@/lib/appointment-reschedule";
+import { checkSeriesOccurrences } from "@/lib/appointment-series";
+import { refundPayment, reverseRefundedSplit } from "@/lib/appointment-cancellation";
+import { offerFreedSlot } from "@/lib/waitlist";
+import { createNotification } from "@/lib/notification-utils";
+import { SlotUnavailableError } from "@/lib/slot-holds";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T15:00:00Z");
+const payment: any = {
+  id: "payment-1",
+  provider: "STRIPE",
+  status: "COMPLETED",
+  amount: 80000,
+  refundAmount: null,
+  paymentData: {},
+};
+const appointment: any = {
+  id: "appointment-1",
+  patientId: "patient-1",
+  doctorId: "doctor-1",
+  type: "IN_PERSON",
+  status: "CONFIRMED",
+  scheduledAt: new Date("2025-03-12T16:00:00Z"),
+  duration: 30,
+  price: 80000,
+  rescheduleCount: 0,
+  payment,
+  patient: { id: "patient-1", name: "Juan Pérez", timezone: "America/Mexico_City" },
+  doctor: {
+    id: "doctor-1",
+    userId: "doctor-user-1",
+    acceptsInPerson: true,
+    acceptsVirtual: true,
+    acceptsHomeVisits: false,
+    priceInPerson: 80000,
+    priceVirtual: 60000,
+    priceHomeVisit: null,
+    durationInPerson: 30,
+    durationVirtual: 20,
+    durationHomeVisit: 60,
+    user: { id: "doctor-user-1", name: "Dra. Ana López", timezone: "America/Mexico_City" },
+  },
+};
+
+describe("Appointment reschedule", () => {
+  describe("evaluateReschedule", () => {
+    const params = {
+      scheduledAt: new Date("2025-03-12T16:00:00Z"),
+      rescheduleCount: 0,
+      previousPrice: 80000,
+      consultationPrice: 80000,
+      payment,
+      rescheduledBy: "PATIENT" as const,
+      now,
+    };
+
+    it("should be free with enough notice", () => {
+      const evaluation = evaluateReschedule(DEFAULT_RESCHEDULE_POLICY, params);
+
+      expect(evaluation.allowed).toBe(true);
+      expect(evaluation.fee).toBe(0);
+      expect(evaluation.refundAmount).toBe(0);
+      expect(evaluation.remainingReschedules).toBe(2);
+      expect(evaluation.explanation).toBe("La reprogramación no tiene costo.");
+    });
+
+    it("should charge the late fee to patients only", () => {
+      const policy = { maxReschedules: 2, freeHoursBefore: 72, lateFeePercentage: 25 };
+
+      const byPatient = evaluateReschedule(policy, params);
+      const byDoctor = evaluateReschedule(policy, { ...params, rescheduledBy: "DOCTOR" });
+
+      expect(byPatient.fee).toBe(20000);
+      expect(byPatient.balanceDue).toBe(20000);
+      expect(byDoctor.fee).toBe(0);
+      expect(byDoctor.remainingReschedules).toBeNull();
+    });
+
+    it("should refund the difference when switching to a cheaper consultation", () => {
+      const evaluation = evaluateReschedule(DEFAULT_RESCHEDULE_POLICY, {
+        ...params,
+        consultationPrice: 60000,
+      });
+
+      expect(evaluation.newPrice).toBe(60000);
+      expect(evaluation.refundAmount).toBe(20000);
+      expect(evaluation.balanceDue).toBe(0);
+    });
+
+    it("should reject patients who reached the limit", () => {
+      const evaluation = evaluateReschedule(DEFAULT_RESCHEDULE_POLICY, {
+        ...params,
+        rescheduleCount: 2,
+      });
+
+      expect(evaluation.allowed).toBe(false);
+      expect(evaluation.reason).toContain("máximo de 2 veces");
+    });
+  });
+
+  describe("rescheduleAppointment", () => {
+    const newDate = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+    const upcoming = {
+      ...appointment,
+      scheduledAt: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+    };
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockPrisma.$transaction.mockImplementation((callback: any) =>
+        callback(mockPrisma)
+      );
+      mockPrisma.reschedulePolicy.findUnique.mockResolvedValue(null);
+      mockPrisma.slotHold.findUnique.mockResolvedValue({ id: "hold-1" });
+      mockPrisma.slotHold.findFirst.mockResolvedValue({ id: "hold-1" });
+      mockPrisma.appointment.update.mockImplementation(({ data }: any) => ({
+        ...upcoming,
+        ...data,
+      }));
+      mockPrisma.appointmentReschedule.create.mockImplementation(({ data }: any) => ({
+        id: "reschedule-1",
+        refundAmount: 0,
+        ...data,
+      }));
+      mockPrisma.appointmentReschedule.update.mockImplementation(({ data }: any) => ({
+        id: "reschedule-1",
+        rescheduledBy: "PATIENT",
+        newScheduledAt: newDate,
+        ...data,
+      }));
+      vi.mocked(checkSeriesOccurrences).mockResolvedValue([
+        { scheduledAt: newDate, available: true },
+      ]);
+    });
+
+    it("should move the appointment and its hold, keeping the payment", async () => {
+      await rescheduleAppointment(upcoming, {
+        scheduledAt: newDate,
+        rescheduledBy: "PATIENT",
+        rescheduledById: "patient-1",
+      });
+
+      expect(checkSeriesOccurrences).toHaveBeenCalledWith(
+        "doctor-1",
+        "IN_PERSON",
+        [newDate],
+        30,
+        expect.objectContaining({
+          excludeHoldId: "hold-1",
+          excludeAppointmentId: "appointment-1",
+        })
+      );
+      expect(mockPrisma.slotHold.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "hold-1" } })
+      );
+      expect(mockPrisma.appointment.update).toHaveBeenCalledWith({
+        where: { id: "appointment-1" },
+        data: expect.objectContaining({
+          scheduledAt: newDate,
+          rescheduleCount: { increment: 1 },
+        }),
+      });
+      expect(mockPrisma.payment.update).not.toHaveBeenCalled();
+      expect(offerFreedSlot).toHaveBeenCalledWith(
+        expect.objectContaining({ startsAt: upcoming.scheduledAt })
+      );
+      expect(createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "doctor-user-1" })
+      );
+    });
+
+    it("should apply the caller's changes in the same transaction as the move", async () => {
+      const withinTransaction = vi.fn();
+
+      await rescheduleAppointment(
+        upcoming,
+        { scheduledAt: newDate, rescheduledBy: "DOCTOR", rescheduledById: "doctor-user-1" },
+        withinTransaction
+      );
+
+      expect(mockPrisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(withinTransaction).toHaveBeenCalledWith(mockPrisma);
+    });
+
+    it("should not notify or offer the slot when the caller's changes fail", async () => {
+      await expect(
+        rescheduleAppointment(
+          upcoming,
+          { scheduledAt: newDate, rescheduledBy: "DOCTOR", rescheduledById: "doctor-user-1" },
+          async () => {
+            throw new Error("status update failed");
+          }
+        )
+      ).rejects.toThrow("status update failed");
+
+      expect(offerFreedSlot).not.toHaveBeenCalled();
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+
+    it("should refund the price difference when changing to a cheaper type", async () => {
+      vi.mocked(refundPayment).mockResolvedValue({
+        success: true,
+        refundId: "re_1",
+        amount: 20000,
+        status: "completed",
+        provider: "stripe",
+      });
+
+      const { reschedule } = await rescheduleAppointment(upcoming, {
+        scheduledAt: newDate,
+        type: "VIRTUAL",
+        rescheduledBy: "PATIENT",
+        rescheduledById: "patient-1",
+      });
+
+      expect(refundPayment).toHaveBeenCalledWith(payment, 20000, expect.any(String));
+      expect(mockPrisma.payment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: "PARTIALLY_REFUNDED",
+            refundAmount: 20000,
+          }),
+        })
+      );
+      expect(reverseRefundedSplit).toHaveBeenCalledWith(payment.id, 20000);
+      expect(reschedule.refundAmount).toBe(20000);
+    });
+
+    it("should reject unavailable slots and consultation types", async () => {
+      vi.mocked(checkSeriesOccurrences).mockResolvedValue([
+        {
+          scheduledAt: newDate,
+          available: false,
+          conflict: { reason: "BOOKED", message: "Ya hay una cita en este horario" },
+        },
+      ]);
+
+      await expect(
+        rescheduleAppointment(upcoming, {
+          scheduledAt: newDate,
+          rescheduledBy: "PATIENT",
+          rescheduledById: "patient-1",
+        })
+      ).rejects.toThrow(SlotUnavailableError);
+
+      await expect(
+        rescheduleAppointment(upcoming, {
+          scheduledAt: newDate,
+          type: "HOME_VISIT",
+          rescheduledBy: "PATIENT",
+          rescheduledById: "patient-1",
+        })
+      ).rejects.toThrow(RescheduleError);
+      expect(mockPrisma.appointment.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    doctorBlockedDay: { findMany: vi.fn() },
+    mexicanHoliday: { findMany: vi.fn() },
+    doctorAvailability: { findMany: vi.fn() },
+    appointment: { findMany: vi.fn() },
+    slotHold: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/appointment-cancellation", () => ({
+  cancelAppointment: vi.fn(),
+}));
+
+import {
+  checkSeriesOccurrences,
+  describeRecurrence,
+  generateOccurrences,
+  getSeriesPaymentDeadline,
+  recurrenceRuleSchema,
+} from "@/lib/appointment-series";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+// Lunes 10 de marzo de 2025, 10:00
+const firstAppointment = new Date(2025, 2, 10, 10, 0);
+const now = new Date(2025, 2, 1, 9, 0);
+
+describe("Appointment series", () => {
+  describe("generateOccurrences", () => {
+    it("should repeat weekly at the given interval", () => {
+      const occurrences = generateOccurrences(firstAppointment, {
+        frequency: "WEEKLY",
+        interval: 2,
+        count: 3,
+      }, "UTC");
+
+      expect(occurrences).toEqual([
+        new Date(2025, 2, 10, 10, 0),
+        new Date(2025, 2, 24, 10, 0),
+        new Date(2025, 3, 7, 10, 0),
+      ]);
+    });
+
+    it("should stop at the end of the until day", () => {
+      const occurrences = generateOccurrences(firstAppointment, {
+        frequency: "MONTHLY",
+        interval: 1,
+        until: new Date(2025, 4, 10),
+      }, "UTC");
+
+      expect(occurrences).toEqual([
+        new Date(2025, 2, 10, 10, 0),
+        new Date(2025, 3, 10, 10, 0),
+        new Date(2025, 4, 10, 10, 0),
+      ]);
+    });
+
+    it("should keep the doctor's wall-clock time across DST changes", () => {
+      // Tijuana pasa de UTC-8 a UTC-7 el 9 de marzo de 2025
+      const occurrences = generateOccurrences(
+        new Date("2025-03-03T18:00:00Z"),
+        { frequency: "WEEKLY", interval: 1, count: 2 },
+        "America/Tijuana"
+      );
+
+      expect(occurrences).toEqual([
+        new Date("2025-03-03T18:00:00Z"),
+        new Date("2025-03-10T17:00:00Z"),
+      ]);
+    });
+  });
+
+  describe("recurrenceRuleSchema", () => {
+    it("should require a count or an end date", () => {
+      expect(
+        recurrenceRuleSchema.safeParse({ frequency: "WEEKLY", interval: 1 }).success
+      ).toBe(false);
+    });
+  });
+
+  it("should describe the recurrence in Spanish", () => {
+    expect(
+      describeRecurrence({ frequency: "WEEKLY", interval: 2, count: 6 })
+    ).toBe("Cada 2 semanas, 6 citas");
+  });
+
+  it("should keep unpaid occurrences until 48 hours before they start", () => {
+    expect(getSeriesPaymentDeadline(new Date("2025-03-17T16:00:00Z"))).toEqual(
+      new Date("2025-03-15T16:00:00Z")
+    );
+  });
+
+  describe("checkSeriesOccurrences", () => {
+    const occurrences = generateOccurrences(firstAppointment, {
+      frequency: "WEEKLY",
+      interval: 1,
+      count: 4,
+    }, "UTC");
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+      mockPrisma.doctorBlockedDay.findMany.mockResolvedValue([]);
+      mockPrisma.mexicanHoliday.findMany.mockResolvedValue([]);
+      mockPrisma.doctorAvailability.findMany.mockResolvedValue([
+        {
+          dayOfWeek: 1,
+          startTime: "09:00",
+          endTime: "14:00",
+          consultationTypes: [],
+          isActive: true,
+        },
+      ]);
+      mockPrisma.appointment.findMany.mockResolvedValue([]);
+      mockPrisma.slotHold.findMany.mockResolvedValue([]);
+    });
+
+    it("should mark every occurrence available when nothing conflicts", async () => {
+      const result = await checkSeriesOccurrences(
+        "doctor-1",
+        "IN_PERSON",
+        occurrences,
+        30,
+        { now, timeZone: "UTC" }
+      );
+
+      expect(result.every((occurrence) => occurrence.available)).toBe(true);
+    });
+
+    it("should report blocked days, holidays and booked slots", async () => {
+      mockPrisma.doctorBlockedDay.findMany.mockResolvedValue([
+        { date: new Date(2025, 2, 17), reason: "Congreso médico" },
+      ]);
+      mockPrisma.mexicanHoliday.findMany.mockResolvedValue([
+        { date: new Date(2025, 2, 24), name: "Natalicio de Benito Juárez" },
+      ]);
+      mockPrisma.appointment.findMany.mockResolvedValue([
+        { scheduledAt: new Date(2025, 2, 31, 9, 45), duration: 30 },
+      ]);
+
+      const result = await checkSeriesOccurrences(
+        "doctor-1",
+        "IN_PERSON",
+        occurrences,
+        30,
+        { now, timeZone: "UTC" }
+      );
+
+      expect(result.map((occurrence) => occurrence.conflict?.reason)).toEqual([
+        undefined,
+        "BLOCKED_DAY",
+        "HOLIDAY",
+        "BOOKED",
+      ]);
+      expect(result[1].conflict?.message).toBe("Congreso médico");
+    });
+
+    it("should reject occurrences outside the doctor's availability", async () => {
+      const result = await checkSeriesOccurrences(
+        "doctor-1",
+        "IN_PERSON",
+        [new Date(2025, 2, 10, 13, 45)],
+        30,
+        { now, timeZone: "UTC" }
+      );
+
+      expect(result[0].conflict?.reason).toBe("OUTSIDE_AVAILABILITY");
+    });
+  });
+});
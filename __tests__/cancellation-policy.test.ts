@@ -0,0 +1,227 @@
+import { Prisma } from "@prisma/client";
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    cancellationPolicy: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findFirstOrThrow: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationTier,
+  evaluateCancellationPolicy,
+  getCancellationPolicy,
+  saveCancellationPolicy,
+} from "@/lib/cancellation-policy";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const cancelledAt = new Date("2025-03-10T10:00:00Z");
+const hoursFromNow = (hours: number) =>
+  new Date(cancelledAt.getTime() + hours * 60 * 60 * 1000);
+
+describe("Cancellation policy", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("evaluateCancellationPolicy", () => {
+    it("should refund everything with more than 24 hours of notice", () => {
+      const result = evaluateCancellationPolicy(DEFAULT_CANCELLATION_POLICY, {
+        scheduledAt: hoursFromNow(30),
+        amount: 80000,
+        cancelledAt,
+      });
+
+      expect(result.refundPercentage).toBe(100);
+      expect(result.refundAmount).toBe(80000);
+      expect(result.feeRetained).toBe(0);
+      expect(result.explanation).toContain("reembolso completo");
+    });
+
+    it("should apply a partial refund between 2 and 24 hours", () => {
+      const result = evaluateCancellationPolicy(DEFAULT_CANCELLATION_POLICY, {
+        scheduledAt: hoursFromNow(5),
+        amount: 80000,
+        cancelledAt,
+      });
+
+      expect(result.refundPercentage).toBe(50);
+      expect(result.refundAmount).toBe(40000);
+      expect(result.feeRetained).toBe(40000);
+      expect(result.explanation).toContain("entre 2 y 24 horas");
+    });
+
+    it("should not refund with less than 2 hours of notice", () => {
+      const result = evaluateCancellationPolicy(DEFAULT_CANCELLATION_POLICY, {
+        scheduledAt: hoursFromNow(1),
+        amount: 80000,
+        cancelledAt,
+      });
+
+      expect(result.refundPercentage).toBe(0);
+      expect(result.refundAmount).toBe(0);
+      expect(result.feeRetained).toBe(80000);
+      expect(result.explanation).toContain("no aplica reembolso");
+    });
+
+    it("should evaluate custom tiers regardless of their order", () => {
+      const result = evaluateCancellationPolicy(
+        {
+          name: "Política flexible",
+          tiers: [
+            { minHoursBefore: 0, refundPercentage: 25 },
+            { minHoursBefore: 48, refundPercentage: 100 },
+            { minHoursBefore: 12, refundPercentage: 75 },
+          ],
+        },
+        { scheduledAt: hoursFromNow(20), amount: 100000, cancelledAt }
+      );
+
+      expect(result.refundPercentage).toBe(75);
+      expect(result.refundAmount).toBe(75000);
+      expect(result.feeRetained).toBe(25000);
+      expect(result.policyName).toBe("Política flexible");
+    });
+
+    it("should not refund after the appointment time when no tier matches", () => {
+      const result = evaluateCancellationPolicy(
+        {
+          name: "Solo con anticipación",
+          tiers: [{ minHoursBefore: 6, refundPercentage: 100 }],
+        },
+        { scheduledAt: hoursFromNow(-1), amount: 50000, cancelledAt }
+      );
+
+      expect(result.refundPercentage).toBe(0);
+      expect(result.explanation).toContain("después de la hora de la cita");
+    });
+  });
+
+  describe("describeCancellationTier", () => {
+    it("should describe each notice window", () => {
+      const { tiers } = DEFAULT_CANCELLATION_POLICY;
+
+      expect(describeCancellationTier(tiers[0], tiers)).toBe(
+        "Cancelación con 24 horas o más de anticipación"
+      );
+      expect(describeCancellationTier(tiers[1], tiers)).toBe(
+        "Cancelación entre 2 y 24 horas de anticipación"
+      );
+      expect(describeCancellationTier(tiers[2], tiers)).toBe(
+        "Cancelación con menos de 2 horas de anticipación"
+      );
+    });
+  });
+
+  describe("getCancellationPolicy", () => {
+    it("should prefer the policy for the consultation type", async () => {
+      mockPrisma.cancellationPolicy.findMany.mockResolvedValue([
+        {
+          id: "general",
+          name: "General",
+          consultationType: null,
+          tiers: [{ minHoursBefore: 0, refundPercentage: 10 }],
+        },
+        {
+          id: "virtual",
+          name: "Virtual",
+          consultationType: "VIRTUAL",
+          tiers: [{ minHoursBefore: 1, refundPercentage: 100 }],
+        },
+      ]);
+
+      const policy = await getCancellationPolicy("doctor-1", "VIRTUAL");
+
+      expect(policy.id).toBe("virtual");
+      expect(mockPrisma.cancellationPolicy.findMany).toHaveBeenCalledWith({
+        where: {
+          doctorId: "doctor-1",
+          isActive: true,
+          OR: [{ consultationType: "VIRTUAL" }, { consultationType: null }],
+        },
+      });
+    });
+
+    it("should fall back to the doctor's general policy", async () => {
+      mockPrisma.cancellationPolicy.findMany.mockResolvedValue([
+        {
+          id: "general",
+          name: "General",
+          consultationType: null,
+          tiers: [{ minHoursBefore: 0, refundPercentage: 10 }],
+        },
+      ]);
+
+      const policy = await getCancellationPolicy("doctor-1", "IN_PERSON");
+
+      expect(policy.id).toBe("general");
+    });
+
+    it("should use the default policy when none is configured or tiers are invalid", async () => {
+      mockPrisma.cancellationPolicy.findMany.mockResolvedValueOnce([]);
+      expect(await getCancellationPolicy("doctor-1", "IN_PERSON")).toBe(
+        DEFAULT_CANCELLATION_POLICY
+      );
+
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      mockPrisma.cancellationPolicy.findMany.mockResolvedValueOnce([
+        { id: "broken", name: "Rota", consultationType: null, tiers: "x" },
+      ]);
+      expect(await getCancellationPolicy("doctor-1", "IN_PERSON")).toBe(
+        DEFAULT_CANCELLATION_POLICY
+      );
+    });
+  });
+
+  describe("saveCancellationPolicy", () => {
+    const data = {
+      name: "General",
+      tiers: [{ minHoursBefore: 0, refundPercentage: 10 }],
+      isActive: true,
+    };
+
+    it("should create the policy when the doctor has none", async () => {
+      mockPrisma.cancellationPolicy.findFirst.mockResolvedValue(null);
+      mockPrisma.cancellationPolicy.create.mockResolvedValue({ id: "general" });
+
+      const policy = await saveCancellationPolicy("doctor-1", null, data);
+
+      expect(policy.id).toBe("general");
+      expect(mockPrisma.cancellationPolicy.create).toHaveBeenCalledWith({
+        data: { ...data, doctorId: "doctor-1", consultationType: null },
+      });
+      expect(mockPrisma.cancellationPolicy.update).not.toHaveBeenCalled();
+    });
+
+    it("should update the general policy another request created first", async () => {
+      mockPrisma.cancellationPolicy.findFirst.mockResolvedValue(null);
+      mockPrisma.cancellationPolicy.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError("Unique constraint failed", {
+          code: "P2002",
+          clientVersion: "test",
+        })
+      );
+      mockPrisma.cancellationPolicy.findFirstOrThrow.mockResolvedValue({ id: "general" });
+      mockPrisma.cancellationPolicy.update.mockResolvedValue({ id: "general", ...data });
+
+      await saveCancellationPolicy("doctor-1", null, data);
+
+      expect(mockPrisma.cancellationPolicy.update).toHaveBeenCalledWith({
+        where: { id: "general" },
+        data,
+      });
+    });
+  });
+});
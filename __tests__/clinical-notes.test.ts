@@ -0,0 +1,192 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    clinicalNote: {
+      findUnique: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    clinicalNoteVersion: { update: vi.fn() },
+  },
+}));
+
+import {
+  ClinicalNoteError,
+  clinicalNoteSchema,
+  getPatientNoteSummary,
+  saveClinicalNoteDraft,
+  signClinicalNote,
+} from "@/lib/clinical-notes";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T17:40:00Z");
+
+const appointment = {
+  id: "appointment-1",
+  doctorId: "doctor-1",
+  patientId: "patient-1",
+  status: "IN_CONSULTATION" as const,
+};
+
+function version(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "version-1",
+    version: 1,
+    status: "DRAFT",
+    subjective: "Dolor de garganta de tres días",
+    objective: null,
+    assessment: "Faringitis aguda",
+    plan: "Paracetamol 500 mg cada 8 horas",
+    instructions: null,
+    vitals: null,
+    diagnoses: [],
+    signedAt: null,
+    ...overrides,
+  };
+}
+
+describe("Clinical notes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.clinicalNote.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it("should validate vitals and normalize ICD-10 codes", () => {
+    const input = clinicalNoteSchema.parse({
+      subjective: "  ",
+      vitals: { systolic: 120, diastolic: 80 },
+      diagnoses: [{ code: "j06.9", description: "Infección aguda de vías respiratorias" }],
+    });
+
+    expect(input.subjective).toBeNull();
+    expect(input.diagnoses[0].code).toBe("J06.9");
+    expect(() =>
+      clinicalNoteSchema.parse({ diagnoses: [{ code: "606", description: "x" }] })
+    ).toThrow("Código CIE-10 inválido");
+    expect(() => clinicalNoteSchema.parse({ vitals: { heartRate: 400 } })).toThrow();
+  });
+
+  it("should amend a signed note as a new draft version", async () => {
+    mockPrisma.clinicalNote.findUnique.mockResolvedValue({
+      id: "note-1",
+      status: "SIGNED",
+      currentVersion: 1,
+    });
+
+    await saveClinicalNoteDraft(
+      { ...appointment, status: "COMPLETED" },
+      clinicalNoteSchema.parse({ plan: "Control en una semana" })
+    );
+
+    expect(mockPrisma.clinicalNote.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { id: "note-1" },
+        data: expect.objectContaining({
+          status: "DRAFT",
+          currentVersion: 2,
+          versions: {
+            create: expect.objectContaining({
+              version: 2,
+              plan: "Control en una semana",
+            }),
+          },
+        }),
+      })
+    );
+  });
+
+  it("should not take notes on appointments that didn't happen", async () => {
+    await expect(
+      saveClinicalNoteDraft(
+        { ...appointment, status: "CANCELLED" },
+        clinicalNoteSchema.parse({})
+      )
+    ).rejects.toThrow(ClinicalNoteError);
+    expect(mockPrisma.clinicalNote.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("should sign the current draft version", async () => {
+    mockPrisma.clinicalNote.findUnique.mockResolvedValue({
+      id: "note-1",
+      status: "DRAFT",
+      currentVersion: 1,
+      versions: [version()],
+    });
+
+    await signClinicalNote(appointment, now);
+
+    expect(mockPrisma.clinicalNote.updateMany).toHaveBeenCalledWith({
+      where: { id: "note-1", status: "DRAFT", currentVersion: 1 },
+      data: { status: "SIGNED", signedAt: now },
+    });
+    expect(mockPrisma.clinicalNoteVersion.update).toHaveBeenCalledWith({
+      where: { id: "version-1" },
+      data: { status: "SIGNED", signedAt: now },
+    });
+  });
+
+  it("should require an assessment or diagnosis and a plan to sign", async () => {
+    mockPrisma.clinicalNote.findUnique.mockResolvedValue({
+      id: "note-1",
+      status: "DRAFT",
+      currentVersion: 1,
+      versions: [version({ assessment: null })],
+    });
+
+    await expect(signClinicalNote(appointment, now)).rejects.toThrow(
+      "Registre la evaluación o un diagnóstico y el plan antes de firmar"
+    );
+    expect(mockPrisma.clinicalNote.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should only show patients the last signed version", async () => {
+    const signedAt = new Date("2025-03-10T17:45:00Z");
+    mockPrisma.clinicalNote.findUnique.mockResolvedValue({
+      id: "note-1",
+      doctor: { user: { name: "Dra. Ana López" } },
+      versions: [
+        version({
+          status: "SIGNED",
+          signedAt,
+          diagnoses: [{ code: "J02.9", description: "Faringitis aguda" }],
+          instructions: "Reposo e hidratación",
+        }),
+      ],
+    });
+
+    const summary = await getPatientNoteSummary("appointment-1");
+
+    expect(mockPrisma.clinicalNote.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({
+        include: expect.objectContaining({
+          versions: { where: { status: "SIGNED" }, orderBy: { version: "desc" }, take: 1 },
+        }),
+      })
+    );
+    expect(summary).toEqual({
+      appointmentId: "appointment-1",
+      version: 1,
+      signedAt,
+      doctorName: "Dra. Ana López",
+      diagnoses: [{ code: "J02.9", description: "Faringitis aguda" }],
+      vitals: null,
+      plan: "Paracetamol 500 mg cada 8 horas",
+      instructions: "Reposo e hidratación",
+    });
+    expect(summary).not.toHaveProperty("subjective");
+
+    mockPrisma.clinicalNote.findUnique.mockResolvedValue({
+      id: "note-1",
+      doctor: { user: { name: "Dra. Ana López" } },
+      versions: [],
+    });
+    expect(await getPatientNoteSummary("appointment-1")).toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import {
+  AvailabilityRule,
+  availabilityRuleSchema,
+  availabilityToWorkingHours,
+  getAvailabilityWindows,
+  workingHoursToAvailability,
+} from "@/lib/doctor-availability";
+
+const rule = (overrides: Partial<AvailabilityRule> = {}): AvailabilityRule => ({
+  dayOfWeek: 1,
+  startTime: "09:00",
+  endTime: "13:00",
+  consultationTypes: [],
+  isActive: true,
+  ...overrides,
+});
+
+// Lunes 10 de marzo de 2025
+const monday = new Date(2025, 2, 10);
+
+describe("Doctor availability", () => {
+  describe("getAvailabilityWindows", () => {
+    it("should return the sorted windows for the day of the week", () => {
+      const windows = getAvailabilityWindows(
+        [
+          rule({ startTime: "15:00", endTime: "18:00" }),
+          rule(),
+          rule({ dayOfWeek: 2 }),
+        ],
+        monday,
+        "IN_PERSON"
+      );
+
+      expect(windows).toEqual([
+        { from: "09:00", to: "13:00" },
+        { from: "15:00", to: "18:00" },
+      ]);
+    });
+
+    it("should only include rules for the requested consultation type", () => {
+      const windows = getAvailabilityWindows(
+        [
+          rule({ consultationTypes: ["VIRTUAL"] }),
+          rule({ startTime: "16:00", endTime: "19:00", consultationTypes: ["IN_PERSON"] }),
+        ],
+        monday,
+        "VIRTUAL"
+      );
+
+      expect(windows).toEqual([{ from: "09:00", to: "13:00" }]);
+    });
+
+    it("should skip inactive rules and rules outside their effective dates", () => {
+      const windows = getAvailabilityWindows(
+        [
+          rule({ isActive: false }),
+          rule({ effectiveFrom: new Date(2025, 2, 11) }),
+          rule({ effectiveUntil: new Date(2025, 2, 9) }),
+          rule({
+            startTime: "16:00",
+            endTime: "18:00",
+            effectiveFrom: new Date(2025, 2, 10),
+            effectiveUntil: new Date(2025, 2, 10),
+          }),
+        ],
+        monday,
+        "IN_PERSON"
+      );
+
+      expect(windows).toEqual([{ from: "16:00", to: "18:00" }]);
+    });
+  });
+
+  describe("workingHours conversion", () => {
+    it("should round-trip the legacy workingHours shape", () => {
+      const workingHours = {
+        monday: [{ from: "09:00", to: "13:00" }],
+        saturday: [{ from: "10:00", to: "12:00" }],
+      };
+
+      const rules = workingHoursToAvailability(workingHours);
+
+      expect(rules).toEqual([
+        rule(),
+        rule({ dayOfWeek: 6, startTime: "10:00", endTime: "12:00" }),
+      ]);
+      expect(availabilityToWorkingHours(rules, monday)).toEqual({
+        sunday: [],
+        monday: [{ from: "09:00", to: "13:00" }],
+        tuesday: [],
+        wednesday: [],
+        thursday: [],
+        friday: [],
+        saturday: [{ from: "10:00", to: "12:00" }],
+      });
+    });
+  });
+
+  describe("availabilityRuleSchema", () => {
+    it("should reject rules that end before they start", () => {
+      const result = availabilityRuleSchema.safeParse({
+        dayOfWeek: 1,
+        startTime: "14:00",
+        endTime: "09:00",
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+});
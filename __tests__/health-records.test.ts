@@ -0,0 +1,144 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    appointment: { findFirst: vi.fn() },
+    healthRecord: { findUnique: vi.fn(), upsert: vi.fn() },
+    healthRecordAccessLog: { create: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+import {
+  HealthRecordAccessError,
+  healthRecordSchema,
+  updateHealthRecord,
+  viewHealthRecord,
+} from "@/lib/health-records";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const patient = { id: "patient-1", role: "PATIENT" as const };
+const doctor = { id: "doctor-user-1", role: "DOCTOR" as const };
+
+const storedRecord = {
+  id: "record-1",
+  patientId: "patient-1",
+  bloodType: "O_POSITIVE",
+  allergies: [{ substance: "Penicilina", reaction: "Urticaria", severity: "SEVERE" }],
+  conditions: [],
+  medications: [],
+  vaccinations: [],
+  updatedAt: new Date("2025-03-01T12:00:00Z"),
+};
+
+describe("Health records", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((cb: any) => cb(mockPrisma));
+    mockPrisma.healthRecord.findUnique.mockResolvedValue(storedRecord);
+  });
+
+  it("should validate the record and normalize empty texts", () => {
+    const input = healthRecordSchema.parse({
+      bloodType: "AB_NEGATIVE",
+      allergies: [{ substance: " Nuez ", reaction: "  ", severity: "MILD" }],
+      conditions: [{ name: "Diabetes tipo 2", icd10Code: "e11.9", since: 2019 }],
+    });
+
+    expect(input.allergies[0]).toEqual({ substance: "Nuez", reaction: null, severity: "MILD" });
+    expect(input.conditions[0].icd10Code).toBe("E11.9");
+    expect(input.vaccinations).toEqual([]);
+    expect(() =>
+      healthRecordSchema.parse({ vaccinations: [{ vaccine: "Influenza", date: "01/10/2024" }] })
+    ).toThrow();
+  });
+
+  it("should let a doctor with an appointment view the record and log it", async () => {
+    mockPrisma.appointment.findFirst.mockResolvedValue({ id: "appointment-1" });
+
+    const record = await viewHealthRecord("patient-1", doctor);
+
+    expect(record.bloodType).toBe("O_POSITIVE");
+    expect(mockPrisma.appointment.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          patientId: "patient-1",
+          doctor: { userId: "doctor-user-1" },
+          status: { not: "CANCELLED" },
+        },
+      })
+    );
+    expect(mockPrisma.healthRecordAccessLog.create).toHaveBeenCalledWith({
+      data: {
+        patientId: "patient-1",
+        actorId: "doctor-user-1",
+        actorRole: "DOCTOR",
+        action: "VIEW",
+        changes: undefined,
+      },
+    });
+  });
+
+  it("should deny doctors without appointments with the patient", async () => {
+    mockPrisma.appointment.findFirst.mockResolvedValue(null);
+
+    await expect(viewHealthRecord("patient-1", doctor)).rejects.toThrow(
+      HealthRecordAccessError
+    );
+    await expect(
+      viewHealthRecord("patient-1", { id: "admin-1", role: "ADMIN" })
+    ).rejects.toThrow(HealthRecordAccessError);
+    expect(mockPrisma.healthRecordAccessLog.create).not.toHaveBeenCalled();
+  });
+
+  it("should not log the patient reading their own record", async () => {
+    mockPrisma.healthRecord.findUnique.mockResolvedValue(null);
+
+    const record = await viewHealthRecord("patient-1", patient);
+
+    expect(record).toMatchObject({ bloodType: null, allergies: [], updatedAt: null });
+    expect(mockPrisma.healthRecordAccessLog.create).not.toHaveBeenCalled();
+  });
+
+  it("should log the changed sections with their previous values", async () => {
+    const input = healthRecordSchema.parse({
+      bloodType: "O_POSITIVE",
+      allergies: storedRecord.allergies,
+      medications: [{ name: "Metformina 850 mg", frequency: "cada 12 horas" }],
+    });
+
+    await updateHealthRecord("patient-1", input, patient);
+
+    expect(mockPrisma.healthRecord.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { patientId: "patient-1" } })
+    );
+    expect(mockPrisma.healthRecordAccessLog.create).toHaveBeenCalledWith({
+      data: {
+        patientId: "patient-1",
+        actorId: "patient-1",
+        actorRole: "PATIENT",
+        action: "UPDATE",
+        changes: { medications: { from: [], to: input.medications } },
+      },
+    });
+  });
+
+  it("should skip unchanged saves and reject edits by someone else", async () => {
+    const input = healthRecordSchema.parse({
+      bloodType: "O_POSITIVE",
+      allergies: storedRecord.allergies,
+    });
+
+    await updateHealthRecord("patient-1", input, patient);
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+
+    await expect(updateHealthRecord("patient-1", input, doctor)).rejects.toThrow(
+      HealthRecordAccessError
+    );
+  });
+});
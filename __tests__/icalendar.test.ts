@@ -0,0 +1,144 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    user: { findUnique: vi.fn() },
+    appointment: { findMany: vi.fn() },
+  },
+}));
+
+import {
+  appointmentToCalendarEvent,
+  buildCalendar,
+  CalendarAppointment,
+  getCalendarFeed,
+} from "@/lib/icalendar";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const appointment: CalendarAppointment = {
+  id: "appointment-1",
+  type: "IN_PERSON",
+  status: "CONFIRMED",
+  scheduledAt: new Date("2025-03-10T16:00:00Z"),
+  duration: 30,
+  updatedAt: new Date("2025-03-01T12:00:00Z"),
+  doctor: {
+    address: "Av. Reforma 123, Col. Juárez",
+    city: "Ciudad de México",
+    state: "CDMX",
+    zipCode: "06600",
+    videoCallLink: null,
+    user: { name: "Dra. Ana López" },
+  },
+  patient: {
+    name: "Juan Pérez",
+    patientProfile: {
+      address: "Calle 5 de Mayo 10",
+      city: "Puebla",
+      state: "Puebla",
+      zipCode: null,
+    },
+  },
+};
+
+describe("iCalendar export", () => {
+  describe("appointmentToCalendarEvent", () => {
+    it("should use the doctor's office for in-person consultations", () => {
+      const event = appointmentToCalendarEvent(appointment, "PATIENT");
+
+      expect(event.summary).toBe("Consulta presencial con Dra. Ana López");
+      expect(event.location).toBe(
+        "Av. Reforma 123, Col. Juárez, Ciudad de México, CDMX, 06600"
+      );
+      expect(event.end).toEqual(new Date("2025-03-10T16:30:00Z"));
+      expect(event.status).toBe("CONFIRMED");
+    });
+
+    it("should use the patient's address for home visits", () => {
+      const event = appointmentToCalendarEvent(
+        { ...appointment, type: "HOME_VISIT" },
+        "DOCTOR"
+      );
+
+      expect(event.summary).toBe("Visita a domicilio: Juan Pérez");
+      expect(event.location).toBe("Calle 5 de Mayo 10, Puebla, Puebla");
+    });
+
+    it("should link the video call for virtual consultations", () => {
+      const event = appointmentToCalendarEvent(
+        {
+          ...appointment,
+          type: "VIRTUAL",
+          doctor: { ...appointment.doctor, videoCallLink: "https://meet.example.com/ana" },
+        },
+        "PATIENT"
+      );
+
+      expect(event.url).toBe("https://meet.example.com/ana");
+      expect(event.description).toContain("https://meet.example.com/ana");
+    });
+  });
+
+  describe("buildCalendar", () => {
+    it("should mark cancelled appointments and escape text", () => {
+      const calendar = buildCalendar([
+        appointmentToCalendarEvent({ ...appointment, status: "CANCELLED" }, "PATIENT"),
+      ]);
+
+      expect(calendar.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+      expect(calendar).toContain("UID:appointment-1@medicamovil.mx");
+      expect(calendar).toContain("DTSTART:20250310T160000Z");
+      expect(calendar).toContain("STATUS:CANCELLED");
+      expect(calendar).toContain("Av. Reforma 123\\, Col. Juárez");
+    });
+
+    it("should fold lines longer than 75 octets", () => {
+      const calendar = buildCalendar([
+        { ...appointmentToCalendarEvent(appointment, "PATIENT"), summary: "á".repeat(60) },
+      ]);
+
+      for (const line of calendar.split("\r\n")) {
+        expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      }
+      expect(calendar).toContain("\r\n á");
+    });
+  });
+
+  describe("getCalendarFeed", () => {
+    beforeEach(() => {
+      vi.clearAllMocks();
+    });
+
+    it("should return null for unknown tokens", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue(null);
+
+      expect(await getCalendarFeed("unknown")).toBeNull();
+      expect(mockPrisma.appointment.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should list a doctor's appointments from the doctor's point of view", async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({
+        id: "user-1",
+        timezone: "America/Tijuana",
+        isActive: true,
+        doctorProfile: { id: "doctor-1" },
+      });
+      mockPrisma.appointment.findMany.mockResolvedValue([appointment]);
+
+      const calendar = await getCalendarFeed("token");
+
+      expect(mockPrisma.appointment.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ doctorId: "doctor-1" }),
+        })
+      );
+      expect(calendar).toContain("X-WR-TIMEZONE:America/Tijuana");
+      expect(calendar).toContain("SUMMARY:Consulta presencial: Juan Pérez");
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+
+import { MercadoPagoUtils } from "@/lib/payments/mercadopago/MercadoPagoUtils";
+import {
+  getInstallmentPlans,
+  getInstallmentRecord,
+  InstallmentPlanError,
+  installmentSettingsSchema,
+  resolveInstallmentPlan,
+} from "@/lib/payments/installments";
+
+const paymentRequest = {
+  appointmentId: "appointment-1",
+  amount: 120000,
+  currency: "MXN",
+  description: "Consulta médica con Dr. Juan Pérez",
+  patientEmail: "laura@example.com",
+  patientName: "Laura Gómez",
+  returnUrl: "https://medica.mx/pago/exito",
+  cancelUrl: "https://medica.mx/pago/cancelado",
+};
+
+describe("Installment plans", () => {
+  it("should offer interest-free months from the doctor's minimum", () => {
+    expect(getInstallmentPlans("mercadopago", 120000, 60000)).toEqual([
+      { months: 3, interestFree: true, monthlyAmount: 40000 },
+      { months: 6, interestFree: true, monthlyAmount: 20000 },
+      { months: 9, interestFree: true, monthlyAmount: 13334 },
+      { months: 12, interestFree: true, monthlyAmount: 10000 },
+    ]);
+  });
+
+  it("should only offer bank interest when the doctor doesn't accept the price", () => {
+    const plans = getInstallmentPlans("mercadopago", 240000, null);
+
+    expect(plans.map((plan) => plan.months)).toEqual([18, 24]);
+    expect(plans.every((plan) => !plan.interestFree && plan.monthlyAmount === null)).toBe(true);
+    expect(getInstallmentPlans("mercadopago", 120000, 150000)).toEqual([]);
+  });
+
+  it("should not split payments into monthly charges that are too small", () => {
+    expect(
+      getInstallmentPlans("mercadopago", 50000, 30000).map((plan) => plan.months)
+    ).toEqual([3]);
+  });
+
+  it("should not offer plans for providers without installments", () => {
+    expect(getInstallmentPlans("stripe", 120000, 60000)).toEqual([]);
+    expect(getInstallmentPlans("paypal", 120000, 60000)).toEqual([]);
+  });
+
+  it("should reject months that aren't offered for the consultation", () => {
+    expect(resolveInstallmentPlan("mercadopago", 120000, 60000, 6)).toMatchObject({
+      months: 6,
+      interestFree: true,
+    });
+    expect(resolveInstallmentPlan("mercadopago", 120000, 60000, 1)).toBeNull();
+    expect(resolveInstallmentPlan("mercadopago", 120000, 60000, undefined)).toBeNull();
+    expect(() => resolveInstallmentPlan("mercadopago", 120000, null, 6)).toThrow(
+      InstallmentPlanError
+    );
+    expect(() => resolveInstallmentPlan("mercadopago", 120000, 60000, 5)).toThrow(
+      InstallmentPlanError
+    );
+  });
+
+  it("should record the fee the provider charges for interest-free months", () => {
+    expect(getInstallmentRecord("mercadopago", 120000, 6)).toEqual({
+      installmentMonths: 6,
+      installmentInterestFree: true,
+      installmentFee: 8988,
+    });
+    expect(getInstallmentRecord("mercadopago", 240000, 18)).toEqual({
+      installmentMonths: 18,
+      installmentInterestFree: false,
+      installmentFee: 0,
+    });
+    expect(getInstallmentRecord("mercadopago", 120000, 1)).toEqual({
+      installmentMonths: null,
+      installmentInterestFree: null,
+      installmentFee: null,
+    });
+  });
+
+  it("should require a minimum doctors can actually offer", () => {
+    expect(installmentSettingsSchema.safeParse({ installmentMinAmount: 60000 }).success).toBe(true);
+    expect(installmentSettingsSchema.safeParse({ installmentMinAmount: null }).success).toBe(true);
+    expect(installmentSettingsSchema.safeParse({ installmentMinAmount: 20000 }).success).toBe(false);
+  });
+});
+
+describe("MercadoPago installments", () => {
+  it("should limit the checkout to the chosen plan", () => {
+    const preference = MercadoPagoUtils.createPreferenceRequest({
+      ...paymentRequest,
+      metadata: { installments: { months: 6, interestFree: true, monthlyAmount: 20000 } },
+    });
+
+    expect(preference.payment_methods).toMatchObject({
+      installments: 6,
+      default_installments: 6,
+    });
+  });
+
+  it("should charge in a single payment when no plan was chosen", () => {
+    const preference = MercadoPagoUtils.createPreferenceRequest(paymentRequest);
+
+    expect(preference.payment_methods).toMatchObject({
+      installments: 1,
+      default_installments: 1,
+    });
+  });
+});
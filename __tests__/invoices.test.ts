@@ -0,0 +1,221 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    payment: { findUniqueOrThrow: vi.fn() },
+    invoice: {
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+    },
+  },
+}));
+
+import { buildCfdiXml, computeCfdiTotals, getCfdiAttribute } from "@/lib/invoicing/cfdi-xml";
+import { resetPacAdapter, setPacAdapter } from "@/lib/invoicing/pac";
+import { StubPacAdapter } from "@/lib/invoicing/pac/StubPacAdapter";
+import { fiscalProfileSchema, InvoiceError, requestInvoice } from "@/lib/invoices";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const pac = new StubPacAdapter();
+const now = new Date("2025-03-10T18:00:00Z");
+
+const patientProfile = {
+  rfc: "GOML850101AB1",
+  legalName: "LAURA GOMEZ MARTINEZ",
+  taxRegime: "605",
+  zipCode: "06700",
+  cfdiUse: "D01",
+};
+
+const doctorProfile = {
+  rfc: "PERJ700202XY9",
+  legalName: "JUAN PEREZ RAMIREZ",
+  taxRegime: "612",
+  zipCode: "03100",
+  cfdiUse: "G03",
+};
+
+function buildPayment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "payment-1",
+    userId: "patient-1",
+    amount: 80000,
+    method: "CARD",
+    status: "COMPLETED",
+    invoice: null,
+    user: { fiscalProfile: patientProfile },
+    appointment: {
+      scheduledAt: new Date("2025-03-08T16:00:00Z"),
+      doctor: {
+        id: "doctor-1",
+        specialty: "Cardiología",
+        user: { name: "Dr. Juan Pérez", fiscalProfile: doctorProfile },
+      },
+    },
+    ...overrides,
+  };
+}
+
+const cfdiData = {
+  series: "MM",
+  folio: 7,
+  issuedAt: now,
+  issuerZipCode: "03100",
+  paymentForm: "04",
+  emitter: { rfc: "PERJ700202XY9", name: "JUAN PEREZ RAMIREZ", taxRegime: "612" },
+  receiver: { ...patientProfile, name: patientProfile.legalName },
+  concept: { productCode: "85121600", description: "Consulta & revisión", amount: 80000 },
+};
+
+describe("CFDI XML", () => {
+  it("should split taxed prices so the total is what was paid", () => {
+    expect(computeCfdiTotals(80000, "EXEMPT")).toEqual({ subtotal: 80000, tax: 0, total: 80000 });
+    expect(computeCfdiTotals(80000, "IVA_16")).toEqual({ subtotal: 68966, tax: 11034, total: 80000 });
+    expect(computeCfdiTotals(116, "IVA_16")).toEqual({ subtotal: 100, tax: 16, total: 116 });
+  });
+
+  it("should build an exempt invoice without transferred IVA", () => {
+    const xml = buildCfdiXml({ ...cfdiData, taxTreatment: "EXEMPT" });
+
+    expect(getCfdiAttribute(xml, "cfdi:Comprobante", "Total")).toBe("800.00");
+    expect(getCfdiAttribute(xml, "cfdi:Comprobante", "Fecha")).toBe("2025-03-10T12:00:00");
+    expect(getCfdiAttribute(xml, "cfdi:Traslado", "TipoFactor")).toBe("Exento");
+    expect(getCfdiAttribute(xml, "cfdi:Traslado", "Importe")).toBeNull();
+    expect(xml).not.toContain("TotalImpuestosTrasladados");
+    expect(xml).toContain('Descripcion="Consulta &amp; revisión"');
+  });
+
+  it("should build a taxed invoice with IVA at 16%", () => {
+    const xml = buildCfdiXml({ ...cfdiData, taxTreatment: "IVA_16" });
+
+    expect(getCfdiAttribute(xml, "cfdi:Comprobante", "SubTotal")).toBe("689.66");
+    expect(getCfdiAttribute(xml, "cfdi:Traslado", "Importe")).toBe("110.34");
+    expect(getCfdiAttribute(xml, "cfdi:Comprobante", "Total")).toBe("800.00");
+    expect(getCfdiAttribute(xml, "cfdi:Impuestos", "TotalImpuestosTrasladados")).toBe("110.34");
+  });
+});
+
+describe("Fiscal profiles", () => {
+  it("should normalize the RFC and name", () => {
+    const profile = fiscalProfileSchema.parse({
+      ...patientProfile,
+      rfc: " goml850101ab1 ",
+      legalName: "Laura Gómez Martínez",
+    });
+
+    expect(profile.rfc).toBe("GOML850101AB1");
+    expect(profile.legalName).toBe("LAURA GÓMEZ MARTÍNEZ");
+  });
+
+  it("should reject regimes and uses that don't fit the RFC", () => {
+    const company = { ...patientProfile, rfc: "ABC010101AB1", taxRegime: "601" };
+
+    expect(fiscalProfileSchema.safeParse({ ...patientProfile, taxRegime: "601" }).success).toBe(false);
+    expect(fiscalProfileSchema.safeParse(company).success).toBe(false);
+    expect(fiscalProfileSchema.safeParse({ ...company, cfdiUse: "G03" }).success).toBe(true);
+  });
+});
+
+describe("Invoice requests", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    pac.clear();
+    setPacAdapter(pac);
+    mockPrisma.invoice.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: "invoice-1", folio: 7, ...data })
+    );
+    mockPrisma.invoice.update.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: "invoice-1", ...data })
+    );
+  });
+
+  afterAll(() => {
+    resetPacAdapter();
+  });
+
+  it("should have the doctor emit an exempt invoice stamped by the PAC", async () => {
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue(buildPayment());
+
+    const invoice = await requestInvoice("payment-1", now);
+
+    expect(mockPrisma.invoice.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        paymentId: "payment-1",
+        emitterType: "DOCTOR",
+        emitterRfc: "PERJ700202XY9",
+        receiverRfc: "GOML850101AB1",
+        taxTreatment: "EXEMPT",
+        subtotal: 80000,
+        tax: 0,
+      }),
+    });
+    expect(pac.stamped).toHaveLength(1);
+    expect(pac.stamped[0].xml).toContain("Consulta médica de Cardiología con Dr. Juan Pérez");
+    expect(invoice.status).toBe("STAMPED");
+    expect(invoice.uuid).toBe(pac.stamped[0].uuid);
+    expect(invoice.xml).toContain("tfd:TimbreFiscalDigital");
+  });
+
+  it("should keep rejected invoices as failed", async () => {
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue(buildPayment());
+    pac.failNext("RFC del receptor no registrado");
+
+    await expect(requestInvoice("payment-1", now)).rejects.toThrow(InvoiceError);
+
+    expect(mockPrisma.invoice.update).toHaveBeenCalledWith({
+      where: { id: "invoice-1" },
+      data: {
+        status: "FAILED",
+        pacName: "PAC de pruebas",
+        failureReason: "RFC del receptor no registrado",
+      },
+    });
+  });
+
+  it("should only invoice completed payments without a stamped invoice", async () => {
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValueOnce(
+      buildPayment({ status: "PENDING" })
+    );
+    await expect(requestInvoice("payment-1", now)).rejects.toThrow(
+      "Solo se pueden facturar pagos completados"
+    );
+
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValueOnce(
+      buildPayment({ invoice: { id: "invoice-1", status: "STAMPED" } })
+    );
+    await expect(requestInvoice("payment-1", now)).rejects.toThrow(
+      "Este pago ya tiene factura"
+    );
+
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValueOnce(
+      buildPayment({ user: { fiscalProfile: null } })
+    );
+    await expect(requestInvoice("payment-1", now)).rejects.toThrow(
+      "Registre sus datos fiscales"
+    );
+    expect(pac.stamped).toHaveLength(0);
+  });
+
+  it("should retry a failed invoice by claiming its row", async () => {
+    const failed = { id: "invoice-1", status: "FAILED", updatedAt: now };
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue(buildPayment({ invoice: failed }));
+    mockPrisma.invoice.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.invoice.findUniqueOrThrow.mockResolvedValue({ ...failed, series: "MM", folio: 7 });
+
+    const invoice = await requestInvoice("payment-1", now);
+
+    expect(mockPrisma.invoice.updateMany).toHaveBeenCalledWith({
+      where: { id: "invoice-1", status: "FAILED", updatedAt: now },
+      data: expect.objectContaining({ status: "PENDING", failureReason: null }),
+    });
+    expect(mockPrisma.invoice.create).not.toHaveBeenCalled();
+    expect(invoice.status).toBe("STAMPED");
+  });
+});
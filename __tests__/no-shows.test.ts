@@ -0,0 +1,189 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    appointment: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    chatRoom: { updateMany: vi.fn() },
+    noShowPolicy: { findUnique: vi.fn() },
+    user: { findUnique: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/notification-utils", () => ({
+  createTemplatedNotification: vi.fn(),
+}));
+
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import {
+  assertPatientCanBook,
+  BookingBlockedError,
+  DEFAULT_NO_SHOW_POLICY,
+  detectNoShows,
+  evaluateNoShowRestrictions,
+  getDepositAmount,
+  markAppointmentNoShow,
+  NoShowError,
+} from "@/lib/no-shows";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T17:30:00Z");
+
+function candidate(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "appointment-1",
+    patientId: "patient-1",
+    doctorId: "doctor-1",
+    type: "IN_PERSON",
+    scheduledAt: new Date("2025-03-10T17:00:00Z"),
+    chatRoom: { videoSessions: [] },
+    ...overrides,
+  };
+}
+
+describe("No-show policy", () => {
+  it("should require a deposit and then block bookings as no-shows add up", () => {
+    expect(evaluateNoShowRestrictions(DEFAULT_NO_SHOW_POLICY, 1)).toEqual({
+      noShowCount: 1,
+      blocked: false,
+      depositPercentage: 0,
+      explanation: null,
+    });
+
+    const deposit = evaluateNoShowRestrictions(DEFAULT_NO_SHOW_POLICY, 2);
+    expect(deposit.blocked).toBe(false);
+    expect(deposit.depositPercentage).toBe(50);
+    expect(getDepositAmount(85000, deposit)).toBe(42500);
+
+    const blocked = evaluateNoShowRestrictions(DEFAULT_NO_SHOW_POLICY, 4, "en");
+    expect(blocked.blocked).toBe(true);
+    expect(blocked.explanation).toContain("4 missed appointments");
+  });
+
+  it("should never restrict patients when the thresholds are disabled", () => {
+    const policy = { ...DEFAULT_NO_SHOW_POLICY, depositThreshold: 0, blockThreshold: 0 };
+
+    expect(evaluateNoShowRestrictions(policy, 10)).toMatchObject({
+      blocked: false,
+      depositPercentage: 0,
+    });
+  });
+
+  it("should reject bookings of blocked patients with the doctor's policy", async () => {
+    mockPrisma.user.findUnique.mockResolvedValue({ noShowCount: 3 });
+    mockPrisma.noShowPolicy.findUnique.mockResolvedValue({
+      id: "policy-1",
+      graceMinutes: 10,
+      depositThreshold: 1,
+      depositPercentage: 30,
+      blockThreshold: 3,
+    });
+
+    await expect(assertPatientCanBook("patient-1", "doctor-1")).rejects.toThrow(
+      BookingBlockedError
+    );
+  });
+});
+
+describe("No-show detection", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.noShowPolicy.findUnique.mockResolvedValue(null);
+    mockPrisma.appointment.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.appointment.findUnique.mockResolvedValue({
+      doctorId: "doctor-1",
+      scheduledAt: new Date("2025-03-10T17:00:00Z"),
+      patient: {
+        id: "patient-1",
+        timezone: "America/Mexico_City",
+        locale: "es",
+        noShowCount: 2,
+      },
+      doctor: { user: { name: "Dra. Ana López" } },
+    });
+  });
+
+  it("should count the no-show against the patient and close the chat", async () => {
+    await markAppointmentNoShow(candidate(), "DOCTOR", now);
+
+    expect(mockPrisma.appointment.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: "appointment-1",
+        status: { in: ["PENDING", "CONFIRMED"] },
+        checkedInAt: null,
+      },
+      data: { status: "NO_SHOW", noShowAt: now, noShowSource: "DOCTOR" },
+    });
+    expect(mockPrisma.user.update).toHaveBeenCalledWith({
+      where: { id: "patient-1" },
+      data: { noShowCount: { increment: 1 }, lastNoShowAt: now },
+    });
+    expect(mockPrisma.chatRoom.updateMany).toHaveBeenCalledWith({
+      where: { appointmentId: "appointment-1", isActive: true },
+      data: { isActive: false, endedAt: now },
+    });
+    expect(vi.mocked(createTemplatedNotification)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "patient-1",
+        template: "appointment.no_show.patient",
+        variables: expect.objectContaining({
+          details: expect.stringContaining("depósito no reembolsable del 50%"),
+        }),
+      })
+    );
+  });
+
+  it("should not mark appointments that haven't started or were already handled", async () => {
+    await expect(
+      markAppointmentNoShow(
+        candidate({ scheduledAt: new Date("2025-03-10T18:00:00Z") }),
+        "DOCTOR",
+        now
+      )
+    ).rejects.toThrow(NoShowError);
+
+    mockPrisma.appointment.updateMany.mockResolvedValue({ count: 0 });
+    await expect(markAppointmentNoShow(candidate(), "DOCTOR", now)).rejects.toThrow(
+      NoShowError
+    );
+    expect(mockPrisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it("should mark missed appointments once the grace period is over", async () => {
+    mockPrisma.appointment.findMany.mockResolvedValue([
+      // Presencial sin registro de llegada
+      candidate(),
+      // Videoconsulta a la que nadie se conectó
+      candidate({ id: "appointment-2", type: "VIRTUAL" }),
+      // Videoconsulta a la que sí se conectaron
+      candidate({
+        id: "appointment-3",
+        type: "VIRTUAL",
+        chatRoom: { videoSessions: [{ participants: [{ id: "participant-1" }] }] },
+      }),
+      // Aún dentro de los 15 minutos de tolerancia
+      candidate({ id: "appointment-4", scheduledAt: new Date("2025-03-10T17:20:00Z") }),
+    ]);
+
+    const result = await detectNoShows(now);
+
+    expect(result).toEqual({ checked: 4, marked: 2 });
+    expect(
+      mockPrisma.appointment.updateMany.mock.calls.map(([{ where }]: any) => where.id)
+    ).toEqual(["appointment-1", "appointment-2"]);
+    expect(mockPrisma.appointment.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ noShowSource: "AUTOMATIC" }),
+      })
+    );
+  });
+});
@@ -0,0 +1,215 @@
+import net from "node:net";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    notification: {
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+import {
+  deliverNotification,
+  getRetryDelayMinutes,
+  MAX_DELIVERY_ATTEMPTS,
+  processNotificationRetries,
+  resetChannelAdapters,
+  setChannelAdapter,
+} from "@/lib/notifications/delivery";
+import { InMemoryChannelAdapter } from "@/lib/notifications/channels/InMemoryChannelAdapter";
+import { buildMimeMessage, sendSmtpMail } from "@/lib/notifications/channels/SmtpClient";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T15:00:00Z");
+const notification: any = {
+  id: "notification-1",
+  userId: "user-1",
+  type: "SMS",
+  title: "Cita Médica Confirmada",
+  message: "Su cita ha sido confirmada.",
+  attempts: 0,
+  nextAttemptAt: null,
+  deliveryStatus: "PENDING",
+  user: { name: "Juan Pérez", email: "juan@example.com", phone: "55 1234 5678" },
+};
+
+describe("Notification delivery", () => {
+  let sms: InMemoryChannelAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sms = new InMemoryChannelAdapter("SMS");
+    setChannelAdapter("SMS", sms);
+    mockPrisma.notification.update.mockImplementation(({ data }: any) => ({
+      ...notification,
+      ...data,
+    }));
+  });
+
+  afterEach(() => {
+    resetChannelAdapters();
+  });
+
+  it("should mark delivered notifications as sent", async () => {
+    await deliverNotification(notification, now);
+
+    expect(sms.sent).toHaveLength(1);
+    expect(sms.sent[0].to.phone).toBe("55 1234 5678");
+    expect(mockPrisma.notification.update).toHaveBeenCalledWith({
+      where: { id: "notification-1" },
+      data: expect.objectContaining({
+        deliveryStatus: "SENT",
+        sentAt: now,
+        attempts: 1,
+        providerMessageId: "memory-1",
+      }),
+    });
+  });
+
+  it("should schedule transient failures with exponential backoff", async () => {
+    sms.failNext({ success: false, error: "Twilio SMS respondió 503", retryable: true });
+
+    await deliverNotification({ ...notification, attempts: 2 }, now);
+
+    expect(mockPrisma.notification.update).toHaveBeenCalledWith({
+      where: { id: "notification-1" },
+      data: {
+        deliveryStatus: "PENDING",
+        attempts: 3,
+        nextAttemptAt: new Date("2025-03-10T15:04:00Z"),
+        failureReason: "Twilio SMS respondió 503",
+      },
+    });
+    expect(getRetryDelayMinutes(1)).toBe(1);
+    expect(getRetryDelayMinutes(20)).toBe(60);
+  });
+
+  it("should give up on permanent failures and after the last attempt", async () => {
+    sms.failNext(
+      { success: false, error: "El usuario no tiene un teléfono válido", retryable: false },
+      { success: false, error: "timeout", retryable: true }
+    );
+
+    await deliverNotification(notification, now);
+    await deliverNotification(
+      { ...notification, attempts: MAX_DELIVERY_ATTEMPTS - 1 },
+      now
+    );
+
+    for (const [call] of mockPrisma.notification.update.mock.calls) {
+      expect(call.data).toEqual(
+        expect.objectContaining({ deliveryStatus: "FAILED", nextAttemptAt: null })
+      );
+    }
+  });
+
+  it("should fail without retrying when a channel has no provider", async () => {
+    setChannelAdapter("SMS", null);
+
+    await deliverNotification(notification, now);
+
+    expect(mockPrisma.notification.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          deliveryStatus: "FAILED",
+          failureReason: "No hay proveedor configurado para SMS",
+        }),
+      })
+    );
+  });
+
+  it("should only retry notifications it manages to claim", async () => {
+    const due = { ...notification, attempts: 1, nextAttemptAt: now };
+    mockPrisma.notification.findMany.mockResolvedValue([
+      due,
+      { ...due, id: "notification-2" },
+    ]);
+    mockPrisma.notification.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 });
+
+    const summary = await processNotificationRetries(now);
+
+    expect(summary).toEqual({ retried: 1, sent: 1, failed: 0 });
+    expect(sms.sent).toHaveLength(1);
+  });
+});
+
+describe("SMTP client", () => {
+  it("should encode non-ASCII subjects and bodies", () => {
+    const mime = buildMimeMessage(
+      {
+        from: { name: "Médica Móvil", address: "no-reply@medicamovil.mx" },
+        to: { name: "Juan Pérez", address: "juan@example.com" },
+        subject: "Cita Médica Confirmada",
+        text: "Su cita está confirmada.",
+        messageId: "notification-1@medicamovil.mx",
+      },
+      now
+    );
+
+    expect(mime).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from("Cita Médica Confirmada").toString("base64")}?=`
+    );
+    expect(mime).toContain("Message-ID: <notification-1@medicamovil.mx>");
+    expect(mime.split("\r\n\r\n")[1]).toBe(
+      Buffer.from("Su cita está confirmada.").toString("base64")
+    );
+  });
+
+  it("should deliver a message through an SMTP server", async () => {
+    const commands: string[] = [];
+    const server = net.createServer((socket) => {
+      let inData = false;
+      socket.write("220 test ESMTP\r\n");
+      socket.on("data", (chunk) => {
+        for (const line of chunk.toString().split("\r\n").filter(Boolean)) {
+          if (inData) {
+            if (line === ".") {
+              inData = false;
+              socket.write("250 queued\r\n");
+            }
+            continue;
+          }
+          commands.push(line.split(" ")[0]);
+          if (line.startsWith("EHLO")) socket.write("250-test\r\n250 AUTH PLAIN\r\n");
+          else if (line.startsWith("AUTH")) socket.write("235 ok\r\n");
+          else if (line === "DATA") {
+            inData = true;
+            socket.write("354 go ahead\r\n");
+          } else if (line === "QUIT") socket.end("221 bye\r\n");
+          else socket.write("250 ok\r\n");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, "127.0.0.1", resolve);
+    });
+    const { port } = server.address() as net.AddressInfo;
+
+    try {
+      await sendSmtpMail(
+        { host: "127.0.0.1", port, secure: false, user: "user", password: "secret" },
+        {
+          from: { name: "Médica Móvil", address: "no-reply@medicamovil.mx" },
+          to: { name: "Juan Pérez", address: "juan@example.com" },
+          subject: "Prueba",
+          text: "Hola",
+          messageId: "notification-1@medicamovil.mx",
+        }
+      );
+    } finally {
+      server.close();
+    }
+
+    expect(commands).toEqual(["EHLO", "AUTH", "MAIL", "RCPT", "DATA", "QUIT"]);
+  });
+});
@@ -0,0 +1,168 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    notification: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    notificationPreferences: { findUnique: vi.fn() },
+  },
+}));
+
+import {
+  getDigestDueAt,
+  isUrgentNotification,
+  processNotificationDigests,
+  summarizeDigestItems,
+} from "@/lib/notifications/digest";
+import { resetChannelAdapters, setChannelAdapter } from "@/lib/notifications/delivery";
+import { InMemoryChannelAdapter } from "@/lib/notifications/channels/InMemoryChannelAdapter";
+import { createNotification } from "@/lib/notification-utils";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T15:20:00Z"); // 09:20 en Ciudad de México
+const user = { name: "Ana García", email: "ana@example.com", phone: "5512345678" };
+
+function batchedNotification(id: string, title: string, overrides: any = {}) {
+  return {
+    id,
+    userId: "doctor-user-1",
+    type: "EMAIL",
+    title,
+    createdAt: new Date("2025-03-10T14:05:00Z"),
+    user: {
+      timezone: "America/Mexico_City",
+      locale: "es",
+      notificationPreferences: { digestMode: "HOURLY" },
+    },
+    ...overrides,
+  };
+}
+
+describe("Notification digests", () => {
+  let email: InMemoryChannelAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    email = new InMemoryChannelAdapter("EMAIL");
+    setChannelAdapter("EMAIL", email);
+    mockPrisma.notification.create.mockImplementation(async ({ data }: any) => ({
+      id: "digest-1",
+      attempts: 0,
+      user,
+      ...data,
+    }));
+    mockPrisma.notification.update.mockImplementation(async ({ data }: any) => data);
+  });
+
+  afterEach(() => {
+    resetChannelAdapters();
+  });
+
+  it("should treat urgent templates and imminent appointments as urgent", () => {
+    expect(isUrgentNotification("payment.failed", null, now)).toBe(true);
+    expect(isUrgentNotification("chat.message", null, now)).toBe(false);
+    expect(
+      isUrgentNotification("appointment.cancelled.doctor", new Date("2025-03-10T17:00:00Z"), now)
+    ).toBe(true);
+    expect(
+      isUrgentNotification("appointment.cancelled.doctor", new Date("2025-03-11T17:00:00Z"), now)
+    ).toBe(false);
+  });
+
+  it("should send hourly digests at the end of the hour and daily ones at 08:00 local time", () => {
+    const queuedAt = new Date("2025-03-10T14:05:00Z");
+
+    expect(getDigestDueAt("HOURLY", queuedAt, "America/Mexico_City")).toEqual(
+      new Date("2025-03-10T15:00:00Z")
+    );
+    // 08:05 en Ciudad de México: el resumen de hoy ya salió
+    expect(getDigestDueAt("DAILY", queuedAt, "America/Mexico_City")).toEqual(
+      new Date("2025-03-11T14:00:00Z")
+    );
+    expect(getDigestDueAt("DAILY", queuedAt, "America/Tijuana")).toEqual(
+      new Date("2025-03-10T15:00:00Z")
+    );
+  });
+
+  it("should count repeated titles once", () => {
+    expect(
+      summarizeDigestItems([
+        "Nuevo mensaje de Juan Pérez",
+        "Cita Médica Confirmada",
+        "Nuevo mensaje de Juan Pérez",
+      ])
+    ).toEqual(["Nuevo mensaje de Juan Pérez (2)", "Cita Médica Confirmada"]);
+  });
+
+  it("should deliver one summary per user and channel once it is due", async () => {
+    mockPrisma.notification.findMany.mockResolvedValue([
+      batchedNotification("notification-1", "Nuevo mensaje de Juan Pérez"),
+      batchedNotification("notification-2", "Nuevo mensaje de Juan Pérez"),
+      batchedNotification("notification-3", "Cita Médica Confirmada"),
+      batchedNotification("notification-4", "Nuevo mensaje de Luis Díaz", {
+        userId: "doctor-user-2",
+        user: {
+          timezone: "America/Mexico_City",
+          locale: "es",
+          notificationPreferences: { digestMode: "DAILY" },
+        },
+      }),
+    ]);
+    mockPrisma.notification.updateMany.mockResolvedValue({ count: 3 });
+
+    const summary = await processNotificationDigests(now);
+
+    expect(summary).toEqual({ digests: 1, notifications: 3 });
+    expect(mockPrisma.notification.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: ["notification-1", "notification-2", "notification-3"] },
+        deliveryStatus: "BATCHED",
+      },
+      data: { deliveryStatus: "SENT", sentAt: now },
+    });
+    expect(email.sent).toHaveLength(1);
+    expect(email.sent[0].title).toBe("Resumen de notificaciones");
+    expect(email.sent[0].message).toBe(
+      "Tiene 3 notificaciones nuevas en Medica Movil: \n• Nuevo mensaje de Juan Pérez (2)\n• Cita Médica Confirmada"
+    );
+    expect(mockPrisma.notification.updateMany).toHaveBeenLastCalledWith({
+      where: { id: { in: ["notification-1", "notification-2", "notification-3"] } },
+      data: { digestId: "digest-1" },
+    });
+  });
+
+  it("should hold non-urgent notifications for users with a digest", async () => {
+    mockPrisma.notificationPreferences.findUnique.mockResolvedValue({ digestMode: "HOURLY" });
+
+    await createNotification({
+      userId: "doctor-user-1",
+      type: "EMAIL",
+      title: "Nuevo mensaje de Juan Pérez",
+      message: "Juan Pérez le ha enviado un mensaje",
+    });
+    await createNotification({
+      userId: "doctor-user-1",
+      type: "EMAIL",
+      title: "Pago Rechazado",
+      message: "Su pago no pudo procesarse.",
+      urgent: true,
+    });
+
+    expect(mockPrisma.notification.create.mock.calls[0][0].data).toEqual(
+      expect.objectContaining({ deliveryStatus: "BATCHED" })
+    );
+    expect(mockPrisma.notification.create.mock.calls[1][0].data).not.toHaveProperty(
+      "deliveryStatus"
+    );
+    expect(email.sent.map((message) => message.title)).toEqual(["Pago Rechazado"]);
+  });
+});
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { NOTIFICATION_TEMPLATES } from "@/lib/notifications/template-catalog";
+import {
+  CHANNEL_LENGTH_RULES,
+  NOTIFICATION_LOCALES,
+  NotificationTemplateError,
+  NotificationTemplateKey,
+  renderNotificationTemplate,
+} from "@/lib/notifications/templates";
+import { WhatsAppBusinessAdapter } from "@/lib/notifications/channels/WhatsAppBusinessAdapter";
+
+const variables = {
+  doctorName: "Ana García",
+  date: "martes, 11 de marzo de 2025",
+  time: "11:00 a.m. CST",
+  refundAmount: "$500.00",
+};
+
+describe("Notification templates", () => {
+  it("should render the user's language and fall back to Spanish", () => {
+    const spanish = renderNotificationTemplate("appointment.cancelled_refund.patient", {
+      locale: "es",
+      channel: "EMAIL",
+      variables,
+    });
+    const english = renderNotificationTemplate("appointment.cancelled_refund.patient", {
+      locale: "en",
+      channel: "EMAIL",
+      variables,
+    });
+    const unknown = renderNotificationTemplate("appointment.cancelled_refund.patient", {
+      locale: "fr",
+      channel: "EMAIL",
+      variables,
+    });
+
+    expect(spanish.title).toBe("Cita Médica Cancelada");
+    expect(spanish.message).toContain("Recibirá un reembolso de $500.00");
+    expect(english.message).toContain("You will receive a refund of $500.00");
+    expect(unknown).toEqual(spanish);
+  });
+
+  it("should keep SMS within a single 160-character segment", () => {
+    const sms = renderNotificationTemplate("chat.message", {
+      locale: "es",
+      channel: "SMS",
+      variables: { senderName: "Juan Pérez", preview: "a".repeat(300) },
+    });
+
+    expect(`${sms.title}: ${sms.message}`).toHaveLength(160);
+    expect(sms.message.endsWith("...")).toBe(true);
+
+    const short = renderNotificationTemplate("appointment.confirmed.patient", {
+      locale: "es",
+      channel: "SMS",
+      variables,
+    });
+    expect(short.message).toBe(
+      "Cita con Dr. Ana García confirmada: martes, 11 de marzo de 2025, 11:00 a.m. CST."
+    );
+  });
+
+  it("should attach the approved WhatsApp template with its parameters", () => {
+    const rendered = renderNotificationTemplate("appointment.cancelled_refund.patient", {
+      locale: "en",
+      channel: "WHATSAPP",
+      variables,
+    });
+
+    expect(rendered.whatsappTemplate).toEqual({
+      name: "appointment_cancelled_refund",
+      language: "en_US",
+      parameters: ["Ana García", "martes, 11 de marzo de 2025", "11:00 a.m. CST", "$500.00"],
+    });
+    expect(
+      renderNotificationTemplate("appointment.cancelled_refund.patient", {
+        channel: "EMAIL",
+        variables,
+      }).whatsappTemplate
+    ).toBeUndefined();
+  });
+
+  it("should reject missing variables", () => {
+    expect(() =>
+      renderNotificationTemplate("payment.failed", {
+        channel: "BROWSER",
+        variables: { amount: "$500.00 MXN" },
+      })
+    ).toThrow(NotificationTemplateError);
+  });
+
+  it("should define every language and render every sample within the channel limits", () => {
+    for (const [key, template] of Object.entries(NOTIFICATION_TEMPLATES)) {
+      for (const locale of NOTIFICATION_LOCALES) {
+        expect(template.locales[locale].title).toBeTruthy();
+
+        for (const channel of ["EMAIL", "SMS", "WHATSAPP", "BROWSER"] as const) {
+          const rendered = renderNotificationTemplate(key as NotificationTemplateKey, {
+            locale,
+            channel,
+            variables: template.sample,
+          });
+          const { maxLength } = CHANNEL_LENGTH_RULES[channel];
+          expect(rendered.message).not.toMatch(/\{\{/);
+          if (maxLength !== null) {
+            expect(rendered.message.length).toBeLessThanOrEqual(maxLength);
+          }
+        }
+      }
+    }
+  });
+});
+
+describe("WhatsApp Business adapter", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should send templated notifications as template messages", async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ messages: [{ id: "wamid.1" }] }),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const adapter = new WhatsAppBusinessAdapter({ phoneNumberId: "123", accessToken: "token" });
+    const result = await adapter.send({
+      notificationId: "notification-1",
+      to: { name: "Juan Pérez", email: "juan@example.com", phone: "5512345678" },
+      title: "Pago Recibido",
+      message: "Juan Pérez pagó $500.00 MXN por su cita.",
+      whatsappTemplate: { name: "payment_received", language: "es_MX", parameters: ["Juan Pérez", "$500.00 MXN"] },
+    });
+
+    expect(result).toEqual({ success: true, providerMessageId: "wamid.1", retryable: false });
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+      messaging_product: "whatsapp",
+      to: "525512345678",
+      type: "template",
+      template: {
+        name: "payment_received",
+        language: { code: "es_MX" },
+        components: [
+          {
+            type: "body",
+            parameters: [
+              { type: "text", text: "Juan Pérez" },
+              { type: "text", text: "$500.00 MXN" },
+            ],
+          },
+        ],
+      },
+    });
+  });
+});
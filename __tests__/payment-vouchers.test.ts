@@ -0,0 +1,219 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    payment: {
+      findMany: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    appointment: { findUniqueOrThrow: vi.fn(), updateMany: vi.fn() },
+    slotHold: { updateMany: vi.fn() },
+    user: { findUniqueOrThrow: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+vi.mock("@/lib/notification-utils", () => ({
+  createTemplatedNotification: vi.fn(),
+}));
+
+vi.mock("@/lib/waitlist", () => ({
+  offerFreedSlot: vi.fn(),
+}));
+
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import { offerFreedSlot } from "@/lib/waitlist";
+import { MercadoPagoUtils } from "@/lib/payments/mercadopago/MercadoPagoUtils";
+import {
+  expireUnpaidVouchers,
+  expireVoucherPayment,
+  getVoucherExpiration,
+  registerPaymentVoucher,
+} from "@/lib/payment-vouchers";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T17:00:00Z");
+const scheduledAt = new Date("2025-03-14T17:00:00Z");
+const voucherExpiresAt = new Date("2025-03-13T17:00:00Z");
+
+const appointment = {
+  id: "appointment-1",
+  doctorId: "doctor-1",
+  type: "IN_PERSON",
+  scheduledAt,
+  duration: 30,
+};
+
+const voucher = {
+  reference: "93124567890123",
+  clabe: null,
+  url: "https://www.mercadopago.com.mx/payments/1/ticket",
+  expiresAt: voucherExpiresAt,
+};
+
+describe("Payment vouchers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((cb: any) => cb(mockPrisma));
+    mockPrisma.slotHold.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.payment.update.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: "payment-1", userId: "patient-1", amount: 50000, ...data })
+    );
+    mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+      id: "patient-1",
+      locale: "es",
+      timezone: "America/Mexico_City",
+    });
+  });
+
+  it("should give up to three days to pay, ending before the appointment", () => {
+    expect(getVoucherExpiration(new Date("2025-03-20T17:00:00Z"), now)).toEqual(
+      new Date("2025-03-13T17:00:00Z")
+    );
+    expect(getVoucherExpiration(new Date("2025-03-11T17:00:00Z"), now)).toEqual(
+      new Date("2025-03-11T15:00:00Z")
+    );
+    expect(getVoucherExpiration(new Date("2025-03-10T19:30:00Z"), now)).toBeNull();
+  });
+
+  it("should read the OXXO reference and SPEI CLABE from MercadoPago", () => {
+    const payment = {
+      id: 1,
+      payment_type_id: "ticket",
+      date_of_expiration: "2025-03-13T17:00:00.000Z",
+      transaction_details: {
+        payment_method_reference_id: "93124567890123",
+        external_resource_url: voucher.url,
+      },
+    } as any;
+
+    expect(MercadoPagoUtils.getVoucher(payment)).toEqual({
+      reference: "93124567890123",
+      clabe: null,
+      url: voucher.url,
+      expiresAt: "2025-03-13T17:00:00.000Z",
+    });
+    expect(
+      MercadoPagoUtils.getVoucher({ ...payment, payment_type_id: "bank_transfer" })
+    ).toMatchObject({ reference: null, clabe: "93124567890123" });
+    expect(
+      MercadoPagoUtils.getVoucher({ ...payment, payment_type_id: "credit_card" })
+    ).toBeNull();
+  });
+
+  it("should store the voucher and hold the slot until a late payment can arrive", async () => {
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue({
+      voucherExpiresAt: null,
+      appointment: { id: "appointment-1", scheduledAt },
+    });
+
+    await registerPaymentVoucher("payment-1", "OXXO", voucher);
+
+    expect(mockPrisma.payment.update).toHaveBeenCalledWith({
+      where: { id: "payment-1" },
+      data: {
+        method: "OXXO",
+        voucherReference: "93124567890123",
+        voucherClabe: null,
+        voucherUrl: voucher.url,
+        voucherExpiresAt,
+      },
+    });
+    expect(mockPrisma.slotHold.updateMany).toHaveBeenCalledWith({
+      where: { appointmentId: "appointment-1", status: "ACTIVE" },
+      data: { expiresAt: new Date("2025-03-13T18:00:00Z") },
+    });
+    expect(createTemplatedNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        template: "payment.voucher_issued",
+        variables: expect.objectContaining({
+          method: "OXXO",
+          instructions: "Referencia: 93124567890123",
+        }),
+      })
+    );
+  });
+
+  it("should not notify again when MercadoPago repeats the pending notification", async () => {
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue({
+      voucherExpiresAt,
+      appointment: { id: "appointment-1", scheduledAt },
+    });
+
+    await registerPaymentVoucher("payment-1", "OXXO", voucher);
+
+    expect(mockPrisma.payment.update).toHaveBeenCalled();
+    expect(createTemplatedNotification).not.toHaveBeenCalled();
+  });
+
+  it("should cancel the appointment and free the slot of an expired voucher", async () => {
+    mockPrisma.payment.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue({ appointment });
+    mockPrisma.appointment.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.appointment.findUniqueOrThrow.mockResolvedValue({
+      scheduledAt,
+      patient: { id: "patient-1", locale: "es", timezone: "America/Mexico_City" },
+      doctor: { user: { name: "Ana García" } },
+    });
+
+    expect(await expireVoucherPayment("payment-1", now)).toBe(true);
+
+    expect(mockPrisma.payment.updateMany).toHaveBeenCalledWith({
+      where: { id: "payment-1", status: "PENDING", voucherExpiresAt: { not: null } },
+      data: { status: "FAILED", failureReason: "Ficha de pago vencida sin pago" },
+    });
+    expect(mockPrisma.appointment.updateMany).toHaveBeenCalledWith({
+      where: { id: "appointment-1", status: "PENDING" },
+      data: {
+        status: "CANCELLED",
+        cancellationReason: "Ficha de pago vencida sin pago",
+        cancelledAt: now,
+      },
+    });
+    expect(mockPrisma.slotHold.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { appointmentId: "appointment-1", status: { in: ["ACTIVE", "CONVERTED"] } },
+      })
+    );
+    expect(offerFreedSlot).toHaveBeenCalledWith(
+      { doctorId: "doctor-1", type: "IN_PERSON", startsAt: scheduledAt, duration: 30 },
+      now
+    );
+    expect(createTemplatedNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ template: "payment.voucher_expired" })
+    );
+  });
+
+  it("should leave vouchers that were paid meanwhile alone", async () => {
+    mockPrisma.payment.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await expireVoucherPayment("payment-1", now)).toBe(false);
+
+    expect(mockPrisma.appointment.updateMany).not.toHaveBeenCalled();
+    expect(offerFreedSlot).not.toHaveBeenCalled();
+  });
+
+  it("should only expire vouchers past the confirmation grace period", async () => {
+    mockPrisma.payment.findMany.mockResolvedValue([{ id: "payment-1" }]);
+    mockPrisma.payment.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue({ appointment: null });
+
+    const result = await expireUnpaidVouchers(now);
+
+    expect(mockPrisma.payment.findMany).toHaveBeenCalledWith({
+      where: {
+        status: "PENDING",
+        voucherExpiresAt: { lte: new Date("2025-03-10T16:00:00Z") },
+      },
+      select: { id: true },
+    });
+    expect(result).toEqual({ checked: 1, expired: 1 });
+  });
+});
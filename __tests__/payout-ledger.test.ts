@@ -0,0 +1,314 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    payment: { findUniqueOrThrow: vi.fn() },
+    doctor: { findUniqueOrThrow: vi.fn() },
+    ledgerTransaction: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+    },
+    ledgerEntry: { aggregate: vi.fn(), groupBy: vi.fn(), updateMany: vi.fn() },
+    payoutSettlement: {
+      create: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    paymentDistribution: { findFirst: vi.fn(), create: vi.fn(), updateMany: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+import { validateCLABE } from "@/lib/mexican-utils";
+import {
+  createWeeklySettlements,
+  getSettlementPeriod,
+  markSettlementFailed,
+  markSettlementPaid,
+  payoutAccountSchema,
+  PayoutLedgerError,
+  recordPaymentSplit,
+  recordRefundReversal,
+  splitPayment,
+} from "@/lib/payout-ledger";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const payment = {
+  amount: 100000,
+  status: "COMPLETED",
+  installmentFee: null,
+  appointment: { doctorId: "doctor-1", doctor: { commissionRate: null } },
+};
+
+const splitTransaction = {
+  id: "transaction-1",
+  type: "PAYMENT_SPLIT",
+  idempotencyKey: "split:payment-1",
+  entries: [
+    { account: "PROVIDER_BALANCE", amount: 100000, doctorId: null },
+    { account: "DOCTOR_PAYABLE", amount: -85000, doctorId: "doctor-1" },
+    { account: "PLATFORM_REVENUE", amount: -15000, doctorId: null },
+  ],
+};
+
+const postedLines = (call = 0) =>
+  mockPrisma.ledgerTransaction.create.mock.calls[call][0].data.entries.create;
+
+describe("Payout ledger", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((cb: any) => cb(mockPrisma));
+    mockPrisma.ledgerTransaction.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: "transaction-2", ...data, entries: data.entries.create })
+    );
+  });
+
+  it("should take the commission and the installment fee from the doctor's share", () => {
+    expect(splitPayment(100000, 0.15)).toEqual({
+      doctorAmount: 85000,
+      platformAmount: 15000,
+      installmentFee: 0,
+    });
+    expect(splitPayment(120000, 0.1, 8988)).toEqual({
+      doctorAmount: 99012,
+      platformAmount: 12000,
+      installmentFee: 8988,
+    });
+  });
+
+  it("should split a completed payment with the doctor's commission rate", async () => {
+    mockPrisma.ledgerTransaction.findUnique.mockResolvedValue(null);
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue({
+      ...payment,
+      installmentFee: 7490,
+      appointment: { doctorId: "doctor-1", doctor: { commissionRate: 0.1 } },
+    });
+    mockPrisma.paymentDistribution.findFirst.mockResolvedValue(null);
+
+    await recordPaymentSplit("payment-1");
+
+    expect(postedLines()).toEqual([
+      { account: "PROVIDER_BALANCE", amount: 92510 },
+      { account: "DOCTOR_PAYABLE", amount: -82510, doctorId: "doctor-1" },
+      { account: "PLATFORM_REVENUE", amount: -10000 },
+    ]);
+    expect(mockPrisma.paymentDistribution.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        doctorAmount: 82510,
+        adminAmount: 10000,
+        status: "PENDING",
+      }),
+    });
+  });
+
+  it("should only split a payment once", async () => {
+    mockPrisma.ledgerTransaction.findUnique.mockResolvedValue(splitTransaction);
+
+    await expect(recordPaymentSplit("payment-1")).resolves.toBe(splitTransaction);
+    expect(mockPrisma.ledgerTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it("should not split payments that haven't completed", async () => {
+    mockPrisma.ledgerTransaction.findUnique.mockResolvedValue(null);
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue({ ...payment, status: "PENDING" });
+
+    await expect(recordPaymentSplit("payment-1")).rejects.toThrow(PayoutLedgerError);
+  });
+
+  it("should reverse refunds in proportion until the split nets to zero", async () => {
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValueOnce({
+      amount: 100000,
+      ledgerTransactions: [splitTransaction],
+    });
+
+    const partial = await recordRefundReversal("payment-1", 30000);
+
+    expect(partial?.idempotencyKey).toBe("refund:payment-1:30000");
+    expect(postedLines(0)).toEqual([
+      { account: "DOCTOR_PAYABLE", amount: 25500, doctorId: "doctor-1" },
+      { account: "PLATFORM_REVENUE", amount: 4500 },
+      { account: "PROVIDER_BALANCE", amount: -30000 },
+    ]);
+    expect(mockPrisma.paymentDistribution.updateMany).not.toHaveBeenCalled();
+
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValueOnce({
+      amount: 100000,
+      ledgerTransactions: [splitTransaction, partial],
+    });
+
+    await recordRefundReversal("payment-1", 100000);
+
+    expect(postedLines(1)).toEqual([
+      { account: "DOCTOR_PAYABLE", amount: 59500, doctorId: "doctor-1" },
+      { account: "PLATFORM_REVENUE", amount: 10500 },
+      { account: "PROVIDER_BALANCE", amount: -70000 },
+    ]);
+    expect(mockPrisma.paymentDistribution.updateMany).toHaveBeenCalledWith({
+      where: { paymentId: "payment-1" },
+      data: { status: "REFUNDED" },
+    });
+  });
+
+  it("should skip refunds of payments split before the ledger existed", async () => {
+    mockPrisma.payment.findUniqueOrThrow.mockResolvedValue({
+      amount: 100000,
+      ledgerTransactions: [],
+    });
+
+    await expect(recordRefundReversal("payment-1", 100000)).resolves.toBeNull();
+    expect(mockPrisma.ledgerTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it("should settle the last closed week in Mexico City", () => {
+    const period = {
+      periodStart: new Date("2025-03-03T06:00:00Z"),
+      periodEnd: new Date("2025-03-10T06:00:00Z"),
+    };
+
+    expect(getSettlementPeriod(new Date("2025-03-12T17:00:00Z"))).toEqual(period);
+    expect(getSettlementPeriod(new Date("2025-03-10T06:30:00Z"))).toEqual(period);
+    // Sunday night in Mexico City is still the week before
+    expect(getSettlementPeriod(new Date("2025-03-10T05:00:00Z")).periodEnd).toEqual(
+      new Date("2025-03-03T06:00:00Z")
+    );
+  });
+
+  it("should settle doctors who are owed money to their CLABE, less withholdings", async () => {
+    const balances: Record<string, number> = { "doctor-1": -85000, "doctor-2": -40000 };
+    mockPrisma.ledgerEntry.groupBy.mockResolvedValue([
+      { doctorId: "doctor-1", _sum: { amount: -85000 } },
+      { doctorId: "doctor-2", _sum: { amount: -40000 } },
+      { doctorId: "doctor-3", _sum: { amount: 5000 } },
+    ]);
+    mockPrisma.doctor.findUniqueOrThrow.mockImplementation(({ where }: any) =>
+      Promise.resolve(
+        where.id === "doctor-1"
+          ? {
+              payoutClabe: "002010077777777771",
+              payoutAccountHolder: "Juan Pérez",
+              ivaExempt: true,
+              user: { fiscalProfile: { rfc: "PEPJ800101AB1", taxRegime: "612" } },
+            }
+          : {
+              payoutClabe: null,
+              payoutAccountHolder: null,
+              ivaExempt: true,
+              user: { fiscalProfile: null },
+            }
+      )
+    );
+    mockPrisma.ledgerEntry.aggregate.mockImplementation(({ where }: any) =>
+      Promise.resolve({ _sum: { amount: balances[where.doctorId] } })
+    );
+    mockPrisma.payoutSettlement.create.mockImplementation(({ data }: any) =>
+      Promise.resolve({ id: "settlement-1", ...data })
+    );
+
+    const summary = await createWeeklySettlements(new Date("2025-03-12T17:00:00Z"));
+
+    expect(summary).toEqual({ created: 1, missingClabe: 1, amount: 76500 });
+    expect(mockPrisma.payoutSettlement.create).toHaveBeenCalledTimes(1);
+    expect(mockPrisma.payoutSettlement.create).toHaveBeenCalledWith({
+      data: {
+        doctorId: "doctor-1",
+        periodStart: new Date("2025-03-03T06:00:00Z"),
+        periodEnd: new Date("2025-03-10T06:00:00Z"),
+        amount: 76500,
+        isrWithheld: 8500,
+        ivaWithheld: 0,
+        rfc: "PEPJ800101AB1",
+        taxRegime: "612",
+        clabe: "002010077777777771",
+        accountHolder: "Juan Pérez",
+      },
+    });
+    expect(mockPrisma.ledgerEntry.updateMany).toHaveBeenCalledWith({
+      where: {
+        doctorId: "doctor-1",
+        account: "DOCTOR_PAYABLE",
+        settlementId: null,
+        createdAt: { lt: new Date("2025-03-10T06:00:00Z") },
+      },
+      data: { settlementId: "settlement-1" },
+    });
+  });
+
+  it("should post the transfer and the withholdings when a settlement is paid", async () => {
+    const paidAt = new Date("2025-03-10T18:00:00Z");
+    mockPrisma.payoutSettlement.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.payoutSettlement.findUniqueOrThrow.mockResolvedValue({
+      id: "settlement-1",
+      doctorId: "doctor-1",
+      amount: 76500,
+      isrWithheld: 8500,
+      ivaWithheld: 0,
+    });
+    mockPrisma.ledgerTransaction.findMany.mockResolvedValue([{ paymentId: "payment-1" }]);
+
+    await markSettlementPaid("settlement-1", "MBAN01002503100001", paidAt);
+
+    expect(mockPrisma.ledgerTransaction.create.mock.calls[0][0].data).toMatchObject({
+      type: "PAYOUT",
+      idempotencyKey: "payout:settlement-1",
+      settlementId: "settlement-1",
+    });
+    expect(postedLines()).toEqual([
+      {
+        account: "DOCTOR_PAYABLE",
+        amount: 85000,
+        doctorId: "doctor-1",
+        settlementId: "settlement-1",
+      },
+      { account: "PROVIDER_BALANCE", amount: -76500 },
+      { account: "TAX_WITHHELD", amount: -8500 },
+    ]);
+    expect(mockPrisma.paymentDistribution.updateMany).toHaveBeenCalledWith({
+      where: { paymentId: { in: ["payment-1"] }, status: "PENDING" },
+      data: { status: "COMPLETED", distributedAt: paidAt },
+    });
+  });
+
+  it("should not process a settlement twice", async () => {
+    mockPrisma.payoutSettlement.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(markSettlementPaid("settlement-1", "MBAN01002503100001")).rejects.toThrow(
+      PayoutLedgerError
+    );
+    expect(mockPrisma.ledgerTransaction.create).not.toHaveBeenCalled();
+  });
+
+  it("should carry rejected transfers over to the next settlement", async () => {
+    mockPrisma.payoutSettlement.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.payoutSettlement.findUniqueOrThrow.mockResolvedValue({
+      id: "settlement-1",
+      status: "FAILED",
+    });
+
+    await markSettlementFailed("settlement-1", "Cuenta cancelada");
+
+    expect(mockPrisma.payoutSettlement.updateMany).toHaveBeenCalledWith({
+      where: { id: "settlement-1", status: "PENDING" },
+      data: { status: "FAILED", failureReason: "Cuenta cancelada" },
+    });
+    expect(mockPrisma.ledgerEntry.updateMany).toHaveBeenCalledWith({
+      where: { settlementId: "settlement-1" },
+      data: { settlementId: null },
+    });
+  });
+
+  it("should only accept CLABEs with a valid check digit", () => {
+    expect(validateCLABE("002010077777777771")).toBe(true);
+    expect(validateCLABE("002010077777777772")).toBe(false);
+    expect(validateCLABE("00201007777777777")).toBe(false);
+    expect(
+      payoutAccountSchema.parse({ clabe: "002 010 07777777777 1", accountHolder: " Juan Pérez " })
+    ).toEqual({ clabe: "002010077777777771", accountHolder: "Juan Pérez" });
+  });
+});
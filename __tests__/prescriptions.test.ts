@@ -0,0 +1,203 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    doctor: { findUniqueOrThrow: vi.fn() },
+    user: { findUniqueOrThrow: vi.fn() },
+    prescription: { findUnique: vi.fn() },
+    $transaction: vi.fn(),
+  },
+}));
+
+const upload = vi.fn();
+vi.mock("@/lib/supabase", () => ({
+  createSupabaseAdminClient: () => ({
+    storage: { from: () => ({ upload }) },
+  }),
+}));
+
+import {
+  generateVerificationCode,
+  issuePrescription,
+  normalizeVerificationCode,
+  PrescriptionError,
+  prescriptionSchema,
+  renderPrescriptionPdf,
+  verifyPrescription,
+} from "@/lib/prescriptions";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T18:00:00Z");
+
+const appointment = {
+  id: "appointment-1",
+  doctorId: "doctor-1",
+  patientId: "patient-1",
+  status: "COMPLETED" as const,
+};
+
+const input = prescriptionSchema.parse({
+  diagnosis: "Faringitis aguda",
+  items: [
+    {
+      medication: "Paracetamol 500 mg tabletas",
+      dose: "1 tableta",
+      frequency: "cada 8 horas",
+      duration: "5 días",
+      instructions: "",
+    },
+  ],
+});
+
+const tx = {
+  prescription: {
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  medicalFile: { create: vi.fn() },
+};
+
+describe("Prescriptions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    upload.mockResolvedValue({ data: { path: "x" }, error: null });
+    mockPrisma.$transaction.mockImplementation((callback: any) => callback(tx));
+    mockPrisma.doctor.findUniqueOrThrow.mockResolvedValue({
+      userId: "doctor-user-1",
+      specialty: "Medicina General",
+      cedulaProfesional: "12345678",
+      address: "Av. Reforma 123",
+      city: "Ciudad de México",
+      state: "CDMX",
+      user: { name: "Dra. Ana López", timezone: "America/Mexico_City" },
+    });
+    mockPrisma.user.findUniqueOrThrow.mockResolvedValue({
+      name: "Juan Pérez",
+      patientProfile: { dateOfBirth: new Date("1990-06-15T00:00:00Z") },
+    });
+    tx.prescription.create.mockResolvedValue({ id: "prescription-1" });
+    tx.medicalFile.create.mockResolvedValue({ id: "file-1" });
+  });
+
+  it("should generate codes that survive being typed back", () => {
+    const code = generateVerificationCode();
+
+    expect(code).toMatch(/^[2-9A-Z]{4}-[2-9A-Z]{4}-[2-9A-Z]{4}$/);
+    expect(normalizeVerificationCode(code.toLowerCase().replace(/-/g, " "))).toBe(code);
+    expect(normalizeVerificationCode("ABCD-EFGH-IJK0")).toBeNull();
+  });
+
+  it("should render a PDF", () => {
+    const pdf = renderPrescriptionPdf({
+      verificationCode: "ABCD-EFGH-JKLM",
+      issuedAt: now,
+      timeZone: "America/Mexico_City",
+      doctor: {
+        name: "Dra. Ana López",
+        specialty: "Medicina General",
+        cedulaProfesional: "12345678",
+        address: null,
+      },
+      patient: { name: "Juan Pérez", age: 34 },
+      diagnosis: null,
+      notes: null,
+      items: input.items,
+    });
+
+    expect(pdf.subarray(0, 8).toString("latin1")).toBe("%PDF-1.4");
+    expect(pdf.subarray(-6).toString("latin1")).toBe("%%EOF\n");
+  });
+
+  it("should store the PDF as a prescription medical file of the appointment", async () => {
+    await issuePrescription(appointment, input, now);
+
+    expect(upload).toHaveBeenCalledWith(
+      expect.stringMatching(/^prescriptions\/appointment-1\/[2-9A-Z-]{14}\.pdf$/),
+      expect.any(Buffer),
+      expect.objectContaining({ contentType: "application/pdf" })
+    );
+    expect(tx.prescription.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        appointmentId: "appointment-1",
+        cedulaProfesional: "12345678",
+        diagnosis: "Faringitis aguda",
+        issuedAt: now,
+        items: {
+          create: [
+            expect.objectContaining({
+              position: 0,
+              medication: "Paracetamol 500 mg tabletas",
+              instructions: null,
+            }),
+          ],
+        },
+      }),
+    });
+    expect(tx.medicalFile.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        appointmentId: "appointment-1",
+        uploadedBy: "doctor-user-1",
+        fileUrl: "/api/prescriptions/prescription-1/pdf",
+        fileType: "PRESCRIPTION",
+        mimeType: "application/pdf",
+      }),
+    });
+    expect(tx.prescription.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { medicalFileId: "file-1" } })
+    );
+  });
+
+  it("should require the doctor's cédula and a started consultation", async () => {
+    await expect(
+      issuePrescription({ ...appointment, status: "CONFIRMED" }, input, now)
+    ).rejects.toThrow(PrescriptionError);
+
+    mockPrisma.doctor.findUniqueOrThrow.mockResolvedValue({
+      userId: "doctor-user-1",
+      specialty: "Medicina General",
+      cedulaProfesional: null,
+      user: { name: "Dra. Ana López", timezone: "America/Mexico_City" },
+    });
+    await expect(issuePrescription(appointment, input, now)).rejects.toThrow(
+      "Registre su cédula profesional en su perfil antes de emitir recetas"
+    );
+    expect(upload).not.toHaveBeenCalled();
+  });
+
+  it("should show pharmacies the prescription with the patient's name abbreviated", async () => {
+    mockPrisma.prescription.findUnique.mockResolvedValue({
+      issuedAt: now,
+      cedulaProfesional: "12345678",
+      doctor: { specialty: "Medicina General", user: { name: "Dra. Ana López" } },
+      patient: { name: "Juan Carlos Pérez Ruiz" },
+      items: [
+        {
+          medication: "Paracetamol 500 mg tabletas",
+          dose: "1 tableta",
+          frequency: "cada 8 horas",
+          duration: "5 días",
+          instructions: "Con alimentos",
+        },
+      ],
+    });
+
+    const verification = await verifyPrescription("abcd efgh jklm");
+
+    expect(mockPrisma.prescription.findUnique).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { verificationCode: "ABCD-EFGH-JKLM" } })
+    );
+    expect(verification).toMatchObject({
+      verificationCode: "ABCD-EFGH-JKLM",
+      doctorName: "Dra. Ana López",
+      patientName: "Juan C. P. R.",
+    });
+    expect(verification!.items[0]).not.toHaveProperty("instructions");
+
+    expect(await verifyPrescription("not-a-code")).toBeNull();
+  });
+});
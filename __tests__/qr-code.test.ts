@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { encodeQrCode, reedSolomonRemainder } from "@/lib/qr-code";
+
+describe("QR code encoder", () => {
+  it("should compute the error correction codewords", () => {
+    // "HELLO WORLD" en versión 1-M, ejemplo de la especificación
+    const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+
+    expect(reedSolomonRemainder(data, 10)).toEqual([
+      196, 35, 39, 119, 235, 215, 231, 226, 93, 23,
+    ]);
+  });
+
+  it("should pick the smallest version that fits the text", () => {
+    expect(encodeQrCode("hola").version).toBe(1);
+
+    const url = encodeQrCode("https://medicamovil.mx/recetas/verificar/ABCD-EFGH-JKLM");
+    expect(url.version).toBe(4);
+    expect(url.size).toBe(33);
+    expect(url.modules).toHaveLength(33);
+
+    expect(encodeQrCode("x".repeat(200)).version).toBe(10);
+    expect(() => encodeQrCode("x".repeat(300))).toThrow();
+  });
+
+  it("should draw the finder patterns and the dark module", () => {
+    const { modules, size } = encodeQrCode("hola");
+    const finderRow = [true, true, true, true, true, true, true, false];
+
+    expect(modules[0].slice(0, 8)).toEqual(finderRow);
+    expect(modules[0].slice(size - 8).reverse()).toEqual(finderRow);
+    expect(modules[size - 1].slice(0, 8)).toEqual(finderRow);
+    expect(modules[3].slice(0, 7)).toEqual([true, false, true, true, true, false, true]);
+    expect(modules[size - 8][8]).toBe(true);
+  });
+});
@@ -0,0 +1,206 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    $executeRaw: vi.fn(),
+    $queryRaw: vi.fn(),
+    slotHold: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+      create: vi.fn(),
+    },
+    appointment: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+import {
+  convertSlotHold,
+  createSlotHold,
+  ensureSlotOverlapConstraint,
+  hasSlotOverlapConstraint,
+  holdSlot,
+  releaseExpiredSlotHolds,
+  SLOT_HOLD_MINUTES,
+  SlotUnavailableError,
+} from "@/lib/slot-holds";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T15:00:00Z");
+const request = {
+  doctorId: "doctor-1",
+  patientId: "patient-1",
+  type: "IN_PERSON" as const,
+  startsAt: new Date("2025-03-11T16:00:00Z"),
+  duration: 30,
+};
+
+describe("Slot holds", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: any) =>
+      callback(mockPrisma)
+    );
+    mockPrisma.slotHold.findMany.mockResolvedValue([]);
+    mockPrisma.slotHold.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.appointment.findMany.mockResolvedValue([]);
+    mockPrisma.slotHold.create.mockImplementation(({ data }: any) => ({
+      id: "hold-1",
+      ...data,
+    }));
+  });
+
+  describe("holdSlot", () => {
+    it("should create a hold that expires after the hold window", async () => {
+      const hold = await holdSlot(mockPrisma, request, now);
+
+      expect(hold.endsAt).toEqual(new Date("2025-03-11T16:30:00Z"));
+      expect(hold.expiresAt).toEqual(
+        new Date(now.getTime() + SLOT_HOLD_MINUTES * 60 * 1000)
+      );
+    });
+
+    it("should release the patient's previous selection with the doctor", async () => {
+      await holdSlot(mockPrisma, request, now);
+
+      expect(mockPrisma.slotHold.updateMany).toHaveBeenCalledWith({
+        where: {
+          doctorId: "doctor-1",
+          patientId: "patient-1",
+          status: "ACTIVE",
+          appointmentId: null,
+        },
+        data: expect.objectContaining({ status: "RELEASED" }),
+      });
+    });
+
+    it("should reject slots that overlap an existing appointment", async () => {
+      mockPrisma.appointment.findMany.mockResolvedValue([
+        { scheduledAt: new Date("2025-03-11T15:45:00Z"), duration: 30 },
+      ]);
+
+      await expect(holdSlot(mockPrisma, request, now)).rejects.toBeInstanceOf(
+        SlotUnavailableError
+      );
+      expect(mockPrisma.slotHold.create).not.toHaveBeenCalled();
+    });
+
+    it("should allow slots that start when an appointment ends", async () => {
+      mockPrisma.appointment.findMany.mockResolvedValue([
+        { scheduledAt: new Date("2025-03-11T15:30:00Z"), duration: 30 },
+      ]);
+
+      await expect(holdSlot(mockPrisma, request, now)).resolves.toBeDefined();
+    });
+  });
+
+  describe("createSlotHold", () => {
+    it("should report the overlap constraint as an unavailable slot", async () => {
+      mockPrisma.slotHold.create.mockRejectedValue(
+        new Error(
+          'conflicting key value violates exclusion constraint "slot_holds_no_overlap"'
+        )
+      );
+
+      await expect(createSlotHold(request)).rejects.toBeInstanceOf(
+        SlotUnavailableError
+      );
+    });
+  });
+
+  describe("convertSlotHold", () => {
+    it("should convert an active hold", async () => {
+      mockPrisma.slotHold.findUnique.mockResolvedValue({
+        id: "hold-1",
+        status: "ACTIVE",
+      });
+      mockPrisma.slotHold.updateMany.mockResolvedValue({ count: 1 });
+
+      expect(await convertSlotHold("appointment-1")).toBe(true);
+      expect(mockPrisma.slotHold.updateMany).toHaveBeenCalledWith({
+        where: { id: "hold-1", status: { in: ["ACTIVE", "EXPIRED"] } },
+        data: expect.objectContaining({ status: "CONVERTED" }),
+      });
+    });
+
+    it("should fail when the expired slot was taken by someone else", async () => {
+      mockPrisma.slotHold.findUnique.mockResolvedValue({
+        id: "hold-1",
+        status: "EXPIRED",
+      });
+      mockPrisma.slotHold.updateMany.mockRejectedValue(
+        new Error("ERROR: 23P01 slot_holds_no_overlap")
+      );
+
+      expect(await convertSlotHold("appointment-1")).toBe(false);
+    });
+
+    it("should not convert a released hold", async () => {
+      mockPrisma.slotHold.findUnique.mockResolvedValue({
+        id: "hold-1",
+        status: "RELEASED",
+      });
+      mockPrisma.slotHold.updateMany.mockResolvedValue({ count: 0 });
+
+      expect(await convertSlotHold("appointment-1")).toBe(false);
+    });
+
+    it("should accept appointments booked without a hold", async () => {
+      mockPrisma.slotHold.findUnique.mockResolvedValue(null);
+
+      expect(await convertSlotHold("appointment-1")).toBe(true);
+      expect(mockPrisma.slotHold.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("releaseExpiredSlotHolds", () => {
+    it("should expire holds and cancel their unpaid appointments", async () => {
+      mockPrisma.slotHold.findMany.mockResolvedValue([
+        { id: "hold-1", appointmentId: "appointment-1" },
+        { id: "hold-2", appointmentId: null },
+      ]);
+      mockPrisma.appointment.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await releaseExpiredSlotHolds();
+
+      expect(result).toEqual({ expired: 2, appointmentsCancelled: 1 });
+      expect(mockPrisma.appointment.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ["appointment-1"] }, status: "PENDING" },
+        data: expect.objectContaining({ status: "CANCELLED" }),
+      });
+    });
+  });
+
+  describe("overlap constraint", () => {
+    it("should create the constraint only when it is missing", async () => {
+      mockPrisma.$executeRaw.mockResolvedValue(0);
+
+      await ensureSlotOverlapConstraint();
+
+      const statements = mockPrisma.$executeRaw.mock.calls.map(([sql]: [string[]]) =>
+        sql.join("")
+      );
+      expect(statements[0]).toContain("CREATE EXTENSION IF NOT EXISTS btree_gist");
+      expect(statements[1]).toContain("IF NOT EXISTS");
+      expect(statements[1]).toContain('ADD CONSTRAINT "slot_holds_no_overlap" EXCLUDE USING gist');
+    });
+
+    it("should report whether the constraint exists", async () => {
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ exists: true }]);
+      expect(await hasSlotOverlapConstraint()).toBe(true);
+
+      mockPrisma.$queryRaw.mockResolvedValueOnce([{ exists: false }]);
+      expect(await hasSlotOverlapConstraint()).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    doctor: { findUniqueOrThrow: vi.fn() },
+    payoutSettlement: { findMany: vi.fn() },
+  },
+}));
+
+import {
+  calculateWithholding,
+  getStatementPeriod,
+  getWithholdingStatement,
+  renderWithholdingStatementPdf,
+  statementMonthSchema,
+  taxSettingsSchema,
+} from "@/lib/tax-withholding";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const honorarios = { rfc: "PEPJ800101AB1", taxRegime: "612" };
+
+const settlement = (id: string, amount: number, isrWithheld: number, paidAt: string) => ({
+  id,
+  doctorId: "doctor-1",
+  periodStart: new Date("2025-03-03T06:00:00Z"),
+  periodEnd: new Date("2025-03-10T06:00:00Z"),
+  amount,
+  isrWithheld,
+  ivaWithheld: 0,
+  rfc: honorarios.rfc,
+  taxRegime: honorarios.taxRegime,
+  clabe: "002010077777777771",
+  accountHolder: "Juan Pérez",
+  status: "PAID",
+  trackingKey: "MBAN01002503100001",
+  failureReason: null,
+  paidAt: new Date(paidAt),
+  createdAt: new Date(paidAt),
+  updatedAt: new Date(paidAt),
+});
+
+describe("Tax withholding", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should withhold ISR from honorarios of IVA-exempt consultations", () => {
+    expect(calculateWithholding(85000, honorarios, true)).toEqual({
+      amount: 85000,
+      iva: 0,
+      isrWithheld: 8500,
+      ivaWithheld: 0,
+      netAmount: 76500,
+    });
+  });
+
+  it("should withhold two thirds of the IVA when consultations are taxed", () => {
+    expect(calculateWithholding(116000, honorarios, false)).toEqual({
+      amount: 116000,
+      iva: 16000,
+      isrWithheld: 10000,
+      ivaWithheld: 10667,
+      netAmount: 95333,
+    });
+  });
+
+  it("should use the rates of each fiscal regime", () => {
+    expect(
+      calculateWithholding(85000, { rfc: honorarios.rfc, taxRegime: "626" }, true)
+    ).toMatchObject({ isrWithheld: 1063, ivaWithheld: 0, netAmount: 83937 });
+    expect(
+      calculateWithholding(116000, { rfc: honorarios.rfc, taxRegime: "625" }, false)
+    ).toMatchObject({ isrWithheld: 1000, ivaWithheld: 8000, netAmount: 107000 });
+  });
+
+  it("should pay personas morales and doctors without fiscal data in full", () => {
+    expect(
+      calculateWithholding(85000, { rfc: "MME200101AB1", taxRegime: "626" }, true).netAmount
+    ).toBe(85000);
+    expect(
+      calculateWithholding(85000, { rfc: honorarios.rfc, taxRegime: "605" }, true).netAmount
+    ).toBe(85000);
+    expect(calculateWithholding(85000, null, true).netAmount).toBe(85000);
+  });
+
+  it("should take the month in Mexico City", () => {
+    expect(getStatementPeriod("2025-03")).toEqual({
+      start: new Date("2025-03-01T06:00:00Z"),
+      end: new Date("2025-04-01T06:00:00Z"),
+    });
+    expect(statementMonthSchema.safeParse("2025-03").success).toBe(true);
+    expect(statementMonthSchema.safeParse("2025-13").success).toBe(false);
+  });
+
+  it("should validate the doctor's fiscal data", () => {
+    const profile = {
+      rfc: honorarios.rfc,
+      legalName: "Juan Pérez Pérez",
+      taxRegime: "612",
+      zipCode: "06700",
+    };
+
+    expect(taxSettingsSchema.safeParse({ profile, ivaExempt: true }).success).toBe(true);
+    expect(
+      taxSettingsSchema.safeParse({ profile: { ...profile, taxRegime: "601" }, ivaExempt: true })
+        .success
+    ).toBe(false);
+  });
+
+  it("should add up the withholdings of the settlements paid in the month", async () => {
+    mockPrisma.doctor.findUniqueOrThrow.mockResolvedValue({
+      user: { name: "Dr. Juan Pérez", fiscalProfile: { ...honorarios, legalName: "JUAN PEREZ PEREZ" } },
+    });
+    mockPrisma.payoutSettlement.findMany.mockResolvedValue([
+      settlement("settlement-1", 76500, 8500, "2025-03-10T18:00:00Z"),
+      settlement("settlement-2", 45000, 5000, "2025-03-17T18:00:00Z"),
+    ]);
+
+    const statement = await getWithholdingStatement("doctor-1", "2025-03");
+
+    expect(mockPrisma.payoutSettlement.findMany).toHaveBeenCalledWith({
+      where: {
+        doctorId: "doctor-1",
+        status: "PAID",
+        paidAt: {
+          gte: new Date("2025-03-01T06:00:00Z"),
+          lt: new Date("2025-04-01T06:00:00Z"),
+        },
+      },
+      orderBy: { paidAt: "asc" },
+    });
+    expect(statement).toMatchObject({
+      doctorName: "JUAN PEREZ PEREZ",
+      rfc: honorarios.rfc,
+      taxRegime: "612",
+      totals: { amount: 135000, isrWithheld: 13500, ivaWithheld: 0, netAmount: 121500 },
+    });
+    expect(renderWithholdingStatementPdf(statement).subarray(0, 5).toString()).toBe("%PDF-");
+  });
+});
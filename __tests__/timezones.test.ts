@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatUtcOffset,
+  getTimeZoneOffset,
+  isValidTimeZone,
+  parseCalendarDay,
+  toCalendarDay,
+  toZonedISOString,
+  zonedTimeToUtc,
+} from "@/lib/timezones";
+
+describe("Time zones", () => {
+  describe("getTimeZoneOffset", () => {
+    it("should follow daylight saving time in Tijuana", () => {
+      expect(getTimeZoneOffset(new Date("2025-01-15T12:00:00Z"), "America/Tijuana")).toBe(-480);
+      expect(getTimeZoneOffset(new Date("2025-07-15T12:00:00Z"), "America/Tijuana")).toBe(-420);
+    });
+
+    it("should keep a fixed offset in Ciudad de México", () => {
+      expect(getTimeZoneOffset(new Date("2025-07-15T12:00:00Z"), "America/Mexico_City")).toBe(-360);
+    });
+  });
+
+  describe("zonedTimeToUtc", () => {
+    const day = parseCalendarDay("2025-03-10")!;
+
+    it("should convert a doctor's wall-clock time to UTC", () => {
+      // 09:00 en Cancún (UTC-5) y en Hermosillo (UTC-7)
+      expect(zonedTimeToUtc(day, 9 * 60, "America/Cancun")).toEqual(
+        new Date("2025-03-10T14:00:00Z")
+      );
+      expect(zonedTimeToUtc(day, 9 * 60, "America/Hermosillo")).toEqual(
+        new Date("2025-03-10T16:00:00Z")
+      );
+    });
+
+    it("should use the offset in effect after a DST change", () => {
+      expect(zonedTimeToUtc(day, 9 * 60, "America/Tijuana")).toEqual(
+        new Date("2025-03-10T16:00:00Z")
+      );
+    });
+  });
+
+  describe("calendar days", () => {
+    it("should parse only valid yyyy-MM-dd dates", () => {
+      expect(parseCalendarDay("2025-02-28")).toEqual(new Date("2025-02-28T00:00:00Z"));
+      expect(parseCalendarDay("2025-02-30")).toBeNull();
+      expect(parseCalendarDay("2025-02-28T10:00:00Z")).toBeNull();
+    });
+
+    it("should return the day of an instant in the given zone", () => {
+      // 03:00 UTC todavía es el día anterior en México
+      const instant = new Date("2025-03-11T03:00:00Z");
+      expect(toCalendarDay(instant, "America/Mexico_City")).toEqual(
+        new Date("2025-03-10T00:00:00Z")
+      );
+      expect(toCalendarDay(instant, "UTC")).toEqual(new Date("2025-03-11T00:00:00Z"));
+    });
+  });
+
+  it("should format instants with their offset", () => {
+    expect(formatUtcOffset(-330)).toBe("-05:30");
+    expect(
+      toZonedISOString(new Date("2025-03-10T16:00:00Z"), "America/Mexico_City")
+    ).toBe("2025-03-10T10:00:00-06:00");
+  });
+
+  it("should reject unknown time zones", () => {
+    expect(isValidTimeZone("America/Tijuana")).toBe(true);
+    expect(isValidTimeZone("Mexico/Centro")).toBe(false);
+  });
+});
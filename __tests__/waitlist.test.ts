@@ -0,0 +1,222 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    waitlistEntry: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    waitlistOffer: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    slotHold: {
+      findMany: vi.fn(),
+      updateMany: vi.fn(),
+      update: vi.fn(),
+      create: vi.fn(),
+    },
+    appointment: {
+      findMany: vi.fn(),
+    },
+    user: { findUnique: vi.fn() },
+    doctor: { findUnique: vi.fn() },
+    notificationPreferences: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/notification-utils", () => ({
+  createNotification: vi.fn(),
+}));
+
+import {
+  claimWaitlistOffer,
+  offerFreedSlot,
+  processExpiredWaitlistOffers,
+  WAITLIST_OFFER_MINUTES,
+  WaitlistOfferUnavailableError,
+} from "@/lib/waitlist";
+import { createNotification } from "@/lib/notification-utils";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T15:00:00Z");
+const slot = {
+  doctorId: "doctor-1",
+  type: "IN_PERSON" as const,
+  startsAt: new Date("2025-03-11T16:00:00Z"),
+  duration: 30,
+};
+const entry = {
+  id: "entry-1",
+  patientId: "patient-2",
+  doctorId: "doctor-1",
+  type: "IN_PERSON",
+  status: "WAITING",
+};
+
+describe("Waitlist", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.$transaction.mockImplementation((callback: any) =>
+      callback(mockPrisma)
+    );
+    mockPrisma.slotHold.findMany.mockResolvedValue([]);
+    mockPrisma.slotHold.updateMany.mockResolvedValue({ count: 0 });
+    mockPrisma.slotHold.create.mockImplementation(({ data }: any) => ({
+      id: "hold-1",
+      ...data,
+    }));
+    mockPrisma.appointment.findMany.mockResolvedValue([]);
+    mockPrisma.waitlistOffer.create.mockImplementation(({ data }: any) => ({
+      id: "offer-1",
+      ...data,
+    }));
+    mockPrisma.user.findUnique.mockResolvedValue({ phone: null });
+    mockPrisma.doctor.findUnique.mockResolvedValue({
+      user: { name: "Dra. Ana López" },
+    });
+    mockPrisma.notificationPreferences.findUnique.mockResolvedValue(null);
+  });
+
+  describe("offerFreedSlot", () => {
+    it("should hold the slot for the first waiting patient and notify them", async () => {
+      mockPrisma.waitlistEntry.findFirst.mockResolvedValue(entry);
+
+      const offer = await offerFreedSlot(slot, now);
+
+      expect(mockPrisma.waitlistEntry.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: { createdAt: "asc" } })
+      );
+      expect(mockPrisma.slotHold.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          patientId: "patient-2",
+          startsAt: slot.startsAt,
+        }),
+      });
+      expect(offer?.expiresAt).toEqual(
+        new Date(now.getTime() + WAITLIST_OFFER_MINUTES * 60 * 1000)
+      );
+      expect(mockPrisma.slotHold.update).toHaveBeenCalledWith({
+        where: { id: "hold-1" },
+        data: { expiresAt: offer?.expiresAt },
+      });
+      expect(mockPrisma.waitlistEntry.update).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
+        data: { status: "OFFERED" },
+      });
+      expect(createNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: "patient-2", type: "EMAIL" })
+      );
+    });
+
+    it("should not offer slots that start too soon", async () => {
+      const offer = await offerFreedSlot(
+        { ...slot, startsAt: new Date("2025-03-10T15:30:00Z") },
+        now
+      );
+
+      expect(offer).toBeNull();
+      expect(mockPrisma.waitlistEntry.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("should give up when the slot was taken in the meantime", async () => {
+      mockPrisma.waitlistEntry.findFirst.mockResolvedValue(entry);
+      mockPrisma.appointment.findMany.mockResolvedValue([
+        { scheduledAt: slot.startsAt, duration: 30 },
+      ]);
+
+      expect(await offerFreedSlot(slot, now)).toBeNull();
+      expect(mockPrisma.waitlistOffer.create).not.toHaveBeenCalled();
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("claimWaitlistOffer", () => {
+    it("should reject expired or foreign offers", async () => {
+      mockPrisma.waitlistOffer.findFirst.mockResolvedValue(null);
+
+      await expect(
+        claimWaitlistOffer("token", "patient-2", now)
+      ).rejects.toBeInstanceOf(WaitlistOfferUnavailableError);
+    });
+
+    it("should mark the offer claimed and the entry fulfilled", async () => {
+      mockPrisma.waitlistOffer.findFirst.mockResolvedValue({
+        id: "offer-1",
+        entryId: "entry-1",
+        slotHold: {
+          id: "hold-1",
+          status: "ACTIVE",
+          expiresAt: new Date("2025-03-10T15:05:00Z"),
+        },
+      });
+      mockPrisma.slotHold.update.mockImplementation(({ data }: any) => ({
+        id: "hold-1",
+        ...data,
+      }));
+
+      const { hold } = await claimWaitlistOffer("token", "patient-2", now);
+
+      expect(hold.expiresAt.getTime()).toBeGreaterThan(now.getTime());
+      expect(mockPrisma.waitlistEntry.update).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
+        data: { status: "FULFILLED" },
+      });
+      expect(mockPrisma.waitlistOffer.update).toHaveBeenCalledWith({
+        where: { id: "offer-1" },
+        data: { status: "CLAIMED", claimedAt: now },
+      });
+    });
+  });
+
+  describe("processExpiredWaitlistOffers", () => {
+    it("should offer an unclaimed slot to the next patient", async () => {
+      mockPrisma.waitlistOffer.findMany.mockResolvedValue([
+        {
+          id: "offer-1",
+          entryId: "entry-1",
+          startsAt: slot.startsAt,
+          duration: 30,
+          slotHoldId: "hold-1",
+        },
+      ]);
+      mockPrisma.waitlistOffer.updateMany.mockResolvedValue({ count: 1 });
+      mockPrisma.waitlistEntry.updateMany.mockResolvedValue({ count: 0 });
+      mockPrisma.waitlistEntry.findUnique.mockResolvedValue(entry);
+      mockPrisma.waitlistEntry.findFirst.mockResolvedValue({
+        ...entry,
+        id: "entry-2",
+        patientId: "patient-3",
+      });
+
+      const result = await processExpiredWaitlistOffers(now);
+
+      expect(mockPrisma.waitlistOffer.updateMany).toHaveBeenCalledWith({
+        where: { id: "offer-1", status: "PENDING" },
+        data: { status: "EXPIRED" },
+      });
+      expect(mockPrisma.waitlistEntry.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            offers: { none: { startsAt: slot.startsAt } },
+          }),
+        })
+      );
+      expect(mockPrisma.waitlistOffer.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ entryId: "entry-2" }),
+      });
+      expect(result.reoffered).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from "crypto";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    notificationPreferences: { findUnique: vi.fn() },
+    pushSubscription: {
+      findMany: vi.fn(),
+      delete: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+import { createVapidAuthorization, generateVapidKeys } from "@/lib/notifications/vapid";
+import { encryptPushPayload, sendPushNotification } from "@/lib/notifications/web-push";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const vapidKeys = generateVapidKeys();
+
+// Claves de la suscripción tal como las genera el navegador
+function createBrowserKeys() {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  const auth = randomBytes(16);
+
+  return {
+    ecdh,
+    authSecret: auth,
+    keys: {
+      p256dh: ecdh.getPublicKey().toString("base64url"),
+      auth: auth.toString("base64url"),
+    },
+  };
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: string | Buffer, length: number) {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+}
+
+// Descifrado del lado del navegador (RFC 8291)
+function decrypt(body: Buffer, browser: ReturnType<typeof createBrowserKeys>): string {
+  const salt = body.subarray(0, 16);
+  const keyLength = body.readUInt8(20);
+  const serverPublicKey = body.subarray(21, 21 + keyLength);
+  const ciphertext = body.subarray(21 + keyLength);
+
+  const ikm = hkdf(
+    browser.ecdh.computeSecret(serverPublicKey),
+    browser.authSecret,
+    Buffer.concat([
+      Buffer.from("WebPush: info\0"),
+      browser.ecdh.getPublicKey(),
+      serverPublicKey,
+    ]),
+    32
+  );
+  const decipher = createDecipheriv(
+    "aes-128-gcm",
+    hkdf(ikm, salt, "Content-Encoding: aes128gcm\0", 16),
+    hkdf(ikm, salt, "Content-Encoding: nonce\0", 12)
+  );
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const plaintext = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+
+  expect(plaintext[plaintext.length - 1]).toBe(2);
+  return plaintext.subarray(0, -1).toString();
+}
+
+const notification = {
+  id: "notification-1",
+  userId: "patient-user-1",
+  type: "BROWSER",
+  title: "Nuevo mensaje de Dr. Ana García",
+  message: "Ana García le ha enviado un mensaje",
+  metadata: JSON.stringify({ actionUrl: "/chat/appointment-1" }),
+} as any;
+
+describe("Web Push", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubEnv("VAPID_PUBLIC_KEY", vapidKeys.publicKey);
+    vi.stubEnv("VAPID_PRIVATE_KEY", vapidKeys.privateKey);
+    vi.stubEnv("VAPID_SUBJECT", "mailto:soporte@medicamovil.mx");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("should encrypt payloads that only the subscribed browser can read", () => {
+    const browser = createBrowserKeys();
+    const body = encryptPushPayload('{"title":"Cita confirmada"}', browser.keys);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(decrypt(body, browser)).toBe('{"title":"Cita confirmada"}');
+    expect(() => decrypt(body, createBrowserKeys())).toThrow();
+  });
+
+  it("should sign a VAPID token for the push service origin", () => {
+    const config = { ...vapidKeys, subject: "mailto:soporte@medicamovil.mx" };
+    const now = new Date("2025-03-10T15:00:00Z");
+    const authorization = createVapidAuthorization(
+      "https://fcm.googleapis.com/fcm/send/abc123",
+      config,
+      now
+    );
+
+    const [, token, key] = authorization.match(/^vapid t=(.+), k=(.+)$/)!;
+    expect(key).toBe(vapidKeys.publicKey);
+
+    const [header, claims, signature] = token.split(".");
+    expect(JSON.parse(Buffer.from(claims, "base64url").toString())).toEqual({
+      aud: "https://fcm.googleapis.com",
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: "mailto:soporte@medicamovil.mx",
+    });
+
+    const publicKey = Buffer.from(vapidKeys.publicKey, "base64url");
+    const verifier = createPublicKey({
+      key: {
+        kty: "EC",
+        crv: "P-256",
+        x: publicKey.subarray(1, 33).toString("base64url"),
+        y: publicKey.subarray(33).toString("base64url"),
+      },
+      format: "jwk",
+    });
+    expect(
+      verify(
+        "sha256",
+        Buffer.from(`${header}.${claims}`),
+        { key: verifier, dsaEncoding: "ieee-p1363" },
+        Buffer.from(signature, "base64url")
+      )
+    ).toBe(true);
+  });
+
+  it("should push to every subscribed browser and prune expired subscriptions", async () => {
+    const laptop = createBrowserKeys();
+    const phone = createBrowserKeys();
+    mockPrisma.notificationPreferences.findUnique.mockResolvedValue({ browser: true });
+    mockPrisma.pushSubscription.findMany.mockResolvedValue([
+      { id: "subscription-1", endpoint: "https://fcm.googleapis.com/fcm/send/laptop", ...laptop.keys },
+      { id: "subscription-2", endpoint: "https://updates.push.services.mozilla.com/wpush/v2/phone", ...phone.keys },
+    ]);
+
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce({ status: 201 })
+      .mockResolvedValueOnce({ status: 410 });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const summary = await sendPushNotification(notification);
+
+    expect(summary).toEqual({ sent: 1, pruned: 1 });
+    const [endpoint, request] = fetchMock.mock.calls[0];
+    expect(endpoint).toBe("https://fcm.googleapis.com/fcm/send/laptop");
+    expect(request.headers["Content-Encoding"]).toBe("aes128gcm");
+    expect(JSON.parse(decrypt(request.body, laptop))).toEqual({
+      title: "Nuevo mensaje de Dr. Ana García",
+      body: "Ana García le ha enviado un mensaje",
+      tag: "notification-1",
+      url: "/chat/appointment-1",
+    });
+    expect(mockPrisma.pushSubscription.update).toHaveBeenCalledWith({
+      where: { id: "subscription-1" },
+      data: { lastUsedAt: expect.any(Date) },
+    });
+    expect(mockPrisma.pushSubscription.delete).toHaveBeenCalledWith({
+      where: { id: "subscription-2" },
+    });
+  });
+
+  it("should not push when browser notifications are off or VAPID is not configured", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    mockPrisma.notificationPreferences.findUnique.mockResolvedValue({ browser: false });
+
+    expect(await sendPushNotification(notification)).toEqual({ sent: 0, pruned: 0 });
+
+    vi.stubEnv("VAPID_PRIVATE_KEY", "");
+    mockPrisma.notificationPreferences.findUnique.mockResolvedValue({ browser: true });
+
+    expect(await sendPushNotification(notification)).toEqual({ sent: 0, pruned: 0 });
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(mockPrisma.pushSubscription.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,275 @@
+import crypto from "crypto";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+vi.mock("@/lib/db", () => ({
+  prisma: {
+    appointment: { findFirst: vi.fn(), findUnique: vi.fn(), update: vi.fn() },
+    chatRoom: { updateMany: vi.fn() },
+    notification: { findFirst: vi.fn() },
+    user: { findFirst: vi.fn() },
+    whatsAppMessage: { findUnique: vi.fn(), create: vi.fn() },
+  },
+}));
+
+vi.mock("@/lib/appointment-cancellation", () => ({
+  cancelAppointment: vi.fn(),
+}));
+
+vi.mock("@/lib/notification-utils", () => ({
+  createTemplatedNotification: vi.fn(),
+}));
+
+import { cancelAppointment } from "@/lib/appointment-cancellation";
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import { InMemoryChannelAdapter } from "@/lib/notifications/channels/InMemoryChannelAdapter";
+import { resetChannelAdapters, setChannelAdapter } from "@/lib/notifications/delivery";
+import { WhatsAppWebhookValidator } from "@/lib/notifications/security/WhatsAppWebhookValidator";
+import {
+  extractInboundMessages,
+  handleWhatsAppReply,
+  parseWhatsAppReply,
+} from "@/lib/whatsapp-replies";
+
+let mockPrisma: any;
+beforeAll(async () => {
+  const { prisma } = await import("@/lib/db");
+  mockPrisma = vi.mocked(prisma);
+});
+
+const now = new Date("2025-03-10T15:00:00Z");
+
+const patient = {
+  id: "patient-user-1",
+  name: "Juan Pérez",
+  email: "juan@example.com",
+  phone: "5512345678",
+  timezone: "America/Mexico_City",
+  locale: "es",
+};
+
+const appointment = {
+  id: "appointment-1",
+  patientId: patient.id,
+  doctorId: "doctor-1",
+  type: "IN_PERSON",
+  status: "PENDING",
+  scheduledAt: new Date("2025-03-11T17:00:00Z"), // 11:00 en Ciudad de México
+  duration: 30,
+  price: 50000,
+  payment: null,
+};
+
+function reply(text: string, contextId: string | null = "wamid.reminder") {
+  return { id: "wamid.reply-1", from: "5215512345678", text, contextId };
+}
+
+describe("WhatsApp replies", () => {
+  let whatsapp: InMemoryChannelAdapter;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    whatsapp = new InMemoryChannelAdapter("WHATSAPP");
+    setChannelAdapter("WHATSAPP", whatsapp);
+
+    mockPrisma.whatsAppMessage.findUnique.mockResolvedValue(null);
+    mockPrisma.notification.findFirst.mockResolvedValue({
+      metadata: JSON.stringify({ appointmentId: "appointment-1", reminder: "DAY_BEFORE" }),
+      user: patient,
+    });
+    mockPrisma.appointment.findFirst.mockResolvedValue(appointment);
+    mockPrisma.appointment.findUnique.mockResolvedValue({
+      patient: { name: "Juan Pérez" },
+      doctor: { user: { id: "doctor-user-1", timezone: "America/Mexico_City", locale: "es" } },
+    });
+  });
+
+  afterEach(() => {
+    resetChannelAdapters();
+  });
+
+  it("should understand option numbers and words", () => {
+    expect(parseWhatsAppReply("1")).toBe("CONFIRM");
+    expect(parseWhatsAppReply(" Confirmar ")).toBe("CONFIRM");
+    expect(parseWhatsAppReply("2 por favor")).toBe("CANCEL");
+    expect(parseWhatsAppReply("CANCELO")).toBe("CANCEL");
+    expect(parseWhatsAppReply("3")).toBe("RESCHEDULE");
+    expect(parseWhatsAppReply("Reprogramar")).toBe("RESCHEDULE");
+    expect(parseWhatsAppReply("¿A qué hora es?")).toBeNull();
+  });
+
+  it("should extract text and quick-reply button messages", () => {
+    const payload = {
+      object: "whatsapp_business_account",
+      entry: [
+        {
+          changes: [
+            {
+              value: {
+                messages: [
+                  { id: "wamid.1", from: "5215512345678", type: "text", text: { body: "1" } },
+                  {
+                    id: "wamid.2",
+                    from: "5215587654321",
+                    type: "button",
+                    button: { payload: "cancelar", text: "Cancelar" },
+                    context: { id: "wamid.reminder" },
+                  },
+                ],
+              },
+            },
+            { value: { statuses: [{ id: "wamid.reminder", status: "read" }] } },
+          ],
+        },
+      ],
+    };
+
+    expect(extractInboundMessages(payload)).toEqual([
+      { id: "wamid.1", from: "5215512345678", text: "1", contextId: null },
+      { id: "wamid.2", from: "5215587654321", text: "cancelar", contextId: "wamid.reminder" },
+    ]);
+  });
+
+  it("should skip malformed payloads and messages without text", () => {
+    const payload = {
+      entry: [
+        {
+          changes: [
+            {
+              value: {
+                messages: [
+                  { id: "wamid.1", from: "5215512345678", type: "image", image: { id: "media-1" } },
+                  { from: "5215512345678", type: "text", text: { body: "1" } },
+                  { id: "wamid.3", from: "5215512345678", type: "text", text: { body: 2 } },
+                  "wamid.4",
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    };
+
+    expect(extractInboundMessages(payload)).toEqual([]);
+    expect(extractInboundMessages(null)).toEqual([]);
+    expect(extractInboundMessages("not json")).toEqual([]);
+    expect(extractInboundMessages({ entry: "wamid.1" })).toEqual([]);
+  });
+
+  it("should confirm the pending appointment of the answered reminder", async () => {
+    const result = await handleWhatsAppReply(reply("1"), now);
+
+    expect(result).toEqual({
+      action: "CONFIRM",
+      appointmentId: "appointment-1",
+      reply: expect.stringContaining("quedó confirmada"),
+    });
+    expect(mockPrisma.appointment.update).toHaveBeenCalledWith({
+      where: { id: "appointment-1" },
+      data: { status: "CONFIRMED" },
+    });
+    expect(mockPrisma.chatRoom.updateMany).toHaveBeenCalledWith({
+      where: { appointmentId: "appointment-1" },
+      data: { isActive: true },
+    });
+    expect(vi.mocked(createTemplatedNotification)).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "doctor-user-1",
+        template: "appointment.confirmed.doctor",
+      })
+    );
+
+    expect(whatsapp.sent).toHaveLength(1);
+    expect(whatsapp.sent[0].to.phone).toBe("5215512345678");
+    expect(mockPrisma.whatsAppMessage.create.mock.calls.map(([{ data }]: any) => data)).toEqual([
+      expect.objectContaining({
+        direction: "INBOUND",
+        body: "1",
+        action: "CONFIRM",
+        providerMessageId: "wamid.reply-1",
+        appointmentId: "appointment-1",
+      }),
+      expect.objectContaining({
+        direction: "OUTBOUND",
+        body: result!.reply,
+        providerMessageId: "memory-1",
+        appointmentId: "appointment-1",
+      }),
+    ]);
+  });
+
+  it("should cancel through the cancellation policy and report the refund", async () => {
+    vi.mocked(cancelAppointment).mockResolvedValue({
+      appointment: { ...appointment, status: "CANCELLED" } as any,
+      refund: { amount: 50000, percentage: 100, feeRetained: 0, reason: "" },
+    });
+
+    const result = await handleWhatsAppReply(reply("2"), now);
+
+    expect(vi.mocked(cancelAppointment)).toHaveBeenCalledWith(appointment, {
+      cancelledBy: "PATIENT",
+      reason: "Cancelado por el paciente vía WhatsApp",
+    });
+    expect(result?.action).toBe("CANCEL");
+    expect(result?.reply).toContain("fue cancelada");
+    expect(result?.reply).toContain("Recibirá un reembolso de $500");
+    expect(mockPrisma.appointment.update).not.toHaveBeenCalled();
+  });
+
+  it("should find the next appointment by phone and help with unknown replies", async () => {
+    mockPrisma.user.findFirst.mockResolvedValue(patient);
+
+    const result = await handleWhatsAppReply(reply("hola", null), now);
+
+    expect(mockPrisma.notification.findFirst).not.toHaveBeenCalled();
+    expect(mockPrisma.user.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { phone: { endsWith: "5512345678" }, role: "PATIENT" } })
+    );
+    expect(result).toEqual({
+      action: null,
+      appointmentId: "appointment-1",
+      reply: "Responda 1 para confirmar su cita, 2 para cancelarla o 3 para reprogramarla.",
+    });
+    expect(vi.mocked(cancelAppointment)).not.toHaveBeenCalled();
+  });
+
+  it("should ignore messages it already handled", async () => {
+    mockPrisma.whatsAppMessage.findUnique.mockResolvedValue({ id: "message-1" });
+
+    expect(await handleWhatsAppReply(reply("2"), now)).toBeNull();
+    expect(vi.mocked(cancelAppointment)).not.toHaveBeenCalled();
+    expect(whatsapp.sent).toHaveLength(0);
+  });
+});
+
+describe("WhatsApp webhook validator", () => {
+  const body = JSON.stringify({ object: "whatsapp_business_account", entry: [] });
+  const sign = (payload: string, secret: string) =>
+    `sha256=${crypto.createHmac("sha256", secret).update(payload).digest("hex")}`;
+
+  it("should only accept bodies signed with the app secret", () => {
+    expect(
+      WhatsAppWebhookValidator.validateWebhook(body, sign(body, "app-secret"), "app-secret").isValid
+    ).toBe(true);
+    expect(
+      WhatsAppWebhookValidator.validateWebhook(body, sign(body, "other-secret"), "app-secret")
+        .isValid
+    ).toBe(false);
+    expect(
+      WhatsAppWebhookValidator.validateWebhook(`${body} `, sign(body, "app-secret"), "app-secret")
+        .isValid
+    ).toBe(false);
+    expect(WhatsAppWebhookValidator.validateWebhook(body, null, "app-secret").isValid).toBe(false);
+    expect(WhatsAppWebhookValidator.validateWebhook(body, "sha256=abc", "app-secret").isValid).toBe(
+      false
+    );
+  });
+
+  it("should answer the subscription handshake only with the verify token", () => {
+    expect(
+      WhatsAppWebhookValidator.verifySubscription("subscribe", "verify-token", "1158201444", "verify-token")
+    ).toBe("1158201444");
+    expect(
+      WhatsAppWebhookValidator.verifySubscription("subscribe", "wrong-token", "1158201444", "verify-token")
+    ).toBeNull();
+  });
+});
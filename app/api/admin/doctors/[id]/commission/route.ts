@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from '@/lib/db';
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import { commissionRateSchema, DEFAULT_COMMISSION_RATE } from '@/lib/payout-ledger';
+
+// PATCH /api/admin/doctors/[id]/commission - Set the platform commission
+// charged on a doctor's payments, or go back to the default with null. Only
+// payments completed afterwards use the new rate.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { commissionRate } = commissionRateSchema.parse(body);
+
+    const doctor = await prisma.doctor.findUnique({
+      where: { userId: params.id },
+      select: { id: true }
+    });
+
+    if (!doctor) {
+      return NextResponse.json(
+        { error: 'Doctor no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const updatedDoctor = await prisma.doctor.update({
+      where: { id: doctor.id },
+      data: { commissionRate },
+      select: { id: true, commissionRate: true }
+    });
+
+    return NextResponse.json({
+      message: 'Comisión actualizada exitosamente',
+      doctor: updatedDoctor,
+      effectiveRate: updatedDoctor.commissionRate ?? DEFAULT_COMMISSION_RATE
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Datos inválidos', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error updating doctor commission',
+      action: 'PATCH /api/admin/doctors/[id]/commission',
+      level: 'error',
+      userId: session?.user?.id
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/unified-auth';
 import { prisma } from '@/lib/db';
 import { ErrorLogger } from '@/lib/error-handling-utils';
+import { createTemplatedNotification } from '@/lib/notification-utils';
 
 export async function PATCH(
   request: NextRequest,
@@ -40,6 +41,25 @@ export async function PATCH(
       data: { isVerified: Boolean(isVerified) }
     });
 
+    // Avisar al doctor solo cuando pasa a estar verificado
+    if (isVerified && !user.doctorProfile.isVerified) {
+      try {
+        await createTemplatedNotification({
+          userId: user.id,
+          type: 'EMAIL',
+          template: 'doctor.verified',
+          locale: user.locale,
+          variables: { doctorName: user.name },
+        });
+      } catch (error) {
+        ErrorLogger.log(error as Error, {
+          context: 'admin_doctor_verification',
+          action: 'notify_doctor_verified',
+          doctorId: params.id
+        });
+      }
+    }
+
     return NextResponse.json({
       message: `Doctor ${isVerified ? 'verificado' : 'desverificado'} exitosamente`,
       doctor: updatedDoctor
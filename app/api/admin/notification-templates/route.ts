@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import { NotificationType } from '@prisma/client';
+import { NOTIFICATION_TEMPLATES } from '@/lib/notifications/template-catalog';
+import {
+  CHANNEL_LENGTH_RULES,
+  isNotificationTemplateKey,
+  NOTIFICATION_LOCALES,
+  NotificationTemplateError,
+  NotificationTemplateKey,
+  renderNotificationTemplate
+} from '@/lib/notifications/templates';
+
+export const dynamic = 'force-dynamic';
+
+const previewSchema = z.object({
+  template: z.string().refine(isNotificationTemplateKey, 'Plantilla desconocida'),
+  locale: z.enum(['es', 'en']).optional(),
+  channel: z.nativeEnum(NotificationType).optional(),
+  // Sin variables se usan los valores de ejemplo de la plantilla
+  variables: z.record(z.string()).optional()
+});
+
+async function requireAdmin() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user || session.user.role !== 'ADMIN') {
+    return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+  }
+
+  return null;
+}
+
+// GET /api/admin/notification-templates - List the notification templates
+export async function GET(_request: NextRequest) {
+  try {
+    const unauthorized = await requireAdmin();
+    if (unauthorized) return unauthorized;
+
+    const templates = Object.entries(NOTIFICATION_TEMPLATES).map(([key, template]) => ({
+      key,
+      description: template.description,
+      variables: template.variables,
+      sample: template.sample,
+      whatsappTemplate: template.whatsapp?.name ?? null
+    }));
+
+    return NextResponse.json({
+      success: true,
+      templates,
+      locales: NOTIFICATION_LOCALES,
+      channelRules: CHANNEL_LENGTH_RULES
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: 'Error listing notification templates',
+      action: 'GET /api/admin/notification-templates',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/notification-templates - Preview a template as each channel
+// and language would receive it
+export async function POST(request: NextRequest) {
+  try {
+    const unauthorized = await requireAdmin();
+    if (unauthorized) return unauthorized;
+
+    const body = await request.json();
+    const data = previewSchema.parse(body);
+    const template = data.template as NotificationTemplateKey;
+    const variables = data.variables ?? NOTIFICATION_TEMPLATES[template].sample;
+
+    const locales = data.locale ? [data.locale] : NOTIFICATION_LOCALES;
+    const channels = data.channel
+      ? [data.channel]
+      : (Object.keys(CHANNEL_LENGTH_RULES) as NotificationType[]);
+
+    const previews = locales.flatMap((locale) =>
+      channels.map((channel) => {
+        const rendered = renderNotificationTemplate(template, { locale, channel, variables });
+        return {
+          locale,
+          channel,
+          ...rendered,
+          length: rendered.message.length,
+          maxLength: CHANNEL_LENGTH_RULES[channel].maxLength
+        };
+      })
+    );
+
+    return NextResponse.json({ success: true, template, previews });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Datos inválidos', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof NotificationTemplateError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error previewing notification template',
+      action: 'POST /api/admin/notification-templates',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,110 +3,74 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/unified-auth';
 import { prisma } from '@/lib/db';
 import { z } from 'zod';
-import { ErrorLogger } from '@/lib/error-handling-utils';
+import { ErrorLogger } from '@/lib/error-logger';
+import { PayoutLedgerError, recordPaymentSplit } from '@/lib/payout-ledger';
 
 const distributePaymentSchema = z.object({
-  paymentId: z.string(),
-  doctorAmount: z.number().min(0),
-  platformAmount: z.number().min(0),
-  taxAmount: z.number().min(0).optional().default(0),
-  notes: z.string().optional()
+  paymentId: z.string()
 });
 
+const distributionInclude = {
+  payment: {
+    include: {
+      appointment: {
+        include: {
+          patient: { select: { id: true, name: true, email: true } },
+          doctor: { include: { user: { select: { name: true } } } }
+        }
+      }
+    }
+  },
+  doctor: { include: { user: { select: { id: true, name: true, email: true } } } }
+} as const;
 
-
+// POST - Split a completed payment that has no ledger entries yet, e.g. one
+// completed before the payout ledger existed. New payments are split
+// automatically when they complete.
 export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
   try {
-    const session = await getServerSession(authOptions);
     if (!session?.user?.id) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check if user is admin
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    });
-
-    if (!user || user.role !== 'ADMIN') {
+    if (session.user.role !== 'ADMIN') {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
     }
 
     const body = await request.json();
-    const { paymentId, doctorAmount, platformAmount, taxAmount, notes } = 
-      distributePaymentSchema.parse(body);
-
-    // Verify payment exists and is completed
-    const payment = await prisma.payment.findFirst({
-      where: {
-        id: paymentId,
-        status: 'COMPLETED'
-      },
-      include: {
-        appointment: {
-          include: {
-            doctor: { include: { user: true } }
-          }
-        }
-      }
+    const { paymentId } = distributePaymentSchema.parse(body);
+
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      select: { id: true }
     });
 
     if (!payment) {
-      return NextResponse.json({ error: 'Payment not found or not completed' }, { status: 404 });
+      return NextResponse.json({ error: 'Payment not found' }, { status: 404 });
     }
 
-    // Check if distribution already exists
-    const existingDistribution = await prisma.paymentDistribution.findFirst({
-      where: { paymentId }
+    const transaction = await recordPaymentSplit(paymentId);
+
+    const distribution = await prisma.paymentDistribution.findFirst({
+      where: { paymentId },
+      include: distributionInclude
     });
 
-    if (existingDistribution) {
-      return NextResponse.json({ error: 'Payment already distributed' }, { status: 400 });
+    return NextResponse.json({ distribution, transaction });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid data', details: error.errors },
+        { status: 400 }
+      );
     }
 
-    // Validate amounts
-    const totalDistributed = doctorAmount + platformAmount + taxAmount;
-    if (Math.abs(totalDistributed - payment.amount) > 0.01) {
-      return NextResponse.json({ 
-        error: 'Distribution amounts do not match payment total' 
-      }, { status: 400 });
+    if (error instanceof PayoutLedgerError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
     }
 
-    // Create payment distribution
-    const distribution = await prisma.paymentDistribution.create({
-      data: {
-        paymentId,
-        doctorId: payment.appointment.doctor.id,
-        doctorAmount,
-        platformAmount,
-        taxAmount,
-        distributedBy: session.user.id,
-        notes,
-        distributedAt: new Date()
-      },
-      include: {
-        payment: {
-          include: {
-            appointment: {
-              include: {
-                patient: true,
-                doctor: { include: { user: true } }
-              }
-            }
-          }
-        },
-        doctor: { include: { user: true } },
-        distributedByUser: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      }
-    });
-
-    return NextResponse.json(distribution);
-  } catch (error) {
     ErrorLogger.log({
       error,
       context: "Payment distribution",
@@ -122,18 +86,14 @@ export async function POST(request: NextRequest) {
 }
 
 export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
   try {
-    const session = await getServerSession(authOptions);
     if (!session?.user?.id) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check if user is admin
-    const user = await prisma.user.findUnique({
-      where: { id: session.user.id }
-    });
-
-    if (!user || user.role !== 'ADMIN') {
+    if (session.user.role !== 'ADMIN') {
       return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
     }
 
@@ -147,52 +107,33 @@ export async function GET(request: NextRequest) {
     // Build where clause
     interface WhereClause {
       doctorId?: string;
-      distributedAt?: {
+      createdAt?: {
         gte?: Date;
         lte?: Date;
       };
     }
-    
+
     const whereClause: WhereClause = {};
-    
+
     if (doctorId) {
       whereClause.doctorId = doctorId;
     }
-    
+
     if (startDate || endDate) {
-      whereClause.distributedAt = {};
+      whereClause.createdAt = {};
       if (startDate) {
-        whereClause.distributedAt.gte = new Date(startDate);
+        whereClause.createdAt.gte = new Date(startDate);
       }
       if (endDate) {
-        whereClause.distributedAt.lte = new Date(endDate);
+        whereClause.createdAt.lte = new Date(endDate);
       }
     }
 
     // Get payment distributions
     const distributions = await prisma.paymentDistribution.findMany({
       where: whereClause,
-      include: {
-        payment: {
-          include: {
-            appointment: {
-              include: {
-                patient: true,
-                doctor: { include: { user: true } }
-              }
-            }
-          }
-        },
-        doctor: { include: { user: true } },
-        distributedByUser: {
-          select: {
-            id: true,
-            name: true,
-            email: true
-          }
-        }
-      },
-      orderBy: { distributedAt: 'desc' },
+      include: distributionInclude,
+      orderBy: { createdAt: 'desc' },
       skip: (page - 1) * limit,
       take: limit
     });
@@ -207,8 +148,7 @@ export async function GET(request: NextRequest) {
       where: whereClause,
       _sum: {
         doctorAmount: true,
-        platformAmount: true,
-        taxAmount: true
+        adminAmount: true
       },
       _count: {
         id: true
@@ -226,8 +166,7 @@ export async function GET(request: NextRequest) {
       summary: {
         totalDistributions: summary._count.id,
         totalDoctorAmount: summary._sum.doctorAmount || 0,
-        totalPlatformAmount: summary._sum.platformAmount || 0,
-        totalTaxAmount: summary._sum.taxAmount || 0
+        totalPlatformAmount: summary._sum.adminAmount || 0
       }
     });
   } catch (error) {
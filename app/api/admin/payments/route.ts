@@ -3,6 +3,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/unified-auth';
 import { prisma } from '@/lib/db';
 import { ErrorLogger } from '@/lib/error-handling-utils';
+import { recordRefundReversal } from '@/lib/payout-ledger';
 
 export async function GET(request: NextRequest) {
   try {
@@ -414,17 +415,9 @@ export async function PATCH(request: NextRequest) {
         data: updateData
       });
       
-      // If refunding, update distributions
-      if (action === 'refund' && payment.distributions.length > 0) {
-        await tx.paymentDistribution.updateMany({
-          where: {
-            paymentId: paymentId,
-            status: 'COMPLETED'
-          },
-          data: {
-            status: 'REFUNDED'
-          }
-        });
+      // If refunding, take it back from the doctor's and platform's shares
+      if (action === 'refund') {
+        await recordRefundReversal(paymentId, updated.refundAmount ?? payment.amount, tx);
       }
       
       return updated;
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from '@/lib/db';
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import {
+  markSettlementFailed,
+  markSettlementPaid,
+  PayoutLedgerError
+} from '@/lib/payout-ledger';
+
+const settlementUpdateSchema = z.discriminatedUnion('status', [
+  z.object({
+    status: z.literal('PAID'),
+    trackingKey: z.string().trim().min(1, 'La clave de rastreo es requerida').max(30)
+  }),
+  z.object({
+    status: z.literal('FAILED'),
+    reason: z.string().trim().min(1, 'El motivo es requerido').max(500)
+  })
+]);
+
+// PATCH /api/admin/payouts/[id] - Record the outcome of a settlement's SPEI
+// transfer
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+    }
+
+    const settlement = await prisma.payoutSettlement.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    });
+
+    if (!settlement) {
+      return NextResponse.json(
+        { error: 'Liquidación no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const data = settlementUpdateSchema.parse(body);
+
+    const updated = data.status === 'PAID'
+      ? await markSettlementPaid(params.id, data.trackingKey)
+      : await markSettlementFailed(params.id, data.reason);
+
+    return NextResponse.json({
+      success: true,
+      message: data.status === 'PAID'
+        ? 'Liquidación marcada como pagada'
+        : 'Liquidación marcada como fallida; el saldo se liquidará la próxima semana',
+      settlement: updated
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Datos inválidos', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof PayoutLedgerError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error updating payout settlement',
+      action: 'PATCH /api/admin/payouts/[id]',
+      level: 'error',
+      userId: session?.user?.id
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
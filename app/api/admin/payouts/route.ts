@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from '@/lib/db';
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import { createWeeklySettlements } from '@/lib/payout-ledger';
+
+export const dynamic = 'force-dynamic';
+
+const settlementQuerySchema = z.object({
+  status: z.enum(['PENDING', 'PAID', 'FAILED']).optional(),
+  doctorId: z.string().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+});
+
+// GET /api/admin/payouts - Weekly settlements to the doctors' CLABEs
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { status, doctorId, page, limit } = settlementQuerySchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+    const where = {
+      ...(status && { status }),
+      ...(doctorId && { doctorId })
+    };
+
+    const [settlements, total, totals] = await Promise.all([
+      prisma.payoutSettlement.findMany({
+        where,
+        include: {
+          doctor: { select: { id: true, user: { select: { name: true, email: true } } } }
+        },
+        orderBy: [{ periodEnd: 'desc' }, { createdAt: 'desc' }],
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.payoutSettlement.count({ where }),
+      prisma.payoutSettlement.groupBy({
+        by: ['status'],
+        where,
+        _sum: { amount: true },
+        _count: { id: true }
+      })
+    ]);
+
+    return NextResponse.json({
+      settlements,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      },
+      summary: totals.map((row) => ({
+        status: row.status,
+        count: row._count.id,
+        amount: row._sum.amount || 0
+      }))
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Datos inválidos', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error fetching payout settlements',
+      action: 'GET /api/admin/payouts',
+      level: 'error',
+      userId: session?.user?.id
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/payouts - Settle last week's earnings now instead of
+// waiting for the scheduled run
+export async function POST(_request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user || session.user.role !== 'ADMIN') {
+      return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+    }
+
+    const result = await createWeeklySettlements();
+
+    return NextResponse.json({
+      success: true,
+      message: `${result.created} liquidaciones creadas`,
+      result
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: 'Error creating payout settlements',
+      action: 'POST /api/admin/payouts',
+      level: 'error',
+      userId: session?.user?.id
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
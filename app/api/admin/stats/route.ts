@@ -147,6 +147,18 @@ export async function GET() {
           },
         },
       }),
+
+      // Actual length of the consultations, from start to finish
+      averageConsultationMinutes: await prisma.appointment.aggregate({
+        _avg: {
+          actualDuration: true,
+        },
+        where: {
+          finishedAt: {
+            gte: weekAgo,
+          },
+        },
+      }),
     };
 
     // Top specialties by appointment count
@@ -195,6 +207,9 @@ export async function GET() {
       weekly: {
         ...weeklyStats,
         revenue: weeklyStats.revenue._sum.amount || 0,
+        averageConsultationMinutes: Math.round(
+          weeklyStats.averageConsultationMinutes._avg.actualDuration || 0
+        ),
       },
       topSpecialties: specialtyDetails,
     };
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from '@/lib/db';
+import { ErrorLogger } from '@/lib/error-handling-utils';
+import {
+  describeCancellationTier,
+  evaluateCancellationPolicy,
+  getCancellationPolicy
+} from '@/lib/cancellation-policy';
+import {
+  evaluateAppointmentCancellation,
+  isRefundablePayment
+} from '@/lib/appointment-cancellation';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/appointments/[id]/cancel/preview - Vista previa del reembolso antes de cancelar
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: params.id },
+      include: {
+        payment: true
+      }
+    });
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: 'Cita no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.patientId !== session.user.id && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'No autorizado para cancelar esta cita' },
+        { status: 403 }
+      );
+    }
+
+    if (appointment.status === 'CANCELLED' || appointment.status === 'COMPLETED') {
+      return NextResponse.json(
+        { error: 'Esta cita ya no se puede cancelar' },
+        { status: 400 }
+      );
+    }
+
+    const policy = await getCancellationPolicy(appointment.doctorId, appointment.type);
+    const isPaid = isRefundablePayment(appointment.payment);
+    // Paid appointments get the same terms as the cancellation itself,
+    // including the non-refundable no-show deposit
+    const evaluation = isPaid
+      ? await evaluateAppointmentCancellation(appointment, 'PATIENT')
+      : evaluateCancellationPolicy(policy, {
+          scheduledAt: new Date(appointment.scheduledAt),
+          amount: 0
+        });
+
+    return NextResponse.json({
+      appointmentId: appointment.id,
+      isPaid,
+      // Earlier reschedules may have refunded part of the payment
+      paidAmount: isPaid
+        ? appointment.payment!.amount - (appointment.payment!.refundAmount ?? 0)
+        : 0,
+      policy: {
+        name: policy.name,
+        tiers: policy.tiers.map((tier) => ({
+          ...tier,
+          description: describeCancellationTier(tier, policy.tiers)
+        }))
+      },
+      refundPercentage: evaluation.refundPercentage,
+      refundAmount: evaluation.refundAmount,
+      feeRetained: evaluation.feeRetained,
+      hoursUntilAppointment: evaluation.hoursUntilAppointment,
+      explanation: isPaid
+        ? evaluation.explanation
+        : 'Esta cita no tiene un pago completado, por lo que no se generará ningún reembolso.'
+    });
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: 'Appointment cancellation preview',
+      action: 'GET /api/appointments/[id]/cancel/preview',
+      appointmentId: params.id
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
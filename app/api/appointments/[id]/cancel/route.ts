@@ -3,8 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/unified-auth';
 import { prisma } from '@/lib/db';
-import { stripe } from '@/lib/stripe';
 import { ErrorLogger } from '@/lib/error-handling-utils';
+import { cancelAppointment } from '@/lib/appointment-cancellation';
 
 export const dynamic = 'force-dynamic';
 
@@ -69,95 +69,18 @@ export async function POST(
       );
     }
 
-    const appointmentDate = new Date(appointment.scheduledAt);
-    const now = new Date();
-    const hoursUntilAppointment = (appointmentDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-
-    // Calcular reembolso según políticas de cancelación
-    let refundPercentage = 0;
-    let refundReason = '';
-
-    if (hoursUntilAppointment >= 24) {
-      refundPercentage = 100;
-      refundReason = 'Cancelación con más de 24 horas de anticipación';
-    } else if (hoursUntilAppointment >= 2) {
-      refundPercentage = 50;
-      refundReason = 'Cancelación entre 2-24 horas de anticipación';
-    } else {
-      refundPercentage = 0;
-      refundReason = 'Cancelación con menos de 2 horas de anticipación';
-    }
-
-    // Procesar reembolso si aplica y hay pago
-    let refundAmount = 0;
-    if (appointment.payment && appointment.payment.status === 'COMPLETED' && refundPercentage > 0) {
-      refundAmount = Math.round((appointment.payment.amount * refundPercentage) / 100);
-
-      try {
-        // Crear reembolso en Stripe
-        const refund = await stripe.refunds.create({
-          payment_intent: appointment.payment.stripePaymentId!,
-          amount: refundAmount,
-          reason: 'requested_by_customer',
-          metadata: {
-            appointment_id: appointment.id,
-            cancellation_reason: reason || 'Cancelado por el paciente',
-            refund_percentage: refundPercentage.toString(),
-            hours_until_appointment: hoursUntilAppointment.toString()
-          }
-        });
-
-        // Actualizar el pago en la base de datos
-        await prisma.payment.update({
-          where: { id: appointment.payment.id },
-          data: {
-            status: refundPercentage === 100 ? 'REFUNDED' : 'PARTIALLY_REFUNDED',
-            refundAmount,
-            refundReason,
-            refundedAt: new Date(),
-            metadata: {
-              ...appointment.payment.metadata as any,
-              stripe_refund_id: refund.id,
-              refund_percentage: refundPercentage,
-              refund_processed_at: new Date().toISOString()
-            }
-          }
-        });
-
-      } catch (stripeError) {
-        ErrorLogger.log({
-          error: stripeError,
-          context: "Appointment cancellation refund",
-          action: "POST /api/appointments/[id]/cancel - stripe refund",
-          level: "error",
-          appointmentId: appointment.id
-        });
-        // Continuar con la cancelación aunque falle el reembolso
-      }
-    }
-
-    // Cancelar la cita
-    const cancelledAppointment = await prisma.appointment.update({
-      where: { id: params.id },
-      data: {
-        status: 'CANCELLED',
-        cancellationReason: reason || 'Cancelado por el paciente',
-        cancelledAt: new Date()
-      }
+    // Reembolsar según la política de cancelación del doctor y liberar el horario
+    const { appointment: cancelledAppointment, refund } = await cancelAppointment(appointment, {
+      cancelledBy: session.user.role === 'ADMIN' ? 'ADMIN' : 'PATIENT',
+      reason
     });
 
-    // TODO: Enviar notificaciones de cancelación
-
     return NextResponse.json({
       id: cancelledAppointment.id,
       status: cancelledAppointment.status,
       cancellationReason: cancelledAppointment.cancellationReason,
       cancelledAt: cancelledAppointment.cancelledAt,
-      refund: refundAmount > 0 ? {
-        amount: refundAmount,
-        percentage: refundPercentage,
-        reason: refundReason
-      } : null
+      refund
     });
 
   } catch (error) {
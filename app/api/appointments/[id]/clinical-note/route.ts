@@ -0,0 +1,148 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  ClinicalNoteError,
+  clinicalNoteSchema,
+  getClinicalNote,
+  getPatientNoteSummary,
+  saveClinicalNoteDraft,
+} from "@/lib/clinical-notes";
+
+export const dynamic = "force-dynamic";
+
+async function getNoteAppointment(appointmentId: string) {
+  return prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    select: {
+      id: true,
+      doctorId: true,
+      patientId: true,
+      status: true,
+      doctor: { select: { userId: true } },
+    },
+  });
+}
+
+// GET /api/appointments/[id]/clinical-note - The full note with its versions
+// for the doctor; the summary of the signed note for the patient
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await getNoteAppointment(params.id);
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.doctor.userId === session.user.id) {
+      const note = await getClinicalNote(appointment.id);
+
+      return NextResponse.json({ success: true, data: { note } });
+    }
+
+    if (appointment.patientId === session.user.id) {
+      const summary = await getPatientNoteSummary(appointment.id);
+
+      return NextResponse.json({ success: true, data: { summary } });
+    }
+
+    return NextResponse.json(
+      { error: "No autorizado para ver esta nota" },
+      { status: 403 }
+    );
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching clinical note",
+      action: "GET /api/appointments/[id]/clinical-note",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/appointments/[id]/clinical-note - Save the doctor's draft; on a
+// signed note it starts a new version
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "DOCTOR") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await getNoteAppointment(params.id);
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.doctor.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Solo el doctor de la cita puede editar la nota" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = clinicalNoteSchema.parse(body);
+
+    const note = await saveClinicalNoteDraft(appointment, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: { note },
+      message: "Borrador guardado",
+    });
+  } catch (error) {
+    if (error instanceof ClinicalNoteError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error saving clinical note",
+      action: "PUT /api/appointments/[id]/clinical-note",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
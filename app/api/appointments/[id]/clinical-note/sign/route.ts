@@ -0,0 +1,71 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { ClinicalNoteError, signClinicalNote } from "@/lib/clinical-notes";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/appointments/[id]/clinical-note/sign - Sign the current draft of
+// the note; signed versions can't be edited
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "DOCTOR") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        status: true,
+        doctor: { select: { userId: true } },
+      },
+    });
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.doctor.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Solo el doctor de la cita puede firmar la nota" },
+        { status: 403 }
+      );
+    }
+
+    const note = await signClinicalNote(appointment);
+
+    return NextResponse.json({
+      success: true,
+      data: { note },
+      message: `Nota firmada (versión ${note.currentVersion})`,
+    });
+  } catch (error) {
+    if (error instanceof ClinicalNoteError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error signing clinical note",
+      action: "POST /api/appointments/[id]/clinical-note/sign",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  HealthRecordAccessError,
+  viewHealthRecord,
+} from "@/lib/health-records";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/appointments/[id]/health-record - The patient's health record for
+// the doctor of the appointment; the read is written to the audit trail
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "DOCTOR") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: params.id },
+      select: { patientId: true, doctor: { select: { userId: true } } },
+    });
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.doctor.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: "No autorizado para ver este expediente" },
+        { status: 403 }
+      );
+    }
+
+    const record = await viewHealthRecord(appointment.patientId, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    return NextResponse.json({ success: true, data: record });
+  } catch (error) {
+    if (error instanceof HealthRecordAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error fetching patient health record",
+      action: "GET /api/appointments/[id]/health-record",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  appointmentToCalendarEvent,
+  buildCalendar,
+  getCalendarAppointment,
+} from "@/lib/icalendar";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/appointments/[id]/ics - Download an appointment as an .ics file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await getCalendarAppointment(params.id);
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    const isPatient = appointment.patientId === session.user.id;
+    const isDoctor = appointment.doctor.userId === session.user.id;
+
+    if (!isPatient && !isDoctor && session.user.role !== "ADMIN") {
+      return NextResponse.json(
+        { error: "No tienes acceso a esta cita" },
+        { status: 403 }
+      );
+    }
+
+    const calendar = buildCalendar([
+      appointmentToCalendarEvent(appointment, isDoctor ? "DOCTOR" : "PATIENT"),
+    ]);
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `attachment; filename="cita-${appointment.id}.ics"`,
+      },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error exporting appointment to iCalendar",
+      action: "GET /api/appointments/[id]/ics",
+      level: "error",
+      userId: session?.user?.id,
+    });
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  InvoiceError,
+  requestInvoice,
+  toInvoiceSummary,
+} from "@/lib/invoices";
+
+export const dynamic = "force-dynamic";
+
+async function getInvoiceAppointment(appointmentId: string) {
+  return prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    select: {
+      patientId: true,
+      payment: {
+        select: {
+          id: true,
+          status: true,
+          amount: true,
+          invoice: true,
+        },
+      },
+    },
+  });
+}
+
+// GET /api/appointments/[id]/invoice - Payment of the appointment and its
+// invoice, for the patient
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await getInvoiceAppointment(params.id);
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.patientId !== session.user.id) {
+      return NextResponse.json(
+        { error: "No autorizado para facturar esta cita" },
+        { status: 403 }
+      );
+    }
+
+    const payment = appointment.payment;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        payment: payment && {
+          id: payment.id,
+          status: payment.status,
+          amount: payment.amount,
+        },
+        invoice: payment?.invoice ? toInvoiceSummary(payment.invoice) : null,
+      },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching appointment invoice",
+      action: "GET /api/appointments/[id]/invoice",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/appointments/[id]/invoice - Request the CFDI of the appointment's
+// payment with the patient's fiscal data
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await getInvoiceAppointment(params.id);
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.patientId !== session.user.id) {
+      return NextResponse.json(
+        { error: "No autorizado para facturar esta cita" },
+        { status: 403 }
+      );
+    }
+
+    if (!appointment.payment) {
+      return NextResponse.json(
+        { error: "La cita no tiene un pago que facturar" },
+        { status: 409 }
+      );
+    }
+
+    const invoice = await requestInvoice(appointment.payment.id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: toInvoiceSummary(invoice),
+        message: "Factura generada",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error requesting invoice",
+      action: "POST /api/appointments/[id]/invoice",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
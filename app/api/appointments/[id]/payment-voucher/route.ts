@@ -0,0 +1,88 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/appointments/[id]/payment-voucher - OXXO or SPEI voucher the
+// patient has to pay to confirm the appointment
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await prisma.appointment.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        patientId: true,
+        status: true,
+        scheduledAt: true,
+        type: true,
+        doctor: { select: { specialty: true, user: { select: { name: true } } } },
+        payment: {
+          select: {
+            id: true,
+            status: true,
+            method: true,
+            amount: true,
+            voucherReference: true,
+            voucherClabe: true,
+            voucherUrl: true,
+            voucherExpiresAt: true,
+          },
+        },
+      },
+    });
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.patientId !== session.user.id) {
+      return NextResponse.json(
+        { error: "No autorizado para ver esta cita" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        appointment: {
+          id: appointment.id,
+          status: appointment.status,
+          scheduledAt: appointment.scheduledAt,
+          type: appointment.type,
+          doctorName: appointment.doctor.user.name,
+          doctorSpecialty: appointment.doctor.specialty,
+        },
+        payment: appointment.payment,
+      },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching payment voucher",
+      action: "GET /api/appointments/[id]/payment-voucher",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
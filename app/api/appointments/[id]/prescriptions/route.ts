@@ -0,0 +1,147 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  getAppointmentPrescriptions,
+  issuePrescription,
+  PrescriptionError,
+  prescriptionSchema,
+} from "@/lib/prescriptions";
+
+export const dynamic = "force-dynamic";
+
+async function getPrescriptionAppointment(appointmentId: string) {
+  return prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    select: {
+      id: true,
+      doctorId: true,
+      patientId: true,
+      status: true,
+      doctor: { select: { userId: true } },
+    },
+  });
+}
+
+// GET /api/appointments/[id]/prescriptions - Prescriptions issued in the
+// appointment, for its doctor and patient
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await getPrescriptionAppointment(params.id);
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      appointment.doctor.userId !== session.user.id &&
+      appointment.patientId !== session.user.id
+    ) {
+      return NextResponse.json(
+        { error: "No autorizado para ver estas recetas" },
+        { status: 403 }
+      );
+    }
+
+    const prescriptions = await getAppointmentPrescriptions(appointment.id);
+
+    return NextResponse.json({ success: true, data: prescriptions });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching prescriptions",
+      action: "GET /api/appointments/[id]/prescriptions",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/appointments/[id]/prescriptions - Issue a prescription and store
+// its PDF in the appointment's medical files
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "DOCTOR") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await getPrescriptionAppointment(params.id);
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.doctor.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Solo el doctor de la cita puede emitir recetas" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const validatedData = prescriptionSchema.parse(body);
+
+    const prescription = await issuePrescription(appointment, validatedData);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: prescription,
+        message: `Receta ${prescription.verificationCode} emitida`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof PrescriptionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error issuing prescription",
+      action: "POST /api/appointments/[id]/prescriptions",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
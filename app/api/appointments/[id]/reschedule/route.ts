@@ -0,0 +1,209 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  getReschedulableAppointment,
+  getReschedulePolicy,
+  previewReschedule,
+  ReschedulableAppointment,
+  rescheduleAppointment,
+  rescheduleAppointmentSchema,
+  RescheduleActor,
+  RescheduleError,
+} from "@/lib/appointment-reschedule";
+import { SlotUnavailableError } from "@/lib/slot-holds";
+
+export const dynamic = "force-dynamic";
+
+const previewQuerySchema = rescheduleAppointmentSchema.pick({
+  scheduledAt: true,
+  type: true,
+});
+
+/**
+ * Who is rescheduling the appointment, or null when the user is neither its
+ * patient, its doctor nor an admin
+ */
+function getRescheduleActor(
+  appointment: ReschedulableAppointment,
+  user: { id: string; role: string }
+): RescheduleActor | null {
+  if (user.role === "ADMIN") return "ADMIN";
+  if (appointment.patientId === user.id) return "PATIENT";
+  if (appointment.doctor.userId === user.id) return "DOCTOR";
+  return null;
+}
+
+// GET /api/appointments/[id]/reschedule - Reschedule history and policy; with
+// scheduledAt (and optionally type) also the terms of moving to that slot
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const appointment = await getReschedulableAppointment(params.id);
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    const actor = getRescheduleActor(appointment, session.user);
+    if (!actor) {
+      return NextResponse.json(
+        { error: "No autorizado para ver esta cita" },
+        { status: 403 }
+      );
+    }
+
+    const [policy, history] = await Promise.all([
+      getReschedulePolicy(appointment.doctorId),
+      prisma.appointmentReschedule.findMany({
+        where: { appointmentId: appointment.id },
+        orderBy: { createdAt: "desc" },
+      }),
+    ]);
+
+    const { searchParams } = new URL(request.url);
+    const scheduledAt = searchParams.get("scheduledAt");
+    let preview = null;
+
+    if (scheduledAt) {
+      const query = previewQuerySchema.parse({
+        scheduledAt,
+        type: searchParams.get("type") || undefined,
+      });
+      preview = await previewReschedule(appointment, {
+        scheduledAt: new Date(query.scheduledAt),
+        type: query.type,
+        rescheduledBy: actor,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        policy,
+        rescheduleCount: appointment.rescheduleCount,
+        history,
+        preview,
+      },
+    });
+  } catch (error) {
+    if (error instanceof RescheduleError || error instanceof SlotUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error previewing appointment reschedule",
+      action: "GET /api/appointments/[id]/reschedule",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/appointments/[id]/reschedule - Move an appointment to a new slot
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = rescheduleAppointmentSchema.parse(body);
+
+    const appointment = await getReschedulableAppointment(params.id);
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "Cita no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    const actor = getRescheduleActor(appointment, session.user);
+    if (!actor) {
+      return NextResponse.json(
+        { error: "No autorizado para reprogramar esta cita" },
+        { status: 403 }
+      );
+    }
+
+    const scheduledAt = new Date(validatedData.scheduledAt);
+
+    if (scheduledAt <= new Date()) {
+      return NextResponse.json(
+        { error: "La cita debe ser programada para una fecha futura" },
+        { status: 400 }
+      );
+    }
+
+    const result = await rescheduleAppointment(appointment, {
+      scheduledAt,
+      type: validatedData.type,
+      rescheduledBy: actor,
+      rescheduledById: session.user.id,
+      reason: validatedData.reason,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      message: "Cita reprogramada correctamente",
+    });
+  } catch (error) {
+    if (error instanceof RescheduleError || error instanceof SlotUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error rescheduling appointment",
+      action: "POST /api/appointments/[id]/reschedule",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,13 +2,37 @@ import { authOptions } from "@/lib/unified-auth";
 import { prisma } from "@/lib/db";
 import { getServerSession } from "next-auth";
 import { NextRequest, NextResponse } from "next/server";
+import { Prisma } from "@prisma/client";
 import { z } from "zod";
 import { ErrorLogger } from "@/lib/error-logger";
+import { SlotUnavailableError } from "@/lib/slot-holds";
+import { cancelAppointment, CancellationActor } from "@/lib/appointment-cancellation";
+import {
+  getReschedulableAppointment,
+  RescheduleActor,
+  RescheduleError,
+  rescheduleAppointment,
+} from "@/lib/appointment-reschedule";
+import {
+  AppointmentTransitionError,
+  assertTransition,
+  LifecycleActor,
+  transitionAppointment,
+} from "@/lib/appointment-lifecycle";
+import { markAppointmentNoShow, NoShowError } from "@/lib/no-shows";
 
 // Validation schemas
 const updateAppointmentSchema = z.object({
   status: z
-    .enum(["SCHEDULED", "CONFIRMED", "COMPLETED", "CANCELLED", "NO_SHOW"])
+    .enum([
+      "PENDING",
+      "CONFIRMED",
+      "CHECKED_IN",
+      "IN_CONSULTATION",
+      "COMPLETED",
+      "CANCELLED",
+      "NO_SHOW",
+    ])
     .optional(),
   notes: z.string().optional(),
   paymentId: z.string().optional(),
@@ -166,8 +190,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const session = await getServerSession(authOptions);
+
   try {
-    const session = await getServerSession(authOptions);
     if (!session?.user?.id) {
       return NextResponse.json({ error: "No autorizado" }, { status: 401 });
     }
@@ -201,10 +226,7 @@ export async function PATCH(
     // Check if appointment exists
     const existingAppointment = await prisma.appointment.findFirst({
       where: whereClause,
-      include: {
-        patient: { select: { id: true, name: true } },
-        doctor: { select: { id: true, name: true } },
-      },
+      include: { payment: true },
     });
 
     if (!existingAppointment) {
@@ -216,75 +238,53 @@ export async function PATCH(
 
     // Validate status transitions
     if (validatedData.status) {
-      const validTransitions: Record<string, string[]> = {
-        SCHEDULED: ["CONFIRMED", "CANCELLED", "NO_SHOW"],
-        CONFIRMED: ["COMPLETED", "CANCELLED", "NO_SHOW"],
-        COMPLETED: [], // Cannot change from completed
-        CANCELLED: [], // Cannot change from cancelled
-        NO_SHOW: [], // Cannot change from no show
-      };
-
-      const currentStatus = existingAppointment.status;
-      const newStatus = validatedData.status;
-
-      if (!validTransitions[currentStatus]?.includes(newStatus)) {
-        return NextResponse.json(
-          {
-            error: `No se puede cambiar el estado de ${currentStatus} a ${newStatus}`,
-          },
-          { status: 400 }
-        );
-      }
+      assertTransition(
+        existingAppointment.status,
+        validatedData.status,
+        session.user.role as LifecycleActor
+      );
     }
 
-    // If rescheduling, check doctor availability
-    if (validatedData.scheduledAt) {
-      const newDate = new Date(validatedData.scheduledAt);
-      const dayOfWeek = newDate.getDay();
-      const timeString = newDate.toTimeString().slice(0, 5);
+    // Moving the appointment goes through the reschedule flow so the slot
+    // hold, history, fees and notifications stay consistent
+    const { scheduledAt, status, ...updateData } = validatedData;
 
-      // Check doctor availability
-      const doctorAvailability = await prisma.availability.findFirst({
-        where: {
-          doctorId: existingAppointment.doctorId,
-          dayOfWeek,
-          startTime: { lte: timeString },
-          endTime: { gt: timeString },
-          isActive: true,
-        },
+    // Missed appointments count against the patient's no-show policy
+    if (status === "NO_SHOW") {
+      const noShow = await markAppointmentNoShow(existingAppointment, "DOCTOR");
+
+      return NextResponse.json({
+        success: true,
+        data: noShow,
+        message: "Inasistencia registrada correctamente",
       });
+    }
 
-      if (!doctorAvailability) {
-        return NextResponse.json(
-          { error: "El doctor no tiene disponibilidad en el nuevo horario" },
-          { status: 400 }
-        );
-      }
+    // Cancellations refund by the doctor's policy, free the slot for the
+    // waitlist and notify the other party
+    if (status === "CANCELLED") {
+      const { appointment, refund } = await cancelAppointment(existingAppointment, {
+        cancelledBy: session.user.role as CancellationActor,
+        reason: updateData.notes,
+      });
 
-      // Check for conflicts
-      const conflictingAppointment = await prisma.appointment.findFirst({
-        where: {
-          doctorId: existingAppointment.doctorId,
-          scheduledAt: newDate,
-          status: { in: ["SCHEDULED", "CONFIRMED"] },
-          id: { not: appointmentId },
-        },
+      return NextResponse.json({
+        success: true,
+        data: { ...appointment, refund },
+        message: "Cita cancelada correctamente",
       });
+    }
 
-      if (conflictingAppointment) {
-        return NextResponse.json(
-          { error: "Ya existe una cita en el nuevo horario" },
-          { status: 409 }
-        );
+    const applyUpdate = async (tx: Prisma.TransactionClient) => {
+      // Stamps the consultation lifecycle and opens or closes the chat room
+      if (status) {
+        await transitionAppointment(tx, existingAppointment, status);
       }
-    }
 
-    // Update appointment in transaction
-    const result = await prisma.$transaction(async (tx) => {
       const updatedAppointment = await tx.appointment.update({
         where: { id: appointmentId },
         data: {
-          ...validatedData,
+          ...updateData,
           updatedAt: new Date(),
         },
         include: {
@@ -313,34 +313,6 @@ export async function PATCH(
         },
       });
 
-      // Update chat room status if appointment is cancelled or completed
-      if (
-        validatedData.status === "CANCELLED" ||
-        validatedData.status === "COMPLETED"
-      ) {
-        await tx.chatRoom.updateMany({
-          where: { appointmentId },
-          data: {
-            status: "CLOSED",
-            updatedAt: new Date(),
-          },
-        });
-      }
-
-      // Handle payment refund if cancelled
-      if (
-        validatedData.status === "CANCELLED" &&
-        existingAppointment.paymentId
-      ) {
-        await tx.payment.update({
-          where: { id: existingAppointment.paymentId },
-          data: {
-            status: "REFUND_PENDING",
-            updatedAt: new Date(),
-          },
-        });
-      }
-
       // Log admin activity
       await tx.adminLog.create({
         data: {
@@ -358,7 +330,26 @@ export async function PATCH(
       });
 
       return updatedAppointment;
-    });
+    };
+
+    // The other changes commit or fail together with the move
+    let result: Awaited<ReturnType<typeof applyUpdate>> | undefined;
+    if (scheduledAt) {
+      const appointment = await getReschedulableAppointment(appointmentId);
+      await rescheduleAppointment(
+        appointment!,
+        {
+          scheduledAt: new Date(scheduledAt),
+          rescheduledBy: session.user.role as RescheduleActor,
+          rescheduledById: session.user.id,
+        },
+        async (tx) => {
+          result = await applyUpdate(tx);
+        }
+      );
+    } else {
+      result = await prisma.$transaction(applyUpdate);
+    }
 
     return NextResponse.json({
       success: true,
@@ -366,6 +357,15 @@ export async function PATCH(
       message: "Cita actualizada correctamente",
     });
   } catch (error) {
+    if (
+      error instanceof RescheduleError ||
+      error instanceof SlotUnavailableError ||
+      error instanceof AppointmentTransitionError ||
+      error instanceof NoShowError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     ErrorLogger.log({
       error,
       context: "Error updating appointment",
@@ -393,8 +393,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  const session = await getServerSession(authOptions);
+
   try {
-    const session = await getServerSession(authOptions);
     if (!session?.user?.id) {
       return NextResponse.json({ error: "No autorizado" }, { status: 401 });
     }
@@ -404,10 +405,7 @@ export async function DELETE(
     const { reason } = body;
 
     // Build where clause based on user role
-    const whereClause: any = {
-      id: appointmentId,
-      status: { in: ["SCHEDULED", "CONFIRMED"] },
-    };
+    const whereClause: any = { id: appointmentId };
 
     if (session.user.role === "PATIENT") {
       whereClause.patientId = session.user.id;
@@ -417,96 +415,41 @@ export async function DELETE(
       return NextResponse.json({ error: "Rol no autorizado" }, { status: 403 });
     }
 
-    // Check if appointment exists and can be cancelled
     const appointment = await prisma.appointment.findFirst({
       where: whereClause,
-      include: {
-        patient: { select: { id: true, name: true } },
-        doctor: { select: { id: true, name: true } },
-        payment: { select: { id: true, status: true, amount: true } },
-      },
+      include: { payment: true },
     });
 
     if (!appointment) {
       return NextResponse.json(
-        { error: "Cita no encontrada o no se puede cancelar" },
+        { error: "Cita no encontrada" },
         { status: 404 }
       );
     }
 
-    // Cancel appointment in transaction
-    const result = await prisma.$transaction(async (tx) => {
-      const cancelledAppointment = await tx.appointment.update({
-        where: { id: appointmentId },
-        data: {
-          status: "CANCELLED",
-          notes: reason ? `Cancelada: ${reason}` : "Cancelada por el usuario",
-          updatedAt: new Date(),
-        },
-        include: {
-          patient: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-          doctor: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-              specialty: true,
-            },
-          },
-        },
-      });
-
-      // Close related chat room
-      await tx.chatRoom.updateMany({
-        where: { appointmentId },
-        data: {
-          status: "CLOSED",
-          updatedAt: new Date(),
-        },
-      });
-
-      // Handle payment refund if needed
-      if (appointment.payment && appointment.payment.status === "COMPLETED") {
-        await tx.payment.update({
-          where: { id: appointment.payment.id },
-          data: {
-            status: "REFUND_PENDING",
-            updatedAt: new Date(),
-          },
-        });
-      }
-
-      // Log admin activity
-      await tx.adminLog.create({
-        data: {
-          action: "APPOINTMENT_CANCELLED",
-          details: {
-            appointmentId,
-            patientId: appointment.patientId,
-            doctorId: appointment.doctorId,
-            reason: reason || "Usuario canceló",
-            cancelledBy: session.user.id,
-            paymentRefundRequired: appointment.payment?.status === "COMPLETED",
-          },
-          userId: session.user.id,
-        },
-      });
+    assertTransition(
+      appointment.status,
+      "CANCELLED",
+      session.user.role as LifecycleActor
+    );
 
-      return cancelledAppointment;
-    });
+    // Refunds by the doctor's policy, frees the slot for the waitlist and
+    // notifies the other party
+    const { appointment: cancelledAppointment, refund } = await cancelAppointment(
+      appointment,
+      { cancelledBy: session.user.role as CancellationActor, reason }
+    );
 
     return NextResponse.json({
       success: true,
-      data: result,
+      data: { ...cancelledAppointment, refund },
       message: "Cita cancelada correctamente",
     });
   } catch (error) {
+    if (error instanceof AppointmentTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     ErrorLogger.log({
       error,
       context: "Error cancelling appointment",
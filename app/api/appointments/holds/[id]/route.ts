@@ -0,0 +1,48 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { releasePatientSlotHold } from "@/lib/slot-holds";
+
+export const dynamic = "force-dynamic";
+
+// DELETE /api/appointments/holds/[id] - Release a slot the patient did not book
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const released = await releasePatientSlotHold(params.id, session.user.id);
+
+    if (!released) {
+      return NextResponse.json(
+        { error: "Reserva no encontrada o ya utilizada" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Horario liberado correctamente",
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error releasing slot hold",
+      action: "DELETE /api/appointments/holds/[id]",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
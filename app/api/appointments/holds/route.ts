@@ -0,0 +1,107 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import { getConsultationDuration } from "@/lib/doctor-availability";
+import { createSlotHold, SlotUnavailableError } from "@/lib/slot-holds";
+import { assertPatientCanBook, BookingBlockedError } from "@/lib/no-shows";
+
+export const dynamic = "force-dynamic";
+
+const createHoldSchema = z.object({
+  doctorId: z.string().cuid(),
+  scheduledAt: z.string().datetime(),
+  type: z.enum(["IN_PERSON", "VIRTUAL", "HOME_VISIT"]),
+});
+
+// POST /api/appointments/holds - Reserve a slot while the patient books it
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = createHoldSchema.parse(body);
+
+    const doctor = await prisma.doctor.findFirst({
+      where: {
+        id: validatedData.doctorId,
+        user: {
+          isActive: true,
+        },
+      },
+    });
+
+    if (!doctor) {
+      return NextResponse.json(
+        { error: "Doctor no encontrado o no disponible" },
+        { status: 404 }
+      );
+    }
+
+    const startsAt = new Date(validatedData.scheduledAt);
+
+    if (startsAt <= new Date()) {
+      return NextResponse.json(
+        { error: "La cita debe ser programada para una fecha futura" },
+        { status: 400 }
+      );
+    }
+
+    await assertPatientCanBook(session.user.id, doctor.id);
+
+    const hold = await createSlotHold({
+      doctorId: doctor.id,
+      patientId: session.user.id,
+      type: validatedData.type,
+      startsAt,
+      duration: getConsultationDuration(doctor, validatedData.type),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          id: hold.id,
+          startsAt: hold.startsAt,
+          endsAt: hold.endsAt,
+          expiresAt: hold.expiresAt,
+        },
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof BookingBlockedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof SlotUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error creating slot hold",
+      action: "POST /api/appointments/holds",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,28 @@ import { getServerSession } from "next-auth";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { ErrorLogger } from "@/lib/error-logger";
+import { getConsultationDuration, getConsultationPrice } from "@/lib/doctor-availability";
+import {
+  assignSlotHold,
+  getActiveSlotHold,
+  holdSlot,
+  isSlotOverlapError,
+  releaseSlotHold,
+  SlotUnavailableError,
+} from "@/lib/slot-holds";
+import {
+  assertPatientCanBook,
+  BookingBlockedError,
+  getDepositAmount,
+  markAppointmentNoShow,
+  NoShowError,
+} from "@/lib/no-shows";
+import {
+  AppointmentTransitionError,
+  assertTransition,
+  LifecycleActor,
+  transitionAppointment,
+} from "@/lib/appointment-lifecycle";
 
 // Validation schemas
 const createAppointmentSchema = z.object({
@@ -11,11 +33,20 @@ const createAppointmentSchema = z.object({
   scheduledAt: z.string().datetime(),
   type: z.enum(["IN_PERSON", "VIRTUAL", "HOME_VISIT"]),
   notes: z.string().optional(),
+  holdId: z.string().optional(),
 });
 
 const updateAppointmentSchema = z.object({
   status: z
-    .enum(["PENDING", "CONFIRMED", "COMPLETED", "CANCELLED", "NO_SHOW"])
+    .enum([
+      "PENDING",
+      "CONFIRMED",
+      "CHECKED_IN",
+      "IN_CONSULTATION",
+      "COMPLETED",
+      "CANCELLED",
+      "NO_SHOW",
+    ])
     .optional(),
   notes: z.string().optional(),
   paymentId: z.string().optional(),
@@ -121,6 +152,7 @@ export async function GET(request: NextRequest) {
             amount: true,
             status: true,
             method: true,
+            voucherExpiresAt: true,
             createdAt: true,
           },
         },
@@ -222,24 +254,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check for conflicting appointments
-    const conflictingAppointment = await prisma.appointment.findFirst({
-      where: {
-        doctorId: validatedData.doctorId,
-        scheduledAt: appointmentDate,
-        status: {
-          in: ["PENDING", "CONFIRMED"],
-        },
-      },
-    });
-
-    if (conflictingAppointment) {
-      return NextResponse.json(
-        { error: "Ya existe una cita programada en ese horario" },
-        { status: 409 }
-      );
-    }
-
     // Get patient phone and email for appointment
     const patient = await prisma.user.findUnique({
       where: { id: session.user.id },
@@ -253,36 +267,33 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Patients who missed too many appointments are blocked or pay a deposit
+    const restrictions = await assertPatientCanBook(
+      session.user.id,
+      validatedData.doctorId
+    );
+
     // Determine price based on consultation type
-    let price = 0;
-    switch (validatedData.type) {
-      case "IN_PERSON":
-        price = doctor.priceInPerson || 80000; // Default $800 MXN
-        break;
-      case "VIRTUAL":
-        price = doctor.priceVirtual || 60000; // Default $600 MXN
-        break;
-      case "HOME_VISIT":
-        price = doctor.priceHomeVisit || 120000; // Default $1200 MXN
-        break;
-    }
+    const price = getConsultationPrice(doctor, validatedData.type);
 
     // Determine duration based on consultation type
-    let duration = 30; // Default 30 minutes
-    switch (validatedData.type) {
-      case "IN_PERSON":
-        duration = doctor.durationInPerson || 30;
-        break;
-      case "VIRTUAL":
-        duration = doctor.durationVirtual || 30;
-        break;
-      case "HOME_VISIT":
-        duration = doctor.durationHomeVisit || 60;
-        break;
-    }
+    const duration = getConsultationDuration(doctor, validatedData.type);
 
     // Create appointment and chat room in transaction
     const result = await prisma.$transaction(async (tx) => {
+      // Use the slot reserved from the calendar, or reserve it now. Overlapping
+      // reservations are rejected by the database.
+      const slotRequest = {
+        doctorId: validatedData.doctorId,
+        patientId: session.user.id,
+        type: validatedData.type,
+        startsAt: appointmentDate,
+        duration,
+      };
+      const hold = validatedData.holdId
+        ? await getActiveSlotHold(tx, validatedData.holdId, slotRequest)
+        : await holdSlot(tx, slotRequest);
+
       // Create appointment
       const appointment = await tx.appointment.create({
         data: {
@@ -293,6 +304,7 @@ export async function POST(request: NextRequest) {
           duration: duration,
           status: "PENDING",
           price: price,
+          depositAmount: getDepositAmount(price, restrictions),
           notes: validatedData.notes,
           patientPhone: patient.phone || "",
           patientEmail: patient.email,
@@ -319,6 +331,8 @@ export async function POST(request: NextRequest) {
         },
       });
 
+      await assignSlotHold(tx, hold.id, appointment.id);
+
       // Create chat room for the appointment
       const chatRoom = await tx.chatRoom.create({
         data: {
@@ -341,6 +355,22 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof BookingBlockedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof SlotUnavailableError || isSlotOverlapError(error)) {
+      return NextResponse.json(
+        {
+          error:
+            error instanceof SlotUnavailableError
+              ? error.message
+              : "El horario seleccionado ya no está disponible",
+        },
+        { status: 409 }
+      );
+    }
+
     ErrorLogger.log({
       error,
       context: "Error creating appointment",
@@ -392,12 +422,8 @@ export async function PATCH(request: NextRequest) {
         patientId: true,
         doctorId: true,
         status: true,
-        chatRoom: {
-          select: {
-            id: true,
-            isActive: true,
-          },
-        },
+        scheduledAt: true,
+        startedAt: true,
       },
     });
 
@@ -428,13 +454,40 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Update appointment and handle chat room activation
+    // Only the transitions of the consultation lifecycle are allowed, and
+    // patients can only cancel
+    const { status, ...changes } = validatedData;
+    if (status && status !== appointment.status) {
+      assertTransition(
+        appointment.status,
+        status,
+        session.user.role as LifecycleActor
+      );
+    }
+
+    // Missed appointments count against the patient's no-show policy
+    if (status === "NO_SHOW" && appointment.status !== "NO_SHOW") {
+      const noShow = await markAppointmentNoShow(appointment, "DOCTOR");
+
+      return NextResponse.json({
+        success: true,
+        data: noShow,
+        message: "Inasistencia registrada correctamente",
+      });
+    }
+
+    // Update appointment, stamping the lifecycle and opening or closing
+    // the chat room
     const result = await prisma.$transaction(async (tx) => {
+      if (status && status !== appointment.status) {
+        await transitionAppointment(tx, appointment, status);
+      }
+
       // Update appointment
       const updatedAppointment = await tx.appointment.update({
         where: { id: appointmentId },
         data: {
-          ...validatedData,
+          ...changes,
           updatedAt: new Date(),
         },
         include: {
@@ -465,32 +518,9 @@ export async function PATCH(request: NextRequest) {
         },
       });
 
-      // If appointment is being confirmed, activate chat room
-      if (validatedData.status === "CONFIRMED" && appointment.chatRoom) {
-        await tx.chatRoom.update({
-          where: { id: appointment.chatRoom.id },
-          data: {
-            isActive: true,
-            updatedAt: new Date(),
-          },
-        });
-      }
-
-      // If appointment is being cancelled or completed, deactivate chat room
-      if (
-        (validatedData.status === "CANCELLED" ||
-          validatedData.status === "COMPLETED") &&
-        appointment.chatRoom?.isActive
-      ) {
-        await tx.chatRoom.update({
-          where: { id: appointment.chatRoom.id },
-          data: {
-            isActive: validatedData.status === "COMPLETED", // Keep active for completed appointments
-            endedAt:
-              validatedData.status === "CANCELLED" ? new Date() : undefined,
-            updatedAt: new Date(),
-          },
-        });
+      // Free the reserved slot so it can be booked again
+      if (status === "CANCELLED" && appointment.status !== "CANCELLED") {
+        await releaseSlotHold(appointment.id, "Cita cancelada", tx);
       }
 
       return updatedAppointment;
@@ -502,6 +532,13 @@ export async function PATCH(request: NextRequest) {
       message: "Cita actualizada correctamente",
     });
   } catch (error) {
+    if (
+      error instanceof NoShowError ||
+      error instanceof AppointmentTransitionError
+    ) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
     ErrorLogger.log({
       error,
       context: "Error updating appointment",
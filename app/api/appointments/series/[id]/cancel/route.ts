@@ -0,0 +1,132 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import { cancelSeriesAppointments } from "@/lib/appointment-series";
+import { CancellationActor } from "@/lib/appointment-cancellation";
+
+export const dynamic = "force-dynamic";
+
+const cancelSeriesSchema = z.object({
+  appointmentId: z.string().cuid(),
+  // "occurrence": solo esta cita, "following": esta y las siguientes
+  scope: z.enum(["occurrence", "following"]),
+  reason: z.string().max(500).optional(),
+});
+
+// POST /api/appointments/series/[id]/cancel - Cancel one occurrence or the rest of a series
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = cancelSeriesSchema.parse(body);
+
+    const series = await prisma.appointmentSeries.findUnique({
+      where: { id: params.id },
+      include: {
+        doctor: {
+          select: {
+            userId: true,
+          },
+        },
+      },
+    });
+
+    if (!series) {
+      return NextResponse.json(
+        { error: "Serie no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    let cancelledBy: CancellationActor | null = null;
+    if (session.user.role === "ADMIN") {
+      cancelledBy = "ADMIN";
+    } else if (series.patientId === session.user.id) {
+      cancelledBy = "PATIENT";
+    } else if (
+      session.user.role === "DOCTOR" &&
+      series.doctor.userId === session.user.id
+    ) {
+      cancelledBy = "DOCTOR";
+    }
+
+    if (!cancelledBy) {
+      return NextResponse.json(
+        { error: "No autorizado para cancelar esta serie" },
+        { status: 403 }
+      );
+    }
+
+    const appointment = await prisma.appointment.findFirst({
+      where: { id: validatedData.appointmentId, seriesId: series.id },
+      select: { status: true },
+    });
+
+    if (!appointment) {
+      return NextResponse.json(
+        { error: "La cita no pertenece a esta serie" },
+        { status: 404 }
+      );
+    }
+
+    if (appointment.status !== "PENDING" && appointment.status !== "CONFIRMED") {
+      return NextResponse.json(
+        { error: "Solo se pueden cancelar citas pendientes o confirmadas" },
+        { status: 400 }
+      );
+    }
+
+    const results = await cancelSeriesAppointments(series.id, {
+      appointmentId: validatedData.appointmentId,
+      scope: validatedData.scope,
+      cancelledBy,
+      reason: validatedData.reason,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: results.map(({ appointment, refund }) => ({
+        id: appointment.id,
+        scheduledAt: appointment.scheduledAt,
+        status: appointment.status,
+        cancelledAt: appointment.cancelledAt,
+        refund,
+      })),
+      message:
+        results.length === 1
+          ? "Cita cancelada correctamente"
+          : `${results.length} citas canceladas correctamente`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error cancelling appointment series",
+      action: "POST /api/appointments/series/[id]/cancel",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
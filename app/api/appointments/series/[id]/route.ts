@@ -0,0 +1,95 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { describeRecurrence } from "@/lib/appointment-series";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/appointments/series/[id] - Get a recurring series with its appointments
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const series = await prisma.appointmentSeries.findUnique({
+      where: { id: params.id },
+      include: {
+        appointments: {
+          orderBy: { scheduledAt: "asc" },
+          include: {
+            payment: {
+              select: {
+                id: true,
+                status: true,
+                amount: true,
+              },
+            },
+          },
+        },
+        doctor: {
+          include: {
+            user: {
+              select: {
+                name: true,
+              },
+            },
+          },
+        },
+        patient: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+
+    if (!series) {
+      return NextResponse.json(
+        { error: "Serie no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    let canView = session.user.role === "ADMIN" || series.patientId === session.user.id;
+    if (!canView && session.user.role === "DOCTOR") {
+      canView = series.doctor.userId === session.user.id;
+    }
+
+    if (!canView) {
+      return NextResponse.json(
+        { error: "No tienes permisos para ver esta serie" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        ...series,
+        summary: describeRecurrence(series),
+      },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching appointment series",
+      action: "GET /api/appointments/series/[id]",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  describeRecurrence,
+  previewAppointmentSeries,
+  recurrenceRuleSchema,
+} from "@/lib/appointment-series";
+
+export const dynamic = "force-dynamic";
+
+const previewSeriesSchema = z.object({
+  doctorId: z.string().cuid(),
+  scheduledAt: z.string().datetime(),
+  type: z.enum(["IN_PERSON", "VIRTUAL", "HOME_VISIT"]),
+  recurrence: recurrenceRuleSchema,
+  holdId: z.string().cuid().optional(),
+});
+
+// POST /api/appointments/series/preview - List the dates of a recurring series and their conflicts
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = previewSeriesSchema.parse(body);
+
+    const doctor = await prisma.doctor.findFirst({
+      where: {
+        id: validatedData.doctorId,
+        user: {
+          isActive: true,
+        },
+      },
+      include: {
+        user: { select: { timezone: true } },
+      },
+    });
+
+    if (!doctor) {
+      return NextResponse.json(
+        { error: "Doctor no encontrado o no disponible" },
+        { status: 404 }
+      );
+    }
+
+    const occurrences = await previewAppointmentSeries({
+      doctor,
+      type: validatedData.type,
+      startsAt: new Date(validatedData.scheduledAt),
+      rule: validatedData.recurrence,
+      holdId: validatedData.holdId,
+      timeZone: doctor.user.timezone,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        summary: describeRecurrence(validatedData.recurrence),
+        occurrences,
+        availableCount: occurrences.filter((occurrence) => occurrence.available)
+          .length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error previewing appointment series",
+      action: "POST /api/appointments/series/preview",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  createAppointmentSeries,
+  describeRecurrence,
+  recurrenceRuleSchema,
+  SeriesConflictError,
+} from "@/lib/appointment-series";
+import { SlotUnavailableError } from "@/lib/slot-holds";
+import { assertPatientCanBook, BookingBlockedError } from "@/lib/no-shows";
+
+export const dynamic = "force-dynamic";
+
+const createSeriesSchema = z.object({
+  doctorId: z.string().cuid(),
+  scheduledAt: z.string().datetime(),
+  type: z.enum(["IN_PERSON", "VIRTUAL", "HOME_VISIT"]),
+  notes: z.string().optional(),
+  holdId: z.string().cuid().optional(),
+  recurrence: recurrenceRuleSchema,
+  // Reservar solo las fechas disponibles en lugar de rechazar toda la serie
+  skipConflicts: z.boolean().default(false),
+});
+
+// POST /api/appointments/series - Book a recurring series of appointments
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = createSeriesSchema.parse(body);
+
+    const doctor = await prisma.doctor.findFirst({
+      where: {
+        id: validatedData.doctorId,
+        user: {
+          isActive: true,
+        },
+      },
+      include: {
+        user: { select: { timezone: true } },
+      },
+    });
+
+    if (!doctor) {
+      return NextResponse.json(
+        { error: "Doctor no encontrado o no disponible" },
+        { status: 404 }
+      );
+    }
+
+    const startsAt = new Date(validatedData.scheduledAt);
+
+    if (startsAt <= new Date()) {
+      return NextResponse.json(
+        { error: "La cita debe ser programada para una fecha futura" },
+        { status: 400 }
+      );
+    }
+
+    const patient = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, phone: true, email: true },
+    });
+
+    if (!patient) {
+      return NextResponse.json(
+        { error: "Usuario no encontrado" },
+        { status: 404 }
+      );
+    }
+
+    const restrictions = await assertPatientCanBook(patient.id, doctor.id);
+
+    const { series, appointments, skipped } = await createAppointmentSeries({
+      patient,
+      doctor,
+      type: validatedData.type,
+      startsAt,
+      rule: validatedData.recurrence,
+      notes: validatedData.notes,
+      holdId: validatedData.holdId,
+      timeZone: doctor.user.timezone,
+      skipConflicts: validatedData.skipConflicts,
+      restrictions,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          series: {
+            ...series,
+            summary: describeRecurrence(series),
+          },
+          appointments,
+          skipped,
+        },
+        message:
+          skipped.length > 0
+            ? `Serie creada con ${appointments.length} citas; ${skipped.length} fechas no estaban disponibles`
+            : `Serie creada con ${appointments.length} citas`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof BookingBlockedError) {
+      return NextResponse.json({ error: error.message }, { status: 403 });
+    }
+
+    if (error instanceof SeriesConflictError) {
+      return NextResponse.json(
+        { error: error.message, occurrences: error.occurrences },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof SlotUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error creating appointment series",
+      action: "POST /api/appointments/series",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,13 +3,14 @@ import { prisma } from '@/lib/db';
 import bcrypt from 'bcryptjs';
 import { validateMexicanPhone } from '@/lib/mexican-utils';
 import { ErrorLogger } from '@/lib/error-logger';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/timezones';
 
 export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, email, phone, password, userType } = body;
+    const { name, email, phone, password, userType, timezone } = body;
 
     // Validar datos requeridos
     if (!name || !email || !password || !userType) {
@@ -57,6 +58,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Zona horaria del navegador; si no es válida se usa la del centro del país
+    const userTimeZone =
+      typeof timezone === 'string' && isValidTimeZone(timezone) ? timezone : DEFAULT_TIME_ZONE;
+
     // Verificar si el email ya existe
     const existingUserByEmail = await prisma.user.findUnique({
       where: { email: email.toLowerCase().trim() }
@@ -97,6 +102,7 @@ export async function POST(request: NextRequest) {
         phone: formattedPhone,
         password: hashedPassword,
         role: role,
+        timezone: userTimeZone,
         emailVerified: new Date(), // Auto-verificar para desarrollo
       },
       select: {
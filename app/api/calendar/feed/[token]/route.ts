@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { getCalendarFeed } from "@/lib/icalendar";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/calendar/feed/[token] - iCal feed for calendar apps. The token in
+// the URL is the only credential, calendar clients can't send a session.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const calendar = await getCalendarFeed(params.token);
+
+    if (!calendar) {
+      return NextResponse.json(
+        { error: "Calendario no encontrado" },
+        { status: 404 }
+      );
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="medica-movil.ics"',
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error building calendar feed",
+      action: "GET /api/calendar/feed/[token]",
+      level: "error",
+    });
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  getCalendarFeedToken,
+  getCalendarFeedUrl,
+  rotateCalendarFeedToken,
+} from "@/lib/icalendar";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/calendar/feed - Get the private iCal subscription URL
+export async function GET(_request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const token = await getCalendarFeedToken(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { url: getCalendarFeedUrl(token) },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error getting calendar feed URL",
+      action: "GET /api/calendar/feed",
+      level: "error",
+      userId: session?.user?.id,
+    });
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/calendar/feed - Generate a new URL, revoking the previous one
+export async function POST(_request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const token = await rotateCalendarFeedToken(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { url: getCalendarFeedUrl(token) },
+      message: "Se generó un nuevo enlace. El anterior dejó de funcionar.",
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error rotating calendar feed token",
+      action: "POST /api/calendar/feed",
+      level: "error",
+      userId: session?.user?.id,
+    });
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
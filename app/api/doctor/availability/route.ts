@@ -4,30 +4,22 @@ import { authOptions } from '@/lib/unified-auth';
 import { prisma } from "@/lib/db";
 import { z } from 'zod';
 import { ErrorLogger } from '@/lib/error-logger';
+import { availabilityRuleSchema } from '@/lib/doctor-availability';
+import { timeZoneSchema } from '@/lib/timezones';
 
 const availabilitySchema = z.object({
-  availability: z.array(
-    z.object({
-      dayOfWeek: z.number().min(0).max(6),
-      startTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:MM)'),
-      endTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:MM)'),
-      isActive: z.boolean()
-    })
-  )
+  availability: z.array(availabilityRuleSchema),
+  // Zona horaria del consultorio; los horarios se guardan en hora local
+  timeZone: timeZoneSchema.optional()
 });
 
-const updateAvailabilitySchema = z.object({
-  dayOfWeek: z.number().min(0).max(6),
-  startTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:MM)'),
-  endTime: z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Formato de hora inválido (HH:MM)'),
-  isActive: z.boolean()
-});
+const updateAvailabilitySchema = availabilityRuleSchema;
 
 // GET /api/doctor/availability - Get doctor availability
 export async function GET(_request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
   try {
-    const session = await getServerSession(authOptions);
-    
     if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'No autorizado' },
@@ -46,6 +38,9 @@ export async function GET(_request: NextRequest) {
     const doctor = await prisma.doctor.findUnique({
       where: {
         userId: session.user.id
+      },
+      include: {
+        user: { select: { timezone: true } }
       }
     });
 
@@ -61,14 +56,16 @@ export async function GET(_request: NextRequest) {
       where: {
         doctorId: doctor.id
       },
-      orderBy: {
-        dayOfWeek: 'asc'
-      }
+      orderBy: [
+        { dayOfWeek: 'asc' },
+        { startTime: 'asc' }
+      ]
     });
 
     return NextResponse.json({
       success: true,
-      availability
+      availability,
+      timeZone: doctor.user.timezone
     });
   } catch (error) {
     ErrorLogger.log({
@@ -87,9 +84,9 @@ export async function GET(_request: NextRequest) {
 
 // POST /api/doctor/availability - Set doctor availability
 export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
   try {
-    const session = await getServerSession(authOptions);
-    
     if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'No autorizado' },
@@ -121,21 +118,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate time ranges
-    for (const slot of validatedData.availability) {
-      if (slot.isActive) {
-        const startTime = new Date(`2000-01-01T${slot.startTime}:00`);
-        const endTime = new Date(`2000-01-01T${slot.endTime}:00`);
-        
-        if (startTime >= endTime) {
-          return NextResponse.json(
-            { error: `Hora de inicio debe ser menor que hora de fin para el día ${slot.dayOfWeek}` },
-            { status: 400 }
-          );
-        }
-      }
-    }
-
     // Use transaction to update availability
     const result = await prisma.$transaction(async (tx) => {
       // Delete existing availability
@@ -152,41 +134,39 @@ export async function POST(request: NextRequest) {
           dayOfWeek: slot.dayOfWeek,
           startTime: slot.startTime,
           endTime: slot.endTime,
+          consultationTypes: slot.consultationTypes,
+          effectiveFrom: slot.effectiveFrom ?? null,
+          effectiveUntil: slot.effectiveUntil ?? null,
           isActive: slot.isActive
         }))
       });
 
+      if (validatedData.timeZone) {
+        await tx.user.update({
+          where: { id: doctor.userId },
+          data: { timezone: validatedData.timeZone }
+        });
+      }
+
       // Get the created availability
       const availability = await tx.doctorAvailability.findMany({
         where: {
           doctorId: doctor.id
         },
-        orderBy: {
-          dayOfWeek: 'asc'
-        }
+        orderBy: [
+          { dayOfWeek: 'asc' },
+          { startTime: 'asc' }
+        ]
       });
 
       return availability;
     });
 
-    // Log the availability update
-    await prisma.adminLog.create({
-      data: {
-        action: 'DOCTOR_AVAILABILITY_UPDATE',
-        details: {
-          doctorId: doctor.id,
-          availabilitySlots: validatedData.availability.length,
-          activeSlots: validatedData.availability.filter(slot => slot.isActive).length,
-          timestamp: new Date().toISOString()
-        },
-        performedBy: session.user.id
-      }
-    });
-
     return NextResponse.json({
       success: true,
       message: 'Disponibilidad actualizada correctamente',
-      availability: result
+      availability: result,
+      timeZone: validatedData.timeZone
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -215,9 +195,9 @@ export async function POST(request: NextRequest) {
 
 // PATCH /api/doctor/availability - Update specific availability slot
 export async function PATCH(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
   try {
-    const session = await getServerSession(authOptions);
-    
     if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'No autorizado' },
@@ -257,19 +237,6 @@ export async function PATCH(request: NextRequest) {
       );
     }
 
-    // Validate time range
-    if (validatedData.isActive) {
-      const startTime = new Date(`2000-01-01T${validatedData.startTime}:00`);
-      const endTime = new Date(`2000-01-01T${validatedData.endTime}:00`);
-      
-      if (startTime >= endTime) {
-        return NextResponse.json(
-          { error: 'Hora de inicio debe ser menor que hora de fin' },
-          { status: 400 }
-        );
-      }
-    }
-
     // Check if availability slot belongs to doctor
     const existingSlot = await prisma.doctorAvailability.findFirst({
       where: {
@@ -296,21 +263,6 @@ export async function PATCH(request: NextRequest) {
       }
     });
 
-    // Log the availability update
-    await prisma.adminLog.create({
-      data: {
-        action: 'DOCTOR_AVAILABILITY_SLOT_UPDATE',
-        details: {
-          doctorId: doctor.id,
-          slotId: id,
-          dayOfWeek: validatedData.dayOfWeek,
-          isActive: validatedData.isActive,
-          timestamp: new Date().toISOString()
-        },
-        performedBy: session.user.id
-      }
-    });
-
     return NextResponse.json({
       success: true,
       message: 'Slot de disponibilidad actualizado correctamente',
@@ -343,9 +295,9 @@ export async function PATCH(request: NextRequest) {
 
 // DELETE /api/doctor/availability - Delete availability slot
 export async function DELETE(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
   try {
-    const session = await getServerSession(authOptions);
-    
     if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'No autorizado' },
@@ -406,20 +358,6 @@ export async function DELETE(request: NextRequest) {
       }
     });
 
-    // Log the availability deletion
-    await prisma.adminLog.create({
-      data: {
-        action: 'DOCTOR_AVAILABILITY_SLOT_DELETE',
-        details: {
-          doctorId: doctor.id,
-          slotId: id,
-          dayOfWeek: existingSlot.dayOfWeek,
-          timestamp: new Date().toISOString()
-        },
-        performedBy: session.user.id
-      }
-    });
-
     return NextResponse.json({
       success: true,
       message: 'Slot de disponibilidad eliminado correctamente'
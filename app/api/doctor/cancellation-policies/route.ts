@@ -0,0 +1,186 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from "@/lib/db";
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import {
+  cancellationPolicyTiersSchema,
+  DEFAULT_CANCELLATION_POLICY,
+  saveCancellationPolicy
+} from '@/lib/cancellation-policy';
+
+const consultationTypeSchema = z.enum(['IN_PERSON', 'VIRTUAL', 'HOME_VISIT']);
+
+const upsertPolicySchema = z.object({
+  name: z.string().min(1).max(100),
+  // Sin tipo de consulta la política aplica a todas las consultas del doctor
+  consultationType: consultationTypeSchema.nullable().optional(),
+  tiers: cancellationPolicyTiersSchema,
+  isActive: z.boolean().optional()
+});
+
+async function getDoctorForSession() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'No autorizado' }, { status: 401 }) };
+  }
+
+  if (session.user.role !== 'DOCTOR') {
+    return {
+      error: NextResponse.json(
+        { error: 'Acceso denegado. Solo para doctores.' },
+        { status: 403 }
+      )
+    };
+  }
+
+  const doctor = await prisma.doctor.findUnique({
+    where: {
+      userId: session.user.id
+    }
+  });
+
+  if (!doctor) {
+    return {
+      error: NextResponse.json(
+        { error: 'Perfil de doctor no encontrado' },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { doctor, userId: session.user.id };
+}
+
+// GET /api/doctor/cancellation-policies - Get doctor cancellation policies
+export async function GET(_request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    const policies = await prisma.cancellationPolicy.findMany({
+      where: {
+        doctorId: result.doctor.id
+      },
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      policies,
+      defaultPolicy: DEFAULT_CANCELLATION_POLICY
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: 'Error fetching cancellation policies',
+      action: 'GET /api/doctor/cancellation-policies',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/doctor/cancellation-policies - Create or replace a cancellation policy
+export async function PUT(request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    const body = await request.json();
+    const validatedData = upsertPolicySchema.parse(body);
+    const consultationType = validatedData.consultationType ?? null;
+
+    const policy = await saveCancellationPolicy(result.doctor.id, consultationType, {
+      name: validatedData.name,
+      tiers: validatedData.tiers,
+      isActive: validatedData.isActive ?? true
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Política de cancelación guardada correctamente',
+      policy
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Datos inválidos',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error saving cancellation policy',
+      action: 'PUT /api/doctor/cancellation-policies',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/doctor/cancellation-policies - Delete a cancellation policy
+export async function DELETE(request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+
+    if (!id) {
+      return NextResponse.json(
+        { error: 'ID de política requerido' },
+        { status: 400 }
+      );
+    }
+
+    const existingPolicy = await prisma.cancellationPolicy.findFirst({
+      where: {
+        id,
+        doctorId: result.doctor.id
+      }
+    });
+
+    if (!existingPolicy) {
+      return NextResponse.json(
+        { error: 'Política de cancelación no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.cancellationPolicy.delete({
+      where: { id }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Política de cancelación eliminada correctamente'
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: 'Error deleting cancellation policy',
+      action: 'DELETE /api/doctor/cancellation-policies',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
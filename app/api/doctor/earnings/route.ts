@@ -3,21 +3,31 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/unified-auth';
 import { prisma } from "@/lib/db";
 import { z } from 'zod';
-import { ErrorLogger } from '@/lib/error-handling-utils';
+import { ErrorLogger } from '@/lib/error-logger';
+import { getFiscalProfile } from '@/lib/invoices';
+import { DEFAULT_COMMISSION_RATE, getDoctorPayoutReport } from '@/lib/payout-ledger';
+import { getWithholdingRule } from '@/lib/tax-withholding';
 
 const earningsQuerySchema = z.object({
-  startDate: z.string().optional(),
-  endDate: z.string().optional(),
-  status: z.enum(['PENDING', 'COMPLETED', 'FAILED', 'REFUNDED']).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  type: z.enum(['PAYMENT_SPLIT', 'REFUND_REVERSAL', 'PAYOUT']).optional(),
   page: z.string().transform(val => parseInt(val) || 1).optional(),
   limit: z.string().transform(val => Math.min(parseInt(val) || 10, 50)).optional()
-});
+}).refine(
+  data => !data.startDate || !data.endDate || data.endDate >= data.startDate,
+  {
+    message: 'La fecha final debe ser posterior a la inicial',
+    path: ['endDate']
+  }
+);
 
-// GET /api/doctor/earnings - Get doctor earnings and payment history
+// GET /api/doctor/earnings - Payout report: earnings, refunds and weekly
+// settlements from the payout ledger
 export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
   try {
-    const session = await getServerSession(authOptions);
-    
     if (!session?.user?.id) {
       return NextResponse.json(
         { error: 'No autorizado' },
@@ -34,7 +44,7 @@ export async function GET(request: NextRequest) {
 
     const { searchParams } = new URL(request.url);
     const queryParams = Object.fromEntries(searchParams.entries());
-    const { startDate, endDate, status, page = 1, limit = 10 } = earningsQuerySchema.parse(queryParams);
+    const { startDate, endDate, type, page = 1, limit = 10 } = earningsQuerySchema.parse(queryParams);
 
     // Get doctor
     const doctor = await prisma.doctor.findUnique({
@@ -50,185 +60,71 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build date filter
-    const dateFilter: { gte?: Date; lte?: Date } = {};
-    if (startDate) {
-      dateFilter.gte = new Date(startDate);
-    }
-    if (endDate) {
-      dateFilter.lte = new Date(endDate);
-    }
-
-    // Build where clause
-    const whereClause: {
-      appointment: { doctorId: string };
-      createdAt?: { gte?: Date; lte?: Date };
-      status?: string;
-    } = {
-      appointment: {
-        doctorId: doctor.id
-      }
+    // Last 6 months unless a range is given
+    const sixMonthsAgo = new Date();
+    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
+    const dateFilter = {
+      gte: startDate ?? sixMonthsAgo,
+      lte: endDate ?? new Date()
     };
 
-    if (Object.keys(dateFilter).length > 0) {
-      whereClause.createdAt = dateFilter;
-    }
-
-    if (status) {
-      whereClause.status = status;
-    }
-
-    // Get payments with pagination
-    const [payments, totalCount] = await Promise.all([
-      prisma.payment.findMany({
-        where: whereClause,
-        include: {
-          appointment: {
-            include: {
-              patient: {
-                select: {
-                  id: true,
-                  name: true,
-                  email: true
-                }
-              },
-              doctor: {
-                select: {
-                  id: true,
-                  consultationFee: true,
-                  user: {
-                    select: {
-                      name: true
-                    }
-                  }
-                }
-              }
-            }
-          },
-          paymentDistributions: {
-            where: {
-              doctorId: doctor.id
-            }
-          }
-        },
-        orderBy: {
-          createdAt: 'desc'
-        },
-        skip: (page - 1) * limit,
-        take: limit
+    const [report, fiscalProfile] = await Promise.all([
+      getDoctorPayoutReport(doctor.id, {
+        from: dateFilter.gte,
+        to: dateFilter.lte
       }),
-      prisma.payment.count({
-        where: whereClause
-      })
+      getFiscalProfile(session.user.id)
     ]);
+    const lines = type ? report.lines.filter(line => line.type === type) : report.lines;
 
-    // Calculate earnings summary
-    const earningsSummary = await prisma.payment.aggregate({
-      where: {
-        appointment: {
-          doctorId: doctor.id
-        },
-        status: 'COMPLETED'
-      },
-      _sum: {
-        amount: true
-      },
-      _count: {
-        id: true
-      }
-    });
-
-    // Get payment distributions summary
-    const distributionsSummary = await prisma.paymentDistribution.aggregate({
+    // Actual length of the consultations the doctor finished
+    const consultationSummary = await prisma.appointment.aggregate({
       where: {
         doctorId: doctor.id,
-        status: 'COMPLETED'
+        status: 'COMPLETED',
+        actualDuration: { not: null },
+        ...((startDate || endDate) && { finishedAt: dateFilter })
+      },
+      _avg: {
+        actualDuration: true
       },
       _sum: {
-        amount: true
+        actualDuration: true
       },
       _count: {
         id: true
       }
     });
 
-    // Get monthly earnings for the last 6 months
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-
-    const monthlyEarnings = await prisma.$queryRaw`
-      SELECT 
-        DATE_TRUNC('month', p."createdAt") as month,
-        SUM(pd.amount) as earnings,
-        COUNT(pd.id) as transactions
-      FROM "PaymentDistribution" pd
-      JOIN "Payment" p ON pd."paymentId" = p.id
-      WHERE pd."doctorId" = ${doctor.id}
-        AND pd.status = 'COMPLETED'
-        AND p."createdAt" >= ${sixMonthsAgo}
-      GROUP BY DATE_TRUNC('month', p."createdAt")
-      ORDER BY month DESC
-    `;
-
-    // Get pending withdrawals
-    const pendingWithdrawals = await prisma.paymentDistribution.findMany({
-      where: {
-        doctorId: doctor.id,
-        status: 'PENDING'
-      },
-      include: {
-        payment: {
-          include: {
-            appointment: {
-              select: {
-                id: true,
-                scheduledAt: true,
-                patient: {
-                  select: {
-                    name: true
-                  }
-                }
-              }
-            }
-          }
-        }
-      },
-      orderBy: {
-        createdAt: 'desc'
-      },
-      take: 10
-    });
-
-    // Calculate total pending amount
-    const pendingAmount = await prisma.paymentDistribution.aggregate({
-      where: {
-        doctorId: doctor.id,
-        status: 'PENDING'
-      },
-      _sum: {
-        amount: true
-      }
-    });
-
     return NextResponse.json({
       success: true,
       data: {
-        payments,
+        lines: lines.slice((page - 1) * limit, page * limit),
         pagination: {
           page,
           limit,
-          total: totalCount,
-          pages: Math.ceil(totalCount / limit)
+          total: lines.length,
+          pages: Math.ceil(lines.length / limit)
         },
         summary: {
-          totalEarnings: earningsSummary._sum.amount || 0,
-          totalTransactions: earningsSummary._count || 0,
-          distributedEarnings: distributionsSummary._sum.amount || 0,
-          distributedTransactions: distributionsSummary._count || 0,
-          pendingAmount: pendingAmount._sum.amount || 0
+          ...report.summary,
+          completedConsultations: consultationSummary._count.id,
+          consultationMinutes: consultationSummary._sum.actualDuration || 0,
+          averageConsultationMinutes: Math.round(consultationSummary._avg.actualDuration || 0)
         },
-        monthlyEarnings,
-        pendingWithdrawals
+        balance: report.balance,
+        monthlyEarnings: report.monthly,
+        settlements: report.settlements,
+        payoutAccount: {
+          clabe: doctor.payoutClabe,
+          accountHolder: doctor.payoutAccountHolder
+        },
+        commissionRate: doctor.commissionRate ?? DEFAULT_COMMISSION_RATE,
+        withholding: {
+          taxRegime: fiscalProfile?.taxRegime ?? null,
+          ivaExempt: doctor.ivaExempt,
+          rule: getWithholdingRule(fiscalProfile)
+        }
       }
     });
   } catch (error) {
@@ -255,205 +151,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-// POST /api/doctor/earnings - Request withdrawal
-export async function POST(request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'No autorizado' },
-        { status: 401 }
-      );
-    }
-
-    if (session.user.role !== 'DOCTOR') {
-      return NextResponse.json(
-        { error: 'Acceso denegado. Solo para doctores.' },
-        { status: 403 }
-      );
-    }
-
-    const body = await request.json();
-    const { amount, paymentMethod, accountDetails } = body;
-
-    if (!amount || amount <= 0) {
-      return NextResponse.json(
-        { error: 'Monto inválido' },
-        { status: 400 }
-      );
-    }
-
-    if (!paymentMethod || !accountDetails) {
-      return NextResponse.json(
-        { error: 'Método de pago y detalles de cuenta son requeridos' },
-        { status: 400 }
-      );
-    }
-
-    // Get doctor
-    const doctor = await prisma.doctor.findUnique({
-      where: {
-        userId: session.user.id
-      }
-    });
-
-    if (!doctor) {
-      return NextResponse.json(
-        { error: 'Perfil de doctor no encontrado' },
-        { status: 404 }
-      );
-    }
-
-    // Check available balance
-    const availableBalance = await prisma.paymentDistribution.aggregate({
-      where: {
-        doctorId: doctor.id,
-        status: 'COMPLETED'
-      },
-      _sum: {
-        amount: true
-      }
-    });
-
-    const withdrawnAmount = await prisma.withdrawal.aggregate({
-      where: {
-        doctorId: doctor.id,
-        status: { in: ['PENDING', 'COMPLETED'] }
-      },
-      _sum: {
-        amount: true
-      }
-    });
-
-    const available = (availableBalance._sum.amount || 0) - (withdrawnAmount._sum.amount || 0);
-
-    if (amount > available) {
-      return NextResponse.json(
-        { error: `Saldo insuficiente. Disponible: $${available.toFixed(2)}` },
-        { status: 400 }
-      );
-    }
-
-    // Create withdrawal request
-    const withdrawal = await prisma.withdrawal.create({
-      data: {
-        doctorId: doctor.id,
-        amount,
-        paymentMethod,
-        accountDetails,
-        status: 'PENDING',
-        requestedAt: new Date()
-      },
-      include: {
-        doctor: {
-          include: {
-            user: {
-              select: {
-                name: true,
-                email: true
-              }
-            }
-          }
-        }
-      }
-    });
-
-    // Log the withdrawal request
-    await prisma.adminLog.create({
-      data: {
-        action: 'WITHDRAWAL_REQUESTED',
-        details: {
-          withdrawalId: withdrawal.id,
-          doctorId: doctor.id,
-          amount,
-          paymentMethod,
-          timestamp: new Date().toISOString()
-        },
-        performedBy: session.user.id
-      }
-    });
-
-    return NextResponse.json({
-      success: true,
-      message: 'Solicitud de retiro creada correctamente',
-      withdrawal
-    });
-  } catch (error) {
-    ErrorLogger.log({
-      error,
-      context: 'Error creating withdrawal request',
-      action: 'POST /api/doctor/earnings',
-      level: 'error',
-      userId: session?.user?.id
-    });
-    return NextResponse.json(
-      { error: 'Error interno del servidor' },
-      { status: 500 }
-    );
-  }
-}
-
-// GET /api/doctor/earnings/withdrawals - Get withdrawal history
-export async function PATCH(_request: NextRequest) {
-  try {
-    const session = await getServerSession(authOptions);
-    
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'No autorizado' },
-        { status: 401 }
-      );
-    }
-
-    if (session.user.role !== 'DOCTOR') {
-      return NextResponse.json(
-        { error: 'Acceso denegado. Solo para doctores.' },
-        { status: 403 }
-      );
-    }
-
-    // Get doctor
-    const doctor = await prisma.doctor.findUnique({
-      where: {
-        userId: session.user.id
-      }
-    });
-
-    if (!doctor) {
-      return NextResponse.json(
-        { error: 'Perfil de doctor no encontrado' },
-        { status: 404 }
-      );
-    }
-
-    // Get withdrawal history
-    const withdrawals = await prisma.withdrawal.findMany({
-      where: {
-        doctorId: doctor.id
-      },
-      orderBy: {
-        requestedAt: 'desc'
-      },
-      take: 50
-    });
-
-    return NextResponse.json({
-      success: true,
-      withdrawals
-    });
-  } catch (error) {
-    ErrorLogger.log({
-      error,
-      context: 'Error fetching withdrawal history',
-      action: 'PATCH /api/doctor/earnings',
-      level: 'error',
-      userId: session?.user?.id
-    });
-    return NextResponse.json(
-      { error: 'Error interno del servidor' },
-      { status: 500 }
-    );
-  }
-}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from "@/lib/db";
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import {
+  getStatementFileName,
+  getWithholdingStatement,
+  renderWithholdingStatementPdf,
+  statementMonthSchema
+} from '@/lib/tax-withholding';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/doctor/earnings/withholding-statement?month=yyyy-MM - Monthly
+// statement of the ISR and IVA withheld from the doctor's settlements
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { error: 'No autorizado' },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'DOCTOR') {
+      return NextResponse.json(
+        { error: 'Acceso denegado. Solo para doctores.' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const month = statementMonthSchema.parse(searchParams.get('month'));
+
+    const doctor = await prisma.doctor.findUnique({
+      where: {
+        userId: session.user.id
+      },
+      select: { id: true }
+    });
+
+    if (!doctor) {
+      return NextResponse.json(
+        { error: 'Perfil de doctor no encontrado' },
+        { status: 404 }
+      );
+    }
+
+    const statement = await getWithholdingStatement(doctor.id, month);
+
+    return new NextResponse(renderWithholdingStatementPdf(statement), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${getStatementFileName(statement)}.pdf"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Parámetros inválidos',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error exporting withholding statement',
+      action: 'GET /api/doctor/earnings/withholding-statement',
+      level: 'error',
+      userId: session?.user?.id
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from "@/lib/db";
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import { installmentSettingsSchema } from '@/lib/payments/installments';
+
+async function getDoctorForSession() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'No autorizado' }, { status: 401 }) };
+  }
+
+  if (session.user.role !== 'DOCTOR') {
+    return {
+      error: NextResponse.json(
+        { error: 'Acceso denegado. Solo para doctores.' },
+        { status: 403 }
+      )
+    };
+  }
+
+  const doctor = await prisma.doctor.findUnique({
+    where: {
+      userId: session.user.id
+    }
+  });
+
+  if (!doctor) {
+    return {
+      error: NextResponse.json(
+        { error: 'Perfil de doctor no encontrado' },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { doctor, userId: session.user.id };
+}
+
+// GET /api/doctor/installments - Get the doctor's meses sin intereses settings
+export async function GET(_request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    return NextResponse.json({
+      success: true,
+      settings: {
+        installmentMinAmount: result.doctor.installmentMinAmount
+      }
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: 'Error fetching installment settings',
+      action: 'GET /api/doctor/installments',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/doctor/installments - Offer meses sin intereses from a minimum
+// price, or stop offering them with a null minimum
+export async function PUT(request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    const body = await request.json();
+    const validatedData = installmentSettingsSchema.parse(body);
+
+    const doctor = await prisma.doctor.update({
+      where: { id: result.doctor.id },
+      data: validatedData,
+      select: { installmentMinAmount: true }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: doctor.installmentMinAmount === null
+        ? 'Meses sin intereses desactivados'
+        : 'Meses sin intereses guardados correctamente',
+      settings: doctor
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Datos inválidos',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error saving installment settings',
+      action: 'PUT /api/doctor/installments',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from "@/lib/db";
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import {
+  DEFAULT_NO_SHOW_POLICY,
+  getNoShowPolicy,
+  noShowPolicySchema
+} from '@/lib/no-shows';
+
+async function getDoctorForSession() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'No autorizado' }, { status: 401 }) };
+  }
+
+  if (session.user.role !== 'DOCTOR') {
+    return {
+      error: NextResponse.json(
+        { error: 'Acceso denegado. Solo para doctores.' },
+        { status: 403 }
+      )
+    };
+  }
+
+  const doctor = await prisma.doctor.findUnique({
+    where: {
+      userId: session.user.id
+    }
+  });
+
+  if (!doctor) {
+    return {
+      error: NextResponse.json(
+        { error: 'Perfil de doctor no encontrado' },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { doctor, userId: session.user.id };
+}
+
+// GET /api/doctor/no-show-policy - Get the doctor's no-show policy
+export async function GET(_request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    const policy = await getNoShowPolicy(result.doctor.id);
+
+    return NextResponse.json({
+      success: true,
+      policy,
+      defaultPolicy: DEFAULT_NO_SHOW_POLICY
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: 'Error fetching no-show policy',
+      action: 'GET /api/doctor/no-show-policy',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/doctor/no-show-policy - Create or replace the no-show policy
+export async function PUT(request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    const body = await request.json();
+    const validatedData = noShowPolicySchema.parse(body);
+
+    const policy = await prisma.noShowPolicy.upsert({
+      where: { doctorId: result.doctor.id },
+      update: validatedData,
+      create: {
+        ...validatedData,
+        doctorId: result.doctor.id
+      }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Política de inasistencias guardada correctamente',
+      policy
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Datos inválidos',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error saving no-show policy',
+      action: 'PUT /api/doctor/no-show-policy',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from "@/lib/db";
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import { DEFAULT_COMMISSION_RATE, payoutAccountSchema } from '@/lib/payout-ledger';
+
+async function getDoctorForSession() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'No autorizado' }, { status: 401 }) };
+  }
+
+  if (session.user.role !== 'DOCTOR') {
+    return {
+      error: NextResponse.json(
+        { error: 'Acceso denegado. Solo para doctores.' },
+        { status: 403 }
+      )
+    };
+  }
+
+  const doctor = await prisma.doctor.findUnique({
+    where: {
+      userId: session.user.id
+    }
+  });
+
+  if (!doctor) {
+    return {
+      error: NextResponse.json(
+        { error: 'Perfil de doctor no encontrado' },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { doctor, userId: session.user.id };
+}
+
+// GET /api/doctor/payout-account - Get the CLABE the weekly settlements are
+// sent to
+export async function GET(_request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    return NextResponse.json({
+      success: true,
+      account: {
+        clabe: result.doctor.payoutClabe,
+        accountHolder: result.doctor.payoutAccountHolder
+      },
+      commissionRate: result.doctor.commissionRate ?? DEFAULT_COMMISSION_RATE
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: 'Error fetching payout account',
+      action: 'GET /api/doctor/payout-account',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/doctor/payout-account - Set the CLABE for the next settlements
+export async function PUT(request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    const body = await request.json();
+    const { clabe, accountHolder } = payoutAccountSchema.parse(body);
+
+    const doctor = await prisma.doctor.update({
+      where: { id: result.doctor.id },
+      data: { payoutClabe: clabe, payoutAccountHolder: accountHolder },
+      select: { payoutClabe: true, payoutAccountHolder: true }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Cuenta de depósito guardada correctamente',
+      account: {
+        clabe: doctor.payoutClabe,
+        accountHolder: doctor.payoutAccountHolder
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Datos inválidos',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error saving payout account',
+      action: 'PUT /api/doctor/payout-account',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { prisma } from "@/lib/db";
+import { z } from 'zod';
+import { ErrorLogger } from '@/lib/error-logger';
+import { getFiscalProfile, saveFiscalProfile } from '@/lib/invoices';
+import { TAX_REGIMES } from '@/lib/invoicing/cfdi-xml';
+import { getWithholdingRule, taxSettingsSchema } from '@/lib/tax-withholding';
+
+async function getDoctorForSession() {
+  const session = await getServerSession(authOptions);
+
+  if (!session?.user?.id) {
+    return { error: NextResponse.json({ error: 'No autorizado' }, { status: 401 }) };
+  }
+
+  if (session.user.role !== 'DOCTOR') {
+    return {
+      error: NextResponse.json(
+        { error: 'Acceso denegado. Solo para doctores.' },
+        { status: 403 }
+      )
+    };
+  }
+
+  const doctor = await prisma.doctor.findUnique({
+    where: {
+      userId: session.user.id
+    }
+  });
+
+  if (!doctor) {
+    return {
+      error: NextResponse.json(
+        { error: 'Perfil de doctor no encontrado' },
+        { status: 404 }
+      )
+    };
+  }
+
+  return { doctor, userId: session.user.id };
+}
+
+// GET /api/doctor/tax-settings - Fiscal regime and the withholdings taken
+// from the doctor's settlements
+export async function GET(_request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    const profile = await getFiscalProfile(result.userId);
+
+    return NextResponse.json({
+      success: true,
+      profile,
+      ivaExempt: result.doctor.ivaExempt,
+      withholding: getWithholdingRule(profile),
+      taxRegimes: TAX_REGIMES
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: 'Error fetching tax settings',
+      action: 'GET /api/doctor/tax-settings',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/doctor/tax-settings - Save the fiscal data the next settlements
+// are withheld with
+export async function PUT(request: NextRequest) {
+  try {
+    const result = await getDoctorForSession();
+    if (result.error) return result.error;
+
+    const body = await request.json();
+    const { profile: input, ivaExempt } = taxSettingsSchema.parse(body);
+
+    const profile = await saveFiscalProfile(result.userId, input);
+    await prisma.doctor.update({
+      where: { id: result.doctor.id },
+      data: { ivaExempt }
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Datos fiscales guardados correctamente',
+      profile,
+      ivaExempt,
+      withholding: getWithholdingRule(profile)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Datos inválidos',
+          details: error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error saving tax settings',
+      action: 'PUT /api/doctor/tax-settings',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,18 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { addDays, format, parseISO } from 'date-fns';
+import { ConsultationType } from '@prisma/client';
+import { getAvailabilityWindows, getConsultationDuration, timeToMinutes } from '@/lib/doctor-availability';
+import { getBlockingSlotHolds } from '@/lib/slot-holds';
+import { SCHEDULED_APPOINTMENT_STATUSES } from '@/lib/appointment-lifecycle';
+import {
+  addCalendarDays,
+  formatUtcOffset,
+  getTimeZoneOffset,
+  parseCalendarDay,
+  startOfZonedDay,
+  zonedTimeToUtc
+} from '@/lib/timezones';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,7 +23,7 @@ export async function GET(
   try {
     const { searchParams } = new URL(request.url);
     const dateStr = searchParams.get('date');
-    const consultationType = searchParams.get('type') || 'IN_PERSON';
+    const consultationType = (searchParams.get('type') || 'IN_PERSON') as ConsultationType;
 
     if (!dateStr) {
       return NextResponse.json(
@@ -21,17 +32,34 @@ export async function GET(
       );
     }
 
-    const requestedDate = parseISO(dateStr);
-    
+    // Día calendario (yyyy-MM-dd) en la zona horaria del doctor
+    const requestedDay = parseCalendarDay(dateStr);
+
+    if (!requestedDay) {
+      return NextResponse.json(
+        { error: 'Fecha inválida' },
+        { status: 400 }
+      );
+    }
+
+    const nextDay = addCalendarDays(requestedDay, 1);
+
     // Obtener doctor
     const doctor = await prisma.doctor.findUnique({
       where: { id: params.id },
       include: {
+        user: { select: { timezone: true } },
+        availability: {
+          where: {
+            isActive: true,
+            dayOfWeek: requestedDay.getUTCDay()
+          }
+        },
         blockedDays: {
           where: {
             date: {
-              gte: new Date(requestedDate.getFullYear(), requestedDate.getMonth(), requestedDate.getDate()),
-              lt: addDays(requestedDate, 1)
+              gte: requestedDay,
+              lt: nextDay
             }
           }
         }
@@ -45,6 +73,8 @@ export async function GET(
       );
     }
 
+    const timeZone = doctor.user.timezone;
+
     // Verificar si acepta este tipo de consulta
     const acceptsType = 
       (consultationType === 'IN_PERSON' && doctor.acceptsInPerson) ||
@@ -55,7 +85,8 @@ export async function GET(
       return NextResponse.json({
         available: false,
         reason: 'Tipo de consulta no disponible',
-        slots: []
+        slots: [],
+        timeZone
       });
     }
 
@@ -64,7 +95,8 @@ export async function GET(
       return NextResponse.json({
         available: false,
         reason: doctor.blockedDays[0].reason || 'Día no disponible',
-        slots: []
+        slots: [],
+        timeZone
       });
     }
 
@@ -72,8 +104,8 @@ export async function GET(
     const holiday = await prisma.mexicanHoliday.findFirst({
       where: {
         date: {
-          gte: new Date(requestedDate.getFullYear(), requestedDate.getMonth(), requestedDate.getDate()),
-          lt: addDays(requestedDate, 1)
+          gte: requestedDay,
+          lt: nextDay
         }
       }
     });
@@ -82,57 +114,58 @@ export async function GET(
       return NextResponse.json({
         available: false,
         reason: `Día festivo: ${holiday.name}`,
-        slots: []
+        slots: [],
+        timeZone
       });
     }
 
-    // Obtener horarios de trabajo
-    const workingHours = doctor.workingHours as any;
-    const dayOfWeek = format(requestedDate, 'EEEE').toLowerCase();
-    const daySchedule = workingHours?.[dayOfWeek];
+    // Obtener horarios de trabajo vigentes para la fecha y tipo de consulta
+    const daySchedule = getAvailabilityWindows(doctor.availability, requestedDay, consultationType);
 
     if (!daySchedule || daySchedule.length === 0) {
       return NextResponse.json({
         available: false,
         reason: 'Día no laborable',
-        slots: []
+        slots: [],
+        timeZone
       });
     }
 
+    // Límites del día en la zona del doctor, como instantes UTC
+    const dayStart = startOfZonedDay(requestedDay, timeZone);
+    const dayEnd = startOfZonedDay(nextDay, timeZone);
+
     // Obtener citas existentes para ese día
     const existingAppointments = await prisma.appointment.findMany({
       where: {
         doctorId: params.id,
         scheduledAt: {
-          gte: new Date(requestedDate.getFullYear(), requestedDate.getMonth(), requestedDate.getDate()),
-          lt: addDays(requestedDate, 1)
+          gte: dayStart,
+          lt: dayEnd
         },
         status: {
-          in: ['PENDING', 'CONFIRMED']
+          in: SCHEDULED_APPOINTMENT_STATUSES
         }
       }
     });
 
+    // Horarios apartados por otros pacientes mientras reservan o pagan
+    const heldSlots = await getBlockingSlotHolds(params.id, dayStart, dayEnd);
+
     // Generar slots disponibles
-    const duration = 
-      consultationType === 'IN_PERSON' ? doctor.durationInPerson :
-      consultationType === 'VIRTUAL' ? doctor.durationVirtual :
-      doctor.durationHomeVisit;
+    const duration = getConsultationDuration(doctor, consultationType);
 
     const slots = [];
     
     for (const schedule of daySchedule) {
-      const startTime = parseTime(schedule.from);
-      const endTime = parseTime(schedule.to);
+      const startTime = timeToMinutes(schedule.from);
+      const endTime = timeToMinutes(schedule.to);
       
       let currentTime = startTime;
       
       while (currentTime + duration <= endTime) {
-        const slotStart = new Date(requestedDate);
-        slotStart.setHours(Math.floor(currentTime / 60), currentTime % 60, 0, 0);
-        
-        const slotEnd = new Date(slotStart);
-        slotEnd.setMinutes(slotEnd.getMinutes() + duration);
+        const slotStart = zonedTimeToUtc(requestedDay, currentTime, timeZone);
+        const slotEnd = new Date(slotStart.getTime() + duration * 60 * 1000);
 
         // Verificar si el slot está ocupado
         const isOccupied = existingAppointments.some(appointment => {
@@ -145,12 +178,13 @@ export async function GET(
             (slotEnd > appointmentStart && slotEnd <= appointmentEnd) ||
             (slotStart <= appointmentStart && slotEnd >= appointmentEnd)
           );
-        });
+        }) || heldSlots.some(hold => slotStart < hold.endsAt && slotEnd > hold.startsAt);
 
         if (!isOccupied && slotStart > new Date()) {
           slots.push({
             start: slotStart.toISOString(),
             end: slotEnd.toISOString(),
+            offset: formatUtcOffset(getTimeZoneOffset(slotStart, timeZone)),
             available: true
           });
         }
@@ -161,7 +195,13 @@ export async function GET(
 
     return NextResponse.json({
       available: slots.length > 0,
+      // Día laborable sin horarios libres: el paciente puede unirse a la lista de espera
+      ...(slots.length === 0 && {
+        reason: 'Agenda llena',
+        waitlistAvailable: dayEnd > new Date()
+      }),
       slots,
+      timeZone,
       price: 
         consultationType === 'IN_PERSON' ? doctor.priceInPerson :
         consultationType === 'VIRTUAL' ? doctor.priceVirtual :
@@ -176,8 +216,3 @@ export async function GET(
     );
   }
 }
-
-function parseTime(timeStr: string): number {
-  const [hours, minutes] = timeStr.split(':').map(Number);
-  return hours * 60 + minutes;
-}
@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { ErrorLogger } from '@/lib/error-logger';
+import { availabilityToWorkingHours } from '@/lib/doctor-availability';
 
 export const dynamic = 'force-dynamic';
 
@@ -40,6 +41,11 @@ export async function GET(
               gte: new Date()
             }
           }
+        },
+        availability: {
+          where: {
+            isActive: true
+          }
         }
       }
     });
@@ -79,7 +85,7 @@ export async function GET(
       durationInPerson: doctor.durationInPerson,
       durationVirtual: doctor.durationVirtual,
       durationHomeVisit: doctor.durationHomeVisit,
-      workingHours: doctor.workingHours,
+      workingHours: availabilityToWorkingHours(doctor.availability),
       videoCallLink: doctor.videoCallLink,
       reviews: doctor.reviews.map(review => ({
         id: review.id,
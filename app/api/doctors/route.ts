@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { ErrorLogger } from '@/lib/error-logger';
+import { availabilityToWorkingHours } from '@/lib/doctor-availability';
 
 export const dynamic = 'force-dynamic';
 
@@ -23,8 +24,8 @@ export async function GET(request: NextRequest) {
       isAvailable: boolean;
       user: { isActive: boolean };
       OR?: Array<{
-        user?: { name?: { contains: string; mode: string } };
-        specialty?: { contains: string; mode: string };
+        user?: { name?: { contains: string; mode: 'insensitive' } };
+        specialty?: { contains: string; mode: 'insensitive' };
       }>;
       specialty?: string;
       state?: string;
@@ -95,6 +96,11 @@ export async function GET(request: NextRequest) {
               email: true,
               phone: true
             }
+          },
+          availability: {
+            where: {
+              isActive: true
+            }
           }
         },
         orderBy: [
@@ -132,7 +138,7 @@ export async function GET(request: NextRequest) {
       durationInPerson: doctor.durationInPerson,
       durationVirtual: doctor.durationVirtual,
       durationHomeVisit: doctor.durationHomeVisit,
-      workingHours: doctor.workingHours
+      workingHours: availabilityToWorkingHours(doctor.availability)
     }));
 
     return NextResponse.json({
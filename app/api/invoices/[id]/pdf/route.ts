@@ -0,0 +1,66 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { getInvoiceFileName, renderInvoicePdf } from "@/lib/invoices";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/invoices/[id]/pdf - Printed representation of a stamped invoice
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const invoice = await prisma.invoice.findUnique({
+      where: { id: params.id },
+      include: { doctor: { select: { userId: true } } },
+    });
+
+    if (!invoice?.xml || invoice.status !== "STAMPED") {
+      return NextResponse.json(
+        { error: "Factura no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      invoice.userId !== session.user.id &&
+      invoice.doctor?.userId !== session.user.id &&
+      session.user.role !== "ADMIN"
+    ) {
+      return NextResponse.json(
+        { error: "No autorizado para ver esta factura" },
+        { status: 403 }
+      );
+    }
+
+    return new NextResponse(renderInvoicePdf(invoice), {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${getInvoiceFileName(invoice)}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error downloading invoice PDF",
+      action: "GET /api/invoices/[id]/pdf",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import { CFDI_USES, TAX_REGIMES } from "@/lib/invoicing/cfdi-xml";
+import {
+  fiscalProfileSchema,
+  getFiscalProfile,
+  saveFiscalProfile,
+} from "@/lib/invoices";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/invoices/fiscal-profile - The user's fiscal data, with the
+// catalogs to fill it in
+export async function GET(_request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const profile = await getFiscalProfile(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: { profile, taxRegimes: TAX_REGIMES, cfdiUses: CFDI_USES },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching fiscal profile",
+      action: "GET /api/invoices/fiscal-profile",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/invoices/fiscal-profile - Save the user's fiscal data
+export async function PUT(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = fiscalProfileSchema.parse(body);
+
+    const profile = await saveFiscalProfile(session.user.id, validatedData);
+
+    return NextResponse.json({
+      success: true,
+      data: { profile },
+      message: "Datos fiscales guardados",
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error saving fiscal profile",
+      action: "PUT /api/invoices/fiscal-profile",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { sendAppointmentReminders } from "@/lib/appointment-reminders";
+import { processNotificationRetries } from "@/lib/notifications/delivery";
+import { processNotificationDigests } from "@/lib/notifications/digest";
+import { detectNoShows } from "@/lib/no-shows";
+import { NextRequest, NextResponse } from "next/server";
+
+export const dynamic = "force-dynamic";
+
+type JobOutcome<T> = { success: true; result: T } | { success: false; error: string };
+
+// A failing job is reported without keeping the other jobs from running
+async function runJob<T>(name: string, job: () => Promise<T>): Promise<JobOutcome<T>> {
+  try {
+    return { success: true, result: await job() };
+  } catch (error) {
+    console.error(`Notification dispatch job "${name}" failed:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+// POST /api/notifications/dispatch - Cron job sending due appointment
+// reminders and notification digests, retrying failed deliveries whose
+// backoff has elapsed and marking missed appointments as no-shows
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request is from a trusted source (cron job)
+    const authHeader = request.headers.get("authorization");
+    const expectedToken = process.env.CRON_SECRET;
+
+    // Without a secret nobody can be trusted to trigger the job
+    if (!expectedToken) {
+      console.error("CRON_SECRET is not configured");
+      return NextResponse.json(
+        { error: "Cron secret not configured" },
+        { status: 500 }
+      );
+    }
+
+    if (authHeader !== `Bearer ${expectedToken}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // 24h and 1h reminders of confirmed appointments
+    const reminders = await runJob("reminders", () => sendAppointmentReminders());
+
+    // Hourly and daily summaries of batched notifications
+    const digests = await runJob("digests", () => processNotificationDigests());
+
+    const retries = await runJob("retries", () => processNotificationRetries());
+
+    // Appointments nobody attended once the doctor's grace period is over
+    const noShows = await runJob("noShows", () => detectNoShows());
+
+    const results = { reminders, digests, retries, noShows };
+
+    return NextResponse.json({
+      success: Object.values(results).every((outcome) => outcome.success),
+      timestamp: new Date().toISOString(),
+      results,
+    });
+  } catch (error) {
+    console.error("Notification dispatch error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
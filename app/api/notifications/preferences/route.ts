@@ -1,7 +1,14 @@
 import { prisma } from "@/lib/db";
+import {
+  DEFAULT_NOTIFICATION_LOCALE,
+  isNotificationLocale,
+} from "@/lib/notifications/templates";
+import { NotificationDigestMode } from "@prisma/client";
 import { getServerSession } from "next-auth";
 import { NextRequest, NextResponse } from "next/server";
 
+const DIGEST_MODES = Object.values(NotificationDigestMode);
+
 export async function GET() {
   try {
     const session = await getServerSession();
@@ -9,6 +16,13 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // El idioma de las notificaciones se guarda en el usuario
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { locale: true },
+    });
+    const language = user?.locale ?? DEFAULT_NOTIFICATION_LOCALE;
+
     // Try to get existing preferences
     const existingPreferences = await prisma.notificationPreferences.findUnique(
       {
@@ -31,6 +45,8 @@ export async function GET() {
           startTime: existingPreferences.quietHoursStart || "22:00",
           endTime: existingPreferences.quietHoursEnd || "08:00",
         },
+        digestMode: existingPreferences.digestMode,
+        language,
       });
     }
 
@@ -49,6 +65,8 @@ export async function GET() {
         startTime: "22:00",
         endTime: "08:00",
       },
+      digestMode: "IMMEDIATE",
+      language,
     };
 
     return NextResponse.json(defaultPreferences);
@@ -81,8 +99,18 @@ export async function PUT(request: NextRequest) {
       systemUpdates,
       marketingEmails,
       quietHours,
+      digestMode,
+      language,
     } = preferences;
 
+    if (digestMode !== undefined && !DIGEST_MODES.includes(digestMode)) {
+      return NextResponse.json({ error: "Invalid digest mode" }, { status: 400 });
+    }
+
+    if (language !== undefined && !isNotificationLocale(language)) {
+      return NextResponse.json({ error: "Invalid language" }, { status: 400 });
+    }
+
     // Upsert preferences
     const updatedPreferences = await prisma.notificationPreferences.upsert({
       where: { userId: session.user.id },
@@ -98,6 +126,7 @@ export async function PUT(request: NextRequest) {
         quietHoursEnabled: quietHours?.enabled ?? false,
         quietHoursStart: quietHours?.startTime ?? "22:00",
         quietHoursEnd: quietHours?.endTime ?? "08:00",
+        digestMode: digestMode ?? "IMMEDIATE",
         updatedAt: new Date(),
       },
       create: {
@@ -113,9 +142,21 @@ export async function PUT(request: NextRequest) {
         quietHoursEnabled: quietHours?.enabled ?? false,
         quietHoursStart: quietHours?.startTime ?? "22:00",
         quietHoursEnd: quietHours?.endTime ?? "08:00",
+        digestMode: digestMode ?? "IMMEDIATE",
       },
     });
 
+    const user = language
+      ? await prisma.user.update({
+          where: { id: session.user.id },
+          data: { locale: language },
+          select: { locale: true },
+        })
+      : await prisma.user.findUnique({
+          where: { id: session.user.id },
+          select: { locale: true },
+        });
+
     return NextResponse.json({
       success: true,
       preferences: {
@@ -132,6 +173,8 @@ export async function PUT(request: NextRequest) {
           startTime: updatedPreferences.quietHoursStart,
           endTime: updatedPreferences.quietHoursEnd,
         },
+        digestMode: updatedPreferences.digestMode,
+        language: user?.locale ?? DEFAULT_NOTIFICATION_LOCALE,
       },
     });
   } catch (error) {
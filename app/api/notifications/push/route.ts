@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { ErrorLogger } from '@/lib/error-logger';
+import { getVapidConfig } from '@/lib/notifications/vapid';
+
+export const dynamic = 'force-dynamic';
+
+// PushSubscription.toJSON() del navegador
+const subscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1)
+  })
+});
+
+const unsubscribeSchema = z.object({
+  endpoint: z.string().url()
+});
+
+// GET /api/notifications/push - VAPID public key the browser subscribes with
+export async function GET() {
+  const config = getVapidConfig();
+
+  return NextResponse.json({
+    enabled: !!config,
+    publicKey: config?.publicKey ?? null
+  });
+}
+
+// POST /api/notifications/push - Register the push subscription of a browser
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { endpoint, keys } = subscriptionSchema.parse(body);
+    const userAgent = request.headers.get('user-agent');
+
+    // Un mismo navegador puede volver a suscribirse con otra sesión
+    await prisma.pushSubscription.upsert({
+      where: { endpoint },
+      create: {
+        userId: session.user.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent
+      },
+      update: {
+        userId: session.user.id,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        userAgent
+      }
+    });
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Datos inválidos', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error registering push subscription',
+      action: 'POST /api/notifications/push',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/notifications/push - Remove the push subscription of a browser
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'No autorizado' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { endpoint } = unsubscribeSchema.parse(body);
+
+    await prisma.pushSubscription.deleteMany({
+      where: { endpoint, userId: session.user.id }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Datos inválidos', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: 'Error removing push subscription',
+      action: 'DELETE /api/notifications/push',
+      level: 'error'
+    });
+    return NextResponse.json(
+      { error: 'Error interno del servidor' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,10 @@ import { prisma } from "@/lib/db";
 import { getServerSession } from "next-auth";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
+import {
+  createBulkNotifications,
+  createNotification,
+} from "@/lib/notification-utils";
 
 const createNotificationSchema = z.object({
   userId: z.string().cuid("Invalid user ID format"),
@@ -74,15 +78,12 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      // Create notifications for all users
-      const notifications = await prisma.notification.createMany({
-        data: userIds.map((userId) => ({
-          userId,
-          type,
-          title,
-          message,
-          sentAt: new Date(),
-        })),
+      // Create and deliver notifications for all users
+      const notifications = await createBulkNotifications({
+        userIds,
+        type,
+        title,
+        message,
       });
 
       return NextResponse.json({
@@ -113,23 +114,11 @@ export async function POST(request: NextRequest) {
         return NextResponse.json({ error: "User not found" }, { status: 404 });
       }
 
-      const notification = await prisma.notification.create({
-        data: {
-          userId,
-          type,
-          title,
-          message,
-          sentAt: new Date(),
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
-            },
-          },
-        },
+      const notification = await createNotification({
+        userId,
+        type,
+        title,
+        message,
       });
 
       return NextResponse.json(notification);
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { WhatsAppWebhookValidator } from "@/lib/notifications/security/WhatsAppWebhookValidator";
+import { extractInboundMessages, handleWhatsAppReply } from "@/lib/whatsapp-replies";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/notifications/whatsapp/webhook - Subscription handshake of the
+// WhatsApp Business webhook
+export async function GET(request: NextRequest) {
+  const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+  if (!verifyToken) {
+    return NextResponse.json({ error: "Webhook no configurado" }, { status: 503 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const challenge = WhatsAppWebhookValidator.verifySubscription(
+    searchParams.get("hub.mode"),
+    searchParams.get("hub.verify_token"),
+    searchParams.get("hub.challenge"),
+    verifyToken
+  );
+
+  if (!challenge) {
+    return NextResponse.json({ error: "Token de verificación inválido" }, { status: 403 });
+  }
+
+  return new NextResponse(challenge, { status: 200 });
+}
+
+// POST /api/notifications/whatsapp/webhook - Patients' replies to the
+// appointment reminders (1 confirmar / 2 cancelar / 3 reprogramar)
+export async function POST(request: NextRequest) {
+  const appSecret = process.env.WHATSAPP_APP_SECRET;
+  if (!appSecret) {
+    return NextResponse.json({ error: "Webhook no configurado" }, { status: 503 });
+  }
+
+  try {
+    const body = await request.text();
+    const validation = WhatsAppWebhookValidator.validateWebhook(
+      body,
+      request.headers.get("x-hub-signature-256"),
+      appSecret
+    );
+
+    if (!validation.isValid) {
+      console.error("Invalid WhatsApp webhook signature:", validation.error);
+      return NextResponse.json({ error: "Firma inválida" }, { status: 401 });
+    }
+
+    let webhookData;
+    try {
+      webhookData = JSON.parse(body);
+    } catch (error) {
+      console.error("Invalid JSON in WhatsApp webhook:", error);
+      return NextResponse.json({ error: "Invalid JSON payload" }, { status: 400 });
+    }
+
+    const structure = WhatsAppWebhookValidator.validatePayloadStructure(webhookData);
+    if (!structure.isValid) {
+      return NextResponse.json({ error: structure.error }, { status: 400 });
+    }
+
+    // Delivery status updates carry no messages and are acknowledged as is
+    const results = [];
+    for (const message of extractInboundMessages(webhookData)) {
+      try {
+        const result = await handleWhatsAppReply(message);
+        if (result) results.push({ messageId: message.id, ...result });
+      } catch (error) {
+        // WhatsApp reintenta los webhooks fallidos; el mensaje ya quedó
+        // registrado, así que se confirma la recepción de todos modos
+        ErrorLogger.log({
+          error,
+          context: `Error handling WhatsApp reply ${message.id}`,
+          action: "POST /api/notifications/whatsapp/webhook",
+          level: "error",
+        });
+      }
+    }
+
+    return NextResponse.json({ success: true, processed: results.length, results });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error processing WhatsApp webhook",
+      action: "POST /api/notifications/whatsapp/webhook",
+      level: "error",
+    });
+    return NextResponse.json({ error: "Error interno del servidor" }, { status: 500 });
+  }
+}
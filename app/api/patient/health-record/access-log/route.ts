@@ -0,0 +1,46 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { getHealthRecordAccessLog } from "@/lib/health-records";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/patient/health-record/access-log - Who viewed or changed the
+// patient's health record, newest first
+export async function GET(_request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const entries = await getHealthRecordAccessLog(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: entries.map((entry) => ({
+        id: entry.id,
+        action: entry.action,
+        actorName: entry.actor.name,
+        actorRole: entry.actorRole,
+        sections: Object.keys((entry.changes as object | null) ?? {}),
+        createdAt: entry.createdAt,
+      })),
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching health record access log",
+      action: "GET /api/patient/health-record/access-log",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  getHealthRecord,
+  healthRecordSchema,
+  updateHealthRecord,
+} from "@/lib/health-records";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/patient/health-record - The patient's own health record
+export async function GET(_request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const record = await getHealthRecord(session.user.id);
+
+    return NextResponse.json({ success: true, data: record });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching health record",
+      action: "GET /api/patient/health-record",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/patient/health-record - Replace the patient's health record; the
+// changed sections go to the audit trail
+export async function PUT(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = healthRecordSchema.parse(body);
+
+    const record = await updateHealthRecord(session.user.id, validatedData, {
+      id: session.user.id,
+      role: session.user.role,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: record,
+      message: "Expediente actualizado",
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error updating health record",
+      action: "PUT /api/patient/health-record",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import { getInstallmentPlans } from "@/lib/payments/installments";
+
+export const dynamic = "force-dynamic";
+
+const installmentQuerySchema = z.object({
+  provider: z.enum(["stripe", "paypal", "mercadopago"]),
+  doctorId: z.string().min(1),
+  amount: z.coerce.number().int().positive(),
+});
+
+// GET /api/payments/installments - Installment plans a provider offers for a
+// consultation with a doctor
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const { provider, doctorId, amount } = installmentQuerySchema.parse(
+      Object.fromEntries(searchParams.entries())
+    );
+
+    const doctor = await prisma.doctor.findUnique({
+      where: { id: doctorId },
+      select: { installmentMinAmount: true },
+    });
+
+    if (!doctor) {
+      return NextResponse.json({ error: "Doctor no encontrado" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        provider,
+        plans: getInstallmentPlans(provider, amount, doctor.installmentMinAmount),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error fetching installment plans",
+      action: "GET /api/payments/installments",
+      level: "error",
+      userId: session?.user?.id,
+    });
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,12 @@ import { authOptions } from "@/lib/unified-auth";
 import { PaymentService } from "@/lib/payments/PaymentService";
 import { MercadoPagoProvider } from "@/lib/payments/mercadopago/MercadoPagoProvider";
 import { prisma } from "@/lib/db";
+import { getVoucherExpiration } from "@/lib/payment-vouchers";
+import {
+  getInstallmentRecord,
+  InstallmentPlanError,
+  resolveInstallmentPlan,
+} from "@/lib/payments/installments";
 import { getServerSession } from "next-auth";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -21,7 +27,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { appointmentId, returnUrl, cancelUrl } = body;
+    const { appointmentId, installmentMonths } = body;
 
     // Validate required fields
     if (!appointmentId) {
@@ -31,12 +37,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!returnUrl || !cancelUrl) {
-      return NextResponse.json(
-        { error: "Return URL and Cancel URL are required" },
-        { status: 400 }
-      );
-    }
+    const returnUrl = body.returnUrl || `${process.env.NEXTAUTH_URL}/pago/exito`;
+    const cancelUrl =
+      body.cancelUrl ||
+      `${process.env.NEXTAUTH_URL}/pago/cancelado?error=cancelled&appointment_id=${appointmentId}&provider=mercadopago`;
 
     // Get appointment details
     const appointment = await prisma.appointment.findUnique({
@@ -78,6 +82,19 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    const installmentPlan = resolveInstallmentPlan(
+      "mercadopago",
+      appointment.price,
+      appointment.doctor.installmentMinAmount,
+      installmentMonths
+    );
+
+    // OXXO and SPEI are only offered when there's time to pay the voucher
+    // before the appointment, and can't be paid in installments
+    const voucherExpiresAt = installmentPlan
+      ? null
+      : getVoucherExpiration(appointment.scheduledAt);
+
     // Create payment request
     const paymentRequest = {
       appointmentId: appointment.id,
@@ -88,11 +105,15 @@ export async function POST(request: NextRequest) {
       patientName: appointment.patient.name,
       returnUrl,
       cancelUrl,
+      pendingUrl: `${process.env.NEXTAUTH_URL}/pago/pendiente?appointment_id=${appointment.id}`,
+      voucherExpiresAt: voucherExpiresAt ?? undefined,
+      excludeVouchers: !voucherExpiresAt,
       metadata: {
         appointmentId: appointment.id,
         doctorId: appointment.doctorId,
         patientId: appointment.patientId,
         consultationType: appointment.type,
+        installments: installmentPlan,
       },
     };
 
@@ -121,6 +142,11 @@ export async function POST(request: NextRequest) {
         status: "PENDING",
         mercadopagoId: result.paymentId,
         paymentData: result.metadata,
+        ...getInstallmentRecord(
+          "mercadopago",
+          appointment.price,
+          installmentPlan?.months
+        ),
       },
     });
 
@@ -146,6 +172,10 @@ export async function POST(request: NextRequest) {
       metadata: result.metadata,
     });
   } catch (error) {
+    if (error instanceof InstallmentPlanError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error("MercadoPago preference creation error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
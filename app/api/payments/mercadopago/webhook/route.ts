@@ -1,6 +1,16 @@
 import { PaymentService } from "@/lib/payments/PaymentService";
 import { MercadoPagoProvider } from "@/lib/payments/mercadopago/MercadoPagoProvider";
 import { prisma } from "@/lib/db";
+import { refundUnavailableSlot } from "@/lib/appointment-cancellation";
+import { convertSlotHold } from "@/lib/slot-holds";
+import {
+  expireVoucherPayment,
+  isVoucherPaymentMethod,
+  registerPaymentVoucher,
+} from "@/lib/payment-vouchers";
+import { getInstallmentRecord } from "@/lib/payments/installments";
+import { recordPaymentSplit } from "@/lib/payout-ledger";
+import { PaymentMethod } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 
 // Initialize payment service with MercadoPago provider
@@ -114,6 +124,7 @@ async function handlePaymentWebhook(webhookData: any) {
           paymentMethod = "OXXO";
           break;
         case "spei":
+        case "clabe":
           paymentMethod = "SPEI";
           break;
         case "visa":
@@ -121,7 +132,7 @@ async function handlePaymentWebhook(webhookData: any) {
         case "amex":
         case "carnet":
           // Check if it's installments
-          if (paymentStatus.metadata?.paymentTypeId === "credit_card") {
+          if ((paymentStatus.metadata?.installments ?? 1) > 1) {
             paymentMethod = "MERCADOPAGO_INSTALLMENTS";
           } else {
             paymentMethod = "MERCADOPAGO_CARD";
@@ -167,15 +178,21 @@ async function handlePaymentWebhook(webhookData: any) {
 async function handlePaymentCompleted(
   payment: any,
   paymentStatus: any,
-  paymentMethod: string
+  paymentMethod: PaymentMethod
 ) {
   // Update payment status to completed
   const updatedPayment = await prisma.payment.update({
     where: { id: payment.id },
     data: {
       status: "COMPLETED",
-      method: paymentMethod as any,
+      method: paymentMethod,
       paidAt: paymentStatus.paidAt || new Date(),
+      // The patient may have paid in fewer months than chosen at checkout
+      ...getInstallmentRecord(
+        "mercadopago",
+        payment.amount,
+        paymentStatus.metadata?.installments
+      ),
       paymentData: {
         ...(payment.paymentData as any),
         ...paymentStatus.metadata,
@@ -186,6 +203,12 @@ async function handlePaymentCompleted(
     },
   });
 
+  // The slot may have been taken if the payment arrived after the hold expired
+  if (payment.appointment && !(await convertSlotHold(payment.appointment.id))) {
+    await refundUnavailableSlot(payment.id);
+    return;
+  }
+
   // Update appointment status to confirmed
   if (payment.appointment && payment.appointment.status !== "CONFIRMED") {
     await prisma.appointment.update({
@@ -197,42 +220,34 @@ async function handlePaymentCompleted(
     });
   }
 
-  // Create payment distribution if not exists
-  const existingDistribution = await prisma.paymentDistribution.findFirst({
-    where: { paymentId: payment.id },
-  });
-
-  if (!existingDistribution && payment.appointment) {
-    const doctorPercentage = 0.85;
-    const adminPercentage = 0.15;
-    const doctorAmount = Math.round(payment.amount * doctorPercentage);
-    const adminAmount = payment.amount - doctorAmount;
-
-    await prisma.paymentDistribution.create({
-      data: {
-        paymentId: payment.id,
-        doctorId: payment.appointment.doctorId,
-        doctorAmount,
-        adminAmount,
-        doctorPercentage,
-        adminPercentage,
-        status: "PENDING",
-      },
-    });
+  // Split the payment between the doctor and the platform
+  if (payment.appointment) {
+    await recordPaymentSplit(payment.id);
   }
 }
 
 async function handlePaymentPending(
   payment: any,
   paymentStatus: any,
-  paymentMethod: string
+  paymentMethod: PaymentMethod
 ) {
+  // OXXO and SPEI stay pending until the patient pays the voucher
+  const voucher = paymentStatus.metadata?.voucher;
+  if (voucher?.expiresAt && isVoucherPaymentMethod(paymentMethod)) {
+    await registerPaymentVoucher(payment.id, paymentMethod, {
+      reference: voucher.reference,
+      clabe: voucher.clabe,
+      url: voucher.url,
+      expiresAt: new Date(voucher.expiresAt),
+    });
+  }
+
   // Update payment with pending status and method
   await prisma.payment.update({
     where: { id: payment.id },
     data: {
       status: "PENDING",
-      method: paymentMethod as any,
+      method: paymentMethod,
       paymentData: {
         ...(payment.paymentData as any),
         ...paymentStatus.metadata,
@@ -247,14 +262,23 @@ async function handlePaymentPending(
 async function handlePaymentFailed(
   payment: any,
   paymentStatus: any,
-  paymentMethod: string
+  paymentMethod: PaymentMethod
 ) {
+  // MercadoPago cancels vouchers that weren't paid in time
+  if (
+    paymentStatus.metadata?.statusDetail === "expired" &&
+    payment.voucherExpiresAt
+  ) {
+    await expireVoucherPayment(payment.id);
+    return;
+  }
+
   // Update payment status to failed
   await prisma.payment.update({
     where: { id: payment.id },
     data: {
       status: "FAILED",
-      method: paymentMethod as any,
+      method: paymentMethod,
       failureReason: paymentStatus.failureReason || "Payment failed",
       paymentData: {
         ...(payment.paymentData as any),
@@ -270,14 +294,14 @@ async function handlePaymentFailed(
 async function handlePaymentCancelled(
   payment: any,
   paymentStatus: any,
-  paymentMethod: string
+  paymentMethod: PaymentMethod
 ) {
   // Update payment status to failed (cancelled is treated as failed)
   await prisma.payment.update({
     where: { id: payment.id },
     data: {
       status: "FAILED",
-      method: paymentMethod as any,
+      method: paymentMethod,
       failureReason: "Payment cancelled by user",
       paymentData: {
         ...(payment.paymentData as any),
@@ -1,4 +1,8 @@
 import { PaymentMonitoring } from "@/lib/payments/monitoring";
+import { expireUnpaidVouchers } from "@/lib/payment-vouchers";
+import { createWeeklySettlements } from "@/lib/payout-ledger";
+import { releaseExpiredSlotHolds } from "@/lib/slot-holds";
+import { processExpiredWaitlistOffers } from "@/lib/waitlist";
 import { NextRequest, NextResponse } from "next/server";
 
 export const dynamic = "force-dynamic";
@@ -21,6 +25,18 @@ export async function POST(request: NextRequest) {
     // Handle timeout payments
     const timeoutResult = await monitoring.handleTimeoutPayments();
 
+    // Cancel appointments whose OXXO or SPEI voucher expired unpaid
+    const voucherResult = await expireUnpaidVouchers();
+
+    // Release slots whose reservation expired without payment
+    const slotHoldResult = await releaseExpiredSlotHolds();
+
+    // Pass unclaimed waitlist offers on to the next patient
+    const waitlistResult = await processExpiredWaitlistOffers();
+
+    // Settle the doctors' earnings once a week has closed
+    const settlementResult = await createWeeklySettlements();
+
     // Get current stats
     const stats = await monitoring.getPaymentStats(24);
 
@@ -30,6 +46,10 @@ export async function POST(request: NextRequest) {
       results: {
         pendingPayments: updateResult,
         timeoutPayments: timeoutResult,
+        vouchers: voucherResult,
+        slotHolds: slotHoldResult,
+        waitlist: waitlistResult,
+        settlements: settlementResult,
         stats,
       },
     });
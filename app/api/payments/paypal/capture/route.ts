@@ -2,6 +2,7 @@ import { authOptions } from "@/lib/unified-auth";
 import { PaymentService } from "@/lib/payments/PaymentService";
 import { PayPalProvider } from "@/lib/payments/paypal/PayPalProvider";
 import { prisma } from "@/lib/db";
+import { recordPaymentSplit } from "@/lib/payout-ledger";
 import { getServerSession } from "next-auth";
 import { NextRequest, NextResponse } from "next/server";
 
@@ -112,23 +113,8 @@ export async function POST(request: NextRequest) {
         },
       });
 
-      // Create payment distribution record
-      const doctorPercentage = 0.85; // 85% to doctor, 15% to platform
-      const adminPercentage = 0.15;
-      const doctorAmount = Math.round(payment.amount * doctorPercentage);
-      const adminAmount = payment.amount - doctorAmount;
-
-      await prisma.paymentDistribution.create({
-        data: {
-          paymentId: payment.id,
-          doctorId: payment.appointment.doctorId,
-          doctorAmount,
-          adminAmount,
-          doctorPercentage,
-          adminPercentage,
-          status: "PENDING",
-        },
-      });
+      // Split the payment between the doctor and the platform
+      await recordPaymentSplit(payment.id);
     }
 
     return NextResponse.json({
@@ -1,6 +1,9 @@
 import { PaymentService } from "@/lib/payments/PaymentService";
 import { PayPalProvider } from "@/lib/payments/paypal/PayPalProvider";
 import { prisma } from "@/lib/db";
+import { refundUnavailableSlot } from "@/lib/appointment-cancellation";
+import { convertSlotHold } from "@/lib/slot-holds";
+import { recordPaymentSplit } from "@/lib/payout-ledger";
 import { NextRequest, NextResponse } from "next/server";
 
 // Initialize payment service with PayPal provider
@@ -150,6 +153,12 @@ async function handlePaymentCompleted(webhookData: any) {
       },
     });
 
+    // The slot may have been taken if the payment arrived after the hold expired
+    if (payment.appointment && !(await convertSlotHold(payment.appointment.id))) {
+      await refundUnavailableSlot(payment.id);
+      return;
+    }
+
     // Update appointment status to confirmed
     if (payment.appointment && payment.appointment.status !== "CONFIRMED") {
       await prisma.appointment.update({
@@ -161,28 +170,9 @@ async function handlePaymentCompleted(webhookData: any) {
       });
     }
 
-    // Create payment distribution if not exists
-    const existingDistribution = await prisma.paymentDistribution.findFirst({
-      where: { paymentId: payment.id },
-    });
-
-    if (!existingDistribution && payment.appointment) {
-      const doctorPercentage = 0.85;
-      const adminPercentage = 0.15;
-      const doctorAmount = Math.round(payment.amount * doctorPercentage);
-      const adminAmount = payment.amount - doctorAmount;
-
-      await prisma.paymentDistribution.create({
-        data: {
-          paymentId: payment.id,
-          doctorId: payment.appointment.doctorId,
-          doctorAmount,
-          adminAmount,
-          doctorPercentage,
-          adminPercentage,
-          status: "PENDING",
-        },
-      });
+    // Split the payment between the doctor and the platform
+    if (payment.appointment) {
+      await recordPaymentSplit(payment.id);
     }
 
     console.log("PayPal payment completed:", {
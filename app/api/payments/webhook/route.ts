@@ -1,6 +1,9 @@
 import { PaymentService } from "@/lib/payments/PaymentService";
 import { StripeProvider } from "@/lib/payments/stripe/StripeProvider";
 import { prisma } from "@/lib/db";
+import { refundUnavailableSlot } from "@/lib/appointment-cancellation";
+import { convertSlotHold, releaseSlotHold } from "@/lib/slot-holds";
+import { recordPaymentSplit } from "@/lib/payout-ledger";
 import { stripe } from "@/lib/stripe";
 import { headers } from "next/headers";
 import { NextRequest, NextResponse } from "next/server";
@@ -142,6 +145,13 @@ async function handleCheckoutSessionCompleted(
 
     // Update appointment status to confirmed and create payment distribution
     if (payment.appointment) {
+      // The slot may have been taken if the payment arrived after the hold expired
+      const slotSecured = await convertSlotHold(payment.appointment.id);
+      if (!slotSecured) {
+        await refundUnavailableSlot(payment.id);
+        return;
+      }
+
       await prisma.$transaction(async (tx) => {
         // Confirm the appointment
         await tx.appointment.update({
@@ -161,29 +171,8 @@ async function handleCheckoutSessionCompleted(
           },
         });
 
-        // Create payment distribution if not exists
-        const existingDistribution = await tx.paymentDistribution.findFirst({
-          where: { paymentId: payment.id },
-        });
-
-        if (!existingDistribution) {
-          const doctorPercentage = 0.85;
-          const adminPercentage = 0.15;
-          const doctorAmount = Math.round(payment.amount * doctorPercentage);
-          const adminAmount = payment.amount - doctorAmount;
-
-          await tx.paymentDistribution.create({
-            data: {
-              paymentId: payment.id,
-              doctorId: payment.appointment!.doctorId,
-              doctorAmount,
-              adminAmount,
-              doctorPercentage,
-              adminPercentage,
-              status: "PENDING",
-            },
-          });
-        }
+        // Split the payment between the doctor and the platform
+        await recordPaymentSplit(payment.id, tx);
       });
 
       console.log(
@@ -237,6 +226,8 @@ async function handleCheckoutSessionExpired(session: Stripe.Checkout.Session) {
           updatedAt: new Date(),
         },
       });
+
+      await releaseSlotHold(payment.appointment.id, "Sesión de pago expirada");
     }
   } catch (error) {
     console.error("Error handling checkout session expired:", error);
@@ -313,6 +304,8 @@ async function handlePaymentIntentFailed(paymentIntent: Stripe.PaymentIntent) {
             updatedAt: new Date(),
           },
         });
+
+        await releaseSlotHold(payment.appointment.id, "Pago rechazado");
       }
     }
   } catch (error) {
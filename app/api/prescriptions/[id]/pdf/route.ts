@@ -0,0 +1,74 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { downloadPrescriptionPdf } from "@/lib/prescriptions";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/prescriptions/[id]/pdf - Download the PDF of a prescription. This
+// is the URL registered in its medical file.
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const prescription = await prisma.prescription.findUnique({
+      where: { id: params.id },
+      select: {
+        appointmentId: true,
+        patientId: true,
+        verificationCode: true,
+        doctor: { select: { userId: true } },
+      },
+    });
+
+    if (!prescription) {
+      return NextResponse.json(
+        { error: "Receta no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      prescription.doctor.userId !== session.user.id &&
+      prescription.patientId !== session.user.id &&
+      session.user.role !== "ADMIN"
+    ) {
+      return NextResponse.json(
+        { error: "No autorizado para ver esta receta" },
+        { status: 403 }
+      );
+    }
+
+    const pdf = await downloadPrescriptionPdf(prescription);
+
+    return new NextResponse(pdf, {
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="receta-${prescription.verificationCode}.pdf"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error downloading prescription",
+      action: "GET /api/prescriptions/[id]/pdf",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { verifyPrescription } from "@/lib/prescriptions";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/prescriptions/verify/[code] - Public check of a prescription by
+// the verification code printed on it, for pharmacies
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { code: string } }
+) {
+  try {
+    const prescription = await verifyPrescription(params.code);
+
+    if (!prescription) {
+      return NextResponse.json(
+        { valid: false, error: "Receta no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ valid: true, data: prescription });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error verifying prescription",
+      action: "GET /api/prescriptions/verify/[code]",
+      level: "error",
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
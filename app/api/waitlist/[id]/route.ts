@@ -0,0 +1,45 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { leaveWaitlist } from "@/lib/waitlist";
+
+export const dynamic = "force-dynamic";
+
+// DELETE /api/waitlist/[id] - Leave the waitlist
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const left = await leaveWaitlist(params.id, session.user.id);
+
+    if (!left) {
+      return NextResponse.json(
+        { error: "Registro de lista de espera no encontrado" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error leaving waitlist",
+      action: "DELETE /api/waitlist/[id]",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  claimWaitlistOffer,
+  WaitlistOfferUnavailableError,
+} from "@/lib/waitlist";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/waitlist/offers/[token]/claim - Accept a freed slot and keep it held for booking
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const { hold } = await claimWaitlistOffer(params.token, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        holdId: hold.id,
+        doctorId: hold.doctorId,
+        type: hold.type,
+        scheduledAt: hold.startsAt,
+        expiresAt: hold.expiresAt,
+      },
+    });
+  } catch (error) {
+    if (error instanceof WaitlistOfferUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 410 });
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error claiming waitlist offer",
+      action: "POST /api/waitlist/offers/[token]/claim",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import {
+  declineWaitlistOffer,
+  WaitlistOfferUnavailableError,
+} from "@/lib/waitlist";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/waitlist/offers/[token]/decline - Pass the slot on to the next patient
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    await declineWaitlistOffer(params.token, session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof WaitlistOfferUnavailableError) {
+      return NextResponse.json({ error: error.message }, { status: 410 });
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error declining waitlist offer",
+      action: "POST /api/waitlist/offers/[token]/decline",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { ErrorLogger } from "@/lib/error-logger";
+import { getConsultationPrice } from "@/lib/doctor-availability";
+import { getWaitlistOffer } from "@/lib/waitlist";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/waitlist/offers/[token] - Get a slot offered from the waitlist
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const offer = await getWaitlistOffer(params.token);
+
+    if (!offer || offer.entry.patientId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Oferta no encontrada" },
+        { status: 404 }
+      );
+    }
+
+    const { doctor } = offer.entry;
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        status:
+          offer.status === "PENDING" && offer.expiresAt <= new Date()
+            ? "EXPIRED"
+            : offer.status,
+        startsAt: offer.startsAt,
+        duration: offer.duration,
+        expiresAt: offer.expiresAt,
+        type: offer.entry.type,
+        price: getConsultationPrice(doctor, offer.entry.type),
+        doctor: {
+          id: doctor.id,
+          name: doctor.user.name,
+          specialty: doctor.specialty,
+          city: doctor.city,
+          state: doctor.state,
+          profileImage: doctor.profileImage,
+        },
+      },
+    });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching waitlist offer",
+      action: "GET /api/waitlist/offers/[token]",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { prisma } from "@/lib/db";
+import { authOptions } from "@/lib/unified-auth";
+import { getServerSession } from "next-auth";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { ErrorLogger } from "@/lib/error-logger";
+import { joinWaitlist, joinWaitlistSchema, WaitlistError } from "@/lib/waitlist";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/waitlist - List the patient's waitlist entries
+export async function GET() {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const entries = await prisma.waitlistEntry.findMany({
+      where: {
+        patientId: session.user.id,
+        status: { in: ["WAITING", "OFFERED"] },
+      },
+      include: {
+        doctor: {
+          select: {
+            id: true,
+            specialty: true,
+            user: {
+              select: {
+                name: true,
+              },
+            },
+          },
+        },
+        offers: {
+          where: { status: "PENDING" },
+          select: {
+            token: true,
+            startsAt: true,
+            expiresAt: true,
+          },
+        },
+      },
+      orderBy: { dateFrom: "asc" },
+    });
+
+    return NextResponse.json({ success: true, data: entries });
+  } catch (error) {
+    ErrorLogger.log({
+      error,
+      context: "Error fetching waitlist entries",
+      action: "GET /api/waitlist",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/waitlist - Join a doctor's waitlist for a range of days
+export async function POST(request: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  try {
+    if (!session?.user?.id || session.user.role !== "PATIENT") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const validatedData = joinWaitlistSchema.parse(body);
+
+    const doctor = await prisma.doctor.findFirst({
+      where: {
+        id: validatedData.doctorId,
+        user: {
+          isActive: true,
+        },
+      },
+      select: { id: true, user: { select: { timezone: true } } },
+    });
+
+    if (!doctor) {
+      return NextResponse.json(
+        { error: "Doctor no encontrado o no disponible" },
+        { status: 404 }
+      );
+    }
+
+    const entry = await joinWaitlist(
+      session.user.id,
+      validatedData,
+      doctor.user.timezone
+    );
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: entry,
+        message: "Te avisaremos si se libera un horario",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof WaitlistError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: "Datos inválidos", details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    ErrorLogger.log({
+      error,
+      context: "Error joining waitlist",
+      action: "POST /api/waitlist",
+      level: "error",
+      userId: session?.user?.id,
+    });
+
+    return NextResponse.json(
+      { error: "Error interno del servidor" },
+      { status: 500 }
+    );
+  }
+}
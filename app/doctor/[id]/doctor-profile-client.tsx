@@ -82,6 +82,7 @@ export function DoctorProfileClient({ doctor }: DoctorProfileClientProps) {
   const [selectedConsultationType, setSelectedConsultationType] = useState<ConsultationType>('IN_PERSON');
   const [selectedDateTime, setSelectedDateTime] = useState<Date | null>(null);
   const [selectedPrice, setSelectedPrice] = useState<number>(0);
+  const [selectedHoldId, setSelectedHoldId] = useState<string | null>(null);
   const [showBookingModal, setShowBookingModal] = useState(false);
 
   const consultationTypes = [
@@ -114,9 +115,10 @@ export function DoctorProfileClient({ doctor }: DoctorProfileClientProps) {
     }
   ].filter(type => type.available);
 
-  const handleSlotSelect = (dateTime: Date, price: number) => {
+  const handleSlotSelect = (dateTime: Date, price: number, holdId: string | null) => {
     setSelectedDateTime(dateTime);
     setSelectedPrice(price);
+    setSelectedHoldId(holdId);
     setShowBookingModal(true);
   };
 
@@ -451,7 +453,7 @@ export function DoctorProfileClient({ doctor }: DoctorProfileClientProps) {
       </div>
 
       {/* Modal de reserva */}
-      {showBookingModal && selectedDateTime && (
+      {showBookingModal && selectedDateTime && selectedHoldId && (
         <AppointmentBookingModal
           isOpen={showBookingModal}
           onClose={() => setShowBookingModal(false)}
@@ -459,6 +461,7 @@ export function DoctorProfileClient({ doctor }: DoctorProfileClientProps) {
           consultationType={selectedConsultationType}
           selectedDateTime={selectedDateTime}
           price={selectedPrice}
+          holdId={selectedHoldId}
         />
       )}
 
@@ -2,6 +2,11 @@
 
 import { Footer } from "@/components/footer";
 import { MainNav } from "@/components/main-nav";
+import { CalendarFeedModal } from "@/components/calendar-feed-modal";
+import { ChatStatusIndicator } from "@/components/chat-status-indicator";
+import { ClinicalNoteModal } from "@/components/clinical-note-modal";
+import { HealthRecordModal } from "@/components/health-record-modal";
+import { PrescriptionModal } from "@/components/prescription-modal";
 import { ScheduleConfigModal } from "@/components/schedule-config-modal";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
@@ -26,14 +31,22 @@ import { addDays, format, isSameDay, parseISO, startOfWeek } from "date-fns";
 import { es } from "date-fns/locale";
 import {
   Calendar,
+  CalendarPlus,
   CheckCircle,
   Clock,
+  Download,
   Eye,
+  FileText,
+  HeartPulse,
   Home,
   MapPin,
   MessageCircle,
   Phone,
+  Pill,
+  Play,
   User,
+  UserCheck,
+  UserX,
   Video,
   X,
 } from "lucide-react";
@@ -50,10 +63,52 @@ interface Appointment {
   type: "presencial" | "virtual" | "domicilio";
   date: string;
   time: string;
-  status: "pending" | "confirmed" | "completed" | "cancelled";
+  status:
+    | "pending"
+    | "confirmed"
+    | "checked_in"
+    | "in_consultation"
+    | "completed"
+    | "cancelled"
+    | "no_show";
   notes?: string;
 }
 
+type AppointmentAction =
+  | "confirm"
+  | "cancel"
+  | "check_in"
+  | "start"
+  | "complete"
+  | "no_show";
+
+// Estado al que lleva cada acción del doctor sobre la cita
+const APPOINTMENT_ACTIONS: Record<
+  AppointmentAction,
+  { status: Appointment["status"]; message: string }
+> = {
+  confirm: { status: "confirmed", message: "Cita confirmada correctamente" },
+  cancel: { status: "cancelled", message: "Cita cancelada correctamente" },
+  check_in: {
+    status: "checked_in",
+    message: "Llegada del paciente registrada",
+  },
+  start: { status: "in_consultation", message: "Consulta iniciada" },
+  complete: { status: "completed", message: "Consulta finalizada" },
+  no_show: {
+    status: "no_show",
+    message: "Cita marcada como inasistencia correctamente",
+  },
+};
+
+// Citas en las que el doctor puede escribir la nota clínica
+const NOTE_STATUSES: Appointment["status"][] = [
+  "confirmed",
+  "checked_in",
+  "in_consultation",
+  "completed",
+];
+
 export default function DoctorAgendaPage() {
   const { data: session, status } = useSession();
   const router = useRouter();
@@ -63,9 +118,13 @@ export default function DoctorAgendaPage() {
   const [isLoading, setIsLoading] = useState(true);
   const [viewMode, setViewMode] = useState<"day" | "week">("day");
   const [showScheduleModal, setShowScheduleModal] = useState(false);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
   const [selectedAppointment, setSelectedAppointment] =
     useState<Appointment | null>(null);
   const [showAppointmentModal, setShowAppointmentModal] = useState(false);
+  const [showClinicalNote, setShowClinicalNote] = useState(false);
+  const [showPrescription, setShowPrescription] = useState(false);
+  const [showHealthRecord, setShowHealthRecord] = useState(false);
   const [actionLoading, setActionLoading] = useState<string | null>(null);
 
   useEffect(() => {
@@ -104,16 +163,11 @@ export default function DoctorAgendaPage() {
 
   const handleAppointmentAction = async (
     appointmentId: string,
-    action: "confirm" | "cancel" | "complete"
+    action: AppointmentAction
   ) => {
     setActionLoading(appointmentId);
     try {
-      const newStatus =
-        action === "confirm"
-          ? "confirmed"
-          : action === "cancel"
-          ? "cancelled"
-          : "completed";
+      const { status: newStatus, message } = APPOINTMENT_ACTIONS[action];
 
       const response = await fetch("/api/appointments", {
         method: "PATCH",
@@ -122,12 +176,13 @@ export default function DoctorAgendaPage() {
         },
         body: JSON.stringify({
           appointmentId,
-          status: newStatus,
+          status: newStatus.toUpperCase(),
         }),
       });
 
       if (!response.ok) {
-        throw new Error("Error al actualizar la cita");
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "No se pudo actualizar la cita");
       }
 
       // Actualizar el estado local
@@ -137,21 +192,18 @@ export default function DoctorAgendaPage() {
         )
       );
 
-      const actionText =
-        action === "confirm"
-          ? "confirmada"
-          : action === "cancel"
-          ? "cancelada"
-          : "completada";
       toast({
         title: "Éxito",
-        description: `Cita ${actionText} correctamente`,
+        description: message,
       });
     } catch (error) {
       console.error("Error updating appointment:", error);
       toast({
         title: "Error",
-        description: "No se pudo actualizar la cita",
+        description:
+          error instanceof Error
+            ? error.message
+            : "No se pudo actualizar la cita",
         variant: "destructive",
       });
     } finally {
@@ -159,6 +211,14 @@ export default function DoctorAgendaPage() {
     }
   };
 
+  // Citas confirmadas cuya consulta aún no termina: el chat está abierto
+  const isInProgress = (appointment: Appointment): boolean =>
+    ["confirmed", "checked_in", "in_consultation"].includes(appointment.status);
+
+  // Solo se puede marcar la inasistencia una vez que llegó la hora de la cita
+  const hasStarted = (appointment: Appointment): boolean =>
+    parseISO(`${appointment.date}T${appointment.time}`) <= new Date();
+
   const handleViewAppointment = (appointment: Appointment) => {
     setSelectedAppointment(appointment);
     setShowAppointmentModal(true);
@@ -175,10 +235,16 @@ export default function DoctorAgendaPage() {
         return "bg-green-100 text-green-800";
       case "pending":
         return "bg-yellow-100 text-yellow-800";
+      case "checked_in":
+        return "bg-purple-100 text-purple-800";
+      case "in_consultation":
+        return "bg-indigo-100 text-indigo-800";
       case "completed":
         return "bg-blue-100 text-blue-800";
       case "cancelled":
         return "bg-red-100 text-red-800";
+      case "no_show":
+        return "bg-orange-100 text-orange-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -190,10 +256,16 @@ export default function DoctorAgendaPage() {
         return "Confirmada";
       case "pending":
         return "Pendiente";
+      case "checked_in":
+        return "En sala de espera";
+      case "in_consultation":
+        return "En consulta";
       case "completed":
         return "Completada";
       case "cancelled":
         return "Cancelada";
+      case "no_show":
+        return "Inasistencia";
       default:
         return status;
     }
@@ -276,6 +348,13 @@ export default function DoctorAgendaPage() {
                     Semana
                   </Button>
                 </div>
+                <Button
+                  variant="outline"
+                  onClick={() => setShowCalendarFeed(true)}
+                >
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Sincronizar calendario
+                </Button>
                 <Button onClick={() => setShowScheduleModal(true)}>
                   <Calendar className="h-4 w-4 mr-2" />
                   Configurar Horarios
@@ -534,31 +613,99 @@ export default function DoctorAgendaPage() {
                                       </Button>
                                     </>
                                   )}
-                                  {appointment.status === "confirmed" && (
-                                    <>
-                                      <Link href={`/chat/${appointment.id}`}>
-                                        <Button size="sm" variant="outline">
-                                          <MessageCircle className="h-4 w-4 mr-1" />
-                                          Chat
-                                        </Button>
-                                      </Link>
+                                  {isInProgress(appointment) && (
+                                    <Link href={`/chat/${appointment.id}`}>
+                                      <Button size="sm" variant="outline">
+                                        <MessageCircle className="h-4 w-4 mr-1" />
+                                        Chat
+                                      </Button>
+                                    </Link>
+                                  )}
+                                  {appointment.status === "confirmed" &&
+                                    appointment.type !== "virtual" && (
                                       <Button
                                         size="sm"
                                         variant="outline"
                                         onClick={() =>
                                           handleAppointmentAction(
                                             appointment.id,
-                                            "complete"
+                                            "check_in"
                                           )
                                         }
                                         disabled={
                                           actionLoading === appointment.id
                                         }
                                       >
-                                        <CheckCircle className="h-4 w-4 mr-1" />
-                                        Completar
+                                        <UserCheck className="h-4 w-4 mr-1" />
+                                        Registrar llegada
                                       </Button>
-                                    </>
+                                    )}
+                                  {(appointment.status === "confirmed" ||
+                                    appointment.status === "checked_in") && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() =>
+                                        handleAppointmentAction(
+                                          appointment.id,
+                                          "start"
+                                        )
+                                      }
+                                      disabled={
+                                        actionLoading === appointment.id
+                                      }
+                                    >
+                                      <Play className="h-4 w-4 mr-1" />
+                                      Iniciar consulta
+                                    </Button>
+                                  )}
+                                  {appointment.status === "in_consultation" && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() =>
+                                        handleAppointmentAction(
+                                          appointment.id,
+                                          "complete"
+                                        )
+                                      }
+                                      disabled={
+                                        actionLoading === appointment.id
+                                      }
+                                    >
+                                      <CheckCircle className="h-4 w-4 mr-1" />
+                                      Finalizar consulta
+                                    </Button>
+                                  )}
+                                  {appointment.status === "confirmed" &&
+                                    hasStarted(appointment) && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        onClick={() =>
+                                          handleAppointmentAction(
+                                            appointment.id,
+                                            "no_show"
+                                          )
+                                        }
+                                        disabled={
+                                          actionLoading === appointment.id
+                                        }
+                                      >
+                                        <UserX className="h-4 w-4 mr-1" />
+                                        Inasistencia
+                                      </Button>
+                                    )}
+                                  {appointment.status !== "cancelled" && (
+                                    <a
+                                      href={`/api/appointments/${appointment.id}/ics`}
+                                      download
+                                    >
+                                      <Button size="sm" variant="outline">
+                                        <Download className="h-4 w-4 mr-1" />
+                                        .ics
+                                      </Button>
+                                    </a>
                                   )}
                                   <Button
                                     size="sm"
@@ -660,6 +807,11 @@ export default function DoctorAgendaPage() {
             doctorId={session?.user?.id}
           />
 
+          <CalendarFeedModal
+            isOpen={showCalendarFeed}
+            onClose={() => setShowCalendarFeed(false)}
+          />
+
           {/* Modal de detalle de cita */}
           <Dialog
             open={showAppointmentModal}
@@ -761,6 +913,43 @@ export default function DoctorAgendaPage() {
                     >
                       Cerrar
                     </Button>
+                    {selectedAppointment.status !== "cancelled" && (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setShowAppointmentModal(false);
+                          setShowHealthRecord(true);
+                        }}
+                      >
+                        <HeartPulse className="h-4 w-4 mr-2" />
+                        Expediente
+                      </Button>
+                    )}
+                    {NOTE_STATUSES.includes(selectedAppointment.status) && (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setShowAppointmentModal(false);
+                          setShowClinicalNote(true);
+                        }}
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        Nota Clínica
+                      </Button>
+                    )}
+                    {(selectedAppointment.status === "in_consultation" ||
+                      selectedAppointment.status === "completed") && (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setShowAppointmentModal(false);
+                          setShowPrescription(true);
+                        }}
+                      >
+                        <Pill className="h-4 w-4 mr-2" />
+                        Receta
+                      </Button>
+                    )}
                     {selectedAppointment.status === "pending" && (
                       <>
                         <Button
@@ -792,7 +981,57 @@ export default function DoctorAgendaPage() {
                         </Button>
                       </>
                     )}
-                    {selectedAppointment.status === "confirmed" && (
+                    {selectedAppointment.status === "confirmed" &&
+                      hasStarted(selectedAppointment) && (
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            handleAppointmentAction(
+                              selectedAppointment.id,
+                              "no_show"
+                            );
+                            setShowAppointmentModal(false);
+                          }}
+                          disabled={actionLoading === selectedAppointment.id}
+                        >
+                          <UserX className="h-4 w-4 mr-2" />
+                          Marcar Inasistencia
+                        </Button>
+                      )}
+                    {selectedAppointment.status === "confirmed" &&
+                      selectedAppointment.type !== "virtual" && (
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            handleAppointmentAction(
+                              selectedAppointment.id,
+                              "check_in"
+                            );
+                            setShowAppointmentModal(false);
+                          }}
+                          disabled={actionLoading === selectedAppointment.id}
+                        >
+                          <UserCheck className="h-4 w-4 mr-2" />
+                          Registrar Llegada
+                        </Button>
+                      )}
+                    {(selectedAppointment.status === "confirmed" ||
+                      selectedAppointment.status === "checked_in") && (
+                      <Button
+                        onClick={() => {
+                          handleAppointmentAction(
+                            selectedAppointment.id,
+                            "start"
+                          );
+                          setShowAppointmentModal(false);
+                        }}
+                        disabled={actionLoading === selectedAppointment.id}
+                      >
+                        <Play className="h-4 w-4 mr-2" />
+                        Iniciar Consulta
+                      </Button>
+                    )}
+                    {selectedAppointment.status === "in_consultation" && (
                       <Button
                         onClick={() => {
                           handleAppointmentAction(
@@ -804,7 +1043,7 @@ export default function DoctorAgendaPage() {
                         disabled={actionLoading === selectedAppointment.id}
                       >
                         <CheckCircle className="h-4 w-4 mr-2" />
-                        Marcar como Completada
+                        Finalizar Consulta
                       </Button>
                     )}
                   </div>
@@ -812,6 +1051,29 @@ export default function DoctorAgendaPage() {
               )}
             </DialogContent>
           </Dialog>
+
+          {selectedAppointment && (
+            <>
+              <ClinicalNoteModal
+                isOpen={showClinicalNote}
+                onClose={() => setShowClinicalNote(false)}
+                appointmentId={selectedAppointment.id}
+                patientName={selectedAppointment.patientName}
+              />
+              <PrescriptionModal
+                isOpen={showPrescription}
+                onClose={() => setShowPrescription(false)}
+                appointmentId={selectedAppointment.id}
+                patientName={selectedAppointment.patientName}
+              />
+              <HealthRecordModal
+                isOpen={showHealthRecord}
+                onClose={() => setShowHealthRecord(false)}
+                appointmentId={selectedAppointment.id}
+                patientName={selectedAppointment.patientName}
+              />
+            </>
+          )}
         </div>
       </div>
 
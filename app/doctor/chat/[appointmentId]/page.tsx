@@ -1,6 +1,9 @@
 "use client";
 
 import { ChatRoom } from "@/components/optimized-chat-room";
+import { ClinicalNoteModal } from "@/components/clinical-note-modal";
+import { PrescriptionModal } from "@/components/prescription-modal";
+import { HealthRecordModal } from "@/components/health-record-modal";
 import { Footer } from "@/components/footer";
 import { MainNav } from "@/components/main-nav";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
@@ -13,7 +16,11 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
-import { formatMexicanCurrency, formatMexicanTime } from "@/lib/mexican-utils";
+import {
+  formatMexicanCurrency,
+  formatMexicanTime,
+  translateAppointmentStatus,
+} from "@/lib/mexican-utils";
 import { AppointmentStatus, ConsultationType } from "@prisma/client";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
@@ -21,9 +28,12 @@ import {
   AlertCircle,
   ArrowLeft,
   Calendar,
+  FileText,
+  HeartPulse,
   Home,
   MapPin,
   MessageCircle,
+  Pill,
   Stethoscope,
   Video,
 } from "lucide-react";
@@ -68,6 +78,9 @@ export default function DoctorChatPage({
   );
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showClinicalNote, setShowClinicalNote] = useState(false);
+  const [showPrescription, setShowPrescription] = useState(false);
+  const [showHealthRecord, setShowHealthRecord] = useState(false);
 
   useEffect(() => {
     if (status === "loading") return;
@@ -262,21 +275,50 @@ export default function DoctorChatPage({
                       </CardDescription>
                     </div>
                   </div>
-                  <Badge
-                    variant={
-                      appointment.status === "CONFIRMED"
-                        ? "default"
-                        : "secondary"
-                    }
-                  >
-                    {appointment.status === "CONFIRMED"
-                      ? "Confirmada"
-                      : appointment.status === "PENDING"
-                        ? "Pendiente"
-                        : appointment.status === "COMPLETED"
-                          ? "Completada"
-                          : "Cancelada"}
-                  </Badge>
+                  <div className="flex items-center space-x-2">
+                    {appointment.status !== "CANCELLED" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowHealthRecord(true)}
+                      >
+                        <HeartPulse className="h-4 w-4 mr-2" />
+                        Expediente
+                      </Button>
+                    )}
+                    {appointment.status !== "PENDING" &&
+                      appointment.status !== "CANCELLED" &&
+                      appointment.status !== "NO_SHOW" && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setShowClinicalNote(true)}
+                        >
+                          <FileText className="h-4 w-4 mr-2" />
+                          Nota Clínica
+                        </Button>
+                      )}
+                    {(appointment.status === "IN_CONSULTATION" ||
+                      appointment.status === "COMPLETED") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setShowPrescription(true)}
+                      >
+                        <Pill className="h-4 w-4 mr-2" />
+                        Receta
+                      </Button>
+                    )}
+                    <Badge
+                      variant={
+                        appointment.status === "CONFIRMED"
+                          ? "default"
+                          : "secondary"
+                      }
+                    >
+                      {translateAppointmentStatus(appointment.status)}
+                    </Badge>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -370,6 +412,26 @@ export default function DoctorChatPage({
         </div>
       </div>
 
+      <ClinicalNoteModal
+        isOpen={showClinicalNote}
+        onClose={() => setShowClinicalNote(false)}
+        appointmentId={appointment.id}
+        patientName={appointment.patient.name}
+      />
+      <PrescriptionModal
+        isOpen={showPrescription}
+        onClose={() => setShowPrescription(false)}
+        appointmentId={appointment.id}
+        patientName={appointment.patient.name}
+      />
+
+      <HealthRecordModal
+        isOpen={showHealthRecord}
+        onClose={() => setShowHealthRecord(false)}
+        appointmentId={appointment.id}
+        patientName={appointment.patient.name}
+      />
+
       <Footer />
     </div>
   );
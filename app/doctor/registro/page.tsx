@@ -121,6 +121,7 @@ export default function DoctorRegistrationPage() {
         email: formData.email,
         password: formData.password,
         phone: formData.phone,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         role: 'DOCTOR',
         
         // Datos del doctor
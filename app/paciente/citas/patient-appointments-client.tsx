@@ -1,8 +1,13 @@
 "use client";
 
+import { CalendarFeedModal } from "@/components/calendar-feed-modal";
 import { CancelAppointmentModal } from "@/components/cancel-appointment-modal";
+import { ChatStatusIndicator } from "@/components/chat-status-indicator";
+import { ClinicalNoteSummaryModal } from "@/components/clinical-note-summary-modal";
 import { Footer } from "@/components/footer";
+import { InvoiceModal } from "@/components/invoice-modal";
 import { MainNav } from "@/components/main-nav";
+import { RescheduleAppointmentModal } from "@/components/reschedule-appointment-modal";
 import { ReviewModal } from "@/components/review-modal";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -25,10 +30,15 @@ import { format } from "date-fns";
 import { es } from "date-fns/locale";
 import {
   Calendar,
+  CalendarClock,
+  CalendarPlus,
   Clock,
+  Download,
+  FileText,
   Home,
   MessageCircle,
   Plus,
+  Receipt,
   Star,
   Stethoscope,
   Video,
@@ -53,6 +63,11 @@ interface Appointment {
   notes?: string;
   patientNotes?: string;
   doctorNotes?: string;
+  seriesId?: string | null;
+  payment?: {
+    status: string;
+    voucherExpiresAt: string | null;
+  } | null;
   createdAt: string;
 }
 
@@ -77,14 +92,22 @@ export default function PatientAppointmentsClient() {
     appointmentId: string;
     appointmentDate: Date;
     doctorName: string;
-    price: number;
+    seriesId?: string | null;
   }>({
     isOpen: false,
     appointmentId: "",
     appointmentDate: new Date(),
     doctorName: "",
-    price: 0,
   });
+  const [rescheduleAppointment, setRescheduleAppointment] =
+    useState<Appointment | null>(null);
+  const [showCalendarFeed, setShowCalendarFeed] = useState(false);
+  const [summaryAppointmentId, setSummaryAppointmentId] = useState<
+    string | null
+  >(null);
+  const [invoiceAppointmentId, setInvoiceAppointmentId] = useState<
+    string | null
+  >(null);
 
   useEffect(() => {
     loadAppointments();
@@ -119,6 +142,9 @@ export default function PatientAppointmentsClient() {
     switch (status) {
       case "CONFIRMED":
         return "bg-primary/10 text-primary border-primary/20";
+      case "CHECKED_IN":
+      case "IN_CONSULTATION":
+        return "bg-blue-100 text-blue-700 border-blue-200";
       case "COMPLETED":
         return "bg-success/10 text-success border-success/20";
       case "CANCELLED":
@@ -276,7 +302,42 @@ export default function PatientAppointmentsClient() {
                 </Button>
               )}
 
-              {appointment.status === "CONFIRMED" && (
+              {appointment.status === "COMPLETED" && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setSummaryAppointmentId(appointment.id)}
+                >
+                  <FileText className="h-4 w-4 mr-1" />
+                  Resumen
+                </Button>
+              )}
+
+              {appointment.status === "COMPLETED" && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setInvoiceAppointmentId(appointment.id)}
+                >
+                  <Receipt className="h-4 w-4 mr-1" />
+                  Factura
+                </Button>
+              )}
+
+              {appointment.status === "PENDING" &&
+                appointment.payment?.status === "PENDING" &&
+                appointment.payment.voucherExpiresAt && (
+                  <Link href={`/pago/pendiente?appointment_id=${appointment.id}`}>
+                    <Button size="sm" variant="outline">
+                      <Receipt className="h-4 w-4 mr-1" />
+                      Ficha de pago
+                    </Button>
+                  </Link>
+                )}
+
+              {["CONFIRMED", "CHECKED_IN", "IN_CONSULTATION"].includes(
+                appointment.status
+              ) && (
                 <Link href={`/chat/${appointment.id}`}>
                   <Button size="sm" variant="outline">
                     <MessageCircle className="h-4 w-4 mr-1" />
@@ -285,6 +346,17 @@ export default function PatientAppointmentsClient() {
                 </Link>
               )}
 
+              {isUpcoming &&
+                (appointment.status === "PENDING" ||
+                  appointment.status === "CONFIRMED") && (
+                  <a href={`/api/appointments/${appointment.id}/ics`} download>
+                    <Button size="sm" variant="outline">
+                      <Download className="h-4 w-4 mr-1" />
+                      .ics
+                    </Button>
+                  </a>
+                )}
+
               {isUpcoming &&
                 appointment.status === "CONFIRMED" &&
                 appointment.type === "VIRTUAL" && (
@@ -302,6 +374,19 @@ export default function PatientAppointmentsClient() {
                 </Button>
               </Link>
 
+              {isUpcoming &&
+                (appointment.status === "PENDING" ||
+                  appointment.status === "CONFIRMED") && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRescheduleAppointment(appointment)}
+                  >
+                    <CalendarClock className="h-4 w-4 mr-1" />
+                    Reprogramar
+                  </Button>
+                )}
+
               {isUpcoming &&
                 (appointment.status === "PENDING" ||
                   appointment.status === "CONFIRMED") && (
@@ -314,7 +399,7 @@ export default function PatientAppointmentsClient() {
                         appointmentId: appointment.id,
                         appointmentDate: new Date(appointment.scheduledAt),
                         doctorName: appointment.doctorName,
-                        price: appointment.price,
+                        seriesId: appointment.seriesId,
                       })
                     }
                   >
@@ -365,12 +450,21 @@ export default function PatientAppointmentsClient() {
                 </p>
               </div>
 
-              <Link href="/buscar">
-                <Button>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Nueva Cita
+              <div className="flex items-center space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setShowCalendarFeed(true)}
+                >
+                  <CalendarPlus className="h-4 w-4 mr-2" />
+                  Sincronizar calendario
                 </Button>
-              </Link>
+                <Link href="/buscar">
+                  <Button>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nueva Cita
+                  </Button>
+                </Link>
+              </div>
             </div>
 
             {/* Tabs */}
@@ -458,12 +552,46 @@ export default function PatientAppointmentsClient() {
         appointmentId={cancelModal.appointmentId}
         appointmentDate={cancelModal.appointmentDate}
         doctorName={cancelModal.doctorName}
-        price={cancelModal.price}
+        seriesId={cancelModal.seriesId}
         onCancelled={() => {
           loadAppointments();
           setCancelModal((prev) => ({ ...prev, isOpen: false }));
         }}
       />
+
+      {rescheduleAppointment && (
+        <RescheduleAppointmentModal
+          isOpen
+          onClose={() => setRescheduleAppointment(null)}
+          appointmentId={rescheduleAppointment.id}
+          appointmentDate={new Date(rescheduleAppointment.scheduledAt)}
+          doctorId={rescheduleAppointment.doctorId}
+          doctorName={rescheduleAppointment.doctorName}
+          consultationType={rescheduleAppointment.type}
+          onRescheduled={loadAppointments}
+        />
+      )}
+
+      <CalendarFeedModal
+        isOpen={showCalendarFeed}
+        onClose={() => setShowCalendarFeed(false)}
+      />
+
+      {summaryAppointmentId && (
+        <ClinicalNoteSummaryModal
+          isOpen
+          onClose={() => setSummaryAppointmentId(null)}
+          appointmentId={summaryAppointmentId}
+        />
+      )}
+
+      {invoiceAppointmentId && (
+        <InvoiceModal
+          isOpen
+          onClose={() => setInvoiceAppointmentId(null)}
+          appointmentId={invoiceAppointmentId}
+        />
+      )}
     </div>
   );
 }
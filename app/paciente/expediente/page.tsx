@@ -0,0 +1,559 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Eye, HeartPulse, History, Pencil, Pill, Plus, Save, Syringe, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { translateAllergySeverity, translateBloodType } from '@/lib/mexican-utils';
+
+interface Allergy {
+  substance: string;
+  reaction: string;
+  severity: string;
+}
+
+interface Condition {
+  name: string;
+  icd10Code: string;
+  since: string;
+  notes: string;
+}
+
+interface Medication {
+  name: string;
+  dose: string;
+  frequency: string;
+}
+
+interface Vaccination {
+  vaccine: string;
+  dose: string;
+  date: string;
+}
+
+interface HealthRecordForm {
+  bloodType: string;
+  allergies: Allergy[];
+  conditions: Condition[];
+  medications: Medication[];
+  vaccinations: Vaccination[];
+}
+
+interface AccessLogEntry {
+  id: string;
+  action: 'VIEW' | 'UPDATE';
+  actorName: string;
+  actorRole: string;
+  sections: string[];
+  createdAt: string;
+}
+
+const BLOOD_TYPES = [
+  'A_POSITIVE',
+  'A_NEGATIVE',
+  'B_POSITIVE',
+  'B_NEGATIVE',
+  'AB_POSITIVE',
+  'AB_NEGATIVE',
+  'O_POSITIVE',
+  'O_NEGATIVE',
+];
+
+const SECTION_LABELS: Record<string, string> = {
+  bloodType: 'grupo sanguíneo',
+  allergies: 'alergias',
+  conditions: 'enfermedades crónicas',
+  medications: 'medicamentos',
+  vaccinations: 'vacunas',
+};
+
+const EMPTY_RECORD: HealthRecordForm = {
+  bloodType: '',
+  allergies: [],
+  conditions: [],
+  medications: [],
+  vaccinations: [],
+};
+
+const orNull = (value: string | null) => value?.trim() || null;
+
+export default function PatientHealthRecordPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [record, setRecord] = useState<HealthRecordForm>(EMPTY_RECORD);
+  const [accessLog, setAccessLog] = useState<AccessLogEntry[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+
+    if (!session || session.user.role !== 'PATIENT') {
+      router.push('/unauthorized');
+      return;
+    }
+
+    loadRecord();
+    loadAccessLog();
+  }, [session, status, router]);
+
+  const loadRecord = async () => {
+    try {
+      const response = await fetch('/api/patient/health-record');
+      if (!response.ok) {
+        throw new Error('Error al cargar el expediente');
+      }
+      const { data } = await response.json();
+      setRecord({
+        bloodType: data.bloodType || '',
+        allergies: data.allergies.map((allergy: Allergy) => ({
+          ...allergy,
+          reaction: allergy.reaction || ''
+        })),
+        conditions: data.conditions.map((condition: Record<string, string | number | null>) => ({
+          name: condition.name,
+          icd10Code: condition.icd10Code || '',
+          since: condition.since ? String(condition.since) : '',
+          notes: condition.notes || ''
+        })),
+        medications: data.medications.map((medication: Medication) => ({
+          name: medication.name,
+          dose: medication.dose || '',
+          frequency: medication.frequency || ''
+        })),
+        vaccinations: data.vaccinations.map((vaccination: Vaccination) => ({
+          ...vaccination,
+          dose: vaccination.dose || ''
+        }))
+      });
+    } catch (error) {
+      console.error('Error loading health record:', error);
+      toast.error('Error al cargar el expediente');
+    }
+  };
+
+  const loadAccessLog = async () => {
+    try {
+      const response = await fetch('/api/patient/health-record/access-log');
+      if (response.ok) {
+        const { data } = await response.json();
+        setAccessLog(data);
+      }
+    } catch (error) {
+      console.error('Error loading access log:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/patient/health-record', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          bloodType: record.bloodType || null,
+          allergies: record.allergies.map((allergy) => ({
+            ...allergy,
+            reaction: orNull(allergy.reaction)
+          })),
+          conditions: record.conditions.map((condition) => ({
+            name: condition.name,
+            icd10Code: orNull(condition.icd10Code),
+            since: condition.since ? Number(condition.since) : null,
+            notes: orNull(condition.notes)
+          })),
+          medications: record.medications.map((medication) => ({
+            name: medication.name,
+            dose: orNull(medication.dose),
+            frequency: orNull(medication.frequency)
+          })),
+          vaccinations: record.vaccinations.map((vaccination) => ({
+            ...vaccination,
+            dose: orNull(vaccination.dose)
+          }))
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Error al guardar el expediente');
+      }
+
+      toast.success(result.message);
+      loadAccessLog();
+    } catch (error) {
+      console.error('Error saving health record:', error);
+      toast.error('Error al guardar los cambios', {
+        description: error instanceof Error ? error.message : 'Inténtalo de nuevo'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Actualiza un elemento de una de las listas del expediente
+  const updateItem = <K extends 'allergies' | 'conditions' | 'medications' | 'vaccinations'>(
+    section: K,
+    index: number,
+    changes: Partial<HealthRecordForm[K][number]>
+  ) => {
+    setRecord((current) => ({
+      ...current,
+      [section]: current[section].map((item, i) => (i === index ? { ...item, ...changes } : item))
+    }));
+  };
+
+  const removeItem = (
+    section: 'allergies' | 'conditions' | 'medications' | 'vaccinations',
+    index: number
+  ) => {
+    setRecord((current) => ({
+      ...current,
+      [section]: current[section].filter((_, i) => i !== index)
+    }));
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Mi Expediente</h1>
+              <p className="text-gray-600 mt-2">
+                Tus doctores pueden consultarlo cuando tienes una cita con ellos
+              </p>
+            </div>
+            <Button onClick={handleSave} disabled={isSaving} className="flex items-center space-x-2">
+              <Save className="h-4 w-4" />
+              <span>{isSaving ? 'Guardando...' : 'Guardar'}</span>
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            {/* Grupo sanguíneo */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <HeartPulse className="h-5 w-5" />
+                  <span>Grupo Sanguíneo</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Select
+                  value={record.bloodType}
+                  onValueChange={(value) => setRecord({ ...record, bloodType: value })}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Selecciona tu grupo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BLOOD_TYPES.map((bloodType) => (
+                      <SelectItem key={bloodType} value={bloodType}>
+                        {translateBloodType(bloodType)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+
+            {/* Alergias */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center space-x-2">
+                    <AlertTriangle className="h-5 w-5" />
+                    <span>Alergias</span>
+                  </CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRecord({
+                      ...record,
+                      allergies: [...record.allergies, { substance: '', reaction: '', severity: 'MODERATE' }]
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Agregar
+                  </Button>
+                </div>
+                <CardDescription>Medicamentos, alimentos u otras sustancias</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {record.allergies.map((allergy, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2">
+                    <Input
+                      className="col-span-4"
+                      placeholder="Sustancia (penicilina)"
+                      value={allergy.substance}
+                      onChange={(e) => updateItem('allergies', index, { substance: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-4"
+                      placeholder="Reacción (urticaria)"
+                      value={allergy.reaction}
+                      onChange={(e) => updateItem('allergies', index, { reaction: e.target.value })}
+                    />
+                    <div className="col-span-3">
+                      <Select
+                        value={allergy.severity}
+                        onValueChange={(value) => updateItem('allergies', index, { severity: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {['MILD', 'MODERATE', 'SEVERE'].map((severity) => (
+                            <SelectItem key={severity} value={severity}>
+                              {translateAllergySeverity(severity)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => removeItem('allergies', index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {record.allergies.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Sin alergias registradas</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Enfermedades crónicas */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center space-x-2">
+                    <HeartPulse className="h-5 w-5" />
+                    <span>Enfermedades Crónicas</span>
+                  </CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRecord({
+                      ...record,
+                      conditions: [...record.conditions, { name: '', icd10Code: '', since: '', notes: '' }]
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Agregar
+                  </Button>
+                </div>
+                <CardDescription>Diabetes, hipertensión, asma, etc.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {record.conditions.map((condition, index) => (
+                  <div key={index} className="p-3 border rounded-lg space-y-2">
+                    <div className="grid grid-cols-12 gap-2">
+                      <Input
+                        className="col-span-6"
+                        placeholder="Enfermedad"
+                        value={condition.name}
+                        onChange={(e) => updateItem('conditions', index, { name: e.target.value })}
+                      />
+                      <Input
+                        className="col-span-3"
+                        placeholder="CIE-10 (opcional)"
+                        value={condition.icd10Code}
+                        onChange={(e) => updateItem('conditions', index, { icd10Code: e.target.value })}
+                      />
+                      <Input
+                        className="col-span-2"
+                        type="number"
+                        placeholder="Desde (año)"
+                        value={condition.since}
+                        onChange={(e) => updateItem('conditions', index, { since: e.target.value })}
+                      />
+                      <Button variant="ghost" size="sm" onClick={() => removeItem('conditions', index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Input
+                      placeholder="Notas (tratamiento, control)"
+                      value={condition.notes}
+                      onChange={(e) => updateItem('conditions', index, { notes: e.target.value })}
+                    />
+                  </div>
+                ))}
+                {record.conditions.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Sin enfermedades registradas</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Medicamentos actuales */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center space-x-2">
+                    <Pill className="h-5 w-5" />
+                    <span>Medicamentos Actuales</span>
+                  </CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRecord({
+                      ...record,
+                      medications: [...record.medications, { name: '', dose: '', frequency: '' }]
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Agregar
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {record.medications.map((medication, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2">
+                    <Input
+                      className="col-span-5"
+                      placeholder="Medicamento"
+                      value={medication.name}
+                      onChange={(e) => updateItem('medications', index, { name: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-3"
+                      placeholder="Dosis"
+                      value={medication.dose}
+                      onChange={(e) => updateItem('medications', index, { dose: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-3"
+                      placeholder="Frecuencia"
+                      value={medication.frequency}
+                      onChange={(e) => updateItem('medications', index, { frequency: e.target.value })}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => removeItem('medications', index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {record.medications.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Sin medicamentos registrados</p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Vacunas */}
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center space-x-2">
+                    <Syringe className="h-5 w-5" />
+                    <span>Vacunas</span>
+                  </CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRecord({
+                      ...record,
+                      vaccinations: [...record.vaccinations, { vaccine: '', dose: '', date: '' }]
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Agregar
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {record.vaccinations.map((vaccination, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2">
+                    <Input
+                      className="col-span-5"
+                      placeholder="Vacuna"
+                      value={vaccination.vaccine}
+                      onChange={(e) => updateItem('vaccinations', index, { vaccine: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-3"
+                      placeholder="Dosis (refuerzo)"
+                      value={vaccination.dose}
+                      onChange={(e) => updateItem('vaccinations', index, { dose: e.target.value })}
+                    />
+                    <Input
+                      className="col-span-3"
+                      type="date"
+                      value={vaccination.date}
+                      onChange={(e) => updateItem('vaccinations', index, { date: e.target.value })}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => removeItem('vaccinations', index)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {record.vaccinations.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Sin vacunas registradas</p>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Bitácora de accesos */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <History className="h-5 w-5" />
+                  <span>Accesos a tu Expediente</span>
+                </CardTitle>
+                <CardDescription>Quién lo consultó o modificó</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {accessLog.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Sin accesos registrados</p>
+                )}
+                {accessLog.map((entry) => (
+                  <div key={entry.id} className="flex items-start space-x-2 text-sm">
+                    {entry.action === 'VIEW' ? (
+                      <Eye className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                    ) : (
+                      <Pencil className="h-4 w-4 mt-0.5 text-muted-foreground" />
+                    )}
+                    <div>
+                      <p>
+                        <span className="font-medium">{entry.actorName}</span>{' '}
+                        {entry.action === 'VIEW'
+                          ? 'consultó tu expediente'
+                          : `actualizó ${entry.sections.map((section) => SECTION_LABELS[section] ?? section).join(', ')}`}
+                      </p>
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(entry.createdAt), "dd MMM yyyy, HH:mm", { locale: es })}
+                        {entry.actorRole === 'DOCTOR' && (
+                          <Badge variant="outline" className="ml-2">Doctor</Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/unified-auth';
+import { redirect } from 'next/navigation';
+import WaitlistOfferClient from './waitlist-offer-client';
+
+export default async function WaitlistOfferPage({
+  params
+}: {
+  params: { token: string }
+}) {
+  const session = await getServerSession(authOptions);
+  
+  if (!session) {
+    redirect('/iniciar-sesion');
+  }
+
+  if (session.user.role !== 'PATIENT') {
+    redirect('/unauthorized');
+  }
+
+  return <WaitlistOfferClient token={params.token} />;
+}
@@ -0,0 +1,225 @@
+"use client";
+
+import { AppointmentBookingModal } from "@/components/appointment-booking-modal";
+import { Footer } from "@/components/footer";
+import { MainNav } from "@/components/main-nav";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  formatMexicanCurrency,
+  formatMexicanTime,
+  translateConsultationType,
+} from "@/lib/mexican-utils";
+import { ConsultationType } from "@prisma/client";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { AlertCircle, BellRing, Calendar, Clock } from "lucide-react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface WaitlistOffer {
+  status: "PENDING" | "CLAIMED" | "DECLINED" | "EXPIRED";
+  startsAt: string;
+  duration: number;
+  expiresAt: string;
+  type: ConsultationType;
+  price: number;
+  doctor: {
+    id: string;
+    name: string;
+    specialty: string;
+    city: string;
+    state: string;
+    profileImage?: string;
+  };
+}
+
+export default function WaitlistOfferClient({ token }: { token: string }) {
+  const [offer, setOffer] = useState<WaitlistOffer | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [holdId, setHoldId] = useState<string | null>(null);
+  const router = useRouter();
+
+  useEffect(() => {
+    const loadOffer = async () => {
+      try {
+        const response = await fetch(`/api/waitlist/offers/${token}`);
+        if (!response.ok) {
+          throw new Error("Oferta no encontrada");
+        }
+        const { data } = await response.json();
+        setOffer(data);
+      } catch (error) {
+        console.error("Error loading waitlist offer:", error);
+        setOffer(null);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadOffer();
+  }, [token]);
+
+  const handleClaim = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/waitlist/offers/${token}/claim`, {
+        method: "POST",
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || "No se pudo apartar el horario");
+      }
+
+      setHoldId(result.data.holdId);
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "No se pudo apartar el horario"
+      );
+      setOffer((prev) => (prev ? { ...prev, status: "EXPIRED" } : prev));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    setIsSubmitting(true);
+    try {
+      const response = await fetch(`/api/waitlist/offers/${token}/decline`, {
+        method: "POST",
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "No se pudo rechazar la oferta");
+      }
+
+      toast.success("Ofreceremos el horario al siguiente paciente");
+      router.push("/paciente/citas");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "No se pudo rechazar la oferta"
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startsAt = offer ? new Date(offer.startsAt) : null;
+  const isAvailable =
+    offer?.status === "PENDING" && new Date(offer.expiresAt) > new Date();
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <MainNav />
+
+      <div className="flex-1 bg-muted/30">
+        <div className="max-width-container py-8">
+          <Card className="max-w-lg mx-auto">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <BellRing className="h-5 w-5" />
+                <span>Se liberó un horario</span>
+              </CardTitle>
+              <CardDescription>
+                Estabas en la lista de espera y apartamos este horario para ti
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {isLoading ? (
+                <div className="h-32 bg-muted rounded animate-pulse" />
+              ) : !offer || !startsAt ? (
+                <div className="text-center py-6">
+                  <AlertCircle className="h-10 w-10 text-muted-foreground mx-auto mb-3" />
+                  <p className="text-muted-foreground">Oferta no encontrada</p>
+                </div>
+              ) : (
+                <>
+                  <div className="space-y-3">
+                    <div>
+                      <p className="font-medium">{offer.doctor.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {offer.doctor.specialty} ·{" "}
+                        {translateConsultationType(offer.type)}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm">
+                      <Calendar className="h-4 w-4 text-muted-foreground" />
+                      <span>
+                        {format(startsAt, "EEEE dd 'de' MMMM", { locale: es })}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm">
+                      <Clock className="h-4 w-4 text-muted-foreground" />
+                      <span>
+                        {formatMexicanTime(startsAt)} · {offer.duration} min ·{" "}
+                        {formatMexicanCurrency(offer.price)}
+                      </span>
+                    </div>
+                  </div>
+
+                  {isAvailable ? (
+                    <>
+                      <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                        Tienes hasta las{" "}
+                        {formatMexicanTime(new Date(offer.expiresAt))} para
+                        reservarlo. Después se ofrecerá al siguiente paciente.
+                      </p>
+                      <div className="flex flex-col space-y-2">
+                        <Button onClick={handleClaim} disabled={isSubmitting}>
+                          Reservar este horario
+                        </Button>
+                        <Button
+                          variant="outline"
+                          onClick={handleDecline}
+                          disabled={isSubmitting}
+                        >
+                          No me interesa
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    <div className="text-center space-y-3">
+                      <p className="text-sm text-muted-foreground">
+                        {offer.status === "CLAIMED"
+                          ? "Ya reservaste este horario."
+                          : "Esta oferta ya no está disponible. Seguirás en la lista de espera si aún hay fechas pendientes."}
+                      </p>
+                      <Link href="/paciente/citas">
+                        <Button variant="outline">Ver mis citas</Button>
+                      </Link>
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Footer />
+
+      {offer && startsAt && holdId && (
+        <AppointmentBookingModal
+          isOpen={!!holdId}
+          onClose={() => router.push("/paciente/citas")}
+          doctor={offer.doctor}
+          consultationType={offer.type}
+          selectedDateTime={startsAt}
+          price={offer.price}
+          holdId={holdId}
+        />
+      )}
+    </div>
+  );
+}
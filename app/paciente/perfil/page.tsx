@@ -12,7 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { User, Mail, Phone, MapPin, Calendar, Save, Edit, Camera } from 'lucide-react';
+import { User, Mail, Phone, MapPin, Calendar, Save, Edit, Camera, HeartPulse } from 'lucide-react';
+import Link from 'next/link';
 import { toast } from 'sonner';
 
 interface PatientProfile {
@@ -24,9 +25,6 @@ interface PatientProfile {
   address: string;
   emergencyContact: string;
   emergencyPhone: string;
-  allergies: string;
-  medications: string;
-  medicalHistory: string;
 }
 
 type PatientProfileKey = keyof PatientProfile;
@@ -44,10 +42,7 @@ export default function PatientProfilePage() {
     gender: '',
     address: '',
     emergencyContact: '',
-    emergencyPhone: '',
-    allergies: '',
-    medications: '',
-    medicalHistory: ''
+    emergencyPhone: ''
   });
 
   useEffect(() => {
@@ -75,10 +70,7 @@ export default function PatientProfilePage() {
           gender: data.gender || '',
           address: data.address || '',
           emergencyContact: data.emergencyContact || '',
-          emergencyPhone: data.emergencyPhone || '',
-          allergies: data.allergies || '',
-          medications: data.medications || '',
-          medicalHistory: data.medicalHistory || ''
+          emergencyPhone: data.emergencyPhone || ''
         });
       }
     } catch (error) {
@@ -283,45 +275,20 @@ export default function PatientProfilePage() {
             <Card>
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
-                  <Calendar className="h-5 w-5" />
+                  <HeartPulse className="h-5 w-5" />
                   <span>Información Médica</span>
                 </CardTitle>
                 <CardDescription>
-                  Historial médico, alergias y medicamentos
+                  Alergias, enfermedades crónicas, medicamentos, grupo sanguíneo y vacunas
                 </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <Label htmlFor="allergies">Alergias</Label>
-                  <Textarea
-                    id="allergies"
-                    value={profile.allergies}
-                    onChange={(e) => handleInputChange('allergies', e.target.value)}
-                    disabled={!isEditing}
-                    placeholder="Lista de alergias conocidas (medicamentos, alimentos, etc.)"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="medications">Medicamentos actuales</Label>
-                  <Textarea
-                    id="medications"
-                    value={profile.medications}
-                    onChange={(e) => handleInputChange('medications', e.target.value)}
-                    disabled={!isEditing}
-                    placeholder="Medicamentos que tomas actualmente"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="medicalHistory">Historial médico</Label>
-                  <Textarea
-                    id="medicalHistory"
-                    value={profile.medicalHistory}
-                    onChange={(e) => handleInputChange('medicalHistory', e.target.value)}
-                    disabled={!isEditing}
-                    placeholder="Enfermedades previas, cirugías, condiciones médicas importantes"
-                    className="min-h-[100px]"
-                  />
-                </div>
+              <CardContent className="flex items-center justify-between">
+                <p className="text-sm text-gray-600">
+                  Tus doctores consultan tu expediente antes de cada cita
+                </p>
+                <Link href="/paciente/expediente">
+                  <Button variant="outline">Ver mi expediente</Button>
+                </Link>
               </CardContent>
             </Card>
           </div>
@@ -0,0 +1,326 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import {
+  formatMexicanCurrency,
+  translateConsultationType,
+} from "@/lib/mexican-utils";
+import { ConsultationType, PaymentMethod, PaymentStatus } from "@prisma/client";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import {
+  Calendar,
+  CheckCircle,
+  Clock,
+  Copy,
+  ExternalLink,
+  Loader2,
+  Printer,
+  Store,
+  XCircle,
+} from "lucide-react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+
+interface PaymentVoucherData {
+  appointment: {
+    id: string;
+    status: string;
+    scheduledAt: string;
+    type: ConsultationType;
+    doctorName: string;
+    doctorSpecialty: string;
+  };
+  payment: {
+    id: string;
+    status: PaymentStatus;
+    method: PaymentMethod;
+    amount: number;
+    voucherReference: string | null;
+    voucherClabe: string | null;
+    voucherUrl: string | null;
+    voucherExpiresAt: string | null;
+  } | null;
+}
+
+// Mientras la ficha siga pendiente se consulta de nuevo por si ya se pagó
+const REFRESH_INTERVAL_MS = 15000;
+
+const OXXO_STEPS = [
+  "Acude a cualquier tienda OXXO antes de la fecha límite.",
+  "Indica en caja que harás un pago de MercadoPago y muestra la referencia.",
+  "Paga el monto exacto en efectivo y conserva tu comprobante.",
+  "Confirmaremos tu cita en cuanto OXXO nos notifique el pago (hasta 1 hora).",
+];
+
+const SPEI_STEPS = [
+  "Entra a la banca en línea o app de tu banco.",
+  "Registra la CLABE como cuenta destino de una transferencia SPEI.",
+  "Transfiere el monto exacto antes de la fecha límite.",
+  "Confirmaremos tu cita en cuanto recibamos la transferencia.",
+];
+
+export default function PaymentPendingPage() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const [data, setData] = useState<PaymentVoucherData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // MercadoPago regresa con external_reference; nuestras ligas con appointment_id
+  const appointmentId =
+    searchParams.get("appointment_id") || searchParams.get("external_reference");
+
+  useEffect(() => {
+    if (!appointmentId) {
+      setError("No se encontró información del pago");
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const fetchVoucher = async () => {
+      try {
+        const response = await fetch(
+          `/api/appointments/${appointmentId}/payment-voucher`
+        );
+        if (!response.ok) {
+          throw new Error("Error al obtener la ficha de pago");
+        }
+
+        const result = await response.json();
+        if (cancelled) return;
+
+        setData(result.data);
+        if (result.data.payment?.status === "PENDING") {
+          timer = setTimeout(fetchVoucher, REFRESH_INTERVAL_MS);
+        }
+      } catch (error) {
+        console.error("Error fetching payment voucher:", error);
+        if (!cancelled) setError("Error al cargar la ficha de pago");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchVoucher();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [appointmentId]);
+
+  const copyToClipboard = async (value: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success("Copiado al portapapeles");
+    } catch {
+      toast.error("No se pudo copiar");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-yellow-50 to-blue-50 flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin mx-auto mb-4 text-yellow-600" />
+          <p className="text-gray-600">Cargando tu ficha de pago...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 to-orange-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 text-center">
+            <XCircle className="h-10 w-10 text-red-600 mx-auto mb-4" />
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">
+              Error al cargar la ficha de pago
+            </h1>
+            <p className="text-gray-600 mb-4">
+              {error || "No se pudo cargar la información del pago"}
+            </p>
+            <Button onClick={() => router.push("/paciente/citas")} className="w-full">
+              Ir a mis citas
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { appointment, payment } = data;
+  const isSpei = payment?.method === "SPEI";
+  const hasVoucher = Boolean(payment?.voucherExpiresAt);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-yellow-50 to-blue-50 p-4 print:bg-white">
+      <div className="max-w-2xl mx-auto py-8">
+        <div className="text-center mb-8">
+          <div className="w-20 h-20 bg-yellow-100 rounded-full flex items-center justify-center mx-auto mb-4 print:hidden">
+            <Clock className="h-10 w-10 text-yellow-600" />
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">
+            {payment?.status === "COMPLETED"
+              ? "¡Pago recibido!"
+              : payment?.status === "FAILED"
+                ? "Ficha de pago vencida"
+                : "Ficha de pago"}
+          </h1>
+          <p className="text-lg text-gray-600">
+            {payment?.status === "COMPLETED"
+              ? "Tu cita médica ha sido confirmada"
+              : payment?.status === "FAILED"
+                ? "No recibimos el pago a tiempo y la cita fue cancelada"
+                : "Tu horario está apartado hasta la fecha límite de pago"}
+          </p>
+        </div>
+
+        {payment?.status === "PENDING" && !hasVoucher && (
+          <Card className="mb-6">
+            <CardContent className="p-6 text-center">
+              <Loader2 className="h-6 w-6 animate-spin mx-auto mb-3 text-yellow-600" />
+              <p className="text-gray-600">
+                Estamos recibiendo tu ficha de MercadoPago. Esta página se
+                actualizará en unos momentos.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {payment && hasVoucher && payment.status === "PENDING" && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center space-x-2">
+                  <Store className="h-5 w-5 text-yellow-600" />
+                  <span>{isSpei ? "Transferencia SPEI" : "Pago en OXXO"}</span>
+                </span>
+                <Badge variant="outline">Pendiente de pago</Badge>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Monto a pagar:</span>
+                <span className="font-semibold text-2xl">
+                  {formatMexicanCurrency(payment.amount)}
+                </span>
+              </div>
+
+              {(isSpei ? payment.voucherClabe : payment.voucherReference) && (
+                <div className="bg-gray-50 rounded-lg p-4 text-center">
+                  <p className="text-sm text-gray-600 mb-1">
+                    {isSpei ? "CLABE interbancaria" : "Referencia de pago"}
+                  </p>
+                  <div className="flex items-center justify-center space-x-2">
+                    <span className="font-mono text-2xl font-bold tracking-wider">
+                      {isSpei ? payment.voucherClabe : payment.voucherReference}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="print:hidden"
+                      onClick={() =>
+                        copyToClipboard(
+                          (isSpei ? payment.voucherClabe : payment.voucherReference)!
+                        )
+                      }
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Fecha límite de pago:</span>
+                <span className="font-medium text-red-600">
+                  {format(
+                    new Date(payment.voucherExpiresAt!),
+                    "d 'de' MMMM 'de' yyyy 'a las' HH:mm",
+                    { locale: es }
+                  )}
+                </span>
+              </div>
+
+              <Separator />
+
+              <div>
+                <h3 className="font-medium mb-2">¿Cómo pagar?</h3>
+                <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700">
+                  {(isSpei ? SPEI_STEPS : OXXO_STEPS).map((step) => (
+                    <li key={step}>{step}</li>
+                  ))}
+                </ol>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Si no pagas antes de la fecha límite, la cita se cancelará
+                automáticamente y el horario quedará disponible para otros
+                pacientes.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center space-x-2">
+              <Calendar className="h-5 w-5 text-blue-600" />
+              <span>Tu cita</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2 text-sm">
+            <p className="font-medium">{appointment.doctorName}</p>
+            <p className="text-gray-600">{appointment.doctorSpecialty}</p>
+            <p>
+              {format(
+                new Date(appointment.scheduledAt),
+                "EEEE d 'de' MMMM 'de' yyyy 'a las' HH:mm",
+                { locale: es }
+              )}
+            </p>
+            <p className="text-gray-600">
+              Consulta {translateConsultationType(appointment.type)}
+            </p>
+          </CardContent>
+        </Card>
+
+        <div className="flex flex-col sm:flex-row gap-3 print:hidden">
+          {payment?.status === "PENDING" && hasVoucher && (
+            <Button onClick={() => window.print()} className="flex-1">
+              <Printer className="h-4 w-4 mr-2" />
+              Imprimir ficha
+            </Button>
+          )}
+          {payment?.status === "PENDING" && payment.voucherUrl && (
+            <a href={payment.voucherUrl} target="_blank" rel="noreferrer" className="flex-1">
+              <Button variant="outline" className="w-full">
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Ficha de MercadoPago
+              </Button>
+            </a>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => router.push("/paciente/citas")}
+            className="flex-1"
+          >
+            {payment?.status === "COMPLETED" && (
+              <CheckCircle className="h-4 w-4 mr-2" />
+            )}
+            Ir a mis citas
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
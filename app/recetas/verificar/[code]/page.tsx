@@ -0,0 +1,94 @@
+import { Metadata } from 'next';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { MainNav } from '@/components/main-nav';
+import { Footer } from '@/components/footer';
+import { formatMexicanDate } from '@/lib/mexican-utils';
+import { verifyPrescription } from '@/lib/prescriptions';
+import { DEFAULT_TIME_ZONE } from '@/lib/timezones';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Verificación de Receta - Medica Movil',
+  robots: { index: false },
+};
+
+// Página pública a la que lleva el QR impreso en las recetas
+export default async function PrescriptionVerificationPage({
+  params
+}: {
+  params: { code: string }
+}) {
+  const prescription = await verifyPrescription(params.code);
+
+  return (
+    <div className="flex flex-col min-h-screen">
+      <MainNav />
+
+      <div className="flex-1 bg-muted/30">
+        <div className="max-width-container py-10 max-w-2xl">
+          {!prescription ? (
+            <Card>
+              <CardContent className="text-center py-10">
+                <XCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+                <h1 className="text-xl font-semibold mb-2">Receta no encontrada</h1>
+                <p className="text-muted-foreground">
+                  El código <strong>{params.code}</strong> no corresponde a ninguna receta
+                  emitida en Medica Movil. Verifique que esté escrito correctamente.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2 text-success">
+                  <CheckCircle className="h-6 w-6" />
+                  <span>Receta válida</span>
+                </CardTitle>
+                <CardDescription>
+                  Folio {prescription.verificationCode} · emitida el{' '}
+                  {formatMexicanDate(prescription.issuedAt, DEFAULT_TIME_ZONE)}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Médico</p>
+                    <p className="font-medium">{prescription.doctorName}</p>
+                    <p>{prescription.specialty}</p>
+                    <p>Cédula profesional: {prescription.cedulaProfesional}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Paciente</p>
+                    <p className="font-medium">{prescription.patientName}</p>
+                  </div>
+                </div>
+
+                <div>
+                  <h2 className="font-medium mb-2">Medicamentos prescritos</h2>
+                  <ol className="space-y-2 list-decimal pl-5 text-sm">
+                    {prescription.items.map((item, index) => (
+                      <li key={index}>
+                        <p className="font-medium">{item.medication}</p>
+                        <p className="text-muted-foreground">
+                          {item.dose}, {item.frequency}, durante {item.duration}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Compare estos datos con la receta impresa antes de surtirla.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
@@ -119,6 +119,7 @@ export default function RegisterPage() {
           email: formData.email.toLowerCase().trim(),
           phone: phoneValidation.formatted,
           password: formData.password,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
           userType
         }),
       });
@@ -1,12 +1,14 @@
 import { PaymentProviderType } from "@/lib/payments/types";
 import "@testing-library/jest-dom";
 import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { renderToString } from "react-dom/server";
+import { beforeEach, describe, expect, test, vi } from "vitest";
 import { PaymentMethodSelector } from "../payment-method-selector";
 
 // Mock the PaymentService
-jest.mock("@/lib/payments/PaymentService", () => ({
-  PaymentService: jest.fn().mockImplementation(() => ({
-    getAvailableProviders: jest.fn().mockReturnValue([
+vi.mock("@/lib/payments/PaymentService", () => ({
+  PaymentService: vi.fn().mockImplementation(() => ({
+    getAvailableProviders: vi.fn().mockReturnValue([
       {
         id: "stripe",
         name: "stripe",
@@ -46,18 +48,52 @@ jest.mock("@/lib/payments/PaymentService", () => ({
   })),
 }));
 
+// Native select in place of the Radix one, which jsdom can't open
+vi.mock("@/components/ui/select", () => ({
+  Select: ({ value, onValueChange, children }: any) => (
+    <select
+      aria-label="Forma de pago"
+      value={value}
+      onChange={(event) => onValueChange(event.target.value)}
+    >
+      {children}
+    </select>
+  ),
+  SelectTrigger: () => null,
+  SelectValue: () => null,
+  SelectContent: ({ children }: any) => <>{children}</>,
+  SelectItem: ({ value, children }: any) => <option value={value}>{children}</option>,
+}));
+
+const installmentPlans = [
+  { months: 3, interestFree: true, monthlyAmount: 333.33 },
+  { months: 12, interestFree: false, monthlyAmount: null },
+];
+
+function mockInstallmentPlans(plans: typeof installmentPlans) {
+  vi.mocked(fetch).mockResolvedValue({
+    ok: true,
+    json: async () => ({ data: { plans } }),
+  } as Response);
+}
+
 describe("PaymentMethodSelector", () => {
   const defaultProps = {
     selectedProvider: null as PaymentProviderType | null,
-    onProviderChange: jest.fn(),
+    onProviderChange: vi.fn(),
     price: 1000,
-    onPaymentInitiate: jest.fn(),
+    doctorId: "doctor-1",
+    installmentMonths: null as number | null,
+    onInstallmentChange: vi.fn(),
+    onPaymentInitiate: vi.fn(),
     isProcessing: false,
     error: null,
   };
 
   beforeEach(() => {
-    jest.clearAllMocks();
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", vi.fn());
+    mockInstallmentPlans([]);
   });
 
   test("renders all payment providers", async () => {
@@ -77,13 +113,13 @@ describe("PaymentMethodSelector", () => {
       expect(
         screen.getByText("Pago seguro con tarjeta de crédito o débito")
       ).toBeInTheDocument();
-      expect(screen.getByText("3.6% + $3 MXN")).toBeInTheDocument();
-      expect(screen.getByText("Inmediato")).toBeInTheDocument();
+      expect(screen.getByText("💳 3.6% + $3 MXN")).toBeInTheDocument();
+      expect(screen.getAllByText("⏱️ Inmediato")).toHaveLength(2);
     });
   });
 
   test("calls onProviderChange when provider is selected", async () => {
-    const onProviderChange = jest.fn();
+    const onProviderChange = vi.fn();
     render(
       <PaymentMethodSelector
         {...defaultProps}
@@ -116,7 +152,7 @@ describe("PaymentMethodSelector", () => {
         .getByText("Tarjeta de Crédito/Débito")
         .closest(".ring-2");
       expect(stripeCard).toBeInTheDocument();
-      expect(screen.getByTestId("check-icon")).toBeInTheDocument();
+      expect(stripeCard!.querySelector(".lucide-check")).toBeInTheDocument();
     });
   });
 
@@ -139,7 +175,7 @@ describe("PaymentMethodSelector", () => {
     );
 
     await waitFor(() => {
-      expect(screen.getByText(/PayPal/)).toBeInTheDocument();
+      expect(screen.getByText("PayPal:")).toBeInTheDocument();
       expect(
         screen.getByText(/Protección al comprador incluida/)
       ).toBeInTheDocument();
@@ -152,9 +188,9 @@ describe("PaymentMethodSelector", () => {
     );
 
     await waitFor(() => {
-      expect(screen.getByText(/MercadoPago/)).toBeInTheDocument();
+      expect(screen.getByText("MercadoPago:")).toBeInTheDocument();
       expect(
-        screen.getByText(/Opciones de pago mexicanas/)
+        screen.getByText(/Opciones de pago mexicanas incluyendo/)
       ).toBeInTheDocument();
     });
   });
@@ -170,7 +206,7 @@ describe("PaymentMethodSelector", () => {
   });
 
   test("calls onPaymentInitiate when payment button is clicked", async () => {
-    const onPaymentInitiate = jest.fn();
+    const onPaymentInitiate = vi.fn();
     render(
       <PaymentMethodSelector
         {...defaultProps}
@@ -215,15 +251,10 @@ describe("PaymentMethodSelector", () => {
   });
 
   test("shows loading state initially", () => {
-    // Mock empty providers to simulate loading
-    const { PaymentService } = await import("@/lib/payments/PaymentService");
-    PaymentService.mockImplementation(() => ({
-      getAvailableProviders: jest.fn().mockReturnValue([]),
-    }));
-
-    render(<PaymentMethodSelector {...defaultProps} />);
+    // Effects don't run on the server, so the providers are never loaded
+    const html = renderToString(<PaymentMethodSelector {...defaultProps} />);
 
-    expect(screen.getByText("Cargando métodos de pago...")).toBeInTheDocument();
+    expect(html).toContain("Cargando métodos de pago...");
   });
 
   test("displays supported payment methods as badges", async () => {
@@ -246,7 +277,7 @@ describe("PaymentMethodSelector", () => {
   });
 
   test("handles provider selection change correctly", async () => {
-    const onProviderChange = jest.fn();
+    const onProviderChange = vi.fn();
     render(
       <PaymentMethodSelector
         {...defaultProps}
@@ -294,4 +325,78 @@ describe("PaymentMethodSelector", () => {
       expect(screen.getByText("Pagar $1234.56 MXN")).toBeInTheDocument();
     });
   });
+
+  test("offers the installment plans of the selected provider", async () => {
+    mockInstallmentPlans(installmentPlans);
+    render(
+      <PaymentMethodSelector {...defaultProps} selectedProvider="mercadopago" />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByLabelText("Forma de pago")).toBeInTheDocument();
+    });
+
+    expect(fetch).toHaveBeenCalledWith(
+      "/api/payments/installments?provider=mercadopago&doctorId=doctor-1&amount=1000"
+    );
+    expect(screen.getByText("Pago en una sola exhibición")).toBeInTheDocument();
+    expect(screen.getByText(/^3 meses sin intereses de/)).toBeInTheDocument();
+    expect(
+      screen.getByText("12 meses con intereses de tu banco")
+    ).toBeInTheDocument();
+  });
+
+  test("hides the installment options when the provider offers none", async () => {
+    render(<PaymentMethodSelector {...defaultProps} selectedProvider="paypal" />);
+
+    await waitFor(() => {
+      expect(fetch).toHaveBeenCalled();
+    });
+
+    expect(screen.queryByLabelText("Forma de pago")).not.toBeInTheDocument();
+  });
+
+  test("calls onInstallmentChange when a plan is chosen", async () => {
+    const onInstallmentChange = vi.fn();
+    mockInstallmentPlans(installmentPlans);
+    render(
+      <PaymentMethodSelector
+        {...defaultProps}
+        selectedProvider="stripe"
+        onInstallmentChange={onInstallmentChange}
+      />
+    );
+
+    const select = await screen.findByLabelText("Forma de pago");
+    fireEvent.change(select, { target: { value: "3" } });
+    expect(onInstallmentChange).toHaveBeenLastCalledWith(3);
+
+    fireEvent.change(select, { target: { value: "1" } });
+    expect(onInstallmentChange).toHaveBeenLastCalledWith(null);
+  });
+
+  test("resets the installments only when the provider changes", async () => {
+    const onInstallmentChange = vi.fn();
+    render(
+      <PaymentMethodSelector
+        {...defaultProps}
+        selectedProvider="stripe"
+        installmentMonths={3}
+        onInstallmentChange={onInstallmentChange}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText("PayPal")).toBeInTheDocument();
+    });
+    expect(onInstallmentChange).not.toHaveBeenCalled();
+
+    fireEvent.click(
+      screen.getByText("Tarjeta de Crédito/Débito").closest(".cursor-pointer")!
+    );
+    expect(onInstallmentChange).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText("PayPal").closest(".cursor-pointer")!);
+    expect(onInstallmentChange).toHaveBeenCalledWith(null);
+  });
 });
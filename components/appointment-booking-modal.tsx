@@ -12,6 +12,13 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -19,6 +26,7 @@ import {
   formatMexicanTime,
   translateConsultationType,
 } from "@/lib/mexican-utils";
+import { PaymentProviderType } from "@/lib/payments/types";
 import { ConsultationType } from "@prisma/client";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
@@ -29,11 +37,12 @@ import {
   CreditCard,
   Home,
   MapPin,
+  Repeat,
   Stethoscope,
   Video,
 } from "lucide-react";
 import { useRouter } from "next/navigation";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { toast } from "sonner";
 
 interface Doctor {
@@ -52,6 +61,29 @@ interface AppointmentBookingModalProps {
   consultationType: ConsultationType;
   selectedDateTime: Date;
   price: number;
+  holdId: string;
+}
+
+interface SeriesOccurrencePreview {
+  scheduledAt: string;
+  available: boolean;
+  conflict?: { reason: string; message: string };
+}
+
+const RECURRENCE_OPTIONS = [
+  { value: "NONE", label: "No se repite" },
+  { value: "WEEKLY-1", label: "Cada semana" },
+  { value: "WEEKLY-2", label: "Cada 2 semanas" },
+  { value: "WEEKLY-4", label: "Cada 4 semanas" },
+  { value: "MONTHLY-1", label: "Cada mes" },
+];
+
+const OCCURRENCE_COUNTS = [2, 3, 4, 6, 8, 10, 12];
+
+function toRecurrenceRule(recurrence: string, count: number) {
+  if (recurrence === "NONE") return null;
+  const [frequency, interval] = recurrence.split("-");
+  return { frequency, interval: Number(interval), count };
 }
 
 export function AppointmentBookingModal({
@@ -61,37 +93,79 @@ export function AppointmentBookingModal({
   consultationType,
   selectedDateTime,
   price,
+  holdId,
 }: AppointmentBookingModalProps) {
   const [notes, setNotes] = useState("");
   const [selectedProvider, setSelectedProvider] =
     useState<PaymentProviderType | null>(null);
+  const [installmentMonths, setInstallmentMonths] = useState<number | null>(
+    null
+  );
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [paymentError, setPaymentError] = useState<string | null>(null);
   const [createdAppointment, setCreatedAppointment] = useState<any>(null);
+  const [recurrence, setRecurrence] = useState("NONE");
+  const [occurrenceCount, setOccurrenceCount] = useState(4);
+  const [seriesPreview, setSeriesPreview] = useState<
+    SeriesOccurrencePreview[] | null
+  >(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const router = useRouter();
 
-  const handlePaymentInitiation = async (provider: PaymentProviderType) => {
-    let appointmentId: string;
-
-    // Create appointment if it doesn't exist
-    if (!createdAppointment) {
-      try {
-        const appointment = await createAppointment();
-        appointmentId = appointment.id;
-      } catch (error) {
-        return; // Error already handled in createAppointment
-      }
-    } else {
-      appointmentId = createdAppointment.id;
+  // Mostrar qué fechas de la serie están disponibles antes de reservar
+  useEffect(() => {
+    const rule = toRecurrenceRule(recurrence, occurrenceCount);
+    if (!isOpen || !rule) {
+      setSeriesPreview(null);
+      return;
     }
 
-    const createAppointment = async () => {
-      setIsSubmitting(true);
-      setPaymentError(null);
+    let cancelled = false;
+    setIsLoadingPreview(true);
+
+    fetch("/api/appointments/series/preview", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        doctorId: doctor.id,
+        type: consultationType,
+        scheduledAt: selectedDateTime.toISOString(),
+        recurrence: rule,
+        holdId,
+      }),
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (!cancelled) setSeriesPreview(result?.data?.occurrences ?? null);
+      })
+      .catch((error) => console.error("Error previewing series:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoadingPreview(false);
+      });
 
-      try {
-        const appointmentResponse = await fetch("/api/appointments", {
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    isOpen,
+    recurrence,
+    occurrenceCount,
+    doctor.id,
+    consultationType,
+    selectedDateTime,
+    holdId,
+  ]);
+
+  const createAppointment = async () => {
+    setIsSubmitting(true);
+    setPaymentError(null);
+
+    try {
+      const rule = toRecurrenceRule(recurrence, occurrenceCount);
+      const appointmentResponse = await fetch(
+        rule ? "/api/appointments/series" : "/api/appointments",
+        {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
@@ -101,30 +175,66 @@ export function AppointmentBookingModal({
             type: consultationType,
             scheduledAt: selectedDateTime.toISOString(),
             notes: notes.trim() || undefined,
+            holdId,
+            ...(rule ? { recurrence: rule, skipConflicts: true } : {}),
           }),
-        });
-
-        if (!appointmentResponse.ok) {
-          const error = await appointmentResponse.json();
-          throw new Error(error.error || "Error al crear la cita");
         }
+      );
+
+      if (!appointmentResponse.ok) {
+        const error = await appointmentResponse.json();
+        throw new Error(error.error || "Error al crear la cita");
+      }
+
+      const { data, message } = await appointmentResponse.json();
+
+      // En una serie se paga ahora la primera cita; las demás se pagan desde "Mis citas"
+      const appointment = rule ? data.appointments[0] : data;
+      if (rule) {
+        toast.success(message);
+      }
+
+      setCreatedAppointment(appointment);
+      return appointment;
+    } catch (error) {
+      console.error("Error:", error);
+      setPaymentError(
+        error instanceof Error ? error.message : "Error inesperado"
+      );
+      toast.error(
+        error instanceof Error ? error.message : "Error inesperado"
+      );
+      throw error;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Liberar el horario apartado si el paciente no llegó a crear la cita
+  const handleClose = () => {
+    if (!createdAppointment) {
+      fetch(`/api/appointments/holds/${holdId}`, { method: "DELETE" }).catch(
+        (error) => console.error("Error releasing slot hold:", error)
+      );
+    }
+    onClose();
+  };
+
+  const handlePaymentInitiation = async (provider: PaymentProviderType) => {
+    let appointmentId: string;
 
-        const appointment = await appointmentResponse.json();
-        setCreatedAppointment(appointment);
-        return appointment;
+    // Create appointment if it doesn't exist
+    if (!createdAppointment) {
+      try {
+        const appointment = await createAppointment();
+        appointmentId = appointment.id;
       } catch (error) {
-        console.error("Error:", error);
-        setPaymentError(
-          error instanceof Error ? error.message : "Error inesperado"
-        );
-        toast.error(
-          error instanceof Error ? error.message : "Error inesperado"
-        );
-        throw error;
-      } finally {
-        setIsSubmitting(false);
+        return; // Error already handled in createAppointment
       }
-    };
+    } else {
+      appointmentId = createdAppointment.id;
+    }
+
     setIsProcessingPayment(true);
     setPaymentError(null);
 
@@ -154,7 +264,7 @@ export function AppointmentBookingModal({
             {
               method: "POST",
               headers: { "Content-Type": "application/json" },
-              body: JSON.stringify({ appointmentId }),
+              body: JSON.stringify({ appointmentId, installmentMonths }),
             }
           );
           break;
@@ -228,7 +338,7 @@ export function AppointmentBookingModal({
   const consultation = getConsultationDetails();
 
   return (
-    <Dialog open={isOpen} onOpenChange={onClose}>
+    <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-lg">
         <DialogHeader>
           <DialogTitle className="flex items-center space-x-2">
@@ -305,6 +415,96 @@ export function AppointmentBookingModal({
 
           <Separator />
 
+          {/* Repetición */}
+          <div className="space-y-2">
+            <Label className="flex items-center space-x-2">
+              <Repeat className="h-4 w-4" />
+              <span>Repetir cita</span>
+            </Label>
+            <div className="flex space-x-2">
+              <Select
+                value={recurrence}
+                onValueChange={setRecurrence}
+                disabled={!!createdAppointment}
+              >
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECURRENCE_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {recurrence !== "NONE" && (
+                <Select
+                  value={String(occurrenceCount)}
+                  onValueChange={(value) => setOccurrenceCount(Number(value))}
+                  disabled={!!createdAppointment}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OCCURRENCE_COUNTS.map((count) => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count} citas
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {recurrence !== "NONE" && (
+              <div className="rounded-lg border p-3 text-sm space-y-1">
+                {isLoadingPreview || !seriesPreview ? (
+                  <p className="text-muted-foreground">
+                    Revisando disponibilidad...
+                  </p>
+                ) : (
+                  <>
+                    {seriesPreview.map((occurrence) => (
+                      <div
+                        key={occurrence.scheduledAt}
+                        className="flex items-center justify-between"
+                      >
+                        <span
+                          className={
+                            occurrence.available
+                              ? ""
+                              : "text-muted-foreground line-through"
+                          }
+                        >
+                          {format(
+                            new Date(occurrence.scheduledAt),
+                            "EEE dd 'de' MMM, HH:mm",
+                            { locale: es }
+                          )}
+                        </span>
+                        {!occurrence.available && (
+                          <span className="text-xs text-red-600">
+                            {occurrence.conflict?.message}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground pt-1">
+                      Las fechas no disponibles se omitirán. Pagarás ahora la
+                      primera cita y las siguientes desde &quot;Mis citas&quot;
+                      hasta 48 horas antes de cada una; si no se pagan, su
+                      horario se libera.
+                    </p>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+
+          <Separator />
+
           {/* Notas opcionales */}
           <div className="space-y-2">
             <Label htmlFor="notes">Notas adicionales (opcional)</Label>
@@ -328,6 +528,9 @@ export function AppointmentBookingModal({
             selectedProvider={selectedProvider}
             onProviderChange={setSelectedProvider}
             price={price}
+            doctorId={doctor.id}
+            installmentMonths={installmentMonths}
+            onInstallmentChange={setInstallmentMonths}
             onPaymentInitiate={handlePaymentInitiation}
             isProcessing={isProcessingPayment}
             error={paymentError}
@@ -358,6 +561,10 @@ export function AppointmentBookingModal({
                   Serás redirigido a la plataforma de pago segura para completar
                   tu cita.
                 </p>
+                <p className="text-amber-700 mt-1">
+                  Apartamos este horario para ti por unos minutos. Si no
+                  completas el pago a tiempo, se liberará para otros pacientes.
+                </p>
               </div>
             </div>
           </div>
@@ -366,7 +573,7 @@ export function AppointmentBookingModal({
         <DialogFooter className="flex flex-col space-y-2">
           <Button
             variant="outline"
-            onClick={onClose}
+            onClick={handleClose}
             disabled={isSubmitting || isProcessingPayment}
             className="w-full"
           >
@@ -13,16 +13,19 @@ import {
   Video, 
   Home, 
   Stethoscope,
-  AlertCircle
+  AlertCircle,
+  BellRing
 } from 'lucide-react';
 import { format, addDays, isSameDay } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { formatMexicanCurrency, translateConsultationType, formatMexicanTime } from '@/lib/mexican-utils';
 import { ConsultationType } from '@prisma/client';
+import { toast } from 'sonner';
 
 interface TimeSlot {
   start: string;
   end: string;
+  offset: string; // desfase UTC del doctor, p. ej. -06:00
   available: boolean;
 }
 
@@ -31,25 +34,34 @@ interface AvailabilityResponse {
   reason?: string;
   slots: TimeSlot[];
   price?: number;
+  waitlistAvailable?: boolean;
+  timeZone?: string; // zona horaria IANA del doctor
 }
 
 interface AppointmentCalendarProps {
   doctorId: string;
   consultationType: ConsultationType;
-  onSlotSelect: (dateTime: Date, price: number) => void;
+  onSlotSelect: (dateTime: Date, price: number, holdId: string | null) => void;
   selectedSlot?: Date;
+  // Al reprogramar no se aparta el horario: la cita conserva su propia reserva
+  reserveSlot?: boolean;
 }
 
 export function AppointmentCalendar({ 
   doctorId, 
   consultationType, 
   onSlotSelect, 
-  selectedSlot 
+  selectedSlot,
+  reserveSlot = true
 }: AppointmentCalendarProps) {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>();
   const [availability, setAvailability] = useState<AvailabilityResponse | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [holdingSlot, setHoldingSlot] = useState<string | null>(null);
+  const [waitlistRange, setWaitlistRange] = useState<0 | 6>(0);
+  const [isJoiningWaitlist, setIsJoiningWaitlist] = useState(false);
+  const viewerTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
   // Obtener disponibilidad cuando cambia la fecha
   useEffect(() => {
@@ -64,7 +76,7 @@ export function AppointmentCalendar({
     
     try {
       const response = await fetch(
-        `/api/doctors/${doctorId}/availability?date=${date.toISOString()}&type=${consultationType}`
+        `/api/doctors/${doctorId}/availability?date=${format(date, 'yyyy-MM-dd')}&type=${consultationType}`
       );
       
       if (!response.ok) {
@@ -86,9 +98,76 @@ export function AppointmentCalendar({
     setAvailability(null);
   };
 
-  const handleSlotSelect = (slot: TimeSlot) => {
+  // Apartar el horario mientras el paciente confirma y paga
+  const handleSlotSelect = async (slot: TimeSlot) => {
     const slotDate = new Date(slot.start);
-    onSlotSelect(slotDate, availability?.price || 0);
+
+    if (!reserveSlot) {
+      onSlotSelect(slotDate, availability?.price || 0, null);
+      return;
+    }
+
+    setHoldingSlot(slot.start);
+
+    try {
+      const response = await fetch('/api/appointments/holds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          doctorId,
+          scheduledAt: slotDate.toISOString(),
+          type: consultationType,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'No se pudo apartar el horario');
+      }
+
+      onSlotSelect(slotDate, availability?.price || 0, data.data.id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'No se pudo apartar el horario');
+      if (selectedDate) {
+        fetchAvailability(selectedDate);
+      }
+    } finally {
+      setHoldingSlot(null);
+    }
+  };
+
+  // Avisar al paciente si se libera un horario en el día o en la semana elegida
+  const handleJoinWaitlist = async () => {
+    if (!selectedDate) return;
+    setIsJoiningWaitlist(true);
+
+    try {
+      const response = await fetch('/api/waitlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          doctorId,
+          type: consultationType,
+          dateFrom: format(selectedDate, 'yyyy-MM-dd'),
+          dateTo: format(addDays(selectedDate, waitlistRange), 'yyyy-MM-dd'),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'No se pudo unir a la lista de espera');
+      }
+
+      toast.success('Te uniste a la lista de espera', {
+        description: data.message,
+      });
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'No se pudo unir a la lista de espera');
+    } finally {
+      setIsJoiningWaitlist(false);
+    }
   };
 
   const getConsultationIcon = () => {
@@ -207,6 +286,36 @@ export function AppointmentCalendar({
                 <p className="text-sm text-muted-foreground">
                   {availability?.reason || 'Este día no está disponible'}
                 </p>
+                {availability?.waitlistAvailable && (
+                  <div className="mt-6 space-y-3">
+                    <p className="text-sm">
+                      Únete a la lista de espera y te avisaremos si se libera un horario.
+                    </p>
+                    <div className="flex justify-center gap-2">
+                      <Button
+                        size="sm"
+                        variant={waitlistRange === 0 ? 'default' : 'outline'}
+                        onClick={() => setWaitlistRange(0)}
+                      >
+                        Solo este día
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={waitlistRange === 6 ? 'default' : 'outline'}
+                        onClick={() => setWaitlistRange(6)}
+                      >
+                        Próximos 7 días
+                      </Button>
+                    </div>
+                    <Button
+                      onClick={handleJoinWaitlist}
+                      disabled={isJoiningWaitlist}
+                    >
+                      <BellRing className="h-4 w-4 mr-2" />
+                      {isJoiningWaitlist ? 'Uniéndote...' : 'Unirme a la lista de espera'}
+                    </Button>
+                  </div>
+                )}
               </div>
             ) : (
               <div className="space-y-3">
@@ -220,6 +329,12 @@ export function AppointmentCalendar({
                   </div>
                 </div>
 
+                {availability.timeZone && availability.timeZone !== viewerTimeZone && (
+                  <p className="text-xs text-muted-foreground">
+                    Horarios mostrados en tu zona horaria ({viewerTimeZone}). El consultorio está en {availability.timeZone}.
+                  </p>
+                )}
+
                 {/* Slots de tiempo */}
                 <div className="grid grid-cols-2 gap-2 max-h-64 overflow-y-auto">
                   {availability.slots.map((slot, index) => {
@@ -235,9 +350,9 @@ export function AppointmentCalendar({
                         size="sm"
                         onClick={() => handleSlotSelect(slot)}
                         className="justify-center"
-                        disabled={!slot.available}
+                        disabled={!slot.available || holdingSlot !== null}
                       >
-                        {formatMexicanTime(slotDate)}
+                        {holdingSlot === slot.start ? 'Apartando...' : formatMexicanTime(slotDate, viewerTimeZone)}
                       </Button>
                     );
                   })}
@@ -0,0 +1,129 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CalendarPlus, Copy, RefreshCw, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface CalendarFeedModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function CalendarFeedModal({ isOpen, onClose }: CalendarFeedModalProps) {
+  const [feedUrl, setFeedUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRotating, setIsRotating] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const loadFeedUrl = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch('/api/calendar/feed');
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Error al obtener el enlace del calendario');
+        }
+        setFeedUrl(data.data.url);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Error al obtener el enlace del calendario');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadFeedUrl();
+  }, [isOpen]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Enlace copiado');
+    } catch {
+      toast.error('No se pudo copiar el enlace');
+    }
+  };
+
+  // Revocar el enlace actual si se compartió por error
+  const handleRotate = async () => {
+    setIsRotating(true);
+    try {
+      const response = await fetch('/api/calendar/feed', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al generar un nuevo enlace');
+      }
+      setFeedUrl(data.data.url);
+      toast.success(data.message);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Error al generar un nuevo enlace');
+    } finally {
+      setIsRotating(false);
+    }
+  };
+
+  const webcalUrl = feedUrl.replace(/^https?:\/\//, 'webcal://');
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <CalendarPlus className="h-5 w-5" />
+            <span>Sincronizar con tu calendario</span>
+          </DialogTitle>
+          <DialogDescription>
+            Suscríbete desde Google Calendar, Outlook o Apple Calendar para ver tus citas
+            y sus cambios automáticamente.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="calendar-feed-url">Enlace de suscripción</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="calendar-feed-url"
+                value={isLoading ? 'Cargando...' : feedUrl}
+                readOnly
+                onFocus={(event) => event.target.select()}
+              />
+              <Button variant="outline" size="icon" onClick={handleCopy} disabled={!feedUrl}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              En Google Calendar: Otros calendarios → Desde URL. En Outlook: Agregar calendario → Suscribirse desde la web.
+            </p>
+          </div>
+
+          <Alert>
+            <ShieldAlert className="h-4 w-4" />
+            <AlertDescription>
+              Cualquier persona con este enlace puede ver tus citas. No lo compartas.
+            </AlertDescription>
+          </Alert>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleRotate} disabled={isRotating || isLoading}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {isRotating ? 'Generando...' : 'Generar nuevo enlace'}
+          </Button>
+          <Button asChild disabled={!feedUrl}>
+            <a href={webcalUrl}>
+              <CalendarPlus className="h-4 w-4 mr-2" />
+              Abrir en mi calendario
+            </a>
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
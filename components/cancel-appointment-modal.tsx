@@ -1,11 +1,12 @@
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertTriangle, X, Info, DollarSign } from 'lucide-react';
 import { format } from 'date-fns';
@@ -13,13 +14,26 @@ import { es } from 'date-fns/locale';
 import { formatMexicanCurrency } from '@/lib/mexican-utils';
 import { toast } from 'sonner';
 
+interface CancellationPreview {
+  isPaid: boolean;
+  paidAmount: number;
+  policy: {
+    name: string;
+    tiers: Array<{ minHoursBefore: number; refundPercentage: number; description: string }>;
+  };
+  refundPercentage: number;
+  refundAmount: number;
+  feeRetained: number;
+  explanation: string;
+}
+
 interface CancelAppointmentModalProps {
   isOpen: boolean;
   onClose: () => void;
   appointmentId: string;
   appointmentDate: Date;
   doctorName: string;
-  price: number;
+  seriesId?: string | null;
   onCancelled?: () => void;
 }
 
@@ -29,56 +43,87 @@ export function CancelAppointmentModal({
   appointmentId, 
   appointmentDate,
   doctorName,
-  price,
+  seriesId,
   onCancelled 
 }: CancelAppointmentModalProps) {
   const [reason, setReason] = useState('');
+  const [seriesScope, setSeriesScope] = useState<'occurrence' | 'following'>('occurrence');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
-  // Calcular política de reembolso
-  const now = new Date();
-  const hoursUntilAppointment = (appointmentDate.getTime() - now.getTime()) / (1000 * 60 * 60);
-  
-  const getRefundInfo = () => {
-    if (hoursUntilAppointment >= 24) {
-      return {
-        percentage: 100,
-        amount: price,
-        policy: 'Reembolso completo',
-        description: 'Cancelación con más de 24 horas de anticipación'
-      };
-    } else if (hoursUntilAppointment >= 2) {
-      return {
-        percentage: 50,
-        amount: Math.round(price * 0.5),
-        policy: 'Reembolso del 50%',
-        description: 'Cancelación entre 2-24 horas de anticipación'
-      };
-    } else {
-      return {
-        percentage: 0,
-        amount: 0,
-        policy: 'Sin reembolso',
-        description: 'Cancelación con menos de 2 horas de anticipación'
-      };
-    }
-  };
+  const [refundPreview, setRefundPreview] = useState<CancellationPreview | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+
+  // Obtener la política de reembolso que aplica a esta cita
+  useEffect(() => {
+    if (!isOpen || !appointmentId) return;
+
+    let cancelled = false;
+    const loadPreview = async () => {
+      setIsLoadingPreview(true);
+      try {
+        const response = await fetch(`/api/appointments/${appointmentId}/cancel/preview`);
+        if (!response.ok) {
+          throw new Error('Error al obtener la política de cancelación');
+        }
+        const preview: CancellationPreview = await response.json();
+        if (!cancelled) setRefundPreview(preview);
+      } catch (error) {
+        console.error('Error loading cancellation preview:', error);
+        if (!cancelled) setRefundPreview(null);
+      } finally {
+        if (!cancelled) setIsLoadingPreview(false);
+      }
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, appointmentId]);
 
-  const refundInfo = getRefundInfo();
+  const refundInfo = {
+    percentage: refundPreview?.refundPercentage ?? 0,
+    amount: refundPreview?.refundAmount ?? 0,
+    feeRetained: refundPreview?.feeRetained ?? 0,
+    policy: !refundPreview
+      ? 'Política de cancelación'
+      : refundPreview.refundPercentage === 100
+        ? 'Reembolso completo'
+        : refundPreview.refundPercentage > 0
+          ? `Reembolso del ${refundPreview.refundPercentage}%`
+          : 'Sin reembolso',
+    description: refundPreview?.explanation ??
+      (isLoadingPreview
+        ? 'Calculando reembolso...'
+        : 'No fue posible calcular el reembolso. Se aplicará la política de cancelación del doctor.')
+  };
 
   const handleSubmit = async () => {
     setIsSubmitting(true);
 
     try {
-      const response = await fetch(`/api/appointments/${appointmentId}/cancel`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          reason: reason.trim() || undefined
-        }),
-      });
+      // Las citas de una serie se cancelan a través de la serie para poder incluir las siguientes
+      const response = seriesId
+        ? await fetch(`/api/appointments/series/${seriesId}/cancel`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              appointmentId,
+              scope: seriesScope,
+              reason: reason.trim() || undefined
+            }),
+          })
+        : await fetch(`/api/appointments/${appointmentId}/cancel`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              reason: reason.trim() || undefined
+            }),
+          });
 
       if (!response.ok) {
         const error = await response.json();
@@ -86,10 +131,13 @@ export function CancelAppointmentModal({
       }
 
       const result = await response.json();
+      const refundedAmount: number = seriesId
+        ? result.data.reduce((total: number, item: { refund: { amount: number } | null }) => total + (item.refund?.amount ?? 0), 0)
+        : result.refund?.amount ?? 0;
       
-      toast.success('Cita cancelada exitosamente', {
-        description: refundInfo.amount > 0 
-          ? `Reembolso de ${formatMexicanCurrency(refundInfo.amount)} procesándose`
+      toast.success(seriesId ? result.message : 'Cita cancelada exitosamente', {
+        description: refundedAmount > 0
+          ? `Reembolso de ${formatMexicanCurrency(refundedAmount)} procesándose`
           : 'No aplica reembolso por políticas de cancelación'
       });
       
@@ -109,6 +157,7 @@ export function CancelAppointmentModal({
   const handleClose = () => {
     if (!isSubmitting) {
       setReason('');
+      setSeriesScope('occurrence');
       onClose();
     }
   };
@@ -128,15 +177,41 @@ export function CancelAppointmentModal({
         </DialogHeader>
 
         <div className="space-y-4">
+          {/* Alcance de la cancelación en citas recurrentes */}
+          {seriesId && (
+            <div className="space-y-2">
+              <Label>Esta cita forma parte de una serie</Label>
+              <RadioGroup
+                value={seriesScope}
+                onValueChange={(value) => setSeriesScope(value as 'occurrence' | 'following')}
+                disabled={isSubmitting}
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="occurrence" id="scope-occurrence" />
+                  <Label htmlFor="scope-occurrence" className="font-normal">Solo esta cita</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="following" id="scope-following" />
+                  <Label htmlFor="scope-following" className="font-normal">Esta y las siguientes citas de la serie</Label>
+                </div>
+              </RadioGroup>
+              {seriesScope === 'following' && (
+                <p className="text-xs text-muted-foreground">
+                  El reembolso de cada cita se calcula por separado según la política de cancelación.
+                </p>
+              )}
+            </div>
+          )}
+
           {/* Política de reembolso */}
           <Alert className={
             refundInfo.percentage === 100 ? 'border-green-200 bg-green-50' :
-            refundInfo.percentage === 50 ? 'border-orange-200 bg-orange-50' :
+            refundInfo.percentage > 0 ? 'border-orange-200 bg-orange-50' :
             'border-red-200 bg-red-50'
           }>
             <DollarSign className={`h-4 w-4 ${
               refundInfo.percentage === 100 ? 'text-green-600' :
-              refundInfo.percentage === 50 ? 'text-orange-600' :
+              refundInfo.percentage > 0 ? 'text-orange-600' :
               'text-red-600'
             }`} />
             <AlertDescription>
@@ -150,11 +225,26 @@ export function CancelAppointmentModal({
                 <p className="text-sm text-muted-foreground">
                   {refundInfo.description}
                 </p>
+                {refundInfo.feeRetained > 0 && (
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Monto retenido</span>
+                    <span>{formatMexicanCurrency(refundInfo.feeRetained)}</span>
+                  </div>
+                )}
                 {refundInfo.amount > 0 && (
                   <p className="text-xs text-muted-foreground">
                     El reembolso se procesará automáticamente en 3-5 días hábiles
                   </p>
                 )}
+                {refundPreview && (
+                  <ul className="text-xs text-muted-foreground list-disc pl-4">
+                    {refundPreview.policy.tiers.map((tier) => (
+                      <li key={tier.minHoursBefore}>
+                        {tier.description}: {tier.refundPercentage}% de reembolso
+                      </li>
+                    ))}
+                  </ul>
+                )}
               </div>
             </AlertDescription>
           </Alert>
@@ -193,7 +283,7 @@ export function CancelAppointmentModal({
         <DialogFooter className="flex flex-col space-y-2">
           <Button
             onClick={handleSubmit}
-            disabled={isSubmitting}
+            disabled={isSubmitting || isLoadingPreview}
             variant="destructive"
             className="w-full"
             size="lg"
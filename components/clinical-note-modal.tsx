@@ -0,0 +1,407 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { FileSignature, FileText, Info, Pencil, Plus, Save, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+
+type NoteText = 'subjective' | 'objective' | 'assessment' | 'plan' | 'instructions';
+type VitalKey =
+  | 'systolic'
+  | 'diastolic'
+  | 'heartRate'
+  | 'respiratoryRate'
+  | 'temperature'
+  | 'oxygenSaturation'
+  | 'weight'
+  | 'height';
+
+interface Diagnosis {
+  code: string;
+  description: string;
+}
+
+interface NoteVersion {
+  id: string;
+  version: number;
+  status: 'DRAFT' | 'SIGNED';
+  subjective: string | null;
+  objective: string | null;
+  assessment: string | null;
+  plan: string | null;
+  instructions: string | null;
+  vitals: Partial<Record<VitalKey, number>> | null;
+  diagnoses: Diagnosis[] | null;
+  signedAt: string | null;
+}
+
+interface ClinicalNote {
+  id: string;
+  status: 'DRAFT' | 'SIGNED';
+  currentVersion: number;
+  signedAt: string | null;
+  versions: NoteVersion[];
+}
+
+interface ClinicalNoteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  appointmentId: string;
+  patientName: string;
+}
+
+const TEXT_FIELDS: Array<{ key: NoteText; label: string; placeholder: string }> = [
+  { key: 'subjective', label: 'Subjetivo', placeholder: 'Motivo de consulta, síntomas y antecedentes referidos por el paciente' },
+  { key: 'objective', label: 'Objetivo', placeholder: 'Exploración física y resultados de estudios' },
+  { key: 'assessment', label: 'Evaluación', placeholder: 'Impresión diagnóstica' },
+  { key: 'plan', label: 'Plan', placeholder: 'Tratamiento, estudios solicitados y seguimiento' },
+  { key: 'instructions', label: 'Indicaciones para el paciente', placeholder: 'Lo que verá el paciente en su resumen' },
+];
+
+const VITAL_FIELDS: Array<{ key: VitalKey; label: string; step?: string }> = [
+  { key: 'systolic', label: 'T/A sistólica (mmHg)' },
+  { key: 'diastolic', label: 'T/A diastólica (mmHg)' },
+  { key: 'heartRate', label: 'Frec. cardiaca (lpm)' },
+  { key: 'respiratoryRate', label: 'Frec. respiratoria (rpm)' },
+  { key: 'temperature', label: 'Temperatura (°C)', step: '0.1' },
+  { key: 'oxygenSaturation', label: 'SpO₂ (%)' },
+  { key: 'weight', label: 'Peso (kg)', step: '0.1' },
+  { key: 'height', label: 'Talla (cm)' },
+];
+
+const EMPTY_TEXTS: Record<NoteText, string> = {
+  subjective: '',
+  objective: '',
+  assessment: '',
+  plan: '',
+  instructions: '',
+};
+
+export function ClinicalNoteModal({
+  isOpen,
+  onClose,
+  appointmentId,
+  patientName
+}: ClinicalNoteModalProps) {
+  const [note, setNote] = useState<ClinicalNote | null>(null);
+  const [texts, setTexts] = useState<Record<NoteText, string>>(EMPTY_TEXTS);
+  const [vitals, setVitals] = useState<Partial<Record<VitalKey, string>>>({});
+  const [diagnoses, setDiagnoses] = useState<Diagnosis[]>([]);
+  const [isAmending, setIsAmending] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadForm = (loaded: ClinicalNote | null) => {
+    const current = loaded?.versions.find((version) => version.version === loaded.currentVersion);
+
+    setNote(loaded);
+    setIsAmending(false);
+    setTexts({
+      subjective: current?.subjective ?? '',
+      objective: current?.objective ?? '',
+      assessment: current?.assessment ?? '',
+      plan: current?.plan ?? '',
+      instructions: current?.instructions ?? '',
+    });
+    setVitals(
+      Object.fromEntries(
+        Object.entries(current?.vitals ?? {}).map(([key, value]) => [key, String(value)])
+      )
+    );
+    setDiagnoses(current?.diagnoses ?? []);
+  };
+
+  // Cargar la nota de la cita con su historial de versiones
+  useEffect(() => {
+    if (!isOpen || !appointmentId) return;
+
+    let cancelled = false;
+    const loadNote = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/appointments/${appointmentId}/clinical-note`);
+        if (!response.ok) {
+          throw new Error('Error al cargar la nota clínica');
+        }
+        const result = await response.json();
+        if (!cancelled) loadForm(result.data.note);
+      } catch (error) {
+        console.error('Error loading clinical note:', error);
+        if (!cancelled) toast.error('No fue posible cargar la nota clínica');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadNote();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, appointmentId]);
+
+  const isSigned = note?.status === 'SIGNED';
+  const isReadOnly = isSigned && !isAmending;
+
+  const buildPayload = () => ({
+    ...texts,
+    vitals: Object.fromEntries(
+      Object.entries(vitals)
+        .filter(([, value]) => value && value.trim() !== '')
+        .map(([key, value]) => [key, Number(value)])
+    ),
+    diagnoses: diagnoses.filter((diagnosis) => diagnosis.code.trim() || diagnosis.description.trim()),
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/clinical-note`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(buildPayload()),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Error al guardar la nota');
+      }
+
+      loadForm(result.data.note);
+      toast.success(result.message);
+      return true;
+    } catch (error) {
+      console.error('Error saving clinical note:', error);
+      toast.error('Error al guardar la nota clínica', {
+        description: error instanceof Error ? error.message : 'Inténtalo de nuevo'
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSign = async () => {
+    // Se firma lo que está en pantalla, así que primero se guarda el borrador
+    if (!(await handleSave())) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/clinical-note/sign`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Error al firmar la nota');
+      }
+
+      loadForm(result.data.note);
+      toast.success(result.message);
+    } catch (error) {
+      console.error('Error signing clinical note:', error);
+      toast.error('Error al firmar la nota clínica', {
+        description: error instanceof Error ? error.message : 'Inténtalo de nuevo'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateDiagnosis = (index: number, changes: Partial<Diagnosis>) => {
+    setDiagnoses((current) =>
+      current.map((diagnosis, i) => (i === index ? { ...diagnosis, ...changes } : diagnosis))
+    );
+  };
+
+  const handleClose = () => {
+    if (!isSaving) {
+      setNote(null);
+      setTexts(EMPTY_TEXTS);
+      setVitals({});
+      setDiagnoses([]);
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileText className="h-5 w-5" />
+            <span>Nota Clínica</span>
+            {note && (
+              <Badge variant={isSigned ? 'default' : 'secondary'}>
+                {isSigned ? 'Firmada' : 'Borrador'} · v{note.currentVersion}
+              </Badge>
+            )}
+          </DialogTitle>
+          <DialogDescription>
+            Nota SOAP de la consulta con <strong>{patientName}</strong>
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {isSigned && (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription>
+                  <p className="text-sm">
+                    Firmada el{' '}
+                    {format(new Date(note.signedAt!), "dd 'de' MMMM 'a las' HH:mm", { locale: es })}.
+                    {isAmending
+                      ? ' Al guardar se creará una nueva versión; la versión firmada se conserva.'
+                      : ' Para corregirla, crea una enmienda.'}
+                  </p>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Notas SOAP */}
+            <div className="space-y-4">
+              {TEXT_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`note-${field.key}`}>{field.label}</Label>
+                  <Textarea
+                    id={`note-${field.key}`}
+                    placeholder={field.placeholder}
+                    value={texts[field.key]}
+                    onChange={(e) => setTexts({ ...texts, [field.key]: e.target.value })}
+                    rows={3}
+                    disabled={isReadOnly || isSaving}
+                  />
+                </div>
+              ))}
+            </div>
+
+            {/* Signos vitales */}
+            <div className="space-y-2">
+              <Label>Signos vitales</Label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {VITAL_FIELDS.map((field) => (
+                  <div key={field.key} className="space-y-1">
+                    <Label htmlFor={`vital-${field.key}`} className="text-xs font-normal text-muted-foreground">
+                      {field.label}
+                    </Label>
+                    <Input
+                      id={`vital-${field.key}`}
+                      type="number"
+                      step={field.step ?? '1'}
+                      value={vitals[field.key] ?? ''}
+                      onChange={(e) => setVitals({ ...vitals, [field.key]: e.target.value })}
+                      disabled={isReadOnly || isSaving}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Diagnósticos CIE-10 */}
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Diagnósticos (CIE-10)</Label>
+                {!isReadOnly && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDiagnoses([...diagnoses, { code: '', description: '' }])}
+                    disabled={isSaving}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Agregar
+                  </Button>
+                )}
+              </div>
+              {diagnoses.length === 0 && (
+                <p className="text-sm text-muted-foreground">Sin diagnósticos registrados</p>
+              )}
+              {diagnoses.map((diagnosis, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <Input
+                    className="w-28"
+                    placeholder="J06.9"
+                    value={diagnosis.code}
+                    onChange={(e) => updateDiagnosis(index, { code: e.target.value.toUpperCase() })}
+                    disabled={isReadOnly || isSaving}
+                  />
+                  <Input
+                    placeholder="Descripción"
+                    value={diagnosis.description}
+                    onChange={(e) => updateDiagnosis(index, { description: e.target.value })}
+                    disabled={isReadOnly || isSaving}
+                  />
+                  {!isReadOnly && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setDiagnoses(diagnoses.filter((_, i) => i !== index))}
+                      disabled={isSaving}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* Historial de versiones */}
+            {note && note.versions.length > 1 && (
+              <div className="space-y-1">
+                <Label>Historial</Label>
+                <ul className="text-xs text-muted-foreground space-y-1">
+                  {note.versions.map((version) => (
+                    <li key={version.id}>
+                      Versión {version.version}:{' '}
+                      {version.signedAt
+                        ? `firmada el ${format(new Date(version.signedAt), 'dd/MM/yyyy HH:mm')}`
+                        : 'borrador'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex space-x-2">
+          <Button variant="outline" onClick={handleClose} disabled={isSaving}>
+            Cerrar
+          </Button>
+          {isReadOnly ? (
+            <Button variant="outline" onClick={() => setIsAmending(true)} disabled={isLoading}>
+              <Pencil className="h-4 w-4 mr-2" />
+              Enmendar
+            </Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={handleSave} disabled={isSaving || isLoading}>
+                <Save className="h-4 w-4 mr-2" />
+                Guardar Borrador
+              </Button>
+              <Button onClick={handleSign} disabled={isSaving || isLoading}>
+                <FileSignature className="h-4 w-4 mr-2" />
+                Firmar Nota
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
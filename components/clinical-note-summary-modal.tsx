@@ -0,0 +1,200 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Download, FileText } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+interface NoteSummary {
+  version: number;
+  signedAt: string;
+  doctorName: string;
+  diagnoses: Array<{ code: string; description: string }>;
+  vitals: Record<string, number> | null;
+  plan: string | null;
+  instructions: string | null;
+}
+
+interface Prescription {
+  id: string;
+  verificationCode: string;
+  issuedAt: string;
+  items: Array<{ id: string; medication: string }>;
+}
+
+interface ClinicalNoteSummaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  appointmentId: string;
+}
+
+const VITAL_LABELS: Record<string, string> = {
+  systolic: 'T/A sistólica (mmHg)',
+  diastolic: 'T/A diastólica (mmHg)',
+  heartRate: 'Frec. cardiaca (lpm)',
+  respiratoryRate: 'Frec. respiratoria (rpm)',
+  temperature: 'Temperatura (°C)',
+  oxygenSaturation: 'SpO₂ (%)',
+  weight: 'Peso (kg)',
+  height: 'Talla (cm)',
+};
+
+export function ClinicalNoteSummaryModal({
+  isOpen,
+  onClose,
+  appointmentId
+}: ClinicalNoteSummaryModalProps) {
+  const [summary, setSummary] = useState<NoteSummary | null>(null);
+  const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Solo se muestra la última versión firmada por el doctor
+  useEffect(() => {
+    if (!isOpen || !appointmentId) return;
+
+    let cancelled = false;
+    const loadSummary = async () => {
+      setIsLoading(true);
+      try {
+        const [noteResponse, prescriptionsResponse] = await Promise.all([
+          fetch(`/api/appointments/${appointmentId}/clinical-note`),
+          fetch(`/api/appointments/${appointmentId}/prescriptions`),
+        ]);
+        if (!noteResponse.ok || !prescriptionsResponse.ok) {
+          throw new Error('Error al cargar el resumen de la consulta');
+        }
+        const [note, prescriptionList] = await Promise.all([
+          noteResponse.json(),
+          prescriptionsResponse.json(),
+        ]);
+        if (!cancelled) {
+          setSummary(note.data.summary);
+          setPrescriptions(prescriptionList.data);
+        }
+      } catch (error) {
+        console.error('Error loading note summary:', error);
+        if (!cancelled) setSummary(null);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadSummary();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, appointmentId]);
+
+  const vitals = Object.entries(summary?.vitals ?? {});
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileText className="h-5 w-5" />
+            <span>Resumen de la Consulta</span>
+          </DialogTitle>
+          {summary && (
+            <DialogDescription>
+              {summary.doctorName} · firmado el{' '}
+              {format(new Date(summary.signedAt), "dd 'de' MMMM 'de' yyyy", { locale: es })}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {!summary && (
+              <p className="text-sm text-muted-foreground py-6 text-center">
+                Tu doctor aún no ha publicado el resumen de esta consulta
+              </p>
+            )}
+
+            {prescriptions.length > 0 && (
+              <div>
+                <h4 className="font-medium text-sm mb-2">Recetas</h4>
+                <div className="space-y-2">
+                  {prescriptions.map((prescription) => (
+                    <div
+                      key={prescription.id}
+                      className="flex items-center justify-between p-2 bg-muted/50 rounded-lg text-sm"
+                    >
+                      <div>
+                        <p className="font-medium">
+                          {prescription.items.map((item) => item.medication).join(', ')}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Folio {prescription.verificationCode}
+                        </p>
+                      </div>
+                      <a href={`/api/prescriptions/${prescription.id}/pdf`} target="_blank" rel="noreferrer">
+                        <Button variant="outline" size="sm">
+                          <Download className="h-4 w-4 mr-1" />
+                          PDF
+                        </Button>
+                      </a>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {summary && (
+              <>
+                {summary.diagnoses.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-sm mb-2">Diagnóstico</h4>
+                    <ul className="space-y-1">
+                      {summary.diagnoses.map((diagnosis) => (
+                        <li key={diagnosis.code} className="text-sm flex items-center space-x-2">
+                          <Badge variant="outline">{diagnosis.code}</Badge>
+                          <span>{diagnosis.description}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {vitals.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-sm mb-2">Signos vitales</h4>
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                      {vitals.map(([key, value]) => (
+                        <div key={key} className="flex justify-between bg-muted/50 rounded px-2 py-1">
+                          <span className="text-muted-foreground">{VITAL_LABELS[key] ?? key}</span>
+                          <span className="font-medium">{value}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {summary.plan && (
+                  <div>
+                    <h4 className="font-medium text-sm mb-1">Plan de tratamiento</h4>
+                    <p className="text-sm whitespace-pre-line">{summary.plan}</p>
+                  </div>
+                )}
+
+                {summary.instructions && (
+                  <div className="p-3 bg-primary/5 rounded-lg">
+                    <h4 className="font-medium text-sm text-primary mb-1">Indicaciones</h4>
+                    <p className="text-sm whitespace-pre-line">{summary.instructions}</p>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, HeartPulse } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { translateAllergySeverity, translateBloodType } from '@/lib/mexican-utils';
+
+interface HealthRecord {
+  bloodType: string | null;
+  allergies: Array<{ substance: string; reaction: string | null; severity: string }>;
+  conditions: Array<{ name: string; icd10Code: string | null; since: number | null; notes: string | null }>;
+  medications: Array<{ name: string; dose: string | null; frequency: string | null }>;
+  vaccinations: Array<{ vaccine: string; dose: string | null; date: string }>;
+  updatedAt: string | null;
+}
+
+interface HealthRecordModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  appointmentId: string;
+  patientName: string;
+}
+
+export function HealthRecordModal({
+  isOpen,
+  onClose,
+  appointmentId,
+  patientName
+}: HealthRecordModalProps) {
+  const [record, setRecord] = useState<HealthRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Cada consulta del expediente queda registrada en la bitácora del paciente
+  useEffect(() => {
+    if (!isOpen || !appointmentId) return;
+
+    let cancelled = false;
+    const loadRecord = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/appointments/${appointmentId}/health-record`);
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Error al cargar el expediente');
+        }
+        if (!cancelled) setRecord(result.data);
+      } catch (error) {
+        console.error('Error loading health record:', error);
+        if (!cancelled) {
+          setRecord(null);
+          setError(error instanceof Error ? error.message : 'Error al cargar el expediente');
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadRecord();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, appointmentId]);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <HeartPulse className="h-5 w-5" />
+            <span>Expediente de {patientName}</span>
+          </DialogTitle>
+          <DialogDescription>
+            {record?.updatedAt
+              ? `Actualizado por el paciente el ${format(new Date(record.updatedAt), "dd 'de' MMMM 'de' yyyy", { locale: es })}`
+              : 'Información de salud capturada por el paciente'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive py-6 text-center">{error}</p>
+        ) : record && (
+          <div className="space-y-5 text-sm">
+            <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+              <span className="text-muted-foreground">Grupo sanguíneo</span>
+              <span className="font-semibold">
+                {record.bloodType ? translateBloodType(record.bloodType) : 'No registrado'}
+              </span>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2 flex items-center space-x-2">
+                <AlertTriangle className="h-4 w-4 text-destructive" />
+                <span>Alergias</span>
+              </h4>
+              {record.allergies.length === 0 ? (
+                <p className="text-muted-foreground">Sin alergias registradas</p>
+              ) : (
+                <ul className="space-y-1">
+                  {record.allergies.map((allergy, index) => (
+                    <li key={index} className="flex items-center space-x-2">
+                      <Badge variant={allergy.severity === 'SEVERE' ? 'destructive' : 'outline'}>
+                        {translateAllergySeverity(allergy.severity)}
+                      </Badge>
+                      <span className="font-medium">{allergy.substance}</span>
+                      {allergy.reaction && (
+                        <span className="text-muted-foreground">· {allergy.reaction}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Enfermedades crónicas</h4>
+              {record.conditions.length === 0 ? (
+                <p className="text-muted-foreground">Sin enfermedades registradas</p>
+              ) : (
+                <ul className="space-y-1">
+                  {record.conditions.map((condition, index) => (
+                    <li key={index}>
+                      {condition.icd10Code && (
+                        <Badge variant="outline" className="mr-2">{condition.icd10Code}</Badge>
+                      )}
+                      <span className="font-medium">{condition.name}</span>
+                      {condition.since && (
+                        <span className="text-muted-foreground"> · desde {condition.since}</span>
+                      )}
+                      {condition.notes && (
+                        <p className="text-muted-foreground">{condition.notes}</p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Medicamentos actuales</h4>
+              {record.medications.length === 0 ? (
+                <p className="text-muted-foreground">Sin medicamentos registrados</p>
+              ) : (
+                <ul className="space-y-1">
+                  {record.medications.map((medication, index) => (
+                    <li key={index}>
+                      <span className="font-medium">{medication.name}</span>
+                      {(medication.dose || medication.frequency) && (
+                        <span className="text-muted-foreground">
+                          {' '}· {[medication.dose, medication.frequency].filter(Boolean).join(', ')}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Vacunas</h4>
+              {record.vaccinations.length === 0 ? (
+                <p className="text-muted-foreground">Sin vacunas registradas</p>
+              ) : (
+                <ul className="space-y-1">
+                  {record.vaccinations.map((vaccination, index) => (
+                    <li key={index} className="flex justify-between">
+                      <span>
+                        <span className="font-medium">{vaccination.vaccine}</span>
+                        {vaccination.dose && (
+                          <span className="text-muted-foreground"> · {vaccination.dose}</span>
+                        )}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {format(parseISO(vaccination.date), 'dd/MM/yyyy')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
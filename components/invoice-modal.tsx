@@ -0,0 +1,348 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Download, Receipt, Save } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { formatMexicanCurrency } from '@/lib/mexican-utils';
+
+interface FiscalProfile {
+  rfc: string;
+  legalName: string;
+  taxRegime: string;
+  zipCode: string;
+  cfdiUse: string;
+}
+
+interface InvoiceSummary {
+  id: string;
+  status: 'PENDING' | 'STAMPED' | 'FAILED';
+  series: string;
+  folio: number;
+  uuid: string | null;
+  emitterName: string;
+  emitterRfc: string;
+  total: number;
+  failureReason: string | null;
+  stampedAt: string | null;
+}
+
+interface PaymentSummary {
+  id: string;
+  status: string;
+  amount: number;
+}
+
+interface InvoiceModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  appointmentId: string;
+}
+
+const EMPTY_PROFILE: FiscalProfile = {
+  rfc: '',
+  legalName: '',
+  taxRegime: '',
+  zipCode: '',
+  cfdiUse: 'D01',
+};
+
+export function InvoiceModal({
+  isOpen,
+  onClose,
+  appointmentId
+}: InvoiceModalProps) {
+  const [payment, setPayment] = useState<PaymentSummary | null>(null);
+  const [invoice, setInvoice] = useState<InvoiceSummary | null>(null);
+  const [profile, setProfile] = useState<FiscalProfile>(EMPTY_PROFILE);
+  const [hasProfile, setHasProfile] = useState(false);
+  const [taxRegimes, setTaxRegimes] = useState<Record<string, string>>({});
+  const [cfdiUses, setCfdiUses] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRequesting, setIsRequesting] = useState(false);
+
+  // El pago de la cita, su factura y los datos fiscales guardados del paciente
+  useEffect(() => {
+    if (!isOpen || !appointmentId) return;
+
+    let cancelled = false;
+    const loadInvoice = async () => {
+      setIsLoading(true);
+      try {
+        const [invoiceResponse, profileResponse] = await Promise.all([
+          fetch(`/api/appointments/${appointmentId}/invoice`),
+          fetch('/api/invoices/fiscal-profile'),
+        ]);
+        if (!invoiceResponse.ok || !profileResponse.ok) {
+          throw new Error('Error al cargar la factura');
+        }
+        const [invoiceResult, profileResult] = await Promise.all([
+          invoiceResponse.json(),
+          profileResponse.json(),
+        ]);
+        if (!cancelled) {
+          setPayment(invoiceResult.data.payment);
+          setInvoice(invoiceResult.data.invoice);
+          setTaxRegimes(profileResult.data.taxRegimes);
+          setCfdiUses(profileResult.data.cfdiUses);
+          setHasProfile(Boolean(profileResult.data.profile));
+          if (profileResult.data.profile) {
+            const { rfc, legalName, taxRegime, zipCode, cfdiUse } = profileResult.data.profile;
+            setProfile({ rfc, legalName, taxRegime, zipCode, cfdiUse });
+          }
+        }
+      } catch (error) {
+        console.error('Error loading invoice:', error);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadInvoice();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, appointmentId]);
+
+  const handleSaveProfile = async () => {
+    setIsSaving(true);
+
+    try {
+      const response = await fetch('/api/invoices/fiscal-profile', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(profile),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details?.[0]?.message || result.error || 'Error al guardar los datos fiscales');
+      }
+
+      const { rfc, legalName, taxRegime, zipCode, cfdiUse } = result.data.profile;
+      setProfile({ rfc, legalName, taxRegime, zipCode, cfdiUse });
+      setHasProfile(true);
+      toast.success(result.message);
+    } catch (error) {
+      console.error('Error saving fiscal profile:', error);
+      toast.error('Error al guardar los datos fiscales', {
+        description: error instanceof Error ? error.message : 'Inténtalo de nuevo'
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRequestInvoice = async () => {
+    setIsRequesting(true);
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/invoice`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Error al generar la factura');
+      }
+
+      setInvoice(result.data);
+      toast.success(result.message, {
+        description: 'Ya puedes descargar el XML y el PDF'
+      });
+    } catch (error) {
+      console.error('Error requesting invoice:', error);
+      toast.error('Error al generar la factura', {
+        description: error instanceof Error ? error.message : 'Inténtalo de nuevo'
+      });
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSaving && !isRequesting) {
+      onClose();
+    }
+  };
+
+  const isStamped = invoice?.status === 'STAMPED';
+  const isPaid = payment?.status === 'COMPLETED';
+  const isProfileComplete =
+    profile.rfc.trim() && profile.legalName.trim() && profile.taxRegime && /^\d{5}$/.test(profile.zipCode);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Receipt className="h-5 w-5" />
+            <span>Factura de la Consulta</span>
+          </DialogTitle>
+          <DialogDescription>
+            CFDI 4.0 deducible como gasto médico en tu declaración anual
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : !isPaid ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            Esta cita no tiene un pago completado que facturar
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {invoice && (
+              <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">
+                    Folio {invoice.series}{invoice.folio}
+                  </span>
+                  <Badge variant={isStamped ? 'default' : invoice.status === 'FAILED' ? 'destructive' : 'secondary'}>
+                    {isStamped ? 'Timbrada' : invoice.status === 'FAILED' ? 'Rechazada' : 'En proceso'}
+                  </Badge>
+                </div>
+                <p className="text-muted-foreground">
+                  {invoice.emitterName} ({invoice.emitterRfc}) · {formatMexicanCurrency(invoice.total)}
+                </p>
+                {invoice.uuid && (
+                  <p className="text-xs text-muted-foreground break-all">
+                    Folio fiscal {invoice.uuid}
+                  </p>
+                )}
+                {invoice.stampedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Timbrada el {format(new Date(invoice.stampedAt), "dd 'de' MMMM 'de' yyyy", { locale: es })}
+                  </p>
+                )}
+                {invoice.status === 'FAILED' && invoice.failureReason && (
+                  <p className="text-xs text-destructive">{invoice.failureReason}</p>
+                )}
+                {isStamped && (
+                  <div className="flex space-x-2 pt-2">
+                    <a href={`/api/invoices/${invoice.id}/pdf`} target="_blank" rel="noreferrer">
+                      <Button variant="outline" size="sm">
+                        <Download className="h-4 w-4 mr-1" />
+                        PDF
+                      </Button>
+                    </a>
+                    <a href={`/api/invoices/${invoice.id}/xml`} download>
+                      <Button variant="outline" size="sm">
+                        <Download className="h-4 w-4 mr-1" />
+                        XML
+                      </Button>
+                    </a>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!isStamped && (
+              <>
+                <div className="space-y-3">
+                  <h4 className="font-medium text-sm">Datos fiscales</h4>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="rfc">RFC</Label>
+                      <Input
+                        id="rfc"
+                        value={profile.rfc}
+                        maxLength={13}
+                        onChange={(e) => setProfile({ ...profile, rfc: e.target.value.toUpperCase() })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="zipCode">Código postal fiscal</Label>
+                      <Input
+                        id="zipCode"
+                        value={profile.zipCode}
+                        maxLength={5}
+                        inputMode="numeric"
+                        onChange={(e) => setProfile({ ...profile, zipCode: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="legalName">Nombre o razón social</Label>
+                    <Input
+                      id="legalName"
+                      value={profile.legalName}
+                      placeholder="Tal como aparece en tu constancia de situación fiscal"
+                      onChange={(e) => setProfile({ ...profile, legalName: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Régimen fiscal</Label>
+                    <Select
+                      value={profile.taxRegime}
+                      onValueChange={(taxRegime) => setProfile({ ...profile, taxRegime })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Selecciona tu régimen" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(taxRegimes).map(([code, label]) => (
+                          <SelectItem key={code} value={code}>
+                            {code} - {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Uso del CFDI</Label>
+                    <Select
+                      value={profile.cfdiUse}
+                      onValueChange={(cfdiUse) => setProfile({ ...profile, cfdiUse })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(cfdiUses).map(([code, label]) => (
+                          <SelectItem key={code} value={code}>
+                            {code} - {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSaveProfile}
+                    disabled={!isProfileComplete || isSaving}
+                  >
+                    <Save className="h-4 w-4 mr-1" />
+                    {isSaving ? 'Guardando...' : 'Guardar datos fiscales'}
+                  </Button>
+                </div>
+
+                <Button
+                  className="w-full"
+                  onClick={handleRequestInvoice}
+                  disabled={!hasProfile || isRequesting || invoice?.status === 'PENDING'}
+                >
+                  <Receipt className="h-4 w-4 mr-2" />
+                  {isRequesting ? 'Generando...' : invoice?.status === 'FAILED' ? 'Reintentar Factura' : 'Solicitar Factura'}
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,6 +5,7 @@ import { useUnifiedAuth } from "@/lib/unified-auth-context";
 import {
   Calendar,
   Heart,
+  HeartPulse,
   LogOut,
   Menu,
   Settings,
@@ -140,6 +141,18 @@ export function MainNav() {
                       </Link>
                     </DropdownMenuItem>
 
+                    {user.role === "PATIENT" && (
+                      <DropdownMenuItem asChild>
+                        <Link
+                          href="/paciente/expediente"
+                          className="flex items-center"
+                        >
+                          <HeartPulse className="mr-2 h-4 w-4" />
+                          <span>Mi Expediente</span>
+                        </Link>
+                      </DropdownMenuItem>
+                    )}
+
                     <DropdownMenuItem asChild>
                       <Link
                         href={
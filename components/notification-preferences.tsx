@@ -8,11 +8,31 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
+import { useNotifications } from "@/hooks/use-notifications";
+import { usePushSubscription } from "@/hooks/use-push-subscription";
 import { useToast } from "@/hooks/use-toast";
-import { Bell, Mail, MessageSquare, Phone, Save, Settings } from "lucide-react";
+import {
+  Bell,
+  Clock,
+  Inbox,
+  Languages,
+  Mail,
+  MessageSquare,
+  Phone,
+  Save,
+  Settings,
+} from "lucide-react";
 import { useUnifiedAuth } from "@/lib/unified-auth-context";
 import { useEffect, useState } from "react";
 
@@ -24,6 +44,7 @@ export function NotificationPreferences() {
     updatePreferences,
     loadPreferences,
   } = useNotifications();
+  const push = usePushSubscription();
   const [preferences, setPreferences] = useState(currentPreferences);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -107,6 +128,27 @@ export function NotificationPreferences() {
     }
   };
 
+  // Las notificaciones del navegador llegan por Web Push a este dispositivo
+  const toggleBrowserNotifications = async (checked: boolean) => {
+    updatePreference("browser", checked);
+    if (!push.supported) return;
+
+    if (!checked) {
+      await push.unsubscribe();
+      return;
+    }
+
+    const subscribed = await push.subscribe();
+    if (!subscribed) {
+      toast({
+        title: "Notificaciones push no disponibles",
+        description:
+          "Verifica que hayas permitido las notificaciones para este sitio en tu navegador.",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (!user) {
     return (
       <div className="text-center py-8">
@@ -228,16 +270,16 @@ export function NotificationPreferences() {
                   Notificaciones del Navegador
                 </Label>
                 <p className="text-sm text-muted-foreground">
-                  Recibe notificaciones push en el navegador
+                  Recibe notificaciones push en el navegador, aunque no
+                  tengas la página abierta
                 </p>
               </div>
             </div>
             <Switch
               id="browser"
               checked={preferences.browser}
-              onCheckedChange={(checked) =>
-                updatePreference("browser", checked)
-              }
+              disabled={push.loading}
+              onCheckedChange={toggleBrowserNotifications}
             />
           </div>
         </CardContent>
@@ -412,6 +454,63 @@ export function NotificationPreferences() {
         </CardContent>
       </Card>
 
+      {/* Digest */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Inbox className="h-5 w-5" />
+            Resumen de Notificaciones
+          </CardTitle>
+          <CardDescription>
+            Agrupa los avisos por correo, SMS y WhatsApp en un solo resumen.
+            Los pagos rechazados y las citas de las próximas 2 horas siempre se
+            envían al momento.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={preferences.digestMode ?? "IMMEDIATE"}
+            onValueChange={(value) => updatePreference("digestMode", value)}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="IMMEDIATE">Al momento</SelectItem>
+              <SelectItem value="HOURLY">Cada hora</SelectItem>
+              <SelectItem value="DAILY">Una vez al día (8:00)</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {/* Language */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Languages className="h-5 w-5" />
+            Idioma
+          </CardTitle>
+          <CardDescription>
+            Idioma de los correos, SMS y mensajes de WhatsApp que recibes.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Select
+            value={preferences.language ?? "es"}
+            onValueChange={(value) => updatePreference("language", value)}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="es">Español</SelectItem>
+              <SelectItem value="en">English</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
       {/* Information Card */}
       <Card>
         <CardHeader>
@@ -3,8 +3,20 @@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatMexicanCurrency } from "@/lib/mexican-utils";
 import { PaymentService } from "@/lib/payments/PaymentService";
-import { PaymentProvider, PaymentProviderType } from "@/lib/payments/types";
+import {
+  InstallmentPlan,
+  PaymentProvider,
+  PaymentProviderType,
+} from "@/lib/payments/types";
 import {
   AlertCircle,
   Building2,
@@ -18,21 +30,34 @@ interface PaymentMethodSelectorProps {
   selectedProvider: PaymentProviderType | null;
   onProviderChange: (provider: PaymentProviderType) => void;
   price: number;
+  doctorId: string;
+  installmentMonths: number | null;
+  onInstallmentChange: (months: number | null) => void;
   onPaymentInitiate: (provider: PaymentProviderType) => void;
   isProcessing?: boolean;
   error?: string | null;
 }
 
+function describeInstallmentPlan(plan: InstallmentPlan) {
+  return plan.interestFree
+    ? `${plan.months} meses sin intereses de ${formatMexicanCurrency(plan.monthlyAmount!)}`
+    : `${plan.months} meses con intereses de tu banco`;
+}
+
 export function PaymentMethodSelector({
   selectedProvider,
   onProviderChange,
   price,
+  doctorId,
+  installmentMonths,
+  onInstallmentChange,
   onPaymentInitiate,
   isProcessing = false,
   error = null,
 }: PaymentMethodSelectorProps) {
   const [providers, setProviders] = useState<PaymentProvider[]>([]);
   const [loading, setLoading] = useState(true);
+  const [installmentPlans, setInstallmentPlans] = useState<InstallmentPlan[]>([]);
   const paymentService = new PaymentService();
 
   useEffect(() => {
@@ -50,6 +75,38 @@ export function PaymentMethodSelector({
     loadProviders();
   }, []);
 
+  // Los planes dependen del proveedor y de los meses que acepta el doctor
+  useEffect(() => {
+    setInstallmentPlans([]);
+    if (!selectedProvider) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      provider: selectedProvider,
+      doctorId,
+      amount: String(price),
+    });
+
+    fetch(`/api/payments/installments?${params}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        if (!cancelled && result) setInstallmentPlans(result.data.plans);
+      })
+      .catch((error) => {
+        console.error("Error loading installment plans:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProvider, doctorId, price]);
+
+  // Los meses elegidos podrían no estar disponibles con otro proveedor
+  const handleProviderChange = (providerId: PaymentProviderType) => {
+    if (providerId !== selectedProvider) onInstallmentChange(null);
+    onProviderChange(providerId);
+  };
+
   const getProviderIcon = (providerId: PaymentProviderType) => {
     switch (providerId) {
       case "stripe":
@@ -113,7 +170,7 @@ export function PaymentMethodSelector({
                   ? "ring-2 ring-primary bg-primary/5"
                   : "hover:shadow-md hover:bg-muted/50"
               }`}
-              onClick={() => onProviderChange(provider.id)}
+              onClick={() => handleProviderChange(provider.id)}
             >
               <CardContent className="p-4">
                 <div className="flex items-center space-x-3">
@@ -205,6 +262,35 @@ export function PaymentMethodSelector({
         </div>
       )}
 
+      {installmentPlans.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Forma de pago</h4>
+          <Select
+            value={String(installmentMonths ?? 1)}
+            onValueChange={(value) =>
+              onInstallmentChange(value === "1" ? null : Number(value))
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="1">Pago en una sola exhibición</SelectItem>
+              {installmentPlans.map((plan) => (
+                <SelectItem key={plan.months} value={String(plan.months)}>
+                  {describeInstallmentPlan(plan)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {installmentMonths && (
+            <p className="text-xs text-muted-foreground">
+              Los pagos a meses solo están disponibles con tarjeta de crédito.
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Payment initiation button */}
       {selectedProvider && (
         <Button
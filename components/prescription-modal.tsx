@@ -0,0 +1,275 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Download, Pill, Plus, Send, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+interface PrescriptionItem {
+  medication: string;
+  dose: string;
+  frequency: string;
+  duration: string;
+  instructions: string;
+}
+
+interface IssuedPrescription {
+  id: string;
+  verificationCode: string;
+  issuedAt: string;
+  items: Array<{ id: string; medication: string }>;
+}
+
+interface PrescriptionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  appointmentId: string;
+  patientName: string;
+}
+
+const EMPTY_ITEM: PrescriptionItem = {
+  medication: '',
+  dose: '',
+  frequency: '',
+  duration: '',
+  instructions: '',
+};
+
+export function PrescriptionModal({
+  isOpen,
+  onClose,
+  appointmentId,
+  patientName
+}: PrescriptionModalProps) {
+  const [prescriptions, setPrescriptions] = useState<IssuedPrescription[]>([]);
+  const [items, setItems] = useState<PrescriptionItem[]>([EMPTY_ITEM]);
+  const [diagnosis, setDiagnosis] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Recetas ya emitidas en esta cita
+  useEffect(() => {
+    if (!isOpen || !appointmentId) return;
+
+    let cancelled = false;
+    const loadPrescriptions = async () => {
+      try {
+        const response = await fetch(`/api/appointments/${appointmentId}/prescriptions`);
+        if (!response.ok) {
+          throw new Error('Error al cargar las recetas');
+        }
+        const result = await response.json();
+        if (!cancelled) setPrescriptions(result.data);
+      } catch (error) {
+        console.error('Error loading prescriptions:', error);
+      }
+    };
+
+    loadPrescriptions();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, appointmentId]);
+
+  const updateItem = (index: number, changes: Partial<PrescriptionItem>) => {
+    setItems((current) =>
+      current.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    );
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/prescriptions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          items,
+          diagnosis: diagnosis.trim() || undefined,
+          notes: notes.trim() || undefined
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Error al emitir la receta');
+      }
+
+      setPrescriptions((current) => [result.data, ...current]);
+      setItems([EMPTY_ITEM]);
+      setDiagnosis('');
+      setNotes('');
+      toast.success(result.message, {
+        description: 'El paciente puede descargarla desde sus citas'
+      });
+    } catch (error) {
+      console.error('Error issuing prescription:', error);
+      toast.error('Error al emitir la receta', {
+        description: error instanceof Error ? error.message : 'Inténtalo de nuevo'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      onClose();
+    }
+  };
+
+  const isComplete = items.every(
+    (item) => item.medication.trim() && item.dose.trim() && item.frequency.trim() && item.duration.trim()
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Pill className="h-5 w-5" />
+            <span>Receta Médica</span>
+          </DialogTitle>
+          <DialogDescription>
+            Receta para <strong>{patientName}</strong>. Se genera un PDF con código QR que las
+            farmacias pueden verificar.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {prescriptions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Recetas emitidas</Label>
+              {prescriptions.map((prescription) => (
+                <div
+                  key={prescription.id}
+                  className="flex items-center justify-between p-2 bg-muted/50 rounded-lg text-sm"
+                >
+                  <div>
+                    <p className="font-medium">{prescription.verificationCode}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(prescription.issuedAt), 'dd/MM/yyyy HH:mm')} ·{' '}
+                      {prescription.items.map((item) => item.medication).join(', ')}
+                    </p>
+                  </div>
+                  <a href={`/api/prescriptions/${prescription.id}/pdf`} target="_blank" rel="noreferrer">
+                    <Button variant="outline" size="sm">
+                      <Download className="h-4 w-4 mr-1" />
+                      PDF
+                    </Button>
+                  </a>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="prescription-diagnosis">Diagnóstico (opcional)</Label>
+            <Input
+              id="prescription-diagnosis"
+              value={diagnosis}
+              onChange={(e) => setDiagnosis(e.target.value)}
+              maxLength={300}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {/* Medicamentos */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Medicamentos</Label>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setItems([...items, EMPTY_ITEM])}
+                disabled={isSubmitting || items.length >= 10}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Agregar
+              </Button>
+            </div>
+            {items.map((item, index) => (
+              <div key={index} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-center space-x-2">
+                  <Input
+                    placeholder="Medicamento, presentación y concentración"
+                    value={item.medication}
+                    onChange={(e) => updateItem(index, { medication: e.target.value })}
+                    disabled={isSubmitting}
+                  />
+                  {items.length > 1 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setItems(items.filter((_, i) => i !== index))}
+                      disabled={isSubmitting}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    placeholder="Dosis (1 tableta)"
+                    value={item.dose}
+                    onChange={(e) => updateItem(index, { dose: e.target.value })}
+                    disabled={isSubmitting}
+                  />
+                  <Input
+                    placeholder="Frecuencia (cada 8 horas)"
+                    value={item.frequency}
+                    onChange={(e) => updateItem(index, { frequency: e.target.value })}
+                    disabled={isSubmitting}
+                  />
+                  <Input
+                    placeholder="Duración (5 días)"
+                    value={item.duration}
+                    onChange={(e) => updateItem(index, { duration: e.target.value })}
+                    disabled={isSubmitting}
+                  />
+                </div>
+                <Input
+                  placeholder="Indicaciones (opcional)"
+                  value={item.instructions}
+                  onChange={(e) => updateItem(index, { instructions: e.target.value })}
+                  maxLength={500}
+                  disabled={isSubmitting}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prescription-notes">Indicaciones generales (opcional)</Label>
+            <Textarea
+              id="prescription-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+              maxLength={1000}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex space-x-2">
+          <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+            Cerrar
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || !isComplete}>
+            <Send className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Emitiendo...' : 'Emitir Receta'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AppointmentCalendar } from '@/components/appointment-calendar';
+import { AlertTriangle, CalendarClock, DollarSign } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { formatMexicanCurrency, translateConsultationType } from '@/lib/mexican-utils';
+import { ConsultationType } from '@prisma/client';
+import { toast } from 'sonner';
+
+interface ReschedulePreview {
+  newPrice: number;
+  fee: number;
+  refundAmount: number;
+  balanceDue: number;
+  remainingReschedules: number | null;
+  explanation: string;
+}
+
+interface RescheduleAppointmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  appointmentId: string;
+  appointmentDate: Date;
+  doctorId: string;
+  doctorName: string;
+  consultationType: ConsultationType;
+  onRescheduled?: () => void;
+}
+
+const CONSULTATION_TYPES: ConsultationType[] = ['IN_PERSON', 'VIRTUAL', 'HOME_VISIT'];
+
+export function RescheduleAppointmentModal({
+  isOpen,
+  onClose,
+  appointmentId,
+  appointmentDate,
+  doctorId,
+  doctorName,
+  consultationType,
+  onRescheduled
+}: RescheduleAppointmentModalProps) {
+  const [type, setType] = useState<ConsultationType>(consultationType);
+  const [newDate, setNewDate] = useState<Date | null>(null);
+  const [reason, setReason] = useState('');
+  const [preview, setPreview] = useState<ReschedulePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Consultar el cargo y la diferencia de precio del nuevo horario
+  useEffect(() => {
+    if (!newDate) return;
+
+    let cancelled = false;
+    const loadPreview = async () => {
+      setIsLoadingPreview(true);
+      setPreviewError(null);
+      try {
+        const params = new URLSearchParams({ scheduledAt: newDate.toISOString(), type });
+        const response = await fetch(`/api/appointments/${appointmentId}/reschedule?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'No se puede reprogramar a este horario');
+        }
+        if (!cancelled) setPreview(data.data.preview);
+      } catch (error) {
+        if (!cancelled) {
+          setPreview(null);
+          setPreviewError(error instanceof Error ? error.message : 'No se puede reprogramar a este horario');
+        }
+      } finally {
+        if (!cancelled) setIsLoadingPreview(false);
+      }
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [newDate, type, appointmentId]);
+
+  const resetState = () => {
+    setNewDate(null);
+    setReason('');
+    setPreview(null);
+    setPreviewError(null);
+  };
+
+  const handleSubmit = async () => {
+    if (!newDate) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch(`/api/appointments/${appointmentId}/reschedule`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          scheduledAt: newDate.toISOString(),
+          type,
+          reason: reason.trim() || undefined
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Error al reprogramar la cita');
+      }
+
+      const refundAmount: number = result.data.reschedule.refundAmount;
+      toast.success(result.message, {
+        description: refundAmount > 0
+          ? `Reembolso de ${formatMexicanCurrency(refundAmount)} procesándose`
+          : format(newDate, "dd 'de' MMMM 'a las' HH:mm", { locale: es })
+      });
+
+      resetState();
+      onRescheduled?.();
+      onClose();
+    } catch (error) {
+      toast.error('Error al reprogramar la cita', {
+        description: error instanceof Error ? error.message : 'Inténtalo de nuevo'
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    if (!isSubmitting) {
+      resetState();
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <CalendarClock className="h-5 w-5" />
+            <span>Reprogramar Cita Médica</span>
+          </DialogTitle>
+          <DialogDescription>
+            Tu cita con <strong>{doctorName}</strong> es el{' '}
+            <strong>{format(appointmentDate, "dd 'de' MMMM 'a las' HH:mm", { locale: es })}</strong>.
+            Tu pago y tu chat con el doctor se conservan.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2 max-w-xs">
+            <Label>Tipo de consulta</Label>
+            <Select
+              value={type}
+              onValueChange={(value) => {
+                setType(value as ConsultationType);
+                setNewDate(null);
+                setPreview(null);
+              }}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONSULTATION_TYPES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {translateConsultationType(option)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <AppointmentCalendar
+            key={type}
+            doctorId={doctorId}
+            consultationType={type}
+            onSlotSelect={(dateTime) => setNewDate(dateTime)}
+            selectedSlot={newDate ?? undefined}
+            reserveSlot={false}
+          />
+
+          {newDate && (
+            previewError ? (
+              <Alert className="border-red-200 bg-red-50">
+                <AlertTriangle className="h-4 w-4 text-red-600" />
+                <AlertDescription>{previewError}</AlertDescription>
+              </Alert>
+            ) : (
+              <Alert>
+                <DollarSign className="h-4 w-4" />
+                <AlertDescription>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">
+                        Nuevo horario: {format(newDate, "dd 'de' MMMM 'a las' HH:mm", { locale: es })}
+                      </span>
+                      {preview && (
+                        <span className="font-bold">{formatMexicanCurrency(preview.newPrice)}</span>
+                      )}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {isLoadingPreview ? 'Calculando condiciones...' : preview?.explanation}
+                    </p>
+                    {preview?.remainingReschedules != null && (
+                      <p className="text-xs text-muted-foreground">
+                        Reprogramaciones disponibles para esta cita: {preview.remainingReschedules}
+                      </p>
+                    )}
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="reschedule-reason">
+              Motivo (opcional)
+            </Label>
+            <Textarea
+              id="reschedule-reason"
+              placeholder="Puedes contarle al doctor por qué cambias la cita..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={2}
+              maxLength={300}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleClose} disabled={isSubmitting}>
+            Mantener horario actual
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!newDate || !preview || isLoadingPreview || isSubmitting}
+          >
+            <CalendarClock className="h-4 w-4 mr-2" />
+            {isSubmitting ? 'Reprogramando...' : 'Confirmar nuevo horario'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -7,18 +7,34 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Calendar, Clock, Plus, Trash2, Copy, Save, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
+import { WEEKDAY_KEYS } from '@/lib/doctor-availability';
+import { DEFAULT_TIME_ZONE, MEXICAN_TIME_ZONES } from '@/lib/timezones';
+
+type ConsultationType = 'IN_PERSON' | 'VIRTUAL' | 'HOME_VISIT';
 
 interface TimeSlot {
   id: string;
   startTime: string;
   endTime: string;
-  duration: number;
-  maxAppointments: number;
+  consultationTypes: ConsultationType[];
+  effectiveFrom: string;
+  effectiveUntil: string;
+}
+
+interface AvailabilityResponseItem {
+  id: string;
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  consultationTypes: ConsultationType[];
+  effectiveFrom: string | null;
+  effectiveUntil: string | null;
+  isActive: boolean;
 }
 
 interface DaySchedule {
@@ -52,26 +68,82 @@ const DAYS_OF_WEEK = [
   { key: 'sunday', label: 'Domingo' },
 ];
 
+const CONSULTATION_TYPES: { key: ConsultationType; label: string }[] = [
+  { key: 'IN_PERSON', label: 'Presencial' },
+  { key: 'VIRTUAL', label: 'Virtual' },
+  { key: 'HOME_VISIT', label: 'Domicilio' },
+];
+
 const DEFAULT_TIME_SLOT: TimeSlot = {
   id: '',
   startTime: '09:00',
   endTime: '17:00',
-  duration: 30,
-  maxAppointments: 1,
+  consultationTypes: [],
+  effectiveFrom: '',
+  effectiveUntil: '',
+};
+
+const emptySchedule = (): WeekSchedule => ({
+  monday: { enabled: false, timeSlots: [] },
+  tuesday: { enabled: false, timeSlots: [] },
+  wednesday: { enabled: false, timeSlots: [] },
+  thursday: { enabled: false, timeSlots: [] },
+  friday: { enabled: false, timeSlots: [] },
+  saturday: { enabled: false, timeSlots: [] },
+  sunday: { enabled: false, timeSlots: [] },
+});
+
+// Convertir las reglas guardadas (dayOfWeek 0-6) al horario semanal del formulario
+const availabilityToSchedule = (availability: AvailabilityResponseItem[]): WeekSchedule => {
+  const schedule = emptySchedule();
+
+  for (const rule of availability) {
+    if (!rule.isActive) continue;
+    const day = schedule[WEEKDAY_KEYS[rule.dayOfWeek]];
+    day.enabled = true;
+    day.timeSlots.push({
+      id: rule.id,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      consultationTypes: rule.consultationTypes,
+      effectiveFrom: rule.effectiveFrom ? rule.effectiveFrom.slice(0, 10) : '',
+      effectiveUntil: rule.effectiveUntil ? rule.effectiveUntil.slice(0, 10) : '',
+    });
+  }
+
+  return schedule;
 };
 
 export function ScheduleConfigModal({ open, onOpenChange, doctorId }: ScheduleConfigModalProps) {
-  const [schedule, setSchedule] = useState<WeekSchedule>({
-    monday: { enabled: true, timeSlots: [{ ...DEFAULT_TIME_SLOT, id: '1' }] },
-    tuesday: { enabled: true, timeSlots: [{ ...DEFAULT_TIME_SLOT, id: '2' }] },
-    wednesday: { enabled: true, timeSlots: [{ ...DEFAULT_TIME_SLOT, id: '3' }] },
-    thursday: { enabled: true, timeSlots: [{ ...DEFAULT_TIME_SLOT, id: '4' }] },
-    friday: { enabled: true, timeSlots: [{ ...DEFAULT_TIME_SLOT, id: '5' }] },
-    saturday: { enabled: false, timeSlots: [] },
-    sunday: { enabled: false, timeSlots: [] },
-  });
+  const [schedule, setSchedule] = useState<WeekSchedule>(emptySchedule);
+  const [timeZone, setTimeZone] = useState<string>(DEFAULT_TIME_ZONE);
 
   const [isLoading, setIsLoading] = useState(false);
+  const [isFetching, setIsFetching] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchAvailability = async () => {
+      setIsFetching(true);
+      try {
+        const response = await fetch('/api/doctor/availability');
+        if (!response.ok) {
+          throw new Error('Error al cargar los horarios');
+        }
+        const data = await response.json();
+        setSchedule(availabilityToSchedule(data.availability || []));
+        setTimeZone(data.timeZone || DEFAULT_TIME_ZONE);
+      } catch (error) {
+        console.error('Error fetching availability:', error);
+        toast.error('Error al cargar los horarios');
+      } finally {
+        setIsFetching(false);
+      }
+    };
+
+    fetchAvailability();
+  }, [open]);
 
   const handleDayToggle = (day: keyof WeekSchedule, enabled: boolean) => {
     setSchedule(prev => ({
@@ -123,6 +195,14 @@ export function ScheduleConfigModal({ open, onOpenChange, doctorId }: ScheduleCo
     }));
   };
 
+  const toggleConsultationType = (day: keyof WeekSchedule, slot: TimeSlot, type: ConsultationType) => {
+    updateTimeSlot(day, slot.id, {
+      consultationTypes: slot.consultationTypes.includes(type)
+        ? slot.consultationTypes.filter(t => t !== type)
+        : [...slot.consultationTypes, type],
+    });
+  };
+
   const handleSave = async () => {
     setIsLoading(true);
     try {
@@ -135,23 +215,48 @@ export function ScheduleConfigModal({ open, onOpenChange, doctorId }: ScheduleCo
       for (const [dayKey, daySchedule] of Object.entries(schedule)) {
         if (daySchedule.enabled) {
           for (const slot of daySchedule.timeSlots) {
+            const dayName = DAYS_OF_WEEK.find(d => d.key === dayKey)?.label;
             if (slot.startTime >= slot.endTime) {
-              const dayName = DAYS_OF_WEEK.find(d => d.key === dayKey)?.label;
               toast.error(`Horario inválido en ${dayName}: la hora de inicio debe ser menor que la de fin`);
               return;
             }
+            if (slot.effectiveFrom && slot.effectiveUntil && slot.effectiveFrom > slot.effectiveUntil) {
+              toast.error(`Vigencia inválida en ${dayName}: la fecha de inicio debe ser anterior a la de fin`);
+              return;
+            }
           }
         }
       }
 
-      await new Promise(resolve => {
-        setTimeout(() => resolve(undefined), 1500);
+      const availability = WEEKDAY_KEYS.flatMap((dayKey, dayOfWeek) =>
+        schedule[dayKey].enabled
+          ? schedule[dayKey].timeSlots.map(slot => ({
+              dayOfWeek,
+              startTime: slot.startTime,
+              endTime: slot.endTime,
+              consultationTypes: slot.consultationTypes,
+              effectiveFrom: slot.effectiveFrom || null,
+              effectiveUntil: slot.effectiveUntil || null,
+              isActive: true,
+            }))
+          : []
+      );
+
+      const response = await fetch('/api/doctor/availability', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ availability, timeZone }),
       });
-      
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => null);
+        throw new Error(error?.error || 'Error al guardar los horarios');
+      }
+
       toast.success('Horarios guardados correctamente');
       onOpenChange(false);
     } catch (error) {
-      toast.error('Error al guardar los horarios');
+      toast.error(error instanceof Error ? error.message : 'Error al guardar los horarios');
     } finally {
       setIsLoading(false);
     }
@@ -167,10 +272,38 @@ export function ScheduleConfigModal({ open, onOpenChange, doctorId }: ScheduleCo
           </DialogTitle>
           <DialogDescription>
             Define tus horarios de atención para cada día de la semana.
+            Los pacientes solo podrán reservar dentro de estos horarios.
           </DialogDescription>
         </DialogHeader>
 
+        {isFetching ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary" />
+          </div>
+        ) : (
         <div className="space-y-6">
+          <div className="max-w-sm space-y-2">
+            <Label>Zona horaria del consultorio</Label>
+            <Select value={timeZone} onValueChange={setTimeZone}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEXICAN_TIME_ZONES.map((zone) => (
+                  <SelectItem key={zone.value} value={zone.value}>
+                    {zone.label}
+                  </SelectItem>
+                ))}
+                {!MEXICAN_TIME_ZONES.some((zone) => zone.value === timeZone) && (
+                  <SelectItem value={timeZone}>{timeZone}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Los horarios se guardan en esta zona horaria. Los pacientes los verán en la suya.
+            </p>
+          </div>
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {DAYS_OF_WEEK.map((day) => {
               const daySchedule = schedule[day.key as keyof WeekSchedule];
@@ -232,39 +365,43 @@ export function ScheduleConfigModal({ open, onOpenChange, doctorId }: ScheduleCo
                               />
                             </div>
                             <div>
-                              <Label className="text-xs">Duración (min)</Label>
-                              <Select
-                                value={slot.duration.toString()}
-                                onValueChange={(value) => updateTimeSlot(day.key as keyof WeekSchedule, slot.id, { duration: parseInt(value) })}
-                              >
-                                <SelectTrigger className="text-sm">
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="15">15 min</SelectItem>
-                                  <SelectItem value="30">30 min</SelectItem>
-                                  <SelectItem value="45">45 min</SelectItem>
-                                  <SelectItem value="60">60 min</SelectItem>
-                                </SelectContent>
-                              </Select>
+                              <Label className="text-xs">Vigente desde</Label>
+                              <Input
+                                type="date"
+                                value={slot.effectiveFrom}
+                                onChange={(e) => updateTimeSlot(day.key as keyof WeekSchedule, slot.id, { effectiveFrom: e.target.value })}
+                                className="text-sm"
+                              />
                             </div>
                             <div>
-                              <Label className="text-xs">Max. citas</Label>
-                              <Select
-                                value={slot.maxAppointments.toString()}
-                                onValueChange={(value) => updateTimeSlot(day.key as keyof WeekSchedule, slot.id, { maxAppointments: parseInt(value) })}
-                              >
-                                <SelectTrigger className="text-sm">
-                                  <SelectValue />
-                                </SelectTrigger>
-                                <SelectContent>
-                                  <SelectItem value="1">1 cita</SelectItem>
-                                  <SelectItem value="2">2 citas</SelectItem>
-                                  <SelectItem value="3">3 citas</SelectItem>
-                                </SelectContent>
-                              </Select>
+                              <Label className="text-xs">Vigente hasta</Label>
+                              <Input
+                                type="date"
+                                value={slot.effectiveUntil}
+                                onChange={(e) => updateTimeSlot(day.key as keyof WeekSchedule, slot.id, { effectiveUntil: e.target.value })}
+                                className="text-sm"
+                              />
                             </div>
                           </div>
+
+                          <div className="mt-3">
+                            <Label className="text-xs">Tipos de consulta</Label>
+                            <div className="flex flex-wrap gap-2 mt-1">
+                              {CONSULTATION_TYPES.map((type) => (
+                                <Badge
+                                  key={type.key}
+                                  variant={slot.consultationTypes.includes(type.key) ? 'default' : 'outline'}
+                                  className="cursor-pointer"
+                                  onClick={() => toggleConsultationType(day.key as keyof WeekSchedule, slot, type.key)}
+                                >
+                                  {type.label}
+                                </Badge>
+                              ))}
+                            </div>
+                            {slot.consultationTypes.length === 0 && (
+                              <p className="text-xs text-gray-500 mt-1">Aplica a todos los tipos de consulta</p>
+                            )}
+                          </div>
                         </div>
                       ))}
 
@@ -288,7 +425,7 @@ export function ScheduleConfigModal({ open, onOpenChange, doctorId }: ScheduleCo
             <Button variant="outline" onClick={() => onOpenChange(false)}>
               Cancelar
             </Button>
-            <Button onClick={handleSave} disabled={isLoading}>
+            <Button onClick={handleSave} disabled={isLoading || isFetching}>
               {isLoading ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2" />
@@ -303,6 +440,7 @@ export function ScheduleConfigModal({ open, onOpenChange, doctorId }: ScheduleCo
             </Button>
           </div>
         </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,107 @@
+import { useCallback, useEffect, useState } from "react";
+
+const SERVICE_WORKER_URL = "/push-sw.js";
+const PUSH_API = "/api/notifications/push";
+
+// Clave VAPID en base64url -> bytes para PushManager.subscribe
+function urlBase64ToUint8Array(base64: string): Uint8Array {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+function isPushSupported(): boolean {
+  return (
+    typeof window !== "undefined" &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+/**
+ * Web Push subscription of this browser: registers the service worker and
+ * keeps the server's copy of the subscription in sync, so notifications
+ * arrive even with no tab open
+ */
+export const usePushSubscription = () => {
+  const [supported, setSupported] = useState(false);
+  const [subscribed, setSubscribed] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    setSupported(true);
+
+    navigator.serviceWorker
+      .getRegistration(SERVICE_WORKER_URL)
+      .then((registration) => registration?.pushManager.getSubscription())
+      .then((subscription) => setSubscribed(!!subscription))
+      .catch((error) => console.error("Error reading push subscription:", error));
+  }, []);
+
+  const subscribe = useCallback(async (): Promise<boolean> => {
+    if (!isPushSupported()) return false;
+
+    try {
+      setLoading(true);
+
+      const { enabled, publicKey } = await fetch(PUSH_API).then((res) => res.json());
+      if (!enabled || !publicKey) return false;
+
+      const permission = await Notification.requestPermission();
+      if (permission !== "granted") return false;
+
+      const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+      await navigator.serviceWorker.ready;
+
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(publicKey),
+        }));
+
+      const response = await fetch(PUSH_API, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(subscription.toJSON()),
+      });
+
+      setSubscribed(response.ok);
+      return response.ok;
+    } catch (error) {
+      console.error("Error subscribing to push notifications:", error);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const unsubscribe = useCallback(async (): Promise<void> => {
+    if (!isPushSupported()) return;
+
+    try {
+      setLoading(true);
+
+      const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+      const subscription = await registration?.pushManager.getSubscription();
+      if (!subscription) return;
+
+      await fetch(PUSH_API, {
+        method: "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ endpoint: subscription.endpoint }),
+      });
+      await subscription.unsubscribe();
+    } catch (error) {
+      console.error("Error unsubscribing from push notifications:", error);
+    } finally {
+      setSubscribed(false);
+      setLoading(false);
+    }
+  }, []);
+
+  return { supported, subscribed, loading, subscribe, unsubscribe };
+};
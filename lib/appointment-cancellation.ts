@@ -0,0 +1,474 @@
+import { prisma } from "@/lib/db";
+import { deactivateChatRoom } from "@/lib/appointment-lifecycle";
+import { ErrorLogger } from "@/lib/error-handling-utils";
+import { formatMexicanCurrency } from "@/lib/mexican-utils";
+import { getPaymentData } from "@/lib/payments/payment-data";
+import { PaymentService } from "@/lib/payments/PaymentService";
+import { BasePaymentProvider } from "@/lib/payments/BasePaymentProvider";
+import { StripeProvider } from "@/lib/payments/stripe/StripeProvider";
+import { PayPalProvider } from "@/lib/payments/paypal/PayPalProvider";
+import { MercadoPagoProvider } from "@/lib/payments/mercadopago/MercadoPagoProvider";
+import { PaymentProviderType, RefundResult } from "@/lib/payments/types";
+import {
+  CancellationPolicyEvaluation,
+  evaluateCancellationPolicy,
+  getCancellationPolicy,
+} from "@/lib/cancellation-policy";
+import { recordRefundReversal } from "@/lib/payout-ledger";
+import { releaseSlotHold } from "@/lib/slot-holds";
+import { offerFreedSlot } from "@/lib/waitlist";
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import {
+  DEFAULT_NOTIFICATION_LOCALE,
+  formatTemplateDateTime,
+  isNotificationLocale,
+} from "@/lib/notifications/templates";
+import { Appointment, Payment, PaymentStatus, Prisma } from "@prisma/client";
+
+export type CancellationActor = "PATIENT" | "DOCTOR" | "ADMIN";
+
+export interface AppointmentCancellationResult {
+  appointment: Appointment;
+  refund: {
+    amount: number;
+    percentage: number;
+    feeRetained: number;
+    reason: string;
+  } | null;
+}
+
+const DEFAULT_CANCELLATION_REASONS: Record<CancellationActor, string> = {
+  PATIENT: "Cancelado por el paciente",
+  DOCTOR: "Cancelado por el doctor",
+  ADMIN: "Cancelado por el administrador",
+};
+
+// Payments that went through and still have something left to refund
+const REFUNDABLE_PAYMENT_STATUSES: PaymentStatus[] = ["COMPLETED", "PARTIALLY_REFUNDED"];
+
+/**
+ * Whether cancelling the appointment can refund its payment
+ */
+export function isRefundablePayment<T extends Pick<Payment, "status">>(
+  payment: T | null
+): payment is T {
+  return !!payment && REFUNDABLE_PAYMENT_STATUSES.includes(payment.status);
+}
+
+let refundService: PaymentService | null = null;
+
+/**
+ * Payment service with every provider that is configured, so a missing
+ * PayPal/MercadoPago configuration does not block Stripe refunds. Providers
+ * that aren't configured are skipped; refunding through one fails with a
+ * "not configured" error that the caller logs.
+ */
+function getRefundService(): PaymentService {
+  if (refundService) return refundService;
+
+  refundService = new PaymentService();
+  const providerFactories: Array<() => BasePaymentProvider> = [
+    () => new StripeProvider(),
+    () => new PayPalProvider(),
+    () => new MercadoPagoProvider(),
+  ];
+  for (const createProvider of providerFactories) {
+    try {
+      refundService.registerProvider(createProvider());
+    } catch {
+      // Not configured
+    }
+  }
+
+  return refundService;
+}
+
+/**
+ * Resolve the provider-side charge reference that refunds are issued against
+ */
+function getRefundReference(payment: {
+  provider: string;
+  stripePaymentId: string | null;
+  mercadopagoId: string | null;
+  paymentData: Prisma.JsonValue;
+}): string | null {
+  const { captureId, paymentId } = getPaymentData(payment);
+
+  switch (payment.provider) {
+    case "STRIPE":
+      return payment.stripePaymentId;
+    case "PAYPAL":
+      return typeof captureId === "string" && captureId ? captureId : null;
+    case "MERCADOPAGO":
+      // MercadoPago payment ids are numbers
+      if (typeof paymentId === "number") return String(paymentId);
+      return typeof paymentId === "string" && paymentId ? paymentId : payment.mercadopagoId;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Refund part or all of a completed payment through its provider. Returns
+ * null when there is no provider-side reference to refund against.
+ */
+export async function refundPayment(
+  payment: Payment,
+  amount: number,
+  reason: string
+): Promise<RefundResult | null> {
+  const providerId = payment.provider.toLowerCase() as PaymentProviderType;
+  const refundReference = getRefundReference(payment);
+
+  return refundReference
+    ? getRefundService().refundPayment(providerId, refundReference, amount, reason)
+    : null;
+}
+
+/**
+ * Take a refund back from the doctor's and platform's shares of the payment.
+ * The refund already went through, so a ledger failure is only logged.
+ */
+export async function reverseRefundedSplit(
+  paymentId: string,
+  refundedTotal: number
+): Promise<void> {
+  try {
+    await recordRefundReversal(paymentId, refundedTotal);
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: "Refund ledger reversal",
+      action: "reverseRefundedSplit - recordRefundReversal",
+      paymentId,
+    });
+  }
+}
+
+/**
+ * Refund terms for cancelling an appointment. Cancellations by the doctor are
+ * always refunded in full; any other cancellation follows the doctor's
+ * cancellation policy and never refunds the no-show deposit.
+ */
+export async function evaluateAppointmentCancellation(
+  appointment: Pick<Appointment, "doctorId" | "type" | "scheduledAt" | "price"> & {
+    depositAmount?: number;
+    payment: Pick<Payment, "amount" | "refundAmount"> | null;
+  },
+  cancelledBy: CancellationActor
+): Promise<CancellationPolicyEvaluation> {
+  // Reschedules may already have refunded part of the payment
+  const amount = appointment.payment
+    ? appointment.payment.amount - (appointment.payment.refundAmount ?? 0)
+    : appointment.price;
+  const policy = await getCancellationPolicy(appointment.doctorId, appointment.type);
+  const evaluation = evaluateCancellationPolicy(policy, {
+    scheduledAt: new Date(appointment.scheduledAt),
+    amount,
+  });
+
+  if (cancelledBy !== "DOCTOR") {
+    const refundable = Math.max(0, amount - (appointment.depositAmount ?? 0));
+    if (evaluation.refundAmount <= refundable) {
+      return evaluation;
+    }
+
+    return {
+      ...evaluation,
+      refundPercentage: amount > 0 ? Math.floor((refundable / amount) * 100) : 0,
+      refundAmount: refundable,
+      feeRetained: amount - refundable,
+      explanation: `${evaluation.explanation} El depósito de ${formatMexicanCurrency(amount - refundable)} requerido por inasistencias previas no es reembolsable.`,
+    };
+  }
+
+  return {
+    ...evaluation,
+    refundPercentage: 100,
+    refundAmount: amount,
+    feeRetained: 0,
+    appliedTier: { minHoursBefore: 0, refundPercentage: 100 },
+    explanation: `Cancelación por parte del doctor: recibirás el reembolso completo de ${formatMexicanCurrency(amount)}.`,
+  };
+}
+
+/**
+ * Tell the other party about the cancellation. The patient is always told
+ * about a refund, even when they cancelled themselves.
+ */
+async function notifyCancellation(
+  appointment: Appointment,
+  cancelledBy: CancellationActor,
+  refundAmount: number
+) {
+  const details = await prisma.appointment.findUnique({
+    where: { id: appointment.id },
+    select: {
+      patient: { select: { id: true, name: true, timezone: true, locale: true } },
+      doctor: {
+        select: { user: { select: { id: true, name: true, timezone: true, locale: true } } },
+      },
+    },
+  });
+  if (!details) return;
+
+  const { patient } = details;
+  const doctor = details.doctor.user;
+  const dateTime = (user: { timezone: string; locale: string }) => {
+    const locale = isNotificationLocale(user.locale) ? user.locale : DEFAULT_NOTIFICATION_LOCALE;
+    return formatTemplateDateTime(appointment.scheduledAt, user.timezone, locale);
+  };
+
+  if (refundAmount > 0) {
+    await createTemplatedNotification({
+      userId: patient.id,
+      type: "EMAIL",
+      template: "appointment.cancelled_refund.patient",
+      locale: patient.locale,
+      variables: {
+        doctorName: doctor.name,
+        ...dateTime(patient),
+        refundAmount: formatMexicanCurrency(refundAmount),
+      },
+      appointmentAt: appointment.scheduledAt,
+      metadata: { appointmentId: appointment.id },
+    });
+  } else if (cancelledBy !== "PATIENT") {
+    await createTemplatedNotification({
+      userId: patient.id,
+      type: "EMAIL",
+      template: "appointment.cancelled.patient",
+      locale: patient.locale,
+      variables: { doctorName: doctor.name, ...dateTime(patient) },
+      appointmentAt: appointment.scheduledAt,
+      metadata: { appointmentId: appointment.id },
+    });
+  }
+
+  if (cancelledBy !== "DOCTOR") {
+    await createTemplatedNotification({
+      userId: doctor.id,
+      type: "EMAIL",
+      template: "appointment.cancelled.doctor",
+      locale: doctor.locale,
+      variables: { patientName: patient.name, ...dateTime(doctor) },
+      appointmentAt: appointment.scheduledAt,
+      metadata: { appointmentId: appointment.id },
+    });
+  }
+}
+
+/**
+ * Cancel an appointment, refunding the payment according to the applicable
+ * terms, freeing the slot for the doctor's waitlist and notifying the other
+ * party. A failed refund, waitlist offer or notification is logged and does
+ * not block the cancellation.
+ */
+export async function cancelAppointment(
+  appointment: Appointment & { payment: Payment | null },
+  options: { cancelledBy: CancellationActor; reason?: string }
+): Promise<AppointmentCancellationResult> {
+  const reason = options.reason || DEFAULT_CANCELLATION_REASONS[options.cancelledBy];
+  const evaluation = await evaluateAppointmentCancellation(
+    appointment,
+    options.cancelledBy
+  );
+  const refundPercentage = evaluation.refundPercentage;
+
+  let refundAmount = 0;
+  if (
+    isRefundablePayment(appointment.payment) &&
+    refundPercentage > 0
+  ) {
+    refundAmount = evaluation.refundAmount;
+
+    const refund = await refundPayment(appointment.payment, refundAmount, reason);
+
+    if (refund?.success) {
+      await prisma.payment.update({
+        where: { id: appointment.payment.id },
+        data: {
+          status: refundPercentage === 100 ? "REFUNDED" : "PARTIALLY_REFUNDED",
+          refundAmount: (appointment.payment.refundAmount ?? 0) + refundAmount,
+          refundReason: evaluation.explanation,
+          refundedAt: new Date(),
+          paymentData: {
+            ...getPaymentData(appointment.payment),
+            refundId: refund.refundId,
+            refundStatus: refund.status,
+            refund_percentage: refundPercentage,
+            cancellation_policy: evaluation.policyName,
+            cancelled_by: options.cancelledBy,
+            refund_processed_at: new Date().toISOString(),
+          },
+        },
+      });
+
+      await reverseRefundedSplit(
+        appointment.payment.id,
+        (appointment.payment.refundAmount ?? 0) + refundAmount
+      );
+    } else {
+      ErrorLogger.log(
+        new Error(refund?.error || "No provider payment reference to refund"),
+        {
+          context: "Appointment cancellation refund",
+          action: `cancelAppointment - ${appointment.payment.provider.toLowerCase()} refund`,
+          appointmentId: appointment.id,
+        }
+      );
+      refundAmount = 0;
+      // Continue with the cancellation even if the refund failed
+    }
+  }
+
+  const cancelledAppointment = await prisma.appointment.update({
+    where: { id: appointment.id },
+    data: {
+      status: "CANCELLED",
+      cancellationReason: reason,
+      cancelledAt: new Date(),
+    },
+  });
+
+  await deactivateChatRoom(prisma, appointment.id);
+  await releaseSlotHold(appointment.id, "Cita cancelada");
+
+  try {
+    await offerFreedSlot({
+      doctorId: appointment.doctorId,
+      type: appointment.type,
+      startsAt: appointment.scheduledAt,
+      duration: appointment.duration,
+    });
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: "Waitlist offer after cancellation",
+      action: "cancelAppointment - offerFreedSlot",
+      appointmentId: appointment.id,
+    });
+  }
+
+  try {
+    await notifyCancellation(appointment, options.cancelledBy, refundAmount);
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: "Cancellation notification",
+      action: "cancelAppointment - notifyCancellation",
+      appointmentId: appointment.id,
+    });
+  }
+
+  return {
+    appointment: cancelledAppointment,
+    refund:
+      refundAmount > 0
+        ? {
+            amount: refundAmount,
+            percentage: refundPercentage,
+            feeRetained: evaluation.refundAmount + evaluation.feeRetained - refundAmount,
+            reason: evaluation.explanation,
+          }
+        : null,
+  };
+}
+
+const SLOT_UNAVAILABLE_REASON = "El horario fue ocupado antes de recibir el pago";
+
+/**
+ * Refund in full a payment that arrived after the appointment's slot hold
+ * expired and another patient took the slot, so the appointment can't be
+ * confirmed. Called by the payment webhooks when convertSlotHold fails. The
+ * appointment is cancelled and the patient told either way; a failed refund
+ * is logged for follow-up.
+ */
+export async function refundUnavailableSlot(paymentId: string): Promise<void> {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { appointment: true },
+  });
+  if (!payment?.appointment) return;
+
+  // Webhooks may be delivered more than once; only the first one refunds
+  const claimed = await prisma.payment.updateMany({
+    where: { id: payment.id, status: "COMPLETED", refundReason: null },
+    data: { refundReason: SLOT_UNAVAILABLE_REASON },
+  });
+  if (claimed.count === 0) return;
+
+  const { appointment } = payment;
+  const refundAmount = payment.amount - (payment.refundAmount ?? 0);
+  const refund = await refundPayment(payment, refundAmount, SLOT_UNAVAILABLE_REASON);
+
+  if (refund?.success) {
+    // The payment was never split, so there is nothing to reverse
+    await prisma.payment.update({
+      where: { id: payment.id },
+      data: {
+        status: "REFUNDED",
+        refundAmount: payment.amount,
+        refundedAt: new Date(),
+        paymentData: {
+          ...getPaymentData(payment),
+          refundId: refund.refundId,
+          refundStatus: refund.status,
+          refund_processed_at: new Date().toISOString(),
+        },
+      },
+    });
+  } else {
+    ErrorLogger.log(
+      new Error(refund?.error || "No provider payment reference to refund"),
+      {
+        context: "Refund of payment for unavailable slot",
+        action: `refundUnavailableSlot - ${payment.provider.toLowerCase()} refund`,
+        appointmentId: appointment.id,
+        paymentId: payment.id,
+      }
+    );
+  }
+
+  await prisma.appointment.update({
+    where: { id: appointment.id },
+    data: {
+      status: "CANCELLED",
+      cancellationReason: SLOT_UNAVAILABLE_REASON,
+      cancelledAt: new Date(),
+    },
+  });
+
+  try {
+    const details = await prisma.appointment.findUnique({
+      where: { id: appointment.id },
+      select: {
+        patient: { select: { id: true, timezone: true, locale: true } },
+        doctor: { select: { user: { select: { name: true } } } },
+      },
+    });
+    if (!details) return;
+
+    const { patient } = details;
+    const locale = isNotificationLocale(patient.locale)
+      ? patient.locale
+      : DEFAULT_NOTIFICATION_LOCALE;
+
+    await createTemplatedNotification({
+      userId: patient.id,
+      type: "EMAIL",
+      template: "payment.slot_unavailable_refund",
+      locale: patient.locale,
+      variables: {
+        doctorName: details.doctor.user.name,
+        ...formatTemplateDateTime(appointment.scheduledAt, patient.timezone, locale),
+        refundAmount: formatMexicanCurrency(refundAmount),
+      },
+      appointmentAt: appointment.scheduledAt,
+      metadata: { appointmentId: appointment.id },
+    });
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: "Unavailable slot refund notification",
+      action: "refundUnavailableSlot - notify patient",
+      appointmentId: appointment.id,
+    });
+  }
+}
@@ -0,0 +1,169 @@
+import { Appointment, AppointmentStatus, Prisma } from "@prisma/client";
+
+export type LifecycleActor = "PATIENT" | "DOCTOR" | "ADMIN";
+
+/**
+ * Statuses an appointment can move to from each status. A consultation is
+ * confirmed, optionally checked in (in-person and home visits), started and
+ * finished; virtual consultations start straight from confirmed.
+ */
+export const APPOINTMENT_TRANSITIONS: Record<
+  AppointmentStatus,
+  AppointmentStatus[]
+> = {
+  PENDING: ["CONFIRMED", "CANCELLED", "NO_SHOW"],
+  CONFIRMED: ["CHECKED_IN", "IN_CONSULTATION", "CANCELLED", "NO_SHOW"],
+  CHECKED_IN: ["IN_CONSULTATION", "CANCELLED"],
+  IN_CONSULTATION: ["COMPLETED"],
+  COMPLETED: [],
+  CANCELLED: [],
+  NO_SHOW: [],
+};
+
+// Patients can only cancel their appointments; the rest of the lifecycle is
+// driven by the doctor
+const PATIENT_TRANSITIONS: AppointmentStatus[] = ["CANCELLED"];
+
+/**
+ * Statuses of appointments that still occupy the doctor's time
+ */
+export const SCHEDULED_APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  "PENDING",
+  "CONFIRMED",
+  "CHECKED_IN",
+  "IN_CONSULTATION",
+];
+
+// The chat is open from confirmation until the consultation ends
+const CHAT_ACTIVE_STATUSES: AppointmentStatus[] = [
+  "CONFIRMED",
+  "CHECKED_IN",
+  "IN_CONSULTATION",
+];
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  PENDING: "pendiente",
+  CONFIRMED: "confirmada",
+  CHECKED_IN: "con llegada registrada",
+  IN_CONSULTATION: "en consulta",
+  COMPLETED: "completada",
+  CANCELLED: "cancelada",
+  NO_SHOW: "marcada como inasistencia",
+};
+
+export class AppointmentTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AppointmentTransitionError";
+  }
+}
+
+function invalidTransition(from: AppointmentStatus, to: AppointmentStatus) {
+  return new AppointmentTransitionError(
+    `Una cita ${STATUS_LABELS[from]} no puede quedar ${STATUS_LABELS[to]}`
+  );
+}
+
+/**
+ * Throw an AppointmentTransitionError unless `actor` can move an appointment
+ * from one status to the other
+ */
+export function assertTransition(
+  from: AppointmentStatus,
+  to: AppointmentStatus,
+  actor: LifecycleActor
+): void {
+  if (!APPOINTMENT_TRANSITIONS[from].includes(to)) {
+    throw invalidTransition(from, to);
+  }
+
+  if (actor === "PATIENT" && !PATIENT_TRANSITIONS.includes(to)) {
+    throw new AppointmentTransitionError(
+      "Solo el doctor puede actualizar el avance de la consulta"
+    );
+  }
+}
+
+/**
+ * Whole minutes a consultation lasted, at least one
+ */
+export function getActualDuration(startedAt: Date, finishedAt: Date): number {
+  return Math.max(
+    1,
+    Math.round((finishedAt.getTime() - startedAt.getTime()) / 60000)
+  );
+}
+
+export async function activateChatRoom(
+  client: Prisma.TransactionClient,
+  appointmentId: string
+) {
+  await client.chatRoom.updateMany({
+    where: { appointmentId, isActive: false },
+    data: { isActive: true, endedAt: null },
+  });
+}
+
+export async function deactivateChatRoom(
+  client: Prisma.TransactionClient,
+  appointmentId: string,
+  now: Date = new Date()
+) {
+  await client.chatRoom.updateMany({
+    where: { appointmentId, isActive: true },
+    data: { isActive: false, endedAt: now },
+  });
+}
+
+/**
+ * Move an appointment to the next status of its lifecycle, stamping the
+ * check-in, start and end of the consultation and opening or closing its
+ * chat. The appointment is claimed with its current status, so concurrent
+ * updates can't apply the same transition twice. No-shows go through
+ * markAppointmentNoShow.
+ */
+export async function transitionAppointment(
+  client: Prisma.TransactionClient,
+  appointment: Pick<Appointment, "id" | "status" | "startedAt">,
+  to: AppointmentStatus,
+  now: Date = new Date()
+): Promise<void> {
+  if (!APPOINTMENT_TRANSITIONS[appointment.status].includes(to)) {
+    throw invalidTransition(appointment.status, to);
+  }
+
+  const data: Prisma.AppointmentUpdateManyMutationInput = { status: to };
+  switch (to) {
+    case "CHECKED_IN":
+      data.checkedInAt = now;
+      break;
+    case "IN_CONSULTATION":
+      data.startedAt = now;
+      break;
+    case "COMPLETED":
+      data.finishedAt = now;
+      data.actualDuration = appointment.startedAt
+        ? getActualDuration(appointment.startedAt, now)
+        : null;
+      break;
+    case "CANCELLED":
+      data.cancelledAt = now;
+      break;
+  }
+
+  const claimed = await client.appointment.updateMany({
+    where: { id: appointment.id, status: appointment.status },
+    data,
+  });
+  if (claimed.count === 0) {
+    throw new AppointmentTransitionError(
+      "La cita fue actualizada por alguien más, recargue e intente de nuevo"
+    );
+  }
+
+  if (CHAT_ACTIVE_STATUSES.includes(to)) {
+    await activateChatRoom(client, appointment.id);
+  } else {
+    await deactivateChatRoom(client, appointment.id, now);
+  }
+}
@@ -0,0 +1,299 @@
+import { prisma } from "@/lib/db";
+import { ErrorLogger } from "@/lib/error-handling-utils";
+import { appointmentToCalendarEvent, CalendarViewer } from "@/lib/icalendar";
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import {
+  DEFAULT_NOTIFICATION_LOCALE,
+  formatTemplateDateTime,
+  isNotificationLocale,
+  NotificationTemplateKey,
+} from "@/lib/notifications/templates";
+import { getMinutesOfDay } from "@/lib/timezones";
+import {
+  NotificationPreferences,
+  NotificationType,
+  Prisma,
+  ReminderKind,
+} from "@prisma/client";
+
+// Minutes before the appointment each reminder becomes due
+export const REMINDER_LEAD_MINUTES: Record<ReminderKind, number> = {
+  DAY_BEFORE: 24 * 60,
+  HOUR_BEFORE: 60,
+};
+
+type QuietHours = Pick<
+  NotificationPreferences,
+  "quietHoursEnabled" | "quietHoursStart" | "quietHoursEnd"
+>;
+
+type ChannelPreferences = Pick<
+  NotificationPreferences,
+  "email" | "sms" | "whatsapp" | "browser"
+>;
+
+// Mismos valores por defecto que NotificationPreferences en el esquema
+const DEFAULT_CHANNEL_PREFERENCES: ChannelPreferences = {
+  email: true,
+  sms: true,
+  whatsapp: false,
+  browser: true,
+};
+
+const reminderRecipientSelect = {
+  id: true,
+  name: true,
+  phone: true,
+  timezone: true,
+  locale: true,
+  notificationPreferences: true,
+} as const;
+
+const reminderAppointmentInclude = {
+  doctor: {
+    select: {
+      address: true,
+      city: true,
+      state: true,
+      zipCode: true,
+      videoCallLink: true,
+      user: { select: reminderRecipientSelect },
+    },
+  },
+  patient: {
+    select: {
+      ...reminderRecipientSelect,
+      patientProfile: {
+        select: { address: true, city: true, state: true, zipCode: true },
+      },
+    },
+  },
+} as const;
+
+type ReminderAppointment = Prisma.AppointmentGetPayload<{
+  include: typeof reminderAppointmentInclude;
+}>;
+
+/**
+ * Reminder due for an appointment at this moment: the 1h reminder inside the
+ * last hour, the 24h reminder before that. A 24h reminder that could not be
+ * sent in time is superseded by the 1h one.
+ */
+export function getDueReminderKind(scheduledAt: Date, now: Date): ReminderKind | null {
+  const minutesUntil = (scheduledAt.getTime() - now.getTime()) / (60 * 1000);
+
+  if (minutesUntil <= 0) return null;
+  if (minutesUntil <= REMINDER_LEAD_MINUTES.HOUR_BEFORE) return "HOUR_BEFORE";
+  if (minutesUntil <= REMINDER_LEAD_MINUTES.DAY_BEFORE) return "DAY_BEFORE";
+  return null;
+}
+
+function parseClockTime(value: string): number {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+/**
+ * Whether it is within the user's quiet hours in their own time zone. The
+ * range may cross midnight, e.g. 22:00-08:00.
+ */
+export function isWithinQuietHours(
+  preferences: QuietHours | null,
+  now: Date,
+  timeZone: string
+): boolean {
+  if (!preferences?.quietHoursEnabled) return false;
+
+  const start = parseClockTime(preferences.quietHoursStart);
+  const end = parseClockTime(preferences.quietHoursEnd);
+  const minutes = getMinutesOfDay(now, timeZone);
+
+  if (start === end) return false;
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Channels the user has enabled; SMS and WhatsApp need a phone number
+ */
+export function getReminderChannels(
+  preferences: ChannelPreferences | null,
+  phone: string | null
+): NotificationType[] {
+  const enabled = preferences || DEFAULT_CHANNEL_PREFERENCES;
+  const channels: NotificationType[] = [];
+
+  if (enabled.email) channels.push("EMAIL");
+  if (enabled.sms && phone) channels.push("SMS");
+  if (enabled.whatsapp && phone) channels.push("WHATSAPP");
+  if (enabled.browser) channels.push("BROWSER");
+
+  return channels;
+}
+
+/**
+ * Template and variables of the reminder for one side of the appointment, with
+ * the video link for virtual consultations and the address otherwise
+ */
+export function buildReminderTemplate(
+  appointment: ReminderAppointment,
+  viewer: CalendarViewer
+): {
+  template: NotificationTemplateKey;
+  locale: string;
+  variables: Record<string, string>;
+} {
+  const recipient = viewer === "DOCTOR" ? appointment.doctor.user : appointment.patient;
+  const locale = isNotificationLocale(recipient.locale)
+    ? recipient.locale
+    : DEFAULT_NOTIFICATION_LOCALE;
+
+  const event = appointmentToCalendarEvent(
+    { ...appointment, status: "CONFIRMED" },
+    viewer
+  );
+  const labels =
+    locale === "es"
+      ? { url: "Enlace de la videoconsulta", address: "Dirección" }
+      : { url: "Video consultation link", address: "Address" };
+  const details =
+    appointment.type === "VIRTUAL"
+      ? `${labels.url}: ${event.url}`
+      : event.location
+        ? `${labels.address}: ${event.location}`
+        : "";
+
+  return {
+    template: viewer === "DOCTOR" ? "appointment.reminder.doctor" : "appointment.reminder.patient",
+    locale,
+    variables: {
+      ...(viewer === "DOCTOR"
+        ? { patientName: appointment.patient.name }
+        : { doctorName: appointment.doctor.user.name }),
+      ...formatTemplateDateTime(appointment.scheduledAt, recipient.timezone, locale),
+      details,
+    },
+  };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+  );
+}
+
+/**
+ * Send the reminders that are due for one recipient of an appointment.
+ * Each reminder is claimed with a unique row before it is sent, so a
+ * reminder is never sent twice even if the job runs concurrently or restarts.
+ * The claim is dropped when the notification can't be created, so it is
+ * retried on the next run.
+ */
+async function sendRecipientReminders(
+  appointment: ReminderAppointment,
+  viewer: CalendarViewer,
+  kind: ReminderKind,
+  now: Date
+): Promise<"sent" | "skipped" | "deferred"> {
+  const recipient = viewer === "DOCTOR" ? appointment.doctor.user : appointment.patient;
+  const preferences = recipient.notificationPreferences;
+
+  if (preferences && !preferences.appointmentReminders) return "skipped";
+
+  // Se reintenta en la siguiente ejecución, cuando terminen las horas de silencio
+  if (isWithinQuietHours(preferences, now, recipient.timezone)) return "deferred";
+
+  const { template, locale, variables } = buildReminderTemplate(appointment, viewer);
+  let sent = false;
+
+  for (const channel of getReminderChannels(preferences, recipient.phone)) {
+    let reminderId: string;
+    try {
+      const reminder = await prisma.appointmentReminder.create({
+        data: {
+          appointmentId: appointment.id,
+          userId: recipient.id,
+          kind,
+          channel,
+          scheduledFor: appointment.scheduledAt,
+        },
+      });
+      reminderId = reminder.id;
+    } catch (error) {
+      if (isUniqueViolation(error)) continue;
+      throw error;
+    }
+
+    let notification;
+    try {
+      notification = await createTemplatedNotification({
+        userId: recipient.id,
+        type: channel,
+        template,
+        locale,
+        variables,
+        metadata: { appointmentId: appointment.id, reminder: kind },
+      });
+    } catch (error) {
+      // Free the claim so the next run sends the reminder again
+      await prisma.appointmentReminder.delete({ where: { id: reminderId } });
+      throw error;
+    }
+
+    await prisma.appointmentReminder.update({
+      where: { id: reminderId },
+      data: { notificationId: notification.id },
+    });
+    sent = true;
+  }
+
+  return sent ? "sent" : "skipped";
+}
+
+/**
+ * Send the 24h and 1h reminders of CONFIRMED appointments to patients and
+ * doctors. Meant to run every few minutes from the notification dispatch
+ * cron or the notification worker.
+ */
+export async function sendAppointmentReminders(now: Date = new Date()): Promise<{
+  appointments: number;
+  sent: number;
+  deferred: number;
+}> {
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      status: "CONFIRMED",
+      scheduledAt: {
+        gt: now,
+        lte: new Date(now.getTime() + REMINDER_LEAD_MINUTES.DAY_BEFORE * 60 * 1000),
+      },
+    },
+    include: reminderAppointmentInclude,
+    orderBy: { scheduledAt: "asc" },
+  });
+
+  const summary = { appointments: appointments.length, sent: 0, deferred: 0 };
+
+  for (const appointment of appointments) {
+    const kind = getDueReminderKind(appointment.scheduledAt, now);
+    if (!kind) continue;
+
+    for (const viewer of ["PATIENT", "DOCTOR"] as const) {
+      try {
+        const result = await sendRecipientReminders(appointment, viewer, kind, now);
+        if (result === "sent") summary.sent++;
+        if (result === "deferred") summary.deferred++;
+      } catch (error) {
+        ErrorLogger.log(error as Error, {
+          context: "Appointment reminder",
+          action: "sendAppointmentReminders",
+          appointmentId: appointment.id,
+          viewer,
+        });
+      }
+    }
+  }
+
+  return summary;
+}
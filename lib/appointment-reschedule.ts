@@ -0,0 +1,492 @@
+import { prisma } from "@/lib/db";
+import { ErrorLogger } from "@/lib/error-handling-utils";
+import { formatMexicanCurrency, formatMexicanDate, formatMexicanTime } from "@/lib/mexican-utils";
+import {
+  Appointment,
+  AppointmentReschedule,
+  ConsultationType,
+  Doctor,
+  Payment,
+  Prisma,
+} from "@prisma/client";
+import { z } from "zod";
+import {
+  getConsultationDuration,
+  getConsultationPrice,
+} from "@/lib/doctor-availability";
+import { checkSeriesOccurrences } from "@/lib/appointment-series";
+import {
+  CancellationActor,
+  refundPayment,
+  reverseRefundedSplit,
+} from "@/lib/appointment-cancellation";
+import { getPaymentData } from "@/lib/payments/payment-data";
+import { isSlotOverlapError, moveSlotHold, SlotUnavailableError } from "@/lib/slot-holds";
+import { offerFreedSlot } from "@/lib/waitlist";
+import { createNotification } from "@/lib/notification-utils";
+import { isUrgentNotification } from "@/lib/notifications/digest";
+
+export type RescheduleActor = CancellationActor;
+
+export interface ReschedulePolicyRules {
+  id?: string;
+  maxReschedules: number;
+  freeHoursBefore: number;
+  lateFeePercentage: number;
+}
+
+export interface RescheduleEvaluation {
+  allowed: boolean;
+  reason?: string;
+  previousPrice: number;
+  newPrice: number; // consultation price of the new type plus the fee
+  fee: number;
+  paidAmount: number;
+  refundAmount: number;
+  balanceDue: number;
+  remainingReschedules: number | null; // null when the actor has no limit
+  explanation: string;
+}
+
+/**
+ * Policy applied when the doctor has not configured one: two free
+ * reschedules per appointment with 24h notice
+ */
+export const DEFAULT_RESCHEDULE_POLICY: ReschedulePolicyRules = {
+  maxReschedules: 2,
+  freeHoursBefore: 24,
+  lateFeePercentage: 0,
+};
+
+export const reschedulePolicySchema = z.object({
+  maxReschedules: z.number().int().min(0).max(10),
+  freeHoursBefore: z.number().int().min(0).max(24 * 7),
+  lateFeePercentage: z.number().int().min(0).max(100),
+});
+
+export const rescheduleAppointmentSchema = z.object({
+  scheduledAt: z.string().datetime(),
+  type: z.enum(["IN_PERSON", "VIRTUAL", "HOME_VISIT"]).optional(),
+  reason: z.string().max(500).optional(),
+});
+
+export class RescheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RescheduleError";
+  }
+}
+
+export type ReschedulableAppointment = Appointment & {
+  payment: Payment | null;
+  doctor: Doctor & { user: { id: string; name: string; timezone: string } };
+  patient: { id: string; name: string; timezone: string };
+};
+
+const RESCHEDULE_ACTOR_LABELS: Record<RescheduleActor, string> = {
+  PATIENT: "el paciente",
+  DOCTOR: "el doctor",
+  ADMIN: "el administrador",
+};
+
+/**
+ * Get the reschedule policy configured by a doctor, or the platform default
+ */
+export async function getReschedulePolicy(
+  doctorId: string
+): Promise<ReschedulePolicyRules> {
+  const policy = await prisma.reschedulePolicy.findUnique({
+    where: { doctorId },
+  });
+
+  return policy
+    ? {
+        id: policy.id,
+        maxReschedules: policy.maxReschedules,
+        freeHoursBefore: policy.freeHoursBefore,
+        lateFeePercentage: policy.lateFeePercentage,
+      }
+    : DEFAULT_RESCHEDULE_POLICY;
+}
+
+/**
+ * Net amount the patient has paid for an appointment, in cents
+ */
+function getPaidAmount(payment: Payment | null): number {
+  if (!payment || !["COMPLETED", "PARTIALLY_REFUNDED"].includes(payment.status)) {
+    return 0;
+  }
+  return payment.amount - (payment.refundAmount ?? 0);
+}
+
+/**
+ * Evaluate the limit, fee and price difference of moving an appointment.
+ * The limit and late fee only apply to patients; doctors and admins can
+ * always move an appointment at no cost to the patient. Amounts are in cents.
+ */
+export function evaluateReschedule(
+  policy: ReschedulePolicyRules,
+  params: {
+    scheduledAt: Date;
+    rescheduleCount: number;
+    previousPrice: number;
+    consultationPrice: number;
+    payment: Payment | null;
+    rescheduledBy: RescheduleActor;
+    now?: Date;
+  }
+): RescheduleEvaluation {
+  const now = params.now || new Date();
+  const byPatient = params.rescheduledBy === "PATIENT";
+  const hoursUntilAppointment =
+    (params.scheduledAt.getTime() - now.getTime()) / (1000 * 60 * 60);
+
+  const remainingReschedules = byPatient
+    ? Math.max(0, policy.maxReschedules - params.rescheduleCount)
+    : null;
+
+  const isLate = hoursUntilAppointment < policy.freeHoursBefore;
+  const fee =
+    byPatient && isLate
+      ? Math.round((params.consultationPrice * policy.lateFeePercentage) / 100)
+      : 0;
+  const newPrice = params.consultationPrice + fee;
+  const paidAmount = getPaidAmount(params.payment);
+
+  // Citas sin pagar: el nuevo precio se cobra al pagar
+  const refundAmount = paidAmount > 0 ? Math.max(0, paidAmount - newPrice) : 0;
+  const balanceDue = paidAmount > 0 ? Math.max(0, newPrice - paidAmount) : 0;
+
+  const base = {
+    previousPrice: params.previousPrice,
+    newPrice,
+    fee,
+    paidAmount,
+    refundAmount,
+    balanceDue,
+    remainingReschedules,
+  };
+
+  if (remainingReschedules === 0) {
+    return {
+      ...base,
+      allowed: false,
+      reason: `Esta cita ya se reprogramó el máximo de ${policy.maxReschedules} ${policy.maxReschedules === 1 ? "vez" : "veces"}`,
+      explanation: "Puedes cancelarla y reservar una nueva cita.",
+    };
+  }
+
+  const parts: string[] = [];
+  if (fee > 0) {
+    parts.push(
+      `Reprogramar con menos de ${policy.freeHoursBefore} horas de anticipación tiene un cargo de ${formatMexicanCurrency(fee)}.`
+    );
+  }
+  if (refundAmount > 0) {
+    parts.push(`Se te reembolsará la diferencia de ${formatMexicanCurrency(refundAmount)}.`);
+  } else if (balanceDue > 0) {
+    parts.push(
+      `Queda una diferencia de ${formatMexicanCurrency(balanceDue)} por pagar en la consulta.`
+    );
+  } else if (paidAmount === 0 && newPrice !== params.previousPrice) {
+    parts.push(`El nuevo precio de la consulta es ${formatMexicanCurrency(newPrice)}.`);
+  }
+  if (parts.length === 0) {
+    parts.push("La reprogramación no tiene costo.");
+  }
+
+  return { ...base, allowed: true, explanation: parts.join(" ") };
+}
+
+/**
+ * Load an appointment with everything needed to reschedule it
+ */
+export async function getReschedulableAppointment(
+  appointmentId: string
+): Promise<ReschedulableAppointment | null> {
+  return prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    include: {
+      payment: true,
+      doctor: {
+        include: {
+          user: { select: { id: true, name: true, timezone: true } },
+        },
+      },
+      patient: { select: { id: true, name: true, timezone: true } },
+    },
+  });
+}
+
+/**
+ * Validate a reschedule request and return its terms without changing
+ * anything. Throws RescheduleError or SlotUnavailableError when the
+ * appointment can't be moved to the requested slot.
+ */
+export async function previewReschedule(
+  appointment: ReschedulableAppointment,
+  params: {
+    scheduledAt: Date;
+    type?: ConsultationType;
+    rescheduledBy: RescheduleActor;
+    now?: Date;
+  }
+): Promise<RescheduleEvaluation & { type: ConsultationType; duration: number }> {
+  const now = params.now || new Date();
+  const type = params.type || appointment.type;
+
+  if (!["PENDING", "CONFIRMED"].includes(appointment.status)) {
+    throw new RescheduleError("Solo se pueden reprogramar citas pendientes o confirmadas");
+  }
+
+  if (appointment.scheduledAt <= now) {
+    throw new RescheduleError("La cita ya pasó y no se puede reprogramar");
+  }
+
+  if (
+    params.scheduledAt.getTime() === appointment.scheduledAt.getTime() &&
+    type === appointment.type
+  ) {
+    throw new RescheduleError("Selecciona un horario distinto al actual");
+  }
+
+  const { doctor } = appointment;
+  const acceptsType =
+    (type === "IN_PERSON" && doctor.acceptsInPerson) ||
+    (type === "VIRTUAL" && doctor.acceptsVirtual) ||
+    (type === "HOME_VISIT" && doctor.acceptsHomeVisits);
+
+  if (!acceptsType) {
+    throw new RescheduleError("El doctor no ofrece este tipo de consulta");
+  }
+
+  const policy = await getReschedulePolicy(doctor.id);
+  const evaluation = evaluateReschedule(policy, {
+    scheduledAt: appointment.scheduledAt,
+    rescheduleCount: appointment.rescheduleCount,
+    previousPrice: appointment.price,
+    consultationPrice: getConsultationPrice(doctor, type),
+    payment: appointment.payment,
+    rescheduledBy: params.rescheduledBy,
+    now,
+  });
+
+  if (!evaluation.allowed) {
+    throw new RescheduleError(evaluation.reason!);
+  }
+
+  const duration = getConsultationDuration(doctor, type);
+  const hold = await prisma.slotHold.findUnique({
+    where: { appointmentId: appointment.id },
+    select: { id: true },
+  });
+  const [slot] = await checkSeriesOccurrences(
+    doctor.id,
+    type,
+    [params.scheduledAt],
+    duration,
+    {
+      excludeHoldId: hold?.id,
+      excludeAppointmentId: appointment.id,
+      timeZone: doctor.user.timezone,
+      now,
+    }
+  );
+
+  if (!slot.available) {
+    throw new SlotUnavailableError(slot.conflict?.message);
+  }
+
+  return { ...evaluation, type, duration };
+}
+
+/**
+ * Move an appointment to a new slot. The appointment row is updated in place
+ * so its payment, chat room and medical files stay linked. The slot hold
+ * moves with it, the difference is refunded or recorded as balance due, and
+ * the freed slot is offered to the doctor's waitlist. Other changes made
+ * together with the move, e.g. a status change, go in `withinTransaction` so
+ * they commit or fail with it.
+ */
+export async function rescheduleAppointment(
+  appointment: ReschedulableAppointment,
+  params: {
+    scheduledAt: Date;
+    type?: ConsultationType;
+    rescheduledBy: RescheduleActor;
+    rescheduledById: string;
+    reason?: string;
+  },
+  withinTransaction?: (tx: Prisma.TransactionClient) => Promise<void>
+): Promise<{ appointment: Appointment; reschedule: AppointmentReschedule }> {
+  const terms = await previewReschedule(appointment, params);
+
+  let result: { appointment: Appointment; reschedule: AppointmentReschedule };
+  try {
+    result = await prisma.$transaction(async (tx) => {
+      await moveSlotHold(tx, appointment.id, {
+        type: terms.type,
+        startsAt: params.scheduledAt,
+        duration: terms.duration,
+      });
+
+      const updatedAppointment = await tx.appointment.update({
+        where: { id: appointment.id },
+        data: {
+          scheduledAt: params.scheduledAt,
+          type: terms.type,
+          duration: terms.duration,
+          price: terms.newPrice,
+          rescheduleCount:
+            params.rescheduledBy === "PATIENT" ? { increment: 1 } : undefined,
+        },
+      });
+
+      const reschedule = await tx.appointmentReschedule.create({
+        data: {
+          appointmentId: appointment.id,
+          previousScheduledAt: appointment.scheduledAt,
+          newScheduledAt: params.scheduledAt,
+          previousType: appointment.type,
+          newType: terms.type,
+          previousPrice: appointment.price,
+          newPrice: terms.newPrice,
+          fee: terms.fee,
+          balanceDue: terms.balanceDue,
+          rescheduledBy: params.rescheduledBy,
+          rescheduledById: params.rescheduledById,
+          reason: params.reason,
+        },
+      });
+
+      await withinTransaction?.(tx);
+
+      return { appointment: updatedAppointment, reschedule };
+    });
+  } catch (error) {
+    if (isSlotOverlapError(error)) {
+      throw new SlotUnavailableError();
+    }
+    throw error;
+  }
+
+  if (terms.refundAmount > 0 && appointment.payment) {
+    result.reschedule = await refundPriceDifference(
+      appointment.payment,
+      result.reschedule,
+      terms.refundAmount
+    );
+  }
+
+  try {
+    await offerFreedSlot({
+      doctorId: appointment.doctorId,
+      type: appointment.type,
+      startsAt: appointment.scheduledAt,
+      duration: appointment.duration,
+    });
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: "Waitlist offer after reschedule",
+      action: "rescheduleAppointment - offerFreedSlot",
+      appointmentId: appointment.id,
+    });
+  }
+
+  await notifyReschedule(appointment, result.reschedule);
+
+  return result;
+}
+
+/**
+ * Refund the part of the payment the new consultation no longer covers. A
+ * failed refund is logged and the reschedule is kept.
+ */
+async function refundPriceDifference(
+  payment: Payment,
+  reschedule: AppointmentReschedule,
+  amount: number
+): Promise<AppointmentReschedule> {
+  const reason = "Diferencia de precio por reprogramación";
+  const refund = await refundPayment(payment, amount, reason);
+
+  if (!refund?.success) {
+    ErrorLogger.log(
+      new Error(refund?.error || "No provider payment reference to refund"),
+      {
+        context: "Appointment reschedule refund",
+        action: `rescheduleAppointment - ${payment.provider.toLowerCase()} refund`,
+        appointmentId: reschedule.appointmentId,
+      }
+    );
+    return reschedule;
+  }
+
+  await prisma.payment.update({
+    where: { id: payment.id },
+    data: {
+      status: "PARTIALLY_REFUNDED",
+      refundAmount: (payment.refundAmount ?? 0) + amount,
+      refundReason: reason,
+      refundedAt: new Date(),
+      paymentData: {
+        ...getPaymentData(payment),
+        refundId: refund.refundId,
+        refundStatus: refund.status,
+        reschedule_id: reschedule.id,
+      },
+    },
+  });
+
+  await reverseRefundedSplit(payment.id, (payment.refundAmount ?? 0) + amount);
+
+  return prisma.appointmentReschedule.update({
+    where: { id: reschedule.id },
+    data: { refundAmount: amount },
+  });
+}
+
+/**
+ * Let the other party know about the new date, in their own time zone
+ */
+async function notifyReschedule(
+  appointment: ReschedulableAppointment,
+  reschedule: AppointmentReschedule
+): Promise<void> {
+  const recipients =
+    reschedule.rescheduledBy === "PATIENT"
+      ? [{ user: appointment.doctor.user, counterpart: appointment.patient.name }]
+      : reschedule.rescheduledBy === "DOCTOR"
+        ? [{ user: appointment.patient, counterpart: appointment.doctor.user.name }]
+        : [
+            { user: appointment.doctor.user, counterpart: appointment.patient.name },
+            { user: appointment.patient, counterpart: appointment.doctor.user.name },
+          ];
+
+  for (const { user, counterpart } of recipients) {
+    const date = formatMexicanDate(reschedule.newScheduledAt, user.timezone);
+    const time = formatMexicanTime(reschedule.newScheduledAt, user.timezone, {
+      showTimeZone: true,
+    });
+
+    try {
+      await createNotification({
+        userId: user.id,
+        type: "EMAIL",
+        title: "Cita Médica Reprogramada",
+        message: `Su cita con ${counterpart} fue reprogramada por ${RESCHEDULE_ACTOR_LABELS[reschedule.rescheduledBy as RescheduleActor]} para el ${date} a las ${time}.${reschedule.reason ? ` Motivo: ${reschedule.reason}` : ""}`,
+        metadata: JSON.stringify({
+          appointmentId: appointment.id,
+          rescheduleId: reschedule.id,
+        }),
+        urgent: isUrgentNotification(null, reschedule.newScheduledAt),
+      });
+    } catch (error) {
+      ErrorLogger.log(error as Error, {
+        context: "Reschedule notification",
+        action: "rescheduleAppointment - notify",
+        appointmentId: appointment.id,
+      });
+    }
+  }
+}
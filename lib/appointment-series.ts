@@ -0,0 +1,484 @@
+import { prisma } from "@/lib/db";
+import {
+  Appointment,
+  AppointmentSeries,
+  ConsultationType,
+  Doctor,
+  RecurrenceFrequency,
+} from "@prisma/client";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { z } from "zod";
+import {
+  getAvailabilityWindows,
+  getConsultationDuration,
+  getConsultationPrice,
+  timeToMinutes,
+} from "@/lib/doctor-availability";
+import {
+  assignSlotHold,
+  extendSlotHold,
+  getActiveSlotHold,
+  getBlockingSlotHolds,
+  holdSlot,
+  isSlotOverlapError,
+  SlotUnavailableError,
+} from "@/lib/slot-holds";
+import {
+  AppointmentCancellationResult,
+  CancellationActor,
+  cancelAppointment,
+} from "@/lib/appointment-cancellation";
+import { getDepositAmount, NoShowRestrictions } from "@/lib/no-shows";
+import { SCHEDULED_APPOINTMENT_STATUSES } from "@/lib/appointment-lifecycle";
+import {
+  addCalendarDays,
+  addCalendarMonths,
+  DEFAULT_TIME_ZONE,
+  formatCalendarDay,
+  getMinutesOfDay,
+  startOfZonedDay,
+  toCalendarDay,
+  zonedTimeToUtc,
+} from "@/lib/timezones";
+
+export const MAX_SERIES_OCCURRENCES = 26;
+
+// Later occurrences of a series are paid from "Mis citas"; an occurrence that
+// is still unpaid this long before it starts loses its slot
+export const SERIES_PAYMENT_DEADLINE_HOURS = 48;
+
+/**
+ * Time until which an unpaid occurrence keeps its slot
+ */
+export function getSeriesPaymentDeadline(scheduledAt: Date): Date {
+  return new Date(
+    scheduledAt.getTime() - SERIES_PAYMENT_DEADLINE_HOURS * 60 * 60 * 1000
+  );
+}
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number | null;
+  until?: Date | null;
+}
+
+export type SeriesConflictReason =
+  | "PAST"
+  | "BLOCKED_DAY"
+  | "HOLIDAY"
+  | "OUTSIDE_AVAILABILITY"
+  | "BOOKED";
+
+export interface SeriesOccurrence {
+  scheduledAt: Date;
+  available: boolean;
+  conflict?: {
+    reason: SeriesConflictReason;
+    message: string;
+  };
+}
+
+export const recurrenceRuleSchema = z
+  .object({
+    frequency: z.enum(["WEEKLY", "MONTHLY"]),
+    interval: z.number().int().min(1).max(12).default(1),
+    count: z.number().int().min(2).max(MAX_SERIES_OCCURRENCES).optional(),
+    until: z.coerce.date().optional(),
+  })
+  .refine(
+    (rule) => rule.count !== undefined || rule.until !== undefined,
+    "Indica el número de citas o la fecha de fin de la serie"
+  );
+
+export class SeriesConflictError extends Error {
+  public readonly occurrences: SeriesOccurrence[];
+
+  constructor(
+    occurrences: SeriesOccurrence[],
+    message: string = "Algunas fechas de la serie no están disponibles"
+  ) {
+    super(message);
+    this.name = "SeriesConflictError";
+    this.occurrences = occurrences;
+  }
+}
+
+/**
+ * Expand a recurrence rule into occurrence dates, starting with the first
+ * appointment. Occurrences keep the same wall-clock time in the doctor's time
+ * zone across DST changes. UNTIL is a calendar day and inclusive.
+ */
+export function generateOccurrences(
+  startsAt: Date,
+  rule: RecurrenceRule,
+  timeZone: string = DEFAULT_TIME_ZONE
+): Date[] {
+  const firstDay = toCalendarDay(startsAt, timeZone);
+  const minutesOfDay = getMinutesOfDay(startsAt, timeZone);
+  const until = rule.until ? formatCalendarDay(rule.until) : null;
+  const occurrences: Date[] = [];
+
+  for (let index = 0; occurrences.length < MAX_SERIES_OCCURRENCES; index++) {
+    if (rule.count && index >= rule.count) break;
+
+    const day =
+      rule.frequency === "MONTHLY"
+        ? addCalendarMonths(firstDay, index * rule.interval)
+        : addCalendarDays(firstDay, index * rule.interval * 7);
+
+    if (until && formatCalendarDay(day) > until) break;
+    occurrences.push(
+      index === 0 ? startsAt : zonedTimeToUtc(day, minutesOfDay, timeZone)
+    );
+  }
+
+  return occurrences;
+}
+
+/**
+ * Human-readable summary of a recurrence rule, e.g. "Cada 2 semanas, 6 citas"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit =
+    rule.frequency === "MONTHLY"
+      ? rule.interval === 1
+        ? "Cada mes"
+        : `Cada ${rule.interval} meses`
+      : rule.interval === 1
+        ? "Cada semana"
+        : `Cada ${rule.interval} semanas`;
+
+  if (rule.count) {
+    return `${unit}, ${rule.count} citas`;
+  }
+
+  // UNTIL es un día calendario (medianoche UTC)
+  const until = rule.until && new Date(rule.until);
+  return until
+    ? `${unit}, hasta el ${format(
+        new Date(until.getUTCFullYear(), until.getUTCMonth(), until.getUTCDate()),
+        "d 'de' MMMM 'de' yyyy",
+        { locale: es }
+      )}`
+    : unit;
+}
+
+function overlaps(start: Date, duration: number, otherStart: Date, otherEnd: Date) {
+  const end = new Date(start.getTime() + duration * 60 * 1000);
+  return start < otherEnd && end > otherStart;
+}
+
+/**
+ * Check every occurrence against the doctor's blocked days, Mexican holidays,
+ * recurring availability and existing bookings. Days and hours are evaluated
+ * in the doctor's time zone.
+ */
+export async function checkSeriesOccurrences(
+  doctorId: string,
+  type: ConsultationType,
+  occurrences: Date[],
+  duration: number,
+  options: {
+    excludeHoldId?: string;
+    excludeAppointmentId?: string;
+    now?: Date;
+    timeZone?: string;
+  } = {}
+): Promise<SeriesOccurrence[]> {
+  if (occurrences.length === 0) return [];
+
+  const now = options.now || new Date();
+  const timeZone = options.timeZone || DEFAULT_TIME_ZONE;
+  const firstDay = toCalendarDay(occurrences[0], timeZone);
+  const lastDay = addCalendarDays(
+    toCalendarDay(occurrences[occurrences.length - 1], timeZone),
+    1
+  );
+  const rangeStart = startOfZonedDay(firstDay, timeZone);
+  const rangeEnd = startOfZonedDay(lastDay, timeZone);
+
+  const [blockedDays, holidays, rules, appointments, holds] = await Promise.all([
+    prisma.doctorBlockedDay.findMany({
+      where: { doctorId, date: { gte: firstDay, lt: lastDay } },
+    }),
+    prisma.mexicanHoliday.findMany({
+      where: { date: { gte: firstDay, lt: lastDay } },
+    }),
+    prisma.doctorAvailability.findMany({
+      where: { doctorId, isActive: true },
+    }),
+    prisma.appointment.findMany({
+      where: {
+        doctorId,
+        status: { in: SCHEDULED_APPOINTMENT_STATUSES },
+        scheduledAt: { gte: addCalendarDays(rangeStart, -1), lt: rangeEnd },
+        ...(options.excludeAppointmentId
+          ? { id: { not: options.excludeAppointmentId } }
+          : {}),
+      },
+      select: { scheduledAt: true, duration: true },
+    }),
+    getBlockingSlotHolds(doctorId, rangeStart, rangeEnd, {
+      excludeHoldId: options.excludeHoldId,
+      now,
+    }),
+  ]);
+
+  return occurrences.map((scheduledAt): SeriesOccurrence => {
+    const day = toCalendarDay(scheduledAt, timeZone);
+    const isSameDay = (date: Date) => formatCalendarDay(date) === formatCalendarDay(day);
+
+    const conflict = (reason: SeriesConflictReason, message: string) => ({
+      scheduledAt,
+      available: false,
+      conflict: { reason, message },
+    });
+
+    if (scheduledAt <= now) {
+      return conflict("PAST", "La fecha ya pasó");
+    }
+
+    const blockedDay = blockedDays.find((blocked) => isSameDay(blocked.date));
+    if (blockedDay) {
+      return conflict("BLOCKED_DAY", blockedDay.reason || "Día no disponible");
+    }
+
+    const holiday = holidays.find((holiday) => isSameDay(holiday.date));
+    if (holiday) {
+      return conflict("HOLIDAY", `Día festivo: ${holiday.name}`);
+    }
+
+    const startMinutes = getMinutesOfDay(scheduledAt, timeZone);
+    const withinAvailability = getAvailabilityWindows(rules, day, type).some(
+      (window) =>
+        timeToMinutes(window.from) <= startMinutes &&
+        startMinutes + duration <= timeToMinutes(window.to)
+    );
+    if (!withinAvailability) {
+      return conflict("OUTSIDE_AVAILABILITY", "Fuera del horario de atención del doctor");
+    }
+
+    const isBooked =
+      appointments.some((appointment) =>
+        overlaps(
+          scheduledAt,
+          duration,
+          appointment.scheduledAt,
+          new Date(appointment.scheduledAt.getTime() + appointment.duration * 60 * 1000)
+        )
+      ) ||
+      holds.some((hold) => overlaps(scheduledAt, duration, hold.startsAt, hold.endsAt));
+    if (isBooked) {
+      return conflict("BOOKED", "Horario ocupado");
+    }
+
+    return { scheduledAt, available: true };
+  });
+}
+
+/**
+ * Preview the occurrences of a series before booking it
+ */
+export async function previewAppointmentSeries(params: {
+  doctor: Pick<Doctor, "id" | "durationInPerson" | "durationVirtual" | "durationHomeVisit">;
+  type: ConsultationType;
+  startsAt: Date;
+  rule: RecurrenceRule;
+  holdId?: string;
+  timeZone?: string; // zona horaria del doctor
+}): Promise<SeriesOccurrence[]> {
+  return checkSeriesOccurrences(
+    params.doctor.id,
+    params.type,
+    generateOccurrences(params.startsAt, params.rule, params.timeZone),
+    getConsultationDuration(params.doctor, params.type),
+    { excludeHoldId: params.holdId, timeZone: params.timeZone }
+  );
+}
+
+/**
+ * Book a recurring series. Every available occurrence becomes a PENDING
+ * appointment with its slot reserved; the first one can use the hold taken
+ * from the calendar. Later occurrences keep their slot until they are paid or
+ * cancelled. Unavailable occurrences are skipped only when skipConflicts is
+ * set, otherwise a SeriesConflictError is thrown before anything is booked.
+ */
+export async function createAppointmentSeries(params: {
+  patient: { id: string; email: string; phone: string | null };
+  doctor: Doctor;
+  type: ConsultationType;
+  startsAt: Date;
+  rule: RecurrenceRule;
+  notes?: string;
+  holdId?: string;
+  skipConflicts?: boolean;
+  timeZone?: string;
+  // Deposit the patient owes under the doctor's no-show policy
+  restrictions?: NoShowRestrictions;
+}): Promise<{
+  series: AppointmentSeries;
+  appointments: Appointment[];
+  skipped: SeriesOccurrence[];
+}> {
+  const duration = getConsultationDuration(params.doctor, params.type);
+  const price = getConsultationPrice(params.doctor, params.type);
+  const depositAmount = params.restrictions
+    ? getDepositAmount(price, params.restrictions)
+    : 0;
+
+  const occurrences = await previewAppointmentSeries(params);
+  const available = occurrences.filter((occurrence) => occurrence.available);
+  const skipped = occurrences.filter((occurrence) => !occurrence.available);
+
+  if (available.length === 0 || (skipped.length > 0 && !params.skipConflicts)) {
+    throw new SeriesConflictError(occurrences);
+  }
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      const series = await tx.appointmentSeries.create({
+        data: {
+          patientId: params.patient.id,
+          doctorId: params.doctor.id,
+          type: params.type,
+          frequency: params.rule.frequency,
+          interval: params.rule.interval,
+          count: params.rule.count ?? null,
+          until: params.rule.until ?? null,
+          startsAt: params.startsAt,
+          duration,
+          notes: params.notes,
+        },
+      });
+
+      const appointments: Appointment[] = [];
+      for (const [index, occurrence] of available.entries()) {
+        const slotRequest = {
+          doctorId: params.doctor.id,
+          patientId: params.patient.id,
+          type: params.type,
+          startsAt: occurrence.scheduledAt,
+          duration,
+        };
+        const usesCalendarHold =
+          !!params.holdId &&
+          occurrence.scheduledAt.getTime() === params.startsAt.getTime();
+        const hold = usesCalendarHold
+          ? await getActiveSlotHold(tx, params.holdId!, slotRequest)
+          : await holdSlot(tx, slotRequest);
+
+        const appointment = await tx.appointment.create({
+          data: {
+            patientId: params.patient.id,
+            doctorId: params.doctor.id,
+            seriesId: series.id,
+            type: params.type,
+            scheduledAt: occurrence.scheduledAt,
+            duration,
+            status: "PENDING",
+            price,
+            depositAmount,
+            notes: params.notes,
+            patientPhone: params.patient.phone || "",
+            patientEmail: params.patient.email,
+          },
+        });
+
+        await assignSlotHold(tx, hold.id, appointment.id);
+
+        // Solo la primera cita se paga al reservar; las siguientes conservan su
+        // horario hasta su fecha límite de pago y se liberan si no se pagan
+        if (index > 0) {
+          await extendSlotHold(
+            tx,
+            appointment.id,
+            getSeriesPaymentDeadline(occurrence.scheduledAt)
+          );
+        }
+
+        await tx.chatRoom.create({
+          data: {
+            appointmentId: appointment.id,
+            patientId: params.patient.id,
+            doctorId: params.doctor.id,
+            isActive: false, // Will be activated when appointment is confirmed
+          },
+        });
+
+        appointments.push(appointment);
+      }
+
+      return { series, appointments, skipped };
+    });
+  } catch (error) {
+    if (isSlotOverlapError(error)) {
+      throw new SlotUnavailableError(
+        "Uno de los horarios de la serie acaba de ser reservado. Revisa las fechas e inténtalo de nuevo."
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Cancel one occurrence of a series, or that occurrence and every later one.
+ * The series is closed once it has no upcoming appointments left.
+ */
+export async function cancelSeriesAppointments(
+  seriesId: string,
+  params: {
+    appointmentId: string;
+    scope: "occurrence" | "following";
+    cancelledBy: CancellationActor;
+    reason?: string;
+  }
+): Promise<AppointmentCancellationResult[]> {
+  const target = await prisma.appointment.findFirst({
+    where: { id: params.appointmentId, seriesId },
+  });
+
+  if (!target) {
+    throw new Error("Appointment does not belong to the series");
+  }
+
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      seriesId,
+      status: { in: ["PENDING", "CONFIRMED"] },
+      ...(params.scope === "occurrence"
+        ? { id: target.id }
+        : { scheduledAt: { gte: target.scheduledAt } }),
+    },
+    include: { payment: true },
+    orderBy: { scheduledAt: "asc" },
+  });
+
+  const results: AppointmentCancellationResult[] = [];
+  for (const appointment of appointments) {
+    results.push(
+      await cancelAppointment(appointment, {
+        cancelledBy: params.cancelledBy,
+        reason: params.reason,
+      })
+    );
+  }
+
+  const remaining = await prisma.appointment.count({
+    where: { seriesId, status: { in: ["PENDING", "CONFIRMED"] } },
+  });
+
+  if (remaining === 0) {
+    await prisma.appointmentSeries.update({
+      where: { id: seriesId },
+      data: {
+        status: "CANCELLED",
+        cancelledAt: new Date(),
+        cancellationReason: params.reason,
+      },
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,261 @@
+import { prisma } from "@/lib/db";
+import { ErrorLogger } from "@/lib/error-handling-utils";
+import { formatMexicanCurrency } from "@/lib/mexican-utils";
+import { CancellationPolicy, ConsultationType, Prisma } from "@prisma/client";
+import { z } from "zod";
+
+export interface CancellationPolicyTier {
+  minHoursBefore: number;
+  refundPercentage: number;
+}
+
+export interface CancellationPolicyRules {
+  id?: string;
+  name: string;
+  consultationType?: ConsultationType | null;
+  tiers: CancellationPolicyTier[];
+}
+
+export interface CancellationPolicyEvaluation {
+  policyId?: string;
+  policyName: string;
+  hoursUntilAppointment: number;
+  refundPercentage: number;
+  refundAmount: number;
+  feeRetained: number;
+  appliedTier: CancellationPolicyTier;
+  explanation: string;
+}
+
+/**
+ * Policy applied when the doctor has not configured one: 100% refund with
+ * 24h notice, 50% between 2 and 24 hours, nothing with less than 2 hours.
+ */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicyRules = {
+  name: "Política estándar",
+  tiers: [
+    { minHoursBefore: 24, refundPercentage: 100 },
+    { minHoursBefore: 2, refundPercentage: 50 },
+    { minHoursBefore: 0, refundPercentage: 0 },
+  ],
+};
+
+export const cancellationPolicyTiersSchema = z
+  .array(
+    z.object({
+      minHoursBefore: z.number().min(0).max(24 * 30),
+      refundPercentage: z.number().int().min(0).max(100),
+    })
+  )
+  .min(1, "La política debe tener al menos un rango")
+  .max(10, "La política no puede tener más de 10 rangos")
+  .refine(
+    (tiers) =>
+      new Set(tiers.map((tier) => tier.minHoursBefore)).size === tiers.length,
+    "Cada rango debe tener una anticipación distinta"
+  );
+
+/**
+ * Sort tiers from the longest notice to the shortest one
+ */
+function sortTiers(tiers: CancellationPolicyTier[]): CancellationPolicyTier[] {
+  return [...tiers].sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+}
+
+function formatHours(hours: number): string {
+  return hours === 1 ? "1 hora" : `${hours} horas`;
+}
+
+/**
+ * Human-readable description of the notice window covered by a tier
+ */
+export function describeCancellationTier(
+  tier: CancellationPolicyTier,
+  tiers: CancellationPolicyTier[]
+): string {
+  const sorted = sortTiers(tiers);
+  const index = sorted.findIndex(
+    (candidate) => candidate.minHoursBefore === tier.minHoursBefore
+  );
+  const upperBound = index > 0 ? sorted[index - 1].minHoursBefore : null;
+
+  if (upperBound === null) {
+    return tier.minHoursBefore > 0
+      ? `Cancelación con ${formatHours(tier.minHoursBefore)} o más de anticipación`
+      : "Cancelación en cualquier momento";
+  }
+
+  if (tier.minHoursBefore === 0) {
+    return `Cancelación con menos de ${formatHours(upperBound)} de anticipación`;
+  }
+
+  return `Cancelación entre ${tier.minHoursBefore} y ${formatHours(upperBound)} de anticipación`;
+}
+
+/**
+ * Evaluate a cancellation policy for an appointment. Amounts are in cents.
+ */
+export function evaluateCancellationPolicy(
+  policy: CancellationPolicyRules,
+  params: {
+    scheduledAt: Date;
+    amount: number;
+    cancelledAt?: Date;
+  }
+): CancellationPolicyEvaluation {
+  const cancelledAt = params.cancelledAt || new Date();
+  const hoursUntilAppointment =
+    (params.scheduledAt.getTime() - cancelledAt.getTime()) / (1000 * 60 * 60);
+
+  const tiers = sortTiers(policy.tiers);
+  const appliedTier = tiers.find(
+    (tier) => hoursUntilAppointment >= tier.minHoursBefore
+  ) || { minHoursBefore: 0, refundPercentage: 0 };
+
+  const refundAmount = Math.round(
+    (params.amount * appliedTier.refundPercentage) / 100
+  );
+  const feeRetained = params.amount - refundAmount;
+
+  const tierDescription =
+    hoursUntilAppointment < 0
+      ? "Cancelación después de la hora de la cita"
+      : describeCancellationTier(appliedTier, tiers);
+
+  let explanation: string;
+  if (appliedTier.refundPercentage === 100) {
+    explanation = `${tierDescription}: recibirás el reembolso completo de ${formatMexicanCurrency(refundAmount)}.`;
+  } else if (appliedTier.refundPercentage > 0) {
+    explanation = `${tierDescription}: recibirás un reembolso del ${appliedTier.refundPercentage}% (${formatMexicanCurrency(refundAmount)}) y se retendrán ${formatMexicanCurrency(feeRetained)}.`;
+  } else {
+    explanation = `${tierDescription}: no aplica reembolso y se retendrá el total de ${formatMexicanCurrency(feeRetained)}.`;
+  }
+
+  return {
+    policyId: policy.id,
+    policyName: policy.name,
+    hoursUntilAppointment,
+    refundPercentage: appliedTier.refundPercentage,
+    refundAmount,
+    feeRetained,
+    appliedTier,
+    explanation,
+  };
+}
+
+/**
+ * Get the active cancellation policy for a doctor and consultation type.
+ * A policy for the specific consultation type wins over the doctor's
+ * general policy, which in turn wins over the platform default.
+ */
+export async function getCancellationPolicy(
+  doctorId: string,
+  consultationType: ConsultationType
+): Promise<CancellationPolicyRules> {
+  const policies = await prisma.cancellationPolicy.findMany({
+    where: {
+      doctorId,
+      isActive: true,
+      OR: [{ consultationType }, { consultationType: null }],
+    },
+  });
+
+  const policy =
+    policies.find((p) => p.consultationType === consultationType) ||
+    policies.find((p) => p.consultationType === null);
+
+  if (!policy) {
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+
+  const tiers = cancellationPolicyTiersSchema.safeParse(policy.tiers);
+  if (!tiers.success) {
+    ErrorLogger.log(new Error("Invalid cancellation policy tiers, using default"), {
+      context: "Cancellation policy",
+      action: "getCancellationPolicy",
+      policyId: policy.id,
+      errors: tiers.error.errors,
+    });
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+
+  return {
+    id: policy.id,
+    name: policy.name,
+    consultationType: policy.consultationType,
+    tiers: tiers.data,
+  };
+}
+
+// Unique index allowing a single general policy per doctor. The
+// @@unique([doctorId, consultationType]) index doesn't cover it because
+// Postgres treats NULLs as distinct.
+export const GENERAL_POLICY_INDEX = "cancellation_policies_doctorId_general_key";
+
+/**
+ * Create the general policy index if it's missing, keeping the most recently
+ * updated of any duplicated general policies. Partial indexes can't be
+ * expressed in the Prisma schema, so `prisma db push` doesn't create it and
+ * database setup runs this afterwards (scripts/apply-db-constraints.ts).
+ */
+export async function ensureGeneralPolicyIndex(): Promise<void> {
+  await prisma.$executeRaw`
+    DELETE FROM "cancellation_policies" p
+    USING "cancellation_policies" newer
+    WHERE p."consultationType" IS NULL
+      AND newer."consultationType" IS NULL
+      AND newer."doctorId" = p."doctorId"
+      AND (newer."updatedAt", newer."id") > (p."updatedAt", p."id")`;
+  await prisma.$executeRaw`
+    CREATE UNIQUE INDEX IF NOT EXISTS "cancellation_policies_doctorId_general_key"
+    ON "cancellation_policies"("doctorId") WHERE "consultationType" IS NULL`;
+}
+
+/**
+ * Whether the general policy index exists. Without it a doctor can end up
+ * with several general policies.
+ */
+export async function hasGeneralPolicyIndex(): Promise<boolean> {
+  const rows = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM pg_indexes WHERE indexname = ${GENERAL_POLICY_INDEX}
+    ) AS "exists"`;
+  return rows[0]?.exists === true;
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+  );
+}
+
+/**
+ * Create or replace a doctor's policy for a consultation type, or the general
+ * one when the type is null. Upsert can't target the general policy index, so
+ * a policy created concurrently by another request is updated instead.
+ */
+export async function saveCancellationPolicy(
+  doctorId: string,
+  consultationType: ConsultationType | null,
+  data: {
+    name: string;
+    tiers: z.infer<typeof cancellationPolicyTiersSchema>;
+    isActive: boolean;
+  }
+): Promise<CancellationPolicy> {
+  const where = { doctorId, consultationType };
+  const existingPolicy = await prisma.cancellationPolicy.findFirst({ where });
+
+  if (!existingPolicy) {
+    try {
+      return await prisma.cancellationPolicy.create({ data: { ...data, ...where } });
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error;
+    }
+  }
+
+  const policy =
+    existingPolicy ?? (await prisma.cancellationPolicy.findFirstOrThrow({ where }));
+
+  return prisma.cancellationPolicy.update({ where: { id: policy.id }, data });
+}
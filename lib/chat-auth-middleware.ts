@@ -477,7 +477,12 @@ async function performAdditionalAuthChecks(
     const appointment = chatRoom.appointment;
 
     // Only allow access to confirmed or in-progress appointments
-    const allowedStatuses = ["CONFIRMED", "IN_PROGRESS", "COMPLETED"];
+    const allowedStatuses = [
+      "CONFIRMED",
+      "CHECKED_IN",
+      "IN_CONSULTATION",
+      "COMPLETED",
+    ];
 
     if (!allowedStatuses.includes(appointment.status) && userRole !== "admin") {
       return {
@@ -0,0 +1,257 @@
+import { prisma } from "@/lib/db";
+import {
+  Appointment,
+  AppointmentStatus,
+  ClinicalNote,
+  ClinicalNoteVersion,
+  Prisma,
+} from "@prisma/client";
+import { z } from "zod";
+
+// ICD-10 code: a letter, two characters and up to four after the dot (J06.9, E11.65)
+const ICD10_CODE = /^[A-Z][0-9][0-9A-Z](\.[0-9A-Z]{1,4})?$/;
+
+const optionalText = z
+  .string()
+  .max(10000)
+  .transform((value) => value.trim() || null)
+  .nullish();
+
+export const vitalsSchema = z.object({
+  systolic: z.number().int().min(50).max(260).optional(), // mmHg
+  diastolic: z.number().int().min(30).max(160).optional(), // mmHg
+  heartRate: z.number().int().min(20).max(250).optional(), // lpm
+  respiratoryRate: z.number().int().min(5).max(80).optional(), // rpm
+  temperature: z.number().min(30).max(45).optional(), // °C
+  oxygenSaturation: z.number().int().min(50).max(100).optional(), // %
+  weight: z.number().min(0.5).max(400).optional(), // kg
+  height: z.number().min(30).max(250).optional(), // cm
+});
+
+export const diagnosisSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(ICD10_CODE, "Código CIE-10 inválido"),
+  description: z.string().trim().min(1).max(300),
+});
+
+export const clinicalNoteSchema = z.object({
+  subjective: optionalText,
+  objective: optionalText,
+  assessment: optionalText,
+  plan: optionalText,
+  instructions: optionalText,
+  vitals: vitalsSchema.nullish(),
+  diagnoses: z.array(diagnosisSchema).max(20).default([]),
+});
+
+export type ClinicalNoteInput = z.infer<typeof clinicalNoteSchema>;
+export type Vitals = z.infer<typeof vitalsSchema>;
+export type Diagnosis = z.infer<typeof diagnosisSchema>;
+
+export type ClinicalNoteWithVersions = ClinicalNote & {
+  versions: ClinicalNoteVersion[];
+};
+
+/**
+ * What the patient sees of a signed note: diagnoses, vitals, plan and
+ * indications, without the doctor's subjective and objective findings
+ */
+export interface PatientNoteSummary {
+  appointmentId: string;
+  version: number;
+  signedAt: Date;
+  doctorName: string;
+  diagnoses: Diagnosis[];
+  vitals: Vitals | null;
+  plan: string | null;
+  instructions: string | null;
+}
+
+// Notes can be written from the confirmation on, but only signed once the
+// consultation started
+const EDITABLE_STATUSES: AppointmentStatus[] = [
+  "CONFIRMED",
+  "CHECKED_IN",
+  "IN_CONSULTATION",
+  "COMPLETED",
+];
+const SIGNABLE_STATUSES: AppointmentStatus[] = ["IN_CONSULTATION", "COMPLETED"];
+
+export class ClinicalNoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ClinicalNoteError";
+  }
+}
+
+/**
+ * Clinical note of an appointment with its versions, newest first
+ */
+export async function getClinicalNote(
+  appointmentId: string
+): Promise<ClinicalNoteWithVersions | null> {
+  return prisma.clinicalNote.findUnique({
+    where: { appointmentId },
+    include: { versions: { orderBy: { version: "desc" } } },
+  });
+}
+
+function toVersionData(input: ClinicalNoteInput) {
+  return {
+    subjective: input.subjective ?? null,
+    objective: input.objective ?? null,
+    assessment: input.assessment ?? null,
+    plan: input.plan ?? null,
+    instructions: input.instructions ?? null,
+    vitals: input.vitals ?? Prisma.JsonNull,
+    diagnoses: input.diagnoses,
+  };
+}
+
+/**
+ * Save the doctor's draft of an appointment's note. The first save creates
+ * the note; saving a signed note starts a new draft version (an amendment)
+ * and keeps the signed one untouched.
+ */
+export async function saveClinicalNoteDraft(
+  appointment: Pick<Appointment, "id" | "doctorId" | "patientId" | "status">,
+  input: ClinicalNoteInput
+): Promise<ClinicalNoteWithVersions> {
+  if (!EDITABLE_STATUSES.includes(appointment.status)) {
+    throw new ClinicalNoteError("Esta cita no admite notas clínicas");
+  }
+
+  const data = toVersionData(input);
+  const note = await prisma.clinicalNote.findUnique({
+    where: { appointmentId: appointment.id },
+  });
+
+  if (!note) {
+    return prisma.clinicalNote.create({
+      data: {
+        appointmentId: appointment.id,
+        doctorId: appointment.doctorId,
+        patientId: appointment.patientId,
+        versions: { create: { version: 1, ...data } },
+      },
+      include: { versions: { orderBy: { version: "desc" } } },
+    });
+  }
+
+  if (note.status === "SIGNED") {
+    const version = note.currentVersion + 1;
+    return prisma.clinicalNote.update({
+      where: { id: note.id },
+      data: {
+        status: "DRAFT",
+        currentVersion: version,
+        versions: { create: { version, ...data } },
+      },
+      include: { versions: { orderBy: { version: "desc" } } },
+    });
+  }
+
+  return prisma.clinicalNote.update({
+    where: { id: note.id },
+    data: {
+      versions: {
+        update: {
+          where: {
+            noteId_version: { noteId: note.id, version: note.currentVersion },
+          },
+          data,
+        },
+      },
+    },
+    include: { versions: { orderBy: { version: "desc" } } },
+  });
+}
+
+/**
+ * Sign the current draft of an appointment's note. A signed version can't
+ * be edited anymore; it needs an assessment or a diagnosis and a plan.
+ */
+export async function signClinicalNote(
+  appointment: Pick<Appointment, "id" | "status">,
+  now: Date = new Date()
+): Promise<ClinicalNoteWithVersions> {
+  if (!SIGNABLE_STATUSES.includes(appointment.status)) {
+    throw new ClinicalNoteError(
+      "La nota se puede firmar una vez iniciada la consulta"
+    );
+  }
+
+  const note = await getClinicalNote(appointment.id);
+  if (!note) {
+    throw new ClinicalNoteError("La cita no tiene nota clínica");
+  }
+  if (note.status === "SIGNED") {
+    throw new ClinicalNoteError("La nota ya está firmada");
+  }
+
+  const current = note.versions.find(
+    (version) => version.version === note.currentVersion
+  )!;
+  const diagnoses = (current.diagnoses as Diagnosis[] | null) ?? [];
+  if ((!current.assessment && diagnoses.length === 0) || !current.plan) {
+    throw new ClinicalNoteError(
+      "Registre la evaluación o un diagnóstico y el plan antes de firmar"
+    );
+  }
+
+  // Claimed as a draft so the same version can't be signed twice
+  const claimed = await prisma.clinicalNote.updateMany({
+    where: { id: note.id, status: "DRAFT", currentVersion: current.version },
+    data: { status: "SIGNED", signedAt: now },
+  });
+  if (claimed.count === 0) {
+    throw new ClinicalNoteError(
+      "La nota fue modificada, recargue e intente de nuevo"
+    );
+  }
+
+  await prisma.clinicalNoteVersion.update({
+    where: { id: current.id },
+    data: { status: "SIGNED", signedAt: now },
+  });
+
+  return (await getClinicalNote(appointment.id))!;
+}
+
+/**
+ * Patient-facing summary of the last signed version of an appointment's
+ * note, or null when nothing has been signed yet. Amendments in progress
+ * are not shown until they are signed.
+ */
+export async function getPatientNoteSummary(
+  appointmentId: string
+): Promise<PatientNoteSummary | null> {
+  const note = await prisma.clinicalNote.findUnique({
+    where: { appointmentId },
+    include: {
+      versions: {
+        where: { status: "SIGNED" },
+        orderBy: { version: "desc" },
+        take: 1,
+      },
+      doctor: { select: { user: { select: { name: true } } } },
+    },
+  });
+
+  const signed = note?.versions[0];
+  if (!note || !signed) return null;
+
+  return {
+    appointmentId,
+    version: signed.version,
+    signedAt: signed.signedAt!,
+    doctorName: note.doctor.user.name,
+    diagnoses: (signed.diagnoses as Diagnosis[] | null) ?? [],
+    vitals: (signed.vitals as Vitals | null) ?? null,
+    plan: signed.plan,
+    instructions: signed.instructions,
+  };
+}
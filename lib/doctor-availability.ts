@@ -0,0 +1,193 @@
+import { ConsultationType } from "@prisma/client";
+import { z } from "zod";
+import type { WorkingHours, WorkingHoursSlot } from "@/lib/types";
+import { DEFAULT_TIME_ZONE, toCalendarDay } from "@/lib/timezones";
+
+// Índice compatible con Date.getUTCDay() de un día calendario: 0 = domingo ... 6 = sábado
+export const WEEKDAY_KEYS = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+] as const;
+
+export type WeekdayKey = (typeof WEEKDAY_KEYS)[number];
+
+export interface AvailabilityRule {
+  dayOfWeek: number;
+  startTime: string;
+  endTime: string;
+  consultationTypes: ConsultationType[];
+  effectiveFrom?: Date | null;
+  effectiveUntil?: Date | null;
+  isActive: boolean;
+}
+
+const timeSchema = z
+  .string()
+  .regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, "Formato de hora inválido (HH:MM)");
+
+export const availabilityRuleSchema = z
+  .object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    startTime: timeSchema,
+    endTime: timeSchema,
+    consultationTypes: z
+      .array(z.enum(["IN_PERSON", "VIRTUAL", "HOME_VISIT"]))
+      .default([]),
+    effectiveFrom: z.coerce.date().nullable().optional(),
+    effectiveUntil: z.coerce.date().nullable().optional(),
+    isActive: z.boolean().default(true),
+  })
+  .refine(
+    (rule) => timeToMinutes(rule.startTime) < timeToMinutes(rule.endTime),
+    "La hora de inicio debe ser menor que la hora de fin"
+  )
+  .refine(
+    (rule) =>
+      !rule.effectiveFrom ||
+      !rule.effectiveUntil ||
+      rule.effectiveFrom <= rule.effectiveUntil,
+    "La fecha de inicio de vigencia debe ser anterior a la fecha de fin"
+  );
+
+/**
+ * Convert an HH:mm string to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a rule applies on a given calendar day. Days and effective
+ * dates are date-only values (see lib/timezones).
+ */
+export function isRuleEffectiveOn(rule: AvailabilityRule, day: Date): boolean {
+  const dayKey = day.toISOString().slice(0, 10);
+
+  if (rule.effectiveFrom && dayKey < new Date(rule.effectiveFrom).toISOString().slice(0, 10)) {
+    return false;
+  }
+
+  if (rule.effectiveUntil && dayKey > new Date(rule.effectiveUntil).toISOString().slice(0, 10)) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Get the working windows that apply to a calendar day in the doctor's time
+ * zone and a consultation type. Times are wall-clock HH:mm in that zone.
+ */
+export function getAvailabilityWindows(
+  rules: AvailabilityRule[],
+  day: Date,
+  consultationType: ConsultationType
+): WorkingHoursSlot[] {
+  return rules
+    .filter(
+      (rule) =>
+        rule.isActive &&
+        rule.dayOfWeek === day.getUTCDay() &&
+        (rule.consultationTypes.length === 0 ||
+          rule.consultationTypes.includes(consultationType)) &&
+        isRuleEffectiveOn(rule, day)
+    )
+    .sort((a, b) => timeToMinutes(a.startTime) - timeToMinutes(b.startTime))
+    .map((rule) => ({ from: rule.startTime, to: rule.endTime }));
+}
+
+/**
+ * Convert the legacy Doctor.workingHours JSON into availability rules
+ */
+export function workingHoursToAvailability(
+  workingHours: Partial<WorkingHours> | null | undefined
+): AvailabilityRule[] {
+  if (!workingHours) return [];
+
+  return WEEKDAY_KEYS.flatMap((dayKey, dayOfWeek) =>
+    (workingHours[dayKey] || []).map((slot) => ({
+      dayOfWeek,
+      startTime: slot.from,
+      endTime: slot.to,
+      consultationTypes: [],
+      isActive: true,
+    }))
+  );
+}
+
+/**
+ * Summarize availability rules with the legacy workingHours shape, for API
+ * consumers that still expect it. Only rules effective today are included.
+ */
+export function availabilityToWorkingHours(
+  rules: AvailabilityRule[],
+  referenceDay: Date = toCalendarDay(new Date(), DEFAULT_TIME_ZONE)
+): WorkingHours {
+  const workingHours = Object.fromEntries(
+    WEEKDAY_KEYS.map((dayKey) => [dayKey, [] as WorkingHoursSlot[]])
+  ) as unknown as WorkingHours;
+
+  for (const rule of rules) {
+    if (!rule.isActive || !isRuleEffectiveOn(rule, referenceDay)) continue;
+    workingHours[WEEKDAY_KEYS[rule.dayOfWeek]].push({
+      from: rule.startTime,
+      to: rule.endTime,
+    });
+  }
+
+  for (const dayKey of WEEKDAY_KEYS) {
+    workingHours[dayKey].sort(
+      (a, b) => timeToMinutes(a.from) - timeToMinutes(b.from)
+    );
+  }
+
+  return workingHours;
+}
+
+/**
+ * Appointment length in minutes configured by the doctor for a consultation type
+ */
+export function getConsultationDuration(
+  doctor: {
+    durationInPerson: number;
+    durationVirtual: number;
+    durationHomeVisit: number;
+  },
+  type: ConsultationType
+): number {
+  switch (type) {
+    case "VIRTUAL":
+      return doctor.durationVirtual || 30;
+    case "HOME_VISIT":
+      return doctor.durationHomeVisit || 60;
+    default:
+      return doctor.durationInPerson || 30;
+  }
+}
+
+/**
+ * Appointment price in cents configured by the doctor for a consultation type
+ */
+export function getConsultationPrice(
+  doctor: {
+    priceInPerson: number | null;
+    priceVirtual: number | null;
+    priceHomeVisit: number | null;
+  },
+  type: ConsultationType
+): number {
+  switch (type) {
+    case "VIRTUAL":
+      return doctor.priceVirtual || 60000; // Default $600 MXN
+    case "HOME_VISIT":
+      return doctor.priceHomeVisit || 120000; // Default $1200 MXN
+    default:
+      return doctor.priceInPerson || 80000; // Default $800 MXN
+  }
+}
@@ -0,0 +1,258 @@
+import { prisma } from "@/lib/db";
+import { diagnosisSchema } from "@/lib/clinical-notes";
+import {
+  BloodType,
+  HealthRecordAction,
+  HealthRecordAccessLog,
+  Prisma,
+  UserRole,
+} from "@prisma/client";
+import { z } from "zod";
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .max(max)
+    .transform((value) => value.trim() || null)
+    .nullish();
+
+// Dates of the record are calendar days (YYYY-MM-DD), not instants
+const calendarDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Fecha inválida, use AAAA-MM-DD");
+
+export const allergySchema = z.object({
+  substance: z.string().trim().min(1).max(120),
+  reaction: optionalText(300),
+  severity: z.enum(["MILD", "MODERATE", "SEVERE"]),
+});
+
+export const chronicConditionSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  icd10Code: diagnosisSchema.shape.code.nullish(),
+  since: z.number().int().min(1900).max(2100).nullish(), // year of diagnosis
+  notes: optionalText(500),
+});
+
+export const medicationSchema = z.object({
+  name: z.string().trim().min(1).max(200),
+  dose: optionalText(120),
+  frequency: optionalText(120),
+  since: calendarDate.nullish(),
+});
+
+export const vaccinationSchema = z.object({
+  vaccine: z.string().trim().min(1).max(120),
+  dose: optionalText(60), // "1a dosis", "refuerzo"
+  date: calendarDate,
+});
+
+export const healthRecordSchema = z.object({
+  bloodType: z.nativeEnum(BloodType).nullable().default(null),
+  allergies: z.array(allergySchema).max(50).default([]),
+  conditions: z.array(chronicConditionSchema).max(50).default([]),
+  medications: z.array(medicationSchema).max(50).default([]),
+  vaccinations: z.array(vaccinationSchema).max(100).default([]),
+});
+
+export type HealthRecordInput = z.infer<typeof healthRecordSchema>;
+export type Allergy = z.infer<typeof allergySchema>;
+export type ChronicCondition = z.infer<typeof chronicConditionSchema>;
+export type Medication = z.infer<typeof medicationSchema>;
+export type Vaccination = z.infer<typeof vaccinationSchema>;
+
+export type HealthRecordSection = keyof HealthRecordInput;
+
+export const HEALTH_RECORD_SECTIONS: HealthRecordSection[] = [
+  "bloodType",
+  "allergies",
+  "conditions",
+  "medications",
+  "vaccinations",
+];
+
+export interface PatientHealthRecord extends HealthRecordInput {
+  patientId: string;
+  updatedAt: Date | null; // null while the patient hasn't filled it in
+}
+
+export interface HealthRecordActor {
+  id: string;
+  role: UserRole;
+}
+
+export type HealthRecordChanges = Partial<
+  Record<HealthRecordSection, { from: unknown; to: unknown }>
+>;
+
+const accessLogInclude = {
+  actor: { select: { name: true } },
+} as const;
+
+export type HealthRecordAccessEntry = Prisma.HealthRecordAccessLogGetPayload<{
+  include: typeof accessLogInclude;
+}>;
+
+export class HealthRecordAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HealthRecordAccessError";
+  }
+}
+
+/**
+ * Health record of a patient, with empty sections when it doesn't exist yet.
+ * It doesn't check access nor write the audit trail; routes use
+ * viewHealthRecord.
+ */
+export async function getHealthRecord(
+  patientId: string
+): Promise<PatientHealthRecord> {
+  const record = await prisma.healthRecord.findUnique({
+    where: { patientId },
+  });
+
+  return {
+    patientId,
+    bloodType: record?.bloodType ?? null,
+    allergies: (record?.allergies as Allergy[] | undefined) ?? [],
+    conditions: (record?.conditions as ChronicCondition[] | undefined) ?? [],
+    medications: (record?.medications as Medication[] | undefined) ?? [],
+    vaccinations: (record?.vaccinations as Vaccination[] | undefined) ?? [],
+    updatedAt: record?.updatedAt ?? null,
+  };
+}
+
+/**
+ * Whether a user can read a patient's record: the patient themselves and the
+ * doctors with an appointment with them, cancelled ones aside
+ */
+export async function canViewHealthRecord(
+  actor: HealthRecordActor,
+  patientId: string
+): Promise<boolean> {
+  if (actor.id === patientId) return true;
+  if (actor.role !== "DOCTOR") return false;
+
+  const appointment = await prisma.appointment.findFirst({
+    where: {
+      patientId,
+      doctor: { userId: actor.id },
+      status: { not: "CANCELLED" },
+    },
+    select: { id: true },
+  });
+
+  return appointment !== null;
+}
+
+function logAccess(
+  client: Prisma.TransactionClient | typeof prisma,
+  patientId: string,
+  actor: HealthRecordActor,
+  action: HealthRecordAction,
+  changes?: HealthRecordChanges
+): Promise<HealthRecordAccessLog> {
+  return client.healthRecordAccessLog.create({
+    data: {
+      patientId,
+      actorId: actor.id,
+      actorRole: actor.role,
+      action,
+      changes: changes ? (changes as Prisma.InputJsonValue) : undefined,
+    },
+  });
+}
+
+/**
+ * Read a patient's record on behalf of `actor`. Reads by anyone other than
+ * the patient are written to the audit trail.
+ */
+export async function viewHealthRecord(
+  patientId: string,
+  actor: HealthRecordActor
+): Promise<PatientHealthRecord> {
+  if (!(await canViewHealthRecord(actor, patientId))) {
+    throw new HealthRecordAccessError(
+      "Solo los doctores con citas del paciente pueden ver su expediente"
+    );
+  }
+
+  const record = await getHealthRecord(patientId);
+  if (actor.id !== patientId) {
+    await logAccess(prisma, patientId, actor, "VIEW");
+  }
+
+  return record;
+}
+
+/**
+ * Sections whose content differs between two versions of the record, with
+ * the previous and new values
+ */
+export function diffHealthRecord(
+  previous: HealthRecordInput,
+  next: HealthRecordInput
+): HealthRecordChanges {
+  const changes: HealthRecordChanges = {};
+  for (const section of HEALTH_RECORD_SECTIONS) {
+    if (JSON.stringify(previous[section]) !== JSON.stringify(next[section])) {
+      changes[section] = { from: previous[section], to: next[section] };
+    }
+  }
+  return changes;
+}
+
+/**
+ * Replace a patient's record with `input`. Only the patient edits it; the
+ * changed sections are written to the audit trail with their old values.
+ */
+export async function updateHealthRecord(
+  patientId: string,
+  input: HealthRecordInput,
+  actor: HealthRecordActor
+): Promise<PatientHealthRecord> {
+  if (actor.id !== patientId) {
+    throw new HealthRecordAccessError(
+      "Solo el paciente puede modificar su expediente"
+    );
+  }
+
+  const previous = await getHealthRecord(patientId);
+  const changes = diffHealthRecord(previous, input);
+  if (Object.keys(changes).length === 0) return previous;
+
+  const data = {
+    bloodType: input.bloodType,
+    allergies: input.allergies,
+    conditions: input.conditions,
+    medications: input.medications,
+    vaccinations: input.vaccinations,
+  };
+
+  await prisma.$transaction(async (tx) => {
+    await tx.healthRecord.upsert({
+      where: { patientId },
+      create: { patientId, ...data },
+      update: data,
+    });
+    await logAccess(tx, patientId, actor, "UPDATE", changes);
+  });
+
+  return getHealthRecord(patientId);
+}
+
+/**
+ * Audit trail of a patient's record, newest first
+ */
+export async function getHealthRecordAccessLog(
+  patientId: string,
+  limit = 50
+): Promise<HealthRecordAccessEntry[]> {
+  return prisma.healthRecordAccessLog.findMany({
+    where: { patientId },
+    include: accessLogInclude,
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
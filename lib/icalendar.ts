@@ -0,0 +1,343 @@
+import { prisma } from "@/lib/db";
+import { AppointmentStatus, ConsultationType } from "@prisma/client";
+import { randomBytes } from "crypto";
+import { translateConsultationType } from "@/lib/mexican-utils";
+
+// iCalendar (RFC 5545) export of appointments, as single-event downloads and
+// as private subscription feeds for Google Calendar, Outlook and Apple
+// Calendar. Times are written in UTC so no VTIMEZONE is needed.
+
+const PRODUCT_ID = "-//Medica Movil//Citas//ES";
+const UID_DOMAIN = "medicamovil.mx";
+
+// Past appointments stay in the feed for a while so calendar clients don't
+// drop them as soon as they happen
+const FEED_PAST_DAYS = 30;
+
+const EVENT_TITLES: Record<ConsultationType, string> = {
+  IN_PERSON: "Consulta presencial",
+  VIRTUAL: "Videoconsulta",
+  HOME_VISIT: "Visita a domicilio",
+};
+
+export type CalendarViewer = "PATIENT" | "DOCTOR";
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  url?: string;
+  status: "TENTATIVE" | "CONFIRMED" | "CANCELLED";
+  sequence: number;
+  lastModified: Date;
+}
+
+export interface CalendarAppointment {
+  id: string;
+  type: ConsultationType;
+  status: AppointmentStatus;
+  scheduledAt: Date;
+  duration: number;
+  updatedAt: Date;
+  doctor: {
+    address: string | null;
+    city: string;
+    state: string;
+    zipCode: string | null;
+    videoCallLink: string | null;
+    user: { name: string };
+  };
+  patient: {
+    name: string;
+    patientProfile: {
+      address: string | null;
+      city: string | null;
+      state: string | null;
+      zipCode: string | null;
+    } | null;
+  };
+}
+
+const calendarAppointmentInclude = {
+  doctor: {
+    select: {
+      address: true,
+      city: true,
+      state: true,
+      zipCode: true,
+      videoCallLink: true,
+      user: { select: { name: true } },
+    },
+  },
+  patient: {
+    select: {
+      name: true,
+      patientProfile: {
+        select: { address: true, city: true, state: true, zipCode: true },
+      },
+    },
+  },
+} as const;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Fold a content line at 75 octets, continuing with a leading space
+ */
+function foldLine(line: string): string[] {
+  const lines: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char);
+    const limit = lines.length === 0 ? 75 : 74;
+
+    if (currentBytes + charBytes > limit) {
+      lines.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+
+    current += char;
+    currentBytes += charBytes;
+  }
+
+  lines.push(current);
+  return lines.map((part, index) => (index === 0 ? part : ` ${part}`));
+}
+
+function joinAddress(parts: Array<string | null | undefined>): string | undefined {
+  const address = parts.filter(Boolean).join(", ");
+  return address || undefined;
+}
+
+function getBaseUrl(): string {
+  return process.env.NEXTAUTH_URL || "";
+}
+
+/**
+ * Link patients and doctors use to join a virtual consultation: the doctor's
+ * own video room when configured, otherwise the consultation chat
+ */
+export function getVideoCallUrl(appointment: Pick<CalendarAppointment, "id" | "doctor">): string {
+  return appointment.doctor.videoCallLink || `${getBaseUrl()}/chat/${appointment.id}`;
+}
+
+function getEventStatus(status: AppointmentStatus): CalendarEvent["status"] {
+  switch (status) {
+    case "PENDING":
+      return "TENTATIVE";
+    case "CANCELLED":
+      return "CANCELLED";
+    default:
+      return "CONFIRMED";
+  }
+}
+
+/**
+ * Describe an appointment as a calendar event from the point of view of the
+ * patient or the doctor
+ */
+export function appointmentToCalendarEvent(
+  appointment: CalendarAppointment,
+  viewer: CalendarViewer
+): CalendarEvent {
+  const typeLabel = translateConsultationType(appointment.type);
+  const summary =
+    viewer === "DOCTOR"
+      ? `${EVENT_TITLES[appointment.type]}: ${appointment.patient.name}`
+      : `${EVENT_TITLES[appointment.type]} con ${appointment.doctor.user.name}`;
+
+  let location: string | undefined;
+  let url: string | undefined;
+
+  if (appointment.type === "VIRTUAL") {
+    url = getVideoCallUrl(appointment);
+    location = url;
+  } else if (appointment.type === "HOME_VISIT") {
+    const profile = appointment.patient.patientProfile;
+    location = joinAddress([profile?.address, profile?.city, profile?.state, profile?.zipCode]);
+  } else {
+    const { doctor } = appointment;
+    location = joinAddress([doctor.address, doctor.city, doctor.state, doctor.zipCode]);
+  }
+
+  const appointmentsUrl = `${getBaseUrl()}${viewer === "DOCTOR" ? "/doctor/agenda" : "/paciente/citas"}`;
+  const description = [
+    `Tipo de consulta: ${typeLabel}`,
+    url && `Enlace de la videoconsulta: ${url}`,
+    appointment.status === "CANCELLED" && "Esta cita fue cancelada.",
+    `Administra tu cita en Medica Movil: ${appointmentsUrl}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  return {
+    uid: `${appointment.id}@${UID_DOMAIN}`,
+    start: appointment.scheduledAt,
+    end: new Date(appointment.scheduledAt.getTime() + appointment.duration * 60 * 1000),
+    summary,
+    description,
+    location,
+    url,
+    status: getEventStatus(appointment.status),
+    // Seconds since epoch grow with every change, so clients always apply updates
+    sequence: Math.floor(appointment.updatedAt.getTime() / 1000),
+    lastModified: appointment.updatedAt,
+  };
+}
+
+/**
+ * Serialize events into an iCalendar document
+ */
+export function buildCalendar(
+  events: CalendarEvent[],
+  options: { name?: string; timeZone?: string } = {}
+): string {
+  const now = formatDateTime(new Date());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+  ];
+
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  if (options.timeZone) {
+    lines.push(`X-WR-TIMEZONE:${options.timeZone}`);
+  }
+
+  for (const event of events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${now}`,
+      `DTSTART:${formatDateTime(event.start)}`,
+      `DTEND:${formatDateTime(event.end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+      `STATUS:${event.status}`,
+      `SEQUENCE:${event.sequence}`,
+      `LAST-MODIFIED:${formatDateTime(event.lastModified)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+
+  return lines.flatMap(foldLine).join("\r\n") + "\r\n";
+}
+
+/**
+ * Appointment with everything needed to export it, plus the ids used to
+ * authorize the download
+ */
+export async function getCalendarAppointment(appointmentId: string) {
+  return prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    include: {
+      ...calendarAppointmentInclude,
+      doctor: {
+        select: { ...calendarAppointmentInclude.doctor.select, userId: true },
+      },
+    },
+  });
+}
+
+/**
+ * Private feed token of a user, created on first use
+ */
+export async function getCalendarFeedToken(userId: string): Promise<string> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { calendarFeedToken: true },
+  });
+
+  if (user?.calendarFeedToken) {
+    return user.calendarFeedToken;
+  }
+
+  return rotateCalendarFeedToken(userId);
+}
+
+/**
+ * Replace the feed token, invalidating previously shared URLs
+ */
+export async function rotateCalendarFeedToken(userId: string): Promise<string> {
+  const calendarFeedToken = randomBytes(24).toString("base64url");
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: { calendarFeedToken },
+  });
+
+  return calendarFeedToken;
+}
+
+export function getCalendarFeedUrl(token: string): string {
+  return `${getBaseUrl()}/api/calendar/feed/${token}`;
+}
+
+/**
+ * Subscription feed with the upcoming and recent appointments of the user that
+ * owns the token. Cancelled appointments are kept as STATUS:CANCELLED so
+ * subscribed calendars remove them. Returns null for unknown tokens.
+ */
+export async function getCalendarFeed(
+  token: string,
+  now: Date = new Date()
+): Promise<string | null> {
+  const user = await prisma.user.findUnique({
+    where: { calendarFeedToken: token },
+    select: {
+      id: true,
+      timezone: true,
+      isActive: true,
+      doctorProfile: { select: { id: true } },
+    },
+  });
+
+  if (!user || !user.isActive) return null;
+
+  const viewer: CalendarViewer = user.doctorProfile ? "DOCTOR" : "PATIENT";
+
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      ...(user.doctorProfile
+        ? { doctorId: user.doctorProfile.id }
+        : { patientId: user.id }),
+      scheduledAt: {
+        gte: new Date(now.getTime() - FEED_PAST_DAYS * 24 * 60 * 60 * 1000),
+      },
+    },
+    include: calendarAppointmentInclude,
+    orderBy: { scheduledAt: "asc" },
+  });
+
+  return buildCalendar(
+    appointments.map((appointment) => appointmentToCalendarEvent(appointment, viewer)),
+    {
+      name: viewer === "DOCTOR" ? "Medica Movil - Agenda" : "Medica Movil - Mis citas",
+      timeZone: user.timezone,
+    }
+  );
+}
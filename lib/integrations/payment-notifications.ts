@@ -1,3 +1,4 @@
+import { renderNotificationTemplate } from "@/lib/notifications/templates";
 import { unifiedNotifications } from "@/lib/unified-notifications";
 
 // Payment notification integration
@@ -10,12 +11,19 @@ export class PaymentNotificationIntegration {
     currency: string;
     provider: string;
     appointmentId?: string;
+    locale?: string;
   }) {
+    const { title, message } = renderNotificationTemplate("payment.completed", {
+      locale: data.locale,
+      channel: "BROWSER",
+      variables: { amount: `${data.amount} ${data.currency}` },
+    });
+
     await unifiedNotifications.createNotification({
       type: "payment_completed",
       priority: "medium",
-      title: "Payment Successful",
-      message: `Your payment of ${data.amount} ${data.currency} has been processed successfully`,
+      title,
+      message,
       userId: data.userId,
       data: {
         paymentId: data.paymentId,
@@ -40,12 +48,19 @@ export class PaymentNotificationIntegration {
     provider: string;
     error: string;
     appointmentId?: string;
+    locale?: string;
   }) {
+    const { title, message } = renderNotificationTemplate("payment.failed", {
+      locale: data.locale,
+      channel: "BROWSER",
+      variables: { amount: `${data.amount} ${data.currency}`, error: data.error },
+    });
+
     await unifiedNotifications.createNotification({
       type: "payment_failed",
       priority: "high",
-      title: "Payment Failed",
-      message: `Your payment of ${data.amount} ${data.currency} could not be processed. ${data.error}`,
+      title,
+      message,
       userId: data.userId,
       data: {
         paymentId: data.paymentId,
@@ -69,12 +84,22 @@ export class PaymentNotificationIntegration {
     amount: number;
     currency: string;
     appointmentId: string;
+    locale?: string;
   }) {
+    const { title, message } = renderNotificationTemplate("payment.received", {
+      locale: data.locale,
+      channel: "BROWSER",
+      variables: {
+        patientName: data.patientName,
+        amount: `${data.amount} ${data.currency}`,
+      },
+    });
+
     await unifiedNotifications.createNotification({
       type: "payment_completed",
       priority: "medium",
-      title: "Payment Received",
-      message: `${data.patientName} has paid ${data.amount} ${data.currency} for their appointment`,
+      title,
+      message,
       userId: data.doctorId,
       data: {
         patientName: data.patientName,
@@ -191,12 +216,19 @@ export class VideoCallNotificationIntegration {
     initiatorName: string;
     chatRoomId: string;
     sessionId: string;
+    locale?: string;
   }) {
+    const { title, message } = renderNotificationTemplate("video_call.incoming", {
+      locale: data.locale,
+      channel: "BROWSER",
+      variables: { callerName: data.initiatorName },
+    });
+
     await unifiedNotifications.createNotification({
       type: "video_call_incoming",
       priority: "urgent",
-      title: "Incoming Video Call",
-      message: `${data.initiatorName} is calling you`,
+      title,
+      message,
       userId: data.recipientId,
       data: {
         initiatorName: data.initiatorName,
@@ -214,13 +246,20 @@ export class VideoCallNotificationIntegration {
     participantIds: string[];
     sessionId: string;
     initiatorName: string;
+    locale?: string;
   }) {
+    const { title, message } = renderNotificationTemplate("video_call.started", {
+      locale: data.locale,
+      channel: "BROWSER",
+      variables: { callerName: data.initiatorName },
+    });
+
     for (const participantId of data.participantIds) {
       await unifiedNotifications.createNotification({
         type: "video_call_started",
         priority: "medium",
-        title: "Video Call Started",
-        message: `Video call with ${data.initiatorName} has started`,
+        title,
+        message,
         userId: participantId,
         data: {
           sessionId: data.sessionId,
@@ -238,15 +277,20 @@ export class VideoCallNotificationIntegration {
     sessionId: string;
     duration: number;
     endedBy: string;
+    locale?: string;
   }) {
+    const { title, message } = renderNotificationTemplate("video_call.ended", {
+      locale: data.locale,
+      channel: "BROWSER",
+      variables: { minutes: String(Math.round(data.duration / 60)) },
+    });
+
     for (const participantId of data.participantIds) {
       await unifiedNotifications.createNotification({
         type: "video_call_ended",
         priority: "low",
-        title: "Video Call Ended",
-        message: `Video call ended after ${Math.round(
-          data.duration / 60
-        )} minutes`,
+        title,
+        message,
         userId: participantId,
         data: {
           sessionId: data.sessionId,
@@ -0,0 +1,522 @@
+import { prisma } from "@/lib/db";
+import { formatMexicanCurrency, formatMexicanDate } from "@/lib/mexican-utils";
+import { PAGE_WIDTH, PdfDocument, wrapText } from "@/lib/pdf-document";
+import { encodeQrCode } from "@/lib/qr-code";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezones";
+import {
+  buildCfdiXml,
+  CFDI_USES,
+  computeCfdiTotals,
+  getCfdiAttribute,
+  getConsultationProductCode,
+  getPaymentForm,
+  getSatVerificationUrl,
+  isPersonaFisica,
+  isTaxRegimeAllowed,
+  RFC_PATTERN,
+  TAX_REGIMES,
+} from "@/lib/invoicing/cfdi-xml";
+import { getPacAdapter } from "@/lib/invoicing/pac";
+import { CfdiParty, CfdiTaxTreatment } from "@/lib/invoicing/types";
+import { FiscalProfile, Invoice, InvoiceEmitterType, Prisma } from "@prisma/client";
+import { z } from "zod";
+
+// Invoices of consultation payments. The doctor is the emitter when they
+// registered their fiscal data, and the consultation is IVA-exempt as a
+// physician's professional service; otherwise the platform invoices it with
+// IVA. The patient's fiscal data is the receiver.
+
+const INVOICE_SERIES = "MM";
+
+// A PENDING invoice older than this was interrupted and can be retried
+const STALE_PENDING_MS = 10 * 60 * 1000;
+
+export const fiscalProfileSchema = z
+  .object({
+    rfc: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(RFC_PATTERN, "RFC inválido"),
+    // CFDI 4.0 validates the name against the SAT's records, in capitals
+    legalName: z
+      .string()
+      .trim()
+      .min(1)
+      .max(254)
+      .transform((value) => value.toUpperCase()),
+    taxRegime: z
+      .string()
+      .refine((value) => value in TAX_REGIMES, "Régimen fiscal inválido"),
+    zipCode: z.string().regex(/^\d{5}$/, "Código postal inválido"),
+    cfdiUse: z
+      .string()
+      .refine((value) => value in CFDI_USES, "Uso de CFDI inválido")
+      .default("D01"),
+  })
+  .refine((profile) => isTaxRegimeAllowed(profile.rfc, profile.taxRegime), {
+    message: "El régimen fiscal no corresponde al tipo de RFC",
+    path: ["taxRegime"],
+  })
+  .refine((profile) => profile.cfdiUse !== "D01" || isPersonaFisica(profile.rfc), {
+    message: "Los honorarios médicos solo son deducibles para personas físicas",
+    path: ["cfdiUse"],
+  });
+
+export type FiscalProfileInput = z.infer<typeof fiscalProfileSchema>;
+
+export class InvoiceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvoiceError";
+  }
+}
+
+const invoicePaymentInclude = {
+  invoice: true,
+  user: { select: { fiscalProfile: true } },
+  appointment: {
+    select: {
+      scheduledAt: true,
+      doctor: {
+        select: {
+          id: true,
+          specialty: true,
+          user: { select: { name: true, fiscalProfile: true } },
+        },
+      },
+    },
+  },
+} as const;
+
+type InvoicePayment = Prisma.PaymentGetPayload<{
+  include: typeof invoicePaymentInclude;
+}>;
+
+interface InvoiceEmitter extends CfdiParty {
+  type: InvoiceEmitterType;
+  zipCode: string;
+  taxTreatment: CfdiTaxTreatment;
+}
+
+export async function getFiscalProfile(userId: string): Promise<FiscalProfile | null> {
+  return prisma.fiscalProfile.findUnique({ where: { userId } });
+}
+
+export async function saveFiscalProfile(
+  userId: string,
+  input: FiscalProfileInput
+): Promise<FiscalProfile> {
+  return prisma.fiscalProfile.upsert({
+    where: { userId },
+    create: { userId, ...input },
+    update: input,
+  });
+}
+
+/**
+ * Fiscal data the platform invoices with, or null when it isn't configured
+ */
+function getPlatformEmitter(): InvoiceEmitter | null {
+  const {
+    CFDI_PLATFORM_RFC,
+    CFDI_PLATFORM_NAME,
+    CFDI_PLATFORM_TAX_REGIME,
+    CFDI_PLATFORM_ZIP_CODE,
+  } = process.env;
+  if (
+    !CFDI_PLATFORM_RFC ||
+    !CFDI_PLATFORM_NAME ||
+    !CFDI_PLATFORM_TAX_REGIME ||
+    !CFDI_PLATFORM_ZIP_CODE
+  ) {
+    return null;
+  }
+
+  return {
+    type: "PLATFORM",
+    rfc: CFDI_PLATFORM_RFC,
+    name: CFDI_PLATFORM_NAME,
+    taxRegime: CFDI_PLATFORM_TAX_REGIME,
+    zipCode: CFDI_PLATFORM_ZIP_CODE,
+    taxTreatment: "IVA_16",
+  };
+}
+
+function getEmitter(doctorProfile: FiscalProfile | null): InvoiceEmitter | null {
+  if (!doctorProfile) return getPlatformEmitter();
+
+  return {
+    type: "DOCTOR",
+    rfc: doctorProfile.rfc,
+    name: doctorProfile.legalName,
+    taxRegime: doctorProfile.taxRegime,
+    zipCode: doctorProfile.zipCode,
+    // Exempt only for physicians themselves, not for clinics (personas morales)
+    taxTreatment: isPersonaFisica(doctorProfile.rfc) ? "EXEMPT" : "IVA_16",
+  };
+}
+
+function isRetryable(invoice: Invoice, now: Date): boolean {
+  return (
+    invoice.status === "FAILED" ||
+    (invoice.status === "PENDING" &&
+      now.getTime() - invoice.updatedAt.getTime() > STALE_PENDING_MS)
+  );
+}
+
+/**
+ * Create the invoice row, or take over a failed or interrupted attempt for
+ * the payment. Two simultaneous requests can't both get it.
+ */
+async function claimInvoice(
+  payment: InvoicePayment,
+  data: Omit<Prisma.InvoiceUncheckedCreateInput, "paymentId" | "series">
+): Promise<Invoice> {
+  const existing = payment.invoice;
+
+  if (!existing) {
+    try {
+      return await prisma.invoice.create({
+        data: { ...data, paymentId: payment.id, series: INVOICE_SERIES },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new InvoiceError("La factura de este pago ya se está generando");
+      }
+      throw error;
+    }
+  }
+
+  const claimed = await prisma.invoice.updateMany({
+    where: { id: existing.id, status: existing.status, updatedAt: existing.updatedAt },
+    data: { ...data, status: "PENDING", failureReason: null },
+  });
+  if (claimed.count === 0) {
+    throw new InvoiceError("La factura de este pago ya se está generando");
+  }
+
+  return prisma.invoice.findUniqueOrThrow({ where: { id: existing.id } });
+}
+
+/**
+ * Invoice a completed consultation payment: build the CFDI 4.0 from the
+ * emitter's and the patient's fiscal data and have the PAC stamp it. A
+ * rejected invoice is kept as FAILED and can be requested again.
+ */
+export async function requestInvoice(
+  paymentId: string,
+  now: Date = new Date()
+): Promise<Invoice> {
+  const payment = await prisma.payment.findUniqueOrThrow({
+    where: { id: paymentId },
+    include: invoicePaymentInclude,
+  });
+
+  if (payment.status !== "COMPLETED") {
+    throw new InvoiceError("Solo se pueden facturar pagos completados");
+  }
+  if (payment.invoice?.status === "STAMPED") {
+    throw new InvoiceError("Este pago ya tiene factura");
+  }
+  if (payment.invoice && !isRetryable(payment.invoice, now)) {
+    throw new InvoiceError("La factura de este pago ya se está generando");
+  }
+
+  const receiver = payment.user.fiscalProfile;
+  if (!receiver) {
+    throw new InvoiceError("Registre sus datos fiscales para solicitar la factura");
+  }
+
+  const appointment = payment.appointment;
+  if (!appointment) {
+    throw new InvoiceError("El pago no corresponde a una consulta");
+  }
+
+  const emitter = getEmitter(appointment.doctor.user.fiscalProfile);
+  if (!emitter) {
+    throw new InvoiceError("La facturación no está disponible para esta consulta");
+  }
+
+  const pac = getPacAdapter();
+  if (!pac) {
+    throw new InvoiceError("La facturación electrónica no está disponible");
+  }
+
+  const totals = computeCfdiTotals(payment.amount, emitter.taxTreatment);
+  const paymentForm = getPaymentForm(payment.method);
+  const invoice = await claimInvoice(payment, {
+    userId: payment.userId,
+    doctorId: appointment.doctor.id,
+    emitterType: emitter.type,
+    emitterRfc: emitter.rfc,
+    emitterName: emitter.name,
+    emitterRegime: emitter.taxRegime,
+    receiverRfc: receiver.rfc,
+    receiverName: receiver.legalName,
+    receiverRegime: receiver.taxRegime,
+    receiverZipCode: receiver.zipCode,
+    cfdiUse: receiver.cfdiUse,
+    paymentForm,
+    taxTreatment: emitter.taxTreatment,
+    ...totals,
+  });
+
+  const description =
+    `Consulta médica de ${appointment.doctor.specialty} con ` +
+    `${appointment.doctor.user.name} el ` +
+    formatMexicanDate(appointment.scheduledAt, DEFAULT_TIME_ZONE);
+
+  const xml = buildCfdiXml({
+    series: invoice.series,
+    folio: invoice.folio,
+    issuedAt: now,
+    issuerZipCode: emitter.zipCode,
+    paymentForm,
+    emitter,
+    receiver: {
+      rfc: receiver.rfc,
+      name: receiver.legalName,
+      taxRegime: receiver.taxRegime,
+      zipCode: receiver.zipCode,
+      cfdiUse: receiver.cfdiUse,
+    },
+    concept: {
+      productCode: getConsultationProductCode(appointment.doctor.specialty),
+      description,
+      amount: payment.amount,
+    },
+    taxTreatment: emitter.taxTreatment,
+  });
+
+  const result = await pac.stamp({ xml, emitterRfc: emitter.rfc });
+
+  if (!result.success) {
+    await prisma.invoice.update({
+      where: { id: invoice.id },
+      data: { status: "FAILED", pacName: pac.name, failureReason: result.error },
+    });
+    throw new InvoiceError(`El SAT rechazó la factura: ${result.error}`);
+  }
+
+  return prisma.invoice.update({
+    where: { id: invoice.id },
+    data: {
+      status: "STAMPED",
+      uuid: result.uuid,
+      xml: result.xml,
+      stampedAt: result.stampedAt ?? now,
+      pacName: pac.name,
+      failureReason: null,
+    },
+  });
+}
+
+/**
+ * What the patient sees of an invoice, without the XML
+ */
+export function toInvoiceSummary(invoice: Invoice) {
+  return {
+    id: invoice.id,
+    status: invoice.status,
+    series: invoice.series,
+    folio: invoice.folio,
+    uuid: invoice.uuid,
+    emitterName: invoice.emitterName,
+    emitterRfc: invoice.emitterRfc,
+    receiverRfc: invoice.receiverRfc,
+    total: invoice.total,
+    failureReason: invoice.failureReason,
+    stampedAt: invoice.stampedAt,
+  };
+}
+
+export function getInvoiceFileName(invoice: Pick<Invoice, "series" | "folio" | "uuid">) {
+  return `factura-${invoice.series}${invoice.folio}-${invoice.uuid}`;
+}
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const GRAY: [number, number, number] = [0.35, 0.35, 0.35];
+const LIGHT: [number, number, number] = [0.93, 0.93, 0.93];
+
+/**
+ * Printed representation of a stamped invoice: parties, concept, totals, the
+ * digital stamp and a QR to the SAT's verification service
+ */
+export function renderInvoicePdf(invoice: Invoice): Buffer {
+  const xml = invoice.xml ?? "";
+  const seal = getCfdiAttribute(xml, "cfdi:Comprobante", "Sello") ?? "";
+  const stamp = (attribute: string) =>
+    getCfdiAttribute(xml, "tfd:TimbreFiscalDigital", attribute) ?? "";
+
+  const pdf = new PdfDocument(`Factura ${invoice.series}${invoice.folio}`);
+  let y = MARGIN;
+
+  // Encabezado
+  pdf.text(MARGIN, y, invoice.emitterName, { size: 14, bold: true });
+  pdf.text(PAGE_WIDTH - MARGIN, y, "FACTURA", { size: 14, bold: true, align: "right" });
+  y += 20;
+  pdf.text(MARGIN, y, `RFC: ${invoice.emitterRfc}`, { size: 10 });
+  pdf.text(PAGE_WIDTH - MARGIN, y, `Serie y folio: ${invoice.series}${invoice.folio}`, {
+    size: 10,
+    align: "right",
+  });
+  y += 14;
+  pdf.text(
+    MARGIN,
+    y,
+    `Régimen fiscal: ${invoice.emitterRegime} ${TAX_REGIMES[invoice.emitterRegime] ?? ""}`,
+    { size: 9, color: GRAY }
+  );
+  pdf.text(PAGE_WIDTH - MARGIN, y, `Folio fiscal: ${invoice.uuid ?? ""}`, {
+    size: 8,
+    align: "right",
+  });
+  y += 14;
+  pdf.text(
+    MARGIN,
+    y,
+    `Lugar de expedición: ${getCfdiAttribute(xml, "cfdi:Comprobante", "LugarExpedicion") ?? ""}`,
+    { size: 9, color: GRAY }
+  );
+  pdf.text(
+    PAGE_WIDTH - MARGIN,
+    y,
+    `Fecha: ${getCfdiAttribute(xml, "cfdi:Comprobante", "Fecha") ?? ""}`,
+    { size: 9, align: "right" }
+  );
+  y += 18;
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y, 1);
+  y += 12;
+
+  // Receptor
+  pdf.text(MARGIN, y, "Receptor", { size: 10, bold: true });
+  y += 14;
+  pdf.text(MARGIN, y, invoice.receiverName, { size: 10 });
+  y += 13;
+  pdf.text(MARGIN, y, `RFC: ${invoice.receiverRfc}   C.P.: ${invoice.receiverZipCode}`, {
+    size: 9,
+  });
+  y += 13;
+  pdf.text(
+    MARGIN,
+    y,
+    `Régimen fiscal: ${invoice.receiverRegime} ${TAX_REGIMES[invoice.receiverRegime] ?? ""}`,
+    { size: 9, color: GRAY }
+  );
+  y += 13;
+  pdf.text(
+    MARGIN,
+    y,
+    `Uso del CFDI: ${invoice.cfdiUse} ${CFDI_USES[invoice.cfdiUse] ?? ""}`,
+    { size: 9, color: GRAY }
+  );
+  y += 22;
+
+  // Concepto
+  pdf.rect(MARGIN, y, CONTENT_WIDTH, 18, LIGHT);
+  pdf.text(MARGIN + 6, y + 4, "Clave", { size: 9, bold: true });
+  pdf.text(MARGIN + 70, y + 4, "Descripción", { size: 9, bold: true });
+  pdf.text(PAGE_WIDTH - MARGIN - 6, y + 4, "Importe", { size: 9, bold: true, align: "right" });
+  y += 24;
+  pdf.text(
+    MARGIN + 6,
+    y,
+    getCfdiAttribute(xml, "cfdi:Concepto", "ClaveProdServ") ?? "",
+    { size: 9 }
+  );
+  pdf.text(PAGE_WIDTH - MARGIN - 6, y, formatMexicanCurrency(invoice.subtotal), {
+    size: 9,
+    align: "right",
+  });
+  for (const line of wrapText(
+    getCfdiAttribute(xml, "cfdi:Concepto", "Descripcion") ?? "",
+    CONTENT_WIDTH - 170,
+    9
+  )) {
+    pdf.text(MARGIN + 70, y, line, { size: 9 });
+    y += 13;
+  }
+  pdf.text(MARGIN + 70, y, "Cantidad: 1   Unidad: E48 Unidad de servicio", {
+    size: 8,
+    color: GRAY,
+  });
+  y += 20;
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 10;
+
+  // Totales
+  pdf.text(
+    MARGIN,
+    y,
+    `Forma de pago: ${invoice.paymentForm}   Método de pago: PUE Pago en una sola exhibición`,
+    { size: 8, color: GRAY }
+  );
+  pdf.text(MARGIN, y + 12, "Moneda: MXN   Tipo de comprobante: I Ingreso", {
+    size: 8,
+    color: GRAY,
+  });
+  const totalsLeft = PAGE_WIDTH - MARGIN - 150;
+  const totalRow = (label: string, value: string, bold = false) => {
+    pdf.text(totalsLeft, y, label, { size: 10, bold });
+    pdf.text(PAGE_WIDTH - MARGIN - 6, y, value, { size: 10, bold, align: "right" });
+    y += 15;
+  };
+  totalRow("Subtotal", formatMexicanCurrency(invoice.subtotal));
+  totalRow(
+    invoice.taxTreatment === "EXEMPT" ? "IVA exento" : "IVA 16%",
+    formatMexicanCurrency(invoice.tax)
+  );
+  totalRow("Total", formatMexicanCurrency(invoice.total), true);
+  y += 16;
+
+  // Timbre fiscal digital
+  const url = getSatVerificationUrl({
+    uuid: invoice.uuid ?? "",
+    emitterRfc: invoice.emitterRfc,
+    receiverRfc: invoice.receiverRfc,
+    total: invoice.total,
+    seal,
+  });
+  const qr = encodeQrCode(url);
+  const moduleSize = 100 / qr.size;
+  const qrTop = y;
+  qr.modules.forEach((row, r) => {
+    row.forEach((dark, c) => {
+      if (dark) {
+        pdf.rect(MARGIN + c * moduleSize, qrTop + r * moduleSize, moduleSize, moduleSize);
+      }
+    });
+  });
+
+  const stampLeft = MARGIN + 115;
+  const stampWidth = CONTENT_WIDTH - 115;
+  const stampField = (label: string, value: string) => {
+    pdf.text(stampLeft, y, label, { size: 7, bold: true });
+    y += 9;
+    for (const line of wrapText(value, stampWidth, 6)) {
+      pdf.text(stampLeft, y, line, { size: 6, color: GRAY });
+      y += 8;
+    }
+    y += 3;
+  };
+  stampField("Sello digital del CFDI", seal);
+  stampField("Sello digital del SAT", stamp("SelloSAT"));
+  stampField(
+    "Certificación",
+    `No. de serie del certificado del SAT: ${stamp("NoCertificadoSAT")}   ` +
+      `Fecha de certificación: ${stamp("FechaTimbrado")}   ` +
+      `RFC del proveedor de certificación: ${stamp("RfcProvCertif")}`
+  );
+  y = Math.max(y, qrTop + 100) + 10;
+  pdf.text(MARGIN, y, "Este documento es una representación impresa de un CFDI", {
+    size: 8,
+    color: GRAY,
+  });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,266 @@
+import { PaymentMethod } from "@prisma/client";
+import { toZonedISOString } from "@/lib/timezones";
+import { CfdiInvoiceData, CfdiTaxTreatment } from "./types";
+
+// CFDI 4.0 building blocks: the SAT catalogs the platform uses and the XML of
+// an income ("I") invoice for a consultation. Sello, NoCertificado and
+// Certificado are left empty for the PAC to fill in.
+
+const CFDI_NAMESPACE = "http://www.sat.gob.mx/cfd/4";
+const CFDI_SCHEMA_LOCATION =
+  "http://www.sat.gob.mx/cfd/4 http://www.sat.gob.mx/sitio_internet/cfd/4/cfdv40.xsd";
+
+// CFDI dates are the wall-clock time of the place of issue
+const CFDI_TIME_ZONE = "America/Mexico_City";
+
+const IVA_RATE = 0.16;
+
+// 12 characters for personas morales, 13 for personas físicas
+export const RFC_PATTERN = /^[A-ZÑ&]{3,4}\d{6}[A-Z\d]{3}$/;
+
+/**
+ * c_RegimenFiscal: the regimes patients and doctors usually have
+ */
+export const TAX_REGIMES: Record<string, string> = {
+  "601": "General de Ley Personas Morales",
+  "603": "Personas Morales con Fines no Lucrativos",
+  "605": "Sueldos y Salarios e Ingresos Asimilados a Salarios",
+  "606": "Arrendamiento",
+  "608": "Demás ingresos",
+  "612": "Personas Físicas con Actividades Empresariales y Profesionales",
+  "616": "Sin obligaciones fiscales",
+  "621": "Incorporación Fiscal",
+  "625": "Actividades Empresariales con ingresos a través de Plataformas Tecnológicas",
+  "626": "Régimen Simplificado de Confianza",
+};
+
+// Regimes exclusive to personas morales or to personas físicas; the rest
+// (616, 626) apply to both
+const MORAL_REGIMES = ["601", "603"];
+const FISICA_REGIMES = ["605", "606", "608", "612", "621", "625"];
+
+/**
+ * c_UsoCFDI: D01 makes the consultation deductible in the patient's annual
+ * return, which only personas físicas file
+ */
+export const CFDI_USES: Record<string, string> = {
+  D01: "Honorarios médicos, dentales y gastos hospitalarios",
+  G03: "Gastos en general",
+  S01: "Sin efectos fiscales",
+};
+
+// c_FormaPago of each payment method
+const PAYMENT_FORMS: Record<PaymentMethod, string> = {
+  CARD: "04", // tarjeta de crédito
+  OXXO: "01", // efectivo
+  SPEI: "03", // transferencia electrónica de fondos
+  PAYPAL: "06", // dinero electrónico
+  MERCADOPAGO_CARD: "04",
+  MERCADOPAGO_INSTALLMENTS: "04",
+};
+
+// c_ClaveProdServ
+const GENERAL_PRACTICE_PRODUCT_CODE = "85121502"; // consulta de médicos de atención primaria
+const SPECIALIST_PRODUCT_CODE = "85121600"; // servicios médicos de doctores especialistas
+
+export function getPaymentForm(method: PaymentMethod): string {
+  return PAYMENT_FORMS[method];
+}
+
+export function getConsultationProductCode(specialty: string): string {
+  return specialty === "Medicina General"
+    ? GENERAL_PRACTICE_PRODUCT_CODE
+    : SPECIALIST_PRODUCT_CODE;
+}
+
+export function isPersonaFisica(rfc: string): boolean {
+  return rfc.length === 13;
+}
+
+/**
+ * Whether a tax regime can be used with an RFC, which tells personas físicas
+ * and morales apart
+ */
+export function isTaxRegimeAllowed(rfc: string, taxRegime: string): boolean {
+  return isPersonaFisica(rfc)
+    ? !MORAL_REGIMES.includes(taxRegime)
+    : !FISICA_REGIMES.includes(taxRegime);
+}
+
+/**
+ * Subtotal, transferred IVA and total in cents of a price with taxes
+ * included. The IVA is whatever remains of the price after the subtotal, so
+ * the total is exactly what was paid; it stays within the SAT's rounding
+ * tolerance of half a cent of the base times the rate.
+ */
+export function computeCfdiTotals(
+  amount: number,
+  taxTreatment: CfdiTaxTreatment
+): { subtotal: number; tax: number; total: number } {
+  if (taxTreatment === "EXEMPT") {
+    return { subtotal: amount, tax: 0, total: amount };
+  }
+
+  const subtotal = Math.round(amount / (1 + IVA_RATE));
+  return { subtotal, tax: amount - subtotal, total: amount };
+}
+
+function formatAmount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function element(
+  name: string,
+  attributes: Record<string, string | number | undefined>,
+  children: string[] = []
+): string {
+  const rendered = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(String(value))}"`)
+    .join("");
+
+  return children.length === 0
+    ? `<${name}${rendered}/>`
+    : `<${name}${rendered}>${children.join("")}</${name}>`;
+}
+
+function transfer(base: number, tax: number, taxTreatment: CfdiTaxTreatment) {
+  return taxTreatment === "EXEMPT"
+    ? element("cfdi:Traslado", {
+        Base: formatAmount(base),
+        Impuesto: "002",
+        TipoFactor: "Exento",
+      })
+    : element("cfdi:Traslado", {
+        Base: formatAmount(base),
+        Impuesto: "002",
+        TipoFactor: "Tasa",
+        TasaOCuota: IVA_RATE.toFixed(6),
+        Importe: formatAmount(tax),
+      });
+}
+
+/**
+ * Unsealed CFDI 4.0 XML of a one-concept income invoice, paid in one
+ * exhibition (PUE)
+ */
+export function buildCfdiXml(invoice: CfdiInvoiceData): string {
+  const { subtotal, tax, total } = computeCfdiTotals(
+    invoice.concept.amount,
+    invoice.taxTreatment
+  );
+
+  const concept = element(
+    "cfdi:Concepto",
+    {
+      ClaveProdServ: invoice.concept.productCode,
+      Cantidad: "1",
+      ClaveUnidad: "E48",
+      Unidad: "Unidad de servicio",
+      Descripcion: invoice.concept.description,
+      ValorUnitario: formatAmount(subtotal),
+      Importe: formatAmount(subtotal),
+      ObjetoImp: "02",
+    },
+    [
+      element("cfdi:Impuestos", {}, [
+        element("cfdi:Traslados", {}, [transfer(subtotal, tax, invoice.taxTreatment)]),
+      ]),
+    ]
+  );
+
+  const taxes = element(
+    "cfdi:Impuestos",
+    {
+      TotalImpuestosTrasladados:
+        invoice.taxTreatment === "EXEMPT" ? undefined : formatAmount(tax),
+    },
+    [element("cfdi:Traslados", {}, [transfer(subtotal, tax, invoice.taxTreatment)])]
+  );
+
+  const comprobante = element(
+    "cfdi:Comprobante",
+    {
+      "xmlns:cfdi": CFDI_NAMESPACE,
+      "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+      "xsi:schemaLocation": CFDI_SCHEMA_LOCATION,
+      Version: "4.0",
+      Serie: invoice.series,
+      Folio: invoice.folio,
+      Fecha: toZonedISOString(invoice.issuedAt, CFDI_TIME_ZONE).slice(0, 19),
+      Sello: "",
+      FormaPago: invoice.paymentForm,
+      NoCertificado: "",
+      Certificado: "",
+      SubTotal: formatAmount(subtotal),
+      Moneda: "MXN",
+      Total: formatAmount(total),
+      TipoDeComprobante: "I",
+      Exportacion: "01",
+      MetodoPago: "PUE",
+      LugarExpedicion: invoice.issuerZipCode,
+    },
+    [
+      element("cfdi:Emisor", {
+        Rfc: invoice.emitter.rfc,
+        Nombre: invoice.emitter.name,
+        RegimenFiscal: invoice.emitter.taxRegime,
+      }),
+      element("cfdi:Receptor", {
+        Rfc: invoice.receiver.rfc,
+        Nombre: invoice.receiver.name,
+        DomicilioFiscalReceptor: invoice.receiver.zipCode,
+        RegimenFiscalReceptor: invoice.receiver.taxRegime,
+        UsoCFDI: invoice.receiver.cfdiUse,
+      }),
+      element("cfdi:Conceptos", {}, [concept]),
+      taxes,
+    ]
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${comprobante}`;
+}
+
+/**
+ * Read an attribute of the first element with that name in a CFDI
+ */
+export function getCfdiAttribute(
+  xml: string,
+  elementName: string,
+  attribute: string
+): string | null {
+  const tag = xml.match(new RegExp(`<${elementName}\\s[^>]*>`));
+  const value = tag?.[0].match(new RegExp(`\\s${attribute}="([^"]*)"`));
+  return value ? value[1] : null;
+}
+
+/**
+ * URL of the SAT's public CFDI verification service, printed as a QR on the
+ * invoice PDF. `fe` is the last 8 characters of the emitter's seal.
+ */
+export function getSatVerificationUrl(params: {
+  uuid: string;
+  emitterRfc: string;
+  receiverRfc: string;
+  total: number;
+  seal: string;
+}): string {
+  const query = [
+    `id=${params.uuid}`,
+    `re=${encodeURIComponent(params.emitterRfc)}`,
+    `rr=${encodeURIComponent(params.receiverRfc)}`,
+    `tt=${formatAmount(params.total)}`,
+    `fe=${encodeURIComponent(params.seal.slice(-8))}`,
+  ].join("&");
+
+  return `https://verificacfdi.facturaelectronica.sat.gob.mx/default.aspx?${query}`;
+}
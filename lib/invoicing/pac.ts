@@ -0,0 +1,54 @@
+import { StubPacAdapter } from "./pac/StubPacAdapter";
+import { PacAdapter } from "./types";
+
+/**
+ * PACs that can stamp invoices, selected with CFDI_PAC_ADAPTER. A provider
+ * integration implements PacAdapter and registers a factory here that reads
+ * its credentials from the environment, returning null when they're missing.
+ * "stub" stamps locally and is never picked implicitly in production.
+ */
+const PAC_FACTORIES: Record<string, () => PacAdapter | null> = {
+  stub: () => new StubPacAdapter(),
+};
+
+let adapter: PacAdapter | null | undefined;
+
+function createPacAdapter(): PacAdapter | null {
+  const selected = process.env.CFDI_PAC_ADAPTER;
+
+  if (selected) {
+    const factory = PAC_FACTORIES[selected];
+    if (!factory) {
+      console.warn(`Unknown CFDI PAC adapter: ${selected}`);
+    }
+    const configured = factory?.() ?? null;
+    if (configured) return configured;
+  }
+
+  if (process.env.NODE_ENV !== "production") {
+    return new StubPacAdapter();
+  }
+
+  return null;
+}
+
+/**
+ * Adapter stamping invoices, or null when no PAC is configured in production
+ */
+export function getPacAdapter(): PacAdapter | null {
+  if (adapter === undefined) {
+    adapter = createPacAdapter();
+  }
+  return adapter;
+}
+
+/**
+ * Replace the PAC adapter, e.g. with a StubPacAdapter in tests
+ */
+export function setPacAdapter(pacAdapter: PacAdapter | null) {
+  adapter = pacAdapter;
+}
+
+export function resetPacAdapter() {
+  adapter = undefined;
+}
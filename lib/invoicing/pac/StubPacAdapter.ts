@@ -0,0 +1,69 @@
+import { createHash, randomUUID } from "crypto";
+import { PacAdapter, StampRequest, StampResult } from "../types";
+
+// Certificate number of the SAT's test CSDs, so stub invoices are never
+// mistaken for real ones
+const TEST_CERTIFICATE_NUMBER = "30001000000500003416";
+const TEST_PAC_RFC = "SPR190613I52";
+
+const TFD_NAMESPACE = "http://www.sat.gob.mx/TimbreFiscalDigital";
+const TFD_SCHEMA_LOCATION =
+  "http://www.sat.gob.mx/TimbreFiscalDigital " +
+  "http://www.sat.gob.mx/sitio_internet/cfd/TimbreFiscalDigital/TimbreFiscalDigitalv11.xsd";
+
+export interface StampedInvoice extends StampRequest {
+  uuid: string;
+  stampedAt: Date;
+}
+
+/**
+ * Stamps invoices locally with a random UUID and fake seals instead of
+ * calling a PAC. Used in development and tests, and whenever no PAC is
+ * configured outside production.
+ */
+export class StubPacAdapter implements PacAdapter {
+  readonly name = "PAC de pruebas";
+  readonly stamped: StampedInvoice[] = [];
+  private failures: string[] = [];
+
+  /**
+   * Make the next stamps fail with these errors, in order
+   */
+  failNext(...errors: string[]) {
+    this.failures.push(...errors);
+  }
+
+  async stamp(request: StampRequest): Promise<StampResult> {
+    const failure = this.failures.shift();
+    if (failure) return { success: false, error: failure };
+
+    const uuid = randomUUID().toUpperCase();
+    const stampedAt = new Date();
+    const seal = createHash("sha256").update(request.xml).digest("base64");
+    const satSeal = createHash("sha256").update(`${uuid}|${seal}`).digest("base64");
+
+    const stampDate = stampedAt.toISOString().slice(0, 19);
+    const complement =
+      "<cfdi:Complemento>" +
+      `<tfd:TimbreFiscalDigital xmlns:tfd="${TFD_NAMESPACE}" ` +
+      `xsi:schemaLocation="${TFD_SCHEMA_LOCATION}" Version="1.1" UUID="${uuid}" ` +
+      `FechaTimbrado="${stampDate}" RfcProvCertif="${TEST_PAC_RFC}" ` +
+      `SelloCFD="${seal}" NoCertificadoSAT="${TEST_CERTIFICATE_NUMBER}" ` +
+      `SelloSAT="${satSeal}"/>` +
+      "</cfdi:Complemento>";
+
+    const xml = request.xml
+      .replace('Sello=""', `Sello="${seal}"`)
+      .replace('NoCertificado=""', `NoCertificado="${TEST_CERTIFICATE_NUMBER}"`)
+      .replace("</cfdi:Comprobante>", `${complement}</cfdi:Comprobante>`);
+
+    this.stamped.push({ ...request, uuid, stampedAt });
+
+    return { success: true, uuid, xml, stampedAt };
+  }
+
+  clear() {
+    this.stamped.length = 0;
+    this.failures = [];
+  }
+}
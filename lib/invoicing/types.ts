@@ -0,0 +1,54 @@
+// CFDI 4.0 invoices ("facturas") for consultation payments. The platform
+// builds the XML and a PAC (proveedor autorizado de certificación) seals it
+// with the emitter's CSD and stamps it with the SAT's fiscal folio (UUID).
+
+export interface CfdiParty {
+  rfc: string;
+  name: string; // razón social exactly as in the constancia de situación fiscal
+  taxRegime: string; // c_RegimenFiscal, e.g. "612"
+}
+
+export interface CfdiReceiver extends CfdiParty {
+  zipCode: string; // domicilio fiscal
+  cfdiUse: string; // c_UsoCFDI, e.g. "D01"
+}
+
+export interface CfdiConcept {
+  productCode: string; // c_ClaveProdServ
+  description: string;
+  amount: number; // cents paid, taxes included
+}
+
+// Medical services rendered by a physician are IVA-exempt; anything else
+// carries the general 16% rate
+export type CfdiTaxTreatment = "EXEMPT" | "IVA_16";
+
+export interface CfdiInvoiceData {
+  series: string;
+  folio: number;
+  issuedAt: Date;
+  issuerZipCode: string; // lugar de expedición
+  paymentForm: string; // c_FormaPago
+  emitter: CfdiParty;
+  receiver: CfdiReceiver;
+  concept: CfdiConcept;
+  taxTreatment: CfdiTaxTreatment;
+}
+
+export interface StampRequest {
+  xml: string;
+  emitterRfc: string;
+}
+
+export interface StampResult {
+  success: boolean;
+  uuid?: string; // folio fiscal
+  xml?: string; // sealed XML with the TimbreFiscalDigital complement
+  stampedAt?: Date;
+  error?: string;
+}
+
+export interface PacAdapter {
+  readonly name: string;
+  stamp(request: StampRequest): Promise<StampResult>;
+}
@@ -186,22 +186,30 @@ export function getMexicanGreeting(): string {
   }
 }
 
-// Formatear fecha en español mexicano
-export function formatMexicanDate(date: Date): string {
+// Formatear fecha en español mexicano. Sin zona horaria se usa la del
+// navegador; en el servidor se debe indicar la zona del destinatario.
+export function formatMexicanDate(date: Date, timeZone?: string): string {
   return new Intl.DateTimeFormat('es-MX', {
     weekday: 'long',
     year: 'numeric',
     month: 'long',
-    day: 'numeric'
+    day: 'numeric',
+    timeZone
   }).format(date);
 }
 
-// Formatear hora en formato mexicano
-export function formatMexicanTime(date: Date): string {
+// Formatear hora en formato mexicano, opcionalmente con la abreviatura de la zona
+export function formatMexicanTime(
+  date: Date,
+  timeZone?: string,
+  options: { showTimeZone?: boolean } = {}
+): string {
   return new Intl.DateTimeFormat('es-MX', {
     hour: '2-digit',
     minute: '2-digit',
-    hour12: true
+    hour12: true,
+    timeZone,
+    timeZoneName: options.showTimeZone ? 'short' : undefined
   }).format(date);
 }
 
@@ -211,6 +219,19 @@ export function validateCURP(curp: string): boolean {
   return curpRegex.test(curp.toUpperCase());
 }
 
+// Validar CLABE interbancaria (18 dígitos con dígito de control)
+export function validateCLABE(clabe: string): boolean {
+  if (!/^\d{18}$/.test(clabe)) return false;
+
+  const weights = [3, 7, 1];
+  const sum = clabe
+    .slice(0, 17)
+    .split('')
+    .reduce((total, digit, index) => total + ((Number(digit) * weights[index % 3]) % 10), 0);
+
+  return (10 - (sum % 10)) % 10 === Number(clabe[17]);
+}
+
 // Rangos de precios predefinidos para filtros
 export const PRICE_RANGES = [
   { label: 'Hasta $500', min: 0, max: 50000 },
@@ -247,9 +268,36 @@ export function translateAppointmentStatus(status: string): string {
   const translations = {
     'PENDING': 'Pendiente',
     'CONFIRMED': 'Confirmada',
+    'CHECKED_IN': 'En sala de espera',
+    'IN_CONSULTATION': 'En consulta',
     'COMPLETED': 'Completada',
     'CANCELLED': 'Cancelada',
     'NO_SHOW': 'No se presentó'
   };
   return translations[status as keyof typeof translations] || status;
 }
+
+// Traducir grupos sanguíneos
+export function translateBloodType(bloodType: string): string {
+  const translations = {
+    'A_POSITIVE': 'A+',
+    'A_NEGATIVE': 'A-',
+    'B_POSITIVE': 'B+',
+    'B_NEGATIVE': 'B-',
+    'AB_POSITIVE': 'AB+',
+    'AB_NEGATIVE': 'AB-',
+    'O_POSITIVE': 'O+',
+    'O_NEGATIVE': 'O-'
+  };
+  return translations[bloodType as keyof typeof translations] || bloodType;
+}
+
+// Traducir severidad de alergias
+export function translateAllergySeverity(severity: string): string {
+  const translations = {
+    'MILD': 'Leve',
+    'MODERATE': 'Moderada',
+    'SEVERE': 'Grave'
+  };
+  return translations[severity as keyof typeof translations] || severity;
+}
@@ -0,0 +1,337 @@
+import { prisma } from "@/lib/db";
+import { deactivateChatRoom } from "@/lib/appointment-lifecycle";
+import { ErrorLogger } from "@/lib/error-handling-utils";
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import {
+  DEFAULT_NOTIFICATION_LOCALE,
+  formatTemplateDateTime,
+  isNotificationLocale,
+  NotificationLocale,
+} from "@/lib/notifications/templates";
+import { Appointment, NoShowSource } from "@prisma/client";
+import { z } from "zod";
+
+export interface NoShowPolicyRules {
+  id?: string;
+  graceMinutes: number;
+  depositThreshold: number; // 0 disables the deposit
+  depositPercentage: number;
+  blockThreshold: number; // 0 never blocks bookings
+}
+
+export interface NoShowRestrictions {
+  noShowCount: number;
+  blocked: boolean;
+  depositPercentage: number; // 0 when no deposit is required
+  explanation: string | null;
+}
+
+/**
+ * Policy applied when the doctor has not configured one: 15 minutes of
+ * grace, a 50% deposit after two no-shows and no bookings after four
+ */
+export const DEFAULT_NO_SHOW_POLICY: NoShowPolicyRules = {
+  graceMinutes: 15,
+  depositThreshold: 2,
+  depositPercentage: 50,
+  blockThreshold: 4,
+};
+
+export const noShowPolicySchema = z
+  .object({
+    graceMinutes: z.number().int().min(0).max(240),
+    depositThreshold: z.number().int().min(0).max(20),
+    depositPercentage: z.number().int().min(0).max(100),
+    blockThreshold: z.number().int().min(0).max(20),
+  })
+  .refine(
+    (policy) =>
+      policy.blockThreshold === 0 ||
+      policy.depositThreshold === 0 ||
+      policy.blockThreshold > policy.depositThreshold,
+    {
+      message: "El bloqueo debe aplicar después del depósito",
+      path: ["blockThreshold"],
+    }
+  );
+
+// Appointments older than this are left alone by the detection job
+const DETECTION_LOOKBACK_HOURS = 24;
+
+export class NoShowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NoShowError";
+  }
+}
+
+export class BookingBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BookingBlockedError";
+  }
+}
+
+/**
+ * Get the no-show policy configured by a doctor, or the platform default
+ */
+export async function getNoShowPolicy(doctorId: string): Promise<NoShowPolicyRules> {
+  const policy = await prisma.noShowPolicy.findUnique({
+    where: { doctorId },
+  });
+
+  return policy
+    ? {
+        id: policy.id,
+        graceMinutes: policy.graceMinutes,
+        depositThreshold: policy.depositThreshold,
+        depositPercentage: policy.depositPercentage,
+        blockThreshold: policy.blockThreshold,
+      }
+    : DEFAULT_NO_SHOW_POLICY;
+}
+
+const RESTRICTION_TEXTS: Record<
+  NotificationLocale,
+  { blocked: (count: number) => string; deposit: (percentage: number) => string }
+> = {
+  es: {
+    blocked: (count) =>
+      `Tiene ${count} inasistencias registradas, por lo que ya no puede agendar citas con este doctor.`,
+    deposit: (percentage) =>
+      `Sus citas con este doctor requieren un depósito no reembolsable del ${percentage}%.`,
+  },
+  en: {
+    blocked: (count) =>
+      `You have ${count} missed appointments, so you can no longer book with this doctor.`,
+    deposit: (percentage) =>
+      `Your appointments with this doctor require a ${percentage}% non-refundable deposit.`,
+  },
+};
+
+/**
+ * Restrictions a patient with `noShowCount` missed appointments has under a
+ * policy
+ */
+export function evaluateNoShowRestrictions(
+  policy: NoShowPolicyRules,
+  noShowCount: number,
+  locale: NotificationLocale = DEFAULT_NOTIFICATION_LOCALE
+): NoShowRestrictions {
+  const texts = RESTRICTION_TEXTS[locale];
+
+  if (policy.blockThreshold > 0 && noShowCount >= policy.blockThreshold) {
+    return {
+      noShowCount,
+      blocked: true,
+      depositPercentage: 0,
+      explanation: texts.blocked(noShowCount),
+    };
+  }
+
+  if (
+    policy.depositThreshold > 0 &&
+    policy.depositPercentage > 0 &&
+    noShowCount >= policy.depositThreshold
+  ) {
+    return {
+      noShowCount,
+      blocked: false,
+      depositPercentage: policy.depositPercentage,
+      explanation: texts.deposit(policy.depositPercentage),
+    };
+  }
+
+  return { noShowCount, blocked: false, depositPercentage: 0, explanation: null };
+}
+
+/**
+ * Restrictions that apply to a patient booking with a doctor. Throws
+ * BookingBlockedError when the patient can't book.
+ */
+export async function assertPatientCanBook(
+  patientId: string,
+  doctorId: string
+): Promise<NoShowRestrictions> {
+  const [patient, policy] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: patientId },
+      select: { noShowCount: true },
+    }),
+    getNoShowPolicy(doctorId),
+  ]);
+
+  const restrictions = evaluateNoShowRestrictions(policy, patient?.noShowCount ?? 0);
+  if (restrictions.blocked) {
+    throw new BookingBlockedError(restrictions.explanation!);
+  }
+
+  return restrictions;
+}
+
+/**
+ * Non-refundable deposit of a consultation price, in cents
+ */
+export function getDepositAmount(price: number, restrictions: NoShowRestrictions): number {
+  return Math.round((price * restrictions.depositPercentage) / 100);
+}
+
+async function notifyNoShow(appointmentId: string) {
+  const appointment = await prisma.appointment.findUnique({
+    where: { id: appointmentId },
+    select: {
+      doctorId: true,
+      scheduledAt: true,
+      patient: {
+        select: { id: true, timezone: true, locale: true, noShowCount: true },
+      },
+      doctor: { select: { user: { select: { name: true } } } },
+    },
+  });
+  if (!appointment) return;
+
+  const { patient } = appointment;
+  const locale = isNotificationLocale(patient.locale)
+    ? patient.locale
+    : DEFAULT_NOTIFICATION_LOCALE;
+  const restrictions = evaluateNoShowRestrictions(
+    await getNoShowPolicy(appointment.doctorId),
+    patient.noShowCount,
+    locale
+  );
+
+  await createTemplatedNotification({
+    userId: patient.id,
+    type: "EMAIL",
+    template: "appointment.no_show.patient",
+    locale,
+    variables: {
+      doctorName: appointment.doctor.user.name,
+      ...formatTemplateDateTime(appointment.scheduledAt, patient.timezone, locale),
+      details: restrictions.explanation ?? "",
+    },
+    metadata: { appointmentId },
+  });
+}
+
+/**
+ * Mark an appointment whose time has come as missed by the patient, add it
+ * to the patient's no-show count and close its chat. Only pending or
+ * confirmed appointments the patient wasn't checked in for can be marked.
+ */
+export async function markAppointmentNoShow(
+  appointment: Pick<Appointment, "id" | "patientId" | "scheduledAt">,
+  source: NoShowSource,
+  now: Date = new Date()
+): Promise<Appointment> {
+  if (appointment.scheduledAt > now) {
+    throw new NoShowError("La cita aún no ha comenzado");
+  }
+
+  // Claimed with the status check so the job and the doctor can't count it twice
+  const claimed = await prisma.appointment.updateMany({
+    where: {
+      id: appointment.id,
+      status: { in: ["PENDING", "CONFIRMED"] },
+      checkedInAt: null,
+    },
+    data: { status: "NO_SHOW", noShowAt: now, noShowSource: source },
+  });
+  if (claimed.count === 0) {
+    throw new NoShowError("Esta cita ya no puede marcarse como inasistencia");
+  }
+
+  await prisma.user.update({
+    where: { id: appointment.patientId },
+    data: { noShowCount: { increment: 1 }, lastNoShowAt: now },
+  });
+  await deactivateChatRoom(prisma, appointment.id, now);
+
+  try {
+    await notifyNoShow(appointment.id);
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: "No-show notification",
+      action: "markAppointmentNoShow - notifyNoShow",
+      appointmentId: appointment.id,
+    });
+  }
+
+  return prisma.appointment.findUniqueOrThrow({ where: { id: appointment.id } });
+}
+
+/**
+ * Mark as no-shows the appointments whose grace period is over: virtual
+ * consultations nobody joined, and in-person or home visits the doctor
+ * didn't check the patient in for
+ */
+export async function detectNoShows(now: Date = new Date()): Promise<{
+  checked: number;
+  marked: number;
+}> {
+  const candidates = await prisma.appointment.findMany({
+    where: {
+      status: { in: ["PENDING", "CONFIRMED"] },
+      checkedInAt: null,
+      scheduledAt: {
+        gte: new Date(now.getTime() - DETECTION_LOOKBACK_HOURS * 60 * 60 * 1000),
+        lte: now,
+      },
+    },
+    select: {
+      id: true,
+      patientId: true,
+      doctorId: true,
+      type: true,
+      scheduledAt: true,
+      chatRoom: {
+        select: {
+          videoSessions: {
+            select: {
+              participants: {
+                where: { joinedAt: { not: null } },
+                select: { id: true },
+              },
+            },
+          },
+        },
+      },
+    },
+    orderBy: { scheduledAt: "asc" },
+  });
+
+  const policies = new Map<string, NoShowPolicyRules>();
+  const summary = { checked: candidates.length, marked: 0 };
+
+  for (const appointment of candidates) {
+    if (!policies.has(appointment.doctorId)) {
+      policies.set(appointment.doctorId, await getNoShowPolicy(appointment.doctorId));
+    }
+    const { graceMinutes } = policies.get(appointment.doctorId)!;
+    if (appointment.scheduledAt.getTime() + graceMinutes * 60 * 1000 > now.getTime()) {
+      continue;
+    }
+
+    if (appointment.type === "VIRTUAL") {
+      const joined = appointment.chatRoom?.videoSessions.some(
+        (session) => session.participants.length > 0
+      );
+      if (joined) continue;
+    }
+
+    try {
+      await markAppointmentNoShow(appointment, "AUTOMATIC", now);
+      summary.marked++;
+    } catch (error) {
+      if (error instanceof NoShowError) continue;
+
+      ErrorLogger.log(error as Error, {
+        context: "No-show detection",
+        action: "detectNoShows",
+        appointmentId: appointment.id,
+      });
+    }
+  }
+
+  return summary;
+}
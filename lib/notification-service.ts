@@ -33,6 +33,8 @@ export interface NotificationPreferences {
     startTime: string; // "22:00"
     endTime: string; // "08:00"
   };
+  digestMode?: "IMMEDIATE" | "HOURLY" | "DAILY";
+  language?: "es" | "en";
 }
 
 export interface NotificationCallbacks {
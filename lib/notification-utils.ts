@@ -1,11 +1,43 @@
 import { prisma } from "@/lib/db";
 import { NotificationType } from "@prisma/client";
+import {
+  DeliverableNotification,
+  deliverNotification,
+} from "@/lib/notifications/delivery";
+import {
+  isUrgentNotification,
+  shouldBatchNotification,
+} from "@/lib/notifications/digest";
+import {
+  DEFAULT_NOTIFICATION_LOCALE,
+  formatTemplateDateTime,
+  isNotificationLocale,
+  NotificationLocale,
+  NotificationTemplateKey,
+  renderNotificationTemplate,
+} from "@/lib/notifications/templates";
 
 export interface NotificationData {
   userId: string;
   type: NotificationType;
   title: string;
   message: string;
+  metadata?: string; // JSON string, e.g. { actionUrl }
+  // Delivered right away even when the user receives a digest
+  urgent?: boolean;
+}
+
+export interface TemplatedNotificationData {
+  userId: string;
+  type: NotificationType;
+  template: NotificationTemplateKey;
+  variables: Record<string, string>;
+  // Recipient's language when already loaded; otherwise it is looked up
+  locale?: string | null;
+  // Appointments starting soon skip the user's digest
+  appointmentAt?: Date;
+  urgent?: boolean;
+  metadata?: Record<string, unknown>;
 }
 
 export interface BulkNotificationData {
@@ -16,15 +48,16 @@ export interface BulkNotificationData {
 }
 
 /**
- * Create a single notification
+ * Create a single notification and deliver it through its channel, or keep it
+ * for the user's digest when it is not urgent
  */
 export async function createNotification(data: NotificationData) {
   try {
+    const { urgent, ...fields } = data;
+    const batched = !urgent && (await shouldBatchNotification(data.userId, data.type));
+
     const notification = await prisma.notification.create({
-      data: {
-        ...data,
-        sentAt: new Date(),
-      },
+      data: batched ? { ...fields, deliveryStatus: "BATCHED" } : fields,
       include: {
         user: {
           select: {
@@ -37,17 +70,54 @@ export async function createNotification(data: NotificationData) {
       },
     });
 
-    // Here you would integrate with actual notification services
-    // For example: send email, SMS, or WhatsApp message
-    await sendNotificationToChannel(notification);
+    if (batched) {
+      return notification;
+    }
 
-    return notification;
+    return {
+      ...(await sendNotificationToChannel(notification)),
+      user: notification.user,
+    };
   } catch (error) {
     console.error("Error creating notification:", error);
     throw error;
   }
 }
 
+/**
+ * Create a notification from the template registry, rendered in the
+ * recipient's language for the notification's channel
+ */
+export async function createTemplatedNotification(data: TemplatedNotificationData) {
+  const locale =
+    data.locale ??
+    (
+      await prisma.user.findUnique({
+        where: { id: data.userId },
+        select: { locale: true },
+      })
+    )?.locale;
+
+  const { title, message, whatsappTemplate } = renderNotificationTemplate(data.template, {
+    locale,
+    channel: data.type,
+    variables: data.variables,
+  });
+
+  return createNotification({
+    userId: data.userId,
+    type: data.type,
+    title,
+    message,
+    metadata: JSON.stringify({ ...data.metadata, template: data.template, whatsappTemplate }),
+    urgent: data.urgent ?? isUrgentNotification(data.template, data.appointmentAt),
+  });
+}
+
+function toNotificationLocale(locale: string | null | undefined): NotificationLocale {
+  return isNotificationLocale(locale) ? locale : DEFAULT_NOTIFICATION_LOCALE;
+}
+
 /**
  * Create multiple notifications for different users
  */
@@ -58,40 +128,19 @@ export async function createBulkNotifications(data: BulkNotificationData) {
     // Verify all users exist
     const existingUsers = await prisma.user.findMany({
       where: { id: { in: userIds } },
-      select: { id: true, name: true, email: true, phone: true },
+      select: { id: true },
     });
 
     if (existingUsers.length !== userIds.length) {
       throw new Error("One or more users not found");
     }
 
-    // Create notifications
-    const notifications = await prisma.notification.createMany({
-      data: userIds.map((userId) => ({
-        userId,
-        type,
-        title,
-        message,
-        sentAt: new Date(),
-      })),
-    });
-
-    // Send notifications to channels
-    for (const user of existingUsers) {
-      await sendNotificationToChannel({
-        id: "", // Not needed for sending
-        userId: user.id,
-        type,
-        title,
-        message,
-        isRead: false,
-        sentAt: new Date(),
-        createdAt: new Date(),
-        user,
-      });
+    // Each notification is created on its own so its delivery can be tracked
+    for (const userId of userIds) {
+      await createNotification({ userId, type, title, message });
     }
 
-    return notifications;
+    return { count: userIds.length };
   } catch (error) {
     console.error("Error creating bulk notifications:", error);
     throw error;
@@ -99,84 +148,19 @@ export async function createBulkNotifications(data: BulkNotificationData) {
 }
 
 /**
- * Send notification to the appropriate channel (email, SMS, WhatsApp)
+ * Send notification to the appropriate channel (email, SMS, WhatsApp). A
+ * failed delivery is recorded on the notification and retried later.
  */
-async function sendNotificationToChannel(notification: any) {
+async function sendNotificationToChannel(notification: DeliverableNotification) {
   try {
-    switch (notification.type) {
-      case "EMAIL":
-        await sendEmailNotification(notification);
-        break;
-      case "SMS":
-        await sendSMSNotification(notification);
-        break;
-      case "WHATSAPP":
-        await sendWhatsAppNotification(notification);
-        break;
-      default:
-        console.warn(`Unknown notification type: ${notification.type}`);
-    }
+    return await deliverNotification(notification);
   } catch (error) {
     console.error(`Error sending ${notification.type} notification:`, error);
     // Don't throw error here to avoid breaking the notification creation
+    return notification;
   }
 }
 
-/**
- * Send email notification
- */
-async function sendEmailNotification(notification: any) {
-  // Placeholder for email service integration
-  // You would integrate with services like SendGrid, AWS SES, etc.
-  console.log(`Sending email notification to ${notification.user.email}:`, {
-    title: notification.title,
-    message: notification.message,
-  });
-
-  // Example integration:
-  // await emailService.send({
-  //   to: notification.user.email,
-  //   subject: notification.title,
-  //   html: notification.message,
-  // });
-}
-
-/**
- * Send SMS notification
- */
-async function sendSMSNotification(notification: any) {
-  // Placeholder for SMS service integration
-  // You would integrate with services like Twilio, AWS SNS, etc.
-  console.log(`Sending SMS notification to ${notification.user.phone}:`, {
-    title: notification.title,
-    message: notification.message,
-  });
-
-  // Example integration:
-  // await smsService.send({
-  //   to: notification.user.phone,
-  //   message: `${notification.title}: ${notification.message}`,
-  // });
-}
-
-/**
- * Send WhatsApp notification
- */
-async function sendWhatsAppNotification(notification: any) {
-  // Placeholder for WhatsApp service integration
-  // You would integrate with WhatsApp Business API
-  console.log(`Sending WhatsApp notification to ${notification.user.phone}:`, {
-    title: notification.title,
-    message: notification.message,
-  });
-
-  // Example integration:
-  // await whatsappService.send({
-  //   to: notification.user.phone,
-  //   message: `${notification.title}: ${notification.message}`,
-  // });
-}
-
 /**
  * Create appointment-related notifications
  */
@@ -198,69 +182,49 @@ export async function createAppointmentNotification(
       throw new Error("Appointment not found");
     }
 
-    const notifications = [];
-
-    // Notification messages based on type
-    const messages = {
-      CREATED: {
-        patient: {
-          title: "Cita Médica Creada",
-          message: `Su cita con Dr. ${appointment.doctor.user.name} ha sido creada para el ${appointment.scheduledAt.toLocaleDateString()}.`,
-        },
-        doctor: {
-          title: "Nueva Cita Médica",
-          message: `Tiene una nueva cita con ${appointment.patient.name} programada para el ${appointment.scheduledAt.toLocaleDateString()}.`,
-        },
-      },
-      CONFIRMED: {
-        patient: {
-          title: "Cita Médica Confirmada",
-          message: `Su cita con Dr. ${appointment.doctor.user.name} ha sido confirmada para el ${appointment.scheduledAt.toLocaleDateString()}.`,
-        },
-        doctor: {
-          title: "Cita Médica Confirmada",
-          message: `Su cita con ${appointment.patient.name} ha sido confirmada para el ${appointment.scheduledAt.toLocaleDateString()}.`,
-        },
-      },
-      CANCELLED: {
-        patient: {
-          title: "Cita Médica Cancelada",
-          message: `Su cita con Dr. ${appointment.doctor.user.name} programada para el ${appointment.scheduledAt.toLocaleDateString()} ha sido cancelada.`,
-        },
-        doctor: {
-          title: "Cita Médica Cancelada",
-          message: `Su cita con ${appointment.patient.name} programada para el ${appointment.scheduledAt.toLocaleDateString()} ha sido cancelada.`,
-        },
+    const events = {
+      CREATED: "created",
+      CONFIRMED: "confirmed",
+      CANCELLED: "cancelled",
+      REMINDER: "reminder",
+    } as const;
+    const recipients: {
+      user: { id: string; timezone: string; locale: string };
+      template: NotificationTemplateKey;
+      counterpart: Record<string, string>;
+    }[] = [
+      {
+        user: appointment.patient,
+        template: `appointment.${events[type]}.patient`,
+        counterpart: { doctorName: appointment.doctor.user.name },
       },
-      REMINDER: {
-        patient: {
-          title: "Recordatorio de Cita Médica",
-          message: `Recordatorio: Tiene una cita con Dr. ${appointment.doctor.user.name} mañana a las ${appointment.scheduledAt.toLocaleTimeString()}.`,
-        },
-        doctor: {
-          title: "Recordatorio de Cita Médica",
-          message: `Recordatorio: Tiene una cita con ${appointment.patient.name} mañana a las ${appointment.scheduledAt.toLocaleTimeString()}.`,
-        },
+      {
+        user: appointment.doctor.user,
+        template: `appointment.${events[type]}.doctor`,
+        counterpart: { patientName: appointment.patient.name },
       },
-    };
+    ];
 
-    // Create notification for patient
-    const patientNotification = await createNotification({
-      userId: appointment.patientId,
-      type: notificationType,
-      title: messages[type].patient.title,
-      message: messages[type].patient.message,
-    });
-    notifications.push(patientNotification);
+    const notifications = [];
 
-    // Create notification for doctor
-    const doctorNotification = await createNotification({
-      userId: appointment.doctor.userId,
-      type: notificationType,
-      title: messages[type].doctor.title,
-      message: messages[type].doctor.message,
-    });
-    notifications.push(doctorNotification);
+    for (const recipient of recipients) {
+      // Fechas en el idioma y la zona horaria de cada destinatario
+      const locale = toNotificationLocale(recipient.user.locale);
+      const notification = await createTemplatedNotification({
+        userId: recipient.user.id,
+        type: notificationType,
+        template: recipient.template,
+        locale,
+        variables: {
+          ...recipient.counterpart,
+          ...formatTemplateDateTime(appointment.scheduledAt, recipient.user.timezone, locale),
+          details: "",
+        },
+        appointmentAt: appointment.scheduledAt,
+        metadata: { appointmentId },
+      });
+      notifications.push(notification);
+    }
 
     return notifications;
   } catch (error) {
@@ -311,11 +275,16 @@ export async function createChatNotification(
       senderId === chatRoom.patientId ? chatRoom.doctor.user : chatRoom.patient;
 
     // Create notification for the recipient
-    const notification = await createNotification({
+    const notification = await createTemplatedNotification({
       userId: recipientId,
       type: notificationType,
-      title: `Nuevo mensaje de ${sender.name}`,
-      message: `${sender.name} le ha enviado un mensaje: "${messageContent.substring(0, 100)}${messageContent.length > 100 ? "..." : ""}"`,
+      template: "chat.message",
+      locale: recipient.locale,
+      variables: {
+        senderName: sender.name,
+        preview: `${messageContent.substring(0, 100)}${messageContent.length > 100 ? "..." : ""}`,
+      },
+      metadata: { chatRoomId },
     });
 
     return notification;
@@ -0,0 +1,58 @@
+import {
+  ChannelMessage,
+  DeliveryChannel,
+  DeliveryResult,
+  NotificationChannelAdapter,
+} from "./types";
+
+export abstract class BaseChannelAdapter implements NotificationChannelAdapter {
+  abstract readonly name: string;
+  abstract readonly channel: DeliveryChannel;
+
+  abstract send(message: ChannelMessage): Promise<DeliveryResult>;
+
+  protected failure(error: string, retryable: boolean): DeliveryResult {
+    return { success: false, error, retryable };
+  }
+
+  /**
+   * Failure for a non-2xx response of an HTTP provider API. Rate limits and
+   * server errors are worth retrying, anything else is a bad request.
+   */
+  protected async httpFailure(response: Response): Promise<DeliveryResult> {
+    let detail = "";
+    try {
+      detail = (await response.text()).slice(0, 500);
+    } catch {
+      // Body is optional context only
+    }
+
+    return this.failure(
+      `${this.name} respondió ${response.status}${detail ? `: ${detail}` : ""}`,
+      response.status === 429 || response.status >= 500
+    );
+  }
+
+  /**
+   * Network errors and timeouts are transient
+   */
+  protected networkFailure(error: unknown): DeliveryResult {
+    return this.failure(
+      error instanceof Error ? error.message : String(error),
+      true
+    );
+  }
+
+  /**
+   * Phone number in E.164 format. Ten-digit numbers are assumed to be
+   * Mexican; returns null when the number can't be used.
+   */
+  protected toE164(phone: string | null): string | null {
+    if (!phone) return null;
+
+    const digits = phone.replace(/\D/g, "");
+    if (digits.length === 10) return `+52${digits}`;
+    if (digits.length >= 11 && digits.length <= 15) return `+${digits}`;
+    return null;
+  }
+}
@@ -0,0 +1,50 @@
+import { BaseChannelAdapter } from "../BaseChannelAdapter";
+import { ChannelMessage, DeliveryChannel, DeliveryResult } from "../types";
+
+export interface SentChannelMessage extends ChannelMessage {
+  channel: DeliveryChannel;
+  sentAt: Date;
+}
+
+/**
+ * Keeps messages in memory instead of sending them. Used in development and
+ * tests, and whenever a channel has no provider configured outside production.
+ */
+export class InMemoryChannelAdapter extends BaseChannelAdapter {
+  readonly name = "In-memory";
+  readonly sent: SentChannelMessage[] = [];
+  private failures: DeliveryResult[] = [];
+
+  constructor(readonly channel: DeliveryChannel) {
+    super();
+  }
+
+  /**
+   * Make the next sends fail with these results, in order
+   */
+  failNext(...results: DeliveryResult[]) {
+    this.failures.push(...results);
+  }
+
+  async send(message: ChannelMessage): Promise<DeliveryResult> {
+    const failure = this.failures.shift();
+    if (failure) return failure;
+
+    this.sent.push({ ...message, channel: this.channel, sentAt: new Date() });
+
+    if (process.env.NODE_ENV === "development") {
+      console.info(`[${this.channel}] → ${message.to.email || message.to.phone}: ${message.title}`);
+    }
+
+    return {
+      success: true,
+      providerMessageId: `memory-${this.sent.length}`,
+      retryable: false,
+    };
+  }
+
+  clear() {
+    this.sent.length = 0;
+    this.failures = [];
+  }
+}
@@ -0,0 +1,209 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  // true for implicit TLS (port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs?: number;
+}
+
+export interface SmtpMail {
+  from: { name: string; address: string };
+  to: { name: string; address: string };
+  subject: string;
+  text: string;
+  messageId: string;
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: number
+  ) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+interface SmtpResponse {
+  code: number;
+  lines: string[];
+}
+
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`;
+}
+
+function formatAddress(address: { name: string; address: string }): string {
+  return `${encodeHeader(address.name)} <${address.address}>`;
+}
+
+/**
+ * RFC 5322 message with a base64 UTF-8 text body, so accents survive any
+ * relay without 8BITMIME
+ */
+export function buildMimeMessage(mail: SmtpMail, date: Date = new Date()): string {
+  const body = Buffer.from(mail.text, "utf8")
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+
+  return [
+    `Date: ${date.toUTCString()}`,
+    `From: ${formatAddress(mail.from)}`,
+    `To: ${formatAddress(mail.to)}`,
+    `Subject: ${encodeHeader(mail.subject)}`,
+    `Message-ID: <${mail.messageId}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+/**
+ * Minimal SMTP client: one message per connection, STARTTLS and AUTH PLAIN
+ */
+class SmtpConnection {
+  private socket: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  private responses: SmtpResponse[] = [];
+  private waiting: {
+    resolve: (response: SmtpResponse) => void;
+    reject: (error: Error) => void;
+  } | null = null;
+  private failure: Error | null = null;
+
+  constructor(private config: SmtpConfig) {
+    this.socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    this.attach(this.socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(this.config.timeoutMs ?? 30000, () => {
+      socket.destroy(new SmtpError("Tiempo de espera agotado con el servidor SMTP"));
+    });
+    socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("utf8")));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new SmtpError("El servidor SMTP cerró la conexión")));
+  }
+
+  private onData(data: string) {
+    this.buffer += data;
+    let index: number;
+    while ((index = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line);
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.responses.push({ code: parseInt(line.slice(0, 3), 10), lines: this.lines });
+        this.lines = [];
+        this.flush();
+      }
+    }
+  }
+
+  private flush() {
+    if (this.waiting && this.responses.length > 0) {
+      const { resolve } = this.waiting;
+      this.waiting = null;
+      resolve(this.responses.shift()!);
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure = this.failure || error;
+    if (this.waiting) {
+      const { reject } = this.waiting;
+      this.waiting = null;
+      reject(this.failure);
+    }
+  }
+
+  private read(): Promise<SmtpResponse> {
+    if (this.responses.length > 0) return Promise.resolve(this.responses.shift()!);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+    });
+  }
+
+  async expect(codes: number[], command?: string): Promise<SmtpResponse> {
+    const response = this.read();
+    if (command !== undefined) {
+      this.socket.write(`${command}\r\n`);
+    }
+    const result = await response;
+    if (!codes.includes(result.code)) {
+      throw new SmtpError(
+        `SMTP ${result.code}: ${result.lines.join(" ").slice(4)}`,
+        result.code
+      );
+    }
+    return result;
+  }
+
+  async startTls() {
+    await this.expect([220], "STARTTLS");
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("close");
+    this.socket = tls.connect({ socket: this.socket, servername: this.config.host });
+    this.attach(this.socket);
+    await new Promise<void>((resolve, reject) => {
+      this.socket.once("secureConnect", () => resolve());
+      this.socket.once("error", reject);
+    });
+  }
+
+  close() {
+    this.socket.removeAllListeners("close");
+    this.socket.end();
+  }
+}
+
+/**
+ * Deliver a single message. Throws SmtpError with the server reply code when
+ * the server rejects it.
+ */
+export async function sendSmtpMail(config: SmtpConfig, mail: SmtpMail): Promise<void> {
+  const connection = new SmtpConnection(config);
+  const hostname = os.hostname() || "localhost";
+
+  try {
+    await connection.expect([220]);
+    const ehlo = await connection.expect([250], `EHLO ${hostname}`);
+
+    if (!config.secure && ehlo.lines.some((line) => /STARTTLS/i.test(line))) {
+      await connection.startTls();
+      await connection.expect([250], `EHLO ${hostname}`);
+    }
+
+    if (config.user && config.password) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password}`, "utf8").toString("base64");
+      await connection.expect([235], `AUTH PLAIN ${credentials}`);
+    }
+
+    await connection.expect([250], `MAIL FROM:<${mail.from.address}>`);
+    await connection.expect([250, 251], `RCPT TO:<${mail.to.address}>`);
+    await connection.expect([354], "DATA");
+
+    // Dot-stuffing: lines starting with "." get an extra one
+    const data = buildMimeMessage(mail).replace(/^\./gm, "..");
+    await connection.expect([250], `${data}\r\n.`);
+    await connection.expect([221], "QUIT").catch(() => undefined);
+  } finally {
+    connection.close();
+  }
+}
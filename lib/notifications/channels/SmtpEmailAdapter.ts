@@ -0,0 +1,61 @@
+import { BaseChannelAdapter } from "../BaseChannelAdapter";
+import { ChannelMessage, DeliveryResult } from "../types";
+import { sendSmtpMail, SmtpConfig, SmtpError } from "./SmtpClient";
+
+export interface SmtpEmailConfig extends SmtpConfig {
+  fromAddress: string;
+  fromName: string;
+}
+
+export class SmtpEmailAdapter extends BaseChannelAdapter {
+  readonly name = "SMTP";
+  readonly channel = "EMAIL" as const;
+
+  constructor(private config: SmtpEmailConfig) {
+    super();
+  }
+
+  static fromEnv(): SmtpEmailAdapter | null {
+    const host = process.env.SMTP_HOST;
+    const fromAddress = process.env.SMTP_FROM || process.env.NOTIFICATION_EMAIL;
+    if (!host || !fromAddress) return null;
+
+    const port = parseInt(process.env.SMTP_PORT || "587", 10);
+    return new SmtpEmailAdapter({
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      fromAddress,
+      fromName: process.env.SMTP_FROM_NAME || "Médica Móvil",
+    });
+  }
+
+  async send(message: ChannelMessage): Promise<DeliveryResult> {
+    if (!message.to.email) {
+      return this.failure("El usuario no tiene correo electrónico", false);
+    }
+
+    const domain = this.config.fromAddress.split("@")[1] || "localhost";
+    const messageId = `${message.notificationId}@${domain}`;
+
+    try {
+      await sendSmtpMail(this.config, {
+        from: { name: this.config.fromName, address: this.config.fromAddress },
+        to: { name: message.to.name, address: message.to.email },
+        subject: message.title,
+        text: message.message,
+        messageId,
+      });
+
+      return { success: true, providerMessageId: messageId, retryable: false };
+    } catch (error) {
+      // 4xx replies are temporary (mailbox busy, greylisting), 5xx are permanent
+      if (error instanceof SmtpError && error.code) {
+        return this.failure(error.message, error.code < 500);
+      }
+      return this.networkFailure(error);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { BaseChannelAdapter } from "../BaseChannelAdapter";
+import { ChannelMessage, DeliveryResult } from "../types";
+
+export interface TwilioSmsConfig {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+  baseUrl?: string;
+}
+
+// Los mensajes más largos se recortan para no pagar demasiados segmentos
+const MAX_SMS_LENGTH = 640;
+
+/**
+ * SMS through Twilio's Messages API (or any gateway exposing the same API)
+ */
+export class TwilioSmsAdapter extends BaseChannelAdapter {
+  readonly name = "Twilio SMS";
+  readonly channel = "SMS" as const;
+
+  constructor(private config: TwilioSmsConfig) {
+    super();
+  }
+
+  static fromEnv(): TwilioSmsAdapter | null {
+    const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_SMS_FROM } = process.env;
+    if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN || !TWILIO_SMS_FROM) return null;
+
+    return new TwilioSmsAdapter({
+      accountSid: TWILIO_ACCOUNT_SID,
+      authToken: TWILIO_AUTH_TOKEN,
+      fromNumber: TWILIO_SMS_FROM,
+      baseUrl: process.env.SMS_GATEWAY_URL,
+    });
+  }
+
+  async send(message: ChannelMessage): Promise<DeliveryResult> {
+    const to = this.toE164(message.to.phone);
+    if (!to) {
+      return this.failure("El usuario no tiene un teléfono válido", false);
+    }
+
+    const body = `${message.title}: ${message.message}`.slice(0, MAX_SMS_LENGTH);
+    const baseUrl = this.config.baseUrl || "https://api.twilio.com";
+    const credentials = Buffer.from(
+      `${this.config.accountSid}:${this.config.authToken}`
+    ).toString("base64");
+
+    try {
+      const response = await fetch(
+        `${baseUrl}/2010-04-01/Accounts/${this.config.accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Basic ${credentials}`,
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          body: new URLSearchParams({ To: to, From: this.config.fromNumber, Body: body }),
+          signal: AbortSignal.timeout(15000),
+        }
+      );
+
+      if (!response.ok) {
+        return this.httpFailure(response);
+      }
+
+      const data = await response.json();
+      return { success: true, providerMessageId: data.sid, retryable: false };
+    } catch (error) {
+      return this.networkFailure(error);
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { BaseChannelAdapter } from "../BaseChannelAdapter";
+import { ChannelMessage, DeliveryResult } from "../types";
+
+export interface WhatsAppBusinessConfig {
+  phoneNumberId: string;
+  accessToken: string;
+  apiVersion?: string;
+}
+
+/**
+ * Messages through the WhatsApp Business Cloud API: the approved template when
+ * the notification has one, plain text otherwise
+ */
+export class WhatsAppBusinessAdapter extends BaseChannelAdapter {
+  readonly name = "WhatsApp Business";
+  readonly channel = "WHATSAPP" as const;
+
+  constructor(private config: WhatsAppBusinessConfig) {
+    super();
+  }
+
+  static fromEnv(): WhatsAppBusinessAdapter | null {
+    const { WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN } = process.env;
+    if (!WHATSAPP_PHONE_NUMBER_ID || !WHATSAPP_ACCESS_TOKEN) return null;
+
+    return new WhatsAppBusinessAdapter({
+      phoneNumberId: WHATSAPP_PHONE_NUMBER_ID,
+      accessToken: WHATSAPP_ACCESS_TOKEN,
+      apiVersion: process.env.WHATSAPP_API_VERSION,
+    });
+  }
+
+  private buildContent(message: ChannelMessage) {
+    const template = message.whatsappTemplate;
+    if (!template) {
+      return {
+        type: "text",
+        text: { body: `*${message.title}*\n${message.message}` },
+      };
+    }
+
+    return {
+      type: "template",
+      template: {
+        name: template.name,
+        language: { code: template.language },
+        components: template.parameters.length
+          ? [
+              {
+                type: "body",
+                parameters: template.parameters.map((text) => ({ type: "text", text })),
+              },
+            ]
+          : [],
+      },
+    };
+  }
+
+  async send(message: ChannelMessage): Promise<DeliveryResult> {
+    const to = this.toE164(message.to.phone);
+    if (!to) {
+      return this.failure("El usuario no tiene un teléfono válido", false);
+    }
+
+    const apiVersion = this.config.apiVersion || "v20.0";
+
+    try {
+      const response = await fetch(
+        `https://graph.facebook.com/${apiVersion}/${this.config.phoneNumberId}/messages`,
+        {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${this.config.accessToken}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            messaging_product: "whatsapp",
+            to: to.slice(1),
+            ...this.buildContent(message),
+          }),
+          signal: AbortSignal.timeout(15000),
+        }
+      );
+
+      if (!response.ok) {
+        return this.httpFailure(response);
+      }
+
+      const data = await response.json();
+      return {
+        success: true,
+        providerMessageId: data.messages?.[0]?.id,
+        retryable: false,
+      };
+    } catch (error) {
+      return this.networkFailure(error);
+    }
+  }
+}
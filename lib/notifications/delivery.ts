@@ -0,0 +1,233 @@
+import { prisma } from "@/lib/db";
+import { Notification } from "@prisma/client";
+import { InMemoryChannelAdapter } from "./channels/InMemoryChannelAdapter";
+import { SmtpEmailAdapter } from "./channels/SmtpEmailAdapter";
+import { TwilioSmsAdapter } from "./channels/TwilioSmsAdapter";
+import { WhatsAppBusinessAdapter } from "./channels/WhatsAppBusinessAdapter";
+import { sendPushNotification } from "./web-push";
+import {
+  ChannelRecipient,
+  DeliveryChannel,
+  DeliveryResult,
+  NotificationChannelAdapter,
+  WhatsAppTemplateMessage,
+} from "./types";
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_MINUTES = 1;
+const RETRY_MAX_MINUTES = 60;
+
+export type DeliverableNotification = Notification & { user: ChannelRecipient };
+
+/**
+ * Providers that can back each channel, selected with
+ * NOTIFICATION_EMAIL_ADAPTER / NOTIFICATION_SMS_ADAPTER /
+ * NOTIFICATION_WHATSAPP_ADAPTER. "memory" is available for every channel.
+ */
+const ADAPTER_FACTORIES: Record<
+  DeliveryChannel,
+  Record<string, () => NotificationChannelAdapter | null>
+> = {
+  EMAIL: { smtp: () => SmtpEmailAdapter.fromEnv() },
+  SMS: { twilio: () => TwilioSmsAdapter.fromEnv() },
+  WHATSAPP: { "whatsapp-business": () => WhatsAppBusinessAdapter.fromEnv() },
+};
+
+const adapters = new Map<DeliveryChannel, NotificationChannelAdapter | null>();
+
+function createChannelAdapter(channel: DeliveryChannel): NotificationChannelAdapter | null {
+  const selected = process.env[`NOTIFICATION_${channel}_ADAPTER`];
+
+  if (selected === "memory") {
+    return new InMemoryChannelAdapter(channel);
+  }
+
+  let adapter: NotificationChannelAdapter | null = null;
+  if (selected) {
+    const factory = ADAPTER_FACTORIES[channel][selected];
+    if (!factory) {
+      console.warn(`Unknown ${channel} notification adapter: ${selected}`);
+    }
+    adapter = factory?.() ?? null;
+  } else {
+    // Sin selección explícita se usa el primer proveedor configurado
+    for (const factory of Object.values(ADAPTER_FACTORIES[channel])) {
+      adapter = factory();
+      if (adapter) break;
+    }
+  }
+
+  if (!adapter && process.env.NODE_ENV !== "production") {
+    return new InMemoryChannelAdapter(channel);
+  }
+
+  return adapter;
+}
+
+/**
+ * Adapter delivering a channel, or null when no provider is configured in
+ * production
+ */
+export function getChannelAdapter(channel: DeliveryChannel): NotificationChannelAdapter | null {
+  if (!adapters.has(channel)) {
+    adapters.set(channel, createChannelAdapter(channel));
+  }
+  return adapters.get(channel)!;
+}
+
+/**
+ * Replace the adapter of a channel, e.g. with an InMemoryChannelAdapter in tests
+ */
+export function setChannelAdapter(
+  channel: DeliveryChannel,
+  adapter: NotificationChannelAdapter | null
+) {
+  adapters.set(channel, adapter);
+}
+
+export function resetChannelAdapters() {
+  adapters.clear();
+}
+
+/**
+ * Minutes to wait before the next attempt: 1, 2, 4, 8... capped at an hour
+ */
+export function getRetryDelayMinutes(attempts: number): number {
+  return Math.min(RETRY_MAX_MINUTES, RETRY_BASE_MINUTES * 2 ** Math.max(0, attempts - 1));
+}
+
+// Templated notifications keep the WhatsApp template to send in their metadata
+function getWhatsAppTemplate(notification: Notification): WhatsAppTemplateMessage | undefined {
+  if (notification.type !== "WHATSAPP" || !notification.metadata) return undefined;
+
+  try {
+    return JSON.parse(notification.metadata).whatsappTemplate;
+  } catch {
+    return undefined;
+  }
+}
+
+async function sendThroughChannel(
+  notification: DeliverableNotification
+): Promise<DeliveryResult> {
+  const channel = notification.type as DeliveryChannel;
+  const adapter = getChannelAdapter(channel);
+
+  if (!adapter) {
+    return {
+      success: false,
+      error: `No hay proveedor configurado para ${channel}`,
+      retryable: false,
+    };
+  }
+
+  try {
+    return await adapter.send({
+      notificationId: notification.id,
+      to: notification.user,
+      title: notification.title,
+      message: notification.message,
+      whatsappTemplate: getWhatsAppTemplate(notification),
+    });
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      retryable: true,
+    };
+  }
+}
+
+/**
+ * Send a notification through its channel and persist the outcome. Transient
+ * failures are scheduled for a retry with exponential backoff until
+ * MAX_DELIVERY_ATTEMPTS; anything else marks the notification as FAILED.
+ * In-app (BROWSER) notifications are delivered by being stored, and pushed
+ * to the user's subscribed browsers.
+ */
+export async function deliverNotification(
+  notification: DeliverableNotification,
+  now: Date = new Date()
+): Promise<Notification> {
+  if (notification.type === "BROWSER") {
+    await sendPushNotification(notification);
+
+    return prisma.notification.update({
+      where: { id: notification.id },
+      data: { deliveryStatus: "SENT", sentAt: now, nextAttemptAt: null },
+    });
+  }
+
+  const result = await sendThroughChannel(notification);
+  const attempts = notification.attempts + 1;
+
+  if (result.success) {
+    return prisma.notification.update({
+      where: { id: notification.id },
+      data: {
+        deliveryStatus: "SENT",
+        sentAt: now,
+        attempts,
+        nextAttemptAt: null,
+        failureReason: null,
+        providerMessageId: result.providerMessageId ?? null,
+      },
+    });
+  }
+
+  const willRetry = result.retryable && attempts < MAX_DELIVERY_ATTEMPTS;
+
+  return prisma.notification.update({
+    where: { id: notification.id },
+    data: {
+      deliveryStatus: willRetry ? "PENDING" : "FAILED",
+      attempts,
+      nextAttemptAt: willRetry
+        ? new Date(now.getTime() + getRetryDelayMinutes(attempts) * 60 * 1000)
+        : null,
+      failureReason: result.error ?? "Error desconocido",
+    },
+  });
+}
+
+/**
+ * Retry the notifications whose backoff has elapsed. Each one is claimed by
+ * clearing nextAttemptAt first, so overlapping runs don't send it twice.
+ */
+export async function processNotificationRetries(
+  now: Date = new Date(),
+  limit: number = 100
+): Promise<{ retried: number; sent: number; failed: number }> {
+  const due = await prisma.notification.findMany({
+    where: {
+      deliveryStatus: "PENDING",
+      nextAttemptAt: { lte: now },
+    },
+    include: {
+      user: { select: { name: true, email: true, phone: true } },
+    },
+    orderBy: { nextAttemptAt: "asc" },
+    take: limit,
+  });
+
+  const summary = { retried: 0, sent: 0, failed: 0 };
+
+  for (const notification of due) {
+    const claimed = await prisma.notification.updateMany({
+      where: {
+        id: notification.id,
+        deliveryStatus: "PENDING",
+        nextAttemptAt: notification.nextAttemptAt,
+      },
+      data: { nextAttemptAt: null },
+    });
+    if (claimed.count === 0) continue;
+
+    const updated = await deliverNotification(notification, now);
+    summary.retried++;
+    if (updated.deliveryStatus === "SENT") summary.sent++;
+    if (updated.deliveryStatus === "FAILED") summary.failed++;
+  }
+
+  return summary;
+}
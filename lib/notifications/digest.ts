@@ -0,0 +1,203 @@
+import { prisma } from "@/lib/db";
+import { ErrorLogger } from "@/lib/error-handling-utils";
+import {
+  addCalendarDays,
+  DEFAULT_TIME_ZONE,
+  toCalendarDay,
+  zonedTimeToUtc,
+} from "@/lib/timezones";
+import { NotificationDigestMode, NotificationType } from "@prisma/client";
+import { deliverNotification } from "./delivery";
+import {
+  getNotificationTemplate,
+  isNotificationTemplateKey,
+  renderNotificationTemplate,
+} from "./templates";
+
+// Appointments closer than this are always notified right away
+export const URGENT_APPOINTMENT_WINDOW_MINUTES = 2 * 60;
+
+// Daily digests go out at 08:00 in the user's time zone
+const DAILY_DIGEST_MINUTES = 8 * 60;
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Whether a notification must skip the digest: urgent templates (payment
+ * failures, reminders...) and anything about an appointment starting soon
+ */
+export function isUrgentNotification(
+  template: string | null,
+  appointmentAt: Date | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (isNotificationTemplateKey(template) && getNotificationTemplate(template).urgent) {
+    return true;
+  }
+
+  return (
+    !!appointmentAt &&
+    appointmentAt.getTime() - now.getTime() < URGENT_APPOINTMENT_WINDOW_MINUTES * 60 * 1000
+  );
+}
+
+/**
+ * Whether a non-urgent notification should wait for the user's digest.
+ * In-app notifications are always shown right away.
+ */
+export async function shouldBatchNotification(
+  userId: string,
+  type: NotificationType
+): Promise<boolean> {
+  if (type === "BROWSER") return false;
+
+  const preferences = await prisma.notificationPreferences.findUnique({
+    where: { userId },
+    select: { digestMode: true },
+  });
+
+  return !!preferences && preferences.digestMode !== "IMMEDIATE";
+}
+
+/**
+ * When the digest holding a notification queued at `queuedAt` is due: at the
+ * end of that hour for hourly digests, at the next 08:00 local time for daily
+ * ones. Users who switched back to immediate get it on the next run.
+ */
+export function getDigestDueAt(
+  mode: NotificationDigestMode,
+  queuedAt: Date,
+  timeZone: string
+): Date {
+  if (mode === "IMMEDIATE") return queuedAt;
+
+  if (mode === "HOURLY") {
+    return new Date(Math.floor(queuedAt.getTime() / HOUR) * HOUR + HOUR);
+  }
+
+  const day = toCalendarDay(queuedAt, timeZone);
+  const sameDay = zonedTimeToUtc(day, DAILY_DIGEST_MINUTES, timeZone);
+  return sameDay > queuedAt
+    ? sameDay
+    : zonedTimeToUtc(addCalendarDays(day, 1), DAILY_DIGEST_MINUTES, timeZone);
+}
+
+/**
+ * Summary lines of the grouped notifications, repeated titles counted once
+ */
+export function summarizeDigestItems(titles: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const title of titles) {
+    counts.set(title, (counts.get(title) ?? 0) + 1);
+  }
+
+  return Array.from(counts, ([title, count]) => (count > 1 ? `${title} (${count})` : title));
+}
+
+/**
+ * Send the digests that are due: the batched notifications of each user and
+ * channel are delivered as one summary notification, and marked as sent
+ * through it.
+ */
+export async function processNotificationDigests(now: Date = new Date()): Promise<{
+  digests: number;
+  notifications: number;
+}> {
+  const batched = await prisma.notification.findMany({
+    where: { deliveryStatus: "BATCHED" },
+    select: {
+      id: true,
+      userId: true,
+      type: true,
+      title: true,
+      createdAt: true,
+      user: {
+        select: {
+          timezone: true,
+          locale: true,
+          notificationPreferences: { select: { digestMode: true } },
+        },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const groups = new Map<string, typeof batched>();
+  for (const notification of batched) {
+    const key = `${notification.userId}:${notification.type}`;
+    groups.set(key, [...(groups.get(key) ?? []), notification]);
+  }
+
+  const summary = { digests: 0, notifications: 0 };
+
+  for (const notifications of Array.from(groups.values())) {
+    const [oldest] = notifications;
+    const mode = oldest.user.notificationPreferences?.digestMode ?? "IMMEDIATE";
+    const dueAt = getDigestDueAt(
+      mode,
+      oldest.createdAt,
+      oldest.user.timezone || DEFAULT_TIME_ZONE
+    );
+    if (dueAt > now) continue;
+
+    try {
+      const ids = notifications.map((notification) => notification.id);
+
+      // Claimed before sending so overlapping runs don't send it twice
+      const claimed = await prisma.notification.updateMany({
+        where: { id: { in: ids }, deliveryStatus: "BATCHED" },
+        data: { deliveryStatus: "SENT", sentAt: now },
+      });
+      if (claimed.count === 0) continue;
+
+      const items = summarizeDigestItems(notifications.map((notification) => notification.title));
+      const { title, message, whatsappTemplate } = renderNotificationTemplate(
+        "notification.digest",
+        {
+          locale: oldest.user.locale,
+          channel: oldest.type,
+          variables: {
+            count: String(notifications.length),
+            // Los parámetros de WhatsApp y los SMS no admiten saltos de línea
+            items:
+              oldest.type === "EMAIL"
+                ? `\n${items.map((item) => `• ${item}`).join("\n")}`
+                : items.join("; "),
+          },
+        }
+      );
+
+      const digest = await prisma.notification.create({
+        data: {
+          userId: oldest.userId,
+          type: oldest.type,
+          title,
+          message,
+          metadata: JSON.stringify({
+            template: "notification.digest",
+            whatsappTemplate,
+            count: notifications.length,
+          }),
+        },
+        include: { user: { select: { name: true, email: true, phone: true } } },
+      });
+      await deliverNotification(digest, now);
+
+      await prisma.notification.updateMany({
+        where: { id: { in: ids } },
+        data: { digestId: digest.id },
+      });
+
+      summary.digests++;
+      summary.notifications += notifications.length;
+    } catch (error) {
+      ErrorLogger.log(error as Error, {
+        context: "Notification digest",
+        action: "processNotificationDigests",
+        userId: oldest.userId,
+        type: oldest.type,
+      });
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,93 @@
+import crypto from "crypto";
+import { WebhookValidationResult } from "@/lib/payments/security/WebhookValidator";
+
+export class WhatsAppWebhookValidator {
+  private static readonly SIGNATURE_PREFIX = "sha256=";
+
+  /**
+   * Validate the X-Hub-Signature-256 header Meta sends with every webhook:
+   * an HMAC-SHA256 of the raw body keyed with the app secret
+   */
+  static validateWebhook(
+    payload: string | Buffer,
+    signature: string | null,
+    appSecret: string
+  ): WebhookValidationResult {
+    try {
+      if (!signature || !signature.startsWith(this.SIGNATURE_PREFIX)) {
+        return { isValid: false, error: "Invalid WhatsApp signature format" };
+      }
+
+      const payloadString =
+        typeof payload === "string" ? payload : payload.toString("utf8");
+      const expectedSignature = crypto
+        .createHmac("sha256", appSecret)
+        .update(payloadString, "utf8")
+        .digest("hex");
+      const receivedSignature = signature.slice(this.SIGNATURE_PREFIX.length);
+
+      // timingSafeEqual throws on buffers of different length
+      const isValid =
+        receivedSignature.length === expectedSignature.length &&
+        crypto.timingSafeEqual(
+          Buffer.from(expectedSignature, "hex"),
+          Buffer.from(receivedSignature, "hex")
+        );
+
+      return {
+        isValid,
+        error: isValid ? undefined : "Invalid WhatsApp signature",
+        providerId: "whatsapp",
+      };
+    } catch (error) {
+      return {
+        isValid: false,
+        error: `Webhook validation error: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`,
+      };
+    }
+  }
+
+  /**
+   * Answer Meta's subscription handshake: returns the challenge to echo back
+   * when the verify token matches, null otherwise
+   */
+  static verifySubscription(
+    mode: string | null,
+    token: string | null,
+    challenge: string | null,
+    verifyToken: string
+  ): string | null {
+    if (mode !== "subscribe" || !token || !challenge) return null;
+
+    const isValid =
+      token.length === verifyToken.length &&
+      crypto.timingSafeEqual(Buffer.from(token), Buffer.from(verifyToken));
+
+    return isValid ? challenge : null;
+  }
+
+  /**
+   * Validate webhook payload structure
+   */
+  static validatePayloadStructure(payload: unknown): {
+    isValid: boolean;
+    error?: string;
+  } {
+    if (!payload || typeof payload !== "object") {
+      return { isValid: false, error: "Invalid payload format" };
+    }
+
+    const object = "object" in payload ? payload.object : undefined;
+    if (object !== "whatsapp_business_account") {
+      return { isValid: false, error: `Unsupported object: ${String(object)}` };
+    }
+
+    if (!("entry" in payload) || !Array.isArray(payload.entry)) {
+      return { isValid: false, error: "Missing required field: entry" };
+    }
+
+    return { isValid: true };
+  }
+}
@@ -0,0 +1,436 @@
+import { NotificationTemplate, NotificationTemplateKey } from "./templates";
+
+/**
+ * Notification texts by event. Variables are written as {{name}}; the
+ * WhatsApp template names must match the templates approved in WhatsApp
+ * Business Manager, whose body parameters {{1}}, {{2}}... follow the order of
+ * `parameters`.
+ */
+export const NOTIFICATION_TEMPLATES: Record<NotificationTemplateKey, NotificationTemplate> = {
+  "appointment.created.patient": {
+    description: "Cita creada (paciente)",
+    variables: ["doctorName", "date", "time"],
+    sample: { doctorName: "Ana García", date: "martes, 11 de marzo de 2025", time: "11:00 a.m. CST" },
+    locales: {
+      es: {
+        title: "Cita Médica Creada",
+        message: "Su cita con Dr. {{doctorName}} ha sido creada para el {{date}} a las {{time}}.",
+        sms: "Cita con Dr. {{doctorName}} creada: {{date}}, {{time}}.",
+      },
+      en: {
+        title: "Appointment Created",
+        message: "Your appointment with Dr. {{doctorName}} has been created for {{date}} at {{time}}.",
+        sms: "Appointment with Dr. {{doctorName}} created: {{date}}, {{time}}.",
+      },
+    },
+    whatsapp: { name: "appointment_created", parameters: ["doctorName", "date", "time"] },
+  },
+  "appointment.created.doctor": {
+    description: "Cita creada (doctor)",
+    variables: ["patientName", "date", "time"],
+    sample: { patientName: "Juan Pérez", date: "martes, 11 de marzo de 2025", time: "11:00 a.m. CST" },
+    locales: {
+      es: {
+        title: "Nueva Cita Médica",
+        message: "Tiene una nueva cita con {{patientName}} programada para el {{date}} a las {{time}}.",
+        sms: "Nueva cita con {{patientName}}: {{date}}, {{time}}.",
+      },
+      en: {
+        title: "New Appointment",
+        message: "You have a new appointment with {{patientName}} scheduled for {{date}} at {{time}}.",
+        sms: "New appointment with {{patientName}}: {{date}}, {{time}}.",
+      },
+    },
+    whatsapp: { name: "appointment_created_doctor", parameters: ["patientName", "date", "time"] },
+  },
+  "appointment.confirmed.patient": {
+    description: "Cita confirmada (paciente)",
+    variables: ["doctorName", "date", "time"],
+    sample: { doctorName: "Ana García", date: "martes, 11 de marzo de 2025", time: "11:00 a.m. CST" },
+    locales: {
+      es: {
+        title: "Cita Médica Confirmada",
+        message: "Su cita con Dr. {{doctorName}} ha sido confirmada para el {{date}} a las {{time}}.",
+        sms: "Cita con Dr. {{doctorName}} confirmada: {{date}}, {{time}}.",
+      },
+      en: {
+        title: "Appointment Confirmed",
+        message: "Your appointment with Dr. {{doctorName}} has been confirmed for {{date}} at {{time}}.",
+        sms: "Appointment with Dr. {{doctorName}} confirmed: {{date}}, {{time}}.",
+      },
+    },
+    whatsapp: { name: "appointment_confirmed", parameters: ["doctorName", "date", "time"] },
+  },
+  "appointment.confirmed.doctor": {
+    description: "Cita confirmada (doctor)",
+    variables: ["patientName", "date", "time"],
+    sample: { patientName: "Juan Pérez", date: "martes, 11 de marzo de 2025", time: "11:00 a.m. CST" },
+    locales: {
+      es: {
+        title: "Cita Médica Confirmada",
+        message: "Su cita con {{patientName}} ha sido confirmada para el {{date}} a las {{time}}.",
+        sms: "Cita con {{patientName}} confirmada: {{date}}, {{time}}.",
+      },
+      en: {
+        title: "Appointment Confirmed",
+        message: "Your appointment with {{patientName}} has been confirmed for {{date}} at {{time}}.",
+        sms: "Appointment with {{patientName}} confirmed: {{date}}, {{time}}.",
+      },
+    },
+    whatsapp: { name: "appointment_confirmed_doctor", parameters: ["patientName", "date", "time"] },
+  },
+  "appointment.cancelled.patient": {
+    description: "Cita cancelada sin reembolso (paciente)",
+    variables: ["doctorName", "date", "time"],
+    sample: { doctorName: "Ana García", date: "martes, 11 de marzo de 2025", time: "11:00 a.m. CST" },
+    locales: {
+      es: {
+        title: "Cita Médica Cancelada",
+        message: "Su cita con Dr. {{doctorName}} programada para el {{date}} a las {{time}} ha sido cancelada.",
+        sms: "Su cita con Dr. {{doctorName}} del {{date}}, {{time}} fue cancelada.",
+      },
+      en: {
+        title: "Appointment Cancelled",
+        message: "Your appointment with Dr. {{doctorName}} scheduled for {{date}} at {{time}} has been cancelled.",
+        sms: "Your appointment with Dr. {{doctorName}} on {{date}}, {{time}} was cancelled.",
+      },
+    },
+    whatsapp: { name: "appointment_cancelled", parameters: ["doctorName", "date", "time"] },
+  },
+  "appointment.no_show.patient": {
+    description: "Inasistencia registrada (paciente)",
+    // details: restricción que aplica desde ahora, puede ir vacío
+    variables: ["doctorName", "date", "time", "details"],
+    sample: {
+      doctorName: "Ana García",
+      date: "martes, 11 de marzo de 2025",
+      time: "11:00 a.m. CST",
+      details: "A partir de ahora sus citas con este doctor requieren un depósito no reembolsable del 50%.",
+    },
+    locales: {
+      es: {
+        title: "Inasistencia Registrada",
+        message: "Registramos que no asistió a su cita con Dr. {{doctorName}} del {{date}} a las {{time}}. {{details}}",
+        sms: "No asistió a su cita con Dr. {{doctorName}} del {{date}}, {{time}}.",
+      },
+      en: {
+        title: "Missed Appointment",
+        message: "You missed your appointment with Dr. {{doctorName}} on {{date}} at {{time}}. {{details}}",
+        sms: "You missed your appointment with Dr. {{doctorName}} on {{date}}, {{time}}.",
+      },
+    },
+    whatsapp: { name: "appointment_no_show", parameters: ["doctorName", "date", "time", "details"] },
+  },
+  "appointment.cancelled.doctor": {
+    description: "Cita cancelada (doctor)",
+    variables: ["patientName", "date", "time"],
+    sample: { patientName: "Juan Pérez", date: "martes, 11 de marzo de 2025", time: "11:00 a.m. CST" },
+    locales: {
+      es: {
+        title: "Cita Médica Cancelada",
+        message: "Su cita con {{patientName}} programada para el {{date}} a las {{time}} ha sido cancelada.",
+        sms: "Su cita con {{patientName}} del {{date}}, {{time}} fue cancelada.",
+      },
+      en: {
+        title: "Appointment Cancelled",
+        message: "Your appointment with {{patientName}} scheduled for {{date}} at {{time}} has been cancelled.",
+        sms: "Your appointment with {{patientName}} on {{date}}, {{time}} was cancelled.",
+      },
+    },
+    whatsapp: { name: "appointment_cancelled_doctor", parameters: ["patientName", "date", "time"] },
+  },
+  "appointment.cancelled_refund.patient": {
+    description: "Cita cancelada con reembolso (paciente)",
+    variables: ["doctorName", "date", "time", "refundAmount"],
+    sample: {
+      doctorName: "Ana García",
+      date: "martes, 11 de marzo de 2025",
+      time: "11:00 a.m. CST",
+      refundAmount: "$500.00",
+    },
+    locales: {
+      es: {
+        title: "Cita Médica Cancelada",
+        message:
+          "Su cita con Dr. {{doctorName}} programada para el {{date}} a las {{time}} ha sido cancelada. Recibirá un reembolso de {{refundAmount}} en su método de pago original.",
+        sms: "Cita con Dr. {{doctorName}} cancelada. Reembolso: {{refundAmount}}.",
+      },
+      en: {
+        title: "Appointment Cancelled",
+        message:
+          "Your appointment with Dr. {{doctorName}} scheduled for {{date}} at {{time}} has been cancelled. You will receive a refund of {{refundAmount}} to your original payment method.",
+        sms: "Appointment with Dr. {{doctorName}} cancelled. Refund: {{refundAmount}}.",
+      },
+    },
+    whatsapp: {
+      name: "appointment_cancelled_refund",
+      parameters: ["doctorName", "date", "time", "refundAmount"],
+    },
+  },
+  "appointment.reminder.patient": {
+    description: "Recordatorio de cita (paciente)",
+    urgent: true,
+    // details: enlace de la videoconsulta o dirección, puede ir vacío
+    variables: ["doctorName", "date", "time", "details"],
+    sample: {
+      doctorName: "Ana García",
+      date: "martes, 11 de marzo de 2025",
+      time: "11:00 a.m. CST",
+      details: "Dirección: Av. Reforma 123, Ciudad de México, CDMX, 06600",
+    },
+    locales: {
+      es: {
+        title: "Recordatorio de Cita Médica",
+        message: "Recordatorio: Tiene una cita con Dr. {{doctorName}} el {{date}} a las {{time}}. {{details}}",
+        sms: "Recordatorio: cita con Dr. {{doctorName}} el {{date}}, {{time}}.",
+        whatsapp:
+          "Recordatorio: Tiene una cita con Dr. {{doctorName}} el {{date}} a las {{time}}. {{details}}\n\nResponda 1 para confirmar, 2 para cancelar o 3 para reprogramar.",
+      },
+      en: {
+        title: "Appointment Reminder",
+        message: "Reminder: You have an appointment with Dr. {{doctorName}} on {{date}} at {{time}}. {{details}}",
+        sms: "Reminder: appointment with Dr. {{doctorName}} on {{date}}, {{time}}.",
+        whatsapp:
+          "Reminder: You have an appointment with Dr. {{doctorName}} on {{date}} at {{time}}. {{details}}\n\nReply 1 to confirm, 2 to cancel or 3 to reschedule.",
+      },
+    },
+    // La plantilla aprobada incluye los botones de respuesta rápida
+    // Confirmar / Cancelar / Reprogramar (lib/whatsapp-replies.ts)
+    whatsapp: {
+      name: "appointment_reminder_reply",
+      parameters: ["doctorName", "date", "time", "details"],
+    },
+  },
+  "appointment.reminder.doctor": {
+    description: "Recordatorio de cita (doctor)",
+    urgent: true,
+    // details: enlace de la videoconsulta o dirección, puede ir vacío
+    variables: ["patientName", "date", "time", "details"],
+    sample: {
+      patientName: "Juan Pérez",
+      date: "martes, 11 de marzo de 2025",
+      time: "11:00 a.m. CST",
+      details: "Enlace de la videoconsulta: https://meet.example.com/ana",
+    },
+    locales: {
+      es: {
+        title: "Recordatorio de Cita Médica",
+        message: "Recordatorio: Tiene una cita con {{patientName}} el {{date}} a las {{time}}. {{details}}",
+        sms: "Recordatorio: cita con {{patientName}} el {{date}}, {{time}}.",
+      },
+      en: {
+        title: "Appointment Reminder",
+        message: "Reminder: You have an appointment with {{patientName}} on {{date}} at {{time}}. {{details}}",
+        sms: "Reminder: appointment with {{patientName}} on {{date}}, {{time}}.",
+      },
+    },
+    whatsapp: { name: "appointment_reminder_doctor", parameters: ["patientName", "date", "time", "details"] },
+  },
+  "chat.message": {
+    description: "Nuevo mensaje en el chat de una cita",
+    variables: ["senderName", "preview"],
+    sample: { senderName: "Juan Pérez", preview: "Doctor, ¿debo ir en ayunas?" },
+    locales: {
+      es: {
+        title: "Nuevo mensaje de {{senderName}}",
+        message: '{{senderName}} le ha enviado un mensaje: "{{preview}}"',
+      },
+      en: {
+        title: "New message from {{senderName}}",
+        message: '{{senderName}} sent you a message: "{{preview}}"',
+      },
+    },
+    whatsapp: { name: "chat_message", parameters: ["senderName", "preview"] },
+  },
+  "payment.completed": {
+    description: "Pago completado (paciente)",
+    variables: ["amount"],
+    sample: { amount: "$500.00 MXN" },
+    locales: {
+      es: {
+        title: "Pago Exitoso",
+        message: "Su pago de {{amount}} se procesó correctamente.",
+      },
+      en: {
+        title: "Payment Successful",
+        message: "Your payment of {{amount}} has been processed successfully.",
+      },
+    },
+    whatsapp: { name: "payment_completed", parameters: ["amount"] },
+  },
+  "payment.failed": {
+    description: "Pago rechazado (paciente)",
+    urgent: true,
+    variables: ["amount", "error"],
+    sample: { amount: "$500.00 MXN", error: "Fondos insuficientes." },
+    locales: {
+      es: {
+        title: "Pago Rechazado",
+        message: "Su pago de {{amount}} no pudo procesarse. {{error}}",
+        sms: "Su pago de {{amount}} no pudo procesarse. Intente de nuevo en Medica Movil.",
+      },
+      en: {
+        title: "Payment Failed",
+        message: "Your payment of {{amount}} could not be processed. {{error}}",
+        sms: "Your payment of {{amount}} could not be processed. Please retry in Medica Movil.",
+      },
+    },
+    whatsapp: { name: "payment_failed", parameters: ["amount"] },
+  },
+  "payment.received": {
+    description: "Pago recibido (doctor)",
+    variables: ["patientName", "amount"],
+    sample: { patientName: "Juan Pérez", amount: "$500.00 MXN" },
+    locales: {
+      es: {
+        title: "Pago Recibido",
+        message: "{{patientName}} pagó {{amount}} por su cita.",
+      },
+      en: {
+        title: "Payment Received",
+        message: "{{patientName}} has paid {{amount}} for their appointment.",
+      },
+    },
+    whatsapp: { name: "payment_received", parameters: ["patientName", "amount"] },
+  },
+  "payment.voucher_issued": {
+    description: "Ficha de pago OXXO o SPEI generada (paciente)",
+    // instructions: referencia o CLABE a la que se paga
+    variables: ["amount", "method", "instructions", "date", "time"],
+    sample: {
+      amount: "$500.00 MXN",
+      method: "OXXO",
+      instructions: "Referencia de pago: 93124567890123",
+      date: "martes, 11 de marzo de 2025",
+      time: "11:00 a.m. CST",
+    },
+    locales: {
+      es: {
+        title: "Ficha de Pago Generada",
+        message: "Pague {{amount}} en {{method}} antes del {{date}} a las {{time}} para confirmar su cita. {{instructions}}",
+        sms: "Pague {{amount}} en {{method}} antes del {{date}}, {{time}}. {{instructions}}",
+      },
+      en: {
+        title: "Payment Voucher Issued",
+        message: "Pay {{amount}} via {{method}} before {{date}} at {{time}} to confirm your appointment. {{instructions}}",
+        sms: "Pay {{amount}} via {{method}} before {{date}}, {{time}}. {{instructions}}",
+      },
+    },
+    whatsapp: { name: "payment_voucher_issued", parameters: ["amount", "method", "date", "time", "instructions"] },
+  },
+  "payment.voucher_expired": {
+    description: "Ficha de pago vencida sin pagar (paciente)",
+    variables: ["doctorName", "date", "time"],
+    sample: { doctorName: "Ana García", date: "martes, 11 de marzo de 2025", time: "11:00 a.m. CST" },
+    locales: {
+      es: {
+        title: "Ficha de Pago Vencida",
+        message: "Su ficha de pago venció sin recibir el pago, por lo que su cita con Dr. {{doctorName}} del {{date}} a las {{time}} fue cancelada y el horario quedó libre.",
+        sms: "Su ficha de pago venció. Su cita con Dr. {{doctorName}} del {{date}}, {{time}} fue cancelada.",
+      },
+      en: {
+        title: "Payment Voucher Expired",
+        message: "Your payment voucher expired unpaid, so your appointment with Dr. {{doctorName}} on {{date}} at {{time}} was cancelled and the time slot released.",
+        sms: "Your payment voucher expired. Your appointment with Dr. {{doctorName}} on {{date}}, {{time}} was cancelled.",
+      },
+    },
+    whatsapp: { name: "payment_voucher_expired", parameters: ["doctorName", "date", "time"] },
+  },
+  "payment.slot_unavailable_refund": {
+    description: "Pago recibido después de que otro paciente ocupó el horario (paciente)",
+    variables: ["doctorName", "date", "time", "refundAmount"],
+    sample: {
+      doctorName: "Ana García",
+      date: "martes, 11 de marzo de 2025",
+      time: "11:00 a.m. CST",
+      refundAmount: "$500.00",
+    },
+    locales: {
+      es: {
+        title: "Cita No Disponible",
+        message:
+          "Su pago llegó después de que el horario con Dr. {{doctorName}} del {{date}} a las {{time}} fue reservado por otro paciente, por lo que la cita fue cancelada. Recibirá un reembolso de {{refundAmount}} en su método de pago original.",
+        sms: "El horario con Dr. {{doctorName}} del {{date}}, {{time}} ya no estaba disponible. Reembolso: {{refundAmount}}.",
+      },
+      en: {
+        title: "Appointment Unavailable",
+        message:
+          "Your payment arrived after the time slot with Dr. {{doctorName}} on {{date}} at {{time}} was booked by another patient, so the appointment was cancelled. You will receive a refund of {{refundAmount}} to your original payment method.",
+        sms: "The slot with Dr. {{doctorName}} on {{date}}, {{time}} was no longer available. Refund: {{refundAmount}}.",
+      },
+    },
+    whatsapp: {
+      name: "payment_slot_unavailable_refund",
+      parameters: ["doctorName", "date", "time", "refundAmount"],
+    },
+  },
+  "video_call.incoming": {
+    description: "Videollamada entrante",
+    urgent: true,
+    variables: ["callerName"],
+    sample: { callerName: "Dr. Ana García" },
+    locales: {
+      es: { title: "Videollamada Entrante", message: "{{callerName}} le está llamando" },
+      en: { title: "Incoming Video Call", message: "{{callerName}} is calling you" },
+    },
+  },
+  "video_call.started": {
+    description: "Videollamada iniciada",
+    variables: ["callerName"],
+    sample: { callerName: "Dr. Ana García" },
+    locales: {
+      es: { title: "Videollamada Iniciada", message: "La videollamada con {{callerName}} ha comenzado" },
+      en: { title: "Video Call Started", message: "Video call with {{callerName}} has started" },
+    },
+  },
+  "video_call.ended": {
+    description: "Videollamada terminada",
+    variables: ["minutes"],
+    sample: { minutes: "25" },
+    locales: {
+      es: { title: "Videollamada Terminada", message: "La videollamada terminó después de {{minutes}} minutos" },
+      en: { title: "Video Call Ended", message: "Video call ended after {{minutes}} minutes" },
+    },
+  },
+  "doctor.verified": {
+    description: "Perfil de doctor verificado",
+    variables: ["doctorName"],
+    sample: { doctorName: "Ana García" },
+    locales: {
+      es: {
+        title: "Perfil Verificado",
+        message:
+          "Dr. {{doctorName}}, su perfil fue verificado. Ya aparece en las búsquedas y puede recibir citas.",
+        sms: "Dr. {{doctorName}}, su perfil en Medica Movil fue verificado. Ya puede recibir citas.",
+      },
+      en: {
+        title: "Profile Verified",
+        message:
+          "Dr. {{doctorName}}, your profile has been verified. You now appear in search results and can receive appointments.",
+        sms: "Dr. {{doctorName}}, your Medica Movil profile has been verified. You can now receive appointments.",
+      },
+    },
+    whatsapp: { name: "doctor_verified", parameters: ["doctorName"] },
+  },
+  "notification.digest": {
+    description: "Resumen de notificaciones agrupadas",
+    variables: ["count", "items"],
+    sample: {
+      count: "4",
+      items: "Nuevo mensaje de Juan Pérez (3); Cita Médica Confirmada",
+    },
+    locales: {
+      es: {
+        title: "Resumen de notificaciones",
+        message: "Tiene {{count}} notificaciones nuevas en Medica Movil: {{items}}",
+        sms: "Tiene {{count}} notificaciones nuevas: {{items}}",
+      },
+      en: {
+        title: "Notification summary",
+        message: "You have {{count}} new notifications in Medica Movil: {{items}}",
+        sms: "You have {{count}} new notifications: {{items}}",
+      },
+    },
+    whatsapp: { name: "notification_digest", parameters: ["count", "items"] },
+  },
+};
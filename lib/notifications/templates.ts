@@ -0,0 +1,194 @@
+import { NotificationType } from "@prisma/client";
+import { formatMexicanDate, formatMexicanTime } from "@/lib/mexican-utils";
+import { NOTIFICATION_TEMPLATES } from "./template-catalog";
+import { WhatsAppTemplateMessage } from "./types";
+
+export type NotificationLocale = "es" | "en";
+
+export const NOTIFICATION_LOCALES: NotificationLocale[] = ["es", "en"];
+export const DEFAULT_NOTIFICATION_LOCALE: NotificationLocale = "es";
+
+// Language codes of the WhatsApp templates approved for each locale
+const WHATSAPP_LANGUAGE_CODES: Record<NotificationLocale, string> = {
+  es: "es_MX",
+  en: "en_US",
+};
+
+export type NotificationTemplateKey =
+  | "appointment.created.patient"
+  | "appointment.created.doctor"
+  | "appointment.confirmed.patient"
+  | "appointment.confirmed.doctor"
+  | "appointment.cancelled.patient"
+  | "appointment.cancelled.doctor"
+  | "appointment.cancelled_refund.patient"
+  | "appointment.no_show.patient"
+  | "appointment.reminder.patient"
+  | "appointment.reminder.doctor"
+  | "chat.message"
+  | "payment.completed"
+  | "payment.failed"
+  | "payment.received"
+  | "payment.voucher_issued"
+  | "payment.voucher_expired"
+  | "payment.slot_unavailable_refund"
+  | "video_call.incoming"
+  | "video_call.started"
+  | "video_call.ended"
+  | "doctor.verified"
+  | "notification.digest";
+
+export interface LocalizedTemplate {
+  title: string;
+  message: string;
+  // Shorter text for SMS; the message is truncated when missing
+  sms?: string;
+  // Text for WhatsApp when it differs, e.g. to offer reply options
+  whatsapp?: string;
+}
+
+export interface NotificationTemplate {
+  description: string;
+  variables: string[];
+  // Values used by the admin preview
+  sample: Record<string, string>;
+  locales: Record<NotificationLocale, LocalizedTemplate>;
+  whatsapp?: { name: string; parameters: string[] };
+  // Delivered right away even to users who receive a digest
+  urgent?: boolean;
+}
+
+export interface ChannelLengthRule {
+  // Maximum characters delivered, or null when unlimited
+  maxLength: number | null;
+  // Characters the adapter adds to send the title in the same text, or null
+  // when the title travels apart (e.g. the email subject)
+  titleOverhead: number | null;
+}
+
+// SMS are kept to one 160-character segment; WhatsApp template bodies are
+// limited to 1024 characters
+export const CHANNEL_LENGTH_RULES: Record<NotificationType, ChannelLengthRule> = {
+  EMAIL: { maxLength: null, titleOverhead: null },
+  SMS: { maxLength: 160, titleOverhead: 2 },
+  WHATSAPP: { maxLength: 1024, titleOverhead: 3 },
+  BROWSER: { maxLength: 500, titleOverhead: null },
+};
+
+export interface RenderedNotification {
+  title: string;
+  message: string;
+  whatsappTemplate?: WhatsAppTemplateMessage;
+}
+
+export class NotificationTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NotificationTemplateError";
+  }
+}
+
+export function isNotificationLocale(value: unknown): value is NotificationLocale {
+  return NOTIFICATION_LOCALES.includes(value as NotificationLocale);
+}
+
+export function isNotificationTemplateKey(value: unknown): value is NotificationTemplateKey {
+  return typeof value === "string" && value in NOTIFICATION_TEMPLATES;
+}
+
+export function getNotificationTemplate(key: NotificationTemplateKey): NotificationTemplate {
+  return NOTIFICATION_TEMPLATES[key];
+}
+
+/**
+ * Date and time variables in the recipient's language and time zone
+ */
+export function formatTemplateDateTime(
+  date: Date,
+  timeZone: string,
+  locale: NotificationLocale
+): { date: string; time: string } {
+  if (locale === "es") {
+    return {
+      date: formatMexicanDate(date, timeZone),
+      time: formatMexicanTime(date, timeZone, { showTimeZone: true }),
+    };
+  }
+
+  return {
+    date: new Intl.DateTimeFormat("en-US", { dateStyle: "full", timeZone }).format(date),
+    time: new Intl.DateTimeFormat("en-US", {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZone,
+      timeZoneName: "short",
+    }).format(date),
+  };
+}
+
+function interpolate(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (_, name: string) => variables[name] ?? "");
+}
+
+// "..." en lugar de "…" para no forzar la codificación UCS-2 en SMS
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, Math.max(0, maxLength - 3)).trimEnd()}...`;
+}
+
+/**
+ * Render a template for a channel in the user's language, applying the
+ * channel's length rules. WhatsApp notifications also carry the approved
+ * template to send.
+ */
+export function renderNotificationTemplate(
+  key: NotificationTemplateKey,
+  options: {
+    locale?: string | null;
+    channel: NotificationType;
+    variables: Record<string, string>;
+  }
+): RenderedNotification {
+  const template = NOTIFICATION_TEMPLATES[key];
+  if (!template) {
+    throw new NotificationTemplateError(`Plantilla de notificación desconocida: ${key}`);
+  }
+
+  const missing = template.variables.filter((name) => options.variables[name] === undefined);
+  if (missing.length > 0) {
+    throw new NotificationTemplateError(
+      `Faltan variables para la plantilla ${key}: ${missing.join(", ")}`
+    );
+  }
+
+  const locale = isNotificationLocale(options.locale)
+    ? options.locale
+    : DEFAULT_NOTIFICATION_LOCALE;
+  const text = template.locales[locale];
+  const rule = CHANNEL_LENGTH_RULES[options.channel];
+
+  const title = interpolate(text.title, options.variables);
+  const channelText =
+    (options.channel === "SMS" && text.sms) ||
+    (options.channel === "WHATSAPP" && text.whatsapp) ||
+    text.message;
+  let message = interpolate(channelText, options.variables).trim();
+
+  if (rule.maxLength !== null) {
+    const overhead = rule.titleOverhead === null ? 0 : title.length + rule.titleOverhead;
+    message = truncate(message, rule.maxLength - overhead);
+  }
+
+  const rendered: RenderedNotification = { title, message };
+
+  if (options.channel === "WHATSAPP" && template.whatsapp) {
+    rendered.whatsappTemplate = {
+      name: template.whatsapp.name,
+      language: WHATSAPP_LANGUAGE_CODES[locale],
+      // WhatsApp rechaza parámetros vacíos
+      parameters: template.whatsapp.parameters.map((name) => options.variables[name] || "-"),
+    };
+  }
+
+  return rendered;
+}
@@ -0,0 +1,39 @@
+import { NotificationType } from "@prisma/client";
+
+export type DeliveryChannel = Exclude<NotificationType, "BROWSER">;
+
+export interface ChannelRecipient {
+  name: string;
+  email: string;
+  phone: string | null;
+}
+
+// Pre-approved WhatsApp Business template, required to message users outside
+// the 24h customer service window
+export interface WhatsAppTemplateMessage {
+  name: string;
+  language: string;
+  parameters: string[];
+}
+
+export interface ChannelMessage {
+  notificationId: string;
+  to: ChannelRecipient;
+  title: string;
+  message: string;
+  whatsappTemplate?: WhatsAppTemplateMessage;
+}
+
+export interface DeliveryResult {
+  success: boolean;
+  providerMessageId?: string;
+  error?: string;
+  // Transient failures (timeouts, rate limits, 5xx) are retried with backoff
+  retryable: boolean;
+}
+
+export interface NotificationChannelAdapter {
+  readonly name: string;
+  readonly channel: DeliveryChannel;
+  send(message: ChannelMessage): Promise<DeliveryResult>;
+}
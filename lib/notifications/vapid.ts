@@ -0,0 +1,74 @@
+import { createECDH, createPrivateKey, sign } from "crypto";
+
+export interface VapidConfig {
+  publicKey: string; // uncompressed P-256 point, base64url
+  privateKey: string; // P-256 private scalar, base64url
+  subject: string; // mailto: or https: contact of the sender
+}
+
+const VAPID_TOKEN_SECONDS = 12 * 60 * 60;
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+export function getVapidConfig(): VapidConfig | null {
+  const { VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT } = process.env;
+  if (!VAPID_PUBLIC_KEY || !VAPID_PRIVATE_KEY) return null;
+
+  return {
+    publicKey: VAPID_PUBLIC_KEY,
+    privateKey: VAPID_PRIVATE_KEY,
+    subject: VAPID_SUBJECT || "mailto:soporte@medicamovil.mx",
+  };
+}
+
+/**
+ * New VAPID key pair, for VAPID_PUBLIC_KEY / VAPID_PRIVATE_KEY
+ */
+export function generateVapidKeys(): { publicKey: string; privateKey: string } {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+
+  return {
+    publicKey: base64url(ecdh.getPublicKey()),
+    privateKey: base64url(ecdh.getPrivateKey()),
+  };
+}
+
+/**
+ * Authorization header identifying the application server to the push
+ * service of `endpoint` (RFC 8292): an ES256 JWT plus the public key
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  config: VapidConfig,
+  now: Date = new Date()
+): string {
+  const publicKey = Buffer.from(config.publicKey, "base64url");
+  const key = createPrivateKey({
+    key: {
+      kty: "EC",
+      crv: "P-256",
+      d: config.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+    },
+    format: "jwk",
+  });
+
+  const header = base64url(JSON.stringify({ typ: "JWT", alg: "ES256" }));
+  const claims = base64url(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_SECONDS,
+      sub: config.subject,
+    })
+  );
+  const signature = sign("sha256", Buffer.from(`${header}.${claims}`), {
+    key,
+    dsaEncoding: "ieee-p1363",
+  });
+
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${config.publicKey}`;
+}
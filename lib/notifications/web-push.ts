@@ -0,0 +1,167 @@
+import { createCipheriv, createECDH, hkdfSync, randomBytes } from "crypto";
+import { prisma } from "@/lib/db";
+import { ErrorLogger } from "@/lib/error-handling-utils";
+import { Notification, PushSubscription } from "@prisma/client";
+import { createVapidAuthorization, getVapidConfig, VapidConfig } from "./vapid";
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  tag: string;
+  url: string;
+}
+
+type PushKeys = Pick<PushSubscription, "p256dh" | "auth">;
+
+// Push services keep undelivered messages for a day at most
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+const RECORD_SIZE = 4096;
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync("sha256", ikm, salt, info, length));
+}
+
+/**
+ * Encrypt a payload for a subscription with the aes128gcm content encoding
+ * (RFC 8188 / RFC 8291), as a single record
+ */
+export function encryptPushPayload(payload: string, keys: PushKeys): Buffer {
+  const userAgentPublicKey = Buffer.from(keys.p256dh, "base64url");
+  const authSecret = Buffer.from(keys.auth, "base64url");
+
+  const ecdh = createECDH("prime256v1");
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const ikm = hkdf(
+    sharedSecret,
+    authSecret,
+    Buffer.concat([Buffer.from("WebPush: info\0"), userAgentPublicKey, serverPublicKey]),
+    32
+  );
+  const salt = randomBytes(16);
+  const contentKey = hkdf(ikm, salt, Buffer.from("Content-Encoding: aes128gcm\0"), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from("Content-Encoding: nonce\0"), 12);
+
+  const cipher = createCipheriv("aes-128-gcm", contentKey, nonce);
+  // 0x02 marca el último (y único) registro
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Send an encrypted message to a push subscription. Returns the push service
+ * status: 201 when accepted, 404/410 when the subscription no longer exists.
+ */
+export async function sendWebPush(
+  subscription: Pick<PushSubscription, "endpoint" | "p256dh" | "auth">,
+  payload: PushPayload,
+  config: VapidConfig
+): Promise<number> {
+  const response = await fetch(subscription.endpoint, {
+    method: "POST",
+    headers: {
+      Authorization: createVapidAuthorization(subscription.endpoint, config),
+      "Content-Encoding": "aes128gcm",
+      "Content-Type": "application/octet-stream",
+      TTL: String(PUSH_TTL_SECONDS),
+      Urgency: "normal",
+    },
+    body: encryptPushPayload(JSON.stringify(payload), subscription),
+    signal: AbortSignal.timeout(15000),
+  });
+
+  return response.status;
+}
+
+const NOTIFICATIONS_PAGE = "/notificaciones";
+
+// Page to open when the notification is clicked
+function getNotificationUrl(notification: Notification): string {
+  if (!notification.metadata) return NOTIFICATIONS_PAGE;
+
+  try {
+    const { actionUrl } = JSON.parse(notification.metadata);
+    if (typeof actionUrl === "string") return actionUrl;
+  } catch {
+    // Metadata is optional context only
+  }
+
+  return NOTIFICATIONS_PAGE;
+}
+
+/**
+ * Push an in-app notification to every browser the user subscribed, when the
+ * user has browser notifications on. Subscriptions the push service reports
+ * as gone (404/410) are removed. Never throws: the notification is already
+ * stored and shown in the app.
+ */
+export async function sendPushNotification(
+  notification: Notification
+): Promise<{ sent: number; pruned: number }> {
+  const summary = { sent: 0, pruned: 0 };
+  const config = getVapidConfig();
+  if (!config) return summary;
+
+  try {
+    const preferences = await prisma.notificationPreferences.findUnique({
+      where: { userId: notification.userId },
+      select: { browser: true },
+    });
+    if (preferences && !preferences.browser) return summary;
+
+    const subscriptions = await prisma.pushSubscription.findMany({
+      where: { userId: notification.userId },
+    });
+
+    const payload: PushPayload = {
+      title: notification.title,
+      body: notification.message,
+      tag: notification.id,
+      url: getNotificationUrl(notification),
+    };
+
+    for (const subscription of subscriptions) {
+      try {
+        const status = await sendWebPush(subscription, payload, config);
+
+        if (status === 404 || status === 410) {
+          await prisma.pushSubscription.delete({ where: { id: subscription.id } });
+          summary.pruned++;
+        } else if (status >= 200 && status < 300) {
+          await prisma.pushSubscription.update({
+            where: { id: subscription.id },
+            data: { lastUsedAt: new Date() },
+          });
+          summary.sent++;
+        } else {
+          console.warn(`Push service responded ${status} for subscription ${subscription.id}`);
+        }
+      } catch (error) {
+        ErrorLogger.log(error as Error, {
+          context: "Web Push",
+          action: "sendPushNotification",
+          subscriptionId: subscription.id,
+        });
+      }
+    }
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: "Web Push",
+      action: "sendPushNotification",
+      notificationId: notification.id,
+    });
+  }
+
+  return summary;
+}
@@ -0,0 +1,306 @@
+import { prisma } from "@/lib/db";
+import { ErrorLogger } from "@/lib/error-handling-utils";
+import { formatMexicanCurrency } from "@/lib/mexican-utils";
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import {
+  DEFAULT_NOTIFICATION_LOCALE,
+  formatTemplateDateTime,
+  isNotificationLocale,
+} from "@/lib/notifications/templates";
+import { extendSlotHold, releaseSlotHold } from "@/lib/slot-holds";
+import { offerFreedSlot } from "@/lib/waitlist";
+import { Payment, PaymentMethod } from "@prisma/client";
+
+// OXXO and SPEI payments: MercadoPago issues a voucher that the patient pays
+// later at a store or by bank transfer. The appointment's slot stays held
+// until the voucher expires, and the appointment is cancelled when it isn't
+// paid in time.
+
+export const VOUCHER_PAYMENT_METHODS: PaymentMethod[] = ["OXXO", "SPEI"];
+
+// OXXO references can be paid for up to three days
+const VOUCHER_MAX_HOURS = 72;
+
+// Vouchers expire this long before the appointment so the doctor knows in
+// advance whether it's going ahead
+const VOUCHER_LEAD_MINUTES = 120;
+
+// Shortest time worth giving a patient to go and pay
+const VOUCHER_MIN_PAYMENT_MINUTES = 60;
+
+// OXXO reports payments to MercadoPago up to an hour after they're made
+export const VOUCHER_CONFIRMATION_GRACE_MINUTES = 60;
+
+const VOUCHER_EXPIRED_REASON = "Ficha de pago vencida sin pago";
+
+export interface PaymentVoucher {
+  reference: string | null; // OXXO payment reference
+  clabe: string | null; // SPEI account to transfer to
+  url: string | null; // Printable voucher hosted by MercadoPago
+  expiresAt: Date;
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+export function isVoucherPaymentMethod(method: PaymentMethod): boolean {
+  return VOUCHER_PAYMENT_METHODS.includes(method);
+}
+
+/**
+ * Deadline to pay a voucher for an appointment, or null when the appointment
+ * is too soon to wait for a voucher payment
+ */
+export function getVoucherExpiration(
+  scheduledAt: Date,
+  now: Date = new Date()
+): Date | null {
+  const latest = addMinutes(scheduledAt, -VOUCHER_LEAD_MINUTES);
+  const longest = addMinutes(now, VOUCHER_MAX_HOURS * 60);
+  const expiresAt = latest < longest ? latest : longest;
+
+  return expiresAt >= addMinutes(now, VOUCHER_MIN_PAYMENT_MINUTES)
+    ? expiresAt
+    : null;
+}
+
+/**
+ * Time the slot stays held for a voucher: until a late payment confirmation
+ * can no longer arrive, but never past the appointment itself
+ */
+export function getVoucherHoldExpiration(voucherExpiresAt: Date, scheduledAt: Date): Date {
+  const confirmationDeadline = addMinutes(
+    voucherExpiresAt,
+    VOUCHER_CONFIRMATION_GRACE_MINUTES
+  );
+  return confirmationDeadline < scheduledAt ? confirmationDeadline : scheduledAt;
+}
+
+async function notifyVoucherIssued(payment: Payment) {
+  const patient = await prisma.user.findUniqueOrThrow({
+    where: { id: payment.userId },
+    select: { id: true, locale: true, timezone: true },
+  });
+  const locale = isNotificationLocale(patient.locale)
+    ? patient.locale
+    : DEFAULT_NOTIFICATION_LOCALE;
+
+  const instructions = payment.voucherClabe
+    ? `CLABE: ${payment.voucherClabe}`
+    : payment.voucherReference
+      ? `Referencia: ${payment.voucherReference}`
+      : "";
+
+  await createTemplatedNotification({
+    userId: patient.id,
+    type: "EMAIL",
+    template: "payment.voucher_issued",
+    locale,
+    variables: {
+      amount: formatMexicanCurrency(payment.amount),
+      method: payment.method,
+      instructions,
+      ...formatTemplateDateTime(payment.voucherExpiresAt!, patient.timezone, locale),
+    },
+    metadata: { paymentId: payment.id, appointmentId: payment.appointmentId },
+  });
+}
+
+/**
+ * Store the voucher MercadoPago issued for a pending payment and keep the
+ * appointment's slot held until it can no longer be paid. MercadoPago sends
+ * the pending notification more than once; the patient is only told about
+ * the voucher the first time.
+ */
+export async function registerPaymentVoucher(
+  paymentId: string,
+  method: PaymentMethod,
+  voucher: PaymentVoucher
+): Promise<Payment> {
+  const { payment, isNew } = await prisma.$transaction(async (tx) => {
+    const current = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      select: {
+        voucherExpiresAt: true,
+        appointment: { select: { id: true, scheduledAt: true } },
+      },
+    });
+
+    const payment = await tx.payment.update({
+      where: { id: paymentId },
+      data: {
+        method,
+        voucherReference: voucher.reference,
+        voucherClabe: voucher.clabe,
+        voucherUrl: voucher.url,
+        voucherExpiresAt: voucher.expiresAt,
+      },
+    });
+
+    if (current.appointment) {
+      await extendSlotHold(
+        tx,
+        current.appointment.id,
+        getVoucherHoldExpiration(voucher.expiresAt, current.appointment.scheduledAt)
+      );
+    }
+
+    return { payment, isNew: current.voucherExpiresAt === null };
+  });
+
+  if (isNew) {
+    try {
+      await notifyVoucherIssued(payment);
+    } catch (error) {
+      ErrorLogger.log(error as Error, {
+        context: "Payment voucher notification",
+        action: "registerPaymentVoucher - notifyVoucherIssued",
+        paymentId,
+      });
+    }
+  }
+
+  return payment;
+}
+
+async function notifyVoucherExpired(appointmentId: string) {
+  const appointment = await prisma.appointment.findUniqueOrThrow({
+    where: { id: appointmentId },
+    select: {
+      scheduledAt: true,
+      patient: { select: { id: true, locale: true, timezone: true } },
+      doctor: { select: { user: { select: { name: true } } } },
+    },
+  });
+  const { patient } = appointment;
+  const locale = isNotificationLocale(patient.locale)
+    ? patient.locale
+    : DEFAULT_NOTIFICATION_LOCALE;
+
+  await createTemplatedNotification({
+    userId: patient.id,
+    type: "EMAIL",
+    template: "payment.voucher_expired",
+    locale,
+    variables: {
+      doctorName: appointment.doctor.user.name,
+      ...formatTemplateDateTime(appointment.scheduledAt, patient.timezone, locale),
+    },
+    metadata: { appointmentId },
+  });
+}
+
+/**
+ * Fail a voucher payment that was not paid in time, cancel its appointment
+ * and free the slot for the doctor's waitlist. Returns false when the
+ * payment was no longer pending, e.g. because it was paid meanwhile.
+ */
+export async function expireVoucherPayment(
+  paymentId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const result = await prisma.$transaction(async (tx) => {
+    // Claimed with the status check so the job and the webhook can't both expire it
+    const claimed = await tx.payment.updateMany({
+      where: { id: paymentId, status: "PENDING", voucherExpiresAt: { not: null } },
+      data: { status: "FAILED", failureReason: VOUCHER_EXPIRED_REASON },
+    });
+    if (claimed.count === 0) return null;
+
+    const { appointment } = await tx.payment.findUniqueOrThrow({
+      where: { id: paymentId },
+      select: {
+        appointment: {
+          select: { id: true, doctorId: true, type: true, scheduledAt: true, duration: true },
+        },
+      },
+    });
+    if (!appointment) return { cancelled: null };
+
+    const { count } = await tx.appointment.updateMany({
+      where: { id: appointment.id, status: "PENDING" },
+      data: {
+        status: "CANCELLED",
+        cancellationReason: VOUCHER_EXPIRED_REASON,
+        cancelledAt: now,
+      },
+    });
+    if (count === 0) return { cancelled: null };
+
+    await releaseSlotHold(appointment.id, VOUCHER_EXPIRED_REASON, tx);
+    return { cancelled: appointment };
+  });
+
+  if (!result) return false;
+
+  const { cancelled } = result;
+  if (cancelled) {
+    try {
+      await offerFreedSlot(
+        {
+          doctorId: cancelled.doctorId,
+          type: cancelled.type,
+          startsAt: cancelled.scheduledAt,
+          duration: cancelled.duration,
+        },
+        now
+      );
+    } catch (error) {
+      ErrorLogger.log(error as Error, {
+        context: "Waitlist offer after voucher expiry",
+        action: "expireVoucherPayment - offerFreedSlot",
+        appointmentId: cancelled.id,
+      });
+    }
+
+    try {
+      await notifyVoucherExpired(cancelled.id);
+    } catch (error) {
+      ErrorLogger.log(error as Error, {
+        context: "Voucher expiry notification",
+        action: "expireVoucherPayment - notifyVoucherExpired",
+        appointmentId: cancelled.id,
+      });
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Expire the vouchers whose payment can no longer be confirmed. Meant to be
+ * run periodically.
+ */
+export async function expireUnpaidVouchers(now: Date = new Date()): Promise<{
+  checked: number;
+  expired: number;
+}> {
+  const payments = await prisma.payment.findMany({
+    where: {
+      status: "PENDING",
+      voucherExpiresAt: {
+        lte: addMinutes(now, -VOUCHER_CONFIRMATION_GRACE_MINUTES),
+      },
+    },
+    select: { id: true },
+  });
+
+  const summary = { checked: payments.length, expired: 0 };
+
+  for (const payment of payments) {
+    try {
+      if (await expireVoucherPayment(payment.id, now)) {
+        summary.expired++;
+      }
+    } catch (error) {
+      ErrorLogger.log(error as Error, {
+        context: "Voucher expiry",
+        action: "expireUnpaidVouchers",
+        paymentId: payment.id,
+      });
+    }
+  }
+
+  return summary;
+}
@@ -4,6 +4,7 @@ import {
   PaymentRequest,
   PaymentResult,
   PaymentStatus,
+  RefundResult,
 } from "./types";
 
 export abstract class BasePaymentProvider {
@@ -14,6 +15,16 @@ export abstract class BasePaymentProvider {
   abstract capturePayment(paymentId: string): Promise<PaymentResult>;
   abstract getPaymentStatus(paymentId: string): Promise<PaymentStatus | null>;
   abstract processWebhook(payload: any, signature?: string): Promise<boolean>;
+  /**
+   * Refunds a captured payment. `paymentId` is the provider-side charge
+   * reference (Stripe payment intent, PayPal capture, MercadoPago payment)
+   * and `amount` is expressed in cents, allowing partial refunds.
+   */
+  abstract refundPayment(
+    paymentId: string,
+    amount: number,
+    reason: string
+  ): Promise<RefundResult>;
 
   protected normalizeError(error: any, operation: string): PaymentError {
     const baseError: PaymentError = {
@@ -5,6 +5,7 @@ import {
   PaymentRequest,
   PaymentResult,
   PaymentStatus,
+  RefundResult,
 } from "./types";
 
 export class PaymentService {
@@ -202,4 +203,38 @@ export class PaymentService {
       return false;
     }
   }
+
+  async refundPayment(
+    providerId: PaymentProviderType,
+    paymentId: string,
+    amount: number,
+    reason: string
+  ): Promise<RefundResult> {
+    const provider = this.getProvider(providerId);
+    if (!provider) {
+      return {
+        success: false,
+        refundId: "",
+        amount,
+        status: "failed",
+        error: `Provider ${providerId} not found or not configured`,
+        provider: providerId,
+      };
+    }
+
+    try {
+      return await provider.refundPayment(paymentId, amount, reason);
+    } catch (error) {
+      console.error(`Refund failed for provider ${providerId}:`, error);
+      return {
+        success: false,
+        refundId: "",
+        amount,
+        status: "failed",
+        error:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        provider: providerId,
+      };
+    }
+  }
 }
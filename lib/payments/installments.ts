@@ -0,0 +1,125 @@
+import { z } from "zod";
+import { InstallmentPlan, PaymentProviderType } from "./types";
+
+// Installment plans offered at checkout. Interest-free plans (meses sin
+// intereses) are paid for by the doctor through a fee the provider charges on
+// the payment, so doctors opt into them with a minimum consultation price.
+// Interest-bearing plans are financed by the patient's bank and cost the
+// doctor nothing.
+
+interface InstallmentTerm {
+  months: number;
+  interestFree: boolean;
+  feeRate: number; // Share of the amount the provider charges for the plan
+}
+
+const INSTALLMENT_TERMS: Record<PaymentProviderType, InstallmentTerm[]> = {
+  stripe: [],
+  paypal: [],
+  mercadopago: [
+    { months: 3, interestFree: true, feeRate: 0.0499 },
+    { months: 6, interestFree: true, feeRate: 0.0749 },
+    { months: 9, interestFree: true, feeRate: 0.0999 },
+    { months: 12, interestFree: true, feeRate: 0.1249 },
+    { months: 18, interestFree: false, feeRate: 0 },
+    { months: 24, interestFree: false, feeRate: 0 },
+  ],
+};
+
+// Card issuers don't split payments into monthly charges below this amount
+export const MIN_MONTHLY_INSTALLMENT = 10000;
+
+export class InstallmentPlanError extends Error {
+  constructor(
+    message: string = "El plan de meses seleccionado no está disponible para esta consulta"
+  ) {
+    super(message);
+    this.name = "InstallmentPlanError";
+  }
+}
+
+export const installmentSettingsSchema = z.object({
+  installmentMinAmount: z
+    .number()
+    .int()
+    .min(MIN_MONTHLY_INSTALLMENT * 3, "El monto mínimo debe ser de al menos $300")
+    .nullable(),
+});
+
+export interface InstallmentRecord {
+  installmentMonths: number | null;
+  installmentInterestFree: boolean | null;
+  installmentFee: number | null;
+}
+
+/**
+ * Installment plans a patient can choose for a payment. Interest-free plans
+ * are only offered when the doctor opted into them and the amount reaches
+ * the doctor's minimum.
+ */
+export function getInstallmentPlans(
+  provider: PaymentProviderType,
+  amount: number,
+  doctorMinAmount: number | null
+): InstallmentPlan[] {
+  const acceptsInterestFree = doctorMinAmount !== null && amount >= doctorMinAmount;
+
+  return INSTALLMENT_TERMS[provider]
+    .filter((term) => amount / term.months >= MIN_MONTHLY_INSTALLMENT)
+    .filter((term) => !term.interestFree || acceptsInterestFree)
+    .map((term) => ({
+      months: term.months,
+      interestFree: term.interestFree,
+      monthlyAmount: term.interestFree ? Math.ceil(amount / term.months) : null,
+    }));
+}
+
+/**
+ * Validate the number of months a patient chose at checkout. Returns null
+ * for a single payment.
+ */
+export function resolveInstallmentPlan(
+  provider: PaymentProviderType,
+  amount: number,
+  doctorMinAmount: number | null,
+  months: number | null | undefined
+): InstallmentPlan | null {
+  if (!months || months === 1) return null;
+
+  const plan = getInstallmentPlans(provider, amount, doctorMinAmount).find(
+    (option) => option.months === months
+  );
+  if (!plan) {
+    throw new InstallmentPlanError();
+  }
+
+  return plan;
+}
+
+/**
+ * Installment fields stored on a Payment for reconciliation. The number of
+ * months is the one the payment was actually made with, which the patient can
+ * still lower at the provider's checkout.
+ */
+export function getInstallmentRecord(
+  provider: PaymentProviderType,
+  amount: number,
+  months: number | null | undefined
+): InstallmentRecord {
+  if (!months || months === 1) {
+    return {
+      installmentMonths: null,
+      installmentInterestFree: null,
+      installmentFee: null,
+    };
+  }
+
+  const term = INSTALLMENT_TERMS[provider].find((option) => option.months === months);
+  const interestFree = term?.interestFree ?? false;
+
+  return {
+    installmentMonths: months,
+    installmentInterestFree: interestFree,
+    installmentFee: interestFree ? Math.round(amount * term!.feeRate) : 0,
+  };
+}
@@ -5,6 +5,7 @@ import {
   PaymentRequest,
   PaymentResult,
   PaymentStatus,
+  RefundResult,
 } from "../types";
 import { MercadoPagoClient, MercadoPagoError } from "./MercadoPagoClient";
 import {
@@ -237,6 +238,71 @@ export class MercadoPagoProvider extends BasePaymentProvider {
     }
   }
 
+  async refundPayment(
+    paymentId: string,
+    amount: number,
+    reason: string
+  ): Promise<RefundResult> {
+    try {
+      this.log("info", "Refunding MercadoPago payment", {
+        paymentId,
+        amount,
+        reason,
+      });
+
+      const refund = await this.client.makeRequest(
+        `/v1/payments/${paymentId}/refunds`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            amount: amount / 100, // Convert from cents to currency units
+          }),
+        }
+      );
+
+      this.log("info", "MercadoPago refund created successfully", {
+        refundId: refund.id,
+        status: refund.status,
+      });
+
+      return {
+        success: refund.status !== "rejected" && refund.status !== "cancelled",
+        refundId: refund.id?.toString() || "",
+        amount: Math.round((refund.amount ?? amount / 100) * 100), // Convert to cents
+        status:
+          refund.status === "approved"
+            ? "completed"
+            : refund.status === "rejected" || refund.status === "cancelled"
+              ? "failed"
+              : "pending",
+        provider: this.providerId,
+        metadata: {
+          paymentId,
+          mercadopagoRefundStatus: refund.status,
+        },
+      };
+    } catch (error) {
+      this.log("error", "MercadoPago refund failed", {
+        paymentId,
+        error: error instanceof Error ? error.message : error,
+      });
+
+      return {
+        success: false,
+        refundId: "",
+        amount,
+        status: "failed",
+        error:
+          error instanceof MercadoPagoError
+            ? MercadoPagoUtils.normalizeError(error.details).message
+            : error instanceof Error
+              ? error.message
+              : "Unknown MercadoPago refund error",
+        provider: this.providerId,
+      };
+    }
+  }
+
   private async handlePaymentWebhook(payload: any) {
     const paymentId = payload.data?.id;
 
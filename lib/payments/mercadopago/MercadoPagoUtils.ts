@@ -16,7 +16,8 @@ export interface MercadoPagoPreferenceRequest {
   payment_methods: {
     excluded_payment_methods: Array<{ id: string }>;
     excluded_payment_types: Array<{ id: string }>;
-    installments: number;
+    installments: number; // Most installments the patient can choose
+    default_installments?: number;
   };
   back_urls: {
     success: string;
@@ -26,6 +27,7 @@ export interface MercadoPagoPreferenceRequest {
   auto_return: "approved" | "all";
   external_reference: string;
   notification_url?: string;
+  date_of_expiration?: string; // Expiry of OXXO and SPEI vouchers
   metadata?: Record<string, any>;
 }
 
@@ -64,9 +66,18 @@ export interface MercadoPagoPayment {
   payment_method_id: string;
   payment_type_id: string;
   transaction_amount: number;
+  installments?: number;
   currency_id: string;
   date_created: string;
   date_approved?: string;
+  date_of_expiration?: string;
+  barcode?: {
+    content: string;
+  };
+  transaction_details?: {
+    external_resource_url?: string; // Printable voucher hosted by MercadoPago
+    payment_method_reference_id?: string; // OXXO reference or SPEI CLABE
+  };
   payer: {
     id: string;
     email: string;
@@ -77,10 +88,24 @@ export interface MercadoPagoPayment {
   };
 }
 
+// Payment types paid later with a voucher instead of at checkout
+const VOUCHER_PAYMENT_TYPES = ["ticket", "bank_transfer"];
+
+export interface MercadoPagoVoucher {
+  reference: string | null;
+  clabe: string | null;
+  url: string | null;
+  expiresAt: string | null;
+}
+
 export class MercadoPagoUtils {
   static createPreferenceRequest(
     request: PaymentRequest
   ): MercadoPagoPreferenceRequest {
+    // Only the plan chosen at checkout, so patients aren't offered
+    // interest-free months the doctor doesn't accept
+    const installments: number = request.metadata?.installments?.months || 1;
+
     return {
       items: [
         {
@@ -98,16 +123,20 @@ export class MercadoPagoUtils {
       },
       payment_methods: {
         excluded_payment_methods: [], // Allow all payment methods
-        excluded_payment_types: [], // Allow all payment types
-        installments: 12, // Allow up to 12 installments
+        excluded_payment_types: request.excludeVouchers
+          ? VOUCHER_PAYMENT_TYPES.map((id) => ({ id }))
+          : [],
+        installments,
+        default_installments: installments,
       },
       back_urls: {
         success: request.returnUrl,
         failure: request.cancelUrl,
-        pending: request.returnUrl, // Use return URL for pending payments
+        pending: request.pendingUrl || request.returnUrl,
       },
       auto_return: "approved",
       external_reference: request.appointmentId,
+      date_of_expiration: request.voucherExpiresAt?.toISOString(),
       metadata: request.metadata,
     };
   }
@@ -179,11 +208,36 @@ export class MercadoPagoUtils {
         paymentMethodId: payment.payment_method_id,
         paymentTypeId: payment.payment_type_id,
         statusDetail: payment.status_detail,
+        installments: payment.installments ?? 1,
         externalReference: payment.external_reference,
+        voucher: this.getVoucher(payment),
       },
     };
   }
 
+  /**
+   * What the patient needs to pay an OXXO or SPEI voucher, or null for
+   * payments made at checkout
+   */
+  static getVoucher(payment: MercadoPagoPayment): MercadoPagoVoucher | null {
+    if (!VOUCHER_PAYMENT_TYPES.includes(payment.payment_type_id)) {
+      return null;
+    }
+
+    const reference =
+      payment.transaction_details?.payment_method_reference_id ?? null;
+    const isBankTransfer = payment.payment_type_id === "bank_transfer";
+
+    return {
+      reference: isBankTransfer
+        ? null
+        : reference ?? payment.barcode?.content ?? null,
+      clabe: isBankTransfer ? reference : null,
+      url: payment.transaction_details?.external_resource_url ?? null,
+      expiresAt: payment.date_of_expiration ?? null,
+    };
+  }
+
   static getMexicanPaymentMethods() {
     return {
       // Credit and Debit Cards
@@ -120,6 +120,8 @@ export class PaymentMonitoring {
         createdAt: {
           lt: timeoutThreshold,
         },
+        // Vouchers can be paid for days and expire on their own schedule
+        voucherExpiresAt: null,
       },
     });
 
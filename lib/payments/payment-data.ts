@@ -0,0 +1,16 @@
+import { Prisma } from "@prisma/client";
+
+/**
+ * Provider details stored in Payment.paymentData, which is free-form JSON.
+ * Anything that isn't an object reads as empty, so callers can spread the
+ * result to record more details.
+ */
+export function getPaymentData(payment: {
+  paymentData: Prisma.JsonValue;
+}): Prisma.JsonObject {
+  const { paymentData } = payment;
+
+  return paymentData && typeof paymentData === "object" && !Array.isArray(paymentData)
+    ? paymentData
+    : {};
+}
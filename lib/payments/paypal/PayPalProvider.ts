@@ -5,6 +5,7 @@ import {
   PaymentRequest,
   PaymentResult,
   PaymentStatus,
+  RefundResult,
 } from "../types";
 import { PayPalClient, PayPalError } from "./PayPalClient";
 import { PayPalOrder, PayPalUtils } from "./PayPalUtils";
@@ -209,6 +210,72 @@ export class PayPalProvider extends BasePaymentProvider {
     }
   }
 
+  async refundPayment(
+    paymentId: string,
+    amount: number,
+    reason: string
+  ): Promise<RefundResult> {
+    // PayPal refunds are issued against the capture, not the order
+    try {
+      this.log("info", "Refunding PayPal capture", { paymentId, amount });
+
+      const refund = await this.client.makeRequest(
+        `/v2/payments/captures/${paymentId}/refund`,
+        {
+          method: "POST",
+          body: JSON.stringify({
+            amount: {
+              value: (amount / 100).toFixed(2), // Convert from cents to currency units
+              currency_code: "MXN",
+            },
+            note_to_payer: reason,
+          }),
+        }
+      );
+
+      this.log("info", "PayPal refund created successfully", {
+        refundId: refund.id,
+        status: refund.status,
+      });
+
+      return {
+        success: refund.status !== "CANCELLED" && refund.status !== "FAILED",
+        refundId: refund.id,
+        amount,
+        status:
+          refund.status === "COMPLETED"
+            ? "completed"
+            : refund.status === "CANCELLED" || refund.status === "FAILED"
+              ? "failed"
+              : "pending",
+        provider: this.providerId,
+        metadata: {
+          captureId: paymentId,
+          paypalRefundStatus: refund.status,
+        },
+      };
+    } catch (error) {
+      this.log("error", "PayPal refund failed", {
+        paymentId,
+        error: error instanceof Error ? error.message : error,
+      });
+
+      return {
+        success: false,
+        refundId: "",
+        amount,
+        status: "failed",
+        error:
+          error instanceof PayPalError
+            ? PayPalUtils.normalizePayPalError(error.details).message
+            : error instanceof Error
+              ? error.message
+              : "Unknown PayPal refund error",
+        provider: this.providerId,
+      };
+    }
+  }
+
   private async handleOrderApproved(payload: any) {
     const orderId = payload.resource?.id;
     if (orderId) {
@@ -12,6 +12,7 @@ import {
   PaymentRequest,
   PaymentResult,
   PaymentStatus,
+  RefundResult,
 } from "../types";
 
 export class StripeProvider extends BasePaymentProvider {
@@ -299,6 +300,66 @@ export class StripeProvider extends BasePaymentProvider {
     }
   }
 
+  async refundPayment(
+    paymentId: string,
+    amount: number,
+    reason: string
+  ): Promise<RefundResult> {
+    try {
+      this.log("info", "Creating Stripe refund", { paymentId, amount });
+
+      const refund = await stripe.refunds.create({
+        payment_intent: paymentId,
+        amount,
+        reason: "requested_by_customer",
+        metadata: {
+          refund_reason: reason,
+        },
+      });
+
+      this.log("info", "Stripe refund created successfully", {
+        refundId: refund.id,
+        status: refund.status,
+      });
+
+      return {
+        success: refund.status !== "failed" && refund.status !== "canceled",
+        refundId: refund.id,
+        amount: refund.amount,
+        status:
+          refund.status === "succeeded"
+            ? "completed"
+            : refund.status === "failed" || refund.status === "canceled"
+              ? "failed"
+              : "pending",
+        provider: this.providerId,
+        metadata: {
+          paymentIntentId: paymentId,
+          stripeRefundStatus: refund.status,
+        },
+      };
+    } catch (error) {
+      this.log("error", "Stripe refund failed", {
+        paymentId,
+        error: error instanceof Error ? error.message : error,
+      });
+
+      return {
+        success: false,
+        refundId: "",
+        amount,
+        status: "failed",
+        error:
+          error instanceof Stripe.errors.StripeError
+            ? this.normalizeStripeError(error).message
+            : error instanceof Error
+              ? error.message
+              : "Unknown Stripe refund error",
+        provider: this.providerId,
+      };
+    }
+  }
+
   private async handleSessionCompleted(session: Stripe.Checkout.Session) {
     this.log("info", "Stripe session completed", { sessionId: session.id });
     // The calling service will handle updating the database
@@ -22,7 +22,16 @@ export interface PaymentRequest {
   patientName: string;
   returnUrl: string;
   cancelUrl: string;
-  metadata?: Record<string, any>;
+  pendingUrl?: string; // Where patients land after generating a voucher
+  voucherExpiresAt?: Date; // Deadline to pay cash and bank transfer vouchers
+  excludeVouchers?: boolean; // Offer only methods that are confirmed right away
+  metadata?: Record<string, any>; // metadata.installments holds the chosen InstallmentPlan
+}
+
+export interface InstallmentPlan {
+  months: number;
+  interestFree: boolean;
+  monthlyAmount: number | null; // Unknown when the patient's bank charges interest
 }
 
 export interface PaymentResult {
@@ -45,6 +54,16 @@ export interface PaymentStatus {
   metadata?: Record<string, any>;
 }
 
+export interface RefundResult {
+  success: boolean;
+  refundId: string;
+  amount: number;
+  status: "pending" | "completed" | "failed";
+  provider: PaymentProviderType;
+  error?: string;
+  metadata?: Record<string, any>;
+}
+
 export interface ProviderConfig {
   stripe: {
     publicKey: string;
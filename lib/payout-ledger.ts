@@ -0,0 +1,611 @@
+import { prisma } from "@/lib/db";
+import { validateCLABE } from "@/lib/mexican-utils";
+import { calculateWithholding } from "@/lib/tax-withholding";
+import {
+  addCalendarDays,
+  DEFAULT_TIME_ZONE,
+  getZonedParts,
+  startOfZonedDay,
+  toCalendarDay,
+} from "@/lib/timezones";
+import {
+  LedgerAccount,
+  LedgerTransactionType,
+  PayoutSettlement,
+  Prisma,
+} from "@prisma/client";
+import { z } from "zod";
+
+// Doctor payouts. Every payment is split between the doctor and the platform
+// in a double-entry ledger, refunds reverse that split proportionally, and
+// once a week what each doctor is owed is settled to their CLABE, less the
+// taxes withheld from it.
+
+type DbClient = Prisma.TransactionClient;
+
+// Share of each payment the platform keeps unless the doctor has their own rate
+export const DEFAULT_COMMISSION_RATE = 0.15;
+
+export class PayoutLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayoutLedgerError";
+  }
+}
+
+export const payoutAccountSchema = z.object({
+  clabe: z
+    .string()
+    .transform((value) => value.replace(/\s/g, ""))
+    .refine(validateCLABE, "CLABE inválida"),
+  accountHolder: z.string().trim().min(1, "El titular es requerido").max(120),
+});
+
+export const commissionRateSchema = z.object({
+  commissionRate: z.number().min(0).max(0.5).nullable(),
+});
+
+interface LedgerLine {
+  account: LedgerAccount;
+  amount: number; // debit positive, credit negative
+  doctorId?: string;
+  settlementId?: string;
+}
+
+export interface PaymentSplit {
+  doctorAmount: number;
+  platformAmount: number;
+  installmentFee: number; // kept by the provider, paid by the doctor
+}
+
+/**
+ * Split a payment between the doctor and the platform. The fee for
+ * interest-free months comes out of the doctor's share.
+ */
+export function splitPayment(
+  amount: number,
+  commissionRate: number,
+  installmentFee: number = 0
+): PaymentSplit {
+  const platformAmount = Math.round(amount * commissionRate);
+
+  return {
+    doctorAmount: amount - platformAmount - installmentFee,
+    platformAmount,
+    installmentFee,
+  };
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002"
+  );
+}
+
+async function postTransaction(
+  client: DbClient,
+  data: {
+    type: LedgerTransactionType;
+    idempotencyKey: string;
+    description: string;
+    paymentId?: string;
+    settlementId?: string;
+    lines: LedgerLine[];
+  }
+) {
+  const total = data.lines.reduce((sum, line) => sum + line.amount, 0);
+  if (total !== 0) {
+    throw new Error(`Unbalanced ledger transaction ${data.idempotencyKey}: ${total}`);
+  }
+
+  const { lines, ...transaction } = data;
+  return client.ledgerTransaction.create({
+    data: {
+      ...transaction,
+      entries: { create: lines.filter((line) => line.amount !== 0) },
+    },
+    include: { entries: true },
+  });
+}
+
+/**
+ * Split a completed payment between the doctor and the platform. Safe to call
+ * more than once for the same payment: the split is only recorded the first
+ * time.
+ */
+export async function recordPaymentSplit(
+  paymentId: string,
+  client: DbClient = prisma
+) {
+  const idempotencyKey = `split:${paymentId}`;
+  const existing = await client.ledgerTransaction.findUnique({
+    where: { idempotencyKey },
+    include: { entries: true },
+  });
+  if (existing) return existing;
+
+  const payment = await client.payment.findUniqueOrThrow({
+    where: { id: paymentId },
+    select: {
+      amount: true,
+      status: true,
+      installmentFee: true,
+      appointment: {
+        select: { doctorId: true, doctor: { select: { commissionRate: true } } },
+      },
+    },
+  });
+
+  if (payment.status !== "COMPLETED") {
+    throw new PayoutLedgerError("Solo se pueden repartir pagos completados");
+  }
+  if (!payment.appointment) {
+    throw new PayoutLedgerError("El pago no corresponde a una cita");
+  }
+
+  const { doctorId } = payment.appointment;
+  const commissionRate =
+    payment.appointment.doctor.commissionRate ?? DEFAULT_COMMISSION_RATE;
+  const split = splitPayment(payment.amount, commissionRate, payment.installmentFee ?? 0);
+
+  let transaction;
+  try {
+    transaction = await postTransaction(client, {
+      type: "PAYMENT_SPLIT",
+      idempotencyKey,
+      description: "Pago de consulta",
+      paymentId,
+      lines: [
+        { account: "PROVIDER_BALANCE", amount: payment.amount - split.installmentFee },
+        { account: "DOCTOR_PAYABLE", amount: -split.doctorAmount, doctorId },
+        { account: "PLATFORM_REVENUE", amount: -split.platformAmount },
+      ],
+    });
+  } catch (error) {
+    // Another webhook delivery recorded the split first
+    if (isUniqueViolation(error)) {
+      return client.ledgerTransaction.findUniqueOrThrow({
+        where: { idempotencyKey },
+        include: { entries: true },
+      });
+    }
+    throw error;
+  }
+
+  // Summary of the split for the admin dashboards
+  const distribution = await client.paymentDistribution.findFirst({
+    where: { paymentId },
+  });
+  if (!distribution) {
+    await client.paymentDistribution.create({
+      data: {
+        paymentId,
+        doctorId,
+        doctorAmount: split.doctorAmount,
+        adminAmount: split.platformAmount,
+        doctorPercentage: 1 - commissionRate,
+        adminPercentage: commissionRate,
+        status: "PENDING",
+      },
+    });
+  }
+
+  return transaction;
+}
+
+/**
+ * Reverse the split of a payment for a refund, in proportion to the share of
+ * the payment refunded so far. `refundedTotal` includes the refund being
+ * recorded. The provider returns its installment fee in the same proportion.
+ * Returns null for payments completed before the ledger existed.
+ */
+export async function recordRefundReversal(
+  paymentId: string,
+  refundedTotal: number,
+  client: DbClient = prisma
+) {
+  const payment = await client.payment.findUniqueOrThrow({
+    where: { id: paymentId },
+    select: {
+      amount: true,
+      ledgerTransactions: {
+        where: { type: { in: ["PAYMENT_SPLIT", "REFUND_REVERSAL"] } },
+        include: { entries: true },
+      },
+    },
+  });
+
+  const split = payment.ledgerTransactions.find(
+    (transaction) => transaction.type === "PAYMENT_SPLIT"
+  );
+  if (!split) return null;
+
+  const idempotencyKey = `refund:${paymentId}:${refundedTotal}`;
+  const existing = payment.ledgerTransactions.find(
+    (transaction) => transaction.idempotencyKey === idempotencyKey
+  );
+  if (existing) return existing;
+
+  const share = Math.min(refundedTotal, payment.amount) / payment.amount;
+  const reversed = (account: LedgerAccount) =>
+    payment.ledgerTransactions
+      .filter((transaction) => transaction.type === "REFUND_REVERSAL")
+      .flatMap((transaction) => transaction.entries)
+      .filter((entry) => entry.account === account)
+      .reduce((sum, entry) => sum + entry.amount, 0);
+
+  const lines: LedgerLine[] = split.entries
+    .filter((entry) => entry.account !== "PROVIDER_BALANCE")
+    .map((entry) => ({
+      account: entry.account,
+      amount: Math.round(-entry.amount * share) - reversed(entry.account),
+      ...(entry.doctorId ? { doctorId: entry.doctorId } : {}),
+    }));
+  lines.push({
+    account: "PROVIDER_BALANCE",
+    amount: -lines.reduce((sum, line) => sum + line.amount, 0),
+  });
+
+  const transaction = await postTransaction(client, {
+    type: "REFUND_REVERSAL",
+    idempotencyKey,
+    description: share === 1 ? "Reembolso total" : "Reembolso parcial",
+    paymentId,
+    lines,
+  });
+
+  if (share === 1) {
+    await client.paymentDistribution.updateMany({
+      where: { paymentId },
+      data: { status: "REFUNDED" },
+    });
+  }
+
+  return transaction;
+}
+
+/**
+ * Week that was last closed for settlement: Monday to Monday in Mexico City
+ */
+export function getSettlementPeriod(now: Date = new Date()): {
+  periodStart: Date;
+  periodEnd: Date;
+} {
+  const today = toCalendarDay(now, DEFAULT_TIME_ZONE);
+  const monday = addCalendarDays(today, -((today.getUTCDay() + 6) % 7));
+
+  return {
+    periodStart: startOfZonedDay(addCalendarDays(monday, -7), DEFAULT_TIME_ZONE),
+    periodEnd: startOfZonedDay(monday, DEFAULT_TIME_ZONE),
+  };
+}
+
+const unsettledEntries = (doctorId: string, before: Date) => ({
+  doctorId,
+  account: "DOCTOR_PAYABLE" as const,
+  settlementId: null,
+  createdAt: { lt: before },
+});
+
+/**
+ * Settle what a doctor was owed at the end of a week, withholding taxes
+ * according to their fiscal regime. Returns null when the doctor has no
+ * CLABE or isn't owed anything.
+ */
+async function createSettlement(
+  doctorId: string,
+  periodStart: Date,
+  periodEnd: Date
+): Promise<PayoutSettlement | null> {
+  return prisma.$transaction(async (tx) => {
+    const doctor = await tx.doctor.findUniqueOrThrow({
+      where: { id: doctorId },
+      select: {
+        payoutClabe: true,
+        payoutAccountHolder: true,
+        ivaExempt: true,
+        user: { select: { fiscalProfile: { select: { rfc: true, taxRegime: true } } } },
+      },
+    });
+    if (!doctor.payoutClabe) return null;
+
+    // Only entries from before the period end, which can no longer change
+    const { _sum } = await tx.ledgerEntry.aggregate({
+      where: unsettledEntries(doctorId, periodEnd),
+      _sum: { amount: true },
+    });
+    const amount = -(_sum.amount ?? 0);
+    if (amount <= 0) return null;
+
+    const profile = doctor.user.fiscalProfile;
+    const withholding = calculateWithholding(amount, profile, doctor.ivaExempt);
+
+    const settlement = await tx.payoutSettlement.create({
+      data: {
+        doctorId,
+        periodStart,
+        periodEnd,
+        amount: withholding.netAmount,
+        isrWithheld: withholding.isrWithheld,
+        ivaWithheld: withholding.ivaWithheld,
+        rfc: profile?.rfc ?? null,
+        taxRegime: profile?.taxRegime ?? null,
+        clabe: doctor.payoutClabe,
+        accountHolder: doctor.payoutAccountHolder,
+      },
+    });
+
+    await tx.ledgerEntry.updateMany({
+      where: unsettledEntries(doctorId, periodEnd),
+      data: { settlementId: settlement.id },
+    });
+
+    return settlement;
+  });
+}
+
+/**
+ * Create the settlements of the last closed week for every doctor who is owed
+ * money. Doctors with a negative balance, e.g. after refunds, carry it over
+ * to the next week. Safe to run more than once a week.
+ */
+export async function createWeeklySettlements(now: Date = new Date()): Promise<{
+  created: number;
+  missingClabe: number;
+  amount: number;
+}> {
+  const { periodStart, periodEnd } = getSettlementPeriod(now);
+  const balances = await prisma.ledgerEntry.groupBy({
+    by: ["doctorId"],
+    where: { account: "DOCTOR_PAYABLE", settlementId: null, createdAt: { lt: periodEnd } },
+    _sum: { amount: true },
+  });
+
+  const summary = { created: 0, missingClabe: 0, amount: 0 };
+
+  for (const balance of balances) {
+    if (!balance.doctorId || -(balance._sum.amount ?? 0) <= 0) continue;
+
+    try {
+      const settlement = await createSettlement(balance.doctorId, periodStart, periodEnd);
+      if (settlement) {
+        summary.created++;
+        summary.amount += settlement.amount;
+      } else {
+        summary.missingClabe++;
+      }
+    } catch (error) {
+      // Already settled by a concurrent run
+      if (!isUniqueViolation(error)) throw error;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Record that the transfer of a settlement reached the doctor's CLABE. The
+ * taxes withheld from it stay with the platform until they're paid to the SAT.
+ */
+export async function markSettlementPaid(
+  settlementId: string,
+  trackingKey: string,
+  now: Date = new Date()
+): Promise<PayoutSettlement> {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.payoutSettlement.updateMany({
+      where: { id: settlementId, status: "PENDING" },
+      data: { status: "PAID", trackingKey, paidAt: now },
+    });
+    if (claimed.count === 0) {
+      throw new PayoutLedgerError("La liquidación ya fue procesada");
+    }
+
+    const settlement = await tx.payoutSettlement.findUniqueOrThrow({
+      where: { id: settlementId },
+    });
+
+    const withheld = settlement.isrWithheld + settlement.ivaWithheld;
+    await postTransaction(tx, {
+      type: "PAYOUT",
+      idempotencyKey: `payout:${settlementId}`,
+      description: `Transferencia SPEI ${trackingKey}`,
+      settlementId,
+      lines: [
+        {
+          account: "DOCTOR_PAYABLE",
+          amount: settlement.amount + withheld,
+          doctorId: settlement.doctorId,
+          settlementId,
+        },
+        { account: "PROVIDER_BALANCE", amount: -settlement.amount },
+        { account: "TAX_WITHHELD", amount: -withheld },
+      ],
+    });
+
+    const splits = await tx.ledgerTransaction.findMany({
+      where: { type: "PAYMENT_SPLIT", entries: { some: { settlementId } } },
+      select: { paymentId: true },
+    });
+    await tx.paymentDistribution.updateMany({
+      where: {
+        paymentId: { in: splits.map((split) => split.paymentId!) },
+        status: "PENDING",
+      },
+      data: { status: "COMPLETED", distributedAt: now },
+    });
+
+    return settlement;
+  });
+}
+
+/**
+ * Record a transfer that was rejected, e.g. because of a closed account. Its
+ * entries go back to the doctor's balance and are settled the next week.
+ */
+export async function markSettlementFailed(
+  settlementId: string,
+  reason: string
+): Promise<PayoutSettlement> {
+  return prisma.$transaction(async (tx) => {
+    const claimed = await tx.payoutSettlement.updateMany({
+      where: { id: settlementId, status: "PENDING" },
+      data: { status: "FAILED", failureReason: reason },
+    });
+    if (claimed.count === 0) {
+      throw new PayoutLedgerError("La liquidación ya fue procesada");
+    }
+
+    await tx.ledgerEntry.updateMany({
+      where: { settlementId },
+      data: { settlementId: null },
+    });
+
+    return tx.payoutSettlement.findUniqueOrThrow({ where: { id: settlementId } });
+  });
+}
+
+export interface PayoutReportLine {
+  id: string;
+  type: LedgerTransactionType;
+  description: string;
+  createdAt: Date;
+  grossAmount: number | null; // amount the patient paid
+  doctorAmount: number; // positive when it adds to what the doctor is owed
+  platformAmount: number;
+  withheldAmount: number; // taxes withheld from a payout
+  settlementId: string | null;
+  patientName: string | null;
+  scheduledAt: Date | null;
+}
+
+/**
+ * What a doctor earned, was refunded and was paid out in a date range, and
+ * what they're currently owed
+ */
+export async function getDoctorPayoutReport(
+  doctorId: string,
+  range: { from: Date; to: Date }
+) {
+  const [
+    transactions,
+    unsettled,
+    pendingSettlements,
+    paidSettlements,
+    withholdings,
+    settlements,
+  ] = await Promise.all([
+    prisma.ledgerTransaction.findMany({
+      where: {
+        createdAt: { gte: range.from, lte: range.to },
+        entries: { some: { doctorId } },
+      },
+      include: {
+        entries: true,
+        payment: {
+          select: {
+            amount: true,
+            appointment: {
+              select: { scheduledAt: true, patient: { select: { name: true } } },
+            },
+          },
+        },
+      },
+      orderBy: { createdAt: "desc" },
+    }),
+    prisma.ledgerEntry.aggregate({
+      where: { doctorId, account: "DOCTOR_PAYABLE", settlementId: null },
+      _sum: { amount: true },
+    }),
+    prisma.payoutSettlement.aggregate({
+      where: { doctorId, status: "PENDING" },
+      _sum: { amount: true },
+    }),
+    prisma.payoutSettlement.aggregate({
+      where: { doctorId, status: "PAID" },
+      _sum: { amount: true },
+    }),
+    prisma.payoutSettlement.aggregate({
+      where: { doctorId, status: "PAID", paidAt: { gte: range.from, lte: range.to } },
+      _sum: { isrWithheld: true, ivaWithheld: true },
+    }),
+    prisma.payoutSettlement.findMany({
+      where: { doctorId },
+      orderBy: { periodEnd: "desc" },
+      take: 12,
+    }),
+  ]);
+
+  const lines: PayoutReportLine[] = transactions.map((transaction) => {
+    const doctorEntry = transaction.entries.find(
+      (entry) => entry.account === "DOCTOR_PAYABLE" && entry.doctorId === doctorId
+    );
+    const platformEntry = transaction.entries.find(
+      (entry) => entry.account === "PLATFORM_REVENUE"
+    );
+    const withholdingEntry = transaction.entries.find(
+      (entry) => entry.account === "TAX_WITHHELD"
+    );
+
+    return {
+      id: transaction.id,
+      type: transaction.type,
+      description: transaction.description,
+      createdAt: transaction.createdAt,
+      grossAmount:
+        transaction.type === "PAYMENT_SPLIT" ? transaction.payment?.amount ?? null : null,
+      doctorAmount: -(doctorEntry?.amount ?? 0),
+      platformAmount: -(platformEntry?.amount ?? 0),
+      withheldAmount: -(withholdingEntry?.amount ?? 0),
+      settlementId: doctorEntry?.settlementId ?? null,
+      patientName: transaction.payment?.appointment?.patient.name ?? null,
+      scheduledAt: transaction.payment?.appointment?.scheduledAt ?? null,
+    };
+  });
+
+  const sum = (
+    type: LedgerTransactionType,
+    field: "doctorAmount" | "platformAmount" | "grossAmount" | "withheldAmount"
+  ) =>
+    lines
+      .filter((line) => line.type === type)
+      .reduce((total, line) => total + (line[field] ?? 0), 0);
+
+  const monthly = new Map<string, { earnings: number; transactions: number }>();
+  for (const line of lines) {
+    if (line.type === "PAYOUT") continue;
+    const { year, month } = getZonedParts(line.createdAt, DEFAULT_TIME_ZONE);
+    const key = `${year}-${String(month).padStart(2, "0")}`;
+    const current = monthly.get(key) ?? { earnings: 0, transactions: 0 };
+    monthly.set(key, {
+      earnings: current.earnings + line.doctorAmount,
+      transactions: current.transactions + (line.type === "PAYMENT_SPLIT" ? 1 : 0),
+    });
+  }
+
+  const grossAmount = sum("PAYMENT_SPLIT", "grossAmount");
+  const commissions = sum("PAYMENT_SPLIT", "platformAmount");
+  const earnings = sum("PAYMENT_SPLIT", "doctorAmount");
+
+  return {
+    summary: {
+      grossAmount,
+      commissions,
+      installmentFees: grossAmount - commissions - earnings,
+      earnings,
+      refunds: -sum("REFUND_REVERSAL", "doctorAmount"),
+      paidOut: -sum("PAYOUT", "doctorAmount") - sum("PAYOUT", "withheldAmount"),
+      isrWithheld: withholdings._sum.isrWithheld ?? 0,
+      ivaWithheld: withholdings._sum.ivaWithheld ?? 0,
+      payments: lines.filter((line) => line.type === "PAYMENT_SPLIT").length,
+    },
+    balance: {
+      unsettled: -(unsettled._sum.amount ?? 0),
+      inTransit: pendingSettlements._sum.amount ?? 0,
+      paidOut: paidSettlements._sum.amount ?? 0,
+    },
+    monthly: Array.from(monthly, ([month, totals]) => ({ month, ...totals })),
+    lines,
+    settlements,
+  };
+}
@@ -0,0 +1,206 @@
+import { deflateSync } from "zlib";
+
+// Minimal PDF 1.4 writer for server-side documents (prescriptions, receipts):
+// A4 pages with Helvetica text, lines and filled rectangles. Coordinates are
+// in points from the top left corner of the page. Text is WinAnsi encoded,
+// which covers Spanish; other characters are written as "?".
+
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: [number, number, number]; // RGB from 0 to 1
+  align?: "left" | "center" | "right";
+}
+
+// Average glyph width of Helvetica as a fraction of the font size, enough to
+// wrap and align text without the font metrics
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function encodeText(text: string): string {
+  let result = "";
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const byte = code <= 0xff ? char : "?";
+    result += byte === "\\" || byte === "(" || byte === ")" ? `\\${byte}` : byte;
+  }
+  return result;
+}
+
+/**
+ * Approximate width of a text in points
+ */
+export function measureText(text: string, size: number): number {
+  return text.length * size * AVERAGE_CHAR_WIDTH;
+}
+
+/**
+ * Split a text in lines that fit in `width` points, breaking at spaces
+ */
+export function wrapText(text: string, width: number, size: number): string[] {
+  const maxChars = Math.max(1, Math.floor(width / (size * AVERAGE_CHAR_WIDTH)));
+  const lines: string[] = [];
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (candidate.length <= maxChars) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (line.length > maxChars) {
+        lines.push(line.slice(0, maxChars));
+        line = line.slice(maxChars);
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(private readonly title: string) {
+    this.addPage();
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private get content(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, y: number, text: string, options: TextOptions = {}) {
+    const size = options.size ?? 10;
+    const [r, g, b] = options.color ?? [0, 0, 0];
+    const width = measureText(text, size);
+    const left =
+      options.align === "center"
+        ? x - width / 2
+        : options.align === "right"
+          ? x - width
+          : x;
+
+    this.content.push(
+      `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg`,
+      `BT /${options.bold ? "F2" : "F1"} ${formatNumber(size)} Tf ` +
+        `${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y - size)} Td ` +
+        `(${encodeText(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.content.push(
+      `0 0 0 RG ${formatNumber(width)} w`,
+      `${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ` +
+        `${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  rect(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    color: [number, number, number] = [0, 0, 0]
+  ) {
+    this.content.push(
+      `${color.map(formatNumber).join(" ")} rg`,
+      `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ` +
+        `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+
+    objects.push(Buffer.from("<< /Type /Catalog /Pages 2 0 R >>", "latin1"));
+    objects.push(
+      Buffer.from(
+        `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] ` +
+          `/Count ${pageIds.length} >>`,
+        "latin1"
+      )
+    );
+    for (const font of ["Helvetica", "Helvetica-Bold"]) {
+      objects.push(
+        Buffer.from(
+          `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`,
+          "latin1"
+        )
+      );
+    }
+
+    this.pages.forEach((operations, i) => {
+      const stream = deflateSync(Buffer.from(operations.join("\n"), "latin1"));
+      objects.push(
+        Buffer.from(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            "/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> " +
+            `/Contents ${pageIds[i] + 1} 0 R >>`,
+          "latin1"
+        )
+      );
+      objects.push(
+        Buffer.concat([
+          Buffer.from(
+            `<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`,
+            "latin1"
+          ),
+          stream,
+          Buffer.from("\nendstream", "latin1"),
+        ])
+      );
+    });
+
+    const infoId = objects.length + 1;
+    objects.push(
+      Buffer.from(
+        `<< /Title (${encodeText(this.title)}) /Producer (Medica Movil) >>`,
+        "latin1"
+      )
+    );
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    const offsets: number[] = [];
+    let length = chunks[0].length;
+    objects.forEach((object, i) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${i + 1} 0 obj\n`, "latin1"),
+        object,
+        Buffer.from("\nendobj\n", "latin1"),
+      ]);
+      offsets.push(length);
+      chunks.push(chunk);
+      length += chunk.length;
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map((offset) => `${offset.toString().padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>`,
+      "startxref",
+      `${length}`,
+      "%%EOF",
+    ];
+    chunks.push(Buffer.from(xref.join("\n") + "\n", "latin1"));
+
+    return Buffer.concat(chunks);
+  }
+}
@@ -0,0 +1,444 @@
+import { prisma } from "@/lib/db";
+import { formatMexicanDate } from "@/lib/mexican-utils";
+import { PAGE_WIDTH, PdfDocument, wrapText } from "@/lib/pdf-document";
+import { encodeQrCode } from "@/lib/qr-code";
+import { createSupabaseAdminClient } from "@/lib/supabase";
+import { Appointment, AppointmentStatus, Prisma } from "@prisma/client";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+
+// Electronic prescriptions: composed by the doctor during or after the
+// consultation, rendered to a PDF with a QR pointing to the public
+// verification page, and stored in the appointment's medical files.
+
+const STORAGE_BUCKET = "medical-files";
+
+// No 0/O or 1/I so codes can be typed from a printout
+const CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+const CODE_PATTERN = /^[2-9A-HJ-NP-Z]{4}-[2-9A-HJ-NP-Z]{4}-[2-9A-HJ-NP-Z]{4}$/;
+
+const ISSUABLE_STATUSES: AppointmentStatus[] = ["IN_CONSULTATION", "COMPLETED"];
+
+export const prescriptionItemSchema = z.object({
+  medication: z.string().trim().min(1).max(200),
+  dose: z.string().trim().min(1).max(100),
+  frequency: z.string().trim().min(1).max(100),
+  duration: z.string().trim().min(1).max(100),
+  instructions: z
+    .string()
+    .trim()
+    .max(500)
+    .transform((value) => value || null)
+    .nullish(),
+});
+
+export const prescriptionSchema = z.object({
+  items: z.array(prescriptionItemSchema).min(1).max(10),
+  diagnosis: z.string().trim().max(300).nullish(),
+  notes: z.string().trim().max(1000).nullish(),
+});
+
+export type PrescriptionInput = z.infer<typeof prescriptionSchema>;
+
+const prescriptionInclude = {
+  items: { orderBy: { position: "asc" as const } },
+  doctor: {
+    select: {
+      specialty: true,
+      user: { select: { name: true } },
+    },
+  },
+} as const;
+
+export type PrescriptionWithItems = Prisma.PrescriptionGetPayload<{
+  include: typeof prescriptionInclude;
+}>;
+
+/**
+ * Everything printed on a prescription
+ */
+export interface PrescriptionDocument {
+  verificationCode: string;
+  issuedAt: Date;
+  timeZone: string;
+  doctor: {
+    name: string;
+    specialty: string;
+    cedulaProfesional: string;
+    address: string | null;
+  };
+  patient: { name: string; age: number | null };
+  diagnosis: string | null;
+  notes: string | null;
+  items: Array<z.infer<typeof prescriptionItemSchema>>;
+}
+
+/**
+ * What a pharmacy sees when it verifies a code: who prescribed what and
+ * when, with the patient's name abbreviated
+ */
+export interface PrescriptionVerification {
+  verificationCode: string;
+  issuedAt: Date;
+  doctorName: string;
+  specialty: string;
+  cedulaProfesional: string;
+  patientName: string;
+  items: Array<{
+    medication: string;
+    dose: string;
+    frequency: string;
+    duration: string;
+  }>;
+}
+
+export class PrescriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrescriptionError";
+  }
+}
+
+export function generateVerificationCode(): string {
+  const characters = Array.from(randomBytes(12), (byte) => CODE_ALPHABET[byte & 31]);
+  return [0, 4, 8].map((i) => characters.slice(i, i + 4).join("")).join("-");
+}
+
+/**
+ * Normalize a code typed or scanned by a pharmacy, or null when it can't be
+ * a verification code
+ */
+export function normalizeVerificationCode(code: string): string | null {
+  const compact = code.toUpperCase().replace(/[^0-9A-Z]/g, "");
+  const normalized = compact.replace(/^(.{4})(.{4})(.{4})$/, "$1-$2-$3");
+  return CODE_PATTERN.test(normalized) ? normalized : null;
+}
+
+export function getPrescriptionVerificationUrl(code: string): string {
+  return `${process.env.NEXTAUTH_URL || ""}/recetas/verificar/${code}`;
+}
+
+function getStoragePath(appointmentId: string, code: string): string {
+  return `prescriptions/${appointmentId}/${code}.pdf`;
+}
+
+function getAge(dateOfBirth: Date, now: Date): number {
+  const age = now.getUTCFullYear() - dateOfBirth.getUTCFullYear();
+  const hadBirthday =
+    now.getUTCMonth() > dateOfBirth.getUTCMonth() ||
+    (now.getUTCMonth() === dateOfBirth.getUTCMonth() &&
+      now.getUTCDate() >= dateOfBirth.getUTCDate());
+  return hadBirthday ? age : age - 1;
+}
+
+// "María Fernanda López Ruiz" -> "María F. L. R."
+function abbreviateName(name: string): string {
+  const [first, ...rest] = name.trim().split(/\s+/);
+  return [first, ...rest.map((part) => `${part[0]}.`)].join(" ");
+}
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_TOP = 690;
+const GRAY: [number, number, number] = [0.35, 0.35, 0.35];
+
+/**
+ * Render a prescription to PDF: letterhead with the doctor's cédula, patient,
+ * medications and a footer with the verification QR and signature line
+ */
+export function renderPrescriptionPdf(prescription: PrescriptionDocument): Buffer {
+  const pdf = new PdfDocument(`Receta ${prescription.verificationCode}`);
+  const { doctor, patient } = prescription;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > FOOTER_TOP) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+  const paragraph = (text: string, size: number, indent = 0) => {
+    for (const line of wrapText(text, CONTENT_WIDTH - indent, size)) {
+      ensureSpace(size + 4);
+      pdf.text(MARGIN + indent, y, line, { size, color: GRAY });
+      y += size + 4;
+    }
+  };
+
+  // Membrete
+  pdf.text(MARGIN, y, doctor.name, { size: 16, bold: true });
+  pdf.text(PAGE_WIDTH - MARGIN, y, "RECETA MÉDICA", {
+    size: 12,
+    bold: true,
+    align: "right",
+  });
+  y += 22;
+  pdf.text(MARGIN, y, doctor.specialty, { size: 10, color: GRAY });
+  pdf.text(PAGE_WIDTH - MARGIN, y, `Folio: ${prescription.verificationCode}`, {
+    size: 10,
+    align: "right",
+  });
+  y += 14;
+  pdf.text(MARGIN, y, `Cédula profesional: ${doctor.cedulaProfesional}`, { size: 10 });
+  y += 14;
+  if (doctor.address) {
+    pdf.text(MARGIN, y, doctor.address, { size: 9, color: GRAY });
+    y += 14;
+  }
+  y += 6;
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y, 1);
+  y += 12;
+
+  // Paciente
+  pdf.text(MARGIN, y, `Paciente: ${patient.name}`, { size: 11, bold: true });
+  pdf.text(
+    PAGE_WIDTH - MARGIN,
+    y,
+    `Fecha: ${formatMexicanDate(prescription.issuedAt, prescription.timeZone)}`,
+    { size: 10, align: "right" }
+  );
+  y += 16;
+  if (patient.age !== null) {
+    pdf.text(MARGIN, y, `Edad: ${patient.age} años`, { size: 10 });
+    y += 14;
+  }
+  if (prescription.diagnosis) {
+    paragraph(`Diagnóstico: ${prescription.diagnosis}`, 10);
+  }
+  y += 10;
+
+  // Medicamentos
+  pdf.text(MARGIN, y, "Rp.", { size: 14, bold: true });
+  y += 22;
+  prescription.items.forEach((item, i) => {
+    ensureSpace(40);
+    pdf.text(MARGIN, y, `${i + 1}. ${item.medication}`, { size: 11, bold: true });
+    y += 15;
+    paragraph(
+      `${item.dose}, ${item.frequency}, durante ${item.duration}`,
+      10,
+      14
+    );
+    if (item.instructions) paragraph(item.instructions, 10, 14);
+    y += 8;
+  });
+
+  if (prescription.notes) {
+    ensureSpace(30);
+    y += 4;
+    pdf.text(MARGIN, y, "Indicaciones generales", { size: 10, bold: true });
+    y += 14;
+    paragraph(prescription.notes, 10);
+  }
+
+  // Pie: QR de verificación y firma
+  const url = getPrescriptionVerificationUrl(prescription.verificationCode);
+  const qr = encodeQrCode(url);
+  const moduleSize = 96 / qr.size;
+  const qrTop = FOOTER_TOP + 20;
+
+  pdf.line(MARGIN, FOOTER_TOP, PAGE_WIDTH - MARGIN, FOOTER_TOP);
+  qr.modules.forEach((row, r) => {
+    row.forEach((dark, c) => {
+      if (dark) {
+        pdf.rect(MARGIN + c * moduleSize, qrTop + r * moduleSize, moduleSize, moduleSize);
+      }
+    });
+  });
+  pdf.text(MARGIN + 110, qrTop + 10, "Verifique esta receta en:", { size: 8, color: GRAY });
+  pdf.text(MARGIN + 110, qrTop + 22, url, { size: 8 });
+  pdf.text(MARGIN + 110, qrTop + 40, "Código de verificación:", { size: 8, color: GRAY });
+  pdf.text(MARGIN + 110, qrTop + 52, prescription.verificationCode, {
+    size: 12,
+    bold: true,
+  });
+
+  const signatureLeft = PAGE_WIDTH - MARGIN - 170;
+  pdf.line(signatureLeft, qrTop + 70, PAGE_WIDTH - MARGIN, qrTop + 70);
+  pdf.text(signatureLeft + 85, qrTop + 76, doctor.name, { size: 9, align: "center" });
+  pdf.text(signatureLeft + 85, qrTop + 88, `Céd. Prof. ${doctor.cedulaProfesional}`, {
+    size: 8,
+    color: GRAY,
+    align: "center",
+  });
+
+  return pdf.toBuffer();
+}
+
+/**
+ * Issue a prescription for an appointment: render the PDF, upload it to the
+ * medical files storage and register it as a PRESCRIPTION medical file of
+ * the appointment. Requires the doctor's cédula profesional.
+ */
+export async function issuePrescription(
+  appointment: Pick<Appointment, "id" | "doctorId" | "patientId" | "status">,
+  input: PrescriptionInput,
+  now: Date = new Date()
+): Promise<PrescriptionWithItems> {
+  if (!ISSUABLE_STATUSES.includes(appointment.status)) {
+    throw new PrescriptionError("Las recetas se emiten una vez iniciada la consulta");
+  }
+
+  const [doctor, patient] = await Promise.all([
+    prisma.doctor.findUniqueOrThrow({
+      where: { id: appointment.doctorId },
+      select: {
+        userId: true,
+        specialty: true,
+        cedulaProfesional: true,
+        address: true,
+        city: true,
+        state: true,
+        user: { select: { name: true, timezone: true } },
+      },
+    }),
+    prisma.user.findUniqueOrThrow({
+      where: { id: appointment.patientId },
+      select: { name: true, patientProfile: { select: { dateOfBirth: true } } },
+    }),
+  ]);
+
+  if (!doctor.cedulaProfesional) {
+    throw new PrescriptionError(
+      "Registre su cédula profesional en su perfil antes de emitir recetas"
+    );
+  }
+
+  const verificationCode = generateVerificationCode();
+  const dateOfBirth = patient.patientProfile?.dateOfBirth;
+  const pdf = renderPrescriptionPdf({
+    verificationCode,
+    issuedAt: now,
+    timeZone: doctor.user.timezone,
+    doctor: {
+      name: doctor.user.name,
+      specialty: doctor.specialty,
+      cedulaProfesional: doctor.cedulaProfesional,
+      address: [doctor.address, doctor.city, doctor.state].filter(Boolean).join(", "),
+    },
+    patient: {
+      name: patient.name,
+      age: dateOfBirth ? getAge(dateOfBirth, now) : null,
+    },
+    diagnosis: input.diagnosis || null,
+    notes: input.notes || null,
+    items: input.items,
+  });
+
+  const { error } = await createSupabaseAdminClient()
+    .storage.from(STORAGE_BUCKET)
+    .upload(getStoragePath(appointment.id, verificationCode), pdf, {
+      contentType: "application/pdf",
+      upsert: false,
+    });
+  if (error) {
+    throw new Error(`Prescription upload failed: ${error.message}`);
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const prescription = await tx.prescription.create({
+      data: {
+        appointmentId: appointment.id,
+        doctorId: appointment.doctorId,
+        patientId: appointment.patientId,
+        verificationCode,
+        cedulaProfesional: doctor.cedulaProfesional!,
+        diagnosis: input.diagnosis || null,
+        notes: input.notes || null,
+        issuedAt: now,
+        items: {
+          create: input.items.map((item, position) => ({
+            position,
+            medication: item.medication,
+            dose: item.dose,
+            frequency: item.frequency,
+            duration: item.duration,
+            instructions: item.instructions ?? null,
+          })),
+        },
+      },
+    });
+
+    const medicalFile = await tx.medicalFile.create({
+      data: {
+        appointmentId: appointment.id,
+        uploadedBy: doctor.userId,
+        fileName: `receta-${verificationCode}.pdf`,
+        fileUrl: `/api/prescriptions/${prescription.id}/pdf`,
+        fileType: "PRESCRIPTION",
+        fileSize: pdf.length,
+        mimeType: "application/pdf",
+      },
+    });
+
+    return tx.prescription.update({
+      where: { id: prescription.id },
+      data: { medicalFileId: medicalFile.id },
+      include: prescriptionInclude,
+    });
+  });
+}
+
+/**
+ * Prescriptions issued in an appointment, newest first
+ */
+export async function getAppointmentPrescriptions(
+  appointmentId: string
+): Promise<PrescriptionWithItems[]> {
+  return prisma.prescription.findMany({
+    where: { appointmentId },
+    include: prescriptionInclude,
+    orderBy: { issuedAt: "desc" },
+  });
+}
+
+/**
+ * Stored PDF of a prescription
+ */
+export async function downloadPrescriptionPdf(
+  prescription: { appointmentId: string; verificationCode: string }
+): Promise<Buffer> {
+  const { data, error } = await createSupabaseAdminClient()
+    .storage.from(STORAGE_BUCKET)
+    .download(getStoragePath(prescription.appointmentId, prescription.verificationCode));
+  if (error || !data) {
+    throw new Error(`Prescription download failed: ${error?.message}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * Look up a prescription by its verification code for the public
+ * verification page, or null when the code doesn't exist
+ */
+export async function verifyPrescription(
+  code: string
+): Promise<PrescriptionVerification | null> {
+  const verificationCode = normalizeVerificationCode(code);
+  if (!verificationCode) return null;
+
+  const prescription = await prisma.prescription.findUnique({
+    where: { verificationCode },
+    include: {
+      ...prescriptionInclude,
+      patient: { select: { name: true } },
+    },
+  });
+  if (!prescription) return null;
+
+  return {
+    verificationCode,
+    issuedAt: prescription.issuedAt,
+    doctorName: prescription.doctor.user.name,
+    specialty: prescription.doctor.specialty,
+    cedulaProfesional: prescription.cedulaProfesional,
+    patientName: abbreviateName(prescription.patient.name),
+    items: prescription.items.map((item) => ({
+      medication: item.medication,
+      dose: item.dose,
+      frequency: item.frequency,
+      duration: item.duration,
+    })),
+  };
+}
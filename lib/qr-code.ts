@@ -0,0 +1,386 @@
+// QR code (ISO/IEC 18004) encoder for short texts such as verification URLs.
+// Encodes in byte mode with error correction level M (15% recovery), which
+// still scans when the printout is creased or stamped, and picks the
+// smallest version from 1 to 10 that fits.
+
+export interface QrCode {
+  version: number;
+  size: number;
+  mask: number;
+  modules: boolean[][]; // [row][column], true is dark
+}
+
+interface VersionSpec {
+  ecCodewordsPerBlock: number;
+  blocks: Array<[count: number, dataCodewords: number]>;
+  alignment: number[];
+}
+
+// Error correction level M blocks and alignment pattern centers per version
+const VERSIONS: VersionSpec[] = [
+  { ecCodewordsPerBlock: 10, blocks: [[1, 16]], alignment: [] },
+  { ecCodewordsPerBlock: 16, blocks: [[1, 28]], alignment: [6, 18] },
+  { ecCodewordsPerBlock: 26, blocks: [[1, 44]], alignment: [6, 22] },
+  { ecCodewordsPerBlock: 18, blocks: [[2, 32]], alignment: [6, 26] },
+  { ecCodewordsPerBlock: 24, blocks: [[2, 43]], alignment: [6, 30] },
+  { ecCodewordsPerBlock: 16, blocks: [[4, 27]], alignment: [6, 34] },
+  { ecCodewordsPerBlock: 18, blocks: [[4, 31]], alignment: [6, 22, 38] },
+  { ecCodewordsPerBlock: 22, blocks: [[2, 38], [2, 39]], alignment: [6, 24, 42] },
+  { ecCodewordsPerBlock: 22, blocks: [[3, 36], [2, 37]], alignment: [6, 26, 46] },
+  { ecCodewordsPerBlock: 26, blocks: [[4, 43], [1, 44]], alignment: [6, 28, 50] },
+];
+
+const ECC_LEVEL_M_BITS = 0;
+const BYTE_MODE = 0b0100;
+
+const MASKS: Array<(row: number, col: number) => boolean> = [
+  (r, c) => (r + c) % 2 === 0,
+  (r) => r % 2 === 0,
+  (_r, c) => c % 3 === 0,
+  (r, c) => (r + c) % 3 === 0,
+  (r, c) => (Math.floor(r / 2) + Math.floor(c / 3)) % 2 === 0,
+  (r, c) => ((r * c) % 2) + ((r * c) % 3) === 0,
+  (r, c) => (((r * c) % 2) + ((r * c) % 3)) % 2 === 0,
+  (r, c) => (((r + c) % 2) + ((r * c) % 3)) % 2 === 0,
+];
+
+function dataCapacity(spec: VersionSpec): number {
+  return spec.blocks.reduce((total, [count, data]) => total + count * data, 0);
+}
+
+// GF(256) multiplication modulo the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let result = 0;
+  for (let i = 7; i >= 0; i--) {
+    result = (result << 1) ^ ((result >>> 7) * 0x11d);
+    result ^= ((y >>> i) & 1) * x;
+  }
+  return result;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMultiply(divisor[j], root);
+      if (j + 1 < degree) divisor[j] ^= divisor[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return divisor;
+}
+
+/**
+ * Reed-Solomon error correction codewords of a block of data codewords
+ */
+export function reedSolomonRemainder(data: number[], degree: number): number[] {
+  const divisor = reedSolomonDivisor(degree);
+  const result = new Array<number>(degree).fill(0);
+
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const spec = VERSIONS[version - 1];
+  const capacityBits = dataCapacity(spec) * 8;
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(BYTE_MODE, 4);
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => append(byte, 8));
+
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  return codewords;
+}
+
+// Split the data into blocks, add their error correction and interleave them
+function addErrorCorrection(data: number[], version: number): number[] {
+  const spec = VERSIONS[version - 1];
+  const blocks: Array<{ data: number[]; ec: number[] }> = [];
+
+  let offset = 0;
+  for (const [count, size] of spec.blocks) {
+    for (let i = 0; i < count; i++) {
+      const block = data.slice(offset, offset + size);
+      blocks.push({
+        data: block,
+        ec: reedSolomonRemainder(block, spec.ecCodewordsPerBlock),
+      });
+      offset += size;
+    }
+  }
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map((block) => block.data.length));
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach((block) => {
+      if (i < block.data.length) result.push(block.data[i]);
+    });
+  }
+  for (let i = 0; i < spec.ecCodewordsPerBlock; i++) {
+    blocks.forEach((block) => result.push(block.ec[i]));
+  }
+  return result;
+}
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  readonly reserved: boolean[][];
+
+  constructor(readonly version: number) {
+    this.size = version * 4 + 17;
+    const emptyGrid = () =>
+      Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.modules = emptyGrid();
+    this.reserved = emptyGrid();
+  }
+
+  setFunction(row: number, col: number, dark: boolean) {
+    this.modules[row][col] = dark;
+    this.reserved[row][col] = true;
+  }
+
+  drawFunctionPatterns() {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(3, this.size - 4);
+    this.drawFinder(this.size - 4, 3);
+
+    const { alignment } = VERSIONS[this.version - 1];
+    const last = alignment.length - 1;
+    alignment.forEach((row, i) => {
+      alignment.forEach((col, j) => {
+        // Skip the three that would overlap the finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) {
+          return;
+        }
+        this.drawAlignment(row, col);
+      });
+    });
+
+    // Reserve the format areas until the mask is known
+    this.drawFormatBits(0);
+    this.drawVersionBits();
+  }
+
+  private drawFinder(centerRow: number, centerCol: number) {
+    for (let dr = -4; dr <= 4; dr++) {
+      for (let dc = -4; dc <= 4; dc++) {
+        const row = centerRow + dr;
+        const col = centerCol + dc;
+        if (row < 0 || row >= this.size || col < 0 || col >= this.size) continue;
+
+        const distance = Math.max(Math.abs(dr), Math.abs(dc));
+        this.setFunction(row, col, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  private drawAlignment(centerRow: number, centerCol: number) {
+    for (let dr = -2; dr <= 2; dr++) {
+      for (let dc = -2; dc <= 2; dc++) {
+        this.setFunction(
+          centerRow + dr,
+          centerCol + dc,
+          Math.max(Math.abs(dr), Math.abs(dc)) !== 1
+        );
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECC_LEVEL_M_BITS << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+    const bit = (i: number) => ((bits >>> i) & 1) === 1;
+
+    // Copy around the top left finder
+    for (let i = 0; i <= 5; i++) this.setFunction(i, 8, bit(i));
+    this.setFunction(7, 8, bit(6));
+    this.setFunction(8, 8, bit(7));
+    this.setFunction(8, 7, bit(8));
+    for (let i = 9; i < 15; i++) this.setFunction(8, 14 - i, bit(i));
+
+    // Copy split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunction(8, this.size - 1 - i, bit(i));
+    for (let i = 8; i < 15; i++) this.setFunction(this.size - 15 + i, 8, bit(i));
+    this.setFunction(this.size - 8, 8, true);
+  }
+
+  private drawVersionBits() {
+    if (this.version < 7) return;
+
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(b, a, dark);
+      this.setFunction(a, b, dark);
+    }
+  }
+
+  // Place the codewords in the two-module wide zigzag from the bottom right
+  drawCodewords(codewords: number[]) {
+    let i = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        const row = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const col = right - j;
+          if (this.reserved[row][col]) continue;
+
+          if (i < codewords.length * 8) {
+            this.modules[row][col] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  applyMask(mask: number) {
+    for (let row = 0; row < this.size; row++) {
+      for (let col = 0; col < this.size; col++) {
+        if (!this.reserved[row][col] && MASKS[mask](row, col)) {
+          this.modules[row][col] = !this.modules[row][col];
+        }
+      }
+    }
+  }
+
+  penalty(): number {
+    const { size, modules } = this;
+    let score = 0;
+
+    const lines = [
+      ...modules,
+      ...modules.map((_, col) => modules.map((row) => row[col])),
+    ];
+    for (const line of lines) {
+      // Runs of five or more modules of the same color
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+
+      // Patterns that look like a finder, with light space on either side
+      const text = line.map((dark) => (dark ? "1" : "0")).join("");
+      for (const pattern of ["10111010000", "00001011101"]) {
+        let at = text.indexOf(pattern);
+        while (at !== -1) {
+          score += 40;
+          at = text.indexOf(pattern, at + 1);
+        }
+      }
+    }
+
+    // 2x2 blocks of the same color
+    for (let row = 0; row < size - 1; row++) {
+      for (let col = 0; col < size - 1; col++) {
+        const color = modules[row][col];
+        if (
+          color === modules[row][col + 1] &&
+          color === modules[row + 1][col] &&
+          color === modules[row + 1][col + 1]
+        ) {
+          score += 3;
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    const dark = modules.reduce((total, row) => total + row.filter(Boolean).length, 0);
+    const deviation = Math.abs((dark * 20) / (size * size) - 10);
+    score += Math.floor(deviation) * 10;
+
+    return score;
+  }
+}
+
+/**
+ * Encode a text as a QR code. Throws when it doesn't fit in version 10
+ * (213 bytes of UTF-8).
+ */
+export function encodeQrCode(text: string): QrCode {
+  const bytes = new TextEncoder().encode(text);
+  const version =
+    VERSIONS.findIndex((spec, i) => {
+      const headerBits = 4 + (i + 1 < 10 ? 8 : 16);
+      return headerBits + bytes.length * 8 <= dataCapacity(spec) * 8;
+    }) + 1;
+
+  if (version === 0) {
+    throw new Error("Text too long for a QR code");
+  }
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+
+  let best: QrMatrix | null = null;
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const matrix = new QrMatrix(version);
+    matrix.drawFunctionPatterns();
+    matrix.drawCodewords(codewords);
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+
+    const penalty = matrix.penalty();
+    if (penalty < bestPenalty) {
+      best = matrix;
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+  }
+
+  return {
+    version,
+    size: best!.size,
+    mask: bestMask,
+    modules: best!.modules,
+  };
+}
@@ -0,0 +1,411 @@
+import { prisma } from "@/lib/db";
+import { ConsultationType, Prisma, SlotHold } from "@prisma/client";
+import { SCHEDULED_APPOINTMENT_STATUSES } from "@/lib/appointment-lifecycle";
+
+// Time a patient has to confirm a selected slot before it is released
+export const SLOT_HOLD_MINUTES = 10;
+
+// Once the appointment is created the hold covers the 30-minute Stripe
+// checkout session plus a short grace period for late webhooks
+export const SLOT_HOLD_CHECKOUT_MINUTES = 35;
+
+type DbClient = Prisma.TransactionClient;
+
+export class SlotUnavailableError extends Error {
+  constructor(
+    message: string = "El horario seleccionado ya no está disponible"
+  ) {
+    super(message);
+    this.name = "SlotUnavailableError";
+  }
+}
+
+export interface SlotHoldRequest {
+  doctorId: string;
+  patientId: string;
+  type: ConsultationType;
+  startsAt: Date;
+  duration: number; // minutes
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+// Exclusion constraint that keeps a doctor from having two live holds on
+// overlapping time ranges
+export const SLOT_HOLD_OVERLAP_CONSTRAINT = "slot_holds_no_overlap";
+
+/**
+ * Whether an error was raised by the slot_holds_no_overlap exclusion
+ * constraint, i.e. another request reserved an overlapping slot first
+ */
+export function isSlotOverlapError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes(SLOT_HOLD_OVERLAP_CONSTRAINT) || message.includes("23P01");
+}
+
+/**
+ * Create the overlap constraint if it's missing. It can't be expressed in the
+ * Prisma schema, so `prisma db push` doesn't create it and database setup
+ * runs this afterwards (scripts/apply-db-constraints.ts).
+ */
+export async function ensureSlotOverlapConstraint(): Promise<void> {
+  await prisma.$executeRaw`CREATE EXTENSION IF NOT EXISTS btree_gist`;
+  await prisma.$executeRaw`
+    DO $$
+    BEGIN
+      IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'slot_holds_no_overlap'
+      ) THEN
+        ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_no_overlap" EXCLUDE USING gist (
+          "doctorId" WITH =,
+          tsrange("startsAt", "endsAt") WITH &&
+        ) WHERE ("status" IN ('ACTIVE', 'CONVERTED'));
+      END IF;
+    END
+    $$`;
+}
+
+/**
+ * Whether the overlap constraint exists. Without it two patients can book the
+ * same slot.
+ */
+export async function hasSlotOverlapConstraint(): Promise<boolean> {
+  const rows = await prisma.$queryRaw<Array<{ exists: boolean }>>`
+    SELECT EXISTS (
+      SELECT 1 FROM pg_constraint WHERE conname = ${SLOT_HOLD_OVERLAP_CONSTRAINT}
+    ) AS "exists"`;
+  return rows[0]?.exists === true;
+}
+
+/**
+ * Expire ACTIVE holds whose time ran out and cancel the unpaid appointments
+ * that were created from them
+ */
+async function expireStaleHolds(
+  client: DbClient,
+  where: Prisma.SlotHoldWhereInput = {},
+  now: Date = new Date()
+): Promise<{ expired: number; appointmentsCancelled: number }> {
+  const staleHolds = await client.slotHold.findMany({
+    where: { ...where, status: "ACTIVE", expiresAt: { lte: now } },
+    select: { id: true, appointmentId: true },
+  });
+
+  if (staleHolds.length === 0) {
+    return { expired: 0, appointmentsCancelled: 0 };
+  }
+
+  await client.slotHold.updateMany({
+    where: { id: { in: staleHolds.map((hold) => hold.id) }, status: "ACTIVE" },
+    data: {
+      status: "EXPIRED",
+      releasedAt: now,
+      releaseReason: "Reserva expirada sin pago",
+    },
+  });
+
+  const appointmentIds = staleHolds
+    .map((hold) => hold.appointmentId)
+    .filter((id): id is string => !!id);
+
+  let appointmentsCancelled = 0;
+  if (appointmentIds.length > 0) {
+    const { count } = await client.appointment.updateMany({
+      where: { id: { in: appointmentIds }, status: "PENDING" },
+      data: {
+        status: "CANCELLED",
+        cancellationReason: "Reserva del horario expirada sin pago",
+        cancelledAt: now,
+      },
+    });
+    appointmentsCancelled = count;
+  }
+
+  return { expired: staleHolds.length, appointmentsCancelled };
+}
+
+/**
+ * Reserve a slot inside an existing transaction. Releases the patient's
+ * previous unconfirmed selection with the same doctor and rejects slots that
+ * overlap an appointment booked before holds existed. Overlaps with other
+ * holds are rejected by the database constraint.
+ */
+export async function holdSlot(
+  client: DbClient,
+  request: SlotHoldRequest,
+  now: Date = new Date()
+): Promise<SlotHold> {
+  const endsAt = addMinutes(request.startsAt, request.duration);
+
+  await expireStaleHolds(client, { doctorId: request.doctorId }, now);
+
+  // Un paciente solo conserva un horario apartado por doctor
+  await client.slotHold.updateMany({
+    where: {
+      doctorId: request.doctorId,
+      patientId: request.patientId,
+      status: "ACTIVE",
+      appointmentId: null,
+    },
+    data: {
+      status: "RELEASED",
+      releasedAt: now,
+      releaseReason: "Reemplazada por otra selección",
+    },
+  });
+
+  const appointments = await client.appointment.findMany({
+    where: {
+      doctorId: request.doctorId,
+      status: { in: SCHEDULED_APPOINTMENT_STATUSES },
+      scheduledAt: {
+        gte: addMinutes(request.startsAt, -24 * 60),
+        lt: endsAt,
+      },
+    },
+    select: { scheduledAt: true, duration: true },
+  });
+
+  const overlapsAppointment = appointments.some(
+    (appointment) =>
+      appointment.scheduledAt < endsAt &&
+      addMinutes(appointment.scheduledAt, appointment.duration) >
+        request.startsAt
+  );
+
+  if (overlapsAppointment) {
+    throw new SlotUnavailableError();
+  }
+
+  return client.slotHold.create({
+    data: {
+      doctorId: request.doctorId,
+      patientId: request.patientId,
+      type: request.type,
+      startsAt: request.startsAt,
+      endsAt,
+      expiresAt: addMinutes(now, SLOT_HOLD_MINUTES),
+    },
+  });
+}
+
+/**
+ * Reserve a slot for a patient who is picking a time in the calendar
+ */
+export async function createSlotHold(
+  request: SlotHoldRequest
+): Promise<SlotHold> {
+  try {
+    return await prisma.$transaction((tx) => holdSlot(tx, request));
+  } catch (error) {
+    if (isSlotOverlapError(error)) {
+      throw new SlotUnavailableError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get a hold the patient can still book with
+ */
+export async function getActiveSlotHold(
+  client: DbClient,
+  holdId: string,
+  request: Pick<SlotHoldRequest, "doctorId" | "patientId" | "startsAt">,
+  now: Date = new Date()
+): Promise<SlotHold> {
+  const hold = await client.slotHold.findFirst({
+    where: {
+      id: holdId,
+      doctorId: request.doctorId,
+      patientId: request.patientId,
+      startsAt: request.startsAt,
+      status: "ACTIVE",
+      appointmentId: null,
+      expiresAt: { gt: now },
+    },
+  });
+
+  if (!hold) {
+    throw new SlotUnavailableError(
+      "La reserva del horario expiró o no es válida. Selecciona el horario nuevamente."
+    );
+  }
+
+  return hold;
+}
+
+/**
+ * Link a hold to the appointment created from it and keep the slot reserved
+ * while the patient completes the payment
+ */
+export async function assignSlotHold(
+  client: DbClient,
+  holdId: string,
+  appointmentId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const { count } = await client.slotHold.updateMany({
+    where: { id: holdId, status: "ACTIVE", appointmentId: null },
+    data: {
+      appointmentId,
+      expiresAt: addMinutes(now, SLOT_HOLD_CHECKOUT_MINUTES),
+    },
+  });
+
+  if (count === 0) {
+    throw new SlotUnavailableError(
+      "La reserva del horario expiró o no es válida. Selecciona el horario nuevamente."
+    );
+  }
+}
+
+/**
+ * Keep the slot of an unpaid appointment reserved until a later time, e.g.
+ * while the patient pays an OXXO or SPEI voucher. Returns false when the
+ * hold already expired.
+ */
+export async function extendSlotHold(
+  client: DbClient,
+  appointmentId: string,
+  expiresAt: Date
+): Promise<boolean> {
+  const { count } = await client.slotHold.updateMany({
+    where: { appointmentId, status: "ACTIVE" },
+    data: { expiresAt },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Make the hold of a paid appointment permanent. Holds that expired are only
+ * converted while nobody else took the slot; released holds belong to
+ * cancelled bookings and are never converted. Returns false when the slot
+ * can't be secured.
+ */
+export async function convertSlotHold(appointmentId: string): Promise<boolean> {
+  const hold = await prisma.slotHold.findUnique({ where: { appointmentId } });
+
+  // Citas creadas antes de las reservas de horario no tienen hold
+  if (!hold || hold.status === "CONVERTED") {
+    return true;
+  }
+
+  try {
+    const { count } = await prisma.slotHold.updateMany({
+      where: { id: hold.id, status: { in: ["ACTIVE", "EXPIRED"] } },
+      data: {
+        status: "CONVERTED",
+        convertedAt: new Date(),
+        releasedAt: null,
+        releaseReason: null,
+      },
+    });
+    return count > 0;
+  } catch (error) {
+    if (isSlotOverlapError(error)) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Move the live hold of an appointment to a new time. Overlaps with other
+ * holds are rejected by the database constraint. Returns null for
+ * appointments booked before holds existed.
+ */
+export async function moveSlotHold(
+  client: DbClient,
+  appointmentId: string,
+  slot: { type: ConsultationType; startsAt: Date; duration: number }
+): Promise<SlotHold | null> {
+  const hold = await client.slotHold.findFirst({
+    where: { appointmentId, status: { in: ["ACTIVE", "CONVERTED"] } },
+  });
+
+  if (!hold) return null;
+
+  return client.slotHold.update({
+    where: { id: hold.id },
+    data: {
+      type: slot.type,
+      startsAt: slot.startsAt,
+      endsAt: addMinutes(slot.startsAt, slot.duration),
+    },
+  });
+}
+
+/**
+ * Free the slot of an appointment that was cancelled or never paid
+ */
+export async function releaseSlotHold(
+  appointmentId: string,
+  reason: string,
+  client: DbClient = prisma
+): Promise<boolean> {
+  const { count } = await client.slotHold.updateMany({
+    where: { appointmentId, status: { in: ["ACTIVE", "CONVERTED"] } },
+    data: { status: "RELEASED", releasedAt: new Date(), releaseReason: reason },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Free a slot the patient selected but did not book
+ */
+export async function releasePatientSlotHold(
+  holdId: string,
+  patientId: string
+): Promise<boolean> {
+  const { count } = await prisma.slotHold.updateMany({
+    where: { id: holdId, patientId, status: "ACTIVE", appointmentId: null },
+    data: {
+      status: "RELEASED",
+      releasedAt: new Date(),
+      releaseReason: "Liberada por el paciente",
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Expire every hold whose time ran out. Meant to be run periodically.
+ */
+export async function releaseExpiredSlotHolds(): Promise<{
+  expired: number;
+  appointmentsCancelled: number;
+}> {
+  return prisma.$transaction((tx) => expireStaleHolds(tx));
+}
+
+/**
+ * Holds that currently block a doctor's time range
+ */
+export async function getBlockingSlotHolds(
+  doctorId: string,
+  from: Date,
+  to: Date,
+  options: { excludeHoldId?: string; now?: Date } = {}
+): Promise<Pick<SlotHold, "startsAt" | "endsAt">[]> {
+  const now = options.now || new Date();
+
+  return prisma.slotHold.findMany({
+    where: {
+      doctorId,
+      ...(options.excludeHoldId ? { id: { not: options.excludeHoldId } } : {}),
+      startsAt: { lt: to },
+      endsAt: { gt: from },
+      OR: [
+        { status: "CONVERTED" },
+        { status: "ACTIVE", expiresAt: { gt: now } },
+      ],
+    },
+    select: { startsAt: true, endsAt: true },
+  });
+}
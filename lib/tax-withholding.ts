@@ -0,0 +1,319 @@
+import { prisma } from "@/lib/db";
+import { fiscalProfileSchema } from "@/lib/invoices";
+import { isPersonaFisica, TAX_REGIMES } from "@/lib/invoicing/cfdi-xml";
+import { formatMexicanCurrency } from "@/lib/mexican-utils";
+import { PAGE_WIDTH, PdfDocument } from "@/lib/pdf-document";
+import {
+  addCalendarDays,
+  addCalendarMonths,
+  DEFAULT_TIME_ZONE,
+  startOfZonedDay,
+} from "@/lib/timezones";
+import { FiscalProfile, PayoutSettlement } from "@prisma/client";
+import { z } from "zod";
+
+// ISR and IVA the platform withholds when it pays personas físicas for their
+// consultations. The withholdings are taken from each weekly settlement, so
+// the doctor receives the net amount, and are reported in a monthly
+// statement. Personas morales and doctors without fiscal data are paid in
+// full.
+
+export interface WithholdingRule {
+  isrRate: number; // share of the amount before IVA
+  ivaShare: number; // share of the IVA included in the amount
+}
+
+// Keyed by c_RegimenFiscal
+export const WITHHOLDING_RULES: Record<string, WithholdingRule> = {
+  "612": { isrRate: 0.1, ivaShare: 2 / 3 }, // honorarios (art. 106 LISR)
+  "625": { isrRate: 0.01, ivaShare: 0.5 }, // plataformas tecnológicas (art. 113-A LISR)
+  "626": { isrRate: 0.0125, ivaShare: 2 / 3 }, // RESICO (art. 113-J LISR)
+};
+
+const IVA_RATE = 0.16;
+
+export const taxSettingsSchema = z.object({
+  profile: fiscalProfileSchema,
+  ivaExempt: z.boolean(),
+});
+
+export const statementMonthSchema = z
+  .string()
+  .regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Mes inválido");
+
+export interface Withholding {
+  amount: number;
+  iva: number; // included in the amount, 0 when the consultations are exempt
+  isrWithheld: number;
+  ivaWithheld: number;
+  netAmount: number;
+}
+
+/**
+ * Rule for a doctor's fiscal data, or null when nothing is withheld
+ */
+export function getWithholdingRule(
+  profile: Pick<FiscalProfile, "rfc" | "taxRegime"> | null
+): WithholdingRule | null {
+  if (!profile || !isPersonaFisica(profile.rfc)) return null;
+  return WITHHOLDING_RULES[profile.taxRegime] ?? null;
+}
+
+/**
+ * Withholdings on an amount paid to a doctor. When their consultations
+ * aren't exempt from IVA the amount includes it, and ISR is calculated on
+ * the amount before IVA.
+ */
+export function calculateWithholding(
+  amount: number,
+  profile: Pick<FiscalProfile, "rfc" | "taxRegime"> | null,
+  ivaExempt: boolean
+): Withholding {
+  const rule = getWithholdingRule(profile);
+  const base = ivaExempt ? amount : Math.round(amount / (1 + IVA_RATE));
+  const iva = amount - base;
+
+  if (!rule || amount <= 0) {
+    return { amount, iva, isrWithheld: 0, ivaWithheld: 0, netAmount: amount };
+  }
+
+  const isrWithheld = Math.round(base * rule.isrRate);
+  const ivaWithheld = Math.round(iva * rule.ivaShare);
+
+  return {
+    amount,
+    iva,
+    isrWithheld,
+    ivaWithheld,
+    netAmount: amount - isrWithheld - ivaWithheld,
+  };
+}
+
+/**
+ * Calendar month in Mexico City, e.g. "2025-03"
+ */
+export function getStatementPeriod(month: string): { start: Date; end: Date } {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const firstDay = new Date(Date.UTC(year, monthNumber - 1, 1));
+
+  return {
+    start: startOfZonedDay(firstDay, DEFAULT_TIME_ZONE),
+    end: startOfZonedDay(addCalendarMonths(firstDay, 1), DEFAULT_TIME_ZONE),
+  };
+}
+
+export interface WithholdingStatement {
+  month: string;
+  doctorName: string;
+  rfc: string | null;
+  taxRegime: string | null;
+  retainer: { rfc: string; name: string } | null;
+  settlements: PayoutSettlement[];
+  totals: {
+    amount: number;
+    isrWithheld: number;
+    ivaWithheld: number;
+    netAmount: number;
+  };
+}
+
+/**
+ * Withholdings of the settlements paid to a doctor in a month, which is when
+ * the platform is required to withhold them
+ */
+export async function getWithholdingStatement(
+  doctorId: string,
+  month: string
+): Promise<WithholdingStatement> {
+  const { start, end } = getStatementPeriod(month);
+
+  const [doctor, settlements] = await Promise.all([
+    prisma.doctor.findUniqueOrThrow({
+      where: { id: doctorId },
+      select: { user: { select: { name: true, fiscalProfile: true } } },
+    }),
+    prisma.payoutSettlement.findMany({
+      where: { doctorId, status: "PAID", paidAt: { gte: start, lt: end } },
+      orderBy: { paidAt: "asc" },
+    }),
+  ]);
+
+  const profile = doctor.user.fiscalProfile;
+  const lastSettlement = settlements[settlements.length - 1];
+  const totals = settlements.reduce(
+    (sum, settlement) => ({
+      amount:
+        sum.amount + settlement.amount + settlement.isrWithheld + settlement.ivaWithheld,
+      isrWithheld: sum.isrWithheld + settlement.isrWithheld,
+      ivaWithheld: sum.ivaWithheld + settlement.ivaWithheld,
+      netAmount: sum.netAmount + settlement.amount,
+    }),
+    { amount: 0, isrWithheld: 0, ivaWithheld: 0, netAmount: 0 }
+  );
+
+  const { CFDI_PLATFORM_RFC, CFDI_PLATFORM_NAME } = process.env;
+
+  return {
+    month,
+    doctorName: profile?.legalName ?? doctor.user.name ?? "",
+    // The fiscal data the month was withheld with, even if it changed since
+    rfc: lastSettlement?.rfc ?? profile?.rfc ?? null,
+    taxRegime: lastSettlement?.taxRegime ?? profile?.taxRegime ?? null,
+    retainer:
+      CFDI_PLATFORM_RFC && CFDI_PLATFORM_NAME
+        ? { rfc: CFDI_PLATFORM_RFC, name: CFDI_PLATFORM_NAME }
+        : null,
+    settlements,
+    totals,
+  };
+}
+
+export function getStatementFileName(statement: WithholdingStatement) {
+  return `retenciones-${statement.month}`;
+}
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const GRAY: [number, number, number] = [0.35, 0.35, 0.35];
+const LIGHT: [number, number, number] = [0.93, 0.93, 0.93];
+
+const formatDay = (date: Date) =>
+  new Intl.DateTimeFormat("es-MX", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: DEFAULT_TIME_ZONE,
+  }).format(date);
+
+/**
+ * Printable statement the doctor can hand to their accountant. It isn't a
+ * CFDI de retenciones.
+ */
+export function renderWithholdingStatementPdf(statement: WithholdingStatement): Buffer {
+  const [year, month] = statement.month.split("-").map(Number);
+  const monthName = new Intl.DateTimeFormat("es-MX", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(new Date(Date.UTC(year, month - 1, 1)));
+
+  const pdf = new PdfDocument(`Retenciones ${statement.month}`);
+  let y = MARGIN;
+
+  // Encabezado
+  pdf.text(MARGIN, y, "Constancia de retenciones", { size: 14, bold: true });
+  pdf.text(PAGE_WIDTH - MARGIN, y, monthName, { size: 12, bold: true, align: "right" });
+  y += 22;
+  if (statement.retainer) {
+    pdf.text(MARGIN, y, `Retenedor: ${statement.retainer.name}`, { size: 10 });
+    y += 13;
+    pdf.text(MARGIN, y, `RFC: ${statement.retainer.rfc}`, { size: 9, color: GRAY });
+    y += 13;
+  }
+  y += 5;
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y, 1);
+  y += 12;
+
+  // Contribuyente
+  pdf.text(MARGIN, y, "Contribuyente", { size: 10, bold: true });
+  y += 14;
+  pdf.text(MARGIN, y, statement.doctorName, { size: 10 });
+  y += 13;
+  pdf.text(MARGIN, y, `RFC: ${statement.rfc ?? "No registrado"}`, { size: 9 });
+  y += 13;
+  pdf.text(
+    MARGIN,
+    y,
+    statement.taxRegime
+      ? `Régimen fiscal: ${statement.taxRegime} ${TAX_REGIMES[statement.taxRegime] ?? ""}`
+      : "Régimen fiscal: No registrado",
+    { size: 9, color: GRAY }
+  );
+  y += 22;
+
+  // Liquidaciones
+  const columns = [
+    { label: "Monto", x: MARGIN + 265 },
+    { label: "ISR retenido", x: MARGIN + 340 },
+    { label: "IVA retenido", x: MARGIN + 415 },
+    { label: "Depositado", x: PAGE_WIDTH - MARGIN - 6 },
+  ];
+  pdf.rect(MARGIN, y, CONTENT_WIDTH, 18, LIGHT);
+  pdf.text(MARGIN + 6, y + 4, "Fecha de pago", { size: 9, bold: true });
+  pdf.text(MARGIN + 90, y + 4, "Semana", { size: 9, bold: true });
+  for (const column of columns) {
+    pdf.text(column.x, y + 4, column.label, { size: 9, bold: true, align: "right" });
+  }
+  y += 24;
+
+  if (statement.settlements.length === 0) {
+    pdf.text(MARGIN + 6, y, "No hubo liquidaciones pagadas en el mes", {
+      size: 9,
+      color: GRAY,
+    });
+    y += 16;
+  }
+
+  for (const settlement of statement.settlements) {
+    const values = [
+      settlement.amount + settlement.isrWithheld + settlement.ivaWithheld,
+      settlement.isrWithheld,
+      settlement.ivaWithheld,
+      settlement.amount,
+    ];
+    pdf.text(MARGIN + 6, y, settlement.paidAt ? formatDay(settlement.paidAt) : "", {
+      size: 9,
+    });
+    // periodEnd is the start of the next week
+    pdf.text(
+      MARGIN + 90,
+      y,
+      `${formatDay(settlement.periodStart)} - ${formatDay(addCalendarDays(settlement.periodEnd, -1))}`,
+      { size: 8 }
+    );
+    columns.forEach((column, index) => {
+      pdf.text(column.x, y, formatMexicanCurrency(values[index]), {
+        size: 9,
+        align: "right",
+      });
+    });
+    y += 12;
+    if (settlement.trackingKey) {
+      pdf.text(MARGIN + 6, y, `Clave de rastreo: ${settlement.trackingKey}`, {
+        size: 7,
+        color: GRAY,
+      });
+      y += 12;
+    }
+    y += 4;
+  }
+
+  pdf.line(MARGIN, y, PAGE_WIDTH - MARGIN, y);
+  y += 10;
+
+  // Totales
+  const totals = [
+    statement.totals.amount,
+    statement.totals.isrWithheld,
+    statement.totals.ivaWithheld,
+    statement.totals.netAmount,
+  ];
+  pdf.text(MARGIN + 6, y, "Total del mes", { size: 10, bold: true });
+  columns.forEach((column, index) => {
+    pdf.text(column.x, y, formatMexicanCurrency(totals[index]), {
+      size: 9,
+      bold: true,
+      align: "right",
+    });
+  });
+  y += 30;
+
+  pdf.text(
+    MARGIN,
+    y,
+    "Resumen informativo de las retenciones efectuadas. No sustituye al CFDI de retenciones e información de pagos.",
+    { size: 8, color: GRAY }
+  );
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,211 @@
+import { z } from "zod";
+
+// Instants are stored and exchanged in UTC. Schedules (availability rules,
+// blocked days, holidays, waitlist ranges) are wall-clock values in the
+// doctor's IANA time zone. Calendar days are represented as Dates at UTC
+// midnight, the same value Prisma returns for date-only fields and
+// `new Date("yyyy-MM-dd")` produces, so they never depend on the server zone.
+
+export const DEFAULT_TIME_ZONE = "America/Mexico_City";
+
+export const MEXICAN_TIME_ZONES = [
+  { value: "America/Tijuana", label: "Zona Noroeste (Tijuana)" },
+  { value: "America/Hermosillo", label: "Sonora (Hermosillo)" },
+  { value: "America/Mazatlan", label: "Zona Pacífico (Mazatlán)" },
+  { value: "America/Mexico_City", label: "Zona Centro (Ciudad de México)" },
+  { value: "America/Cancun", label: "Zona Sureste (Cancún)" },
+] as const;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Whether a string is an IANA time zone supported by the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const timeZoneSchema = z
+  .string()
+  .refine(isValidTimeZone, "Zona horaria inválida");
+
+/**
+ * Wall-clock fields of an instant in a time zone
+ */
+export function getZonedParts(
+  date: Date,
+  timeZone: string
+): {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0 = domingo
+} {
+  const parts = Object.fromEntries(
+    getPartsFormatter(timeZone)
+      .formatToParts(date)
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)])
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    dayOfWeek: new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay(),
+  };
+}
+
+/**
+ * Offset from UTC in minutes of a time zone at an instant, e.g. -360 for
+ * Ciudad de México
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const instant = date.getTime() - date.getUTCMilliseconds();
+  return Math.round((asUtc - instant) / MINUTE);
+}
+
+/**
+ * Format an offset in minutes as ±HH:mm
+ */
+export function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? "-" : "+";
+  const absolute = Math.abs(offsetMinutes);
+  const hours = String(Math.floor(absolute / 60)).padStart(2, "0");
+  const minutes = String(absolute % 60).padStart(2, "0");
+  return `${sign}${hours}:${minutes}`;
+}
+
+/**
+ * ISO 8601 representation of an instant in a time zone, with its offset
+ */
+export function toZonedISOString(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return (
+    `${parts.year}-${pad(parts.month)}-${pad(parts.day)}` +
+    `T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}` +
+    formatUtcOffset(getTimeZoneOffset(date, timeZone))
+  );
+}
+
+/**
+ * Parse a yyyy-MM-dd string into a calendar day. Returns null when invalid.
+ */
+export function parseCalendarDay(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+}
+
+/**
+ * Format a calendar day as yyyy-MM-dd
+ */
+export function formatCalendarDay(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Calendar day of an instant in a time zone
+ */
+export function toCalendarDay(date: Date, timeZone: string): Date {
+  const parts = getZonedParts(date, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+}
+
+export function addCalendarDays(day: Date, days: number): Date {
+  return new Date(day.getTime() + days * DAY);
+}
+
+/**
+ * Add months to a calendar day, clamping to the last day of the month
+ */
+export function addCalendarMonths(day: Date, months: number): Date {
+  const year = day.getUTCFullYear();
+  const month = day.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(day.getUTCDate(), lastDay)));
+}
+
+/**
+ * Minutes since local midnight of an instant in a time zone
+ */
+export function getMinutesOfDay(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  return parts.hour * 60 + parts.minute;
+}
+
+/**
+ * Instant at which the wall clock in a time zone shows the given minutes of
+ * a calendar day. Wall-clock times skipped by a DST jump resolve to a nearby
+ * valid instant.
+ */
+export function zonedTimeToUtc(
+  day: Date,
+  minutesOfDay: number,
+  timeZone: string
+): Date {
+  const wallClock = day.getTime() + minutesOfDay * MINUTE;
+  const firstOffset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const guess = wallClock - firstOffset * MINUTE;
+  const secondOffset = getTimeZoneOffset(new Date(guess), timeZone);
+
+  return new Date(
+    secondOffset === firstOffset ? guess : wallClock - secondOffset * MINUTE
+  );
+}
+
+/**
+ * Start of a calendar day in a time zone, as an instant
+ */
+export function startOfZonedDay(day: Date, timeZone: string): Date {
+  return zonedTimeToUtc(day, 0, timeZone);
+}
@@ -0,0 +1,456 @@
+import { prisma } from "@/lib/db";
+import {
+  ConsultationType,
+  NotificationType,
+  SlotHold,
+  WaitlistEntry,
+  WaitlistOffer,
+} from "@prisma/client";
+import { randomBytes } from "crypto";
+import { differenceInCalendarDays } from "date-fns";
+import { z } from "zod";
+import { createNotification } from "@/lib/notification-utils";
+import { formatMexicanDate, formatMexicanTime } from "@/lib/mexican-utils";
+import { DEFAULT_TIME_ZONE, addCalendarDays, toCalendarDay } from "@/lib/timezones";
+import {
+  holdSlot,
+  isSlotOverlapError,
+  SLOT_HOLD_MINUTES,
+  SlotUnavailableError,
+} from "@/lib/slot-holds";
+
+// Time a waitlisted patient has to claim a freed slot before it is offered
+// to the next person
+export const WAITLIST_OFFER_MINUTES = 30;
+
+// Slots starting sooner than this are not offered, there is no time to book
+const MIN_OFFER_LEAD_MINUTES = 60;
+
+export const MAX_WAITLIST_RANGE_DAYS = 30;
+
+export const joinWaitlistSchema = z
+  .object({
+    doctorId: z.string().cuid(),
+    type: z.enum(["IN_PERSON", "VIRTUAL", "HOME_VISIT"]),
+    dateFrom: z.coerce.date(),
+    dateTo: z.coerce.date(),
+  })
+  .refine((data) => data.dateTo >= data.dateFrom, {
+    message: "La fecha final debe ser posterior a la inicial",
+    path: ["dateTo"],
+  })
+  .refine(
+    (data) =>
+      differenceInCalendarDays(data.dateTo, data.dateFrom) < MAX_WAITLIST_RANGE_DAYS,
+    {
+      message: `El rango no puede superar ${MAX_WAITLIST_RANGE_DAYS} días`,
+      path: ["dateTo"],
+    }
+  );
+
+export class WaitlistError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WaitlistError";
+  }
+}
+
+export class WaitlistOfferUnavailableError extends Error {
+  constructor(
+    message: string = "Esta oferta ya no está disponible"
+  ) {
+    super(message);
+    this.name = "WaitlistOfferUnavailableError";
+  }
+}
+
+export interface FreedSlot {
+  doctorId: string;
+  type: ConsultationType;
+  startsAt: Date;
+  duration: number; // minutes
+}
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+/**
+ * Add a patient to a doctor's waitlist for a range of calendar days in the
+ * doctor's time zone
+ */
+export async function joinWaitlist(
+  patientId: string,
+  data: z.infer<typeof joinWaitlistSchema>,
+  timeZone: string = DEFAULT_TIME_ZONE,
+  now: Date = new Date()
+): Promise<WaitlistEntry> {
+  const dateFrom = toCalendarDay(data.dateFrom, "UTC");
+  const dateTo = toCalendarDay(data.dateTo, "UTC");
+
+  if (dateTo < toCalendarDay(now, timeZone)) {
+    throw new WaitlistError("El rango de fechas ya pasó");
+  }
+
+  const existing = await prisma.waitlistEntry.findFirst({
+    where: {
+      patientId,
+      doctorId: data.doctorId,
+      type: data.type,
+      status: { in: ["WAITING", "OFFERED"] },
+      dateFrom: { lte: dateTo },
+      dateTo: { gte: dateFrom },
+    },
+  });
+
+  if (existing) {
+    throw new WaitlistError(
+      "Ya estás en la lista de espera de este doctor para esas fechas"
+    );
+  }
+
+  return prisma.waitlistEntry.create({
+    data: {
+      patientId,
+      doctorId: data.doctorId,
+      type: data.type,
+      dateFrom,
+      dateTo,
+    },
+  });
+}
+
+/**
+ * Leave the waitlist. A pending offer is passed on to the next patient.
+ */
+export async function leaveWaitlist(
+  entryId: string,
+  patientId: string
+): Promise<boolean> {
+  const entry = await prisma.waitlistEntry.findFirst({
+    where: { id: entryId, patientId, status: { in: ["WAITING", "OFFERED"] } },
+    include: { offers: { where: { status: "PENDING" } } },
+  });
+
+  if (!entry) return false;
+
+  await prisma.waitlistEntry.update({
+    where: { id: entry.id },
+    data: { status: "CANCELLED" },
+  });
+
+  for (const offer of entry.offers) {
+    await closeOffer(offer, "DECLINED");
+  }
+
+  return true;
+}
+
+/**
+ * Offer a freed slot to the first patient waiting for it. The slot is held
+ * for that patient until the offer expires; patients who already passed on
+ * this slot are skipped. Returns null when nobody is waiting or the slot was
+ * taken in the meantime.
+ */
+export async function offerFreedSlot(
+  slot: FreedSlot,
+  now: Date = new Date()
+): Promise<WaitlistOffer | null> {
+  if (slot.startsAt <= addMinutes(now, MIN_OFFER_LEAD_MINUTES)) {
+    return null;
+  }
+
+  const doctor = await prisma.doctor.findUnique({
+    where: { id: slot.doctorId },
+    select: { user: { select: { timezone: true } } },
+  });
+  const slotDay = toCalendarDay(
+    slot.startsAt,
+    doctor?.user.timezone ?? DEFAULT_TIME_ZONE
+  );
+
+  const entry = await prisma.waitlistEntry.findFirst({
+    where: {
+      doctorId: slot.doctorId,
+      type: slot.type,
+      status: "WAITING",
+      dateFrom: { lte: slotDay },
+      dateTo: { gte: slotDay },
+      offers: { none: { startsAt: slot.startsAt } },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (!entry) return null;
+
+  // La oferta vence antes de la cita para dar tiempo de pagar
+  const expiresAt = new Date(
+    Math.min(
+      addMinutes(now, WAITLIST_OFFER_MINUTES).getTime(),
+      addMinutes(slot.startsAt, -MIN_OFFER_LEAD_MINUTES / 2).getTime()
+    )
+  );
+
+  let offer: WaitlistOffer;
+  try {
+    offer = await prisma.$transaction(async (tx) => {
+      const hold = await holdSlot(
+        tx,
+        { ...slot, patientId: entry.patientId },
+        now
+      );
+      await tx.slotHold.update({
+        where: { id: hold.id },
+        data: { expiresAt },
+      });
+
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: "OFFERED" },
+      });
+
+      return tx.waitlistOffer.create({
+        data: {
+          entryId: entry.id,
+          startsAt: slot.startsAt,
+          duration: slot.duration,
+          token: randomBytes(24).toString("base64url"),
+          expiresAt,
+          slotHoldId: hold.id,
+        },
+      });
+    });
+  } catch (error) {
+    if (error instanceof SlotUnavailableError || isSlotOverlapError(error)) {
+      return null;
+    }
+    throw error;
+  }
+
+  await notifyWaitlistOffer(entry, offer);
+
+  return offer;
+}
+
+/**
+ * Let the patient know a slot is waiting for them, on every channel they
+ * have enabled
+ */
+async function notifyWaitlistOffer(
+  entry: WaitlistEntry,
+  offer: WaitlistOffer
+): Promise<void> {
+  const [patient, doctor, preferences] = await Promise.all([
+    prisma.user.findUnique({
+      where: { id: entry.patientId },
+      select: { phone: true, timezone: true },
+    }),
+    prisma.doctor.findUnique({
+      where: { id: entry.doctorId },
+      select: { user: { select: { name: true } } },
+    }),
+    prisma.notificationPreferences.findUnique({
+      where: { userId: entry.patientId },
+    }),
+  ]);
+
+  const channels: NotificationType[] = [];
+  if (!preferences || preferences.email) channels.push("EMAIL");
+  if (patient?.phone && preferences?.sms) channels.push("SMS");
+  if (patient?.phone && preferences?.whatsapp) channels.push("WHATSAPP");
+
+  const claimUrl = `${process.env.NEXTAUTH_URL || ""}/paciente/lista-espera/${offer.token}`;
+  const minutes = Math.max(
+    1,
+    Math.round((offer.expiresAt.getTime() - Date.now()) / 60000)
+  );
+
+  for (const type of channels) {
+    await createNotification({
+      userId: entry.patientId,
+      type,
+      title: "Se liberó un horario",
+      message: `Se liberó un horario con ${doctor?.user.name ?? "tu doctor"} el ${formatMexicanDate(offer.startsAt, patient?.timezone)} a las ${formatMexicanTime(offer.startsAt, patient?.timezone, { showTimeZone: true })}. Lo apartamos para ti durante ${minutes} minutos: ${claimUrl}`,
+      metadata: JSON.stringify({
+        actionUrl: `/paciente/lista-espera/${offer.token}`,
+        waitlistOfferId: offer.id,
+      }),
+      // La oferta vence en minutos; no puede esperar al resumen
+      urgent: true,
+    });
+  }
+}
+
+/**
+ * Get an offer by its claim token
+ */
+export async function getWaitlistOffer(token: string) {
+  return prisma.waitlistOffer.findUnique({
+    where: { token },
+    include: {
+      entry: {
+        include: {
+          doctor: {
+            include: {
+              user: {
+                select: {
+                  name: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Claim an offer. The slot hold is extended so the patient has the regular
+ * booking window to confirm and pay.
+ */
+export async function claimWaitlistOffer(
+  token: string,
+  patientId: string,
+  now: Date = new Date()
+): Promise<{ offer: WaitlistOffer; hold: SlotHold }> {
+  return prisma.$transaction(async (tx) => {
+    const offer = await tx.waitlistOffer.findFirst({
+      where: {
+        token,
+        status: "PENDING",
+        expiresAt: { gt: now },
+        entry: { patientId },
+      },
+      include: { slotHold: true },
+    });
+
+    if (!offer || !offer.slotHold || offer.slotHold.status !== "ACTIVE") {
+      throw new WaitlistOfferUnavailableError();
+    }
+
+    const bookingDeadline = addMinutes(now, SLOT_HOLD_MINUTES);
+    const hold = await tx.slotHold.update({
+      where: { id: offer.slotHold.id },
+      data: {
+        expiresAt:
+          offer.slotHold.expiresAt > bookingDeadline
+            ? offer.slotHold.expiresAt
+            : bookingDeadline,
+      },
+    });
+
+    await tx.waitlistEntry.update({
+      where: { id: offer.entryId },
+      data: { status: "FULFILLED" },
+    });
+
+    const claimedOffer = await tx.waitlistOffer.update({
+      where: { id: offer.id },
+      data: { status: "CLAIMED", claimedAt: now },
+    });
+
+    return { offer: claimedOffer, hold };
+  });
+}
+
+/**
+ * Turn down an offer; the slot goes to the next patient on the waitlist
+ */
+export async function declineWaitlistOffer(
+  token: string,
+  patientId: string
+): Promise<void> {
+  const offer = await prisma.waitlistOffer.findFirst({
+    where: { token, status: "PENDING", entry: { patientId } },
+  });
+
+  if (!offer) {
+    throw new WaitlistOfferUnavailableError();
+  }
+
+  await closeOffer(offer, "DECLINED");
+}
+
+/**
+ * Close a pending offer, free its hold, put the patient back in the queue and
+ * offer the slot to the next patient
+ */
+async function closeOffer(
+  offer: WaitlistOffer,
+  status: "DECLINED" | "EXPIRED",
+  now: Date = new Date()
+): Promise<WaitlistOffer | null> {
+  const entry = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.waitlistOffer.updateMany({
+      where: { id: offer.id, status: "PENDING" },
+      data: { status },
+    });
+
+    // Otra ejecución ya cerró esta oferta
+    if (count === 0) return null;
+
+    if (offer.slotHoldId) {
+      await tx.slotHold.updateMany({
+        where: { id: offer.slotHoldId, status: "ACTIVE", appointmentId: null },
+        data: {
+          status: status === "EXPIRED" ? "EXPIRED" : "RELEASED",
+          releasedAt: now,
+          releaseReason:
+            status === "EXPIRED"
+              ? "Oferta de lista de espera sin reclamar"
+              : "Oferta de lista de espera rechazada",
+        },
+      });
+    }
+
+    await tx.waitlistEntry.updateMany({
+      where: { id: offer.entryId, status: "OFFERED" },
+      data: { status: "WAITING" },
+    });
+
+    return tx.waitlistEntry.findUnique({ where: { id: offer.entryId } });
+  });
+
+  if (!entry) return null;
+
+  return offerFreedSlot(
+    {
+      doctorId: entry.doctorId,
+      type: entry.type,
+      startsAt: offer.startsAt,
+      duration: offer.duration,
+    },
+    now
+  );
+}
+
+/**
+ * Pass unclaimed offers on to the next patient and close waitlist entries
+ * whose dates have passed. Meant to be run periodically.
+ */
+export async function processExpiredWaitlistOffers(
+  now: Date = new Date()
+): Promise<{ expiredOffers: number; reoffered: number; expiredEntries: number }> {
+  const expiredOffers = await prisma.waitlistOffer.findMany({
+    where: { status: "PENDING", expiresAt: { lte: now } },
+    orderBy: { expiresAt: "asc" },
+  });
+
+  let reoffered = 0;
+  for (const offer of expiredOffers) {
+    const nextOffer = await closeOffer(offer, "EXPIRED", now);
+    if (nextOffer) reoffered++;
+  }
+
+  const { count: expiredEntries } = await prisma.waitlistEntry.updateMany({
+    where: {
+      status: "WAITING",
+      // Un día de margen: el día ya terminó en todas las zonas de México
+      dateTo: { lt: addCalendarDays(toCalendarDay(now, "UTC"), -1) },
+    },
+    data: { status: "EXPIRED" },
+  });
+
+  return { expiredOffers: expiredOffers.length, reoffered, expiredEntries };
+}
@@ -0,0 +1,410 @@
+import { prisma } from "@/lib/db";
+import { ErrorLogger } from "@/lib/error-handling-utils";
+import { formatMexicanCurrency } from "@/lib/mexican-utils";
+import { cancelAppointment } from "@/lib/appointment-cancellation";
+import { createTemplatedNotification } from "@/lib/notification-utils";
+import { getChannelAdapter } from "@/lib/notifications/delivery";
+import {
+  DEFAULT_NOTIFICATION_LOCALE,
+  formatTemplateDateTime,
+  isNotificationLocale,
+  NotificationLocale,
+} from "@/lib/notifications/templates";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezones";
+import { Appointment, Payment, WhatsAppReplyAction } from "@prisma/client";
+import { z } from "zod";
+
+export interface InboundWhatsAppMessage {
+  id: string; // wamid
+  from: string; // WhatsApp id, the phone number in international format
+  text: string;
+  // Message the patient replied to, e.g. the reminder
+  contextId: string | null;
+}
+
+export interface WhatsAppReplyResult {
+  action: WhatsAppReplyAction | null;
+  appointmentId: string | null;
+  reply: string;
+}
+
+interface ReplyPatient {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  timezone: string;
+  locale: string;
+}
+
+type ReplyAppointment = Appointment & { payment: Payment | null };
+
+const REPLY_ACTIONS: Record<string, WhatsAppReplyAction> = {
+  "1": "CONFIRM",
+  confirmar: "CONFIRM",
+  confirmo: "CONFIRM",
+  confirm: "CONFIRM",
+  "2": "CANCEL",
+  cancelar: "CANCEL",
+  cancelo: "CANCEL",
+  cancel: "CANCEL",
+  "3": "RESCHEDULE",
+  reprogramar: "RESCHEDULE",
+  reagendar: "RESCHEDULE",
+  reschedule: "RESCHEDULE",
+};
+
+const REPLIES: Record<
+  NotificationLocale,
+  {
+    help: string;
+    noAppointment: string;
+    confirmed: (when: string) => string;
+    alreadyConfirmed: (when: string) => string;
+    cancelled: (when: string, refund: string | null) => string;
+    reschedule: (url: string) => string;
+  }
+> = {
+  es: {
+    help: "Responda 1 para confirmar su cita, 2 para cancelarla o 3 para reprogramarla.",
+    noAppointment:
+      "No encontramos una cita próxima asociada a este número. Consulte sus citas en Medica Movil.",
+    confirmed: (when) => `¡Gracias! Su cita del ${when} quedó confirmada.`,
+    alreadyConfirmed: (when) => `Su cita del ${when} ya estaba confirmada.`,
+    cancelled: (when, refund) =>
+      `Su cita del ${when} fue cancelada.` +
+      (refund ? ` Recibirá un reembolso de ${refund}.` : ""),
+    reschedule: (url) => `Elija una nueva fecha para su cita aquí: ${url}`,
+  },
+  en: {
+    help: "Reply 1 to confirm your appointment, 2 to cancel it or 3 to reschedule it.",
+    noAppointment:
+      "We couldn't find an upcoming appointment for this number. Check your appointments in Medica Movil.",
+    confirmed: (when) => `Thank you! Your appointment on ${when} is confirmed.`,
+    alreadyConfirmed: (when) => `Your appointment on ${when} was already confirmed.`,
+    cancelled: (when, refund) =>
+      `Your appointment on ${when} was cancelled.` +
+      (refund ? ` You will receive a refund of ${refund}.` : ""),
+    reschedule: (url) => `Choose a new date for your appointment here: ${url}`,
+  },
+};
+
+/**
+ * Action requested by a reply: the option number or its word, with or
+ * without accents ("1", "Confirmar", "cancelo"...)
+ */
+export function parseWhatsAppReply(text: string): WhatsAppReplyAction | null {
+  const [word] = text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+    .split(/[^a-z0-9]+/);
+
+  return REPLY_ACTIONS[word] ?? null;
+}
+
+// Fields of the WhatsApp Business webhook payload that replies are read from
+const inboundMessageSchema = z.object({
+  id: z.string().min(1),
+  from: z.string().min(1),
+  text: z.object({ body: z.string() }).optional(),
+  button: z.object({ payload: z.string().optional(), text: z.string().optional() }).optional(),
+  interactive: z
+    .object({
+      button_reply: z
+        .object({ id: z.string().optional(), title: z.string().optional() })
+        .optional(),
+    })
+    .optional(),
+  context: z.object({ id: z.string() }).optional(),
+});
+
+const webhookPayloadSchema = z.object({
+  entry: z
+    .array(
+      z.object({
+        changes: z
+          .array(z.object({ value: z.object({ messages: z.array(z.unknown()).optional() }) }))
+          .optional(),
+      })
+    )
+    .optional(),
+});
+
+/**
+ * Incoming messages of a WhatsApp Business webhook payload. Replies through
+ * the quick-reply buttons of the reminder template arrive as buttons.
+ * Anything that isn't a text or button message is skipped.
+ */
+export function extractInboundMessages(payload: unknown): InboundWhatsAppMessage[] {
+  const parsed = webhookPayloadSchema.safeParse(payload);
+  if (!parsed.success) return [];
+
+  const messages: InboundWhatsAppMessage[] = [];
+
+  for (const entry of parsed.data.entry ?? []) {
+    for (const change of entry.changes ?? []) {
+      for (const rawMessage of change.value.messages ?? []) {
+        const result = inboundMessageSchema.safeParse(rawMessage);
+        if (!result.success) continue;
+
+        const message = result.data;
+        const text =
+          message.text?.body ??
+          message.button?.payload ??
+          message.button?.text ??
+          message.interactive?.button_reply?.id ??
+          message.interactive?.button_reply?.title;
+        if (text === undefined) continue;
+
+        messages.push({
+          id: message.id,
+          from: message.from,
+          text,
+          contextId: message.context?.id ?? null,
+        });
+      }
+    }
+  }
+
+  return messages;
+}
+
+const patientSelect = {
+  id: true,
+  name: true,
+  email: true,
+  phone: true,
+  timezone: true,
+  locale: true,
+} as const;
+
+/**
+ * Appointment a reply refers to: the one of the reminder it answers or,
+ * when the patient wrote a new message, their next upcoming appointment
+ */
+async function findReplyTarget(
+  message: InboundWhatsAppMessage,
+  now: Date
+): Promise<{ patient: ReplyPatient | null; appointment: ReplyAppointment | null }> {
+  if (message.contextId) {
+    const reminder = await prisma.notification.findFirst({
+      where: { providerMessageId: message.contextId, type: "WHATSAPP" },
+      select: { metadata: true, user: { select: patientSelect } },
+    });
+
+    let appointmentId: string | undefined;
+    try {
+      appointmentId = reminder?.metadata ? JSON.parse(reminder.metadata).appointmentId : undefined;
+    } catch {
+      appointmentId = undefined;
+    }
+
+    if (reminder && appointmentId) {
+      const appointment = await prisma.appointment.findFirst({
+        where: { id: appointmentId, patientId: reminder.user.id },
+        include: { payment: true },
+      });
+      if (appointment) return { patient: reminder.user, appointment };
+    }
+  }
+
+  // Los números de WhatsApp de México pueden traer el 1 de celular: se
+  // comparan los últimos 10 dígitos
+  const phone = message.from.replace(/\D/g, "").slice(-10);
+  const patient = await prisma.user.findFirst({
+    where: { phone: { endsWith: phone }, role: "PATIENT" },
+    select: patientSelect,
+  });
+  if (!patient) return { patient: null, appointment: null };
+
+  const appointment = await prisma.appointment.findFirst({
+    where: {
+      patientId: patient.id,
+      status: { in: ["PENDING", "CONFIRMED"] },
+      scheduledAt: { gt: now },
+    },
+    include: { payment: true },
+    orderBy: { scheduledAt: "asc" },
+  });
+
+  return { patient, appointment };
+}
+
+async function confirmAppointment(appointment: ReplyAppointment) {
+  await prisma.appointment.update({
+    where: { id: appointment.id },
+    data: { status: "CONFIRMED" },
+  });
+  await prisma.chatRoom.updateMany({
+    where: { appointmentId: appointment.id },
+    data: { isActive: true },
+  });
+
+  try {
+    await notifyDoctorOfConfirmation(appointment);
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: "WhatsApp confirmation notification",
+      action: "handleWhatsAppReply - notifyDoctorOfConfirmation",
+      appointmentId: appointment.id,
+    });
+  }
+}
+
+async function notifyDoctorOfConfirmation(appointment: ReplyAppointment) {
+  const details = await prisma.appointment.findUnique({
+    where: { id: appointment.id },
+    select: {
+      patient: { select: { name: true } },
+      doctor: { select: { user: { select: { id: true, timezone: true, locale: true } } } },
+    },
+  });
+  if (!details) return;
+
+  const doctor = details.doctor.user;
+  const locale = isNotificationLocale(doctor.locale) ? doctor.locale : DEFAULT_NOTIFICATION_LOCALE;
+  await createTemplatedNotification({
+    userId: doctor.id,
+    type: "EMAIL",
+    template: "appointment.confirmed.doctor",
+    locale,
+    variables: {
+      patientName: details.patient.name,
+      ...formatTemplateDateTime(appointment.scheduledAt, doctor.timezone, locale),
+    },
+    appointmentAt: appointment.scheduledAt,
+    metadata: { appointmentId: appointment.id, via: "whatsapp" },
+  });
+}
+
+async function applyReply(
+  action: WhatsAppReplyAction | null,
+  appointment: ReplyAppointment,
+  patient: ReplyPatient
+): Promise<string> {
+  const locale = isNotificationLocale(patient.locale) ? patient.locale : DEFAULT_NOTIFICATION_LOCALE;
+  const replies = REPLIES[locale];
+  const { date, time } = formatTemplateDateTime(
+    appointment.scheduledAt,
+    patient.timezone || DEFAULT_TIME_ZONE,
+    locale
+  );
+  const when = `${date}, ${time}`;
+
+  switch (action) {
+    case "CONFIRM":
+      if (appointment.status === "CONFIRMED") return replies.alreadyConfirmed(when);
+      await confirmAppointment(appointment);
+      return replies.confirmed(when);
+
+    case "CANCEL": {
+      const { refund } = await cancelAppointment(appointment, {
+        cancelledBy: "PATIENT",
+        reason: "Cancelado por el paciente vía WhatsApp",
+      });
+      return replies.cancelled(when, refund ? formatMexicanCurrency(refund.amount) : null);
+    }
+
+    case "RESCHEDULE":
+      return replies.reschedule(`${process.env.NEXTAUTH_URL || ""}/paciente/citas`);
+
+    default:
+      return replies.help;
+  }
+}
+
+/**
+ * Handle a patient's reply to an appointment reminder: "1" confirms a pending
+ * appointment, "2" cancels it with the doctor's cancellation policy and "3"
+ * sends the link to reschedule it. Both the reply and the answer are logged
+ * in the conversation. Returns null for messages already handled, which
+ * WhatsApp may deliver more than once.
+ */
+export async function handleWhatsAppReply(
+  message: InboundWhatsAppMessage,
+  now: Date = new Date()
+): Promise<WhatsAppReplyResult | null> {
+  const duplicate = await prisma.whatsAppMessage.findUnique({
+    where: { providerMessageId: message.id },
+    select: { id: true },
+  });
+  if (duplicate) return null;
+
+  const action = parseWhatsAppReply(message.text);
+  const { patient, appointment } = await findReplyTarget(message, now);
+  const actionable =
+    appointment && ["PENDING", "CONFIRMED"].includes(appointment.status) ? appointment : null;
+
+  await prisma.whatsAppMessage.create({
+    data: {
+      direction: "INBOUND",
+      phone: message.from,
+      body: message.text,
+      action,
+      providerMessageId: message.id,
+      userId: patient?.id ?? null,
+      appointmentId: appointment?.id ?? null,
+    },
+  });
+
+  const reply =
+    patient && actionable
+      ? await applyReply(action, actionable, patient)
+      : REPLIES[
+          patient && isNotificationLocale(patient.locale)
+            ? patient.locale
+            : DEFAULT_NOTIFICATION_LOCALE
+        ].noAppointment;
+
+  await sendReply(message, reply, patient, actionable?.id ?? null);
+
+  return { action: actionable ? action : null, appointmentId: actionable?.id ?? null, reply };
+}
+
+// Dentro de la ventana de 24 h tras un mensaje del paciente se puede
+// responder con texto libre
+async function sendReply(
+  message: InboundWhatsAppMessage,
+  reply: string,
+  patient: ReplyPatient | null,
+  appointmentId: string | null
+) {
+  const adapter = getChannelAdapter("WHATSAPP");
+  if (!adapter) return;
+
+  try {
+    const result = await adapter.send({
+      notificationId: message.id,
+      to: {
+        name: patient?.name ?? "",
+        email: patient?.email ?? "",
+        phone: message.from,
+      },
+      title: "Medica Movil",
+      message: reply,
+    });
+
+    await prisma.whatsAppMessage.create({
+      data: {
+        direction: "OUTBOUND",
+        phone: message.from,
+        body: reply,
+        providerMessageId: result.providerMessageId ?? null,
+        userId: patient?.id ?? null,
+        appointmentId,
+      },
+    });
+
+    if (!result.success) {
+      throw new Error(result.error || "WhatsApp reply failed");
+    }
+  } catch (error) {
+    ErrorLogger.log(error as Error, {
+      context: "WhatsApp reply",
+      action: "handleWhatsAppReply - sendReply",
+      messageId: message.id,
+    });
+  }
+}
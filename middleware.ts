@@ -21,6 +21,8 @@ export async function middleware(request: NextRequest) {
     "/sobre-nosotros",
     "/contacto",
     "/beneficios-doctores",
+    "/recetas/verificar",
+    "/api/prescriptions/verify",
   ];
 
   // Si es una ruta pública, permitir acceso
@@ -106,8 +108,9 @@ export const config = {
      * - _next/static (archivos estáticos)
      * - _next/image (optimización de imágenes)
      * - favicon.ico (favicon)
+     * - push-sw.js (service worker de notificaciones push)
      * - public (archivos públicos)
      */
-    "/((?!api|_next/static|_next/image|favicon.ico|public).*)",
+    "/((?!api|_next/static|_next/image|favicon.ico|push-sw.js|public).*)",
   ],
 };
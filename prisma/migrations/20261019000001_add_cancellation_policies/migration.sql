@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "cancellation_policies" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "consultationType" "ConsultationType",
+    "name" TEXT NOT NULL,
+    "tiers" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cancellation_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cancellation_policies_doctorId_consultationType_key" ON "cancellation_policies"("doctorId", "consultationType");
+
+-- AddForeignKey
+ALTER TABLE "cancellation_policies" ADD CONSTRAINT "cancellation_policies_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "doctor_availability" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "dayOfWeek" INTEGER NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "consultationTypes" "ConsultationType"[],
+    "effectiveFrom" TIMESTAMP(3),
+    "effectiveUntil" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "doctor_availability_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "doctor_availability_doctorId_dayOfWeek_idx" ON "doctor_availability"("doctorId", "dayOfWeek");
+
+-- AddForeignKey
+ALTER TABLE "doctor_availability" ADD CONSTRAINT "doctor_availability_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- MigrateData: one availability row per { from, to } range in doctors."workingHours"
+INSERT INTO "doctor_availability" ("id", "doctorId", "dayOfWeek", "startTime", "endTime", "consultationTypes", "isActive", "createdAt", "updatedAt")
+SELECT
+    gen_random_uuid()::text,
+    d."id",
+    CASE day.key
+        WHEN 'sunday' THEN 0
+        WHEN 'monday' THEN 1
+        WHEN 'tuesday' THEN 2
+        WHEN 'wednesday' THEN 3
+        WHEN 'thursday' THEN 4
+        WHEN 'friday' THEN 5
+        WHEN 'saturday' THEN 6
+    END,
+    slot.value ->> 'from',
+    slot.value ->> 'to',
+    '{}',
+    true,
+    CURRENT_TIMESTAMP,
+    CURRENT_TIMESTAMP
+FROM (SELECT * FROM "doctors" WHERE jsonb_typeof("workingHours") = 'object') d
+CROSS JOIN LATERAL jsonb_each(d."workingHours") AS day(key, value)
+CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(day.value) = 'array' THEN day.value ELSE '[]'::jsonb END
+) AS slot(value)
+WHERE day.key IN ('sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday')
+  AND slot.value ? 'from'
+  AND slot.value ? 'to';
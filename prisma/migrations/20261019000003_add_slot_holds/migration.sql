@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "SlotHoldStatus" AS ENUM ('ACTIVE', 'CONVERTED', 'RELEASED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "slot_holds" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "type" "ConsultationType" NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "status" "SlotHoldStatus" NOT NULL DEFAULT 'ACTIVE',
+    "appointmentId" TEXT,
+    "convertedAt" TIMESTAMP(3),
+    "releasedAt" TIMESTAMP(3),
+    "releaseReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "slot_holds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "slot_holds_appointmentId_key" ON "slot_holds"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "slot_holds_doctorId_startsAt_idx" ON "slot_holds"("doctorId", "startsAt");
+
+-- CreateIndex
+CREATE INDEX "slot_holds_status_expiresAt_idx" ON "slot_holds"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Overlap protection: a doctor cannot have two live holds on overlapping time
+-- ranges. Not expressible in the Prisma schema, so it is managed here and,
+-- for databases set up with `prisma db push`, by `npm run db:constraints`.
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE "slot_holds" ADD CONSTRAINT "slot_holds_no_overlap" EXCLUDE USING gist (
+    "doctorId" WITH =,
+    tsrange("startsAt", "endsAt") WITH &&
+) WHERE ("status" IN ('ACTIVE', 'CONVERTED'));
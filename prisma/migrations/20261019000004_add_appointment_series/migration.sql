@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('WEEKLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "SeriesStatus" AS ENUM ('ACTIVE', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "appointment_series" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "type" "ConsultationType" NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "count" INTEGER,
+    "until" TIMESTAMP(3),
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "notes" TEXT,
+    "status" "SeriesStatus" NOT NULL DEFAULT 'ACTIVE',
+    "cancelledAt" TIMESTAMP(3),
+    "cancellationReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointment_series_patientId_idx" ON "appointment_series"("patientId");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_doctorId_idx" ON "appointment_series"("doctorId");
+
+-- CreateIndex
+CREATE INDEX "appointments_seriesId_idx" ON "appointments"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "appointments" ADD CONSTRAINT "appointments_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "appointment_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
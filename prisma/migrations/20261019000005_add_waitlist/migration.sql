@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'OFFERED', 'FULFILLED', 'CANCELLED', 'EXPIRED');
+
+-- CreateEnum
+CREATE TYPE "WaitlistOfferStatus" AS ENUM ('PENDING', 'CLAIMED', 'DECLINED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "type" "ConsultationType" NOT NULL,
+    "dateFrom" TIMESTAMP(3) NOT NULL,
+    "dateTo" TIMESTAMP(3) NOT NULL,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "waitlist_offers" (
+    "id" TEXT NOT NULL,
+    "entryId" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "token" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "status" "WaitlistOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "slotHoldId" TEXT,
+    "claimedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "waitlist_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_doctorId_status_createdAt_idx" ON "waitlist_entries"("doctorId", "status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_patientId_idx" ON "waitlist_entries"("patientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "waitlist_offers_token_key" ON "waitlist_offers"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "waitlist_offers_slotHoldId_key" ON "waitlist_offers"("slotHoldId");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_status_expiresAt_idx" ON "waitlist_offers"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_entryId_idx" ON "waitlist_offers"("entryId");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_offers" ADD CONSTRAINT "waitlist_offers_entryId_fkey" FOREIGN KEY ("entryId") REFERENCES "waitlist_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_offers" ADD CONSTRAINT "waitlist_offers_slotHoldId_fkey" FOREIGN KEY ("slotHoldId") REFERENCES "slot_holds"("id") ON DELETE SET NULL ON UPDATE CASCADE;
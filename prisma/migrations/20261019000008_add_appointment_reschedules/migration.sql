@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "rescheduleCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "reschedule_policies" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "maxReschedules" INTEGER NOT NULL DEFAULT 2,
+    "freeHoursBefore" INTEGER NOT NULL DEFAULT 24,
+    "lateFeePercentage" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "reschedule_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "appointment_reschedules" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "previousScheduledAt" TIMESTAMP(3) NOT NULL,
+    "newScheduledAt" TIMESTAMP(3) NOT NULL,
+    "previousType" "ConsultationType" NOT NULL,
+    "newType" "ConsultationType" NOT NULL,
+    "previousPrice" INTEGER NOT NULL,
+    "newPrice" INTEGER NOT NULL,
+    "fee" INTEGER NOT NULL DEFAULT 0,
+    "refundAmount" INTEGER NOT NULL DEFAULT 0,
+    "balanceDue" INTEGER NOT NULL DEFAULT 0,
+    "rescheduledBy" TEXT NOT NULL,
+    "rescheduledById" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_reschedules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reschedule_policies_doctorId_key" ON "reschedule_policies"("doctorId");
+
+-- CreateIndex
+CREATE INDEX "appointment_reschedules_appointmentId_idx" ON "appointment_reschedules"("appointmentId");
+
+-- AddForeignKey
+ALTER TABLE "reschedule_policies" ADD CONSTRAINT "reschedule_policies_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_reschedules" ADD CONSTRAINT "appointment_reschedules_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "NotificationDeliveryStatus" AS ENUM ('PENDING', 'SENT', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "deliveryStatus" "NotificationDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "nextAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "providerMessageId" TEXT;
+
+-- Existing notifications were stamped as sent when created
+UPDATE "notifications" SET "deliveryStatus" = 'SENT' WHERE "sentAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "notifications_deliveryStatus_nextAttemptAt_idx" ON "notifications"("deliveryStatus", "nextAttemptAt");
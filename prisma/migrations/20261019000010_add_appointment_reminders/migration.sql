@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "ReminderKind" AS ENUM ('DAY_BEFORE', 'HOUR_BEFORE');
+
+-- CreateTable
+CREATE TABLE "appointment_reminders" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "kind" "ReminderKind" NOT NULL,
+    "channel" "NotificationType" NOT NULL,
+    "scheduledFor" TIMESTAMP(3) NOT NULL,
+    "notificationId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_reminders_appointmentId_userId_kind_channel_sch_key" ON "appointment_reminders"("appointmentId", "userId", "kind", "channel", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "appointment_reminders" ADD CONSTRAINT "appointment_reminders_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "NotificationDeliveryStatus" ADD VALUE 'BATCHED';
+
+-- CreateEnum
+CREATE TYPE "NotificationDigestMode" AS ENUM ('IMMEDIATE', 'HOURLY', 'DAILY');
+
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN     "digestMode" "NotificationDigestMode" NOT NULL DEFAULT 'IMMEDIATE';
+
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "digestId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "notifications_deliveryStatus_userId_idx" ON "notifications"("deliveryStatus", "userId");
@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "WhatsAppMessageDirection" AS ENUM ('INBOUND', 'OUTBOUND');
+
+-- CreateEnum
+CREATE TYPE "WhatsAppReplyAction" AS ENUM ('CONFIRM', 'CANCEL', 'RESCHEDULE');
+
+-- CreateTable
+CREATE TABLE "whatsapp_messages" (
+    "id" TEXT NOT NULL,
+    "direction" "WhatsAppMessageDirection" NOT NULL,
+    "phone" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "action" "WhatsAppReplyAction",
+    "providerMessageId" TEXT,
+    "userId" TEXT,
+    "appointmentId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "whatsapp_messages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "whatsapp_messages_providerMessageId_key" ON "whatsapp_messages"("providerMessageId");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_messages_phone_createdAt_idx" ON "whatsapp_messages"("phone", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "whatsapp_messages_appointmentId_idx" ON "whatsapp_messages"("appointmentId");
+
+-- AddForeignKey
+ALTER TABLE "whatsapp_messages" ADD CONSTRAINT "whatsapp_messages_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "whatsapp_messages" ADD CONSTRAINT "whatsapp_messages_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "NoShowSource" AS ENUM ('AUTOMATIC', 'DOCTOR');
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "noShowCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastNoShowAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "depositAmount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "checkedInAt" TIMESTAMP(3),
+ADD COLUMN     "noShowAt" TIMESTAMP(3),
+ADD COLUMN     "noShowSource" "NoShowSource";
+
+-- CreateTable
+CREATE TABLE "no_show_policies" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "graceMinutes" INTEGER NOT NULL DEFAULT 15,
+    "depositThreshold" INTEGER NOT NULL DEFAULT 2,
+    "depositPercentage" INTEGER NOT NULL DEFAULT 50,
+    "blockThreshold" INTEGER NOT NULL DEFAULT 4,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "no_show_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "no_show_policies_doctorId_key" ON "no_show_policies"("doctorId");
+
+-- AddForeignKey
+ALTER TABLE "no_show_policies" ADD CONSTRAINT "no_show_policies_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
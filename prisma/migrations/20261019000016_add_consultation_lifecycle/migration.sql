@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "AppointmentStatus" ADD VALUE 'CHECKED_IN';
+ALTER TYPE "AppointmentStatus" ADD VALUE 'IN_CONSULTATION';
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "startedAt" TIMESTAMP(3),
+ADD COLUMN     "finishedAt" TIMESTAMP(3),
+ADD COLUMN     "actualDuration" INTEGER;
@@ -0,0 +1,58 @@
+-- CreateEnum
+CREATE TYPE "ClinicalNoteStatus" AS ENUM ('DRAFT', 'SIGNED');
+
+-- CreateTable
+CREATE TABLE "clinical_notes" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "status" "ClinicalNoteStatus" NOT NULL DEFAULT 'DRAFT',
+    "currentVersion" INTEGER NOT NULL DEFAULT 1,
+    "signedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "clinical_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "clinical_note_versions" (
+    "id" TEXT NOT NULL,
+    "noteId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "status" "ClinicalNoteStatus" NOT NULL DEFAULT 'DRAFT',
+    "subjective" TEXT,
+    "objective" TEXT,
+    "assessment" TEXT,
+    "plan" TEXT,
+    "instructions" TEXT,
+    "vitals" JSONB,
+    "diagnoses" JSONB,
+    "signedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "clinical_note_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clinical_notes_appointmentId_key" ON "clinical_notes"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "clinical_notes_patientId_idx" ON "clinical_notes"("patientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "clinical_note_versions_noteId_version_key" ON "clinical_note_versions"("noteId", "version");
+
+-- AddForeignKey
+ALTER TABLE "clinical_notes" ADD CONSTRAINT "clinical_notes_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "clinical_notes" ADD CONSTRAINT "clinical_notes_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "clinical_notes" ADD CONSTRAINT "clinical_notes_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "clinical_note_versions" ADD CONSTRAINT "clinical_note_versions_noteId_fkey" FOREIGN KEY ("noteId") REFERENCES "clinical_notes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
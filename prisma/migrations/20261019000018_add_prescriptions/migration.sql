@@ -0,0 +1,61 @@
+-- CreateTable
+CREATE TABLE "prescriptions" (
+    "id" TEXT NOT NULL,
+    "appointmentId" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "verificationCode" TEXT NOT NULL,
+    "cedulaProfesional" TEXT NOT NULL,
+    "diagnosis" TEXT,
+    "notes" TEXT,
+    "medicalFileId" TEXT,
+    "issuedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prescriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "prescription_items" (
+    "id" TEXT NOT NULL,
+    "prescriptionId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "medication" TEXT NOT NULL,
+    "dose" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "duration" TEXT NOT NULL,
+    "instructions" TEXT,
+
+    CONSTRAINT "prescription_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prescriptions_verificationCode_key" ON "prescriptions"("verificationCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prescriptions_medicalFileId_key" ON "prescriptions"("medicalFileId");
+
+-- CreateIndex
+CREATE INDEX "prescriptions_appointmentId_idx" ON "prescriptions"("appointmentId");
+
+-- CreateIndex
+CREATE INDEX "prescriptions_patientId_idx" ON "prescriptions"("patientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prescription_items_prescriptionId_position_key" ON "prescription_items"("prescriptionId", "position");
+
+-- AddForeignKey
+ALTER TABLE "prescriptions" ADD CONSTRAINT "prescriptions_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prescriptions" ADD CONSTRAINT "prescriptions_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prescriptions" ADD CONSTRAINT "prescriptions_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prescriptions" ADD CONSTRAINT "prescriptions_medicalFileId_fkey" FOREIGN KEY ("medicalFileId") REFERENCES "medical_files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prescription_items" ADD CONSTRAINT "prescription_items_prescriptionId_fkey" FOREIGN KEY ("prescriptionId") REFERENCES "prescriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
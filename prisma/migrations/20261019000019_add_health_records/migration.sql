@@ -0,0 +1,48 @@
+-- CreateEnum
+CREATE TYPE "BloodType" AS ENUM ('A_POSITIVE', 'A_NEGATIVE', 'B_POSITIVE', 'B_NEGATIVE', 'AB_POSITIVE', 'AB_NEGATIVE', 'O_POSITIVE', 'O_NEGATIVE');
+
+-- CreateEnum
+CREATE TYPE "HealthRecordAction" AS ENUM ('VIEW', 'UPDATE');
+
+-- CreateTable
+CREATE TABLE "health_records" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "bloodType" "BloodType",
+    "allergies" JSONB NOT NULL DEFAULT '[]',
+    "conditions" JSONB NOT NULL DEFAULT '[]',
+    "medications" JSONB NOT NULL DEFAULT '[]',
+    "vaccinations" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "health_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "health_record_access_logs" (
+    "id" TEXT NOT NULL,
+    "patientId" TEXT NOT NULL,
+    "actorId" TEXT NOT NULL,
+    "actorRole" "UserRole" NOT NULL,
+    "action" "HealthRecordAction" NOT NULL,
+    "changes" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "health_record_access_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "health_records_patientId_key" ON "health_records"("patientId");
+
+-- CreateIndex
+CREATE INDEX "health_record_access_logs_patientId_createdAt_idx" ON "health_record_access_logs"("patientId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "health_records" ADD CONSTRAINT "health_records_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "health_record_access_logs" ADD CONSTRAINT "health_record_access_logs_patientId_fkey" FOREIGN KEY ("patientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "health_record_access_logs" ADD CONSTRAINT "health_record_access_logs_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,78 @@
+-- CreateEnum
+CREATE TYPE "InvoiceStatus" AS ENUM ('PENDING', 'STAMPED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "InvoiceEmitterType" AS ENUM ('DOCTOR', 'PLATFORM');
+
+-- CreateTable
+CREATE TABLE "fiscal_profiles" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "rfc" TEXT NOT NULL,
+    "legalName" TEXT NOT NULL,
+    "taxRegime" TEXT NOT NULL,
+    "zipCode" TEXT NOT NULL,
+    "cfdiUse" TEXT NOT NULL DEFAULT 'D01',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fiscal_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoices" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "doctorId" TEXT,
+    "status" "InvoiceStatus" NOT NULL DEFAULT 'PENDING',
+    "series" TEXT NOT NULL,
+    "folio" SERIAL NOT NULL,
+    "emitterType" "InvoiceEmitterType" NOT NULL,
+    "emitterRfc" TEXT NOT NULL,
+    "emitterName" TEXT NOT NULL,
+    "emitterRegime" TEXT NOT NULL,
+    "receiverRfc" TEXT NOT NULL,
+    "receiverName" TEXT NOT NULL,
+    "receiverRegime" TEXT NOT NULL,
+    "receiverZipCode" TEXT NOT NULL,
+    "cfdiUse" TEXT NOT NULL,
+    "paymentForm" TEXT NOT NULL,
+    "taxTreatment" TEXT NOT NULL,
+    "subtotal" INTEGER NOT NULL,
+    "tax" INTEGER NOT NULL,
+    "total" INTEGER NOT NULL,
+    "uuid" TEXT,
+    "xml" TEXT,
+    "pacName" TEXT,
+    "failureReason" TEXT,
+    "stampedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fiscal_profiles_userId_key" ON "fiscal_profiles"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_paymentId_key" ON "invoices"("paymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_uuid_key" ON "invoices"("uuid");
+
+-- CreateIndex
+CREATE INDEX "invoices_userId_idx" ON "invoices"("userId");
+
+-- AddForeignKey
+ALTER TABLE "fiscal_profiles" ADD CONSTRAINT "fiscal_profiles_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "voucherClabe" TEXT,
+ADD COLUMN     "voucherExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "voucherReference" TEXT,
+ADD COLUMN     "voucherUrl" TEXT;
+
+-- CreateIndex
+CREATE INDEX "payments_status_voucherExpiresAt_idx" ON "payments"("status", "voucherExpiresAt");
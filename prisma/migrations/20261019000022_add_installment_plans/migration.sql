@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "doctors" ADD COLUMN     "installmentMinAmount" INTEGER;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "installmentFee" INTEGER,
+ADD COLUMN     "installmentInterestFree" BOOLEAN,
+ADD COLUMN     "installmentMonths" INTEGER;
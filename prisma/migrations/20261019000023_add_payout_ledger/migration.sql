@@ -0,0 +1,91 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccount" AS ENUM ('PROVIDER_BALANCE', 'DOCTOR_PAYABLE', 'PLATFORM_REVENUE');
+
+-- CreateEnum
+CREATE TYPE "LedgerTransactionType" AS ENUM ('PAYMENT_SPLIT', 'REFUND_REVERSAL', 'PAYOUT');
+
+-- CreateEnum
+CREATE TYPE "PayoutSettlementStatus" AS ENUM ('PENDING', 'PAID', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "doctors" ADD COLUMN     "commissionRate" DOUBLE PRECISION,
+ADD COLUMN     "payoutAccountHolder" TEXT,
+ADD COLUMN     "payoutClabe" TEXT;
+
+-- CreateTable
+CREATE TABLE "ledger_transactions" (
+    "id" TEXT NOT NULL,
+    "type" "LedgerTransactionType" NOT NULL,
+    "idempotencyKey" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "paymentId" TEXT,
+    "settlementId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "account" "LedgerAccount" NOT NULL,
+    "doctorId" TEXT,
+    "amount" INTEGER NOT NULL,
+    "settlementId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payout_settlements" (
+    "id" TEXT NOT NULL,
+    "doctorId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "clabe" TEXT NOT NULL,
+    "accountHolder" TEXT,
+    "status" "PayoutSettlementStatus" NOT NULL DEFAULT 'PENDING',
+    "trackingKey" TEXT,
+    "failureReason" TEXT,
+    "paidAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payout_settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_transactions_idempotencyKey_key" ON "ledger_transactions"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_paymentId_idx" ON "ledger_transactions"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_doctorId_account_settlementId_idx" ON "ledger_entries"("doctorId", "account", "settlementId");
+
+-- CreateIndex
+CREATE INDEX "payout_settlements_status_idx" ON "payout_settlements"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payout_settlements_doctorId_periodEnd_key" ON "payout_settlements"("doctorId", "periodEnd");
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_settlementId_fkey" FOREIGN KEY ("settlementId") REFERENCES "payout_settlements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "ledger_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_settlementId_fkey" FOREIGN KEY ("settlementId") REFERENCES "payout_settlements"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payout_settlements" ADD CONSTRAINT "payout_settlements_doctorId_fkey" FOREIGN KEY ("doctorId") REFERENCES "doctors"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
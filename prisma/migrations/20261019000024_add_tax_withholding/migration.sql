@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "LedgerAccount" ADD VALUE 'TAX_WITHHELD';
+
+-- AlterTable
+ALTER TABLE "doctors" ADD COLUMN     "ivaExempt" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "payout_settlements" ADD COLUMN     "isrWithheld" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "ivaWithheld" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rfc" TEXT,
+ADD COLUMN     "taxRegime" TEXT;
+
+-- CreateIndex
+CREATE INDEX "payout_settlements_doctorId_paidAt_idx" ON "payout_settlements"("doctorId", "paidAt");
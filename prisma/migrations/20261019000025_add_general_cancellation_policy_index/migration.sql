@@ -0,0 +1,13 @@
+-- Keep the most recently updated general policy of each doctor
+DELETE FROM "cancellation_policies" p
+USING "cancellation_policies" newer
+WHERE p."consultationType" IS NULL
+  AND newer."consultationType" IS NULL
+  AND newer."doctorId" = p."doctorId"
+  AND (newer."updatedAt", newer."id") > (p."updatedAt", p."id");
+
+-- One general policy per doctor. The (doctorId, consultationType) unique index
+-- doesn't cover it because Postgres treats NULLs as distinct. Not expressible
+-- in the Prisma schema, so it is managed here and, for databases set up with
+-- `prisma db push`, by `npm run db:constraints`.
+CREATE UNIQUE INDEX "cancellation_policies_doctorId_general_key" ON "cancellation_policies"("doctorId") WHERE "consultationType" IS NULL;
@@ -0,0 +1,65 @@
+/* Service worker de Medica Movil: muestra las notificaciones Web Push
+ * aunque no haya ninguna pestaña abierta. El payload lo genera
+ * lib/notifications/web-push.ts: { title, body, tag, url }. */
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener("push", (event) => {
+  let payload = { title: "Medica Movil", body: "", tag: undefined, url: "/notificaciones" };
+
+  if (event.data) {
+    try {
+      payload = { ...payload, ...event.data.json() };
+    } catch {
+      payload.body = event.data.text();
+    }
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      icon: "/favicon.ico",
+      badge: "/favicon.ico",
+      data: { url: payload.url },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url === url);
+      if (open) return open.focus();
+      return self.clients.openWindow(url);
+    })
+  );
+});
+
+// El navegador renovó la suscripción: se registra de nuevo en el servidor
+self.addEventListener("pushsubscriptionchange", (event) => {
+  const { applicationServerKey } = event.oldSubscription?.options ?? {};
+  if (!applicationServerKey) return;
+
+  event.waitUntil(
+    self.registration.pushManager
+      .subscribe({ userVisibleOnly: true, applicationServerKey })
+      .then((subscription) =>
+        fetch("/api/notifications/push", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          credentials: "include",
+          body: JSON.stringify(subscription.toJSON()),
+        })
+      )
+  );
+});
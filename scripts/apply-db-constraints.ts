@@ -0,0 +1,66 @@
+#!/usr/bin/env tsx
+
+/**
+ * Creates the database constraints the Prisma schema can't express, which
+ * `prisma db push` therefore never creates, and fails when any of them is
+ * missing. Runs after every db push (see package.json); with --check it only
+ * verifies them.
+ */
+
+import { config } from "dotenv";
+import { prisma } from "../lib/db";
+import {
+  ensureGeneralPolicyIndex,
+  GENERAL_POLICY_INDEX,
+  hasGeneralPolicyIndex,
+} from "../lib/cancellation-policy";
+import {
+  ensureSlotOverlapConstraint,
+  hasSlotOverlapConstraint,
+  SLOT_HOLD_OVERLAP_CONSTRAINT,
+} from "../lib/slot-holds";
+
+// Load environment variables
+config();
+
+const constraints = [
+  {
+    name: SLOT_HOLD_OVERLAP_CONSTRAINT,
+    ensure: ensureSlotOverlapConstraint,
+    exists: hasSlotOverlapConstraint,
+  },
+  {
+    name: GENERAL_POLICY_INDEX,
+    ensure: ensureGeneralPolicyIndex,
+    exists: hasGeneralPolicyIndex,
+  },
+];
+
+async function main() {
+  const checkOnly = process.argv.includes("--check");
+
+  if (!checkOnly) {
+    console.log("🔄 Applying database constraints...");
+    for (const constraint of constraints) {
+      await constraint.ensure();
+    }
+  }
+
+  for (const constraint of constraints) {
+    if (!(await constraint.exists())) {
+      console.error(`❌ Missing constraint: ${constraint.name}`);
+      console.error("   Run `npm run db:constraints` to create it");
+      process.exitCode = 1;
+      continue;
+    }
+
+    console.log(`✅ Constraint ${constraint.name} is in place`);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error("❌ Failed to apply database constraints:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { workingHoursToAvailability } from '../lib/doctor-availability';
 
 const prisma = new PrismaClient();
 
@@ -75,7 +76,7 @@ async function createTestUsers() {
     });
 
     // Crear perfil de doctor
-    await prisma.doctor.upsert({
+    const doctorProfile = await prisma.doctor.upsert({
       where: { userId: doctorUser.id },
       update: {},
       create: {
@@ -111,6 +112,19 @@ async function createTestUsers() {
         isAvailable: true,
       },
     });
+
+    // Crear disponibilidad a partir del horario de trabajo
+    const existingAvailability = await prisma.doctorAvailability.count({
+      where: { doctorId: doctorProfile.id },
+    });
+    if (existingAvailability === 0) {
+      await prisma.doctorAvailability.createMany({
+        data: workingHoursToAvailability(doctorProfile.workingHours as any).map((rule) => ({
+          ...rule,
+          doctorId: doctorProfile.id,
+        })),
+      });
+    }
     console.log('✅ Doctor creado:', doctorUser.email);
 
     // 4. Crear algunas especialidades médicas si no existen
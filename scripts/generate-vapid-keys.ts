@@ -0,0 +1,8 @@
+import { generateVapidKeys } from "../lib/notifications/vapid";
+
+// Prints a new key pair for Web Push. Changing the keys invalidates every
+// stored push subscription, so generate them once per environment.
+const { publicKey, privateKey } = generateVapidKeys();
+
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
@@ -0,0 +1,54 @@
+import { sendAppointmentReminders } from "../lib/appointment-reminders";
+import { prisma } from "../lib/db";
+import { detectNoShows } from "../lib/no-shows";
+import { processNotificationRetries } from "../lib/notifications/delivery";
+import { processNotificationDigests } from "../lib/notifications/digest";
+
+// Same work as POST /api/notifications/dispatch, for deployments that run a
+// long-lived worker instead of a cron job
+const INTERVAL_MS = Number(process.env.NOTIFICATION_WORKER_INTERVAL_MS) || 60 * 1000;
+
+let stopping = false;
+let timer: NodeJS.Timeout | null = null;
+
+async function tick() {
+  try {
+    const reminders = await sendAppointmentReminders();
+    const digests = await processNotificationDigests();
+    const retries = await processNotificationRetries();
+    const noShows = await detectNoShows();
+
+    if (
+      reminders.sent ||
+      reminders.deferred ||
+      digests.digests ||
+      retries.retried ||
+      noShows.marked
+    ) {
+      console.log(
+        `[${new Date().toISOString()}] Recordatorios enviados: ${reminders.sent}, ` +
+          `diferidos: ${reminders.deferred}, resúmenes: ${digests.digests}, ` +
+          `reintentos: ${retries.retried}, inasistencias: ${noShows.marked}`
+      );
+    }
+  } catch (error) {
+    console.error("Notification worker error:", error);
+  }
+
+  if (!stopping) {
+    timer = setTimeout(tick, INTERVAL_MS);
+  }
+}
+
+async function stop() {
+  stopping = true;
+  if (timer) clearTimeout(timer);
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on("SIGINT", stop);
+process.on("SIGTERM", stop);
+
+console.log(`🔔 Notification worker running every ${INTERVAL_MS / 1000}s`);
+tick();
@@ -10,6 +10,7 @@ import {
   VideoSessionType,
 } from "@prisma/client";
 import * as bcrypt from "bcryptjs";
+import { workingHoursToAvailability } from "../lib/doctor-availability";
 
 const prisma = new PrismaClient();
 
@@ -301,6 +302,7 @@ async function main() {
   await prisma.payment.deleteMany();
   await prisma.appointment.deleteMany();
   await prisma.doctorBlockedDay.deleteMany();
+  await prisma.doctorAvailability.deleteMany();
   await prisma.doctor.deleteMany();
   await prisma.patient.deleteMany();
   await prisma.session.deleteMany();
@@ -615,6 +617,16 @@ async function main() {
     },
   });
 
+  // Crear disponibilidad de los doctores a partir de su horario de trabajo
+  for (const doctor of [doctor1, doctor2, doctor3]) {
+    if (!doctor.doctorProfile) continue;
+    await prisma.doctorAvailability.createMany({
+      data: workingHoursToAvailability(
+        doctor.doctorProfile.workingHours as any
+      ).map((rule) => ({ ...rule, doctorId: doctor.doctorProfile!.id })),
+    });
+  }
+
   // 6. Crear algunas citas de ejemplo
   console.log("📅 Creando citas de ejemplo...");
 
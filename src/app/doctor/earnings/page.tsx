@@ -9,9 +9,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { toast } from 'sonner';
+import { formatMexicanCurrency } from '@/lib/mexican-utils';
 import {
   DollarSign,
   TrendingUp,
@@ -21,35 +23,42 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
-  Plus
+  Landmark,
+  FileText,
+  Download
 } from 'lucide-react';
 
-interface Payment {
+interface LedgerLine {
   id: string;
-  amount: number;
-  status: string;
+  type: 'PAYMENT_SPLIT' | 'REFUND_REVERSAL' | 'PAYOUT';
+  description: string;
   createdAt: string;
-  appointment: {
-    id: string;
-    scheduledAt: string;
-    patient: {
-      name: string;
-      email: string;
-    };
-  };
-  paymentDistributions: {
-    id: string;
-    amount: number;
-    status: string;
-  }[];
+  grossAmount: number | null;
+  doctorAmount: number;
+  platformAmount: number;
+  withheldAmount: number;
+  settlementId: string | null;
+  patientName: string | null;
+  scheduledAt: string | null;
 }
 
 interface EarningsSummary {
-  totalEarnings: number;
-  totalTransactions: number;
-  distributedEarnings: number;
-  distributedTransactions: number;
-  pendingAmount: number;
+  grossAmount: number;
+  commissions: number;
+  installmentFees: number;
+  earnings: number;
+  refunds: number;
+  paidOut: number;
+  isrWithheld: number;
+  ivaWithheld: number;
+  payments: number;
+  completedConsultations: number;
+}
+
+interface PayoutBalance {
+  unsettled: number;
+  inTransit: number;
+  paidOut: number;
 }
 
 interface MonthlyEarning {
@@ -58,17 +67,22 @@ interface MonthlyEarning {
   transactions: number;
 }
 
-interface Withdrawal {
+interface Settlement {
   id: string;
+  periodStart: string;
+  periodEnd: string;
   amount: number;
+  isrWithheld: number;
+  ivaWithheld: number;
+  clabe: string;
   status: string;
-  paymentMethod: string;
-  requestedAt: string;
-  processedAt?: string;
+  trackingKey: string | null;
+  failureReason: string | null;
+  paidAt: string | null;
 }
 
 interface EarningsData {
-  payments: Payment[];
+  lines: LedgerLine[];
   pagination: {
     page: number;
     limit: number;
@@ -76,22 +90,55 @@ interface EarningsData {
     pages: number;
   };
   summary: EarningsSummary;
+  balance: PayoutBalance;
   monthlyEarnings: MonthlyEarning[];
-  pendingWithdrawals: Withdrawal[];
+  settlements: Settlement[];
+  payoutAccount: {
+    clabe: string | null;
+    accountHolder: string | null;
+  };
+  commissionRate: number;
+  withholding: {
+    taxRegime: string | null;
+    ivaExempt: boolean;
+    rule: {
+      isrRate: number;
+      ivaShare: number;
+    } | null;
+  };
 }
 
+interface TaxForm {
+  rfc: string;
+  legalName: string;
+  taxRegime: string;
+  zipCode: string;
+  cfdiUse: string;
+  ivaExempt: boolean;
+}
+
+const LINE_TYPE_LABELS = {
+  PAYMENT_SPLIT: 'Pago',
+  REFUND_REVERSAL: 'Reembolso',
+  PAYOUT: 'Transferencia'
+};
+
+const SETTLEMENT_STATUS_LABELS = {
+  PENDING: 'En tránsito',
+  PAID: 'Pagada',
+  FAILED: 'Rechazada'
+};
+
 const STATUS_COLORS = {
   PENDING: 'bg-yellow-100 text-yellow-800',
-  COMPLETED: 'bg-green-100 text-green-800',
-  FAILED: 'bg-red-100 text-red-800',
-  REFUNDED: 'bg-gray-100 text-gray-800'
+  PAID: 'bg-green-100 text-green-800',
+  FAILED: 'bg-red-100 text-red-800'
 };
 
 const STATUS_ICONS = {
   PENDING: Clock,
-  COMPLETED: CheckCircle,
-  FAILED: XCircle,
-  REFUNDED: AlertCircle
+  PAID: CheckCircle,
+  FAILED: XCircle
 };
 
 export default function DoctorEarnings() {
@@ -99,21 +146,37 @@ export default function DoctorEarnings() {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [earningsData, setEarningsData] = useState<EarningsData | null>(null);
-  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
   const [activeTab, setActiveTab] = useState('overview');
-  const [showWithdrawalDialog, setShowWithdrawalDialog] = useState(false);
-  const [withdrawalForm, setWithdrawalForm] = useState({
-    amount: '',
-    paymentMethod: '',
-    accountDetails: ''
+  const [showAccountDialog, setShowAccountDialog] = useState(false);
+  const [accountForm, setAccountForm] = useState({
+    clabe: '',
+    accountHolder: ''
+  });
+  const [savingAccount, setSavingAccount] = useState(false);
+  const [showTaxDialog, setShowTaxDialog] = useState(false);
+  const [taxRegimes, setTaxRegimes] = useState<Record<string, string>>({});
+  const [taxForm, setTaxForm] = useState<TaxForm>({
+    rfc: '',
+    legalName: '',
+    taxRegime: '',
+    zipCode: '',
+    cfdiUse: '',
+    ivaExempt: true
+  });
+  const [savingTax, setSavingTax] = useState(false);
+  const [statementMonth, setStatementMonth] = useState(() => {
+    // Last closed month
+    const date = new Date();
+    date.setDate(1);
+    date.setMonth(date.getMonth() - 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
   });
-  const [submittingWithdrawal, setSubmittingWithdrawal] = useState(false);
 
   // Filters
   const [filters, setFilters] = useState({
     startDate: '',
     endDate: '',
-    status: '',
+    type: '',
     page: 1,
     limit: 10
   });
@@ -140,21 +203,6 @@ export default function DoctorEarnings() {
     }
   }, [filters]);
 
-  const loadWithdrawals = useCallback(async () => {
-    try {
-      const response = await fetch('/api/doctor/earnings', {
-        method: 'PATCH'
-      });
-      
-      if (response.ok) {
-        const data = await response.json();
-        setWithdrawals(data.withdrawals);
-      }
-    } catch (_error) {
-      // Error loading withdrawals - silent fail
-    }
-  }, []);
-
   useEffect(() => {
     if (status === 'loading') return;
     
@@ -164,48 +212,118 @@ export default function DoctorEarnings() {
     }
 
     loadEarningsData();
-    loadWithdrawals();
-  }, [session, status, router, loadEarningsData, loadWithdrawals]);
+  }, [session, status, router, loadEarningsData]);
+
+  const openAccountDialog = (open: boolean) => {
+    if (open) {
+      setAccountForm({
+        clabe: earningsData?.payoutAccount.clabe || '',
+        accountHolder: earningsData?.payoutAccount.accountHolder || ''
+      });
+    }
+    setShowAccountDialog(open);
+  };
 
-  const handleWithdrawalSubmit = async (e: React.FormEvent) => {
+  const handleAccountSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setSubmittingWithdrawal(true);
+    setSavingAccount(true);
 
     try {
-      const response = await fetch('/api/doctor/earnings', {
-        method: 'POST',
+      const response = await fetch('/api/doctor/payout-account', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(accountForm)
+      });
+
+      if (response.ok) {
+        toast.success('Cuenta de depósito actualizada');
+        setShowAccountDialog(false);
+        loadEarningsData();
+      } else {
+        const error = await response.json();
+        toast.error(error.details?.[0]?.message || error.error || 'Error al guardar la cuenta');
+      }
+    } catch (_error) {
+      toast.error('Error al guardar la cuenta');
+    } finally {
+      setSavingAccount(false);
+    }
+  };
+
+  const openTaxDialog = async (open: boolean) => {
+    setShowTaxDialog(open);
+    if (!open) return;
+
+    try {
+      const response = await fetch('/api/doctor/tax-settings');
+
+      if (response.ok) {
+        const data = await response.json();
+        setTaxRegimes(data.taxRegimes);
+        setTaxForm({
+          rfc: data.profile?.rfc || '',
+          legalName: data.profile?.legalName || '',
+          taxRegime: data.profile?.taxRegime || '',
+          zipCode: data.profile?.zipCode || '',
+          cfdiUse: data.profile?.cfdiUse || '',
+          ivaExempt: data.ivaExempt
+        });
+      } else {
+        toast.error('Error al cargar los datos fiscales');
+      }
+    } catch (_error) {
+      toast.error('Error al cargar los datos fiscales');
+    }
+  };
+
+  const handleTaxSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingTax(true);
+
+    const { ivaExempt, cfdiUse, ...profile } = taxForm;
+
+    try {
+      const response = await fetch('/api/doctor/tax-settings', {
+        method: 'PUT',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          amount: parseFloat(withdrawalForm.amount),
-          paymentMethod: withdrawalForm.paymentMethod,
-          accountDetails: withdrawalForm.accountDetails
+          profile: {
+            ...profile,
+            // Honorarios médicos are only deductible for personas físicas
+            cfdiUse: cfdiUse || (profile.rfc.trim().length === 13 ? 'D01' : 'G03')
+          },
+          ivaExempt
         })
       });
 
       if (response.ok) {
-        toast.success('Solicitud de retiro enviada correctamente');
-        setShowWithdrawalDialog(false);
-        setWithdrawalForm({ amount: '', paymentMethod: '', accountDetails: '' });
+        toast.success('Datos fiscales actualizados');
+        setShowTaxDialog(false);
         loadEarningsData();
-        loadWithdrawals();
       } else {
         const error = await response.json();
-        toast.error(error.error || 'Error al procesar la solicitud');
+        toast.error(error.details?.[0]?.message || error.error || 'Error al guardar los datos fiscales');
       }
     } catch (_error) {
-      toast.error('Error al enviar la solicitud');
+      toast.error('Error al guardar los datos fiscales');
     } finally {
-      setSubmittingWithdrawal(false);
+      setSavingTax(false);
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('es-MX', {
-      style: 'currency',
-      currency: 'MXN'
-    }).format(amount);
+  const formatRate = (rate: number) =>
+    `${(rate * 100).toLocaleString('es-MX', { maximumFractionDigits: 2 })}%`;
+
+  const formatPeriod = (settlement: Settlement) => {
+    const format = (date: Date) =>
+      date.toLocaleDateString('es-MX', { month: 'short', day: 'numeric' });
+    // periodEnd is the start of the next week
+    const lastDay = new Date(new Date(settlement.periodEnd).getTime() - 1);
+    return `${format(new Date(settlement.periodStart))} - ${format(lastDay)}`;
   };
 
   const formatDate = (dateString: string) => {
@@ -223,11 +341,6 @@ export default function DoctorEarnings() {
     return <Icon className="h-4 w-4" />;
   };
 
-  const availableBalance = earningsData ? 
-    earningsData.summary.distributedEarnings - 
-    withdrawals.filter(w => ['PENDING', 'COMPLETED'].includes(w.status))
-      .reduce((sum, w) => sum + w.amount, 0) : 0;
-
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -240,7 +353,7 @@ export default function DoctorEarnings() {
     <div className="container mx-auto px-4 py-8">
       <div className="mb-8">
         <h1 className="text-3xl font-bold text-gray-900">Ganancias</h1>
-        <p className="text-gray-600 mt-2">Gestiona tus ingresos y retiros</p>
+        <p className="text-gray-600 mt-2">Tus ingresos y liquidaciones semanales</p>
       </div>
 
       {/* Summary Cards */}
@@ -249,9 +362,9 @@ export default function DoctorEarnings() {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Ganancias Totales</p>
+                <p className="text-sm font-medium text-gray-600">Por Liquidar</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {formatCurrency(earningsData?.summary.totalEarnings || 0)}
+                  {formatMexicanCurrency(earningsData?.balance.unsettled || 0)}
                 </p>
               </div>
               <DollarSign className="h-8 w-8 text-green-600" />
@@ -263,9 +376,9 @@ export default function DoctorEarnings() {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Distribuido</p>
+                <p className="text-sm font-medium text-gray-600">En Tránsito</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {formatCurrency(earningsData?.summary.distributedEarnings || 0)}
+                  {formatMexicanCurrency(earningsData?.balance.inTransit || 0)}
                 </p>
               </div>
               <TrendingUp className="h-8 w-8 text-blue-600" />
@@ -277,9 +390,9 @@ export default function DoctorEarnings() {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Disponible</p>
+                <p className="text-sm font-medium text-gray-600">Pagado</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {formatCurrency(availableBalance)}
+                  {formatMexicanCurrency(earningsData?.balance.paidOut || 0)}
                 </p>
               </div>
               <CreditCard className="h-8 w-8 text-purple-600" />
@@ -291,9 +404,12 @@ export default function DoctorEarnings() {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Transacciones</p>
+                <p className="text-sm font-medium text-gray-600">Comisiones</p>
                 <p className="text-2xl font-bold text-gray-900">
-                  {earningsData?.summary.totalTransactions || 0}
+                  {formatMexicanCurrency(earningsData?.summary.commissions || 0)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {Math.round((earningsData?.commissionRate || 0) * 100)}% por consulta
                 </p>
               </div>
               <Calendar className="h-8 w-8 text-orange-600" />
@@ -302,81 +418,71 @@ export default function DoctorEarnings() {
         </Card>
       </div>
 
+      {!earningsData?.payoutAccount.clabe && (
+        <div className="flex items-center gap-2 p-4 mb-8 border rounded-lg bg-yellow-50 text-yellow-800">
+          <AlertCircle className="h-5 w-5" />
+          <p className="text-sm">
+            Registra tu CLABE para recibir las liquidaciones semanales. Tus ganancias se acumulan hasta entonces.
+          </p>
+        </div>
+      )}
+
       {/* Main Content */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
         <div className="flex items-center justify-between">
           <TabsList>
             <TabsTrigger value="overview">Resumen</TabsTrigger>
-            <TabsTrigger value="payments">Pagos</TabsTrigger>
-            <TabsTrigger value="withdrawals">Retiros</TabsTrigger>
+            <TabsTrigger value="movements">Movimientos</TabsTrigger>
+            <TabsTrigger value="settlements">Liquidaciones</TabsTrigger>
           </TabsList>
 
-          <Dialog open={showWithdrawalDialog} onOpenChange={setShowWithdrawalDialog}>
+          <Dialog open={showAccountDialog} onOpenChange={openAccountDialog}>
             <DialogTrigger asChild>
               <Button className="flex items-center gap-2">
-                <Plus className="h-4 w-4" />
-                Solicitar Retiro
+                <Landmark className="h-4 w-4" />
+                Cuenta de Depósito
               </Button>
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Solicitar Retiro</DialogTitle>
+                <DialogTitle>Cuenta de Depósito</DialogTitle>
                 <DialogDescription>
-                  Disponible para retiro: {formatCurrency(availableBalance)}
+                  Cada lunes transferimos por SPEI lo que se te debe de la semana anterior
                 </DialogDescription>
               </DialogHeader>
-              <form onSubmit={handleWithdrawalSubmit} className="space-y-4">
+              <form onSubmit={handleAccountSubmit} className="space-y-4">
                 <div>
-                  <Label htmlFor="amount">Monto</Label>
+                  <Label htmlFor="clabe">CLABE Interbancaria</Label>
                   <Input
-                    id="amount"
-                    type="number"
-                    step="0.01"
-                    min="1"
-                    max={availableBalance}
-                    value={withdrawalForm.amount}
-                    onChange={(e) => setWithdrawalForm(prev => ({ ...prev, amount: e.target.value }))}
-                    placeholder="0.00"
+                    id="clabe"
+                    inputMode="numeric"
+                    maxLength={22}
+                    value={accountForm.clabe}
+                    onChange={(e) => setAccountForm(prev => ({ ...prev, clabe: e.target.value }))}
+                    placeholder="18 dígitos"
                     required
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="paymentMethod">Método de Pago</Label>
-                  <Select
-                    value={withdrawalForm.paymentMethod}
-                    onValueChange={(value) => setWithdrawalForm(prev => ({ ...prev, paymentMethod: value }))}
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Selecciona método" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="bank_transfer">Transferencia Bancaria</SelectItem>
-                      <SelectItem value="paypal">PayPal</SelectItem>
-                      <SelectItem value="stripe">Stripe</SelectItem>
-                    </SelectContent>
-                  </Select>
-                </div>
-
-                <div>
-                  <Label htmlFor="accountDetails">Detalles de Cuenta</Label>
+                  <Label htmlFor="accountHolder">Titular de la Cuenta</Label>
                   <Input
-                    id="accountDetails"
-                    value={withdrawalForm.accountDetails}
-                    onChange={(e) => setWithdrawalForm(prev => ({ ...prev, accountDetails: e.target.value }))}
-                    placeholder="Número de cuenta, email, etc."
+                    id="accountHolder"
+                    value={accountForm.accountHolder}
+                    onChange={(e) => setAccountForm(prev => ({ ...prev, accountHolder: e.target.value }))}
+                    placeholder="Nombre como aparece en el banco"
                     required
                   />
                 </div>
 
                 <div className="flex gap-2">
-                  <Button type="submit" disabled={submittingWithdrawal} className="flex-1">
-                    {submittingWithdrawal ? 'Procesando...' : 'Solicitar Retiro'}
+                  <Button type="submit" disabled={savingAccount} className="flex-1">
+                    {savingAccount ? 'Guardando...' : 'Guardar Cuenta'}
                   </Button>
                   <Button 
                     type="button" 
                     variant="outline" 
-                    onClick={() => setShowWithdrawalDialog(false)}
+                    onClick={() => setShowAccountDialog(false)}
                   >
                     Cancelar
                   </Button>
@@ -393,20 +499,20 @@ export default function DoctorEarnings() {
             <Card>
               <CardHeader>
                 <CardTitle>Ganancias Mensuales</CardTitle>
-                <CardDescription>Últimos 6 meses</CardDescription>
+                <CardDescription>Después de comisiones y reembolsos</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {earningsData?.monthlyEarnings.map((month, index) => (
-                    <div key={index} className="flex items-center justify-between p-3 border rounded">
+                  {earningsData?.monthlyEarnings.map((month) => (
+                    <div key={month.month} className="flex items-center justify-between p-3 border rounded">
                       <div>
                         <p className="font-medium">
-                          {new Date(month.month).toLocaleDateString('es-MX', { month: 'long', year: 'numeric' })}
+                          {new Date(`${month.month}-01T12:00:00`).toLocaleDateString('es-MX', { month: 'long', year: 'numeric' })}
                         </p>
                         <p className="text-sm text-gray-600">{month.transactions} transacciones</p>
                       </div>
                       <p className="text-lg font-bold text-green-600">
-                        {formatCurrency(month.earnings)}
+                        {formatMexicanCurrency(month.earnings)}
                       </p>
                     </div>
                   ))}
@@ -414,44 +520,200 @@ export default function DoctorEarnings() {
               </CardContent>
             </Card>
 
-            {/* Pending Withdrawals */}
+            {/* Period Breakdown */}
             <Card>
               <CardHeader>
-                <CardTitle>Retiros Pendientes</CardTitle>
-                <CardDescription>Solicitudes en proceso</CardDescription>
+                <CardTitle>Desglose del Periodo</CardTitle>
+                <CardDescription>{earningsData?.summary.payments || 0} pagos de consultas</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {earningsData?.pendingWithdrawals.length === 0 ? (
-                    <p className="text-gray-500 text-center py-4">No hay retiros pendientes</p>
-                  ) : (
-                    earningsData?.pendingWithdrawals.map((withdrawal) => (
-                      <div key={withdrawal.id} className="flex items-center justify-between p-3 border rounded">
-                        <div>
-                          <p className="font-medium">{formatCurrency(withdrawal.amount)}</p>
-                          <p className="text-sm text-gray-600">
-                            {formatDate(withdrawal.payment.appointment.scheduledAt)}
-                          </p>
-                        </div>
-                        <Badge className={STATUS_COLORS[withdrawal.status as keyof typeof STATUS_COLORS]}>
-                          {getStatusIcon(withdrawal.status)}
-                          <span className="ml-1">{withdrawal.status}</span>
-                        </Badge>
-                      </div>
-                    ))
+                <div className="space-y-3">
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Cobrado a pacientes</span>
+                    <span className="font-medium">{formatMexicanCurrency(earningsData?.summary.grossAmount || 0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Comisión de la plataforma</span>
+                    <span className="font-medium">-{formatMexicanCurrency(earningsData?.summary.commissions || 0)}</span>
+                  </div>
+                  {!!earningsData?.summary.installmentFees && (
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Meses sin intereses</span>
+                      <span className="font-medium">-{formatMexicanCurrency(earningsData.summary.installmentFees)}</span>
+                    </div>
                   )}
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Reembolsos</span>
+                    <span className="font-medium">-{formatMexicanCurrency(earningsData?.summary.refunds || 0)}</span>
+                  </div>
+                  <div className="flex justify-between pt-3 border-t">
+                    <span className="font-medium">Ganancias netas</span>
+                    <span className="font-bold text-green-600">{formatMexicanCurrency(earningsData?.summary.earnings || 0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Retención de ISR</span>
+                    <span className="font-medium">-{formatMexicanCurrency(earningsData?.summary.isrWithheld || 0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Retención de IVA</span>
+                    <span className="font-medium">-{formatMexicanCurrency(earningsData?.summary.ivaWithheld || 0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Transferido en el periodo</span>
+                    <span className="font-medium">{formatMexicanCurrency(earningsData?.summary.paidOut || 0)}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Tax Withholdings */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Retenciones de Impuestos</CardTitle>
+                <CardDescription>
+                  ISR e IVA que retenemos de tus liquidaciones según tu régimen fiscal
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-6">
+                  <div className="space-y-1">
+                    {earningsData?.withholding.taxRegime ? (
+                      <p className="font-medium">Régimen fiscal {earningsData.withholding.taxRegime}</p>
+                    ) : (
+                      <p className="font-medium">Sin datos fiscales registrados</p>
+                    )}
+                    {earningsData?.withholding.rule ? (
+                      <p className="text-sm text-gray-600">
+                        ISR {formatRate(earningsData.withholding.rule.isrRate)}
+                        {earningsData.withholding.ivaExempt
+                          ? ' • Consultas exentas de IVA'
+                          : ` • IVA ${formatRate(earningsData.withholding.rule.ivaShare * 0.16)}`}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-600">No se aplican retenciones a tus liquidaciones</p>
+                    )}
+                    <Dialog open={showTaxDialog} onOpenChange={openTaxDialog}>
+                      <DialogTrigger asChild>
+                        <Button variant="outline" size="sm" className="mt-2 flex items-center gap-2">
+                          <FileText className="h-4 w-4" />
+                          Datos Fiscales
+                        </Button>
+                      </DialogTrigger>
+                      <DialogContent>
+                        <DialogHeader>
+                          <DialogTitle>Datos Fiscales</DialogTitle>
+                          <DialogDescription>
+                            Se aplican a partir de la siguiente liquidación semanal
+                          </DialogDescription>
+                        </DialogHeader>
+                        <form onSubmit={handleTaxSubmit} className="space-y-4">
+                          <div>
+                            <Label htmlFor="rfc">RFC</Label>
+                            <Input
+                              id="rfc"
+                              value={taxForm.rfc}
+                              onChange={(e) => setTaxForm(prev => ({ ...prev, rfc: e.target.value }))}
+                              required
+                            />
+                          </div>
+
+                          <div>
+                            <Label htmlFor="legalName">Nombre o Razón Social</Label>
+                            <Input
+                              id="legalName"
+                              value={taxForm.legalName}
+                              onChange={(e) => setTaxForm(prev => ({ ...prev, legalName: e.target.value }))}
+                              placeholder="Como aparece en tu constancia de situación fiscal"
+                              required
+                            />
+                          </div>
+
+                          <div>
+                            <Label htmlFor="taxRegime">Régimen Fiscal</Label>
+                            <Select
+                              value={taxForm.taxRegime}
+                              onValueChange={(value) => setTaxForm(prev => ({ ...prev, taxRegime: value }))}
+                            >
+                              <SelectTrigger>
+                                <SelectValue placeholder="Selecciona tu régimen" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {Object.entries(taxRegimes).map(([code, name]) => (
+                                  <SelectItem key={code} value={code}>
+                                    {code} - {name}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+
+                          <div>
+                            <Label htmlFor="zipCode">Código Postal Fiscal</Label>
+                            <Input
+                              id="zipCode"
+                              inputMode="numeric"
+                              maxLength={5}
+                              value={taxForm.zipCode}
+                              onChange={(e) => setTaxForm(prev => ({ ...prev, zipCode: e.target.value }))}
+                              required
+                            />
+                          </div>
+
+                          <div className="flex items-center justify-between">
+                            <Label htmlFor="ivaExempt">Mis consultas están exentas de IVA</Label>
+                            <Switch
+                              id="ivaExempt"
+                              checked={taxForm.ivaExempt}
+                              onCheckedChange={(checked) => setTaxForm(prev => ({ ...prev, ivaExempt: checked }))}
+                            />
+                          </div>
+
+                          <div className="flex gap-2">
+                            <Button type="submit" disabled={savingTax || !taxForm.taxRegime} className="flex-1">
+                              {savingTax ? 'Guardando...' : 'Guardar Datos'}
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={() => setShowTaxDialog(false)}
+                            >
+                              Cancelar
+                            </Button>
+                          </div>
+                        </form>
+                      </DialogContent>
+                    </Dialog>
+                  </div>
+
+                  <div className="flex items-end gap-2">
+                    <div>
+                      <Label htmlFor="statementMonth">Constancia mensual</Label>
+                      <Input
+                        id="statementMonth"
+                        type="month"
+                        value={statementMonth}
+                        onChange={(e) => setStatementMonth(e.target.value)}
+                      />
+                    </div>
+                    <Button variant="outline" className="flex items-center gap-2" asChild>
+                      <a href={`/api/doctor/earnings/withholding-statement?month=${statementMonth}`}>
+                        <Download className="h-4 w-4" />
+                        Descargar
+                      </a>
+                    </Button>
+                  </div>
                 </div>
               </CardContent>
             </Card>
           </div>
         </TabsContent>
 
-        {/* Payments Tab */}
-        <TabsContent value="payments">
+        {/* Movements Tab */}
+        <TabsContent value="movements">
           <Card>
             <CardHeader>
-              <CardTitle>Historial de Pagos</CardTitle>
-              <CardDescription>Todos los pagos recibidos</CardDescription>
+              <CardTitle>Movimientos</CardTitle>
+              <CardDescription>Pagos, reembolsos y transferencias de tu cuenta</CardDescription>
             </CardHeader>
             <CardContent>
               {/* Filters */}
@@ -475,46 +737,57 @@ export default function DoctorEarnings() {
                   />
                 </div>
                 <div className="flex-1">
-                  <Label htmlFor="status">Estado</Label>
+                  <Label htmlFor="type">Tipo</Label>
                   <Select
-                    value={filters.status}
-                    onValueChange={(value) => setFilters(prev => ({ ...prev, status: value, page: 1 }))}
+                    value={filters.type}
+                    onValueChange={(value) => setFilters(prev => ({ ...prev, type: value, page: 1 }))}
                   >
                     <SelectTrigger>
                       <SelectValue placeholder="Todos" />
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="">Todos</SelectItem>
-                      <SelectItem value="PENDING">Pendiente</SelectItem>
-                      <SelectItem value="COMPLETED">Completado</SelectItem>
-                      <SelectItem value="FAILED">Fallido</SelectItem>
-                      <SelectItem value="REFUNDED">Reembolsado</SelectItem>
+                      <SelectItem value="PAYMENT_SPLIT">Pagos</SelectItem>
+                      <SelectItem value="REFUND_REVERSAL">Reembolsos</SelectItem>
+                      <SelectItem value="PAYOUT">Transferencias</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
-              {/* Payments List */}
+              {/* Ledger Lines */}
               <div className="space-y-4">
-                {earningsData?.payments.map((payment) => (
-                  <div key={payment.id} className="flex items-center justify-between p-4 border rounded-lg">
+                {earningsData?.lines.length === 0 && (
+                  <p className="text-gray-500 text-center py-8">No hay movimientos en el periodo</p>
+                )}
+                {earningsData?.lines.map((line) => (
+                  <div key={line.id} className="flex items-center justify-between p-4 border rounded-lg">
                     <div className="flex-1">
-                      <div className="flex items-center gap-3">
-                        <div>
-                          <p className="font-medium">{payment.appointment.patient.name}</p>
-                          <p className="text-sm text-gray-600">
-                            {formatDate(payment.appointment.scheduledAt)}
-                          </p>
-                        </div>
-                      </div>
+                      <p className="font-medium">{line.patientName || line.description}</p>
+                      <p className="text-sm text-gray-600">
+                        {LINE_TYPE_LABELS[line.type]} • {formatDate(line.createdAt)}
+                      </p>
+                      {line.scheduledAt && (
+                        <p className="text-xs text-gray-500">
+                          Consulta: {formatDate(line.scheduledAt)}
+                        </p>
+                      )}
                     </div>
                     
                     <div className="text-right">
-                      <p className="text-lg font-bold">{formatCurrency(payment.amount)}</p>
-                      <Badge className={STATUS_COLORS[payment.status as keyof typeof STATUS_COLORS]}>
-                        {getStatusIcon(payment.status)}
-                        <span className="ml-1">{payment.status}</span>
-                      </Badge>
+                      <p className={`text-lg font-bold ${line.doctorAmount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {formatMexicanCurrency(line.doctorAmount)}
+                      </p>
+                      {line.withheldAmount > 0 && (
+                        <p className="text-xs text-gray-500">
+                          incluye retenciones por {formatMexicanCurrency(line.withheldAmount)}
+                        </p>
+                      )}
+                      {line.grossAmount !== null && line.type === 'PAYMENT_SPLIT' && (
+                        <p className="text-xs text-gray-500">
+                          de {formatMexicanCurrency(line.grossAmount)} • comisión {formatMexicanCurrency(line.platformAmount)}
+                        </p>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -552,35 +825,48 @@ export default function DoctorEarnings() {
           </Card>
         </TabsContent>
 
-        {/* Withdrawals Tab */}
-        <TabsContent value="withdrawals">
+        {/* Settlements Tab */}
+        <TabsContent value="settlements">
           <Card>
             <CardHeader>
-              <CardTitle>Historial de Retiros</CardTitle>
-              <CardDescription>Todas las solicitudes de retiro</CardDescription>
+              <CardTitle>Liquidaciones Semanales</CardTitle>
+              <CardDescription>Transferencias SPEI a tu CLABE</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
-                {withdrawals.length === 0 ? (
-                  <p className="text-gray-500 text-center py-8">No hay retiros registrados</p>
+                {earningsData?.settlements.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">No hay liquidaciones registradas</p>
                 ) : (
-                  withdrawals.map((withdrawal) => (
-                    <div key={withdrawal.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  earningsData?.settlements.map((settlement) => (
+                    <div key={settlement.id} className="flex items-center justify-between p-4 border rounded-lg">
                       <div>
-                        <p className="font-medium">{formatCurrency(withdrawal.amount)}</p>
+                        <p className="font-medium">{formatMexicanCurrency(settlement.amount)}</p>
                         <p className="text-sm text-gray-600">
-                          {withdrawal.paymentMethod} • {formatDate(withdrawal.requestedAt)}
+                          Semana {formatPeriod(settlement)} • CLABE ****{settlement.clabe.slice(-4)}
                         </p>
-                        {withdrawal.processedAt && (
+                        {(settlement.isrWithheld > 0 || settlement.ivaWithheld > 0) && (
+                          <p className="text-xs text-gray-500">
+                            Retenciones: ISR {formatMexicanCurrency(settlement.isrWithheld)} • IVA {formatMexicanCurrency(settlement.ivaWithheld)}
+                          </p>
+                        )}
+                        {settlement.paidAt && (
                           <p className="text-xs text-gray-500">
-                            Procesado: {formatDate(withdrawal.processedAt)}
+                            Pagada: {formatDate(settlement.paidAt)}
+                            {settlement.trackingKey && ` • Clave de rastreo ${settlement.trackingKey}`}
+                          </p>
+                        )}
+                        {settlement.failureReason && (
+                          <p className="text-xs text-red-600">
+                            {settlement.failureReason}. El monto se incluirá en la siguiente liquidación.
                           </p>
                         )}
                       </div>
                       
-                      <Badge className={STATUS_COLORS[withdrawal.status as keyof typeof STATUS_COLORS]}>
-                        {getStatusIcon(withdrawal.status)}
-                        <span className="ml-1">{withdrawal.status}</span>
+                      <Badge className={STATUS_COLORS[settlement.status as keyof typeof STATUS_COLORS]}>
+                        {getStatusIcon(settlement.status)}
+                        <span className="ml-1">
+                          {SETTLEMENT_STATUS_LABELS[settlement.status as keyof typeof SETTLEMENT_STATUS_LABELS] || settlement.status}
+                        </span>
                       </Badge>
                     </div>
                   ))
@@ -592,4 +878,4 @@ export default function DoctorEarnings() {
       </Tabs>
     </div>
   );
-}
\ No newline at end of file
+}